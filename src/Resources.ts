@@ -26,17 +26,41 @@ export type MitarbeiterRolle =
   | "support"
   | "gefluegel";
 
+/** Strukturierte Adresse (Kunde, Lieferadresse, Kopie am TourStop) */
+export type AdresseResource = {
+  strasse?: string;
+  hausnummer?: string;
+  plz?: string;
+  ort?: string;
+  land?: string;
+  lat?: number;
+  lng?: number;
+};
+
+export type LieferadresseResource = AdresseResource & {
+  id?: string;
+  bezeichnung?: string;
+  standard: boolean;           // genau eine Standard-Lieferadresse je Kunde
+};
+
 export type KundeResource = {
   id?: string;
   name: string;
   kundenNummer?: string;
   password?: string;
   email?: string;
-  adresse?: string;
+  adresse?: string; // formatiert aus strasse/hausnummer/plz/ort (Altbestand: Freitext)
+  strasse?: string;
+  hausnummer?: string;
+  plz?: string;
+  ort?: string;
   land?: string; // Land des Kunden (für MwSt-Berechnung, Standard: "Deutschland")
   telefon?: string;
   updatedAt?: string;
   lieferzeit?: string;
+  lat?: number; // Geokoordinaten der Lieferadresse (Routenoptimierung)
+  lng?: number;
+  lieferadressen?: LieferadresseResource[];
   ustId?: string;
   handelsregisterNr?: string;
   ansprechpartner?: string;
@@ -54,13 +78,18 @@ export type KundeResource = {
   emailSpedition?: string;
   bestimmteArtikel?: string[]; // erlaubte/bestimmte Artikel (ObjectIds als Strings)
   fehlmengenBenachrichtigung?: boolean; // Opt-in für Fehlmengen-Email
+  rechnungsIntervall?: RechnungsIntervall; // Einzel- oder Sammelrechnung
 };
 
+/** Abrechnungsrhythmus eines Kunden (Sammelrechnung) */
+export type RechnungsIntervall = "pro_lieferung" | "woechentlich" | "zweiwoechentlich" | "monatlich";
+
 export type AuftragResource = {
   id?: string;
   auftragsnummer: string;
   kunde: string; // ID des Kunden
   kundeName?: string;
+  lieferadresseId?: string; // Lieferadresse des Kunden; leer → Standard-Lieferadresse
   artikelPosition: string[]; // Array von IDs der Artikelpositionen
   status: "offen" | "in Bearbeitung" | "abgeschlossen" | "storniert";
   lieferdatum?: string; // ISO-Datum als String, optional
@@ -96,10 +125,13 @@ export type AuftragResource = {
   rechnungsNummer?: string;
   gutschriftNummern?: string[];        // mehrere Gutschriften möglich
   preisdifferenzNummern?: string[];    // mehrere Preisdifferenzen möglich
+  rechnungFinalisiertAm?: string;      // gesetzt → Auftrag gesperrt (Änderungen nur per Gutschrift/Storno)
 
   zahlstatus?: Zahlstatus;             // offen | teilweise | bezahlt
   offenBetrag?: number;                // offener Betrag in EUR
   zahlungsDatum?: string;              // ISO-Datum, wenn bezahlt
+  mahnstufe?: number;                  // zuletzt gemahnte Stufe
+  letzteMahnungAm?: string;            // ISO-Datum
 
   belegListe?: BelegResource[];        // nicht persistente Metadaten zu erzeugten Belegen
   emailLogs?: EmailLogResource[];      // Versand-Historie
@@ -136,6 +168,11 @@ export type ArtikelPositionResource = {
   chargennummern?: string[];
   erfassungsModus?: "GEWICHT" | "KARTON" | "STÜCK";
   leergutVonPositionId?: string;
+  lagerbereich?: Lagerbereich;
+  chargenEntnahmen?: ChargenEntnahme[]; // gebuchte Entnahmen je Charge (kg)
+  chargenAbweichung?: ChargenAbweichungResource;
+  chargenFehlmengeKg?: number;   // nur in der Antwort: nicht durch Bestand gedeckt, nicht gebucht
+  chargenBuchungFehler?: string; // nur in der Antwort: Kommissionierung gespeichert, Chargenbuchung fehlgeschlagen
 };
 
 export type ArtikelResource = {
@@ -175,7 +212,8 @@ export type BelegTyp =
   | "gutschrift"
   | "preisdifferenz"
   | "auftragsbestaetigung"
-  | "ladebestaetigung";
+  | "ladebestaetigung"
+  | "stornorechnung";
 
 export type BelegResource = {
   id?: string;
@@ -186,6 +224,71 @@ export type BelegResource = {
   status?: "entwurf" | "final"; // Dokumentstatus
   pdfGeneriert?: boolean;        // wurde ein PDF erzeugt
   referenzBelegNummer?: string;  // z. B. Bezug auf Rechnung bei Gutschrift/Preisdifferenz
+  pdfHash?: string;              // SHA-256 des archivierten PDFs (nur final)
+};
+
+/** Belegtypen mit eigenem Nummernkreis (Vergabe erst bei Finalisierung) */
+export type FinalBelegTyp = "rechnung" | "gutschrift" | "preisdifferenz" | "lieferschein" | "stornorechnung";
+
+/** Sammelrechnung: ein Abschnitt je Lieferung */
+export type SammelrechnungAbschnitt = {
+  auftragId: string;
+  auftragsnummer?: string;
+  lieferscheinNummer?: string;
+  lieferdatum?: string;          // ISO-String
+  anzahlPositionen: number;      // Anzahl der zugehörigen Einträge in positionen (in Reihenfolge)
+  summeNetto: number;
+};
+
+/** Unveränderlicher Snapshot eines finalisierten Belegs (ohne PDF-Bytes) */
+export type BelegArchivResource = {
+  id: string;
+  auftragId: string;
+  auftragIds: string[];          // Sammelrechnung: alle enthaltenen Aufträge
+  auftragsnummer?: string;
+  typ: FinalBelegTyp;
+  nummer: string;                // z. B. RE-2025-00001
+  jahr: number;
+  laufnummer: number;
+  datum: string;                 // ISO-String
+  referenzBelegNummer?: string;
+  stornoGrund?: string;          // nur Stornorechnung
+  zeitraumVon?: string;          // nur Sammelrechnung
+  zeitraumBis?: string;
+  abschnitte?: SammelrechnungAbschnitt[];
+  kunde: {
+    id: string;
+    name?: string;
+    kundenNummer?: string;
+    adresse?: string;
+    land?: string;
+    ustId?: string;
+    email?: string;
+  };
+  positionen: ArtikelPositionResource[];
+  betragNetto: number;
+  mwstSatz: number;
+  mwstBetrag: number;
+  betragBrutto: number;
+  pdfHash: string;
+  finalisiertVon?: string;
+  finalisiertAm: string;         // ISO-String
+};
+
+export type DatevExportArt = "buchungsstapel" | "debitoren";
+
+/** DATEV-Export (EXTF): Buchungsstapel der finalen Belege oder Debitoren-Stammdaten */
+export type DatevExportResource = {
+  id: string;
+  art: DatevExportArt;
+  von?: string;                  // ISO-String (nur Buchungsstapel)
+  bis?: string;
+  belegNummern: string[];
+  anzahlZeilen: number;
+  dateiname: string;
+  hinweise: string[];
+  erstelltVon?: string;
+  createdAt: string;             // ISO-String
 };
 
 export type EmailLogResource = {
@@ -278,6 +381,7 @@ export type TourStopResource = {
   kundeId: string;            // denormalisiert für schnelle Customer-Sicht
   kundeName?: string;
   kundeAdress?: string;
+  lieferadresse?: AdresseResource; // Kopie der Lieferadresse des Auftrags
   position: number;           // Reihenfolge in der Tour (1..n)
   gewichtKg?: number;         // Summe aus Auftrag (Fallback)
   status: StopStatus;
@@ -286,7 +390,8 @@ export type TourStopResource = {
     text?: string;
   };
   // Rechtlich relevanter Zustellnachweis (ohne Fotos):
-  signaturPngBase64?: string; // digitale Unterschrift als Base64-PNG
+  signaturPngBase64?: string; // digitale Unterschrift als Base64-PNG (nur Altbestand vor der Dateiablage)
+  signaturDateiId?: string;   // Unterschrift in der Dateiablage (GET /api/dateien/:id)
   signTimestampUtc?: string;  // Server-Zeitstempel (UTC)
   signedByName?: string;      // Name des Unterzeichners (Freitext)
 
@@ -302,6 +407,76 @@ export type TourStopResource = {
   updatedAt?: string;
 };
 
+export type RoutenStopResource = {
+  stopId: string;
+  kundeId: string;
+  kundeName?: string;
+  positionAlt: number;
+  positionNeu: number;
+  fixiert: boolean;           // bereits unterwegs/abgeschlossen → bleibt vorne
+  lat?: number;
+  lng?: number;
+  zeitfenster?: string;       // aus Kunde.lieferzeit, z. B. "08:00–12:00"
+  ankunft?: string;           // geschätzt, HH:mm (Europe/Berlin)
+  wartezeitMin?: number;      // zu früh → Warten bis Fensterbeginn
+  verspaetungMin?: number;    // nach Fensterende
+  distanzKm?: number;         // Anfahrt vom vorherigen Punkt
+};
+
+export type RoutenVorschlagResource = {
+  tourId: string;
+  depot: { lat: number; lng: number };
+  startZeit: string;          // HH:mm
+  rueckfahrt: boolean;        // Rückweg zum Depot eingerechnet
+  distanzKm: number;
+  dauerMin: number;           // Fahrt + Standzeiten + Wartezeiten
+  vorherDistanzKm: number;    // bisherige Reihenfolge
+  vorherDauerMin: number;
+  zeitfensterVerletzt: number;
+  ohneKoordinaten: string[];  // Stop-IDs, die unverändert ans Ende gestellt werden
+  angewendet: boolean;        // TourStop.position wurde gesetzt
+  stops: RoutenStopResource[]; // in neuer Reihenfolge
+};
+
+export type LadelistePositionResource = {
+  stopId: string;
+  auftragId: string;
+  auftragsnummer?: string;
+  kundeName?: string;
+  kundeAdress?: string;
+  position: number;           // Lieferreihenfolge in der Tour
+  ladeReihenfolge: number;    // 1 = zuerst laden (= letzter Stop)
+  paletten: number;           // Auftrag.gesamtPaletten
+  boxen: number;              // Auftrag.gesamtBoxen
+  gewichtKg: number;
+  tkGewichtKg: number;        // Positionen mit TK-Charge
+  nonTkGewichtKg: number;
+  beladeStatus: "offen" | "beladen";
+  beladeVonName?: string;
+  beladeZeit?: string;
+  bemerkung?: string;
+};
+
+export type LadelisteResource = {
+  tourId: string;
+  tourName?: string;
+  datum: string;              // YYYY-MM-DD
+  region: string;
+  fahrer?: string;
+  fahrzeug?: string;
+  maxGewichtKg?: number;      // Tour, sonst Fahrzeug
+  gesamtGewichtKg: number;
+  auslastungProzent?: number;
+  ueberladen: boolean;
+  tkGewichtKg: number;
+  nonTkGewichtKg: number;
+  paletten: number;
+  boxen: number;
+  beladen: number;            // Anzahl bereits beladener Aufträge
+  offen: number;
+  positionen: LadelistePositionResource[]; // in Ladereihenfolge
+};
+
 export type ReihenfolgeVorlageResource = {
   id?: string;
   region: string;             // Freitext
@@ -456,6 +631,162 @@ export type OffenerPostenResource = {
   tageOffen: number;
   mahndatum?: string;
   stufe: string;
+  kundeId?: string;            // verknüpfter Kunde (falls zugeordnet)
+  kundeZuordnung?: KundeZuordnungArt;
+};
+
+/** Validierungsfehler einer Zeile im OP-Export (zeile = Zeilennummer in der Datei) */
+export type OffenePostenZeilenFehler = {
+  zeile: number;
+  meldungen: string[];
+};
+
+/** Ergebnis eines Datei-Uploads: import ist nur gesetzt, wenn tatsächlich importiert wurde */
+export type OffenePostenDateiImportResource = {
+  dateiname: string;
+  berichtsDatum: string;
+  spalten: Record<string, string>;
+  anzahlPosten: number;
+  gesamtBetrag: number;
+  fehler: OffenePostenZeilenFehler[];
+  import?: OffenerPostenImportResource;
+};
+
+/** Posten im Vergleich zweier Imports (Schlüssel: Kontonummer + Rechnungsnummer) */
+export type OffenePostenVergleichPosten = {
+  reNr: string;
+  datum: string;
+  betragAlt: number;           // 0 bei neu eröffneten Posten
+  betragNeu: number;           // 0 bei bezahlten Posten
+  differenz: number;
+  tageOffenAlt?: number;
+  tageOffenNeu?: number;
+  deltaTage?: number;
+};
+
+export type OffenePostenVergleichKunde = {
+  kontonr: string;
+  kunde: string;
+  summeAlt: number;
+  summeNeu: number;
+  differenz: number;           // > 0 = Saldo gestiegen
+  tendenz: "besser" | "schlechter" | "unveraendert";
+  neu: OffenePostenVergleichPosten[];
+  bezahlt: OffenePostenVergleichPosten[];
+  offen: OffenePostenVergleichPosten[];
+};
+
+export type OffenePostenVergleichResource = {
+  importAlt: OffenerPostenImportResource;
+  importNeu: OffenerPostenImportResource;
+  summeAlt: number;
+  summeNeu: number;
+  summeNeuEroeffnet: number;
+  summeBezahlt: number;
+  kunden: OffenePostenVergleichKunde[];
+};
+
+export type OffenePostenSaldoVerlaufResource = {
+  kontonr: string;
+  kunde: string;
+  verlauf: {
+    importId: string;
+    berichtsDatum: string;
+    saldo: number;
+    anzahlPosten: number;
+    maxTageOffen: number;
+  }[];
+};
+
+// ===== Buchhaltung: Mahnwesen =====
+
+export type MahnstufeResource = {
+  id?: string;
+  stufe: number;                 // 1 = Zahlungserinnerung, 2 = 1. Mahnung, …
+  bezeichnung: string;
+  tageUeberfaellig: number;      // ab so vielen Tagen nach Fälligkeit
+  gebuehr: number;               // EUR
+  zahlungsfristTage: number;
+  betreff: string;               // Platzhalter: {{kunde}}, {{summe}}, {{frist}}, …
+  text: string;
+  aktiv: boolean;
+};
+
+export type MahnungQuelle = "offene_posten" | "rechnungen";
+export type MahnungStatus = "vorschlag" | "erstellt" | "versendet";
+
+export type MahnungPostenResource = {
+  reNr: string;
+  belegDatum: string;            // ISO-String
+  betrag: number;
+  tageUeberfaellig: number;
+  stufe: number;
+  auftragId?: string;
+  offenerPostenId?: string;
+};
+
+export type MahnungResource = {
+  id?: string;
+  quelle: MahnungQuelle;
+  kundeId?: string;
+  kundeName: string;
+  kundenNummer?: string;
+  stufe: number;
+  stufeBezeichnung: string;
+  datum: string;                 // ISO-String
+  zahlungsfrist: string;         // ISO-String
+  posten: MahnungPostenResource[];
+  summe: number;
+  gebuehr: number;
+  gesamt: number;
+  status: MahnungStatus;
+  emailEmpfaenger?: string;
+  versendetAm?: string;
+};
+
+// ===== Buchhaltung: Kontoauszüge & Zahlungsabgleich =====
+
+export type BankImportFormat = "CAMT053" | "MT940";
+
+export type BankImportResource = {
+  id?: string;
+  datum: string;
+  dateiname: string;
+  format: BankImportFormat;
+  kontoIban?: string;
+  anzahlTransaktionen: number;
+  anzahlDuplikate: number;
+  anzahlZugeordnet: number;
+};
+
+export type BankTransaktionStatus = "offen" | "zugeordnet" | "ignoriert";
+
+export type BankZuordnungResource = {
+  auftragId: string;
+  rechnungsNummer?: string;
+  betrag: number;
+  art: "rechnungsnummer" | "betrag_kunde" | "manuell";
+  datum: string;
+  von?: string;
+};
+
+export type BankTransaktionResource = {
+  id?: string;
+  importId: string;
+  buchungsdatum: string;
+  valuta?: string;
+  betrag: number;                // Eingang positiv, Ausgang negativ
+  waehrung: string;
+  verwendungszweck: string;
+  gegenkontoName?: string;
+  gegenkontoIban?: string;
+  bankReferenz?: string;
+  status: BankTransaktionStatus;
+  zuordnungen: BankZuordnungResource[];
+  restBetrag: number;
+  kundeId?: string;
+  vorschlaege?: string[];        // Auftrag-IDs
+  bemerkung?: string;
 };
 
 export type LeergutImportResource = {
@@ -474,6 +805,131 @@ export type LeergutEintragResource = {
   adresse?: string;
   artikel: string;
   alterBestand: number;
+  kundeId?: string;
+  kundeZuordnung?: KundeZuordnungArt;
+};
+
+// ===== Leergutkonto (Pfand-/Leihgutkonto je Kunde und Leergutart) =====
+
+export type LeergutBuchungsArt = "eroeffnung" | "lieferung" | "rueckgabe" | "korrektur";
+
+export type LeergutKontoBuchungResource = {
+  id: string;
+  kundeId: string;
+  leergutArt: string;
+  datum: string;
+  menge: number;               // > 0 an Kunde geliefert, < 0 zurückgenommen
+  art: LeergutBuchungsArt;
+  auftragId?: string;
+  belegNummer?: string;        // Lieferschein- bzw. Auftragsnummer (nur im Kontoauszug)
+  tourStopId?: string;
+  bemerkung?: string;
+  erstelltVon?: string;
+  erstelltAm?: string;
+  saldo?: number;              // laufender Saldo (nur im Kontoauszug)
+};
+
+export type LeergutSaldoResource = {
+  leergutArt: string;
+  bezeichnung: string;
+  saldo: number;
+};
+
+export type LeergutKontoauszugResource = {
+  kundeId: string;
+  kundeName: string;
+  von?: string;
+  bis: string;
+  konten: {
+    leergutArt: string;
+    bezeichnung: string;
+    anfangsbestand: number;
+    zugang: number;            // Summe Lieferungen/Korrekturen > 0
+    abgang: number;            // Summe Rückgaben/Korrekturen < 0 (positiv angegeben)
+    endbestand: number;
+    buchungen: LeergutKontoBuchungResource[];
+  }[];
+};
+
+export type LeergutAuszugLaufResource = {
+  zeitraum: string;            // z.B. "September 2026"
+  von: string;
+  bis: string;
+  versendet: number;
+  uebersprungen: number;       // für den Zeitraum bereits versendet
+  ohneEmail: { kundeId: string; kundeName: string }[];
+  fehler: { kundeId: string; kundeName: string; fehler: string }[];
+};
+
+// ===== Dateiablage (Unterschriften, Leergut-PDFs, Kundendokumente) =====
+
+export type DateiBesitzerTyp = "tourstop" | "leergutbuchung" | "kunde" | "reklamation";
+export type DateiZweck = "signatur" | "leergut-pdf" | "gewerbe" | "zusatz" | "reklamation-foto";
+
+export type DateiResource = {
+  id: string;
+  dateiname: string;
+  contentType: string;
+  groesse: number;             // Bytes
+  sha256: string;
+  backend: "gridfs" | "lokal" | "s3";
+  besitzerTyp: DateiBesitzerTyp;
+  besitzerId: string;
+  zweck: DateiZweck;
+  hochgeladenVon?: string;
+  erstelltAm?: string;
+  url: string;                 // Download-Pfad
+};
+
+export type KundeAdressMigrationResource = {
+  geprueft: number;
+  aktualisiert: number;
+  nichtErkannt: { kundeId: string; name: string; adresse: string }[]; // manuell nachpflegen
+};
+
+export type DateiMigrationResource = {
+  signaturen: number;
+  leergutPdfs: number;
+  kundenDateien: number;
+  fehler: { besitzerTyp: DateiBesitzerTyp; besitzerId: string; fehler: string }[];
+};
+
+// ===== Buchhaltung: Zuordnung externer Kontonummern zum Kundenstamm =====
+
+export type KundeZuordnungQuelle = "offene_posten" | "leergut";
+export type KundeZuordnungArt = "kundennummer" | "name" | "manuell";
+
+/** Nicht zugeordnete externe Kontonummer (Prüfliste) inkl. Namensvorschlägen */
+export type KundeZuordnungOffenResource = {
+  quelle: KundeZuordnungQuelle;
+  externeNr: string;
+  externerName: string;
+  anzahlEintraege: number;
+  summe: number;               // offener Betrag bzw. Leergut-Bestand
+  vorschlaege: { kundeId: string; name: string; kundenNummer?: string; score: number }[];
+};
+
+export type KundeZuordnungLaufResource = {
+  quelle: KundeZuordnungQuelle;
+  importId?: string;
+  zugeordnet: number;          // externe Nummern mit Kunde
+  offen: number;               // externe Nummern ohne Kunde
+};
+
+/** Buchhaltungssicht eines Kunden (letzter OP-Import, letzte Leergut-Liste) */
+export type KundeBuchhaltungResource = {
+  offenePosten?: {
+    berichtsDatum: string;
+    summe: number;
+    anzahl: number;
+    aeltesterTageOffen: number;
+    posten: OffenerPostenResource[];
+  };
+  leergut?: {
+    importDatum: string;
+    bestand: { artikel: string; menge: number }[];
+  };
+  leergutKonto?: LeergutSaldoResource[];  // aktueller Saldo aus dem Leergutkonto
 };
 
 // ===== Bestandsmodul: neue Ressourcen & Enums =====
@@ -517,7 +973,7 @@ export type ReservierungResource = {
 };
 
 // Anlieferung (Unterwegs)
-export type AnlieferungStatus = "ANGEKUENDIGT" | "TEILGELIEFERT" | "ERLEDIGT";
+export type AnlieferungStatus = "ANGEKUENDIGT" | "TEILGELIEFERT" | "ERLEDIGT" | "STORNIERT";
 
 export type AnlieferungResource = {
   id?: string;
@@ -529,8 +985,12 @@ export type AnlieferungResource = {
   chargeId?: string;            // falls bereits bekannt/angelegt
   lieferantId?: string;
   erwartetAm: string;           // ISO-Datum
-  menge: number;
+  menge: number;                // angekündigte Menge
+  geliefertMenge: number;       // bereits eingebuchte Menge (Teil-/Volllieferung)
+  offenMenge: number;           // noch unterwegs (menge - geliefertMenge, min. 0)
+  lagerbereich: Lagerbereich;   // Ziel-Lagerbereich für den Wareneingang
   status: AnlieferungStatus;
+  notiz?: string;
   createdAt?: string;
   createdBy?: string;           // Mitarbeiter-ID
 };
@@ -589,3 +1049,301 @@ export type BestandAggResource = {
   unterwegs: number;            // noch nicht eingetroffen
   updatedAt?: string;
 };
+
+// Abgleich der materialisierten Sicht (BestandAgg) gegen das Bewegungsjournal
+export type BestandMengen = {
+  verfuegbar: number;
+  reserviert: number;
+  unterwegs: number;
+};
+
+export type BestandAbgleichDifferenz = {
+  artikelId: string;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId?: string;
+  lagerbereich: Lagerbereich;
+  // ABWEICHUNG: Mengen weichen ab | FEHLT: Journal hat Bestand, BestandAgg-Zeile fehlt
+  // VERWAIST: BestandAgg-Zeile ohne Journal | DUPLIKAT: mehrere BestandAgg-Zeilen für denselben Schlüssel
+  art: "ABWEICHUNG" | "FEHLT" | "VERWAIST" | "DUPLIKAT";
+  journal: BestandMengen;       // Soll (aus Bewegungen)
+  agg: BestandMengen;           // Ist (BestandAgg, Duplikate summiert)
+  differenz: BestandMengen;     // agg - journal
+  aggZeilen: number;            // Anzahl BestandAgg-Dokumente zum Schlüssel
+};
+
+export type BestandAbgleichResource = {
+  geprueftAm: string;
+  dryRun: boolean;
+  artikelId?: string;
+  toleranz: number;
+  schluesselJournal: number;    // Anzahl Artikel/Charge/Lagerbereich-Kombinationen im Journal
+  schluesselAgg: number;        // … in BestandAgg
+  differenzen: BestandAbgleichDifferenz[];
+  angewendet?: { aktualisiert: number; angelegt: number; geloescht: number };
+};
+
+// Kommissionierung: Entnahme je Charge (FEFO = first expired, first out)
+export type ChargenEntnahme = {
+  chargeId: string;
+  menge: number;                // kg
+};
+
+export type FefoChargeResource = ChargenEntnahme & {
+  mhd: string;                  // ISO-Datum YYYY-MM-DD
+  schlachtDatum?: string;
+  isTK: boolean;
+  verfuegbar: number;           // Bestand der Charge im Lagerbereich (inkl. bereits für die Position gebucht)
+  gebucht: number;              // bereits für diese Position gebucht
+};
+
+export type FefoVorschlagResource = {
+  positionId: string;
+  artikelId: string;
+  artikelName?: string;
+  lagerbereich: Lagerbereich;
+  zielMengeKg: number;          // kommissionierte Menge in kg
+  gebuchtKg: number;
+  chargen: FefoChargeResource[];
+  fehlmengeKg: number;          // nicht durch Bestand gedeckt
+};
+
+// Abweichung des Kommissionierers vom FEFO-Vorschlag (protokolliert an der Position)
+export type ChargenAbweichungResource = {
+  vorschlag: ChargenEntnahme[];
+  grund?: string;
+  von?: string;
+  vonName?: string;
+  am: string;
+};
+
+// Inventur (Stichtagsinventur mit Blindzählung)
+export type InventurStatus = "ZAEHLUNG" | "PRUEFUNG" | "GEBUCHT" | "STORNIERT";
+
+export type InventurZaehlungResource = {
+  id: string;
+  mitarbeiterId: string;
+  mitarbeiterName?: string;
+  menge: number;                // kg
+  zeitpunkt: string;            // ISO
+  geraet?: string;
+};
+
+export type InventurPositionResource = {
+  id: string;
+  artikelId: string;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId?: string;
+  mhd?: string;                 // ISO-Datum YYYY-MM-DD
+  lagerbereich: Lagerbereich;
+  sollMenge: number;            // eingefrorener Bestand (kg)
+  preisJeKg: number;
+  zusatz: boolean;              // beim Zählen gefunden, nicht im Snapshot
+  zaehlungen: InventurZaehlungResource[]; // letzte Zählung je Zähler
+  istMenge?: number;            // festgelegter bzw. übereinstimmend gezählter Bestand
+  istBegruendung?: string;
+  status: "OFFEN" | "GEZAEHLT" | "KONFLIKT" | "FESTGELEGT";
+  differenz?: number;           // ist - soll (kg)
+  differenzWert?: number;       // differenz * preisJeKg (€)
+};
+
+export type InventurResource = {
+  id: string;
+  nummer: string;
+  bezeichnung?: string;
+  stichtag: string;             // ISO-Datum
+  sollStandAm?: string;         // Stand des eingefrorenen Soll (ISO)
+  lagerbereich?: Lagerbereich;
+  status: InventurStatus;
+  notiz?: string;
+  erstelltVon?: string;
+  erstelltVonName?: string;
+  freigegebenVon?: string;
+  freigegebenVonName?: string;
+  freigegebenAm?: string;
+  createdAt?: string;
+  positionen?: InventurPositionResource[];
+  summen: {
+    positionen: number;
+    offen: number;
+    konflikte: number;
+    sollWert: number;           // €
+    istWert: number;            // € (nur gezählte/festgelegte Positionen)
+    differenzWert: number;      // €
+  };
+};
+
+// Zählliste für Zähler: ohne Soll-Bestand und ohne Zählungen anderer (Blindzählung)
+export type InventurZaehlpositionResource = {
+  id: string;
+  artikelId: string;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId?: string;
+  mhd?: string;
+  lagerbereich: Lagerbereich;
+  meineMenge?: number;          // eigene letzte Zählung
+  meinZeitpunkt?: string;
+};
+
+// Rücklieferung Kunde (Retoure zu einer Auftragsposition)
+export type RuecklieferungGrund =
+  | "QUALITAET"
+  | "MHD"
+  | "TEMPERATUR"
+  | "BESCHAEDIGT"
+  | "FALSCHLIEFERUNG"
+  | "UEBERLIEFERUNG"
+  | "SONSTIGES";
+
+// BESTAND: zurück ins Lager | MUELL: entsorgen | QUARANTAENE: gesperrt bis zur Entscheidung
+export type RuecklieferungVerbleib = "BESTAND" | "MUELL" | "QUARANTAENE";
+
+export type KundenRuecklieferungResource = {
+  id?: string;
+  nummer: string;               // z.B. "RKL-2026-0001"
+  auftragId: string;
+  auftragsnummer?: string;
+  artikelPositionId: string;
+  kundeId?: string;
+  kundeName?: string;
+  artikelId: string;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId: string;
+  lagerbereich: Lagerbereich;
+  menge: number;                // kg
+  grund: RuecklieferungGrund;
+  notiz?: string;
+  verbleib: RuecklieferungVerbleib;  // aktueller Verbleib (nach Entscheidung BESTAND oder MUELL)
+  status: "QUARANTAENE" | "ERLEDIGT";
+  entschiedenAm?: string;       // Quarantäne-Entscheidung
+  gutschrift?: {
+    nummer: string;
+    belegArchivId: string;
+    betragNetto: number;
+  };
+  gutschriftFehler?: string;    // nur in der Antwort: Rücklieferung gebucht, Gutschrift fehlgeschlagen
+  erstelltVon?: string;
+  erstelltVonName?: string;
+  createdAt?: string;
+};
+
+// Reklamation an den Lieferanten (Qualitätsmangel einer eingegangenen Charge)
+export type MangelKategorie =
+  | "QUALITAET"
+  | "TEMPERATUR"
+  | "MHD"
+  | "VERPACKUNG"
+  | "FREMDKOERPER"
+  | "GEWICHT"
+  | "FALSCHLIEFERUNG"
+  | "SONSTIGES";
+
+// OFFEN → ZURUECKGESENDET (optional) → ANERKANNT | ABGELEHNT
+export type ReklamationStatus = "OFFEN" | "ZURUECKGESENDET" | "ANERKANNT" | "ABGELEHNT";
+
+export type LieferantenReklamationResource = {
+  id?: string;
+  nummer: string;               // z.B. "REK-2026-0001"
+  lieferantId: string;
+  lieferantName?: string;
+  chargeId: string;
+  artikelId: string;
+  artikelName?: string;
+  artikelNummer?: string;
+  mhd?: string;                 // YYYY-MM-DD (aus der Charge)
+  kategorie: MangelKategorie;
+  menge: number;                // beanstandetes Gewicht (kg)
+  beschreibung?: string;
+  status: ReklamationStatus;
+  ruecksendung?: {
+    menge: number;              // kg, als RUECKLIEFERUNG_LIEFERANT gebucht
+    lagerbereich: Lagerbereich;
+    bewegungId: string;
+    am: string;
+  };
+  ergebnis?: string;            // Antwort/Regelung des Lieferanten
+  abgeschlossenAm?: string;
+  fotos?: DateiResource[];      // nur in der Einzelansicht
+  erstelltVon?: string;
+  erstelltVonName?: string;
+  createdAt?: string;
+};
+
+export type ReklamationsquoteResource = {
+  lieferantId: string;
+  lieferantName?: string;
+  gelieferteChargen: number;    // Chargen mit Wareneingang im Zeitraum
+  geliefertKg: number;
+  reklamationen: number;
+  reklamiertKg: number;
+  zurueckgesendetKg: number;
+  quoteChargen: number;         // Reklamationen je gelieferter Charge in %
+  quoteKg: number;              // reklamiertes Gewicht je geliefertem Gewicht in %
+  kategorien: Partial<Record<MangelKategorie, number>>;
+};
+
+// ===== Job-Queue (persistente Hintergrund-Jobs) =====
+
+export type JobStatus = "PENDING" | "RUNNING" | "DONE" | "FAILED" | "CANCELLED";
+
+export type JobResource = {
+  id?: string;
+  typ: string;
+  key?: string;
+  payload?: any;
+  status: JobStatus;
+  runAt: string;              // ISO
+  attempts: number;
+  maxAttempts: number;
+  lockedBy?: string;
+  lockedUntil?: string;
+  lastError?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+// ===== Waagen (serielle Anbindung Kommissionierung) =====
+
+export type WaagenProtokoll = "SICS" | "KONTINUIERLICH" | "EINFACH";
+
+export type WaagenKonfiguration = {
+  arbeitsplatz: string;         // z.B. "K1" – eindeutig je Waage
+  name?: string;
+  path: string;                 // z.B. "/dev/ttyUSB0" oder "COM3"
+  baudRate?: number;            // default 9600
+  dataBits?: 7 | 8;
+  parity?: "none" | "even" | "odd";
+  stopBits?: 1 | 2;
+  protokoll: WaagenProtokoll;
+  delimiter?: string;           // Zeilenende, default "\r\n"
+  pollCommand?: string;         // z.B. "SI\r\n" bei Waagen ohne Dauerausgabe
+  pollIntervalMs?: number;
+  stabilAnzahl?: number;        // EINFACH: gleiche Werte in Folge für "stabil" (default 3)
+  mock?: boolean;               // virtuelle Schnittstelle (Tests/Entwicklung)
+};
+
+export type WaagenMesswertResource = {
+  arbeitsplatz: string;
+  brutto: number;               // kg
+  netto: number;                // kg
+  tara: number;                 // kg (an der Waage gesetzt)
+  stabil: boolean;
+  roh: string;                  // letztes Telegramm
+  zeitpunkt: string;            // ISO
+};
+
+export type WaageResource = {
+  arbeitsplatz: string;
+  name?: string;
+  path: string;
+  protokoll: WaagenProtokoll;
+  verbunden: boolean;
+  fehler?: string;
+  messwert?: WaagenMesswertResource;
+  letzterStabilerMesswert?: WaagenMesswertResource;
+};
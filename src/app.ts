@@ -22,6 +22,11 @@ import historieRouter from './routes/inventory/HistorieRoutes';
 import muellRouter from './routes/inventory/MuellRoutes';
 import reservierungenRouter from './routes/inventory/ReservierungsRoutes';
 import warnungenRouter from './routes/inventory/WarnungenRoutes';
+import anlieferungRouter from './routes/inventory/AnlieferungRoutes';
+import inventurRouter from './routes/inventory/InventurRoutes';
+import bestandAbgleichRouter from './routes/inventory/BestandAbgleichRoutes';
+import kundenRuecklieferungRouter from './routes/inventory/KundenRuecklieferungRoutes';
+import reklamationRouter from './routes/inventory/LieferantenReklamationRoutes';
 import statsRouter from './routes/StatsRoutes';
 import { emailLogRouter } from './routes/EmailLogRoutes';
 import imageProxyRouter from './routes/ImageProxyRoutes';
@@ -31,14 +36,19 @@ import ganzHaehnchenRouter from './routes/GanzHaehnchenRoutes';
 import brustRouter from './routes/BrustRoutes';
 import offenePostenRouter from './routes/OffenePostenRoutes';
 import leergutBuchhaltungRouter from './routes/LeergutRoutes';
+import jobRouter from './routes/JobRoutes';
+import waagenRouter from './routes/WaagenRoutes';
+import sammelrechnungRouter from './routes/SammelrechnungRoutes';
+import datevRouter from './routes/DatevRoutes';
+import bankRouter from './routes/BankRoutes';
+import mahnwesenRouter from './routes/MahnwesenRoutes';
+import kundenZuordnungRouter from './routes/KundenZuordnungRoutes';
+import dateiRouter from './routes/DateiRoutes';
 import licenseRouter from './routes/LicenseRoutes';
 import { licenseGuard } from './middleware/licenseGuard';
 
 const app = express();
 
-// Middleware:
-app.use('*', express.json({ limit: '10mb' }))
-
 // Routes
 // TODO: Registrieren Sie hier die weiteren Router:
 const allowedOrigins = [
@@ -57,7 +67,7 @@ app.use(cors({
   },
   credentials: true,
 }));
-app.use(express.json({ limit: '2mb' })); // oder mehr, je nach Bedarf
+app.use(express.json({ limit: '2mb' })); // Dateien per multipart über /api/dateien, nicht als Base64 im JSON
 
 app.use("/api/license", licenseRouter);
 app.use(licenseGuard);
@@ -83,8 +93,21 @@ app.use("/api/historie", historieRouter);
 app.use("/api/muell", muellRouter);
 app.use("/api/reservierungen", reservierungenRouter);
 app.use("/api/warnungen", warnungenRouter);
+app.use("/api/anlieferungen", anlieferungRouter);
+app.use("/api/inventur", inventurRouter);
+app.use("/api/bestand-abgleich", bestandAbgleichRouter);
+app.use("/api/ruecklieferungen", kundenRuecklieferungRouter);
+app.use("/api/reklamationen", reklamationRouter);
 app.use("/api/stats", statsRouter);
 app.use("/api/email-logs", emailLogRouter);
+app.use("/api/jobs", jobRouter);
+app.use("/api/waagen", waagenRouter);
+app.use("/api/sammelrechnungen", sammelrechnungRouter);
+app.use("/api/datev", datevRouter);
+app.use("/api/bank", bankRouter);
+app.use("/api/mahnwesen", mahnwesenRouter);
+app.use("/api/kunden-zuordnung", kundenZuordnungRouter);
+app.use("/api/dateien", dateiRouter);
 app.use("/api/gefluegel", gefluegelRouter);
 app.use("/api/pute", puteRouter);
 app.use("/api/ganz-haehnchen", ganzHaehnchenRouter);
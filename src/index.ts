@@ -9,6 +9,11 @@ import app from "./app";
 import { logger } from "./logger";
 import { initTelegramBot } from "./telegram/bot";
 import { startupCheck as licenseStartupCheck, getStatus as getLicenseStatus } from "./license/manager";
+import { startJobWorker } from "./services/JobQueueService";
+import { initWaagen } from "./services/waage/WaagenService";
+import { planeSammelrechnungsLauf } from "./services/SammelrechnungService";
+import { planeLeergutAuszugLauf } from "./services/LeergutKontoService";
+import { planeBestandAbgleich } from "./services/inventory/BestandAbgleichService";
 
 async function setup() {
   let mongodURI = process.env.DB_CONNECTION_STRING;
@@ -40,6 +45,16 @@ async function setup() {
     logger.info(`Listening for HTTP at http://0.0.0.0:${port}`);
   });
   initTelegramBot();
+  // Persistente Jobs (z.B. Fehlmengen-Emails) abarbeiten – auch nach Neustart
+  startJobWorker();
+  // Täglicher Sammelrechnungslauf (nur mit SAMMELRECHNUNG_AUTOLAUF=1)
+  await planeSammelrechnungsLauf();
+  // Monatlicher Leergut-Kontoauszug (nur mit LEERGUT_AUSZUG_AUTOLAUF=1)
+  await planeLeergutAuszugLauf();
+  // Nächtlicher Abgleich BestandAgg ↔ Bewegungsjournal (nur mit BESTAND_ABGLEICH_AUTOLAUF=1)
+  await planeBestandAbgleich();
+  // Serielle Waagen (WAAGEN_CONFIG) verbinden
+  await initWaagen();
 }
 
 setup();
@@ -1,6 +1,7 @@
 import { Schema, model, Types } from "mongoose";
+import { Lagerbereich } from "./BewegungsModel";
 
-export type AnlieferungStatus = "ANGEKUENDIGT" | "TEILGELIEFERT" | "ERLEDIGT";
+export type AnlieferungStatus = "ANGEKUENDIGT" | "TEILGELIEFERT" | "ERLEDIGT" | "STORNIERT";
 
 export interface AnlieferungDoc {
   artikelId: Types.ObjectId;
@@ -11,7 +12,10 @@ export interface AnlieferungDoc {
   chargeId?: Types.ObjectId;
   erwartetAm: Date;
   menge: number;
+  geliefertMenge: number;
+  lagerbereich: Lagerbereich;
   status: AnlieferungStatus;
+  notiz?: string;
   createdBy?: Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
@@ -26,10 +30,13 @@ const AnlieferungSchema = new Schema<AnlieferungDoc>({
   chargeId: { type: Schema.Types.ObjectId, ref: "Charge" },
   erwartetAm: { type: Date, required: true, index: true },
   menge: { type: Number, required: true, min: 0.001 },
-  status: { type: String, enum: ["ANGEKUENDIGT","TEILGELIEFERT","ERLEDIGT"], default: "ANGEKUENDIGT", index: true },
+  geliefertMenge: { type: Number, default: 0 },
+  lagerbereich: { type: String, enum: ["TK","NON_TK"], default: "NON_TK" },
+  status: { type: String, enum: ["ANGEKUENDIGT","TEILGELIEFERT","ERLEDIGT","STORNIERT"], default: "ANGEKUENDIGT", index: true },
+  notiz: String,
   createdBy: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
 }, { timestamps: true });
 
 AnlieferungSchema.index({ erwartetAm: 1, status: 1 });
 
-export const AnlieferungModel = model<AnlieferungDoc>("Anlieferung", AnlieferungSchema);
\ No newline at end of file
+export const AnlieferungModel = model<AnlieferungDoc>("Anlieferung", AnlieferungSchema);
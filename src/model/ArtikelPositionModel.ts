@@ -33,6 +33,19 @@ export interface IArtikelPosition {
   nettogewicht?: number;
   chargennummern?: string[];
   erfassungsModus?: "GEWICHT" | "KARTON" | "STÜCK";
+  lagerbereich?: "TK" | "NON_TK"; // Entnahme-Lagerbereich; ohne Angabe aus Buchungen/Reservierung abgeleitet
+  chargenEntnahmen?: {
+    chargeId: Types.ObjectId;
+    lagerbereich: "TK" | "NON_TK";
+    menge: number; // kg, als KOMMISSIONIERUNG gebucht
+  }[];
+  chargenAbweichung?: {
+    vorschlag: { chargeId: Types.ObjectId; menge: number }[]; // FEFO-Vorschlag zum Zeitpunkt der Abweichung
+    grund?: string;
+    von?: Types.ObjectId;
+    vonName?: string;
+    am: Date;
+  } | null;
 }
 
 const artikelPositionSchema = new Schema<IArtikelPosition>({
@@ -76,7 +89,29 @@ const artikelPositionSchema = new Schema<IArtikelPosition>({
   bruttogewicht: { type: Number },
   nettogewicht: { type: Number },
   chargennummern: [{ type: String }],
-    erfassungsModus: { type: String, enum: ['GEWICHT', 'KARTON', 'STÜCK'], default: 'GEWICHT' }
+    erfassungsModus: { type: String, enum: ['GEWICHT', 'KARTON', 'STÜCK'], default: 'GEWICHT' },
+  lagerbereich: { type: String, enum: ["TK", "NON_TK"] },
+  chargenEntnahmen: [
+    {
+      _id: false,
+      chargeId: { type: Schema.Types.ObjectId, ref: "Charge" },
+      lagerbereich: { type: String, enum: ["TK", "NON_TK"] },
+      menge: { type: Number },
+    },
+  ],
+  chargenAbweichung: {
+    type: new Schema(
+      {
+        vorschlag: [{ _id: false, chargeId: { type: Schema.Types.ObjectId, ref: "Charge" }, menge: { type: Number } }],
+        grund: { type: String },
+        von: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
+        vonName: { type: String },
+        am: { type: Date },
+      },
+      { _id: false }
+    ),
+    default: null,
+  },
 });
 
 artikelPositionSchema.pre(
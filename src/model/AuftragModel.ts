@@ -1,9 +1,11 @@
 import { Document, Schema, Types, model } from "mongoose";
+import type { BelegResource } from "../Resources";
 
 export interface IAuftrag extends Document {
   auftragsnummer: string;
   kunde: Types.ObjectId; // Referenz zu Kunde-Model
   kundeName: string;
+  lieferadresseId?: Types.ObjectId | null; // Kunde.lieferadressen; leer → Standard-Lieferadresse
   artikelPosition: Types.ObjectId[]; // Array von Referenzen zu ArtikelPositionen
   status: "offen" | "in Bearbeitung" | "abgeschlossen" | "storniert"; // Auftragsstatus
   lieferdatum: Date; // Gewünschtes Lieferdatum
@@ -37,12 +39,16 @@ export interface IAuftrag extends Document {
   rechnungsNummer?: string;
   gutschriftNummern?: string[];        // mehrere Gutschriften möglich
   preisdifferenzNummern?: string[];    // mehrere Preisdifferenzen möglich
+  rechnungFinalisiertAm?: Date;        // gesetzt → Auftrag gesperrt (GoBD)
+  mwstSatz?: number;                   // MwSt-Satz in %, leer → 7 (Lebensmittel)
 
   zahlstatus?: "offen" | "teilweise" | "bezahlt";
   offenBetrag?: number;
   zahlungsDatum?: Date;
+  mahnstufe?: number;                  // zuletzt gemahnte Stufe (Mahnwesen)
+  letzteMahnungAm?: Date;
 
-  belegListe?: Schema.Types.Mixed[];          // Array für Beleg-Metadaten
+  belegListe?: BelegResource[];               // Array für Beleg-Metadaten
   emailLogs?: Schema.Types.Mixed[];           // Versand-Historie
 }
 
@@ -51,6 +57,7 @@ const auftragSchema = new Schema<IAuftrag>(
     auftragsnummer: { type: String, default: "0" },
     kunde: { type: Schema.Types.ObjectId, ref: "Kunde", required: true },
     kundeName: { type: String, required: false},
+    lieferadresseId: { type: Schema.Types.ObjectId, default: null },
     artikelPosition: [{ type: Schema.Types.ObjectId, ref: "ArtikelPosition" }],
     status: {
       type: String,
@@ -95,10 +102,14 @@ const auftragSchema = new Schema<IAuftrag>(
     rechnungsNummer: { type: String },
     gutschriftNummern: [{ type: String }],
     preisdifferenzNummern: [{ type: String }],
+    rechnungFinalisiertAm: { type: Date },
+    mwstSatz: { type: Number, min: 0 },
 
     zahlstatus: { type: String, enum: ["offen", "teilweise", "bezahlt"] },
     offenBetrag: { type: Number },
     zahlungsDatum: { type: Date },
+    mahnstufe: { type: Number },
+    letzteMahnungAm: { type: Date },
 
     belegListe: { type: [Schema.Types.Mixed], default: [] },
     emailLogs: { type: [Schema.Types.Mixed], default: [] },
@@ -0,0 +1,30 @@
+import { Schema, model } from "mongoose";
+
+export interface IBankImport {
+  datum: Date;                 // Zeitpunkt des Imports
+  dateiname: string;
+  format: "CAMT053" | "MT940";
+  kontoIban?: string;          // eigenes Konto laut Auszug
+  anzahlTransaktionen: number; // neu angelegt (Duplikate nicht mitgezählt)
+  anzahlDuplikate: number;
+  anzahlZugeordnet: number;    // automatisch vollständig zugeordnet
+  erstelltVon?: string;
+}
+
+const bankImportSchema = new Schema<IBankImport>(
+  {
+    datum: { type: Date, required: true, default: Date.now },
+    dateiname: { type: String, required: true },
+    format: { type: String, enum: ["CAMT053", "MT940"], required: true },
+    kontoIban: { type: String },
+    anzahlTransaktionen: { type: Number, required: true, min: 0 },
+    anzahlDuplikate: { type: Number, default: 0 },
+    anzahlZugeordnet: { type: Number, default: 0 },
+    erstelltVon: { type: String },
+  },
+  { timestamps: true }
+);
+
+bankImportSchema.index({ datum: -1 });
+
+export const BankImport = model<IBankImport>("BankImport", bankImportSchema);
@@ -0,0 +1,71 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Umsatz aus einem Kontoauszug (CAMT.053 / MT940).
+ * status "offen" = Prüfliste (nicht oder nur teilweise zugeordnete Zahlungseingänge).
+ */
+export interface IBankTransaktion {
+  importId: Types.ObjectId;
+  hash: string;                // fachlicher Schlüssel gegen doppelten Import
+  buchungsdatum: Date;
+  valuta?: Date;
+  betrag: number;              // Eingang positiv, Ausgang negativ
+  waehrung: string;
+  verwendungszweck: string;
+  gegenkontoName?: string;
+  gegenkontoIban?: string;
+  bankReferenz?: string;
+  status: "offen" | "zugeordnet" | "ignoriert";
+  zuordnungen: {
+    auftrag: Types.ObjectId;
+    rechnungsNummer?: string;
+    betrag: number;
+    art: "rechnungsnummer" | "betrag_kunde" | "manuell";
+    datum: Date;
+    von?: string;
+  }[];
+  restBetrag: number;          // noch nicht zugeordneter Betrag
+  kunde?: Types.ObjectId;      // erkannter Kunde (Name/IBAN)
+  vorschlaege?: Types.ObjectId[]; // mögliche Aufträge für die manuelle Prüfung
+  bemerkung?: string;
+}
+
+const zuordnungSchema = new Schema(
+  {
+    auftrag: { type: Schema.Types.ObjectId, ref: "Auftrag", required: true },
+    rechnungsNummer: { type: String },
+    betrag: { type: Number, required: true },
+    art: { type: String, enum: ["rechnungsnummer", "betrag_kunde", "manuell"], required: true },
+    datum: { type: Date, required: true, default: Date.now },
+    von: { type: String },
+  },
+  { _id: false }
+);
+
+const bankTransaktionSchema = new Schema<IBankTransaktion>(
+  {
+    importId: { type: Schema.Types.ObjectId, ref: "BankImport", required: true },
+    hash: { type: String, required: true, unique: true },
+    buchungsdatum: { type: Date, required: true },
+    valuta: { type: Date },
+    betrag: { type: Number, required: true },
+    waehrung: { type: String, default: "EUR" },
+    verwendungszweck: { type: String, default: "" },
+    gegenkontoName: { type: String },
+    gegenkontoIban: { type: String },
+    bankReferenz: { type: String },
+    status: { type: String, enum: ["offen", "zugeordnet", "ignoriert"], default: "offen", required: true },
+    zuordnungen: { type: [zuordnungSchema], default: [] },
+    restBetrag: { type: Number, required: true },
+    kunde: { type: Schema.Types.ObjectId, ref: "Kunde" },
+    vorschlaege: [{ type: Schema.Types.ObjectId, ref: "Auftrag" }],
+    bemerkung: { type: String },
+  },
+  { timestamps: true }
+);
+
+bankTransaktionSchema.index({ status: 1, buchungsdatum: -1 });
+bankTransaktionSchema.index({ importId: 1 });
+bankTransaktionSchema.index({ gegenkontoIban: 1, kunde: 1 });
+
+export const BankTransaktion = model<IBankTransaktion>("BankTransaktion", bankTransaktionSchema);
@@ -0,0 +1,93 @@
+import { Schema, model, Types } from "mongoose";
+import type { ArtikelPositionResource, SammelrechnungAbschnitt } from "../Resources";
+
+/**
+ * Unveränderlicher Snapshot eines finalisierten Belegs (GoBD).
+ * Wird einmalig bei der Finalisierung geschrieben – Updates und Löschungen werden abgewiesen.
+ */
+export interface IBelegArchiv {
+  auftrag: Types.ObjectId;     // (erster) Auftrag
+  auftraege: Types.ObjectId[]; // alle abgerechneten Aufträge (Sammelrechnung: mehrere)
+  auftragsnummer?: string;
+  typ: "rechnung" | "gutschrift" | "preisdifferenz" | "lieferschein" | "stornorechnung";
+  nummer: string;              // z.B. RE-2025-00001
+  jahr: number;                // Nummernkreis-Jahr
+  laufnummer: number;          // fortlaufend je Typ + Jahr, lückenlos
+  datum: Date;                 // Belegdatum
+  referenzBelegNummer?: string;
+  stornoGrund?: string;
+  zeitraumVon?: Date;          // Sammelrechnung: Abrechnungszeitraum
+  zeitraumBis?: Date;
+  abschnitte?: SammelrechnungAbschnitt[]; // Sammelrechnung: je Lieferung
+  kunde: {
+    id: string;
+    name?: string;
+    kundenNummer?: string;
+    adresse?: string;
+    land?: string;
+    ustId?: string;
+    email?: string;
+  };
+  positionen: ArtikelPositionResource[]; // Snapshot der Positionen
+  betragNetto: number;
+  mwstSatz: number;
+  mwstBetrag: number;
+  betragBrutto: number;
+  pdf: Buffer;
+  pdfHash: string;             // SHA-256 (hex) über pdf
+  finalisiertVon?: string;
+  finalisiertAm: Date;
+  createdAt?: Date;
+}
+
+const belegArchivSchema = new Schema<IBelegArchiv>(
+  {
+    auftrag: { type: Schema.Types.ObjectId, ref: "Auftrag", required: true },
+    auftraege: [{ type: Schema.Types.ObjectId, ref: "Auftrag" }],
+    auftragsnummer: { type: String },
+    typ: {
+      type: String,
+      enum: ["rechnung", "gutschrift", "preisdifferenz", "lieferschein", "stornorechnung"],
+      required: true,
+    },
+    nummer: { type: String, required: true, unique: true },
+    jahr: { type: Number, required: true },
+    laufnummer: { type: Number, required: true },
+    datum: { type: Date, required: true },
+    referenzBelegNummer: { type: String },
+    stornoGrund: { type: String },
+    zeitraumVon: { type: Date },
+    zeitraumBis: { type: Date },
+    abschnitte: { type: [Schema.Types.Mixed], default: undefined },
+    kunde: { type: Schema.Types.Mixed, required: true },
+    positionen: { type: Schema.Types.Mixed, default: () => [] }, // Array der Positions-Snapshots
+    betragNetto: { type: Number, required: true },
+    mwstSatz: { type: Number, required: true },
+    mwstBetrag: { type: Number, required: true },
+    betragBrutto: { type: Number, required: true },
+    pdf: { type: Buffer, required: true },
+    pdfHash: { type: String, required: true },
+    finalisiertVon: { type: String },
+    finalisiertAm: { type: Date, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false }, minimize: false }
+);
+
+belegArchivSchema.index({ auftrag: 1, typ: 1 });
+belegArchivSchema.index({ auftraege: 1, typ: 1 });
+belegArchivSchema.index({ referenzBelegNummer: 1, typ: 1 });
+belegArchivSchema.index({ typ: 1, jahr: 1, laufnummer: 1 }, { unique: true });
+
+// Finalisierte Belege sind unveränderlich
+belegArchivSchema.pre("save", function (next) {
+  if (!this.isNew) return next(new Error("Finalisierte Belege dürfen nicht geändert werden"));
+  next();
+});
+belegArchivSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "deleteOne", "deleteMany", "findOneAndDelete", "findOneAndReplace"],
+  function (next) {
+    next(new Error("Finalisierte Belege dürfen nicht geändert oder gelöscht werden"));
+  }
+);
+
+export const BelegArchiv = model<IBelegArchiv>("BelegArchiv", belegArchivSchema);
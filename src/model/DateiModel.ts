@@ -0,0 +1,41 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Metadaten einer gespeicherten Datei (Unterschrift, Leergut-PDF, Kundendokument, Reklamationsfoto, …).
+ * Der Inhalt liegt im Speicher-Backend (GridFS, Dateisystem oder S3) unter speicherKey.
+ * Jede Datei gehört genau einer Entität (besitzerTyp + besitzerId) – darüber läuft die Zugriffsprüfung.
+ */
+export interface IDatei {
+  dateiname: string;
+  contentType: string;
+  groesse: number;             // Bytes
+  sha256: string;              // Prüfsumme des Inhalts (hex)
+  backend: "gridfs" | "lokal" | "s3";
+  speicherKey: string;
+  besitzerTyp: "tourstop" | "leergutbuchung" | "kunde" | "reklamation";
+  besitzerId: Types.ObjectId;
+  zweck: "signatur" | "leergut-pdf" | "gewerbe" | "zusatz" | "reklamation-foto";
+  hochgeladenVon?: string;
+  createdAt?: Date;
+}
+
+const dateiSchema = new Schema<IDatei>(
+  {
+    dateiname: { type: String, required: true },
+    contentType: { type: String, required: true },
+    groesse: { type: Number, required: true },
+    sha256: { type: String, required: true },
+    backend: { type: String, enum: ["gridfs", "lokal", "s3"], required: true },
+    speicherKey: { type: String, required: true },
+    besitzerTyp: { type: String, enum: ["tourstop", "leergutbuchung", "kunde", "reklamation"], required: true },
+    besitzerId: { type: Schema.Types.ObjectId, required: true },
+    zweck: { type: String, enum: ["signatur", "leergut-pdf", "gewerbe", "zusatz", "reklamation-foto"], required: true },
+    hochgeladenVon: { type: String },
+  },
+  { timestamps: true }
+);
+
+dateiSchema.index({ besitzerTyp: 1, besitzerId: 1 });
+dateiSchema.index({ sha256: 1 });
+
+export const Datei = model<IDatei>("Datei", dateiSchema);
@@ -0,0 +1,44 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Protokoll eines DATEV-Exports (EXTF-Datei) inkl. Inhalt zum erneuten Herunterladen.
+ * Ein finalisierter Beleg darf nur in genau einem Buchungsstapel enthalten sein.
+ */
+export interface IDatevExport {
+  art: "buchungsstapel" | "debitoren";
+  von?: Date;                  // Belegdatum von (nur Buchungsstapel)
+  bis?: Date;
+  belege: Types.ObjectId[];    // exportierte BelegArchiv-Einträge
+  belegNummern: string[];
+  anzahlZeilen: number;
+  dateiname: string;
+  inhalt: string;              // CSV (wird beim Download nach Windows-1252 kodiert)
+  hinweise: string[];          // z.B. übersprungene Kunden ohne Debitorennummer
+  erstelltVon?: string;
+  createdAt?: Date;
+}
+
+const datevExportSchema = new Schema<IDatevExport>(
+  {
+    art: { type: String, enum: ["buchungsstapel", "debitoren"], required: true },
+    von: { type: Date },
+    bis: { type: Date },
+    belege: [{ type: Schema.Types.ObjectId, ref: "BelegArchiv" }],
+    belegNummern: { type: [String], default: [] },
+    anzahlZeilen: { type: Number, required: true },
+    dateiname: { type: String, required: true },
+    inhalt: { type: String, required: true },
+    hinweise: { type: [String], default: [] },
+    erstelltVon: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+datevExportSchema.index({ art: 1, createdAt: -1 });
+// Doppelexport verhindern – auch bei parallelen Läufen
+datevExportSchema.index(
+  { belege: 1 },
+  { unique: true, partialFilterExpression: { art: "buchungsstapel" } }
+);
+
+export const DatevExport = model<IDatevExport>("DatevExport", datevExportSchema);
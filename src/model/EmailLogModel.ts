@@ -3,7 +3,7 @@ import { Schema, model, Types } from "mongoose";
 export interface IEmailLog {
   empfaenger: string[];
   betreff: string;
-  typ: "auftragsbestaetigung" | "fehlmengen" | "lieferschein" | "angebot" | "ladebestaetigung" | "leergut";
+  typ: "auftragsbestaetigung" | "fehlmengen" | "lieferschein" | "angebot" | "ladebestaetigung" | "leergut" | "mahnung";
   status: "gesendet" | "fehlgeschlagen";
   fehler?: string;
   auftragId?: Types.ObjectId;
@@ -13,6 +13,7 @@ export interface IEmailLog {
   messageId?: string;
   pdfBase64?: string;
   pdfFilename?: string;
+  laufKey?: string;       // z.B. "leergut-auszug:<kundeId>:2026-09" – verhindert Doppelversand bei wiederholten Läufen
 }
 
 const emailLogSchema = new Schema<IEmailLog>(
@@ -21,7 +22,7 @@ const emailLogSchema = new Schema<IEmailLog>(
     betreff: { type: String, required: true },
     typ: {
       type: String,
-      enum: ["auftragsbestaetigung", "fehlmengen", "lieferschein", "angebot", "ladebestaetigung", "leergut"],
+      enum: ["auftragsbestaetigung", "fehlmengen", "lieferschein", "angebot", "ladebestaetigung", "leergut", "mahnung"],
       required: true,
     },
     status: {
@@ -37,6 +38,7 @@ const emailLogSchema = new Schema<IEmailLog>(
     messageId: { type: String },
     pdfBase64: { type: String },
     pdfFilename: { type: String },
+    laufKey: { type: String },
   },
   { timestamps: true }
 );
@@ -44,5 +46,6 @@ const emailLogSchema = new Schema<IEmailLog>(
 emailLogSchema.index({ createdAt: -1 });
 emailLogSchema.index({ typ: 1 });
 emailLogSchema.index({ status: 1 });
+emailLogSchema.index({ laufKey: 1 }, { sparse: true });
 
 export const EmailLog = model<IEmailLog>("EmailLog", emailLogSchema);
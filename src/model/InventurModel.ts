@@ -0,0 +1,95 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Inventur (Stichtagsinventur) mit eingefrorenem Soll-Bestand aus BestandAgg.
+ * Ablauf: ZAEHLUNG (Blindzählung durch mehrere Zähler) → PRUEFUNG (Differenzen, ggf. Ist festlegen)
+ * → GEBUCHT (Freigabe bucht INVENTUR_KORREKTUR je Position). STORNIERT beendet ohne Buchung.
+ */
+export interface IInventurZaehlung {
+  _id?: Types.ObjectId;
+  mitarbeiterId: Types.ObjectId;
+  mitarbeiterName?: string;
+  menge: number;               // gezählte Menge (kg)
+  zeitpunkt: Date;
+  geraet?: string;             // z.B. Geräte-ID des Scanners/Handys
+}
+
+export interface IInventurPosition {
+  _id: Types.ObjectId;
+  artikelId: Types.ObjectId;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId?: Types.ObjectId;
+  mhd?: Date;
+  lagerbereich: "TK" | "NON_TK";
+  sollMenge: number;           // Snapshot zum Start (kg)
+  preisJeKg: number;           // Bewertung zum Start (Artikel.preis)
+  zusatz?: boolean;            // beim Zählen gefunden, nicht im Snapshot
+  zaehlungen: IInventurZaehlung[];
+  istMenge?: number | null;    // manuell festgelegt (bei abweichenden Zählungen)
+  istBegruendung?: string;
+}
+
+export interface IInventur {
+  nummer: string;              // z.B. "INV-2026-0001"
+  bezeichnung?: string;
+  stichtag: Date;
+  sollStandAm?: Date;          // Zeitpunkt des eingefrorenen Soll (Ende des Stichtags bzw. Start der Inventur)
+  lagerbereich?: "TK" | "NON_TK" | null; // null = alle
+  status: "ZAEHLUNG" | "PRUEFUNG" | "GEBUCHT" | "STORNIERT";
+  positionen: Types.DocumentArray<IInventurPosition & Types.Subdocument>;
+  notiz?: string;
+  erstelltVon?: Types.ObjectId;
+  erstelltVonName?: string;
+  freigegebenVon?: Types.ObjectId;
+  freigegebenVonName?: string;
+  freigegebenAm?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const zaehlungSchema = new Schema<IInventurZaehlung>({
+  mitarbeiterId: { type: Schema.Types.ObjectId, ref: "Mitarbeiter", required: true },
+  mitarbeiterName: { type: String },
+  menge: { type: Number, required: true, min: 0 },
+  zeitpunkt: { type: Date, required: true },
+  geraet: { type: String },
+});
+
+const positionSchema = new Schema<IInventurPosition>({
+  artikelId: { type: Schema.Types.ObjectId, ref: "Artikel", required: true },
+  artikelName: { type: String },
+  artikelNummer: { type: String },
+  chargeId: { type: Schema.Types.ObjectId, ref: "Charge" },
+  mhd: { type: Date },
+  lagerbereich: { type: String, enum: ["TK", "NON_TK"], required: true },
+  sollMenge: { type: Number, required: true },
+  preisJeKg: { type: Number, default: 0 },
+  zusatz: { type: Boolean, default: false },
+  zaehlungen: { type: [zaehlungSchema], default: [] },
+  istMenge: { type: Number, default: null },
+  istBegruendung: { type: String },
+});
+
+const inventurSchema = new Schema<IInventur>(
+  {
+    nummer: { type: String, required: true, unique: true },
+    bezeichnung: { type: String },
+    stichtag: { type: Date, required: true },
+    sollStandAm: { type: Date },
+    lagerbereich: { type: String, enum: ["TK", "NON_TK", null], default: null },
+    status: { type: String, enum: ["ZAEHLUNG", "PRUEFUNG", "GEBUCHT", "STORNIERT"], default: "ZAEHLUNG", index: true },
+    positionen: { type: [positionSchema], default: [] },
+    notiz: { type: String },
+    erstelltVon: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
+    erstelltVonName: { type: String },
+    freigegebenVon: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
+    freigegebenVonName: { type: String },
+    freigegebenAm: { type: Date },
+  },
+  { timestamps: true }
+);
+
+inventurSchema.index({ stichtag: -1 });
+
+export const InventurModel = model<IInventur>("Inventur", inventurSchema);
@@ -0,0 +1,53 @@
+import { Schema, model } from "mongoose";
+
+export type JobStatus = "PENDING" | "RUNNING" | "DONE" | "FAILED" | "CANCELLED";
+
+export interface IJob {
+  typ: string;                 // Handler-Name, z.B. "fehlmengen-email"
+  key?: string;                // fachlicher Schlüssel (z.B. auftragId) – max. 1 offener Job je typ+key
+  payload: any;
+  status: JobStatus;
+  runAt: Date;                 // frühester Ausführungszeitpunkt
+  attempts: number;
+  maxAttempts: number;
+  lockedBy?: string;           // Worker-ID, die den Job gerade ausführt
+  lockedUntil?: Date;          // Lock läuft ab → Job kann von anderem Worker übernommen werden
+  lastError?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    typ: { type: String, required: true },
+    key: { type: String },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ["PENDING", "RUNNING", "DONE", "FAILED", "CANCELLED"],
+      default: "PENDING",
+      required: true,
+    },
+    runAt: { type: Date, required: true },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    lockedBy: { type: String },
+    lockedUntil: { type: Date },
+    lastError: { type: String },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  { timestamps: true, minimize: false }
+);
+
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ typ: 1, key: 1, status: 1 });
+// Höchstens ein wartender Job je typ+key
+jobSchema.index(
+  { typ: 1, key: 1 },
+  { unique: true, partialFilterExpression: { status: "PENDING", key: { $exists: true } } }
+);
+
+export const Job = model<IJob>("Job", jobSchema);
@@ -1,18 +1,38 @@
 import { Schema, Types, model} from "mongoose";
 
+export interface ILieferadresse {
+    _id: Types.ObjectId;
+    bezeichnung?: string; // z. B. "Filiale Neukölln"
+    strasse: string;
+    hausnummer?: string;
+    plz: string;
+    ort: string;
+    land?: string;
+    lat?: number;
+    lng?: number;
+    standard: boolean; // genau eine Lieferadresse ist Standard
+}
+
 export interface IKunde{
     name: string; // Name des Kunden
     kundenNummer?: string;
     password: string //Password
     email: string; // E-Mail des Kunden
-    adresse: string; // Adresse des Kunden
+    adresse: string; // Adresse des Kunden (formatiert, wird aus den Einzelfeldern gebildet)
+    strasse?: string;
+    hausnummer?: string;
+    plz?: string;
+    ort?: string;
     land?: string; // Land des Kunden (für MwSt-Berechnung, Standard: "Deutschland")
     telefon?: string; // Telefonnummer des Kunden
     createdAt: Date; // Erstellungsdatum
     updatedAt: Date; // Aktualisierungsdatum
     favoriten?: Types.ObjectId[];
     bestimmteArtikel?: Types.ObjectId[];
-    lieferzeit?: string;
+    lieferzeit?: string; // Freitext, z. B. "08:00-12:00" oder "bis 10 Uhr" (Zeitfenster für die Tourplanung)
+    lat?: number; // Lieferadresse (WGS84) für Routenoptimierung/ETA
+    lng?: number;
+    lieferadressen?: ILieferadresse[]; // abweichende Lieferadressen; ohne Einträge gilt die Hauptadresse
     ustId?: string;
     handelsregisterNr?: string;
     ansprechpartner?: string;
@@ -30,19 +50,40 @@ export interface IKunde{
     emailSpedition?: string;
     // Fehlmengen-Benachrichtigung
     fehlmengenBenachrichtigung?: boolean;
+    // Abrechnung: Einzelrechnung je Lieferung oder Sammelrechnung je Zeitraum
+    rechnungsIntervall?: "pro_lieferung" | "woechentlich" | "zweiwoechentlich" | "monatlich";
 }
 
+const lieferadresseSchema = new Schema<ILieferadresse>({
+    bezeichnung: { type: String },
+    strasse: { type: String, required: true },
+    hausnummer: { type: String },
+    plz: { type: String, required: true },
+    ort: { type: String, required: true },
+    land: { type: String, default: "Deutschland" },
+    lat: { type: Number },
+    lng: { type: Number },
+    standard: { type: Boolean, default: false },
+});
+
 const kundeSchema = new Schema<IKunde>({
     name: {type: String, required: true},
     kundenNummer: {type: String, unique: true},
     password: {type: String, required: true},
     email: { type: String, required: true, unique: true },
     adresse: { type: String, required: true },
+    strasse: { type: String },
+    hausnummer: { type: String },
+    plz: { type: String },
+    ort: { type: String },
     land: { type: String, default: "Deutschland" }, // Standard: Deutschland
     telefon: { type: String, required: false },
     favoriten: [{ type: Schema.Types.ObjectId, ref: "Artikel" }],
     bestimmteArtikel: [{ type: Schema.Types.ObjectId, ref: "Artikel" }],
     lieferzeit: { type: String},
+    lat: { type: Number },
+    lng: { type: Number },
+    lieferadressen: [lieferadresseSchema],
     ustId: { type: String },
     handelsregisterNr: { type: String },
     ansprechpartner: { type: String },
@@ -60,6 +101,12 @@ const kundeSchema = new Schema<IKunde>({
     emailSpedition: { type: String },
     // Fehlmengen-Benachrichtigung
     fehlmengenBenachrichtigung: { type: Boolean, default: false },
+    // Abrechnung
+    rechnungsIntervall: {
+      type: String,
+      enum: ["pro_lieferung", "woechentlich", "zweiwoechentlich", "monatlich"],
+      default: "pro_lieferung",
+    },
   },
   { timestamps: true }
 )
@@ -0,0 +1,81 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Rücklieferung eines Kunden zu einer Auftragsposition (Charge, Grund, Gewicht).
+ * Verbleib BESTAND/MUELL wird sofort gebucht (RUECKLIEFERUNG_KUNDE, bei Müll zusätzlich MULL);
+ * QUARANTAENE bucht erst mit der Entscheidung.
+ */
+export interface IKundenRuecklieferung {
+  nummer: string;              // z.B. "RKL-2026-0001"
+  auftragId: Types.ObjectId;
+  auftragsnummer?: string;
+  artikelPositionId: Types.ObjectId;
+  kundeId?: Types.ObjectId;
+  kundeName?: string;
+  artikelId: Types.ObjectId;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId: Types.ObjectId;
+  lagerbereich: "TK" | "NON_TK";
+  menge: number;               // kg
+  grund: "QUALITAET" | "MHD" | "TEMPERATUR" | "BESCHAEDIGT" | "FALSCHLIEFERUNG" | "UEBERLIEFERUNG" | "SONSTIGES";
+  notiz?: string;
+  verbleib: "BESTAND" | "MUELL" | "QUARANTAENE";
+  status: "QUARANTAENE" | "ERLEDIGT";
+  entschiedenAm?: Date;
+  entschiedenVon?: Types.ObjectId;
+  bewegungIds: Types.ObjectId[];
+  gutschrift?: {
+    nummer: string;
+    belegArchivId: Types.ObjectId;
+    betragNetto: number;
+  } | null;
+  erstelltVon?: Types.ObjectId;
+  erstelltVonName?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const kundenRuecklieferungSchema = new Schema<IKundenRuecklieferung>(
+  {
+    nummer: { type: String, required: true, unique: true },
+    auftragId: { type: Schema.Types.ObjectId, ref: "Auftrag", required: true, index: true },
+    auftragsnummer: { type: String },
+    artikelPositionId: { type: Schema.Types.ObjectId, ref: "ArtikelPosition", required: true, index: true },
+    kundeId: { type: Schema.Types.ObjectId, ref: "Kunde", index: true },
+    kundeName: { type: String },
+    artikelId: { type: Schema.Types.ObjectId, ref: "Artikel", required: true },
+    artikelName: { type: String },
+    artikelNummer: { type: String },
+    chargeId: { type: Schema.Types.ObjectId, ref: "Charge", required: true, index: true },
+    lagerbereich: { type: String, enum: ["TK", "NON_TK"], required: true },
+    menge: { type: Number, required: true, min: 0 },
+    grund: {
+      type: String,
+      enum: ["QUALITAET", "MHD", "TEMPERATUR", "BESCHAEDIGT", "FALSCHLIEFERUNG", "UEBERLIEFERUNG", "SONSTIGES"],
+      required: true,
+    },
+    notiz: { type: String },
+    verbleib: { type: String, enum: ["BESTAND", "MUELL", "QUARANTAENE"], required: true },
+    status: { type: String, enum: ["QUARANTAENE", "ERLEDIGT"], required: true, index: true },
+    entschiedenAm: { type: Date },
+    entschiedenVon: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
+    bewegungIds: { type: [Schema.Types.ObjectId], ref: "Bewegung", default: [] },
+    gutschrift: {
+      type: new Schema(
+        {
+          nummer: { type: String, required: true },
+          belegArchivId: { type: Schema.Types.ObjectId, ref: "BelegArchiv", required: true },
+          betragNetto: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    erstelltVon: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
+    erstelltVonName: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const KundenRuecklieferungModel = model<IKundenRuecklieferung>("KundenRuecklieferung", kundenRuecklieferungSchema);
@@ -0,0 +1,28 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Manuell bestätigte Zuordnung einer externen Kontonummer (OP-Export / Leergut-Liste) zu einem Kunden.
+ * Gilt auch für alle künftigen Imports und hat Vorrang vor der automatischen Zuordnung.
+ */
+export interface IKundenZuordnung {
+  quelle: "offene_posten" | "leergut";
+  externeNr: string;
+  externerName?: string;
+  kunde: Types.ObjectId;
+  erstelltVon?: string;
+}
+
+const kundenZuordnungSchema = new Schema<IKundenZuordnung>(
+  {
+    quelle: { type: String, enum: ["offene_posten", "leergut"], required: true },
+    externeNr: { type: String, required: true },
+    externerName: { type: String },
+    kunde: { type: Schema.Types.ObjectId, ref: "Kunde", required: true },
+    erstelltVon: { type: String },
+  },
+  { timestamps: true }
+);
+
+kundenZuordnungSchema.index({ quelle: 1, externeNr: 1 }, { unique: true });
+
+export const KundenZuordnung = model<IKundenZuordnung>("KundenZuordnung", kundenZuordnungSchema);
@@ -1,10 +1,11 @@
-import { Schema, model } from "mongoose";
+import { Schema, model, Types } from "mongoose";
 
 export interface ILeergutBuchung {
   kundennr: string;
   kunde: string;
   filename: string;
-  pdfBase64: string;
+  pdfBase64?: string;          // Altbestand – neue PDFs liegen in der Dateiablage
+  pdfDateiId?: Types.ObjectId;
   uploadDatum: Date;
 }
 
@@ -13,7 +14,8 @@ const leergutBuchungSchema = new Schema<ILeergutBuchung>(
     kundennr: { type: String, required: true },
     kunde: { type: String, required: true },
     filename: { type: String, required: true },
-    pdfBase64: { type: String, required: true },
+    pdfBase64: { type: String },
+    pdfDateiId: { type: Schema.Types.ObjectId, ref: "Datei" },
     uploadDatum: { type: Date, default: Date.now },
   },
   { timestamps: true }
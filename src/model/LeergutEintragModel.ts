@@ -8,6 +8,9 @@ export interface ILeergutEintrag {
   adresse?: string;
   artikel: string;
   alterBestand: number;
+  // Verknüpfung mit dem Kundenstamm (siehe KundenZuordnungService)
+  kundeRef?: Types.ObjectId;
+  kundeZuordnung?: "kundennummer" | "name" | "manuell";
 }
 
 const leergutEintragSchema = new Schema<ILeergutEintrag>(
@@ -19,12 +22,15 @@ const leergutEintragSchema = new Schema<ILeergutEintrag>(
     adresse: { type: String, default: "" },
     artikel: { type: String, required: true },
     alterBestand: { type: Number, required: true },
+    kundeRef: { type: Schema.Types.ObjectId, ref: "Kunde" },
+    kundeZuordnung: { type: String, enum: ["kundennummer", "name", "manuell"] },
   },
   { timestamps: true }
 );
 
 leergutEintragSchema.index({ importId: 1 });
 leergutEintragSchema.index({ importDatum: -1, kundennr: 1 });
+leergutEintragSchema.index({ kundeRef: 1, importId: 1 });
 
 export const LeergutEintrag = model<ILeergutEintrag>(
   "LeergutEintrag",
@@ -0,0 +1,63 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Buchung im Leergutkonto eines Kunden (je Leergutart, nur anhängen – Korrekturen sind eigene Buchungen).
+ * menge > 0: Kunde hat Leergut erhalten (Soll), menge < 0: Leergut zurückgenommen (Haben).
+ * quelleKey identifiziert das auslösende Ereignis; Änderungen daran werden als Differenzbuchung nachgezogen.
+ */
+export interface ILeergutKontoBuchung {
+  kunde: Types.ObjectId;
+  leergutArt: string;          // normalisierter Schlüssel, z.B. "e2", "h1", "euro palette"
+  datum: Date;
+  menge: number;
+  art: "eroeffnung" | "lieferung" | "rueckgabe" | "korrektur";
+  quelleKey?: string;          // z.B. "lieferung:<auftragId>:e2"
+  folgeNr?: number;            // laufende Nummer je quelleKey (0 = Erstbuchung, 1.. = Nachbuchungen)
+  auftrag?: Types.ObjectId;
+  tourStop?: Types.ObjectId;
+  leergutImport?: Types.ObjectId;
+  bemerkung?: string;
+  erstelltVon?: string;
+  createdAt?: Date;
+}
+
+const leergutKontoBuchungSchema = new Schema<ILeergutKontoBuchung>(
+  {
+    kunde: { type: Schema.Types.ObjectId, ref: "Kunde", required: true },
+    leergutArt: { type: String, required: true },
+    datum: { type: Date, required: true },
+    menge: { type: Number, required: true },
+    art: { type: String, enum: ["eroeffnung", "lieferung", "rueckgabe", "korrektur"], required: true },
+    quelleKey: { type: String },
+    folgeNr: { type: Number },
+    auftrag: { type: Schema.Types.ObjectId, ref: "Auftrag" },
+    tourStop: { type: Schema.Types.ObjectId, ref: "TourStop" },
+    leergutImport: { type: Schema.Types.ObjectId, ref: "LeergutImport" },
+    bemerkung: { type: String },
+    erstelltVon: { type: String },
+  },
+  { timestamps: true }
+);
+
+leergutKontoBuchungSchema.index({ kunde: 1, leergutArt: 1, datum: 1 });
+leergutKontoBuchungSchema.index({ quelleKey: 1 });
+// Parallele Abgleiche desselben Auftrags dürfen eine Differenz nicht doppelt buchen
+leergutKontoBuchungSchema.index(
+  { quelleKey: 1, folgeNr: 1 },
+  { unique: true, partialFilterExpression: { quelleKey: { $exists: true }, folgeNr: { $exists: true } } }
+);
+leergutKontoBuchungSchema.index({ auftrag: 1 });
+
+// Journal: Buchungen werden nie geändert oder gelöscht
+leergutKontoBuchungSchema.pre("save", function (next) {
+  if (!this.isNew) return next(new Error("Leergutbuchungen dürfen nicht geändert werden – bitte Korrekturbuchung erfassen"));
+  next();
+});
+leergutKontoBuchungSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "deleteOne", "deleteMany", "findOneAndDelete", "findOneAndReplace"],
+  function (next) {
+    next(new Error("Leergutbuchungen dürfen nicht geändert oder gelöscht werden – bitte Korrekturbuchung erfassen"));
+  }
+);
+
+export const LeergutKontoBuchung = model<ILeergutKontoBuchung>("LeergutKontoBuchung", leergutKontoBuchungSchema);
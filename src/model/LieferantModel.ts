@@ -0,0 +1,30 @@
+import { Schema, model } from "mongoose";
+
+export interface ILieferant {
+  name: string;
+  lieferantNummer?: string;
+  email?: string;
+  telefon?: string;
+  adresse?: string;
+  ansprechpartner?: string;
+  aktiv: boolean;
+  bemerkung?: string;
+}
+
+const lieferantSchema = new Schema<ILieferant>(
+  {
+    name: { type: String, required: true },
+    lieferantNummer: { type: String },
+    email: { type: String },
+    telefon: { type: String },
+    adresse: { type: String },
+    ansprechpartner: { type: String },
+    aktiv: { type: Boolean, default: true },
+    bemerkung: { type: String },
+  },
+  { timestamps: true }
+);
+
+lieferantSchema.index({ name: 1 });
+
+export const Lieferant = model<ILieferant>("Lieferant", lieferantSchema);
@@ -0,0 +1,80 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Reklamation einer eingegangenen Charge beim Lieferanten (Mangel, Gewicht, Fotos).
+ * Die Rücksendung bucht RUECKLIEFERUNG_LIEFERANT (−) und senkt den Bestand der Charge.
+ * Fotos liegen in der Dateiablage (besitzerTyp "reklamation", zweck "reklamation-foto").
+ */
+export interface ILieferantenReklamation {
+  nummer: string;              // z.B. "REK-2026-0001"
+  lieferantId: Types.ObjectId;
+  lieferantName?: string;
+  chargeId: Types.ObjectId;
+  artikelId: Types.ObjectId;
+  artikelName?: string;
+  artikelNummer?: string;
+  kategorie: "QUALITAET" | "TEMPERATUR" | "MHD" | "VERPACKUNG" | "FREMDKOERPER" | "GEWICHT" | "FALSCHLIEFERUNG" | "SONSTIGES";
+  menge: number;               // beanstandetes Gewicht (kg)
+  beschreibung?: string;
+  status: "OFFEN" | "ZURUECKGESENDET" | "ANERKANNT" | "ABGELEHNT";
+  ruecksendung?: {
+    menge: number;
+    lagerbereich: "TK" | "NON_TK";
+    bewegungId: Types.ObjectId;
+    am: Date;
+  } | null;
+  ergebnis?: string;
+  abgeschlossenAm?: Date;
+  fotoDateiIds: Types.ObjectId[];
+  erstelltVon?: Types.ObjectId;
+  erstelltVonName?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const lieferantenReklamationSchema = new Schema<ILieferantenReklamation>(
+  {
+    nummer: { type: String, required: true, unique: true },
+    lieferantId: { type: Schema.Types.ObjectId, ref: "Lieferant", required: true, index: true },
+    lieferantName: { type: String },
+    chargeId: { type: Schema.Types.ObjectId, ref: "Charge", required: true, index: true },
+    artikelId: { type: Schema.Types.ObjectId, ref: "Artikel", required: true },
+    artikelName: { type: String },
+    artikelNummer: { type: String },
+    kategorie: {
+      type: String,
+      enum: ["QUALITAET", "TEMPERATUR", "MHD", "VERPACKUNG", "FREMDKOERPER", "GEWICHT", "FALSCHLIEFERUNG", "SONSTIGES"],
+      required: true,
+    },
+    menge: { type: Number, required: true, min: 0 },
+    beschreibung: { type: String },
+    status: {
+      type: String,
+      enum: ["OFFEN", "ZURUECKGESENDET", "ANERKANNT", "ABGELEHNT"],
+      default: "OFFEN",
+      index: true,
+    },
+    ruecksendung: {
+      type: new Schema(
+        {
+          menge: { type: Number, required: true },
+          lagerbereich: { type: String, enum: ["TK", "NON_TK"], required: true },
+          bewegungId: { type: Schema.Types.ObjectId, ref: "Bewegung", required: true },
+          am: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    ergebnis: { type: String },
+    abgeschlossenAm: { type: Date },
+    fotoDateiIds: { type: [Schema.Types.ObjectId], ref: "Datei", default: [] },
+    erstelltVon: { type: Schema.Types.ObjectId, ref: "Mitarbeiter" },
+    erstelltVonName: { type: String },
+  },
+  { timestamps: true }
+);
+
+lieferantenReklamationSchema.index({ lieferantId: 1, createdAt: -1 });
+
+export const LieferantenReklamationModel = model<ILieferantenReklamation>("LieferantenReklamation", lieferantenReklamationSchema);
@@ -0,0 +1,32 @@
+import { Schema, model } from "mongoose";
+
+/**
+ * Konfigurierbare Mahnstufe (1 = Zahlungserinnerung, 2 = 1. Mahnung, …).
+ * Platzhalter in betreff/text: {{kunde}}, {{kundenNummer}}, {{summe}}, {{gebuehr}}, {{gesamt}}, {{frist}}, {{datum}}, {{stufe}}
+ */
+export interface IMahnstufe {
+  stufe: number;
+  bezeichnung: string;         // z.B. "Zahlungserinnerung", "1. Mahnung"
+  tageUeberfaellig: number;    // Tage nach Fälligkeit, ab denen die Stufe vorgeschlagen wird
+  gebuehr: number;             // Mahngebühr in EUR
+  zahlungsfristTage: number;   // neue Zahlungsfrist ab Mahndatum
+  betreff: string;
+  text: string;
+  aktiv: boolean;
+}
+
+const mahnstufeSchema = new Schema<IMahnstufe>(
+  {
+    stufe: { type: Number, required: true, unique: true, min: 1 },
+    bezeichnung: { type: String, required: true },
+    tageUeberfaellig: { type: Number, required: true, min: 0 },
+    gebuehr: { type: Number, default: 0, min: 0 },
+    zahlungsfristTage: { type: Number, default: 7, min: 0 },
+    betreff: { type: String, required: true },
+    text: { type: String, required: true },
+    aktiv: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+export const Mahnstufe = model<IMahnstufe>("Mahnstufe", mahnstufeSchema);
@@ -0,0 +1,76 @@
+import { Schema, model, Types } from "mongoose";
+
+/**
+ * Mahnschreiben an einen Kunden (ein Schreiben je Kunde und Lauf, mehrere Posten).
+ * vorschlag → erstellt (PDF, Mahnstufe an den Posten vermerkt) → versendet
+ */
+export interface IMahnung {
+  quelle: "offene_posten" | "rechnungen";
+  kunde?: Types.ObjectId;
+  kundeName: string;
+  kundenNummer?: string;
+  stufe: number;               // höchste Stufe der enthaltenen Posten
+  stufeBezeichnung: string;
+  datum: Date;                 // Stichtag des Laufs / Mahndatum
+  zahlungsfrist: Date;
+  posten: {
+    reNr: string;
+    belegDatum: Date;
+    betrag: number;
+    tageUeberfaellig: number;
+    stufe: number;
+    auftrag?: Types.ObjectId;
+    offenerPosten?: Types.ObjectId;
+  }[];
+  summe: number;
+  gebuehr: number;
+  gesamt: number;
+  status: "vorschlag" | "erstellt" | "versendet";
+  pdf?: Buffer;
+  emailEmpfaenger?: string;
+  versendetAm?: Date;
+  erstelltVon?: string;
+  createdAt?: Date;
+}
+
+const mahnPostenSchema = new Schema(
+  {
+    reNr: { type: String, required: true },
+    belegDatum: { type: Date, required: true },
+    betrag: { type: Number, required: true },
+    tageUeberfaellig: { type: Number, required: true },
+    stufe: { type: Number, required: true },
+    auftrag: { type: Schema.Types.ObjectId, ref: "Auftrag" },
+    offenerPosten: { type: Schema.Types.ObjectId, ref: "OffenerPosten" },
+  },
+  { _id: false }
+);
+
+const mahnungSchema = new Schema<IMahnung>(
+  {
+    quelle: { type: String, enum: ["offene_posten", "rechnungen"], required: true },
+    kunde: { type: Schema.Types.ObjectId, ref: "Kunde" },
+    kundeName: { type: String, required: true },
+    kundenNummer: { type: String },
+    stufe: { type: Number, required: true },
+    stufeBezeichnung: { type: String, required: true },
+    datum: { type: Date, required: true },
+    zahlungsfrist: { type: Date, required: true },
+    posten: { type: [mahnPostenSchema], default: [] },
+    summe: { type: Number, required: true },
+    gebuehr: { type: Number, default: 0 },
+    gesamt: { type: Number, required: true },
+    status: { type: String, enum: ["vorschlag", "erstellt", "versendet"], default: "vorschlag", required: true },
+    pdf: { type: Buffer },
+    emailEmpfaenger: { type: String },
+    versendetAm: { type: Date },
+    erstelltVon: { type: String },
+  },
+  { timestamps: true }
+);
+
+mahnungSchema.index({ status: 1, datum: -1 });
+mahnungSchema.index({ "posten.reNr": 1, status: 1 });
+mahnungSchema.index({ kunde: 1, datum: -1 });
+
+export const Mahnung = model<IMahnung>("Mahnung", mahnungSchema);
@@ -13,6 +13,9 @@ export interface IOffenerPosten {
   tageOffen: number;
   mahndatum?: Date;
   stufe: string;
+  // Verknüpfung mit dem Kundenstamm (siehe KundenZuordnungService)
+  kundeRef?: Types.ObjectId;
+  kundeZuordnung?: "kundennummer" | "name" | "manuell";
 }
 
 const offenerPostenSchema = new Schema<IOffenerPosten>(
@@ -29,12 +32,15 @@ const offenerPostenSchema = new Schema<IOffenerPosten>(
     tageOffen: { type: Number, required: true },
     mahndatum: { type: Date },
     stufe: { type: String, default: "0" },
+    kundeRef: { type: Schema.Types.ObjectId, ref: "Kunde" },
+    kundeZuordnung: { type: String, enum: ["kundennummer", "name", "manuell"] },
   },
   { timestamps: true }
 );
 
 offenerPostenSchema.index({ importId: 1 });
 offenerPostenSchema.index({ importDatum: -1, kontonr: 1 });
+offenerPostenSchema.index({ kundeRef: 1, importId: 1 });
 
 export const OffenerPosten = model<IOffenerPosten>(
   "OffenerPosten",
@@ -22,13 +22,24 @@ export interface TourStopDoc extends Document {
   kundeId: Types.ObjectId; // ref: Kunde (denormalisiert)
   kundeName?: string;
   kundeAdress?: string;
+  // Lieferadresse des Auftrags zum Zeitpunkt der Tourzuordnung (Kopie, s. KundeAdressService)
+  lieferadresse?: {
+    strasse?: string;
+    hausnummer?: string;
+    plz?: string;
+    ort?: string;
+    land?: string;
+    lat?: number;
+    lng?: number;
+  } | null;
   position: number; // 1..n
   gewichtKg?: number | null; // optional, Fallback aus Auftrag
   status: StopStatus;
   fehlgrund?: { code?: FehlgrundEnum; text?: string };
   bemerkung?: string; // Anweisungen/Bemerkungen für Fahrer (Talimat)
   // Proof (ohne Fotos):
-  signaturPngBase64?: string | null;
+  signaturPngBase64?: string | null; // Altbestand – neue Unterschriften liegen in der Dateiablage
+  signaturDateiId?: Types.ObjectId | null; // ref: Datei
   signTimestampUtc?: string | null;
   signedByName?: string | null;
   // Leergut Mitnahme (Stop-Ebene, unabhängig von artikelbezogenem Leergut):
@@ -38,6 +49,19 @@ export interface TourStopDoc extends Document {
   updatedAt?: Date;
 }
 
+const stopAdresseSchema = new Schema(
+  {
+    strasse: String,
+    hausnummer: String,
+    plz: String,
+    ort: String,
+    land: String,
+    lat: Number,
+    lng: Number,
+  },
+  { _id: false }
+);
+
 const TourStopSchema = new Schema<TourStopDoc>(
   {
     tourId: {
@@ -60,6 +84,7 @@ const TourStopSchema = new Schema<TourStopDoc>(
     },
     kundeName: { type: String },
     kundeAdress: { type: String },
+    lieferadresse: { type: stopAdresseSchema, default: null },
     position: { type: Number, required: true }, // Unique zusammen mit tourId, s.u.
     gewichtKg: { type: Number, default: null },
     status: {
@@ -85,6 +110,7 @@ const TourStopSchema = new Schema<TourStopDoc>(
     },
     bemerkung: { type: String, default: null },
     signaturPngBase64: { type: String },
+    signaturDateiId: { type: Schema.Types.ObjectId, ref: "Datei" },
     signTimestampUtc: { type: String, default: null },
     signedByName: { type: String, default: null },
     leergutMitnahme: [{ art: String, anzahl: Number, gewichtKg: Number }],
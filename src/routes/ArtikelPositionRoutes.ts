@@ -1,5 +1,5 @@
 import express, { Request, Response, NextFunction } from "express";
-import { body, param, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import jwt from "jsonwebtoken";
 import {
   createArtikelPosition,
@@ -20,6 +20,7 @@ import {
 } from "../services/ArtikelService";
 import { getKundenPreisByArtikelId } from "../services/KundenPreisService";
 import { getAllKunden } from "../services/KundeService";
+import { getFefoVorschlag } from "../services/inventory/FefoService";
 
 const artikelPositionRouter = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
@@ -167,6 +168,30 @@ artikelPositionRouter.get(
   }
 );
 
+/**
+ * GET /artikelposition/:id/fefo-vorschlag
+ * Chargenvorschlag (FEFO) für die Kommissionierung; Query lagerbereich=TK|NON_TK optional.
+ */
+artikelPositionRouter.get(
+  "/:id/fefo-vorschlag",
+  authenticate,
+  [
+    param("id").isMongoId().withMessage("Ungültige ArtikelPosition-ID"),
+    query("lagerbereich").optional().isIn(["TK", "NON_TK"]).withMessage("Ungültiger Lagerbereich"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await getFefoVorschlag(req.params.id, {
+        lagerbereich: req.query.lagerbereich as "TK" | "NON_TK" | undefined,
+      });
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
 /**
  * PUT /artikelposition/:id
  * Aktualisiert eine Artikelposition.
@@ -283,6 +308,24 @@ artikelPositionRouter.put(
           Array.isArray(val)
       )
       .withMessage("Chargennummern muss ein Array oder leer sein"),
+
+    body("lagerbereich")
+      .optional()
+      .isIn(["TK", "NON_TK"])
+      .withMessage("Ungültiger Lagerbereich"),
+
+    body("chargenEntnahmen")
+      .optional()
+      .isArray()
+      .withMessage("Chargenentnahmen muss ein Array sein"),
+    body("chargenEntnahmen.*.chargeId")
+      .isMongoId()
+      .withMessage("Ungültige Charge-ID"),
+    body("chargenEntnahmen.*.menge")
+      .isFloat({ min: 0 })
+      .withMessage("Entnahmemenge muss eine Zahl ≥ 0 sein"),
+
+    body("chargenAbweichungGrund").optional().isString().trim(),
   ],
   validate,
   async (req: AuthRequest, res: Response) => {
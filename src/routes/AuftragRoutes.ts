@@ -218,6 +218,10 @@ auftragRouter.post(
       .isISO8601()
       .withMessage("Lieferdatum muss ein gültiges Datum sein"),
     body("bemerkungen").optional().isString().trim(),
+    body("lieferadresseId")
+      .optional({ values: "null" })
+      .isMongoId()
+      .withMessage("Ungültige Lieferadresse-ID"),
   ],
   validate,
   async (req: AuthRequest, res: Response) => {
@@ -763,7 +767,7 @@ auftragRouter.get(
   validate,
   async (req: AuthRequest, res: Response) => {
     try {
-      const status = getFehlmengenStatus(req.params.id);
+      const status = await getFehlmengenStatus(req.params.id);
       res.json(status);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -805,7 +809,7 @@ auftragRouter.delete(
   validate,
   async (req: AuthRequest, res: Response) => {
     try {
-      const success = cancelFehlmengenTimer(req.params.id);
+      const success = await cancelFehlmengenTimer(req.params.id);
       if (success) {
         res.json({ success: true, message: "Fehlmengen-Timer wurde abgebrochen" });
       } else {
@@ -946,6 +950,10 @@ auftragRouter.put(
       .isISO8601()
       .withMessage("Lieferdatum muss ein gültiges Datum sein"),
     body("bemerkungen").optional().isString().trim(),
+    body("lieferadresseId")
+      .optional({ values: "null" })
+      .isMongoId()
+      .withMessage("Ungültige Lieferadresse-ID"),
   ],
   validate,
   async (req: AuthRequest, res: Response) => {
@@ -0,0 +1,146 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  importiereKontoauszug,
+  getBankImporte,
+  getBankTransaktionen,
+  ordneTransaktionZu,
+  ignoriereTransaktion,
+  hebeZuordnungAuf,
+} from "../services/bank/ZahlungsabgleichService";
+import { BankTransaktionStatus } from "../Resources";
+import { authenticate, isAdmin, validate, AuthRequest } from "./helper-hooks";
+
+const bankRouter = express.Router();
+
+/**
+ * POST /api/bank/import — Kontoauszug (CAMT.053-XML oder MT940) importieren und Zahlungen abgleichen.
+ * Body: { dateiname, inhalt } (Dateiinhalt als Text)
+ */
+bankRouter.post(
+  "/import",
+  authenticate,
+  isAdmin,
+  [
+    body("dateiname").isString().trim().notEmpty().withMessage("Dateiname fehlt"),
+    body("inhalt").isString().notEmpty().withMessage("Dateiinhalt fehlt"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await importiereKontoauszug(
+        { dateiname: req.body.dateiname, inhalt: req.body.inhalt },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/bank/imports — Liste aller Kontoauszug-Importe.
+ */
+bankRouter.get("/imports", authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await getBankImporte());
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+/**
+ * GET /api/bank/transaktionen — Umsätze, z.B. Prüfliste mit status=offen.
+ * Query: status?, importId?, kundeId?
+ */
+bankRouter.get(
+  "/transaktionen",
+  authenticate,
+  isAdmin,
+  [
+    query("status").optional().isIn(["offen", "zugeordnet", "ignoriert"]).withMessage("Ungültiger Status"),
+    query("importId").optional().isMongoId().withMessage("Ungültige Import-ID"),
+    query("kundeId").optional().isMongoId().withMessage("Ungültige Kunden-ID"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await getBankTransaktionen({
+        status: req.query.status?.toString() as BankTransaktionStatus | undefined,
+        importId: req.query.importId?.toString(),
+        kundeId: req.query.kundeId?.toString(),
+      });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/bank/transaktionen/:id/zuordnen — Zahlung manuell Aufträgen/Rechnungen zuordnen.
+ * Body: { zuordnungen: [{ auftragId, betrag }] }
+ */
+bankRouter.post(
+  "/transaktionen/:id/zuordnen",
+  authenticate,
+  isAdmin,
+  [
+    param("id").isMongoId().withMessage("Ungültige Transaktions-ID"),
+    body("zuordnungen").isArray({ min: 1 }).withMessage("Zuordnungen fehlen"),
+    body("zuordnungen.*.auftragId").isMongoId().withMessage("Ungültige Auftrag-ID"),
+    body("zuordnungen.*.betrag").isFloat({ gt: 0 }).withMessage("Betrag muss positiv sein"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await ordneTransaktionZu(req.params.id, req.body.zuordnungen, req.user?.id);
+      res.json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/bank/transaktionen/:id/ignorieren — Transaktion aus der Prüfliste nehmen.
+ * Body: { bemerkung? }
+ */
+bankRouter.post(
+  "/transaktionen/:id/ignorieren",
+  authenticate,
+  isAdmin,
+  [
+    param("id").isMongoId().withMessage("Ungültige Transaktions-ID"),
+    body("bemerkung").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await ignoriereTransaktion(req.params.id, req.body.bemerkung));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/bank/transaktionen/:id/zuordnung-aufheben — Zuordnungen zurücknehmen (Zahlstatus der Aufträge wird zurückgesetzt).
+ */
+bankRouter.post(
+  "/transaktionen/:id/zuordnung-aufheben",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Transaktions-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await hebeZuordnungAuf(req.params.id));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+export default bankRouter;
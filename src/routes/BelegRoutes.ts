@@ -1,5 +1,5 @@
-import express, { Request, Response } from "express";
-import { body, param } from "express-validator";
+import express, { Request, Response, NextFunction } from "express";
+import { body, param, query } from "express-validator";
 import {
   generateBelegPdf,
   generateSchnellauftragPdf,
@@ -9,11 +9,39 @@ import {
   getEmailLogsForAuftrag,
   generateBelegePdfs,
 } from "../services/BelegService";
-import { BelegResource, BelegTyp } from "../Resources";
-import { validate } from "./helper-hooks";
+import { E_RECHNUNG_TYPEN, generateXRechnungXml, generateZugferdPdf } from "../services/XRechnungService";
+import {
+  FINAL_BELEG_TYPEN,
+  finalisiereBeleg,
+  storniereRechnung,
+  listBelegArchiv,
+  getBelegArchivById,
+  getBelegArchivPdf,
+} from "../services/BelegArchivService";
+import { sendeLieferscheinEmail } from "../services/ZustellnachweisService";
+import { Auftrag } from "../model/AuftragModel";
+import { BelegResource, BelegTyp, FinalBelegTyp, MitarbeiterRolle } from "../Resources";
+import { authenticate, authorize, validate, AuthRequest } from "./helper-hooks";
 
 export const belegRouter = express.Router();
 
+// Finalisieren und Stornieren vergeben unveränderliche Belegnummern, das Archiv enthält Belege aller Kunden → nur Buchhaltung/Admin
+const BUCHHALTUNG_ROLLEN: MitarbeiterRolle[] = ["admin", "buchhaltung"];
+
+// E-Rechnungen: Mitarbeiter oder der Kunde des Auftrags
+const auftragZugriff = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user!.role.includes("kunde")) return next();
+  try {
+    const auftrag = await Auftrag.findById(req.params.auftragId).select({ kunde: 1 }).lean();
+    if (!auftrag || auftrag.kunde?.toString() !== req.user!.id) {
+      return res.status(403).json({ error: "Keine Berechtigung" });
+    }
+    next();
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+};
+
 /**
  * PDF eines Belegs generieren
  * Für Rechnung und Lieferschein: Daten aus Auftrag.
@@ -57,6 +85,217 @@ belegRouter.post(
   }
 );
 
+/**
+ * E-Rechnung als CII-XML (XRechnung bzw. Factur-X/ZUGFeRD EN 16931) aus dem finalisierten Beleg.
+ * Nur für Rechnung, Gutschrift und Preisdifferenz. Query: profil? (xrechnung | facturx, Default xrechnung)
+ * Body: nummer? (Auswahl unter den finalisierten Belegen des Auftrags, Default: aktueller Beleg)
+ */
+belegRouter.post(
+  "/:auftragId/:typ/xml",
+  authenticate,
+  [
+    param("auftragId").isString().notEmpty(),
+    param("typ").isIn(E_RECHNUNG_TYPEN),
+    query("profil").optional().isIn(["xrechnung", "facturx"]),
+  ],
+  validate,
+  auftragZugriff,
+  async (req: Request, res: Response) => {
+    const { auftragId, typ } = req.params;
+    const inputData = req.body as Partial<BelegResource>;
+    const profil = req.query.profil === "facturx" ? "FACTURX" : "XRECHNUNG";
+    try {
+      const { xml, nummer } = await generateXRechnungXml(auftragId, typ as BelegTyp, inputData, profil);
+      res.setHeader("Content-Type", "application/xml; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${typ}_${nummer}.xml"`);
+      res.send(xml);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * ZUGFeRD/Factur-X-Hybridrechnung (PDF/A-3b mit eingebetteter factur-x.xml) aus dem finalisierten Beleg.
+ * Body: nummer? (wie bei /xml)
+ */
+belegRouter.post(
+  "/:auftragId/:typ/zugferd",
+  authenticate,
+  [
+    param("auftragId").isString().notEmpty(),
+    param("typ").isIn(E_RECHNUNG_TYPEN),
+  ],
+  validate,
+  auftragZugriff,
+  async (req: Request, res: Response) => {
+    const { auftragId, typ } = req.params;
+    const inputData = req.body as Partial<BelegResource>;
+    try {
+      const { pdf, nummer } = await generateZugferdPdf(auftragId, typ as BelegTyp, inputData);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${typ}_${nummer}.pdf"`);
+      res.send(pdf);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * Beleg finalisieren (GoBD): vergibt die nächste Nummer des Nummernkreises (je Typ und Jahr),
+ * archiviert Snapshot + PDF unveränderlich. Nach Finalisierung der Rechnung ist der Auftrag gesperrt.
+ * Body (Gutschrift/Preisdifferenz): betrag*, referenzBelegNummer?, datum?
+ */
+belegRouter.post(
+  "/:auftragId/:typ/finalisieren",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [
+    param("auftragId").isMongoId(),
+    param("typ").isIn(FINAL_BELEG_TYPEN),
+    body("betrag").optional().isNumeric(),
+    body("datum").optional().isISO8601(),
+    body("referenzBelegNummer").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    const { auftragId, typ } = req.params;
+    try {
+      const beleg = await finalisiereBeleg(auftragId, typ as FinalBelegTyp, req.body, req.user?.id);
+      res.status(201).json(beleg);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * Lieferschein per E-Mail an den Kunden senden (emailLieferschein, sonst email).
+ * Ist der TourStop des Auftrags abgeschlossen, wird der Zustellnachweis automatisch angehängt.
+ * Body: empfaenger? (abweichende Adresse, nur Mitarbeiter – Kunden nur für eigene Aufträge an die hinterlegte Adresse)
+ */
+belegRouter.post(
+  "/:auftragId/lieferschein/email",
+  authenticate,
+  [param("auftragId").isMongoId(), body("empfaenger").optional().isEmail()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (req.user!.role.includes("kunde")) {
+        const auftrag = await Auftrag.findById(req.params.auftragId).select({ kunde: 1 }).lean();
+        if (!auftrag || auftrag.kunde?.toString() !== req.user!.id || req.body.empfaenger) {
+          return res.status(403).json({ error: "Keine Berechtigung" });
+        }
+      }
+      res.json(await sendeLieferscheinEmail(req.params.auftragId, req.body.empfaenger));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * Rechnung stornieren: erzeugt eine Stornorechnung (negierte Beträge, Bezug per referenzBelegNummer)
+ * und setzt Zahlstatus/offenen Betrag zurück.
+ * Body: referenzBelegNummer? (Default: aktuelle Rechnung), grund?, wiedereroeffnen? (Auftrag für Korrektur freigeben)
+ */
+belegRouter.post(
+  "/:auftragId/rechnung/storno",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [
+    param("auftragId").isMongoId(),
+    body("referenzBelegNummer").optional().isString().trim(),
+    body("grund").optional().isString().trim(),
+    body("wiedereroeffnen").optional().isBoolean().toBoolean(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const storno = await storniereRechnung(
+        req.params.auftragId,
+        {
+          referenzBelegNummer: req.body.referenzBelegNummer,
+          grund: req.body.grund,
+          wiedereroeffnen: req.body.wiedereroeffnen,
+        },
+        req.user?.id
+      );
+      res.status(201).json(storno);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * Archiv finalisierter Belege (ohne PDF)
+ * Query: auftragId?, typ?, jahr?
+ */
+belegRouter.get(
+  "/archiv",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [
+    query("auftragId").optional().isMongoId(),
+    query("typ").optional().isIn(FINAL_BELEG_TYPEN),
+    query("jahr").optional().isInt({ min: 2000, max: 2100 }).toInt(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const belege = await listBelegArchiv({
+        auftragId: req.query.auftragId as string | undefined,
+        typ: req.query.typ as FinalBelegTyp | undefined,
+        jahr: req.query.jahr ? Number(req.query.jahr) : undefined,
+      });
+      res.json(belege);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * Archivierter Beleg (Snapshot)
+ */
+belegRouter.get(
+  "/archiv/:id",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getBelegArchivById(req.params.id));
+    } catch (err: any) {
+      res.status(404).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * Original-PDF eines finalisierten Belegs (Hash wird vor Auslieferung geprüft)
+ */
+belegRouter.get(
+  "/archiv/:id/pdf",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, nummer } = await getBelegArchivPdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${nummer}.pdf"`);
+      res.send(pdf);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
 /**
  * Mehrere Belege gleichzeitig generieren
  * Erwartet: { auftragIds: string[], belegTyp: BelegTyp }
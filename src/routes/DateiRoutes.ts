@@ -0,0 +1,154 @@
+import express, { Response } from "express";
+import { param, query } from "express-validator";
+import {
+  darfZugreifen,
+  getDatei,
+  getDateienByBesitzer,
+  ladeDatei,
+  loescheDatei,
+  speichereDatei,
+  starteBase64Migration,
+} from "../services/dateien/DateiService";
+import { DateiBesitzerTyp, DateiZweck } from "../Resources";
+import { authenticate, isAdmin, validate, multipartUpload, AuthRequest } from "./helper-hooks";
+
+const dateiRouter = express.Router();
+
+const BESITZER_TYPEN = ["tourstop", "leergutbuchung", "kunde", "reklamation"];
+const ZWECKE = ["signatur", "leergut-pdf", "gewerbe", "zusatz", "reklamation-foto"];
+
+/**
+ * POST /api/dateien — Datei hochladen (multipart/form-data).
+ * Felder: besitzerTyp, besitzerId, zweck; Datei im Feld "datei".
+ * Ersetzt eine vorhandene Datei gleichen Zwecks beim Besitzer (außer Reklamationsfotos – davon beliebig viele).
+ */
+dateiRouter.post("/", authenticate, multipartUpload, async (req: AuthRequest, res: Response) => {
+  const { felder, dateien } = req.multipart!;
+  const datei = dateien.find((d) => d.feld === "datei");
+  if (!BESITZER_TYPEN.includes(felder.besitzerTyp)) return res.status(400).json({ error: "Ungültiger Besitzertyp" });
+  if (!ZWECKE.includes(felder.zweck)) return res.status(400).json({ error: "Ungültiger Zweck" });
+  if (!felder.besitzerId) return res.status(400).json({ error: "besitzerId ist erforderlich" });
+  if (!datei) return res.status(400).json({ error: "Keine Datei im Feld \"datei\"" });
+  if (!darfZugreifen(req.user, felder.besitzerTyp as DateiBesitzerTyp, felder.besitzerId)) {
+    return res.status(403).json({ error: "Zugriff verweigert" });
+  }
+  try {
+    const result = await speichereDatei(
+      {
+        daten: datei.daten,
+        dateiname: datei.dateiname,
+        contentType: datei.contentType,
+        besitzerTyp: felder.besitzerTyp as DateiBesitzerTyp,
+        besitzerId: felder.besitzerId,
+        zweck: felder.zweck as DateiZweck,
+      },
+      req.user?.id
+    );
+    res.status(201).json(result);
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+/**
+ * GET /api/dateien — Dateien eines Besitzers.
+ * Query: besitzerTyp, besitzerId
+ */
+dateiRouter.get(
+  "/",
+  authenticate,
+  [query("besitzerTyp").isIn(BESITZER_TYPEN), query("besitzerId").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    const besitzerTyp = req.query.besitzerTyp as DateiBesitzerTyp;
+    const besitzerId = req.query.besitzerId as string;
+    if (!darfZugreifen(req.user, besitzerTyp, besitzerId)) return res.status(403).json({ error: "Zugriff verweigert" });
+    try {
+      res.json(await getDateienByBesitzer(besitzerTyp, besitzerId));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/dateien/migration — Base64-Altbestand in die Dateiablage verschieben (Hintergrund-Job).
+ */
+dateiRouter.post("/migration", authenticate, isAdmin, async (_req: AuthRequest, res: Response) => {
+  try {
+    res.status(202).json(await starteBase64Migration());
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+/**
+ * GET /api/dateien/:id/meta — Metadaten (Name, Typ, Größe, Prüfsumme)
+ */
+dateiRouter.get(
+  "/:id/meta",
+  authenticate,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    const datei = await getDatei(req.params.id);
+    if (!datei) return res.status(404).json({ error: "Datei nicht gefunden" });
+    if (!darfZugreifen(req.user, datei.besitzerTyp, datei.besitzerId)) {
+      return res.status(403).json({ error: "Zugriff verweigert" });
+    }
+    res.json(datei);
+  }
+);
+
+/**
+ * GET /api/dateien/:id — Inhalt herunterladen (Query: download=1 für Anhang statt inline)
+ */
+dateiRouter.get(
+  "/:id",
+  authenticate,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    const meta = await getDatei(req.params.id);
+    if (!meta) return res.status(404).json({ error: "Datei nicht gefunden" });
+    if (!darfZugreifen(req.user, meta.besitzerTyp, meta.besitzerId)) {
+      return res.status(403).json({ error: "Zugriff verweigert" });
+    }
+    try {
+      const { datei, daten } = await ladeDatei(req.params.id);
+      const art = req.query.download === "1" ? "attachment" : "inline";
+      res.setHeader("Content-Type", datei.contentType);
+      res.setHeader("Content-Length", String(daten.length));
+      res.setHeader("Content-Disposition", `${art}; filename*=UTF-8''${encodeURIComponent(datei.dateiname)}`);
+      res.setHeader("ETag", `"${datei.sha256}"`);
+      res.send(daten);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/dateien/:id — Datei löschen (Verweis beim Besitzer wird entfernt)
+ */
+dateiRouter.delete(
+  "/:id",
+  authenticate,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    const datei = await getDatei(req.params.id);
+    if (!datei) return res.status(404).json({ error: "Datei nicht gefunden" });
+    if (!darfZugreifen(req.user, datei.besitzerTyp, datei.besitzerId)) {
+      return res.status(403).json({ error: "Zugriff verweigert" });
+    }
+    try {
+      await loescheDatei(req.params.id);
+      res.status(204).send();
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+export default dateiRouter;
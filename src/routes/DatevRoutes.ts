@@ -0,0 +1,93 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  exportiereBuchungsstapel,
+  exportiereDebitoren,
+  listDatevExporte,
+  getDatevExportDatei,
+} from "../services/DatevService";
+import { DatevExportArt } from "../Resources";
+import { authenticate, isAdmin, validate, AuthRequest } from "./helper-hooks";
+
+const datevRouter = express.Router();
+
+/**
+ * GET /api/datev/exporte — Bisherige DATEV-Exporte (ohne Dateiinhalt).
+ * Query: art? (buchungsstapel | debitoren)
+ */
+datevRouter.get(
+  "/exporte",
+  authenticate,
+  isAdmin,
+  [query("art").optional().isIn(["buchungsstapel", "debitoren"]).withMessage("Ungültige Exportart")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await listDatevExporte({ art: req.query.art?.toString() as DatevExportArt | undefined });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/datev/exporte/:id/datei — EXTF-CSV eines Exports herunterladen (Windows-1252).
+ */
+datevRouter.get(
+  "/exporte/:id/datei",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Export-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { datei, dateiname } = await getDatevExportDatei(req.params.id);
+      res.setHeader("Content-Type", "text/csv; charset=windows-1252");
+      res.setHeader("Content-Disposition", `attachment; filename="${dateiname}"`);
+      res.send(datei);
+    } catch (err: any) {
+      res.status(404).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/datev/buchungsstapel — Buchungsstapel der noch nicht exportierten finalen Belege erstellen.
+ * Body: { von, bis }
+ */
+datevRouter.post(
+  "/buchungsstapel",
+  authenticate,
+  isAdmin,
+  [
+    body("von").isISO8601().withMessage("Ungültiges Datum (von)"),
+    body("bis").isISO8601().withMessage("Ungültiges Datum (bis)"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await exportiereBuchungsstapel(
+        { von: new Date(req.body.von), bis: new Date(req.body.bis) },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/datev/debitoren — Debitoren-Stammdaten aller Kunden exportieren.
+ */
+datevRouter.post("/debitoren", authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await exportiereDebitoren(req.user?.id);
+    res.status(201).json(result);
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+export default datevRouter;
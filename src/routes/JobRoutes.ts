@@ -0,0 +1,109 @@
+import express, { Response } from "express";
+import { param, query } from "express-validator";
+import {
+  listJobs,
+  getJobById,
+  retryJob,
+  cancelJob,
+} from "../services/JobQueueService";
+import { JobStatus } from "../Resources";
+import { authenticate, isAdmin, validate, AuthRequest } from "./helper-hooks";
+
+const jobRouter = express.Router();
+
+/**
+ * GET /api/jobs — Jobs der persistenten Job-Queue listen (Status-Übersicht).
+ * Query: typ?, key?, status?, page?, limit?
+ */
+jobRouter.get(
+  "/",
+  authenticate,
+  isAdmin,
+  [
+    query("typ").optional().isString().trim(),
+    query("key").optional().isString().trim(),
+    query("status")
+      .optional()
+      .isIn(["PENDING", "RUNNING", "DONE", "FAILED", "CANCELLED"])
+      .withMessage("Ungültiger Status"),
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await listJobs({
+        typ: req.query.typ?.toString(),
+        key: req.query.key?.toString(),
+        status: req.query.status?.toString() as JobStatus | undefined,
+        page: req.query.page ? Number(req.query.page) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/jobs/:id — Einzelnen Job laden.
+ */
+jobRouter.get(
+  "/:id",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Job-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const job = await getJobById(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job nicht gefunden" });
+      res.json(job);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/jobs/:id/retry — Fehlgeschlagenen/abgebrochenen Job erneut einplanen.
+ */
+jobRouter.post(
+  "/:id/retry",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Job-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const job = await retryJob(req.params.id);
+      if (!job) return res.status(404).json({ error: "Kein fehlgeschlagener oder abgebrochener Job gefunden" });
+      res.json(job);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/jobs/:id — Wartenden Job abbrechen.
+ */
+jobRouter.delete(
+  "/:id",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Job-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const success = await cancelJob(req.params.id);
+      if (!success) return res.status(404).json({ error: "Kein wartender Job gefunden" });
+      res.json({ success: true });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+export default jobRouter;
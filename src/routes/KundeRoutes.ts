@@ -16,8 +16,16 @@ import {
   normalizeKundenEmails,
   approveKunde,
   getKundeAnalytics,
+  getKundeBuchhaltung,
   setBestimmteArtikel,
 } from '../services/KundeService'; // Passe den Pfad ggf. an
+import {
+  getLieferadressen,
+  addLieferadresse,
+  updateLieferadresse,
+  deleteLieferadresse,
+  migriereKundenAdressen,
+} from '../services/KundeAdressService';
 import { LoginResource } from '../Resources'; // Passe den Pfad ggf. an
 
 const kundeRouter = express.Router();
@@ -66,10 +74,16 @@ kundeRouter.post(
     body('kundenNummer').optional().isString().trim().withMessage('Kundennummer ist erforderlich'),
     body('password').isString().trim().notEmpty().withMessage('Passwort ist erforderlich'),
     body('email').isEmail().withMessage('Ungültige Email'),
-    body('adresse').isString().trim().notEmpty().withMessage('Adresse ist erforderlich'),
+    body('adresse').if(body('strasse').not().exists()).isString().trim().notEmpty().withMessage('Adresse ist erforderlich'),
+    body('strasse').optional().isString().trim().notEmpty(),
+    body('hausnummer').optional().isString().trim(),
+    body('plz').optional().isString().trim().matches(/^\d{4,5}$/).withMessage('Ungültige PLZ'),
+    body('ort').optional().isString().trim().notEmpty(),
     body('land').optional().isString().trim(),
     body('telefon').optional().isString().trim(),
     body('lieferzeit').optional().isString().trim().withMessage('lieferzeit ist erforderlich'),
+    body('lat').optional({ values: 'null' }).isFloat({ min: -90, max: 90 }).toFloat(),
+    body('lng').optional({ values: 'null' }).isFloat({ min: -180, max: 180 }).toFloat(),
     body('ustId').optional().isString().trim(),
     body('ansprechpartner').optional().isString().trim(),
     body('region').optional().isString().trim().withMessage('Region ist erforderlich'),
@@ -162,9 +176,14 @@ kundeRouter.get(
  *  - granularity: 'day' | 'week' | 'month'
  *  - topArticlesLimit, recentOrdersLimit, priceHistogramBuckets (Zahlen)
  */
-kundeRouter.get('/:id/analytics', async (req, res) => {
+kundeRouter.get('/:id/analytics', authenticate, async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
+    // Enthält Offene Posten und Leergut-Saldo → nur Admin oder der Kunde selbst
+    const currentUser = req.user as LoginResource;
+    if (!currentUser.role.includes("admin") && currentUser.id !== id) {
+      return res.status(403).json({ error: 'Zugriff verweigert' });
+    }
     const {
       from,
       to,
@@ -224,6 +243,26 @@ kundeRouter.get(
   }
 );
 
+// GET /kunden/:id/buchhaltung
+// Offene Posten (letzter OP-Import) und Leergut-Bestand des Kunden – Admin oder der Kunde selbst
+kundeRouter.get(
+  '/:id/buchhaltung',
+  authenticate,
+  [param('id').isMongoId().withMessage('Ungültige ID')],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const currentUser = req.user as LoginResource;
+      if (!currentUser.role.includes("admin") && currentUser.id !== req.params.id) {
+        return res.status(403).json({ error: 'Zugriff verweigert' });
+      }
+      res.json(await getKundeBuchhaltung(req.params.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // PATCH /kunden/:id/approve
 // Admin: Kunde freischalten/sperren
 kundeRouter.patch(
@@ -256,9 +295,15 @@ kundeRouter.put(
     body('password').optional().isString().trim().notEmpty(),
     body('email').optional().isEmail().withMessage('Ungültige Email'),
     body('adresse').optional().isString().trim().notEmpty(),
+    body('strasse').optional().isString().trim().notEmpty(),
+    body('hausnummer').optional().isString().trim(),
+    body('plz').optional().isString().trim().matches(/^\d{4,5}$/).withMessage('Ungültige PLZ'),
+    body('ort').optional().isString().trim().notEmpty(),
     body('land').optional().isString().trim(),
     body('telefon').optional().isString().trim(),
     body('lieferzeit').optional().isString().trim(),
+    body('lat').optional({ values: 'null' }).isFloat({ min: -90, max: 90 }).toFloat(),
+    body('lng').optional({ values: 'null' }).isFloat({ min: -180, max: 180 }).toFloat(),
     body('ustId').optional().isString().trim(),
     body('handelsregisterNr').optional().isString().trim(),
     body('ansprechpartner').optional().isString().trim(),
@@ -274,6 +319,7 @@ kundeRouter.put(
     body('emailBuchhaltung').optional({ values: 'falsy' }).isEmail().withMessage('Ungültige E-Mail für Buchhaltung'),
     body('emailSpedition').optional({ values: 'falsy' }).isEmail().withMessage('Ungültige E-Mail für Spedition'),
     body('fehlmengenBenachrichtigung').optional().isBoolean().toBoolean(),
+    body('rechnungsIntervall').optional().isIn(['pro_lieferung', 'woechentlich', 'zweiwoechentlich', 'monatlich']),
   ],
   validate,
   async (req: AuthRequest, res: Response) => {
@@ -363,6 +409,106 @@ kundeRouter.delete(
   }
 );
 
+const lieferadresseValidators = (pflicht: boolean) => {
+  const feld = (name: string) => (pflicht ? body(name) : body(name).optional());
+  return [
+    body('bezeichnung').optional().isString().trim(),
+    feld('strasse').isString().trim().notEmpty().withMessage('Straße ist erforderlich'),
+    body('hausnummer').optional().isString().trim(),
+    feld('plz').isString().trim().matches(/^\d{4,5}$/).withMessage('Ungültige PLZ'),
+    feld('ort').isString().trim().notEmpty().withMessage('Ort ist erforderlich'),
+    body('land').optional().isString().trim(),
+    body('lat').optional({ values: 'null' }).isFloat({ min: -90, max: 90 }).toFloat(),
+    body('lng').optional({ values: 'null' }).isFloat({ min: -180, max: 180 }).toFloat(),
+    body('standard').optional().isBoolean().toBoolean(),
+  ];
+};
+
+// GET /kunden/:id/lieferadressen – Lieferadressen eines Kunden
+kundeRouter.get(
+  '/:id/lieferadressen',
+  authenticate,
+  [param('id').isMongoId().withMessage('Ungültige ID')],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getLieferadressen(req.params.id, req.user!));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// POST /kunden/:id/lieferadressen – Lieferadresse anlegen (erste Adresse wird Standard)
+kundeRouter.post(
+  '/:id/lieferadressen',
+  authenticate,
+  [param('id').isMongoId().withMessage('Ungültige ID'), ...lieferadresseValidators(true)],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.status(201).json(await addLieferadresse(req.params.id, req.body, req.user!));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// PUT /kunden/:id/lieferadressen/:adresseId – Lieferadresse ändern (standard: true → neue Standardadresse)
+kundeRouter.put(
+  '/:id/lieferadressen/:adresseId',
+  authenticate,
+  [
+    param('id').isMongoId().withMessage('Ungültige ID'),
+    param('adresseId').isMongoId().withMessage('Ungültige Lieferadresse'),
+    ...lieferadresseValidators(false),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await updateLieferadresse(req.params.id, req.params.adresseId, req.body, req.user!));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// DELETE /kunden/:id/lieferadressen/:adresseId – Lieferadresse löschen (nicht bei offenen Aufträgen)
+kundeRouter.delete(
+  '/:id/lieferadressen/:adresseId',
+  authenticate,
+  [
+    param('id').isMongoId().withMessage('Ungültige ID'),
+    param('adresseId').isMongoId().withMessage('Ungültige Lieferadresse'),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await deleteLieferadresse(req.params.id, req.params.adresseId, req.user!);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// POST /kunden/adressen/migration
+// Zerlegt Freitext-Adressen in Straße/Hausnummer/PLZ/Ort (nur Admin); liefert nicht erkannte Adressen zur Pflege
+kundeRouter.post(
+  '/adressen/migration',
+  authenticate,
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user?.role.includes("admin")) {
+      return res.status(403).json({ error: 'Nur Admins dürfen diese Aktion durchführen' });
+    }
+    try {
+      res.json(await migriereKundenAdressen());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // PATCH /kunden/normalize-emails
 // Normalisiert alle Kunden-E-Mails (nur Admin)
 kundeRouter.patch(
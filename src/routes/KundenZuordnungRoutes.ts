@@ -0,0 +1,108 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  verknuepfeImport,
+  getNichtZugeordnete,
+  setzeZuordnung,
+  loescheZuordnung,
+} from "../services/KundenZuordnungService";
+import { KundeZuordnungQuelle } from "../Resources";
+import { authenticate, isAdmin, validate, AuthRequest } from "./helper-hooks";
+
+const kundenZuordnungRouter = express.Router();
+
+const QUELLEN = ["offene_posten", "leergut"];
+
+/**
+ * GET /api/kunden-zuordnung/offen — Prüfliste: Kontonummern des letzten Imports ohne Kunde (mit Vorschlägen).
+ * Query: quelle ("offene_posten" | "leergut")
+ */
+kundenZuordnungRouter.get(
+  "/offen",
+  authenticate,
+  isAdmin,
+  [query("quelle").isIn(QUELLEN).withMessage("Ungültige Quelle")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getNichtZugeordnete(req.query.quelle as KundeZuordnungQuelle));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/kunden-zuordnung/lauf — Automatische Zuordnung erneut ausführen (z.B. nach Anlage neuer Kunden).
+ * Body: { quelle, importId? } (ohne importId: letzter Import)
+ */
+kundenZuordnungRouter.post(
+  "/lauf",
+  authenticate,
+  isAdmin,
+  [
+    body("quelle").isIn(QUELLEN).withMessage("Ungültige Quelle"),
+    body("importId").optional().isMongoId().withMessage("Ungültige Import-ID"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await verknuepfeImport(req.body.quelle, req.body.importId));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * PUT /api/kunden-zuordnung/:quelle/:externeNr — Kontonummer manuell einem Kunden zuordnen (gilt für alle Imports).
+ * Body: { kundeId }
+ */
+kundenZuordnungRouter.put(
+  "/:quelle/:externeNr",
+  authenticate,
+  isAdmin,
+  [
+    param("quelle").isIn(QUELLEN).withMessage("Ungültige Quelle"),
+    param("externeNr").isString().trim().notEmpty(),
+    body("kundeId").isMongoId().withMessage("Ungültige Kunden-ID"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await setzeZuordnung(
+        req.params.quelle as KundeZuordnungQuelle,
+        req.params.externeNr,
+        req.body.kundeId,
+        req.user?.id
+      );
+      res.status(204).send();
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/kunden-zuordnung/:quelle/:externeNr — Manuelle Zuordnung aufheben.
+ */
+kundenZuordnungRouter.delete(
+  "/:quelle/:externeNr",
+  authenticate,
+  isAdmin,
+  [
+    param("quelle").isIn(QUELLEN).withMessage("Ungültige Quelle"),
+    param("externeNr").isString().trim().notEmpty(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await loescheZuordnung(req.params.quelle as KundeZuordnungQuelle, req.params.externeNr);
+      res.status(204).send();
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+export default kundenZuordnungRouter;
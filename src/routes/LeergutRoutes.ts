@@ -1,6 +1,6 @@
 import express, { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
-import { param, body, validationResult } from "express-validator";
+import { param, body, query, validationResult } from "express-validator";
 import {
   getImports,
   getEintraegeByImport,
@@ -8,13 +8,28 @@ import {
   createImport,
   deleteImport,
 } from "../services/LeergutService";
-import { LoginResource } from "../Resources";
+import {
+  getLeergutSalden,
+  getLeergutKontoauszug,
+  bucheKorrektur,
+  uebernehmeEroeffnungsbestand,
+  synchronisiereAlle,
+  getLeergutKontoauszugPdf,
+  versendeLeergutKontoauszuege,
+} from "../services/LeergutKontoService";
+import { LoginResource, MitarbeiterRolle } from "../Resources";
+import { MultipartDaten } from "../services/dateien/Multipart";
+import { authorize, isAdmin, multipartUpload } from "./helper-hooks";
 
 const leergutRouter = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
 
+// Buchungen im Leergutkonto (Journal, nicht löschbar) nur durch Buchhaltung/Admin
+const BUCHHALTUNG_ROLLEN: MitarbeiterRolle[] = ["admin", "buchhaltung"];
+
 interface AuthRequest extends Request {
   user?: LoginResource;
+  multipart?: MultipartDaten;
 }
 
 const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -32,6 +47,15 @@ const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
   }
 };
 
+// Kontoauszug/Saldo: Buchhaltung/Admin oder der Kunde selbst
+const kontoZugriff = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const rollen = Array.isArray(req.user?.role) ? req.user!.role : [];
+  if (!BUCHHALTUNG_ROLLEN.some((r) => rollen.includes(r)) && req.user?.id !== req.params.kundeId) {
+    return res.status(403).json({ error: "Keine Berechtigung" });
+  }
+  next();
+};
+
 const validate = (req: Request, res: Response, next: NextFunction) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -165,9 +189,35 @@ leergutRouter.post(
   async (req: AuthRequest, res: Response) => {
     try {
       const { createBuchung } = await import("../services/LeergutService");
-      res.status(201).json(await createBuchung(req.body));
+      res.status(201).json(await createBuchung(req.body, req.user?.id));
     } catch (err: any) {
-      res.status(500).json({ error: err.message });
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// POST /api/leergut/buchungen/upload — Buchung mit PDF als multipart/form-data
+// Felder: kundennr, kunde; PDF im Feld "datei"
+leergutRouter.post(
+  "/buchungen/upload",
+  authenticate,
+  multipartUpload,
+  async (req: AuthRequest, res: Response) => {
+    const { felder, dateien } = req.multipart!;
+    const datei = dateien.find((d) => d.feld === "datei");
+    if (!felder.kundennr?.trim() || !felder.kunde?.trim()) {
+      return res.status(400).json({ error: "kundennr und kunde sind erforderlich" });
+    }
+    if (!datei) return res.status(400).json({ error: "Kein PDF im Feld \"datei\"" });
+    try {
+      const { createBuchung } = await import("../services/LeergutService");
+      const result = await createBuchung(
+        { kundennr: felder.kundennr.trim(), kunde: felder.kunde.trim(), filename: datei.dateiname, pdf: datei.daten },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
     }
   }
 );
@@ -216,4 +266,155 @@ leergutRouter.post(
   }
 );
 
+// ── Leergutkonto ──
+
+// GET /api/leergut/konto/:kundeId/saldo — Saldo je Leergutart (Query: stichtag?)
+leergutRouter.get(
+  "/konto/:kundeId/saldo",
+  authenticate,
+  kontoZugriff,
+  [param("kundeId").isMongoId(), query("stichtag").optional().isISO8601()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const stichtag = req.query.stichtag ? new Date(req.query.stichtag.toString()) : undefined;
+      res.json(await getLeergutSalden(req.params.kundeId, stichtag));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// GET /api/leergut/konto/:kundeId/auszug — Kontoauszug (Query: von?, bis?, leergutArt?)
+leergutRouter.get(
+  "/konto/:kundeId/auszug",
+  authenticate,
+  kontoZugriff,
+  [
+    param("kundeId").isMongoId(),
+    query("von").optional().isISO8601(),
+    query("bis").optional().isISO8601(),
+    query("leergutArt").optional().isString().trim().notEmpty(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await getLeergutKontoauszug(req.params.kundeId, {
+        von: req.query.von ? new Date(req.query.von.toString()) : undefined,
+        bis: req.query.bis ? new Date(req.query.bis.toString()) : undefined,
+        leergutArt: req.query.leergutArt?.toString(),
+      });
+      res.json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// GET /api/leergut/konto/:kundeId/auszug/pdf — Kontoauszug als PDF (Query: von?, bis?, leergutArt?)
+leergutRouter.get(
+  "/konto/:kundeId/auszug/pdf",
+  authenticate,
+  kontoZugriff,
+  [
+    param("kundeId").isMongoId(),
+    query("von").optional().isISO8601(),
+    query("bis").optional().isISO8601(),
+    query("leergutArt").optional().isString().trim().notEmpty(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getLeergutKontoauszugPdf(req.params.kundeId, {
+        von: req.query.von ? new Date(req.query.von.toString()) : undefined,
+        bis: req.query.bis ? new Date(req.query.bis.toString()) : undefined,
+        leergutArt: req.query.leergutArt?.toString(),
+      });
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// POST /api/leergut/konto/auszuege/versand — Monatsauszüge an alle Kunden mit Bestand versenden
+// Body: { monat? } (JJJJ-MM, Standard: Vormonat; bereits versendete werden übersprungen)
+leergutRouter.post(
+  "/konto/auszuege/versand",
+  authenticate,
+  isAdmin,
+  [body("monat").optional().matches(/^\d{4}-\d{2}$/).withMessage("monat im Format JJJJ-MM")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await versendeLeergutKontoauszuege({ monat: req.body.monat }));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// POST /api/leergut/konto/korrektur — Manuelle Korrekturbuchung
+// Body: { kundeId, leergutArt, menge (+ an Kunde / − zurück), datum?, bemerkung }
+leergutRouter.post(
+  "/konto/korrektur",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [
+    body("kundeId").isMongoId().withMessage("Ungültige Kunden-ID"),
+    body("leergutArt").isString().trim().notEmpty().withMessage("leergutArt ist erforderlich"),
+    body("menge").isInt().withMessage("menge muss eine ganze Zahl sein"),
+    body("datum").optional().isISO8601(),
+    body("bemerkung").isString().trim().notEmpty().withMessage("Begründung ist erforderlich"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await bucheKorrektur(
+        { ...req.body, menge: Number(req.body.menge) },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// POST /api/leergut/konto/eroeffnung — Bestand einer Leergutliste als Eröffnungsbestand übernehmen
+// Body: { importId? } (Standard: letzter Import)
+leergutRouter.post(
+  "/konto/eroeffnung",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [body("importId").optional().isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await uebernehmeEroeffnungsbestand(req.body.importId, req.user?.id));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// POST /api/leergut/konto/sync — Lieferungen/Rückgaben aus Aufträgen und TourStops nachbuchen
+// Body: { seit? } (ohne: Vollabgleich)
+leergutRouter.post(
+  "/konto/sync",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [body("seit").optional().isISO8601()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await synchronisiereAlle(req.body.seit ? new Date(req.body.seit) : undefined));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
 export default leergutRouter;
@@ -0,0 +1,191 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  getMahnstufen,
+  setzeMahnstufen,
+  mahnlauf,
+  getMahnungen,
+  erstelleMahnung,
+  getMahnungPdf,
+  versendeMahnung,
+  verwerfeMahnvorschlag,
+} from "../services/MahnwesenService";
+import { MahnungQuelle, MahnungStatus } from "../Resources";
+import { authenticate, isAdmin, validate, AuthRequest } from "./helper-hooks";
+
+const mahnwesenRouter = express.Router();
+
+/**
+ * GET /api/mahnwesen/stufen — Konfigurierte Mahnstufen (legt beim ersten Aufruf Standardstufen an).
+ */
+mahnwesenRouter.get("/stufen", authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await getMahnstufen());
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+/**
+ * PUT /api/mahnwesen/stufen — Mahnstufen ersetzen.
+ * Body: { stufen: [{ stufe, bezeichnung, tageUeberfaellig, gebuehr, zahlungsfristTage, betreff, text, aktiv }] }
+ */
+mahnwesenRouter.put(
+  "/stufen",
+  authenticate,
+  isAdmin,
+  [
+    body("stufen").isArray({ min: 1 }).withMessage("Mahnstufen fehlen"),
+    body("stufen.*.stufe").isInt({ min: 1 }).withMessage("Stufe muss eine positive Zahl sein"),
+    body("stufen.*.bezeichnung").isString().trim().notEmpty().withMessage("Bezeichnung fehlt"),
+    body("stufen.*.tageUeberfaellig").isInt({ min: 0 }).withMessage("Tage nach Fälligkeit ungültig"),
+    body("stufen.*.gebuehr").optional().isFloat({ min: 0 }).withMessage("Gebühr ungültig"),
+    body("stufen.*.zahlungsfristTage").optional().isInt({ min: 0 }).withMessage("Zahlungsfrist ungültig"),
+    body("stufen.*.betreff").isString().trim().notEmpty().withMessage("Betreff fehlt"),
+    body("stufen.*.text").isString().notEmpty().withMessage("Brieftext fehlt"),
+    body("stufen.*.aktiv").optional().isBoolean(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await setzeMahnstufen(req.body.stufen));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/mahnwesen/lauf — Mahnlauf starten; ersetzt offene Vorschläge derselben Quelle.
+ * Body: { quelle: "offene_posten" | "rechnungen", stichtag? }
+ */
+mahnwesenRouter.post(
+  "/lauf",
+  authenticate,
+  isAdmin,
+  [
+    body("quelle").isIn(["offene_posten", "rechnungen"]).withMessage("Ungültige Quelle"),
+    body("stichtag").optional().isISO8601().withMessage("Ungültiger Stichtag"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await mahnlauf(
+        {
+          quelle: req.body.quelle as MahnungQuelle,
+          stichtag: req.body.stichtag ? new Date(req.body.stichtag) : undefined,
+        },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/mahnwesen/mahnungen — Mahnvorschläge und erstellte Mahnungen.
+ * Query: status?, kundeId?, quelle?
+ */
+mahnwesenRouter.get(
+  "/mahnungen",
+  authenticate,
+  isAdmin,
+  [
+    query("status").optional().isIn(["vorschlag", "erstellt", "versendet"]).withMessage("Ungültiger Status"),
+    query("kundeId").optional().isMongoId().withMessage("Ungültige Kunden-ID"),
+    query("quelle").optional().isIn(["offene_posten", "rechnungen"]).withMessage("Ungültige Quelle"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await getMahnungen({
+        status: req.query.status?.toString() as MahnungStatus | undefined,
+        kundeId: req.query.kundeId?.toString(),
+        quelle: req.query.quelle?.toString() as MahnungQuelle | undefined,
+      });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/mahnwesen/mahnungen/:id/erstellen — Vorschlag freigeben: PDF erzeugen, Mahnstufe an den Posten vermerken.
+ */
+mahnwesenRouter.post(
+  "/mahnungen/:id/erstellen",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Mahnungs-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await erstelleMahnung(req.params.id));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/mahnwesen/mahnungen/:id/pdf — Mahnschreiben als PDF.
+ */
+mahnwesenRouter.get(
+  "/mahnungen/:id/pdf",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Mahnungs-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getMahnungPdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (err: any) {
+      res.status(404).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/mahnwesen/mahnungen/:id/versenden — Mahnschreiben per E-Mail an die Buchhaltung des Kunden senden.
+ */
+mahnwesenRouter.post(
+  "/mahnungen/:id/versenden",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Mahnungs-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await versendeMahnung(req.params.id));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/mahnwesen/mahnungen/:id — Mahnvorschlag verwerfen.
+ */
+mahnwesenRouter.delete(
+  "/mahnungen/:id",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId().withMessage("Ungültige Mahnungs-ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await verwerfeMahnvorschlag(req.params.id);
+      res.status(204).send();
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+export default mahnwesenRouter;
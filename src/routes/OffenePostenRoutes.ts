@@ -1,21 +1,24 @@
 import express, { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
-import { param, body, validationResult } from "express-validator";
+import { param, body, query, validationResult } from "express-validator";
 import {
   getImports,
   getPostenByImport,
   getLatestPosten,
   createImport,
+  importFromDatei,
+  vergleicheImports,
+  getSaldoVerlauf,
   deleteImport,
 } from "../services/OffenePostenService";
-import { LoginResource } from "../Resources";
+import { MitarbeiterRolle } from "../Resources";
+import { authorize, multipartUpload, AuthRequest } from "./helper-hooks";
 
 const offenePostenRouter = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
 
-interface AuthRequest extends Request {
-  user?: LoginResource;
-}
+// Import, Vergleich und Saldoverlauf zeigen die Posten aller Kunden → nur Buchhaltung/Admin
+const BUCHHALTUNG_ROLLEN: MitarbeiterRolle[] = ["admin", "buchhaltung"];
 
 const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
@@ -66,6 +69,47 @@ offenePostenRouter.get(
   }
 );
 
+// GET /api/offene-posten/vergleich — Neu eröffnete, bezahlte und offene Posten je Kunde zwischen zwei Imports
+// Query: vonImportId?, bisImportId? (ohne Angabe: letzter gegen vorherigen Import)
+offenePostenRouter.get(
+  "/vergleich",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [
+    query("vonImportId").optional().isMongoId(),
+    query("bisImportId").optional().isMongoId(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await vergleicheImports({
+        vonImportId: req.query.vonImportId?.toString(),
+        bisImportId: req.query.bisImportId?.toString(),
+      });
+      res.json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// GET /api/offene-posten/verlauf — Offener Saldo je Kunde über alle Imports
+// Query: kontonr?
+offenePostenRouter.get(
+  "/verlauf",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  [query("kontonr").optional().isString().trim().notEmpty()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getSaldoVerlauf(req.query.kontonr?.toString()));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
 // GET /api/offene-posten/imports/:id — Posten eines bestimmten Imports
 offenePostenRouter.get(
   "/imports/:id",
@@ -95,7 +139,7 @@ offenePostenRouter.post(
     body("posten.*.datum").isISO8601(),
     body("posten.*.reNr").isString().trim().notEmpty(),
     body("posten.*.betrag").isFloat(),
-    body("posten.*.tageOffen").isInt({ min: 0 }),
+    body("posten.*.tageOffen").optional().isInt({ min: 0 }),
     body("posten.*.stufe").optional().isString(),
   ],
   validate,
@@ -109,6 +153,44 @@ offenePostenRouter.post(
   }
 );
 
+// POST /api/offene-posten/imports/datei — Import aus dem OP-Export (CSV/XLSX, multipart/form-data)
+// Datei im Feld "datei"; Felder: berichtsDatum?, nurPruefen?, fehlerhafteUeberspringen?
+// 201 = importiert, 200 = nur geprüft, 422 = Zeilenfehler (nichts importiert)
+offenePostenRouter.post(
+  "/imports/datei",
+  authenticate,
+  authorize(BUCHHALTUNG_ROLLEN),
+  multipartUpload,
+  // Textfelder des Uploads wie einen Body prüfen
+  (req: AuthRequest, _res: Response, next: NextFunction) => {
+    req.body = { ...req.multipart!.felder };
+    next();
+  },
+  [
+    body("berichtsDatum").optional().isISO8601().withMessage("berichtsDatum muss ein gültiges Datum sein"),
+    body("nurPruefen").optional().isBoolean().toBoolean(),
+    body("fehlerhafteUeberspringen").optional().isBoolean().toBoolean(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    const datei = req.multipart!.dateien.find((d) => d.feld === "datei");
+    if (!datei) return res.status(400).json({ error: 'Keine Datei im Feld "datei"' });
+    try {
+      const result = await importFromDatei({
+        dateiname: datei.dateiname,
+        inhalt: datei.daten,
+        berichtsDatum: req.body.berichtsDatum,
+        nurPruefen: req.body.nurPruefen,
+        fehlerhafteUeberspringen: req.body.fehlerhafteUeberspringen,
+      });
+      if (result.import) return res.status(201).json(result);
+      res.status(result.fehler.length && !req.body.nurPruefen ? 422 : 200).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
 // DELETE /api/offene-posten/imports/:id — Import loeschen
 offenePostenRouter.delete(
   "/imports/:id",
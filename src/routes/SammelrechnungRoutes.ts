@@ -0,0 +1,98 @@
+import express, { Response } from "express";
+import { body, query } from "express-validator";
+import {
+  getSammelrechnungKandidaten,
+  erstelleSammelrechnung,
+  sammelrechnungsLauf,
+} from "../services/SammelrechnungService";
+import { authenticate, isAdmin, validate, AuthRequest } from "./helper-hooks";
+
+const sammelrechnungRouter = express.Router();
+
+/**
+ * GET /api/sammelrechnungen/vorschau — Fällige Sammelrechnungen und abzurechnende Lieferungen.
+ * Query: stichtag? | kundeId? + von? + bis?
+ */
+sammelrechnungRouter.get(
+  "/vorschau",
+  authenticate,
+  isAdmin,
+  [
+    query("stichtag").optional().isISO8601().withMessage("Ungültiger Stichtag"),
+    query("kundeId").optional().isMongoId().withMessage("Ungültige Kunden-ID"),
+    query("von").optional().isISO8601().withMessage("Ungültiges Datum (von)"),
+    query("bis").optional().isISO8601().withMessage("Ungültiges Datum (bis)"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await getSammelrechnungKandidaten({
+        stichtag: req.query.stichtag ? new Date(req.query.stichtag.toString()) : undefined,
+        kundeId: req.query.kundeId?.toString(),
+        von: req.query.von ? new Date(req.query.von.toString()) : undefined,
+        bis: req.query.bis ? new Date(req.query.bis.toString()) : undefined,
+      });
+      res.json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/sammelrechnungen — Sammelrechnung für einen Kunden und Zeitraum finalisieren.
+ * Body: { kundeId, von, bis, datum? }
+ */
+sammelrechnungRouter.post(
+  "/",
+  authenticate,
+  isAdmin,
+  [
+    body("kundeId").isMongoId().withMessage("Ungültige Kunden-ID"),
+    body("von").isISO8601().withMessage("Ungültiges Datum (von)"),
+    body("bis").isISO8601().withMessage("Ungültiges Datum (bis)"),
+    body("datum").optional().isISO8601().withMessage("Ungültiges Belegdatum"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const beleg = await erstelleSammelrechnung(
+        req.body.kundeId,
+        {
+          von: new Date(req.body.von),
+          bis: new Date(req.body.bis),
+          datum: req.body.datum ? new Date(req.body.datum) : undefined,
+        },
+        req.user?.id
+      );
+      res.status(201).json(beleg);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/sammelrechnungen/lauf — Sammelrechnungslauf für alle fälligen Kunden.
+ * Body: { stichtag? }
+ */
+sammelrechnungRouter.post(
+  "/lauf",
+  authenticate,
+  isAdmin,
+  [body("stichtag").optional().isISO8601().withMessage("Ungültiger Stichtag")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await sammelrechnungsLauf(
+        req.body.stichtag ? new Date(req.body.stichtag) : undefined,
+        req.user?.id
+      );
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+export default sammelrechnungRouter;
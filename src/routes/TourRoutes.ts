@@ -15,7 +15,10 @@ import {
   unarchiveTour,
   backfillTourDatumIso,
 } from "../services/TourService";
-import { authenticate, AuthRequest, isAdmin, validate } from "./helper-hooks";
+import { getTourZustellnachweisePdf } from "../services/ZustellnachweisService";
+import { getLadeliste, getLadelistePdf } from "../services/LadelisteService";
+import { optimiereTour } from "../services/RoutenOptimierungService";
+import { authenticate, AuthRequest, isAdmin, istMitarbeiter, validate } from "./helper-hooks";
 
 const tourRouter = Router();
 
@@ -172,6 +175,98 @@ tourRouter.get(
   }
 );
 
+/* -------------------------- ROUTENOPTIMIERUNG -------------------------- */
+// Body: anwenden? (Positionen setzen, nur Admin), startZeit? "HH:mm", depotLat?/depotLng?, rueckfahrt?
+tourRouter.post(
+  "/:id/optimieren",
+  authenticate,
+  istMitarbeiter,
+  [
+    param("id").isMongoId().withMessage("Ungültige ID"),
+    body("anwenden").optional().isBoolean().toBoolean(),
+    body("startZeit").optional().matches(/^\d{1,2}:\d{2}$/).withMessage("startZeit im Format HH:mm"),
+    body("depotLat").optional().isFloat({ min: -90, max: 90 }).toFloat(),
+    body("depotLng").optional().isFloat({ min: -180, max: 180 }).toFloat(),
+    body("rueckfahrt").optional().isBoolean().toBoolean(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    if (req.body.anwenden && !req.user?.role.includes("admin")) {
+      return res.status(403).json({ error: "Admin-Zugriff erforderlich" });
+    }
+    try {
+      const result = await optimiereTour(req.params.id, {
+        anwenden: req.body.anwenden,
+        startZeit: req.body.startZeit,
+        depot:
+          req.body.depotLat !== undefined && req.body.depotLng !== undefined
+            ? { lat: req.body.depotLat, lng: req.body.depotLng }
+            : undefined,
+        rueckfahrt: req.body.rueckfahrt,
+      });
+      res.json(result);
+    } catch (error: any) {
+      const status = error.message === "Tour nicht gefunden" ? 404 : 400;
+      res.status(status).json({ error: error.message });
+    }
+  }
+);
+
+/* ------------------------------ LADELISTE ------------------------------ */
+tourRouter.get(
+  "/:id/ladeliste",
+  authenticate,
+  istMitarbeiter,
+  [param("id").isMongoId().withMessage("Ungültige ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getLadeliste(req.params.id));
+    } catch (error: any) {
+      const status = error.message === "Tour nicht gefunden" ? 404 : 400;
+      res.status(status).json({ error: error.message });
+    }
+  }
+);
+
+tourRouter.get(
+  "/:id/ladeliste/pdf",
+  authenticate,
+  istMitarbeiter,
+  [param("id").isMongoId().withMessage("Ungültige ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getLadelistePdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      const status = error.message === "Tour nicht gefunden" ? 404 : 400;
+      res.status(status).json({ error: error.message });
+    }
+  }
+);
+
+/* ------------------------ ZUSTELLNACHWEISE (PDF) ------------------------ */
+tourRouter.get(
+  "/:id/zustellnachweise",
+  authenticate,
+  istMitarbeiter,
+  [param("id").isMongoId().withMessage("Ungültige ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getTourZustellnachweisePdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
 /* --------------------------- GET BY IDS --------------------------- */
 tourRouter.post(
   "/by-ids",
@@ -12,7 +12,8 @@ import {
   listCustomerStopsForDate,
   getTourStopByKundeIdHeute,
 } from "../services/TourStopService";
-import { authenticate, AuthRequest, isAdmin, validate } from "./helper-hooks";
+import { getZustellnachweisPdf } from "../services/ZustellnachweisService";
+import { authenticate, AuthRequest, isAdmin, istMitarbeiter, validate } from "./helper-hooks";
 import TourStop from "../model/TourStopModel";
 import Tour from "../model/TourModel";
 
@@ -148,6 +149,26 @@ tourStopRouter.get(
   }
 );
 
+/* --------------------------- ZUSTELLNACHWEIS --------------------------- */
+tourStopRouter.get(
+  "/:id/zustellnachweis",
+  authenticate,
+  istMitarbeiter,
+  [param("id").isMongoId().withMessage("Ungültige ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getZustellnachweisPdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      const status = error.message === "TourStop nicht gefunden" ? 404 : 500;
+      res.status(status).json({ error: error.message });
+    }
+  }
+);
+
 /* ------------------------------ LIST/QUERY ---------------------------- */
 tourStopRouter.get(
   "/",
@@ -0,0 +1,161 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  listWaagen,
+  getWaage,
+  warteAufStabilenMesswert,
+  bucheKommissionierungMitWaage,
+  sendeMockTelegramm,
+  initWaagen,
+} from "../services/waage/WaagenService";
+import { authenticate, isAdmin, istMitarbeiter, validate, AuthRequest } from "./helper-hooks";
+
+const waagenRouter = express.Router();
+
+/**
+ * GET /api/waagen — Alle konfigurierten Waagen mit Verbindungsstatus und aktuellem Messwert.
+ */
+waagenRouter.get("/", authenticate, (req: AuthRequest, res: Response) => {
+  res.json(listWaagen());
+});
+
+/**
+ * POST /api/waagen/reload — Konfiguration (WAAGEN_CONFIG) neu laden und Waagen neu verbinden.
+ */
+waagenRouter.post("/reload", authenticate, isAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    await initWaagen();
+    res.json(listWaagen());
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+/**
+ * GET /api/waagen/:arbeitsplatz/gewicht — Aktueller Messwert eines Arbeitsplatzes.
+ * Query: stabil? (true → auf stabilen Messwert warten), timeoutMs?
+ */
+waagenRouter.get(
+  "/:arbeitsplatz/gewicht",
+  authenticate,
+  [
+    param("arbeitsplatz").isString().trim().notEmpty(),
+    query("stabil").optional().isBoolean().toBoolean(),
+    query("timeoutMs").optional().isInt({ min: 0, max: 30000 }).toInt(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const waage = getWaage(req.params.arbeitsplatz);
+      if (!waage) return res.status(404).json({ error: "Waage nicht gefunden" });
+
+      if (req.query.stabil) {
+        const messwert = await warteAufStabilenMesswert(req.params.arbeitsplatz, {
+          timeoutMs: req.query.timeoutMs ? Number(req.query.timeoutMs) : undefined,
+        });
+        return res.json(messwert);
+      }
+
+      if (!waage.messwert) {
+        return res.status(503).json({ error: "Noch kein Messwert von der Waage empfangen" });
+      }
+      res.json(waage.messwert);
+    } catch (err: any) {
+      res.status(503).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/waagen/:arbeitsplatz — Status einer Waage.
+ */
+waagenRouter.get(
+  "/:arbeitsplatz",
+  authenticate,
+  [param("arbeitsplatz").isString().trim().notEmpty()],
+  validate,
+  (req: AuthRequest, res: Response) => {
+    const waage = getWaage(req.params.arbeitsplatz);
+    if (!waage) return res.status(404).json({ error: "Waage nicht gefunden" });
+    res.json(waage);
+  }
+);
+
+/**
+ * POST /api/waagen/:arbeitsplatz/kommissionierung/:positionId
+ * Bucht die Kommissionierung einer Artikelposition mit dem stabilen Gewicht der Waage.
+ * Nettogewicht = Brutto (Waage) – Leergut (Tara).
+ * Body: leergut? [{ leergutArt, leergutAnzahl, leergutGewicht }], kommissioniertMenge?, kommissioniertEinheit?,
+ *       kommissioniertBemerkung?, chargennummern?, maxAlterMs?, timeoutMs?
+ */
+waagenRouter.post(
+  "/:arbeitsplatz/kommissionierung/:positionId",
+  authenticate,
+  istMitarbeiter,
+  [
+    param("arbeitsplatz").isString().trim().notEmpty(),
+    param("positionId").isMongoId().withMessage("Ungültige ArtikelPosition-ID"),
+    body("leergut").optional().isArray().withMessage("Leergut muss ein Array sein"),
+    body("leergut.*.leergutArt").optional().isString().trim().notEmpty().withMessage("Leergutart ist erforderlich"),
+    body("leergut.*.leergutAnzahl").optional().isNumeric().withMessage("Leergutanzahl muss eine Zahl sein"),
+    body("leergut.*.leergutGewicht").optional().isNumeric().withMessage("Leergutgewicht muss eine Zahl sein"),
+    body("kommissioniertMenge").optional().isNumeric().withMessage("Menge muss eine Zahl sein"),
+    body("kommissioniertEinheit").optional().isIn(["kg", "stück", "kiste", "karton"]).withMessage("Ungültige Einheit"),
+    body("kommissioniertBemerkung").optional().isString().trim(),
+    body("chargennummern").optional().isArray().withMessage("Chargennummern muss ein Array sein"),
+    body("maxAlterMs").optional().isInt({ min: 0, max: 60000 }).toInt(),
+    body("timeoutMs").optional().isInt({ min: 0, max: 30000 }).toInt(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Nicht authentifiziert" });
+      }
+      if (!getWaage(req.params.arbeitsplatz)) {
+        return res.status(404).json({ error: "Waage nicht gefunden" });
+      }
+      const result = await bucheKommissionierungMitWaage(
+        req.params.positionId,
+        req.params.arbeitsplatz,
+        {
+          leergut: req.body.leergut,
+          kommissioniertMenge:
+            req.body.kommissioniertMenge !== undefined ? Number(req.body.kommissioniertMenge) : undefined,
+          kommissioniertEinheit: req.body.kommissioniertEinheit,
+          kommissioniertBemerkung: req.body.kommissioniertBemerkung,
+          chargennummern: req.body.chargennummern,
+          maxAlterMs: req.body.maxAlterMs,
+          timeoutMs: req.body.timeoutMs,
+        },
+        req.user.id,
+        req.user.role.includes("admin")
+      );
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/waagen/:arbeitsplatz/mock-telegramm — Telegramm in eine virtuelle Waage einspeisen (Test/Entwicklung).
+ * Body: zeile* (z.B. "ST,GS,+  12.345kg")
+ */
+waagenRouter.post(
+  "/:arbeitsplatz/mock-telegramm",
+  authenticate,
+  isAdmin,
+  [param("arbeitsplatz").isString().trim().notEmpty(), body("zeile").isString().notEmpty()],
+  validate,
+  (req: AuthRequest, res: Response) => {
+    try {
+      sendeMockTelegramm(req.params.arbeitsplatz, req.body.zeile);
+      res.status(204).send();
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+export default waagenRouter;
@@ -1,13 +1,16 @@
-import { Request, Response, NextFunction, Router } from 'express';
+import express, { Request, Response, NextFunction, Router } from 'express';
 import {validationResult } from 'express-validator';
 import jwt from 'jsonwebtoken';
-import { LoginResource } from '../Resources'; // Passe den Pfad ggf. an
+import { LoginResource, MitarbeiterRolle } from '../Resources'; // Passe den Pfad ggf. an
+import { MultipartDaten, parseMultipart } from '../services/dateien/Multipart';
+import { DATEI_MAX_BYTES } from '../services/dateien/DateiSpeicher';
 
 export const JWT_SECRET = process.env.JWT_SECRET || 'supersecretkey';
 
 // Typdefinition für authentifizierte Requests
 export interface AuthRequest extends Request {
   user?: LoginResource;
+  multipart?: MultipartDaten; // nur nach multipartUpload
 }
 
 // Middleware: Authentifizierung mittels JWT
@@ -34,6 +37,23 @@ export const isAdmin = (req: AuthRequest, res: Response, next: NextFunction) =>
   next();
 };
 
+// Middleware: Nur Mitarbeiter (jede Rolle außer Kunde)
+export const istMitarbeiter = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user || req.user.role.includes('kunde')) {
+    return res.status(403).json({ error: 'Nur für Mitarbeiter' });
+  }
+  next();
+};
+
+// Middleware: Prüft, ob der User mindestens eine der angegebenen Rollen hat
+export const authorize = (roles: MitarbeiterRolle[]) => (req: AuthRequest, res: Response, next: NextFunction) => {
+  const userRoles: MitarbeiterRolle[] = Array.isArray(req.user?.role) ? req.user!.role : [];
+  if (!roles.some((r) => userRoles.includes(r))) {
+    return res.status(403).json({ error: 'Keine Berechtigung' });
+  }
+  next();
+};
+
 // Middleware: Validierungsergebnisse prüfen
 export const validate = (req: Request, res: Response, next: NextFunction) => {
   const errors = validationResult(req);
@@ -41,4 +61,18 @@ export const validate = (req: Request, res: Response, next: NextFunction) => {
     return res.status(400).json({ errors: errors.array() });
   }
   next();
-};
\ No newline at end of file
+};
+
+// Middleware: multipart/form-data (Datei-Upload) einlesen → req.multipart
+export const multipartUpload = [
+  express.raw({ type: 'multipart/form-data', limit: DATEI_MAX_BYTES + 1024 * 1024 }),
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!Buffer.isBuffer(req.body)) throw new Error('Erwartet multipart/form-data');
+      req.multipart = parseMultipart(req.body, req.headers['content-type'] || '');
+      next();
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+  },
+];
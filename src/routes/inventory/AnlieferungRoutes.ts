@@ -0,0 +1,215 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+
+import {
+  createAnlieferung,
+  listAnlieferungen,
+  getAnlieferungById,
+  updateAnlieferung,
+  receiveAnlieferung,
+  cancelAnlieferung,
+} from "../../services/inventory/AnlieferungService";
+import type { Lagerbereich, MitarbeiterRolle, AnlieferungStatus } from "../../Resources";
+import { authenticate, authorize, validate, AuthRequest } from "../helper-hooks";
+
+const anlieferungRouter = express.Router();
+
+const WARENEINGANG_ROLLEN: MitarbeiterRolle[] = ["admin", "lager", "wareneingang"];
+
+/* ----------------------------- ROUTES ---------------------------- */
+
+/**
+ * POST /api/anlieferungen
+ * Anlieferung ankündigen (erhöht "unterwegs" im Bestand).
+ * Body: artikelId*, erwartetAm* (YYYY-MM-DD), menge*, lagerbereich?, chargeId?, lieferantId?, notiz?
+ */
+anlieferungRouter.post(
+  "/",
+  authenticate,
+  authorize(WARENEINGANG_ROLLEN),
+  [
+    body("artikelId").isMongoId().withMessage("Ungültige artikelId"),
+    body("erwartetAm").isISO8601().withMessage("erwartetAm muss Datum (YYYY-MM-DD) sein"),
+    body("menge").isFloat({ gt: 0 }).withMessage("menge muss > 0 sein"),
+    body("lagerbereich").optional().isIn(["TK", "NON_TK"]).withMessage("lagerbereich muss TK oder NON_TK sein"),
+    body("chargeId").optional().isMongoId().withMessage("Ungültige chargeId"),
+    body("lieferantId").optional().isMongoId().withMessage("Ungültige lieferantId"),
+    body("notiz").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const created = await createAnlieferung(
+        {
+          artikelId: req.body.artikelId,
+          erwartetAm: req.body.erwartetAm,
+          menge: Number(req.body.menge),
+          lagerbereich: req.body.lagerbereich as Lagerbereich | undefined,
+          chargeId: req.body.chargeId,
+          lieferantId: req.body.lieferantId,
+          notiz: req.body.notiz,
+        },
+        req.user?.id
+      );
+      res.status(201).json(created);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+/**
+ * GET /api/anlieferungen
+ * Anlieferungen listen.
+ * Query: status?, erwartetFrom?, erwartetTo?, artikelId?, lieferantId?, q?, page?, limit?
+ */
+anlieferungRouter.get(
+  "/",
+  authenticate,
+  [
+    query("status")
+      .optional()
+      .isIn(["ANGEKUENDIGT", "TEILGELIEFERT", "ERLEDIGT", "STORNIERT"])
+      .withMessage("Ungültiger Status"),
+    query("erwartetFrom").optional().isISO8601().withMessage("erwartetFrom ist kein gültiges Datum"),
+    query("erwartetTo").optional().isISO8601().withMessage("erwartetTo ist kein gültiges Datum"),
+    query("artikelId").optional().isMongoId().withMessage("Ungültige artikelId"),
+    query("lieferantId").optional().isMongoId().withMessage("Ungültige lieferantId"),
+    query("q").optional().isString().trim(),
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const data = await listAnlieferungen({
+        status: req.query.status?.toString() as AnlieferungStatus | undefined,
+        erwartetFrom: req.query.erwartetFrom?.toString(),
+        erwartetTo: req.query.erwartetTo?.toString(),
+        artikelId: req.query.artikelId?.toString(),
+        lieferantId: req.query.lieferantId?.toString(),
+        q: req.query.q?.toString(),
+        page: req.query.page ? Number(req.query.page) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      });
+      res.json(data);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+/**
+ * GET /api/anlieferungen/:id
+ */
+anlieferungRouter.get(
+  "/:id",
+  authenticate,
+  [param("id").isMongoId().withMessage("Ungültige ID")],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const doc = await getAnlieferungById(req.params.id);
+      if (!doc) return res.status(404).json({ error: "Anlieferung nicht gefunden" });
+      res.json(doc);
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+/**
+ * PATCH /api/anlieferungen/:id
+ * Termin, Lieferant oder Notiz einer offenen Anlieferung ändern.
+ * Body: erwartetAm?, lieferantId?, notiz?
+ */
+anlieferungRouter.patch(
+  "/:id",
+  authenticate,
+  authorize(WARENEINGANG_ROLLEN),
+  [
+    param("id").isMongoId().withMessage("Ungültige ID"),
+    body("erwartetAm").optional().isISO8601().withMessage("erwartetAm muss Datum (YYYY-MM-DD) sein"),
+    body("lieferantId").optional().isMongoId().withMessage("Ungültige lieferantId"),
+    body("notiz").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const updated = await updateAnlieferung(req.params.id, {
+        erwartetAm: req.body.erwartetAm,
+        lieferantId: req.body.lieferantId,
+        notiz: req.body.notiz,
+      });
+      res.json(updated);
+    } catch (e: any) {
+      if (e.message === "Anlieferung nicht gefunden") return res.status(404).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+/**
+ * POST /api/anlieferungen/:id/wareneingang
+ * Anlieferung (teilweise) empfangen: bucht WARENEINGANG auf eine Charge und baut "unterwegs" ab.
+ * Body: menge*, lagerbereich?, charge* { id? | mhd*, isTK?, schlachtDatum? }, notiz?
+ */
+anlieferungRouter.post(
+  "/:id/wareneingang",
+  authenticate,
+  authorize(WARENEINGANG_ROLLEN),
+  [
+    param("id").isMongoId().withMessage("Ungültige ID"),
+    body("menge").isFloat({ gt: 0 }).withMessage("menge muss > 0 sein"),
+    body("lagerbereich").optional().isIn(["TK", "NON_TK"]).withMessage("lagerbereich muss TK oder NON_TK sein"),
+    body("charge").optional().isObject().withMessage("charge muss ein Objekt sein"),
+    body("charge.id").optional().isMongoId().withMessage("Ungültige charge.id"),
+    body("charge.mhd").optional().isISO8601().withMessage("charge.mhd muss Datum (YYYY-MM-DD) sein"),
+    body("charge.isTK").optional().isBoolean().withMessage("charge.isTK muss boolean sein"),
+    body("charge.schlachtDatum").optional().isISO8601().withMessage("charge.schlachtDatum ist kein Datum"),
+    body("notiz").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await receiveAnlieferung(req.params.id, {
+        menge: Number(req.body.menge),
+        lagerbereich: req.body.lagerbereich as Lagerbereich | undefined,
+        charge: req.body.charge ?? {},
+        notiz: req.body.notiz,
+        userId: req.user?.id,
+      });
+      res.status(201).json(result);
+    } catch (e: any) {
+      if (e.message === "Anlieferung nicht gefunden") return res.status(404).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+/**
+ * POST /api/anlieferungen/:id/storno
+ * Anlieferung stornieren; offene Restmenge wird aus "unterwegs" ausgebucht.
+ * Body: begruendung?
+ */
+anlieferungRouter.post(
+  "/:id/storno",
+  authenticate,
+  authorize(WARENEINGANG_ROLLEN),
+  [param("id").isMongoId().withMessage("Ungültige ID"), body("begruendung").optional().isString().trim()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await cancelAnlieferung(req.params.id, {
+        begruendung: req.body?.begruendung,
+        userId: req.user?.id,
+      });
+      res.json(result);
+    } catch (e: any) {
+      if (e.message === "Anlieferung nicht gefunden") return res.status(404).json({ error: e.message });
+      res.status(500).json({ error: e.message });
+    }
+  }
+);
+
+export default anlieferungRouter;
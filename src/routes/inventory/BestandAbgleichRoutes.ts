@@ -0,0 +1,64 @@
+import express, { Response } from "express";
+import { body, query } from "express-validator";
+import { abgleichBestandAgg, pruefeBestandAgg } from "../../services/inventory/BestandAbgleichService";
+import { authenticate, isAdmin, validate, AuthRequest } from "../helper-hooks";
+
+const bestandAbgleichRouter = express.Router();
+
+/**
+ * GET /api/bestand-abgleich — BestandAgg gegen das Bewegungsjournal prüfen (ändert nichts).
+ * Query: artikelId?, toleranz? (kg, default 0.001)
+ */
+bestandAbgleichRouter.get(
+  "/",
+  authenticate,
+  isAdmin,
+  [
+    query("artikelId").optional().isMongoId().withMessage("Ungültige artikelId"),
+    query("toleranz").optional().isFloat({ min: 0 }).withMessage("toleranz muss ≥ 0 sein").toFloat(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(
+        await pruefeBestandAgg({
+          artikelId: req.query.artikelId?.toString(),
+          toleranz: req.query.toleranz as unknown as number | undefined,
+        })
+      );
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/bestand-abgleich/neuaufbau — BestandAgg aus dem Journal neu aufbauen.
+ * Body: artikelId?, toleranz?, dryRun? (default true – nur berichten; false = korrigieren)
+ */
+bestandAbgleichRouter.post(
+  "/neuaufbau",
+  authenticate,
+  isAdmin,
+  [
+    body("artikelId").optional().isMongoId().withMessage("Ungültige artikelId"),
+    body("toleranz").optional().isFloat({ min: 0 }).withMessage("toleranz muss ≥ 0 sein"),
+    body("dryRun").optional().isBoolean().withMessage("dryRun muss boolean sein"),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(
+        await abgleichBestandAgg({
+          artikelId: req.body.artikelId,
+          toleranz: req.body.toleranz,
+          dryRun: req.body.dryRun !== false,
+        })
+      );
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+export default bestandAbgleichRouter;
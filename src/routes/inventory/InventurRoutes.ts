@@ -0,0 +1,280 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  erfasseZaehlungen,
+  freigebenInventur,
+  getInventur,
+  getInventurlistePdf,
+  getInventurlisteXlsx,
+  getZaehlliste,
+  listInventuren,
+  oeffneZaehlung,
+  schliesseZaehlung,
+  setzeIstMenge,
+  starteInventur,
+  storniereInventur,
+} from "../../services/inventory/InventurService";
+import { InventurStatus } from "../../Resources";
+import { authenticate, isAdmin, istMitarbeiter, validate, AuthRequest } from "../helper-hooks";
+
+const inventurRouter = express.Router();
+
+function fehlerStatus(message: string): number {
+  return message === "Inventur nicht gefunden" ? 404 : 400;
+}
+
+/**
+ * POST /api/inventur — Inventur starten (Soll-Bestand wird eingefroren).
+ * Body: bezeichnung?, stichtag? (ISO), lagerbereich? ("TK"|"NON_TK"), artikelIds? (Teilinventur), notiz?
+ */
+inventurRouter.post(
+  "/",
+  authenticate,
+  isAdmin,
+  [
+    body("bezeichnung").optional().isString().trim(),
+    body("stichtag").optional().isISO8601().withMessage("Ungültiger Stichtag"),
+    body("lagerbereich").optional().isIn(["TK", "NON_TK"]).withMessage("lagerbereich muss TK oder NON_TK sein"),
+    body("artikelIds").optional().isArray(),
+    body("artikelIds.*").isMongoId().withMessage("Ungültige artikelId"),
+    body("notiz").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.status(201).json(await starteInventur(req.body, req.user?.id));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/inventur — Inventuren (ohne Positionen). Query: status?
+ */
+inventurRouter.get(
+  "/",
+  authenticate,
+  isAdmin,
+  [query("status").optional().isIn(["ZAEHLUNG", "PRUEFUNG", "GEBUCHT", "STORNIERT"])],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await listInventuren({ status: req.query.status as InventurStatus | undefined }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/inventur/:id — Prüfansicht mit Soll, Zählungen, Differenzen und Werten
+ */
+inventurRouter.get(
+  "/:id",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getInventur(req.params.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/inventur/:id/zaehlliste — Zählliste für Zähler (blind: ohne Soll und ohne fremde Zählungen)
+ */
+inventurRouter.get(
+  "/:id/zaehlliste",
+  authenticate,
+  istMitarbeiter,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getZaehlliste(req.params.id, req.user!.id!));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/inventur/:id/zaehlungen — Zählungen erfassen (auch Stapel vom Mobilgerät).
+ * Body: { zaehlungen: [{ positionId? | artikelId + chargeId? + lagerbereich?, menge, zeitpunkt?, geraet? }] }
+ */
+inventurRouter.post(
+  "/:id/zaehlungen",
+  authenticate,
+  istMitarbeiter,
+  [
+    param("id").isMongoId(),
+    body("zaehlungen").isArray({ min: 1 }).withMessage("zaehlungen muss ein nicht-leeres Array sein"),
+    body("zaehlungen.*.positionId").optional().isMongoId().withMessage("Ungültige positionId"),
+    body("zaehlungen.*.artikelId").optional().isMongoId().withMessage("Ungültige artikelId"),
+    body("zaehlungen.*.chargeId").optional().isMongoId().withMessage("Ungültige chargeId"),
+    body("zaehlungen.*.lagerbereich").optional().isIn(["TK", "NON_TK"]),
+    body("zaehlungen.*.menge").isFloat({ min: 0 }).withMessage("menge muss eine Zahl ≥ 0 sein"),
+    body("zaehlungen.*.zeitpunkt").optional().isISO8601(),
+    body("zaehlungen.*.geraet").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await erfasseZaehlungen(req.params.id, req.body.zaehlungen, req.user!.id!));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/inventur/:id/abschliessen — Zählung beenden, Prüfung beginnt
+ */
+inventurRouter.post(
+  "/:id/abschliessen",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await schliesseZaehlung(req.params.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/inventur/:id/wiedereroeffnen — zurück in die Zählung (Nachzählen)
+ */
+inventurRouter.post(
+  "/:id/wiedereroeffnen",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await oeffneZaehlung(req.params.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * PUT /api/inventur/:id/positionen/:positionId — Ist-Menge festlegen (Body: istMenge (null = aufheben), begruendung)
+ */
+inventurRouter.put(
+  "/:id/positionen/:positionId",
+  authenticate,
+  isAdmin,
+  [
+    param("id").isMongoId(),
+    param("positionId").isMongoId(),
+    body("istMenge")
+      .custom((v) => v === null || (typeof v === "number" && v >= 0))
+      .withMessage("istMenge muss eine Zahl ≥ 0 oder null sein"),
+    body("begruendung").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(
+        await setzeIstMenge(req.params.id, req.params.positionId, {
+          istMenge: req.body.istMenge,
+          begruendung: req.body.begruendung,
+        })
+      );
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/inventur/:id/freigeben — Differenzen als INVENTUR_KORREKTUR buchen.
+ * Body: ungezaehltAlsNull? (nicht gezählte Positionen mit Ist 0 buchen)
+ */
+inventurRouter.post(
+  "/:id/freigeben",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId(), body("ungezaehltAlsNull").optional().isBoolean()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await freigebenInventur(req.params.id, { ungezaehltAlsNull: req.body.ungezaehltAlsNull === true }, req.user?.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/inventur/:id/stornieren — Inventur ohne Buchung beenden
+ */
+inventurRouter.post(
+  "/:id/stornieren",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await storniereInventur(req.params.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/inventur/:id/pdf — Inventurliste als PDF
+ */
+inventurRouter.get(
+  "/:id/pdf",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getInventurlistePdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/inventur/:id/xlsx — Inventurliste als Excel-Datei (inkl. aller Zählungen)
+ */
+inventurRouter.get(
+  "/:id/xlsx",
+  authenticate,
+  isAdmin,
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { xlsx, filename } = await getInventurlisteXlsx(req.params.id);
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(xlsx);
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+export default inventurRouter;
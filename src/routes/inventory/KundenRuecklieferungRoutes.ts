@@ -0,0 +1,162 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  createKundenRuecklieferung,
+  entscheideQuarantaene,
+  erstelleRuecklieferungsGutschrift,
+  getKundenRuecklieferung,
+  listKundenRuecklieferungen,
+} from "../../services/inventory/KundenRuecklieferungService";
+import { MitarbeiterRolle } from "../../Resources";
+import { authenticate, authorize, validate, AuthRequest } from "../helper-hooks";
+
+const kundenRuecklieferungRouter = express.Router();
+
+const RUECKLIEFERUNG_ROLLEN: MitarbeiterRolle[] = ["admin", "verkauf", "lager", "wareneingang"];
+const GUTSCHRIFT_ROLLEN: MitarbeiterRolle[] = ["admin", "buchhaltung"];
+
+const GRUENDE = ["QUALITAET", "MHD", "TEMPERATUR", "BESCHAEDIGT", "FALSCHLIEFERUNG", "UEBERLIEFERUNG", "SONSTIGES"];
+
+function fehlerStatus(message: string): number {
+  return message.endsWith("nicht gefunden") ? 404 : 400;
+}
+
+/**
+ * POST /api/ruecklieferungen — Rücklieferung zu einer Auftragsposition erfassen und buchen.
+ * Body: artikelPositionId*, menge* (kg), grund*, verbleib* ("BESTAND"|"MUELL"|"QUARANTAENE"),
+ *       chargeId?, lagerbereich?, notiz?, gutschrift? (bool)
+ */
+kundenRuecklieferungRouter.post(
+  "/",
+  authenticate,
+  authorize(RUECKLIEFERUNG_ROLLEN),
+  [
+    body("artikelPositionId").isMongoId().withMessage("Ungültige artikelPositionId"),
+    body("chargeId").optional().isMongoId().withMessage("Ungültige chargeId"),
+    body("lagerbereich").optional().isIn(["TK", "NON_TK"]).withMessage("lagerbereich muss TK oder NON_TK sein"),
+    body("menge").isFloat({ gt: 0 }).withMessage("menge muss > 0 sein").toFloat(),
+    body("grund").isIn(GRUENDE).withMessage("Ungültiger Grund"),
+    body("verbleib").isIn(["BESTAND", "MUELL", "QUARANTAENE"]).withMessage("Ungültiger Verbleib"),
+    body("notiz").optional().isString().trim(),
+    body("gutschrift").optional().isBoolean().toBoolean(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      // Gutschriften nur für Buchhaltung/Admin
+      const darfGutschrift = GUTSCHRIFT_ROLLEN.some((r) => req.user?.role?.includes(r));
+      if (req.body.gutschrift === true && !darfGutschrift) {
+        return res.status(403).json({ error: "Keine Berechtigung für Gutschriften" });
+      }
+      const result = await createKundenRuecklieferung(
+        {
+          artikelPositionId: req.body.artikelPositionId,
+          chargeId: req.body.chargeId,
+          lagerbereich: req.body.lagerbereich,
+          menge: req.body.menge,
+          grund: req.body.grund,
+          verbleib: req.body.verbleib,
+          notiz: req.body.notiz,
+          gutschrift: req.body.gutschrift === true,
+        },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/ruecklieferungen — Query: auftragId?, kundeId?, status? ("QUARANTAENE"|"ERLEDIGT"), from?, to?
+ */
+kundenRuecklieferungRouter.get(
+  "/",
+  authenticate,
+  authorize([...RUECKLIEFERUNG_ROLLEN, ...GUTSCHRIFT_ROLLEN]),
+  [
+    query("auftragId").optional().isMongoId(),
+    query("kundeId").optional().isMongoId(),
+    query("status").optional().isIn(["QUARANTAENE", "ERLEDIGT"]),
+    query("from").optional().isISO8601(),
+    query("to").optional().isISO8601(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(
+        await listKundenRuecklieferungen({
+          auftragId: req.query.auftragId?.toString(),
+          kundeId: req.query.kundeId?.toString(),
+          status: req.query.status as "QUARANTAENE" | "ERLEDIGT" | undefined,
+          from: req.query.from?.toString(),
+          to: req.query.to?.toString(),
+        })
+      );
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/ruecklieferungen/:id
+ */
+kundenRuecklieferungRouter.get(
+  "/:id",
+  authenticate,
+  authorize([...RUECKLIEFERUNG_ROLLEN, ...GUTSCHRIFT_ROLLEN]),
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getKundenRuecklieferung(req.params.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/ruecklieferungen/:id/entscheidung — Quarantäne auflösen.
+ * Body: verbleib* ("BESTAND"|"MUELL"), notiz?
+ */
+kundenRuecklieferungRouter.post(
+  "/:id/entscheidung",
+  authenticate,
+  authorize(RUECKLIEFERUNG_ROLLEN),
+  [
+    param("id").isMongoId(),
+    body("verbleib").isIn(["BESTAND", "MUELL"]).withMessage("verbleib muss BESTAND oder MUELL sein"),
+    body("notiz").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await entscheideQuarantaene(req.params.id, { verbleib: req.body.verbleib, notiz: req.body.notiz }, req.user?.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/ruecklieferungen/:id/gutschrift — Gutschrift nachträglich erstellen (z.B. nach Fehler beim Erfassen)
+ */
+kundenRuecklieferungRouter.post(
+  "/:id/gutschrift",
+  authenticate,
+  authorize(GUTSCHRIFT_ROLLEN),
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.status(201).json(await erstelleRuecklieferungsGutschrift(req.params.id, req.user?.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+export default kundenRuecklieferungRouter;
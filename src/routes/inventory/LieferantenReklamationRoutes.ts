@@ -0,0 +1,206 @@
+import express, { Response } from "express";
+import { body, param, query } from "express-validator";
+import {
+  createReklamation,
+  getReklamation,
+  getReklamationPdf,
+  getReklamationsquote,
+  listReklamationen,
+  schliesseReklamation,
+  sendeZurueck,
+} from "../../services/inventory/LieferantenReklamationService";
+import { MangelKategorie, MitarbeiterRolle, ReklamationStatus } from "../../Resources";
+import { authenticate, authorize, isAdmin, validate, AuthRequest } from "../helper-hooks";
+
+const reklamationRouter = express.Router();
+
+const REKLAMATION_ROLLEN: MitarbeiterRolle[] = ["admin", "wareneingang", "lager", "buchhaltung"];
+
+const KATEGORIEN = ["QUALITAET", "TEMPERATUR", "MHD", "VERPACKUNG", "FREMDKOERPER", "GEWICHT", "FALSCHLIEFERUNG", "SONSTIGES"];
+
+function fehlerStatus(message: string): number {
+  return message.endsWith("nicht gefunden") ? 404 : 400;
+}
+
+/**
+ * POST /api/reklamationen — Reklamation zu einer Charge erfassen.
+ * Body: chargeId*, kategorie*, menge* (kg), lieferantId?, beschreibung?
+ * Fotos anschließend über POST /api/dateien (besitzerTyp "reklamation", zweck "reklamation-foto").
+ */
+reklamationRouter.post(
+  "/",
+  authenticate,
+  authorize(REKLAMATION_ROLLEN),
+  [
+    body("chargeId").isMongoId().withMessage("Ungültige chargeId"),
+    body("lieferantId").optional().isMongoId().withMessage("Ungültige lieferantId"),
+    body("kategorie").isIn(KATEGORIEN).withMessage("Ungültige Mangelkategorie"),
+    body("menge").isFloat({ gt: 0 }).withMessage("menge muss > 0 sein").toFloat(),
+    body("beschreibung").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await createReklamation(
+        {
+          chargeId: req.body.chargeId,
+          lieferantId: req.body.lieferantId,
+          kategorie: req.body.kategorie,
+          menge: req.body.menge,
+          beschreibung: req.body.beschreibung,
+        },
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/reklamationen — Reklamationshistorie.
+ * Query: lieferantId?, chargeId?, status?, kategorie?, from?, to?
+ */
+reklamationRouter.get(
+  "/",
+  authenticate,
+  authorize(REKLAMATION_ROLLEN),
+  [
+    query("lieferantId").optional().isMongoId(),
+    query("chargeId").optional().isMongoId(),
+    query("status").optional().isIn(["OFFEN", "ZURUECKGESENDET", "ANERKANNT", "ABGELEHNT"]),
+    query("kategorie").optional().isIn(KATEGORIEN),
+    query("from").optional().isISO8601(),
+    query("to").optional().isISO8601(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(
+        await listReklamationen({
+          lieferantId: req.query.lieferantId?.toString(),
+          chargeId: req.query.chargeId?.toString(),
+          status: req.query.status as ReklamationStatus | undefined,
+          kategorie: req.query.kategorie as MangelKategorie | undefined,
+          from: req.query.from?.toString(),
+          to: req.query.to?.toString(),
+        })
+      );
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/reklamationen/quote — Reklamationsquote je Lieferant. Query: from?, to?
+ */
+reklamationRouter.get(
+  "/quote",
+  authenticate,
+  isAdmin,
+  [query("from").optional().isISO8601(), query("to").optional().isISO8601()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getReklamationsquote({ from: req.query.from?.toString(), to: req.query.to?.toString() }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/reklamationen/:id — inkl. Fotos
+ */
+reklamationRouter.get(
+  "/:id",
+  authenticate,
+  authorize(REKLAMATION_ROLLEN),
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await getReklamation(req.params.id));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/reklamationen/:id/ruecksendung — Ware an den Lieferanten zurücksenden (bucht Bestand ab).
+ * Body: menge? (kg, default beanstandetes Gewicht), lagerbereich?, notiz?
+ */
+reklamationRouter.post(
+  "/:id/ruecksendung",
+  authenticate,
+  authorize(REKLAMATION_ROLLEN),
+  [
+    param("id").isMongoId(),
+    body("menge").optional().isFloat({ gt: 0 }).withMessage("menge muss > 0 sein").toFloat(),
+    body("lagerbereich").optional().isIn(["TK", "NON_TK"]).withMessage("lagerbereich muss TK oder NON_TK sein"),
+    body("notiz").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(
+        await sendeZurueck(
+          req.params.id,
+          { menge: req.body.menge, lagerbereich: req.body.lagerbereich, notiz: req.body.notiz },
+          req.user?.id
+        )
+      );
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * POST /api/reklamationen/:id/abschliessen — Antwort des Lieferanten erfassen.
+ * Body: status* ("ANERKANNT"|"ABGELEHNT"), ergebnis?
+ */
+reklamationRouter.post(
+  "/:id/abschliessen",
+  authenticate,
+  authorize(REKLAMATION_ROLLEN),
+  [
+    param("id").isMongoId(),
+    body("status").isIn(["ANERKANNT", "ABGELEHNT"]).withMessage("status muss ANERKANNT oder ABGELEHNT sein"),
+    body("ergebnis").optional().isString().trim(),
+  ],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await schliesseReklamation(req.params.id, { status: req.body.status, ergebnis: req.body.ergebnis }));
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+/**
+ * GET /api/reklamationen/:id/pdf — Reklamations-PDF für den Lieferanten
+ */
+reklamationRouter.get(
+  "/:id/pdf",
+  authenticate,
+  authorize(REKLAMATION_ROLLEN),
+  [param("id").isMongoId()],
+  validate,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { pdf, filename } = await getReklamationPdf(req.params.id);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(pdf);
+    } catch (err: any) {
+      res.status(fehlerStatus(err.message)).json({ error: err.message });
+    }
+  }
+);
+
+export default reklamationRouter;
@@ -8,11 +8,16 @@ import { getKundenPreis } from "./KundenPreisService"; // Pfad ggf. anpassen
 import { ZerlegeAuftragModel } from "../model/ZerlegeAuftragModel";
 import mongoose from "mongoose";
 
-import { BewegungModel } from "../model/BewegungsModel";
-import { BestandAggModel } from "../model/BestandsAggModel";
-import { ChargeModel } from "../model/ChargeModel";
-import type { Lagerbereich } from "../Resources";
+import type { ChargenEntnahme, Lagerbereich } from "../Resources";
 import { hasFehlmenge, registerFehlmenge, removeFehlmenge } from "./FehlmengenScheduler";
+import { assertAuftragNichtFinalisiert } from "./BelegArchivService";
+import {
+  bucheKommissionierung,
+  getFefoVorschlag,
+  pruefeChargenAuswahl,
+  storniereKommissionierung,
+} from "./inventory/FefoService";
+import { logger } from "../logger";
 
 // ... Importe bleiben gleich
 
@@ -24,76 +29,31 @@ const EMPTY_ARTIKEL = {
   gewichtProKarton: 1,
 };
 
-// ---------- Bestands-Sync (Kommissionierung) Helpers ----------
-function toISODate(d?: Date | string | null): string | undefined {
-  if (!d) return undefined;
-  const dt = typeof d === "string" ? new Date(d) : d;
-  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
-}
+// ---------- Chargen (FEFO-Kommissionierung) ----------
 
-async function getArtikelGewichte(artikelId: string) {
-  const a = await ArtikelModel.findById(artikelId).lean();
+function chargenFelder(position: any): Pick<ArtikelPositionResource, "lagerbereich" | "chargenEntnahmen" | "chargenAbweichung"> {
+  const a = position.chargenAbweichung;
   return {
-    gewichtProStueck: Number(a?.gewichtProStueck ?? 0) || 0,
-    gewichtProKiste: Number(a?.gewichtProKiste ?? 0) || 0,
-    gewichtProKarton: Number(a?.gewichtProKarton ?? 0) || 0,
-    name: a?.name,
-    artikelNummer: (a as any)?.artikelNummer,
+    lagerbereich: position.lagerbereich ?? undefined,
+    chargenEntnahmen: (position.chargenEntnahmen ?? []).map((e: any) => ({
+      chargeId: e.chargeId.toString(),
+      menge: e.menge,
+    })),
+    chargenAbweichung: a
+      ? {
+          vorschlag: (a.vorschlag ?? []).map((v: any) => ({ chargeId: v.chargeId.toString(), menge: v.menge })),
+          grund: a.grund ?? undefined,
+          von: a.von?.toString(),
+          vonName: a.vonName ?? undefined,
+          am: new Date(a.am).toISOString(),
+        }
+      : undefined,
   };
 }
 
-async function sumBereitsGebuchtKg(
-  auftragId: string,
-  artikelId: string,
-  positionId: string
-): Promise<number> {
-  const docs = await BewegungModel.aggregate([
-    {
-      $match: {
-        typ: "KOMMISSIONIERUNG",
-        auftragId: new mongoose.Types.ObjectId(auftragId),
-        artikelId: new mongoose.Types.ObjectId(artikelId),
-        notiz: { $regex: `\\[POS:${positionId}\\]` },
-      },
-    },
-    { $group: { _id: null, sum: { $sum: "$menge" } } },
-  ]);
-  // menge ist negativ bei KOMMISSIONIERUNG → wir nehmen den Absolutwert
-  const sum = docs[0]?.sum ?? 0;
-  return Math.abs(Number(sum) || 0);
-}
-
-async function upsertBestandAgg(
-  p: {
-    artikelId: string;
-    chargeId: string;
-    lagerbereich: Lagerbereich;
-    deltaVerfuegbar: number;
-  },
-  session: mongoose.ClientSession
-) {
-  await BestandAggModel.updateOne(
-    {
-      artikelId: new mongoose.Types.ObjectId(p.artikelId),
-      chargeId: new mongoose.Types.ObjectId(p.chargeId),
-      lagerbereich: p.lagerbereich,
-    },
-    {
-      $setOnInsert: {
-        artikelId: new mongoose.Types.ObjectId(p.artikelId),
-        chargeId: new mongoose.Types.ObjectId(p.chargeId),
-        lagerbereich: p.lagerbereich,
-      },
-      $inc: { verfuegbar: p.deltaVerfuegbar },
-      $set: { updatedAt: new Date() },
-    },
-    { upsert: true, session }
-  );
-}
-
 // ---------- Leergut→Artikel-Mapping ----------
 
-const LEERGUT_OPTION_TO_ARTIKELNAME: Record<string, string> = {
+export const LEERGUT_OPTION_TO_ARTIKELNAME: Record<string, string> = {
   e2: "E2 Kiste",
   e1: "E1 Kiste",
   h1: "H1 Palette",
@@ -236,114 +196,6 @@ async function createLeergutArtikelPositionFromSelection(
   }
 }
 
-/**
- * Ermittelt die zu buchende Zielmenge in **kg** aus den Kommissionierungsfeldern einer Position.
- * Priorität: Nettogewicht > kommissioniertMenge*Einheitsgewicht.
- */
-async function computeZielMengeKg(position: any): Promise<number> {
-  const artikelId = position.artikel?.toString();
-  const einheit = position.kommissioniertEinheit || position.einheit;
-  const kgFromNetto =
-    typeof position.nettogewicht === "number" && isFinite(position.nettogewicht)
-      ? position.nettogewicht
-      : undefined;
-  if (kgFromNetto !== undefined) return round3(Math.max(0, kgFromNetto));
-
-  const menge =
-    typeof position.kommissioniertMenge === "number"
-      ? position.kommissioniertMenge
-      : position.menge;
-  if (!artikelId || !isFinite(menge) || menge <= 0) return 0;
-  if (einheit === "kg") return round3(menge);
-
-  const g = await getArtikelGewichte(artikelId);
-  const factor =
-    einheit === "stück"
-      ? g.gewichtProStueck
-      : einheit === "kiste"
-      ? g.gewichtProKiste
-      : g.gewichtProKarton;
-  return round3(Math.max(0, menge * (factor || 0)));
-}
-
-/**
- * Bucht Delta für diese Position gegen die angegebenen Chargen.
- * - Delta > 0  → KOMMISSIONIERUNG (negativ)
- * - Delta < 0  → INVENTUR_KORREKTUR (positiv, Rückbuchung)
-//  */
-// async function syncKommissionierungMitBestand(
-//   positionId: string,
-//   userId: string | undefined
-// ) {
-//   const position = await ArtikelPosition.findById(positionId);
-//   if (!position) return;
-//   const auftrag = await Auftrag.findOne({ artikelPosition: position._id });
-//   if (!auftrag) return;
-
-//   const zielKg = await computeZielMengeKg(position as any);
-//   const bereits = await sumBereitsGebuchtKg(
-//     auftrag._id.toString(),
-//     position.artikel.toString(),
-//     position._id.toString()
-//   );
-//   let delta = round3(zielKg - bereits);
-//   if (Math.abs(delta) < 0.001) return; // nichts zu tun
-
-//   const charges: string[] = Array.isArray((position as any).chargennummern)
-//     ? (position as any).chargennummern
-//     : [];
-//   if (!charges.length) {
-//     console.warn(
-//       `[BestandSync] Position ${position._id} hat keine Charge ausgewählt – Buchung übersprungen.`
-//     );
-//     return;
-//   }
-
-//   // Lade Charge-Details, um Lagerbereich (TK/NON_TK) zu bestimmen
-//   const chargeDocs = await ChargeModel.find({ _id: { $in: charges } }).lean();
-//   if (!chargeDocs.length) return;
-
-//   // Stückeln: gleichmäßig über alle angegebenen Chargen verteilen
-//   const perCharge = round3(Math.abs(delta) / chargeDocs.length);
-
-//   const session = await mongoose.startSession();
-//   try {
-//     await session.withTransaction(async () => {
-//       for (const ch of chargeDocs) {
-//         const lagerbereich: Lagerbereich = ch.isTK ? "TK" : "NON_TK";
-//         const mengeSigniert = delta > 0 ? -perCharge : perCharge; // Abgang = negativ; Rückbuchung = positiv
-//         const bewegung = await new BewegungModel({
-//           timestamp: new Date(),
-//           userId: userId ? new mongoose.Types.ObjectId(userId) : undefined,
-//           typ: delta > 0 ? "KOMMISSIONIERUNG" : "INVENTUR_KORREKTUR",
-//           artikelId: position.artikel,
-//           artikelName: position.artikelName,
-//           chargeId: ch._id,
-//           menge: mengeSigniert,
-//           lagerbereich,
-//           auftragId: auftrag._id,
-//           notiz: `[POS:${position._id.toString()}] Auto-Sync aus ArtikelPositionService`,
-//           mhd: ch.mhd,
-//           schlachtDatum: ch.schlachtDatum,
-//           isTK: !!ch.isTK,
-//         }).save({ session });
-
-//         await upsertBestandAgg(
-//           {
-//             artikelId: position.artikel.toString(),
-//             chargeId: ch._id.toString(),
-//             lagerbereich,
-//             deltaVerfuegbar: mengeSigniert,
-//           },
-//           session
-//         );
-//       }
-//     });
-//   } finally {
-//     await session.endSession();
-//   }
-// }
-
 /**
  * Erstellt eine neue Artikelposition.
  */
@@ -415,6 +267,7 @@ export async function createArtikelPosition(data: {
   if (data.auftragId && !auftrag) {
     throw new Error("Auftrag nicht gefunden.");
   }
+  await assertAuftragNichtFinalisiert(data.auftragId);
 
   // --- Aufpreis / Kundenpreis ---
   let aufpreis = 0;
@@ -561,6 +414,7 @@ export async function createArtikelPositionMitPreis(data: {
   if (!auftrag) {
     throw new Error("Auftrag nicht gefunden.");
   }
+  await assertAuftragNichtFinalisiert(auftrag._id);
 
   // --- Leerzeile: Position ohne Artikel, nur als Platzhalter ---
   if (data.leerzeile || !data.artikel) {
@@ -737,6 +591,7 @@ export async function getArtikelPositionById(
     nettogewicht: position.nettogewicht,
     chargennummern: position.chargennummern || [],
     erfassungsModus: position.erfassungsModus ?? "GEWICHT",
+    ...chargenFelder(position),
   };
 }
 
@@ -801,6 +656,9 @@ export async function updateArtikelPositionKommissionierung(
       leergutGewicht: number;
     }[];
     chargennummern?: string[];
+    lagerbereich?: Lagerbereich;
+    chargenEntnahmen?: ChargenEntnahme[]; // Auswahl des Kommissionierers (überschreibt den FEFO-Vorschlag)
+    chargenAbweichungGrund?: string;
   }>,
   userId: string,
   isAdmin: boolean
@@ -829,6 +687,7 @@ export async function updateArtikelPositionKommissionierung(
   if (!position) {
     throw new Error("Artikelposition nicht gefunden");
   }
+  await assertAuftragNichtFinalisiert(position.auftragId);
   const auftrag = position.auftragId
     ? await Auftrag.findById(position.auftragId)
     : null;
@@ -1069,8 +928,47 @@ export async function updateArtikelPositionKommissionierung(
     }
   }
   // In allen anderen Fällen: diese Felder NICHT ändern (ignorieren)
+  const darfBuchen =
+    (kommissioniertStatus === "gestartet" && isKommissionierer) ||
+    (kommissioniertStatus === "fertig" && kontrolliertStatus === "in Kontrolle" && isKontrollierer);
 
-  const updated = await position.save();
+  // --- Bestandsbuchung je Charge (FEFO bzw. Auswahl des Kommissionierers) ---
+  const mengeGeaendert = ["kommissioniertMenge", "kommissioniertEinheit", "bruttogewicht", "leergut", "lagerbereich"].some(
+    (k) => Object.prototype.hasOwnProperty.call(data, k)
+  );
+  const buchen = darfBuchen && !!position.auftragId && (mengeGeaendert || data.chargenEntnahmen !== undefined);
+
+  // Auswahl des Kommissionierers vor dem Speichern prüfen – eine ungültige Auswahl ändert die Position nicht
+  if (buchen && data.chargenEntnahmen !== undefined) {
+    await pruefeChargenAuswahl(id, data.chargenEntnahmen, { lagerbereich: data.lagerbereich });
+  }
+
+  let updated = await position.save();
+  let chargenFehlmengeKg: number | undefined;
+  let chargenBuchungFehler: string | undefined;
+
+  if (buchen) {
+    const opts = {
+      entnahmen: data.chargenEntnahmen,
+      grund: data.chargenAbweichungGrund,
+      lagerbereich: data.lagerbereich,
+      userId,
+    };
+    if (data.chargenEntnahmen !== undefined) {
+      await bucheKommissionierung(id, opts);
+    } else {
+      // FEFO: Kommissionierung bleibt gespeichert, ungedeckte Menge bzw. Fehler gehen an den Client
+      try {
+        await bucheKommissionierung(id, opts);
+        const { fehlmengeKg } = await getFefoVorschlag(id, { lagerbereich: data.lagerbereich });
+        if (fehlmengeKg > 0) chargenFehlmengeKg = fehlmengeKg;
+      } catch (err: any) {
+        logger.error("[FEFO] Kommissionierung konnte nicht gebucht werden:", err);
+        chargenBuchungFehler = err?.message || String(err);
+      }
+    }
+    updated = (await ArtikelPosition.findById(id)) ?? updated;
+  }
 
   // --- Fehlmengen-Prüfung ---
   // Prüfe ob eine Fehlmenge vorliegt (30% Abweichung)
@@ -1109,7 +1007,8 @@ export async function updateArtikelPositionKommissionierung(
         ).catch(err => console.error("[Fehlmengen] Fehler beim Registrieren:", err));
       } else {
         // Keine Fehlmenge mehr → aus der Liste entfernen
-        removeFehlmenge(updated.auftragId.toString(), updated._id.toString());
+        removeFehlmenge(updated.auftragId.toString(), updated._id.toString())
+          .catch(err => console.error("[Fehlmengen] Fehler beim Entfernen:", err));
       }
     }
   }
@@ -1139,6 +1038,9 @@ export async function updateArtikelPositionKommissionierung(
     leergut: updated.leergut || [],
     nettogewicht: updated.nettogewicht,
     chargennummern: updated.chargennummern || [],
+    ...chargenFelder(updated),
+    chargenFehlmengeKg,
+    chargenBuchungFehler,
   };
 }
 
@@ -1165,6 +1067,7 @@ export async function updateArtikelPositionNormale(
   if (!position) {
     throw new Error("Artikelposition nicht gefunden");
   }
+  await assertAuftragNichtFinalisiert(position.auftragId);
   // Stelle sicher, dass artikelName gesetzt ist
   if (!position.artikelName) {
     const curArtikelDoc = await ArtikelModel.findById(position.artikel);
@@ -1405,6 +1308,7 @@ export async function updateLeergut(
   if (!position) {
     throw new Error("Artikelposition nicht gefunden");
   }
+  await assertAuftragNichtFinalisiert(position.auftragId);
 
   const auftrag = position.auftragId
     ? await Auftrag.findById(position.auftragId)
@@ -1500,6 +1404,10 @@ export async function updateLeergut(
 }
 //delete
 export async function deleteArtikelPosition(id: string): Promise<void> {
+  const existing = await ArtikelPosition.findById(id).select({ auftragId: 1, chargenEntnahmen: 1 }).lean();
+  await assertAuftragNichtFinalisiert(existing?.auftragId);
+  // Bereits kommissionierte Ware zurück in den Bestand buchen
+  if (existing?.chargenEntnahmen?.length) await storniereKommissionierung(id);
   const deleted = await ArtikelPosition.findByIdAndDelete(id);
   if (!deleted) {
     throw new Error("Artikelposition nicht gefunden");
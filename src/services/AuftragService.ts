@@ -29,7 +29,11 @@ import { createReservierung, updateReservierung, cancelReservierung, listReservi
 import { BestandAggModel } from "../model/BestandsAggModel";
 import { sendAuftragseingangEmail } from "./EmailService";
 import { generateBelegPdf } from "./BelegService";
+import { assertAuftragNichtFinalisiert } from "./BelegArchivService";
 import { getKundenAufpreiseMap } from "./KundenPreisService";
+import { synchronisiereAuftrag as synchronisiereLeergutKonto } from "./LeergutKontoService";
+import { aktualisiereStopAdresse } from "./KundeAdressService";
+import { logger } from "../logger";
 
 const ZONE = "Europe/Berlin" as const;
 const DEBUG_BESTELLTE = process.env.DEBUG_BESTELLTE_ARTIKEL === "1";
@@ -279,9 +283,20 @@ function convertAuftragToResource(
       : undefined,
     fahrer: auftrag.fahrer,
     fahrzeug: auftrag.fahrzeug,
+    lieferadresseId: auftrag.lieferadresseId?.toString(),
   };
 }
 
+/**
+ * Prüft, ob die Lieferadresse zum Kunden gehört (leere ID = Standard-Lieferadresse).
+ */
+function pruefeLieferadresseId(kunde: any, lieferadresseId?: string | null): mongoose.Types.ObjectId | null {
+  if (!lieferadresseId) return null;
+  const vorhanden = (kunde?.lieferadressen ?? []).some((a: any) => String(a._id) === String(lieferadresseId));
+  if (!vorhanden) throw new Error("Lieferadresse gehört nicht zum Kunden");
+  return new mongoose.Types.ObjectId(lieferadresseId);
+}
+
 /**
  * Erstellt einen neuen Auftrag.
  * Dabei werden die im Input gelieferten Werte übernommen.
@@ -293,11 +308,13 @@ export async function createAuftrag(data: {
   status?: "offen" | "in Bearbeitung" | "abgeschlossen" | "storniert";
   lieferdatum?: string;
   bemerkungen?: string;
+  lieferadresseId?: string | null;
 }): Promise<AuftragResource> {
   const neueNummer = await generiereAuftragsnummer();
   const parsedLieferdatumCreate = parseBerlinYmdToUtcDate(data.lieferdatum);
-  // Kunde-Daten laden (Name + Email)
-  const kdoc = await Kunde.findById(data.kunde, { name: 1, email: 1 }).lean();
+  // Kunde-Daten laden (Name + Email + Lieferadressen)
+  const kdoc = await Kunde.findById(data.kunde, { name: 1, email: 1, lieferadressen: 1 }).lean();
+  const lieferadresseId = pruefeLieferadresseId(kdoc, data.lieferadresseId);
   const newAuftrag = new Auftrag({
     auftragsnummer: neueNummer,
     kunde: data.kunde,
@@ -306,6 +323,7 @@ export async function createAuftrag(data: {
     status: data.status ?? "offen",
     lieferdatum: parsedLieferdatumCreate,
     bemerkungen: data.bemerkungen,
+    lieferadresseId,
   });
 
   const savedAuftrag = await newAuftrag.save();
@@ -881,6 +899,7 @@ export async function updateAuftrag(
     beladeZeit: string;
     fahrer: string;
     fahrzeug: string;
+    lieferadresseId: string | null;
   }>
 ): Promise<AuftragResource> {
   if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -899,9 +918,14 @@ export async function updateAuftrag(
   };
 
   // 1) Altes Dokument holen (für Vergleich von lieferdatum + tourId)
-  const prev = await Auftrag.findById(id).select("lieferdatum tourId");
+  const prev = await Auftrag.findById(id).select("lieferdatum tourId kunde lieferadresseId");
   if (!prev) throw new Error("Auftrag nicht gefunden");
 
+  // Rechnungsrelevante Felder sind nach Finalisierung der Rechnung gesperrt (GoBD)
+  if (data.kunde || data.artikelPosition || data.lieferdatum !== undefined || data.status === "storniert") {
+    await assertAuftragNichtFinalisiert(id);
+  }
+
   const prevLieferdatum: Date | null = prev.lieferdatum
     ? new Date(prev.lieferdatum)
     : null;
@@ -920,6 +944,19 @@ export async function updateAuftrag(
   if (data.artikelPosition) updateData.artikelPosition = data.artikelPosition;
   if (data.status) updateData.status = data.status;
 
+  // Lieferadresse muss zum (ggf. neuen) Kunden gehören; Kundenwechsel setzt sie sonst zurück
+  const kundeGewechselt = !!data.kunde && String(data.kunde) !== String(prev.kunde);
+  if (data.lieferadresseId !== undefined || kundeGewechselt) {
+    const kundeId = data.kunde || prev.kunde;
+    const kdoc = await Kunde.findById(kundeId, { lieferadressen: 1 }).lean();
+    updateData.lieferadresseId = pruefeLieferadresseId(
+      kdoc,
+      data.lieferadresseId !== undefined ? data.lieferadresseId : kundeGewechselt ? null : prev.lieferadresseId?.toString()
+    );
+  }
+  const adresseGeaendert =
+    "lieferadresseId" in updateData && String(updateData.lieferadresseId) !== String(prev.lieferadresseId ?? null);
+
   if (data.lieferdatum !== undefined) {
     const parsed = parseBerlinYmdToUtcDate(data.lieferdatum);
     if (!parsed) throw new Error("Ungültiges Lieferdatum");
@@ -1035,6 +1072,15 @@ export async function updateAuftrag(
     }
   }
 
+  // 5a) Geänderte Lieferadresse (oder neuer Kunde) auf den TourStop übernehmen
+  if (adresseGeaendert || kundeGewechselt) {
+    try {
+      await aktualisiereStopAdresse(updatedAuftrag._id.toString());
+    } catch (err) {
+      console.error("[Lieferadresse] TourStop konnte nicht aktualisiert werden:", err);
+    }
+  }
+
   // 5b) Reservierungen nachziehen, wenn sich Lieferdatum oder Positionen geändert haben
   try {
     const positionsChanged = Array.isArray(data.artikelPosition); // Heuristik: explizit übergeben
@@ -1047,6 +1093,15 @@ export async function updateAuftrag(
   } catch (e) {
   }
 
+  // 5c) Leergutkonto bei Statuswechsel (Lieferung gilt mit "abgeschlossen" als erfolgt)
+  if (data.status !== undefined) {
+    try {
+      await synchronisiereLeergutKonto(updatedAuftrag._id);
+    } catch (e) {
+      logger.error("[Leergut] Leergutkonto konnte nicht aktualisiert werden:", e);
+    }
+  }
+
   // 6) Totals & Rückgabe
   const totals = await computeTotals(updatedAuftrag);
   // Persistiere neue Totale im Auftrag-Dokument und synchronisiere TourStops
@@ -1174,6 +1229,7 @@ export async function deleteAuftrag(id: string): Promise<void> {
     await session.withTransaction(async () => {
       const auftrag = await Auftrag.findById(id).session(session);
       if (!auftrag) throw new Error("Auftrag nicht gefunden");
+      if (auftrag.rechnungFinalisiertAm) throw new Error("Abgerechnete Aufträge können nicht gelöscht werden");
 
       // 1) TourStops entfernen & Touren pflegen
       await removeAllStopsForAuftrag(auftrag._id, session);
@@ -1219,9 +1275,16 @@ export async function deleteMultipleAuftraege(ids: string[]): Promise<void> {
     await session.withTransaction(async () => {
       // Lade alle Aufträge
       const auftraege = await Auftrag.find({ _id: { $in: ids } })
-        .select("_id artikelPosition")
+        .select("_id artikelPosition rechnungFinalisiertAm auftragsnummer")
         .session(session);
 
+      const abgerechnet = auftraege.filter((a) => a.rechnungFinalisiertAm);
+      if (abgerechnet.length > 0) {
+        throw new Error(
+          `Abgerechnete Aufträge können nicht gelöscht werden: ${abgerechnet.map((a) => a.auftragsnummer).join(", ")}`
+        );
+      }
+
       if (auftraege.length === 0) {
         throw new Error("Keine Aufträge mit den angegebenen IDs gefunden");
       }
@@ -1399,6 +1462,12 @@ export async function setAuftragInFertig(
     throw new Error("Auftrag nicht gefunden");
   }
 
+  try {
+    await synchronisiereLeergutKonto(updatedAuftrag._id);
+  } catch (e) {
+    logger.error("[Leergut] Leergutkonto konnte nicht aktualisiert werden:", e);
+  }
+
   const totals = await computeTotals(updatedAuftrag);
   return convertAuftragToResource(updatedAuftrag, totals);
 }
@@ -0,0 +1,661 @@
+/**
+ * BelegArchivService.ts
+ *
+ * GoBD-konforme Finalisierung von Belegen:
+ * - lückenlose Nummernkreise je Belegtyp und Jahr (Counter "beleg-<typ>-<jahr>"),
+ *   Vergabe erst bei Finalisierung und in derselben Transaktion wie das Archiv
+ * - unveränderlicher Snapshot (Positionen, Preise, Kundenanschrift, PDF + SHA-256)
+ * - Sperre finalisierter Aufträge: Änderungen nur noch per Gutschrift oder Storno
+ */
+
+import crypto from "crypto";
+import mongoose, { Types } from "mongoose";
+import { Auftrag } from "../model/AuftragModel";
+import { Kunde } from "../model/KundeModel";
+import { Counter } from "../model/CounterModel";
+import { BelegArchiv } from "../model/BelegArchivModel";
+import {
+  ArtikelPositionResource,
+  BelegArchivResource,
+  BelegResource,
+  FinalBelegTyp,
+  SammelrechnungAbschnitt,
+} from "../Resources";
+import { getArtikelPositionById } from "./ArtikelPositionService";
+import { betragsPosition, generateBelegPdf, generateSammelrechnungPdf } from "./BelegService";
+
+export const FINAL_BELEG_TYPEN: FinalBelegTyp[] = ["rechnung", "gutschrift", "preisdifferenz", "lieferschein", "stornorechnung"];
+
+const NUMMER_PREFIX: Record<FinalBelegTyp, string> = {
+  rechnung: "RE",
+  gutschrift: "GS",
+  preisdifferenz: "PD",
+  lieferschein: "LS",
+  stornorechnung: "SR",
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function sha256(buf: Buffer): string {
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+function formatNummer(typ: FinalBelegTyp, jahr: number, laufnummer: number): string {
+  return `${NUMMER_PREFIX[typ]}-${jahr}-${String(laufnummer).padStart(5, "0")}`;
+}
+
+function isDeutschland(land?: string): boolean {
+  const l = (land || "Deutschland").toLowerCase().trim();
+  return l === "deutschland" || l === "germany" || l === "de";
+}
+
+/** Positionen wie im PDF: ohne Leergut-Positionen, Reihenfolge des Auftrags */
+async function ladePositionen(artikelPosition: any[]): Promise<ArtikelPositionResource[]> {
+  const positionen: ArtikelPositionResource[] = [];
+  for (const id of artikelPosition ?? []) {
+    const pos = await getArtikelPositionById(String(id));
+    if (!pos.leergutVonPositionId) positionen.push(pos);
+  }
+  return positionen;
+}
+
+/** Zeilensumme wie im PDF: gesamtpreis, sonst Einzelpreis × angezeigte Menge */
+export function zeilenBetrag(pos: ArtikelPositionResource): number {
+  if (typeof pos.gesamtpreis === "number") return pos.gesamtpreis;
+  const menge = pos.nettogewicht ?? pos.kommissioniertMenge ?? pos.menge;
+  return typeof pos.einzelpreis === "number" && typeof menge === "number" ? pos.einzelpreis * menge : 0;
+}
+
+/** Kundendaten zum Zeitpunkt der Finalisierung */
+function kundeSnapshotOf(kunde: any): BelegArchivResource["kunde"] {
+  return {
+    id: kunde._id.toString(),
+    name: kunde.name ?? undefined,
+    kundenNummer: kunde.kundenNummer ?? undefined,
+    adresse: kunde.adresse ?? undefined,
+    land: kunde.land ?? undefined,
+    ustId: kunde.ustId ?? undefined,
+    email: kunde.email ?? undefined,
+  };
+}
+
+/** Bruttobetrag anteilig nach Netto auf die Abschnitte verteilen; Summe ergibt exakt betragBrutto */
+function bruttoAnteile(abschnitte: SammelrechnungAbschnitt[], betragBrutto: number): number[] {
+  const netto = abschnitte.reduce((s, a) => s + a.summeNetto, 0);
+  let rest = betragBrutto;
+  return abschnitte.map((a, i) => {
+    if (i === abschnitte.length - 1) return round2(rest);
+    const anteil = netto ? round2((betragBrutto * a.summeNetto) / netto) : 0;
+    rest -= anteil;
+    return anteil;
+  });
+}
+
+export function abschnittTitel(a: SammelrechnungAbschnitt): string {
+  const datum = a.lieferdatum ? new Date(a.lieferdatum).toLocaleDateString("de-DE") : "—";
+  return `Lieferschein ${a.lieferscheinNummer || a.auftragsnummer || ""} vom ${datum}`;
+}
+
+function toResource(doc: any): BelegArchivResource {
+  return {
+    id: doc._id.toString(),
+    auftragId: doc.auftrag.toString(),
+    auftragIds: (doc.auftraege?.length ? doc.auftraege : [doc.auftrag]).map((a: any) => a.toString()),
+    auftragsnummer: doc.auftragsnummer ?? undefined,
+    typ: doc.typ,
+    nummer: doc.nummer,
+    jahr: doc.jahr,
+    laufnummer: doc.laufnummer,
+    datum: new Date(doc.datum).toISOString(),
+    referenzBelegNummer: doc.referenzBelegNummer ?? undefined,
+    stornoGrund: doc.stornoGrund ?? undefined,
+    zeitraumVon: doc.zeitraumVon ? new Date(doc.zeitraumVon).toISOString() : undefined,
+    zeitraumBis: doc.zeitraumBis ? new Date(doc.zeitraumBis).toISOString() : undefined,
+    abschnitte: doc.abschnitte ?? undefined,
+    kunde: doc.kunde,
+    positionen: doc.positionen ?? [],
+    betragNetto: doc.betragNetto,
+    mwstSatz: doc.mwstSatz,
+    mwstBetrag: doc.mwstBetrag,
+    betragBrutto: doc.betragBrutto,
+    pdfHash: doc.pdfHash,
+    finalisiertVon: doc.finalisiertVon ?? undefined,
+    finalisiertAm: new Date(doc.finalisiertAm).toISOString(),
+  };
+}
+
+/* ------------------------------- Öffentliche API ------------------------------- */
+
+/**
+ * Wirft, wenn die Rechnung des Auftrags bereits finalisiert ist.
+ * Wird vor jeder Änderung an Auftrag oder Artikelpositionen aufgerufen.
+ */
+export async function assertAuftragNichtFinalisiert(auftragId?: string | Types.ObjectId | null): Promise<void> {
+  if (!auftragId) return;
+  const auftrag = await Auftrag.findById(auftragId).select({ rechnungsNummer: 1, rechnungFinalisiertAm: 1 }).lean();
+  if (auftrag?.rechnungFinalisiertAm) {
+    throw new Error(
+      `Auftrag ist abgerechnet (Rechnung ${auftrag.rechnungsNummer}) – Änderungen nur per Gutschrift oder Storno`
+    );
+  }
+}
+
+/**
+ * Finalisiert einen Beleg: vergibt die nächste Nummer des Nummernkreises, erzeugt das PDF
+ * aus einem eingefrorenen Snapshot und legt beides unveränderlich im Archiv ab.
+ * Schlägt ein Schritt fehl, wird die Transaktion (inkl. Zähler) zurückgerollt → keine Lücken.
+ *
+ * - rechnung/lieferschein: Positionen aus dem Auftrag; je Auftrag nur einmal
+ * - gutschrift/preisdifferenz: inputData.betrag (netto) erforderlich, Bezug auf die finalisierte Rechnung;
+ *   optional gutgeschriebene Positionen (z.B. Rücklieferung), ohne Betrag wird deren Summe verwendet
+ * - options.session: Finalisierung innerhalb der Transaktion des Aufrufers
+ */
+export async function finalisiereBeleg(
+  auftragId: string,
+  typ: FinalBelegTyp,
+  inputData: Partial<BelegResource> = {},
+  userId?: string,
+  options?: { positionen?: ArtikelPositionResource[]; session?: mongoose.ClientSession }
+): Promise<BelegArchivResource> {
+  if (!FINAL_BELEG_TYPEN.includes(typ)) {
+    throw new Error(`Belegtyp "${typ}" kann nicht finalisiert werden`);
+  }
+  if (typ === "stornorechnung") {
+    throw new Error("Stornorechnungen werden über das Storno der Rechnung erzeugt");
+  }
+  if (!mongoose.Types.ObjectId.isValid(auftragId)) {
+    throw new Error("Ungültige Auftrag-ID");
+  }
+
+  const auftrag = await Auftrag.findById(auftragId);
+  if (!auftrag) throw new Error("Auftrag nicht gefunden");
+  if (auftrag.status === "storniert") throw new Error("Auftrag ist storniert");
+
+  const kunde = await Kunde.findById(auftrag.kunde);
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+
+  if (typ === "rechnung" && auftrag.rechnungFinalisiertAm) {
+    throw new Error(`Rechnung wurde bereits finalisiert (${auftrag.rechnungsNummer})`);
+  }
+  if (typ === "lieferschein" && auftrag.lieferscheinNummer) {
+    throw new Error(`Lieferschein wurde bereits finalisiert (${auftrag.lieferscheinNummer})`);
+  }
+
+  let referenzBelegNummer: string | undefined;
+  let positionen: ArtikelPositionResource[] = [];
+  let betragNetto: number;
+
+  if (typ === "gutschrift" || typ === "preisdifferenz") {
+    positionen = options?.positionen ?? [];
+    const betrag = Number(inputData.betrag ?? (positionen.length ? positionen.reduce((s, p) => s + zeilenBetrag(p), 0) : NaN));
+    if (!Number.isFinite(betrag) || betrag === 0) {
+      throw new Error("Betrag ist für Gutschrift/Preisdifferenz erforderlich");
+    }
+    if (!auftrag.rechnungFinalisiertAm || !auftrag.rechnungsNummer) {
+      throw new Error("Gutschrift/Preisdifferenz erfordert eine finalisierte Rechnung");
+    }
+    referenzBelegNummer = inputData.referenzBelegNummer || auftrag.rechnungsNummer;
+    if (!(await BelegArchiv.exists({ typ: "rechnung", nummer: referenzBelegNummer, auftraege: auftrag._id }))) {
+      throw new Error(`Rechnung ${referenzBelegNummer} ist keine finalisierte Rechnung dieses Auftrags`);
+    }
+    if (await BelegArchiv.exists({ typ: "stornorechnung", referenzBelegNummer })) {
+      throw new Error(`Rechnung ${referenzBelegNummer} ist storniert`);
+    }
+    betragNetto = round2(betrag);
+    // Ohne Positionen: eine Zeile über den Betrag, damit das Archiv-PDF Betrag und Summen zeigt
+    if (!positionen.length) positionen = [betragsPosition(typ, betragNetto, referenzBelegNummer)];
+  } else {
+    positionen = await ladePositionen(auftrag.artikelPosition);
+    betragNetto = round2(positionen.reduce((s, p) => s + zeilenBetrag(p), 0));
+  }
+
+  const mwstSatz = isDeutschland(kunde.land) ? (auftrag.mwstSatz ?? 7) : 0;
+  const mwstBetrag = round2(betragNetto * (mwstSatz / 100));
+  const betragBrutto = round2(betragNetto + mwstBetrag);
+
+  const belegDatum = inputData.datum
+    ? new Date(inputData.datum)
+    : (typ === "rechnung" || typ === "lieferschein") && auftrag.lieferdatum
+      ? new Date(auftrag.lieferdatum)
+      : new Date();
+  if (isNaN(belegDatum.getTime())) throw new Error("Ungültiges Belegdatum");
+  const jahr = belegDatum.getFullYear();
+
+  const kundeSnapshot = kundeSnapshotOf(kunde);
+
+  const inTransaktion = <T>(fn: (session: mongoose.ClientSession) => Promise<T>) =>
+    options?.session ? fn(options.session) : withTransaction(fn);
+
+  return inTransaktion(async (session) => {
+    const counter = await Counter.findOneAndUpdate(
+      { name: `beleg-${typ}-${jahr}` },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session }
+    );
+    const laufnummer = counter!.seq;
+    const nummer = formatNummer(typ, jahr, laufnummer);
+    const finalisiertAm = new Date();
+
+    const pdf = await generateBelegPdf(
+      auftragId,
+      typ,
+      { ...inputData, nummer, datum: belegDatum.toISOString(), referenzBelegNummer },
+      { nummer, positionen }
+    );
+    const pdfHash = sha256(pdf);
+
+    const [archiv] = await BelegArchiv.create(
+      [
+        {
+          auftrag: auftrag._id,
+          auftraege: [auftrag._id],
+          auftragsnummer: auftrag.auftragsnummer,
+          typ,
+          nummer,
+          jahr,
+          laufnummer,
+          datum: belegDatum,
+          referenzBelegNummer,
+          kunde: kundeSnapshot,
+          positionen,
+          betragNetto,
+          mwstSatz,
+          mwstBetrag,
+          betragBrutto,
+          pdf,
+          pdfHash,
+          finalisiertVon: userId,
+          finalisiertAm,
+        },
+      ],
+      { session }
+    );
+
+    const belegEntry: BelegResource = {
+      id: archiv._id.toString(),
+      typ,
+      nummer,
+      datum: belegDatum.toISOString(),
+      betrag: betragBrutto,
+      status: "final",
+      pdfGeneriert: true,
+      referenzBelegNummer,
+      pdfHash,
+    };
+
+    const filter: Record<string, any> = { _id: auftrag._id };
+    const update: Record<string, any> = { $push: { belegListe: belegEntry } };
+    if (typ === "rechnung") {
+      // Bedingung verhindert doppelte Finalisierung bei parallelen Aufrufen
+      filter.rechnungFinalisiertAm = { $exists: false };
+      update.$set = {
+        rechnungsNummer: nummer,
+        rechnungFinalisiertAm: finalisiertAm,
+        zahlstatus: "offen",
+        offenBetrag: betragBrutto,
+      };
+    } else if (typ === "lieferschein") {
+      filter.lieferscheinNummer = { $in: [null, ""] };
+      update.$set = { lieferscheinNummer: nummer };
+    } else {
+      update.$push[typ === "gutschrift" ? "gutschriftNummern" : "preisdifferenzNummern"] = nummer;
+    }
+    const res = await Auftrag.updateOne(filter, update, { session });
+    if (res.matchedCount === 0) throw new Error("Beleg wurde bereits finalisiert");
+
+    return toResource(archiv);
+  });
+}
+
+/**
+ * Finalisiert eine Sammelrechnung über mehrere gelieferte Aufträge eines Kunden.
+ * Nummer aus dem Rechnungs-Nummernkreis; jede Lieferung wird als eigener Abschnitt dargestellt.
+ * Alle enthaltenen Aufträge erhalten dieselbe rechnungsNummer und werden gesperrt.
+ */
+export async function finalisiereSammelrechnung(
+  kundeId: string,
+  auftragIds: string[],
+  params: { zeitraumVon: Date; zeitraumBis: Date; datum?: Date },
+  userId?: string
+): Promise<BelegArchivResource> {
+  if (!mongoose.Types.ObjectId.isValid(kundeId)) throw new Error("Ungültige Kunden-ID");
+  if (!auftragIds.length) throw new Error("Keine Aufträge für die Sammelrechnung");
+
+  const kunde = await Kunde.findById(kundeId);
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+
+  const auftraege = await Auftrag.find({ _id: { $in: auftragIds } }).sort({ lieferdatum: 1, auftragsnummer: 1 });
+  if (auftraege.length !== auftragIds.length) throw new Error("Auftrag nicht gefunden");
+  for (const a of auftraege) {
+    if (a.kunde.toString() !== kunde._id.toString()) {
+      throw new Error(`Auftrag ${a.auftragsnummer} gehört nicht zum Kunden`);
+    }
+    if (a.rechnungFinalisiertAm) {
+      throw new Error(`Auftrag ${a.auftragsnummer} ist bereits abgerechnet (${a.rechnungsNummer})`);
+    }
+    if (a.status === "storniert") throw new Error(`Auftrag ${a.auftragsnummer} ist storniert`);
+  }
+
+  const positionen: ArtikelPositionResource[] = [];
+  const abschnitte: SammelrechnungAbschnitt[] = [];
+  const pdfAbschnitte: { titel: string; positionen: ArtikelPositionResource[] }[] = [];
+  for (const a of auftraege) {
+    const teil = await ladePositionen(a.artikelPosition);
+    const abschnitt: SammelrechnungAbschnitt = {
+      auftragId: a._id.toString(),
+      auftragsnummer: a.auftragsnummer,
+      lieferscheinNummer: a.lieferscheinNummer,
+      lieferdatum: a.lieferdatum ? new Date(a.lieferdatum).toISOString() : undefined,
+      anzahlPositionen: teil.length,
+      summeNetto: round2(teil.reduce((s, p) => s + zeilenBetrag(p), 0)),
+    };
+    abschnitte.push(abschnitt);
+    positionen.push(...teil);
+    if (teil.length) pdfAbschnitte.push({ titel: abschnittTitel(abschnitt), positionen: teil });
+  }
+
+  const betragNetto = round2(abschnitte.reduce((s, a) => s + a.summeNetto, 0));
+  // Eine Rechnung weist genau einen Steuersatz aus → keine gemischten Sätze in einer Sammelrechnung
+  const saetze = new Set(auftraege.map((a) => a.mwstSatz ?? 7));
+  if (isDeutschland(kunde.land) && saetze.size > 1) {
+    throw new Error(
+      `Aufträge mit unterschiedlichen MwSt-Sätzen (${Array.from(saetze).join(" %, ")} %) können nicht gemeinsam abgerechnet werden`
+    );
+  }
+  const mwstSatz = isDeutschland(kunde.land) ? (auftraege[0].mwstSatz ?? 7) : 0;
+  const mwstBetrag = round2(betragNetto * (mwstSatz / 100));
+  const betragBrutto = round2(betragNetto + mwstBetrag);
+
+  const belegDatum = params.datum ?? new Date();
+  const jahr = belegDatum.getFullYear();
+  const ids = auftraege.map((a) => a._id);
+
+  const kundeSnapshot = kundeSnapshotOf(kunde);
+
+  return withTransaction(async (session) => {
+    const counter = await Counter.findOneAndUpdate(
+      { name: `beleg-rechnung-${jahr}` },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session }
+    );
+    const laufnummer = counter!.seq;
+    const nummer = formatNummer("rechnung", jahr, laufnummer);
+    const finalisiertAm = new Date();
+
+    const pdf = await generateSammelrechnungPdf(kundeId, {
+      nummer,
+      datum: belegDatum,
+      zeitraumVon: params.zeitraumVon,
+      zeitraumBis: params.zeitraumBis,
+      mwstSatz,
+      abschnitte: pdfAbschnitte,
+    });
+    const pdfHash = sha256(pdf);
+
+    const [archiv] = await BelegArchiv.create(
+      [
+        {
+          auftrag: ids[0],
+          auftraege: ids,
+          auftragsnummer: auftraege[0].auftragsnummer,
+          typ: "rechnung",
+          nummer,
+          jahr,
+          laufnummer,
+          datum: belegDatum,
+          zeitraumVon: params.zeitraumVon,
+          zeitraumBis: params.zeitraumBis,
+          abschnitte,
+          kunde: kundeSnapshot,
+          positionen,
+          betragNetto,
+          mwstSatz,
+          mwstBetrag,
+          betragBrutto,
+          pdf,
+          pdfHash,
+          finalisiertVon: userId,
+          finalisiertAm,
+        },
+      ],
+      { session }
+    );
+
+    const belegEntry: BelegResource = {
+      id: archiv._id.toString(),
+      typ: "rechnung",
+      nummer,
+      datum: belegDatum.toISOString(),
+      betrag: betragBrutto,
+      status: "final",
+      pdfGeneriert: true,
+      pdfHash,
+    };
+    const res = await Auftrag.updateMany(
+      { _id: { $in: ids }, rechnungFinalisiertAm: { $exists: false } },
+      { $set: { rechnungsNummer: nummer, rechnungFinalisiertAm: finalisiertAm }, $push: { belegListe: belegEntry } },
+      { session }
+    );
+    if (res.matchedCount !== ids.length) throw new Error("Mindestens ein Auftrag wurde bereits abgerechnet");
+
+    // Offener Betrag je Auftrag: Bruttoanteil der Lieferung (Rundungsrest auf die letzte)
+    const anteile = bruttoAnteile(abschnitte, betragBrutto);
+    await Auftrag.bulkWrite(
+      abschnitte.map((a, i) => ({
+        updateOne: {
+          filter: { _id: new Types.ObjectId(a.auftragId) },
+          update: { $set: { zahlstatus: "offen", offenBetrag: anteile[i] } },
+        },
+      })),
+      { session }
+    );
+
+    return toResource(archiv);
+  });
+}
+
+/**
+ * Storniert eine finalisierte Rechnung durch eine Stornorechnung (GoBD: kein Löschen/Ändern).
+ * Die Stornorechnung spiegelt Positionen und Beträge der Originalrechnung mit umgekehrtem Vorzeichen,
+ * verweist per referenzBelegNummer auf sie und setzt Zahlstatus/offenen Betrag des Auftrags zurück.
+ *
+ * - wiedereroeffnen = true:  Sperre wird aufgehoben, Auftrag kann korrigiert und neu abgerechnet werden
+ * - wiedereroeffnen = false: Auftrag wird storniert und bleibt gesperrt
+ * Bei einer Sammelrechnung gilt das für alle enthaltenen Aufträge.
+ */
+export async function storniereRechnung(
+  auftragId: string,
+  params: { referenzBelegNummer?: string; grund?: string; wiedereroeffnen?: boolean } = {},
+  userId?: string
+): Promise<BelegArchivResource> {
+  if (!mongoose.Types.ObjectId.isValid(auftragId)) {
+    throw new Error("Ungültige Auftrag-ID");
+  }
+  const auftrag = await Auftrag.findById(auftragId);
+  if (!auftrag) throw new Error("Auftrag nicht gefunden");
+
+  const referenzBelegNummer = params.referenzBelegNummer || auftrag.rechnungsNummer;
+  if (!referenzBelegNummer) throw new Error("Keine finalisierte Rechnung zum Stornieren vorhanden");
+
+  const original = await BelegArchiv.findOne({ auftraege: auftrag._id, typ: "rechnung", nummer: referenzBelegNummer }).lean();
+  if (!original) throw new Error(`Rechnung ${referenzBelegNummer} nicht gefunden`);
+
+  const vorhanden = await BelegArchiv.findOne({ typ: "stornorechnung", referenzBelegNummer }).select({ nummer: 1 }).lean();
+  if (vorhanden) throw new Error(`Rechnung ${referenzBelegNummer} wurde bereits storniert (${vorhanden.nummer})`);
+
+  const neg = (n?: number) => (typeof n === "number" ? -n : n);
+  const positionen: ArtikelPositionResource[] = original.positionen.map((p) => ({
+    ...p,
+    menge: neg(p.menge)!,
+    kommissioniertMenge: neg(p.kommissioniertMenge),
+    nettogewicht: neg(p.nettogewicht),
+    gesamtgewicht: neg(p.gesamtgewicht)!,
+    gesamtpreis: -zeilenBetrag(p),
+  }));
+
+  const auftragIds = original.auftraege?.length ? original.auftraege : [original.auftrag];
+  const belegDatum = new Date();
+  const jahr = belegDatum.getFullYear();
+  const betragNetto = -original.betragNetto;
+  const mwstBetrag = -original.mwstBetrag;
+  const betragBrutto = -original.betragBrutto;
+
+  return withTransaction(async (session) => {
+    const counter = await Counter.findOneAndUpdate(
+      { name: `beleg-stornorechnung-${jahr}` },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session }
+    );
+    const laufnummer = counter!.seq;
+    const nummer = formatNummer("stornorechnung", jahr, laufnummer);
+    const finalisiertAm = new Date();
+
+    // Sammelrechnung: Storno im selben Layout (Abschnitte je Lieferung)
+    const abschnitte = original.abschnitte;
+    let pdf: Buffer;
+    if (abschnitte?.length) {
+      let offset = 0;
+      pdf = await generateSammelrechnungPdf(original.kunde.id, {
+        nummer,
+        datum: belegDatum,
+        zeitraumVon: original.zeitraumVon ?? original.datum,
+        zeitraumBis: original.zeitraumBis ?? original.datum,
+        mwstSatz: original.mwstSatz,
+        titel: "Stornorechnung",
+        hinweis: `Storno zu Rechnung ${referenzBelegNummer}`,
+        abschnitte: abschnitte.map((a) => {
+          const teil = positionen.slice(offset, offset + a.anzahlPositionen);
+          offset += a.anzahlPositionen;
+          return { titel: abschnittTitel(a), positionen: teil };
+        }),
+      });
+    } else {
+      pdf = await generateBelegPdf(
+        auftragId,
+        "stornorechnung",
+        { nummer, datum: belegDatum.toISOString(), referenzBelegNummer },
+        { nummer, positionen }
+      );
+    }
+    const pdfHash = sha256(pdf);
+
+    const [archiv] = await BelegArchiv.create(
+      [
+        {
+          auftrag: original.auftrag,
+          auftraege: auftragIds,
+          auftragsnummer: original.auftragsnummer,
+          typ: "stornorechnung",
+          nummer,
+          jahr,
+          laufnummer,
+          datum: belegDatum,
+          referenzBelegNummer,
+          stornoGrund: params.grund,
+          zeitraumVon: original.zeitraumVon,
+          zeitraumBis: original.zeitraumBis,
+          abschnitte: abschnitte?.map((a) => ({ ...a, summeNetto: -a.summeNetto })),
+          kunde: original.kunde,
+          positionen,
+          betragNetto,
+          mwstSatz: original.mwstSatz,
+          mwstBetrag,
+          betragBrutto,
+          pdf,
+          pdfHash,
+          finalisiertVon: userId,
+          finalisiertAm,
+        },
+      ],
+      { session }
+    );
+
+    const belegEntry: BelegResource = {
+      id: archiv._id.toString(),
+      typ: "stornorechnung",
+      nummer,
+      datum: belegDatum.toISOString(),
+      betrag: betragBrutto,
+      status: "final",
+      pdfGeneriert: true,
+      referenzBelegNummer,
+      pdfHash,
+    };
+
+    const update: Record<string, any> = {
+      $push: { belegListe: belegEntry },
+      $set: { offenBetrag: 0 },
+      $unset: { zahlstatus: "", zahlungsDatum: "" },
+    };
+    if (params.wiedereroeffnen) {
+      // Sperre aufheben → korrigierte Rechnung kann neu finalisiert werden
+      update.$unset.rechnungsNummer = "";
+      update.$unset.rechnungFinalisiertAm = "";
+    } else {
+      update.$set.status = "storniert";
+    }
+    const res = await Auftrag.updateMany(
+      { _id: { $in: auftragIds }, rechnungsNummer: referenzBelegNummer },
+      update,
+      { session }
+    );
+    if (res.matchedCount !== auftragIds.length) {
+      throw new Error(`Rechnung ${referenzBelegNummer} ist nicht die aktuelle Rechnung aller enthaltenen Aufträge`);
+    }
+
+    return toResource(archiv);
+  });
+}
+
+export async function listBelegArchiv(params: {
+  auftragId?: string;
+  typ?: FinalBelegTyp;
+  jahr?: number;
+} = {}): Promise<BelegArchivResource[]> {
+  const q: Record<string, any> = {};
+  if (params.auftragId) {
+    if (!mongoose.Types.ObjectId.isValid(params.auftragId)) throw new Error("Ungültige Auftrag-ID");
+    q.auftraege = new Types.ObjectId(params.auftragId);
+  }
+  if (params.typ) q.typ = params.typ;
+  if (params.jahr) q.jahr = params.jahr;
+  const docs = await BelegArchiv.find(q).select({ pdf: 0 }).sort({ typ: 1, jahr: -1, laufnummer: -1 }).lean();
+  return docs.map(toResource);
+}
+
+export async function getBelegArchivById(id: string): Promise<BelegArchivResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const doc = await BelegArchiv.findById(id).select({ pdf: 0 }).lean();
+  if (!doc) throw new Error("Beleg nicht gefunden");
+  return toResource(doc);
+}
+
+/**
+ * Liefert das archivierte Original-PDF. Der gespeicherte Hash wird vor der Auslieferung geprüft.
+ */
+export async function getBelegArchivPdf(id: string): Promise<{ pdf: Buffer; nummer: string; typ: FinalBelegTyp }> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const doc = await BelegArchiv.findById(id);
+  if (!doc) throw new Error("Beleg nicht gefunden");
+  if (sha256(doc.pdf) !== doc.pdfHash) {
+    throw new Error(`Integritätsprüfung fehlgeschlagen für Beleg ${doc.nummer}`);
+  }
+  return { pdf: doc.pdf, nummer: doc.nummer, typ: doc.typ };
+}
@@ -2,11 +2,13 @@ import PDFDocument = require("pdfkit");
 import { Types } from "mongoose";
 import { Kunde } from "../model/KundeModel";
 import { Auftrag } from "../model/AuftragModel";
-import { ArtikelPositionResource, BelegResource, BelegTyp, EmailLogResource } from "../Resources";
+import { ArtikelPositionResource, BelegResource, BelegTyp, EmailLogResource, InventurResource, LadelisteResource, LeergutKontoauszugResource, LieferantenReklamationResource } from "../Resources";
 import { ArtikelPosition } from "../model/ArtikelPositionModel";
 import fs from "fs";
 import path from "path";
 import { getArtikelPositionById } from "./ArtikelPositionService";
+import { kundenAdresseText } from "./KundeAdressService";
+import { BelegArchiv } from "../model/BelegArchivModel";
 
 const DEBUG_BELEG = process.env.DEBUG_BELEG === '1';
 function dlog(...args: any[]) {
@@ -111,7 +113,7 @@ function drawHeader(doc: PDFKitDocument, opts: { title: string; logoPath?: strin
 }
 
 // Helper to draw the customer's name and address below the header
-function drawRechnungskopf(doc: PDFKitDocument, kunde: any, auftrag?: any) {
+function drawRechnungskopf(doc: PDFKitDocument, kunde: any, auftrag?: any, belegNummer?: string) {
   // 1 cm ≈ 28.3465pt → 6cm ≈ 170pt, 3cm ≈ 85pt
   const startY = 170; // 6 cm from top
   const startX = 85;  // 3 cm from left
@@ -120,36 +122,16 @@ function drawRechnungskopf(doc: PDFKitDocument, kunde: any, auftrag?: any) {
   doc.font("Helvetica-Bold").fontSize(9).text("Firma", startX, startY - 14);
 
   // Rechnungsnummer (ohne Label) wird jetzt nur noch im rechten Block angezeigt
-  const rechnungsnummer = auftrag?.rechnungsNummer || auftrag?.auftragsnummer || "—";
+  const rechnungsnummer = belegNummer || auftrag?.rechnungsNummer || auftrag?.auftragsnummer || "—";
   // Linker Block startet direkt bei startY
   const leftBlockTop = startY;
 
   // Customer info block (left)
   const kundeName = kunde?.name || "Kunde";
-  // Normalisiere Adresse: akzeptiert String ODER Objekt
-  let kundeAdresseStr = "";
-  const adr = (kunde as any)?.adresse;
-  if (typeof adr === "string") {
-    kundeAdresseStr = adr;
-  } else if (adr && typeof adr === "object") {
-    const parts: string[] = [];
-    const strasse = [adr.strasse || adr.street, adr.hausnummer || adr.nr].filter(Boolean).join(" ");
-    const plzOrt = [adr.plz || adr.postleitzahl, adr.ort || adr.stadt || adr.city].filter(Boolean).join(" ");
-    if (strasse) parts.push(strasse);
-    if (plzOrt) parts.push(plzOrt);
-    if (!strasse && !plzOrt) {
-      // fallback: join alle String-Felder
-      Object.keys(adr).forEach(k => {
-        const v = adr[k];
-        if (typeof v === "string" && v.trim()) parts.push(v.trim());
-      });
-    }
-    kundeAdresseStr = parts.join(", ");
-  }
+  // Strukturierte Adressfelder bevorzugen, sonst Freitext unverändert übernehmen
+  const adr = kunde?.strasse || kunde?.plz ? kundenAdresseText(kunde) : kunde?.adresse;
   // Nach jedem Komma Zeilenumbruch
-  if (kundeAdresseStr) {
-    kundeAdresseStr = kundeAdresseStr.replace(/,\s*/g, "\n");
-  }
+  const kundeAdresseStr = typeof adr === "string" ? adr.replace(/,\s*/g, "\n") : "";
 
   doc.font("Helvetica-Bold").fontSize(11).text(kundeName, startX, leftBlockTop);
   doc.font("Helvetica").fontSize(10).text(kundeAdresseStr, startX, leftBlockTop + 14);
@@ -214,8 +196,20 @@ async function resolveArtikelPositionen(auftrag: any): Promise<ArtikelPositionRe
 }
 
 // Renders the Artikelpositionen-Tabelle (positions table) for Rechnung/Lieferschein
-function drawPositionsTable(doc: PDFKitDocument, positionen: ArtikelPositionResource[], mwstSatz?: number, kunde?: any, auftrag?: any, options?: { hideSignatures?: boolean; hideTotals?: boolean }) {
-  const { hideSignatures = false, hideTotals = false } = options || {};
+function drawPositionsTable(
+  doc: PDFKitDocument,
+  positionen: ArtikelPositionResource[],
+  mwstSatz?: number,
+  kunde?: any,
+  auftrag?: any,
+  options?: {
+    hideSignatures?: boolean;
+    hideTotals?: boolean;
+    belegNummer?: string;                    // für den Rechnungskopf auf Folgeseiten
+    abschnittTitel?: Record<number, string>; // Zwischenüberschrift vor Zeile i (Sammelrechnung)
+  }
+) {
+  const { hideSignatures = false, hideTotals = false, belegNummer, abschnittTitel } = options || {};
   // === Page region (cm → pt) ===
   const CM = 28.3464567; // 1 cm ≈ 28.3465 pt
   const areaTop = 8.5 * CM;     // 8.5 cm from top
@@ -336,7 +330,7 @@ function drawPositionsTable(doc: PDFKitDocument, positionen: ArtikelPositionReso
     doc.addPage();
     // Redraw the Rechnungskopf on the new page
     if (kunde || auftrag) {
-      try { drawRechnungskopf(doc, kunde, auftrag); } catch {}
+      try { drawRechnungskopf(doc, kunde, auftrag, belegNummer); } catch {}
     }
     // Reset page metrics (same size assumed)
     y = regionTop;
@@ -345,7 +339,17 @@ function drawPositionsTable(doc: PDFKitDocument, positionen: ArtikelPositionReso
 
   const rows = Array.isArray(positionen) ? positionen : [];
   let sumNetto = 0;
-  rows.forEach((pos: ArtikelPositionResource) => {
+  rows.forEach((pos: ArtikelPositionResource, rowIndex: number) => {
+    // Zwischenüberschrift (z.B. Lieferschein-Abschnitt einer Sammelrechnung)
+    const titel = abschnittTitel?.[rowIndex];
+    if (titel) {
+      ensureRoom(lineH * 2);
+      y += rowIndex > 0 ? lineH / 2 : 0;
+      doc.font("Helvetica-Bold").fontSize(10).text(titel, x[0], y, { width: regionWidth, lineBreak: false });
+      doc.font("Helvetica").fontSize(10);
+      y += lineH;
+    }
+
     // Felder aus ArtikelPositionResource
     const artnr = pos.artikelNummer || ""; // Artikel-ID als String
     const bez = pos.artikelName || "Artikel";
@@ -576,6 +580,15 @@ function drawTotals(doc: PDFKitDocument, yStart: number, totals: { netto?: numbe
   return y;
 }
 
+const FIRMEN_FOOTER = {
+  left:
+    'Beusselstraße 44\n10553 Berlin\nTelefon: +49 30 398019330\ninfo@haclar-et.de',
+  center:
+    'Berliner Volksbank\nKto-Nr. 2951 7360 00  BLZ 100 900 00\nIBAN DE88 1009 2951 7360 00\nSWIFT BEVODEBBXXX',
+  right:
+    'Geschäftsführer:\nA. Kadioglu, R. Kazancioglu\nAmtsgericht Berlin-Charlottenburg HRB 30292\nSt-Nr.: 30/038/75076 USt-ID-NR. DE 136685882',
+};
+
 function drawFooter(
   doc: PDFKitDocument,
   text?: string,
@@ -669,14 +682,83 @@ async function renderRechnung(doc: PDFKitDocument, auftrag: any, kunde: any, opt
   const lastY = drawTable(doc, ["Pos", "Art.-Nr.", "Bezeichnung", "Menge", "Einzelpreis", "Summe"], rows);
   const totalsY = drawTotals(doc, lastY, { netto: sumNetto, mwstSatz: opts?.mwstSatz ?? 19 });
 
-  drawFooter(doc, undefined, {
-    left:
-      'Beusselstraße 44\n10553 Berlin\nTelefon: +49 30 398019330\ninfo@haclar-et.de',
-    center:
-      'Berliner Volksbank\nKto-Nr. 2951 7360 00  BLZ 100 900 00\nIBAN DE88 1009 2951 7360 00\nSWIFT BEVODEBBXXX',
-    right:
-      'Geschäftsführer:\nA. Kadioglu, R. Kazancioglu\nAmtsgericht Berlin-Charlottenburg HRB 30292\nSt-Nr.: 30/038/75076 USt-ID-NR. DE 136685882',
+  drawFooter(doc, undefined, FIRMEN_FOOTER);
+}
+
+// ===== ZUGFeRD / Factur-X (PDF/A-3b) =====
+
+/**
+ * PDF/A verlangt eingebettete Schriften. Sind BELEG_FONT_REGULAR / BELEG_FONT_BOLD (TTF-Pfade) gesetzt,
+ * werden sie unter den Namen der Standardschriften registriert, sodass die Zeichenfunktionen unverändert bleiben.
+ */
+function registerPdfaFonts(doc: PDFKitDocument) {
+  const regular = process.env.BELEG_FONT_REGULAR;
+  const bold = process.env.BELEG_FONT_BOLD || regular;
+  if (regular && fs.existsSync(regular)) {
+    doc.registerFont("Helvetica", regular);
+    doc.font("Helvetica");
+  }
+  if (bold && fs.existsSync(bold)) doc.registerFont("Helvetica-Bold", bold);
+}
+
+/** Neues A4-Belegdokument; mit facturX als PDF/A-3b (ZUGFeRD/Factur-X) inkl. eingebetteter Schriften */
+function neuesBelegDokument(titel: string, facturX?: { xml: string }): PDFKitDocument {
+  if (!facturX) return new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const doc = new PDFDocument({
+    margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true,
+    subset: 'PDF/A-3b', pdfVersion: '1.7', lang: 'de-DE',
+    info: { Title: titel },
+  } as any);
+  registerPdfaFonts(doc);
+  return doc;
+}
+
+/** Bettet die CII-XML als factur-x.xml ein (AFRelationship "Alternative") und ergänzt die XMP-Metadaten. */
+function embedFacturX(doc: PDFKitDocument, xml: string) {
+  const now = new Date();
+  (doc as any).file(Buffer.from(xml, "utf-8"), {
+    name: "factur-x.xml",
+    type: "text/xml",
+    description: "Factur-X/ZUGFeRD Rechnung",
+    relationship: "Alternative",
+    creationDate: now,
+    modifiedDate: now,
   });
+
+  const prop = (name: string, beschreibung: string) => `
+            <rdf:li rdf:parseType="Resource">
+              <pdfaProperty:name>${name}</pdfaProperty:name>
+              <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+              <pdfaProperty:category>external</pdfaProperty:category>
+              <pdfaProperty:description>${beschreibung}</pdfaProperty:description>
+            </rdf:li>`;
+
+  (doc as any).appendXML(`
+        <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+            <fx:DocumentType>INVOICE</fx:DocumentType>
+            <fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>
+            <fx:Version>1.0</fx:Version>
+            <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+        </rdf:Description>
+        <rdf:Description rdf:about=""
+            xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+            xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+            xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+          <pdfaExtension:schemas>
+            <rdf:Bag>
+              <rdf:li rdf:parseType="Resource">
+                <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+                <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+                <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+                <pdfaSchema:property>
+                  <rdf:Seq>${prop("DocumentFileName", "name of the embedded XML invoice file")}${prop("DocumentType", "INVOICE")}${prop("Version", "The actual version of the Factur-X XML schema")}${prop("ConformanceLevel", "The conformance level of the embedded Factur-X data")}
+                  </rdf:Seq>
+                </pdfaSchema:property>
+              </rdf:li>
+            </rdf:Bag>
+          </pdfaExtension:schemas>
+        </rdf:Description>
+        `);
 }
 
 /**
@@ -685,6 +767,30 @@ async function renderRechnung(doc: PDFKitDocument, auftrag: any, kunde: any, opt
  * Für Gutschrift und Preisdifferenz müssen zusätzliche Daten übergeben werden.
  */
 
+/**
+ * Einzelne Zeile über den Nettobetrag einer Gutschrift/Preisdifferenz ohne Positionen,
+ * damit PDF, Archiv-Snapshot und E-Rechnung Betrag und Summen ausweisen.
+ */
+export function betragsPosition(
+  belegTyp: "gutschrift" | "preisdifferenz",
+  betrag: number,
+  referenzBelegNummer?: string
+): ArtikelPositionResource {
+  const bezeichnung =
+    (belegTyp === "gutschrift" ? "Gutschrift" : "Preisdifferenz") +
+    (referenzBelegNummer ? ` zu Rechnung ${referenzBelegNummer}` : "");
+  const wert = Math.round(betrag * 100) / 100;
+  return {
+    artikel: "",
+    artikelName: bezeichnung,
+    menge: 1,
+    einheit: "stück",
+    einzelpreis: wert,
+    gesamtgewicht: 0,
+    gesamtpreis: wert,
+  };
+}
+
 /**
  * Generiert ein Schnellauftrag-PDF mit Briefpapier-Hintergrund.
  * Format: Bemerkung oben, Datum/Kunde/Kundennr, Tabelle (Menge | Einheit | Artikel | Preis €/kg).
@@ -834,18 +940,33 @@ export async function generateSchnellauftragPdf(auftragId: string): Promise<Buff
 export async function generateBelegPdf(
   auftragId: string,
   belegTyp: BelegTyp,
-  inputData?: Partial<BelegResource>
+  inputData?: Partial<BelegResource>,
+  options?: {
+    /** Belegnummer im Kopf (Finalisierung); ohne Nummer werden Rechnung/Gutschrift/Preisdifferenz als ENTWURF gedruckt */
+    nummer?: string;
+    /** Positionen statt der aktuellen Auftragspositionen darstellen (Snapshot bzw. E-Rechnung) */
+    positionen?: ArtikelPositionResource[];
+    /** ZUGFeRD/Factur-X: XML einbetten (PDF/A-3b) */
+    facturX?: { xml: string };
+  }
 ): Promise<Buffer> {
   const auftrag = await Auftrag.findById(auftragId);
   if (!auftrag) throw new Error("Auftrag nicht gefunden");
 
+  // Finalisierte Rechnung: immer das archivierte Original ausliefern, nie neu rendern
+  if (belegTyp === 'rechnung' && auftrag.rechnungFinalisiertAm && !options) {
+    const archiv = await BelegArchiv.findOne({ auftraege: auftrag._id, typ: 'rechnung' }).sort({ finalisiertAm: -1 });
+    if (archiv) return archiv.pdf;
+  }
+
   const kunde = await Kunde.findById(auftrag.kunde);
   if (!kunde) throw new Error("Kunde nicht gefunden");
 
   dlog('generateBelegPdf:start', { auftragId, belegTyp });
   dlog('auftrag.artikelPosition raw:', (auftrag as any).artikelPosition);
 
-  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const facturX = options?.facturX;
+  const doc = neuesBelegDokument(`Rechnung ${options?.nummer ?? auftrag.auftragsnummer ?? ''}`.trim(), facturX);
   const buffers: Buffer[] = [];
   doc.on("data", (chunk: Buffer) => buffers.push(chunk));
 
@@ -856,10 +977,32 @@ export async function generateBelegPdf(
     drawHeader(doc, { title: "Lieferschein" });
   } else if (belegTyp === 'ladebestaetigung') {
     drawHeader(doc, { title: "Ladebestätigung" });
+  } else if (belegTyp === 'stornorechnung') {
+    drawHeader(doc, { title: "Stornorechnung" });
+  } else if (belegTyp === 'gutschrift') {
+    drawHeader(doc, { title: "Gutschrift" });
+  } else if (belegTyp === 'preisdifferenz') {
+    drawHeader(doc, { title: "Preisdifferenz" });
   }
 
   // === Rechnungskopf (Kundeninfos) ===
-  drawRechnungskopf(doc, kunde, auftrag);
+  const kopfNummer =
+    options?.nummer ||
+    (belegTyp === 'rechnung' ? auftrag.rechnungsNummer : undefined) ||
+    (belegTyp === 'lieferschein' ? auftrag.lieferscheinNummer || auftrag.auftragsnummer : undefined) ||
+    (belegTyp === 'auftragsbestaetigung' || belegTyp === 'ladebestaetigung' ? auftrag.auftragsnummer : 'ENTWURF');
+  drawRechnungskopf(doc, kunde, auftrag, kopfNummer);
+
+  // Bezug auf die stornierte Rechnung direkt über der Positionstabelle
+  if (belegTyp === 'stornorechnung' && inputData?.referenzBelegNummer) {
+    doc.font("Helvetica-Bold").fontSize(10)
+      .text(`Storno zu Rechnung ${inputData.referenzBelegNummer}`, 85, 8.5 * 28.3464567 - 16);
+  }
+  if ((belegTyp === 'gutschrift' || belegTyp === 'preisdifferenz') && inputData?.referenzBelegNummer) {
+    const bezug = belegTyp === 'gutschrift' ? 'Gutschrift' : 'Preisdifferenz';
+    doc.font("Helvetica-Bold").fontSize(10)
+      .text(`${bezug} zu Rechnung ${inputData.referenzBelegNummer}`, 85, 8.5 * 28.3464567 - 16);
+  }
 
   // Body: Artikelpositionen-Tabelle (Rechnung, Lieferschein, Auftragsbestätigung, Ladebestätigung)
   if (belegTyp === 'rechnung' || belegTyp === 'lieferschein' || belegTyp === 'auftragsbestaetigung' || belegTyp === 'ladebestaetigung') {
@@ -893,14 +1036,27 @@ export async function generateBelegPdf(
     }
     dlog('positions resolved count:', positionen.length);
 
-    const mwstSatz = (auftrag as any).mwstSatz ?? 7;
+    const mwstSatz = auftrag.mwstSatz ?? 7;
     dlog('mwstSatz used:', mwstSatz);
     // Auftragsbestätigung & Ladebestätigung: keine Unterschriftsfelder und keine Preissummen
     const hideSignatures = belegTyp === 'auftragsbestaetigung' || belegTyp === 'ladebestaetigung';
     const hideTotals = belegTyp === 'auftragsbestaetigung' || belegTyp === 'ladebestaetigung';
-    drawPositionsTable(doc, positionen, mwstSatz, kunde, auftrag, { hideSignatures, hideTotals });
+    // Übergebene Positionen (Snapshot / E-Rechnung) haben Vorrang, damit Sichtbeleg und Archiv bzw. XML übereinstimmen
+    drawPositionsTable(doc, options?.positionen ?? positionen, mwstSatz, kunde, auftrag, { hideSignatures, hideTotals, belegNummer: kopfNummer });
+  } else if (belegTyp === 'gutschrift' || belegTyp === 'preisdifferenz') {
+    // Übergebene Positionen (Archiv, E-Rechnung), sonst eine Zeile über den Betrag
+    const betrag = Number(inputData?.betrag);
+    const zeilen = options?.positionen?.length
+      ? options.positionen
+      : Number.isFinite(betrag) && betrag !== 0
+        ? [betragsPosition(belegTyp, betrag, inputData?.referenzBelegNummer)]
+        : [];
+    if (zeilen.length) {
+      drawPositionsTable(doc, zeilen, auftrag.mwstSatz ?? 7, kunde, auftrag, { hideSignatures: true, belegNummer: kopfNummer });
+    }
   }
 
+  if (facturX) embedFacturX(doc, facturX.xml);
 
   const pdfBuffer: Buffer = await new Promise((resolve, reject) => {
     doc.on("end", () => resolve(Buffer.concat(buffers)));
@@ -911,6 +1067,937 @@ export async function generateBelegPdf(
   return pdfBuffer;
 }
 
+/**
+ * Generiert eine Sammelrechnung: ein Rechnungskopf, je Lieferung ein Abschnitt
+ * ("Lieferschein … vom …") mit den zugehörigen Positionen, gemeinsame Summen.
+ */
+export async function generateSammelrechnungPdf(
+  kundeId: string,
+  data: {
+    nummer?: string;
+    datum: Date;
+    zeitraumVon: Date;
+    zeitraumBis: Date;
+    mwstSatz: number;
+    abschnitte: { titel: string; positionen: ArtikelPositionResource[] }[];
+    titel?: string;   // z.B. "Stornorechnung"
+    hinweis?: string; // ersetzt die Zeile "Leistungszeitraum …"
+    facturX?: { xml: string }; // ZUGFeRD/Factur-X: XML einbetten (PDF/A-3b)
+  }
+): Promise<Buffer> {
+  const kunde = await Kunde.findById(kundeId);
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+
+  const doc = neuesBelegDokument(`${data.titel ?? "Rechnung"} ${data.nummer ?? ""}`.trim(), data.facturX);
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  if (data.titel) drawHeader(doc, { title: data.titel });
+
+  // Kopf wie bei der Einzelrechnung; Liefer-/Rechnungsdatum = Belegdatum
+  const kopf = { auftragsnummer: "Sammelrechnung", lieferdatum: data.datum };
+  const belegNummer = data.nummer || 'ENTWURF';
+  drawRechnungskopf(doc, kunde, kopf, belegNummer);
+
+  const fmtDatum = (d: Date) => new Date(d).toLocaleDateString("de-DE");
+  doc.font("Helvetica-Bold").fontSize(10)
+    .text(
+      data.hinweis ?? `Leistungszeitraum ${fmtDatum(data.zeitraumVon)} – ${fmtDatum(data.zeitraumBis)}`,
+      85,
+      8.5 * 28.3464567 - 16
+    );
+
+  const positionen: ArtikelPositionResource[] = [];
+  const abschnittTitel: Record<number, string> = {};
+  for (const abschnitt of data.abschnitte) {
+    abschnittTitel[positionen.length] = abschnitt.titel;
+    positionen.push(...abschnitt.positionen);
+  }
+  drawPositionsTable(doc, positionen, data.mwstSatz, kunde, kopf, { hideSignatures: true, belegNummer, abschnittTitel });
+
+  if (data.facturX) embedFacturX(doc, data.facturX.xml);
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+/**
+ * Generiert ein Mahnschreiben: Briefkopf, Anschrift, Anschreiben (bereits ersetzte Platzhalter),
+ * Tabelle der überfälligen Posten, Summe inkl. Mahngebühr und Firmen-Footer auf jeder Seite.
+ */
+export async function generateMahnungPdf(data: {
+  titel: string;           // Bezeichnung der Mahnstufe
+  kunde: { name: string; adresse?: string; kundenNummer?: string };
+  datum: Date;
+  zahlungsfrist: Date;
+  betreff: string;
+  text: string;
+  posten: { reNr: string; belegDatum: Date; betrag: number; tageUeberfaellig: number }[];
+  summe: number;
+  gebuehr: number;
+  gesamt: number;
+}): Promise<Buffer> {
+  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  const CM = 28.3464567;
+  const left = 85;            // 3 cm wie Rechnungskopf
+  const right = 530;
+  const width = right - left;
+  const bottomLimit = 700;    // oberhalb des Footers
+  const fmtDatum = (d: Date) => new Date(d).toLocaleDateString("de-DE");
+
+  drawHeader(doc, { title: data.titel });
+
+  // Anschrift (links) und Eckdaten (rechts) auf Höhe des Rechnungskopfs
+  const startY = 170;
+  doc.font("Helvetica-Bold").fontSize(9).text("Firma", left, startY - 14);
+  doc.font("Helvetica-Bold").fontSize(11).text(data.kunde.name, left, startY);
+  doc.font("Helvetica").fontSize(10).text((data.kunde.adresse || "").replace(/,\s*/g, "\n"), left, startY + 14);
+
+  const infoX = left + 290;
+  const labelX = infoX - CM;
+  const lineH = 13;
+  const info: [string, string][] = [
+    ["Datum:", fmtDatum(data.datum)],
+    ["Kundennummer:", data.kunde.kundenNummer || "—"],
+    ["Zahlungsfrist:", fmtDatum(data.zahlungsfrist)],
+  ];
+  info.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, labelX, startY + i * lineH);
+    doc.font("Helvetica").text(wert, infoX + 120, startY + i * lineH);
+  });
+
+  // Betreff + Anschreiben
+  let y = 9.5 * CM + 20;
+  doc.font("Helvetica-Bold").fontSize(11).text(data.betreff, left, y, { width });
+  y = doc.y + 12;
+  doc.font("Helvetica").fontSize(10).text(data.text, left, y, { width, lineGap: 2 });
+  y = doc.y + 16;
+
+  // Postentabelle
+  const x = [left, left + 150, left + 250, left + 350, right];
+  const drawTableHeader = () => {
+    doc.font("Helvetica-Bold").fontSize(9);
+    doc.text("Rechnung", x[0], y, { width: x[1] - x[0] - 6 });
+    doc.text("Belegdatum", x[1], y, { width: x[2] - x[1] - 6 });
+    doc.text("Tage überfällig", x[2], y, { width: x[3] - x[2] - 6, align: 'right' });
+    doc.text("Betrag (EUR)", x[3], y, { width: x[4] - x[3], align: 'right' });
+    y += 14;
+    doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#000').lineWidth(0.5).stroke();
+    doc.font("Helvetica").fontSize(9);
+  };
+  drawTableHeader();
+  for (const p of data.posten) {
+    if (y + 14 > bottomLimit) {
+      doc.addPage();
+      drawHeader(doc, { title: data.titel });
+      y = 120;
+      drawTableHeader();
+    }
+    doc.text(p.reNr, x[0], y, { width: x[1] - x[0] - 6, lineBreak: false });
+    doc.text(fmtDatum(p.belegDatum), x[1], y, { width: x[2] - x[1] - 6, lineBreak: false });
+    doc.text(String(p.tageUeberfaellig), x[2], y, { width: x[3] - x[2] - 6, align: 'right', lineBreak: false });
+    doc.text(euro(p.betrag), x[3], y, { width: x[4] - x[3], align: 'right', lineBreak: false });
+    y += 14;
+  }
+
+  // Summen + Gruß
+  if (y + 110 > bottomLimit) {
+    doc.addPage();
+    drawHeader(doc, { title: data.titel });
+    y = 120;
+  }
+  doc.moveTo(left, y + 2).lineTo(right, y + 2).strokeColor('#000').lineWidth(0.5).stroke();
+  y += 8;
+  const summen: [string, number][] = [["Summe offene Posten", data.summe]];
+  if (data.gebuehr > 0) summen.push(["Mahngebühr", data.gebuehr]);
+  summen.forEach(([label, wert]) => {
+    doc.font("Helvetica").fontSize(10).text(label, left, y, { width: width * 0.6 });
+    doc.text(euro(wert), right - 100, y, { width: 100, align: 'right' });
+    y += 16;
+  });
+  doc.font("Helvetica-Bold").text("Zu zahlender Betrag", left, y, { width: width * 0.6 });
+  doc.text(euro(data.gesamt), right - 100, y, { width: 100, align: 'right' });
+  y += 32;
+  doc.font("Helvetica").fontSize(10).text("Mit freundlichen Grüßen\nBuchhaltung\nHacilar Helal Et Kombinasi", left, y, { width });
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    drawFooter(doc, undefined, FIRMEN_FOOTER);
+  }
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+/**
+ * Generiert einen Leergut-Kontoauszug: je Leergutart Anfangsbestand, Bewegungen
+ * (Datum, Vorgang, Lieferschein, Menge, Saldo) und Endbestand; Layout wie Mahnschreiben.
+ */
+export async function generateLeergutKontoauszugPdf(data: {
+  kunde: { name: string; adresse?: string; kundenNummer?: string };
+  datum: Date;
+  auszug: LeergutKontoauszugResource;
+}): Promise<Buffer> {
+  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  const CM = 28.3464567;
+  const left = 85;
+  const right = 530;
+  const width = right - left;
+  const bottomLimit = 700;
+  const titel = "Leergut-Kontoauszug";
+  const fmtDatum = (d: Date | string) => new Date(d).toLocaleDateString("de-DE");
+  const fmtMenge = (n: number) => (n > 0 ? `+${n}` : String(n));
+  const vorgang: Record<string, string> = {
+    eroeffnung: "Eröffnungsbestand",
+    lieferung: "Lieferung",
+    rueckgabe: "Rückgabe",
+    korrektur: "Korrektur",
+  };
+  const { auszug } = data;
+
+  drawHeader(doc, { title: titel });
+
+  const startY = 170;
+  doc.font("Helvetica-Bold").fontSize(9).text("Firma", left, startY - 14);
+  doc.font("Helvetica-Bold").fontSize(11).text(data.kunde.name, left, startY);
+  doc.font("Helvetica").fontSize(10).text((data.kunde.adresse || "").replace(/,\s*/g, "\n"), left, startY + 14);
+
+  const infoX = left + 290;
+  const labelX = infoX - CM;
+  const lineH = 13;
+  const info: [string, string][] = [
+    ["Datum:", fmtDatum(data.datum)],
+    ["Kundennummer:", data.kunde.kundenNummer || "—"],
+    ["Zeitraum:", `${auszug.von ? fmtDatum(auszug.von) : "Beginn"} – ${fmtDatum(auszug.bis)}`],
+  ];
+  info.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, labelX, startY + i * lineH);
+    doc.font("Helvetica").text(wert, infoX + 120, startY + i * lineH);
+  });
+
+  let y = 9.5 * CM + 20;
+  doc.font("Helvetica").fontSize(10).text(
+    "Sehr geehrte Damen und Herren,\n\nnachfolgend erhalten Sie den Auszug Ihres Leergutkontos. " +
+      "Positive Mengen sind an Sie geliefertes, negative von uns zurückgenommenes Leergut.",
+    left, y, { width, lineGap: 2 }
+  );
+  y = doc.y + 16;
+
+  const x = [left, left + 70, left + 190, left + 300, left + 375, right];
+  const neueSeite = () => {
+    doc.addPage();
+    drawHeader(doc, { title: titel });
+    y = 120;
+  };
+  const drawTableHeader = () => {
+    doc.font("Helvetica-Bold").fontSize(9);
+    doc.text("Datum", x[0], y, { width: x[1] - x[0] - 6 });
+    doc.text("Vorgang", x[1], y, { width: x[2] - x[1] - 6 });
+    doc.text("Lieferschein", x[2], y, { width: x[3] - x[2] - 6 });
+    doc.text("Menge", x[3], y, { width: x[4] - x[3] - 6, align: 'right' });
+    doc.text("Saldo", x[4], y, { width: x[5] - x[4], align: 'right' });
+    y += 14;
+    doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#000').lineWidth(0.5).stroke();
+    doc.font("Helvetica").fontSize(9);
+  };
+  const summenZeile = (label: string, wert: number) => {
+    doc.font("Helvetica-Bold").fontSize(9).text(label, x[0], y, { width: x[4] - x[0] - 6, lineBreak: false });
+    doc.text(String(wert), x[4], y, { width: x[5] - x[4], align: 'right', lineBreak: false });
+    doc.font("Helvetica");
+    y += 14;
+  };
+
+  if (!auszug.konten.length) {
+    doc.font("Helvetica-Oblique").fontSize(10).text("Keine Leergutbewegungen im Zeitraum.", left, y, { width });
+    y = doc.y + 16;
+  }
+
+  for (const konto of auszug.konten) {
+    if (y + 70 > bottomLimit) neueSeite();
+    doc.font("Helvetica-Bold").fontSize(11).text(konto.bezeichnung, left, y, { width });
+    y = doc.y + 6;
+    drawTableHeader();
+    summenZeile("Anfangsbestand", konto.anfangsbestand);
+    for (const b of konto.buchungen) {
+      if (y + 14 > bottomLimit) {
+        neueSeite();
+        drawTableHeader();
+      }
+      const text = b.art === "korrektur" && b.bemerkung ? `${vorgang[b.art]}: ${b.bemerkung}` : vorgang[b.art] ?? b.art;
+      doc.text(fmtDatum(b.datum), x[0], y, { width: x[1] - x[0] - 6, lineBreak: false });
+      doc.text(text, x[1], y, { width: x[2] - x[1] - 6, lineBreak: false, ellipsis: true });
+      doc.text(b.belegNummer || "—", x[2], y, { width: x[3] - x[2] - 6, lineBreak: false });
+      doc.text(fmtMenge(b.menge), x[3], y, { width: x[4] - x[3] - 6, align: 'right', lineBreak: false });
+      doc.text(String(b.saldo ?? ""), x[4], y, { width: x[5] - x[4], align: 'right', lineBreak: false });
+      y += 14;
+    }
+    if (y + 20 > bottomLimit) neueSeite();
+    doc.moveTo(left, y - 2).lineTo(right, y - 2).strokeColor('#000').lineWidth(0.5).stroke();
+    y += 4;
+    summenZeile(`Endbestand ${konto.bezeichnung}`, konto.endbestand);
+    y += 12;
+  }
+
+  if (y + 60 > bottomLimit) neueSeite();
+  doc.font("Helvetica").fontSize(10).text(
+    "Bitte prüfen Sie den Auszug und melden Sie Abweichungen innerhalb von 14 Tagen.\n\n" +
+      "Mit freundlichen Grüßen\nBuchhaltung\nHacilar Helal Et Kombinasi",
+    left, y, { width }
+  );
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    drawFooter(doc, undefined, FIRMEN_FOOTER);
+  }
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+export type ZustellnachweisPdfDaten = {
+  auftragsnummer?: string;
+  lieferscheinNummer?: string;
+  lieferdatum?: Date;
+  kunde: { name: string; adresse?: string; kundenNummer?: string };
+  tour?: string;
+  position?: number;
+  fahrer?: string;
+  fahrzeug?: string;
+  status: string;
+  fehlgrund?: { code?: string; text?: string };
+  positionen: { artikelName: string; menge: number; einheit: string; nettogewicht?: number }[];
+  leergutMitnahme: { art: string; anzahl: number }[];
+  signatur?: Buffer;           // PNG
+  signedByName?: string;
+  signTimestamp?: Date;
+  abgeschlossenAm?: Date;
+};
+
+const STOP_STATUS_LABEL: Record<string, string> = {
+  offen: "Offen",
+  unterwegs: "Unterwegs",
+  zugestellt: "Zugestellt",
+  teilweise: "Teilweise zugestellt",
+  fehlgeschlagen: "Nicht zugestellt",
+};
+
+const FEHLGRUND_LABEL: Record<string, string> = {
+  KUNDE_NICHT_ERREICHBAR: "Kunde nicht erreichbar",
+  ANNAHME_VERWEIGERT: "Annahme verweigert",
+  FALSCH_ADRESSE: "Falsche Adresse",
+  NICHT_RECHTZEITIG: "Nicht rechtzeitig",
+  WARE_BESCHAEDIGT: "Ware beschädigt",
+  SONSTIGES: "Sonstiges",
+};
+
+/**
+ * Generiert Zustellnachweise (eine Seite je Stop; für eine ganze Tour mehrere Stops):
+ * Empfänger, Auftrag/Lieferschein, Tour mit Fahrer und Fahrzeug, gelieferte Positionen,
+ * zurückgenommenes Leergut, Zustellstatus inkl. Fehlgrund sowie Unterschrift mit Zeitstempel.
+ */
+export async function generateZustellnachweisPdf(stops: ZustellnachweisPdfDaten[]): Promise<Buffer> {
+  if (!stops.length) throw new Error("Keine Stops für den Zustellnachweis");
+  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: false, bufferPages: true });
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  const CM = 28.3464567;
+  const left = 85;
+  const right = 530;
+  const width = right - left;
+  const bottomLimit = 700;
+  const titel = "Zustellnachweis";
+  const fmtDatum = (d: Date) => new Date(d).toLocaleDateString("de-DE", { timeZone: "Europe/Berlin" });
+  const fmtZeit = (d: Date) =>
+    new Date(d).toLocaleString("de-DE", { timeZone: "Europe/Berlin", dateStyle: "medium", timeStyle: "short" });
+
+  for (const stop of stops) {
+    doc.addPage();
+    drawHeader(doc, { title: titel });
+    let y = 0;
+    const neueSeite = () => {
+      doc.addPage();
+      drawHeader(doc, { title: titel });
+      y = 120;
+    };
+
+    // Empfänger (links) und Eckdaten (rechts)
+    const startY = 170;
+    doc.font("Helvetica-Bold").fontSize(9).text("Empfänger", left, startY - 14);
+    doc.font("Helvetica-Bold").fontSize(11).text(stop.kunde.name, left, startY);
+    doc.font("Helvetica").fontSize(10).text((stop.kunde.adresse || "").replace(/,\s*/g, "\n"), left, startY + 14, { width: 250 });
+
+    const infoX = left + 290;
+    const labelX = infoX - CM;
+    const lineH = 13;
+    const info: [string, string][] = [
+      ["Lieferdatum:", stop.lieferdatum ? fmtDatum(stop.lieferdatum) : "—"],
+      ["Auftrag:", stop.auftragsnummer || "—"],
+      ["Lieferschein:", stop.lieferscheinNummer || "—"],
+      ["Kundennummer:", stop.kunde.kundenNummer || "—"],
+      ["Tour / Stop:", `${stop.tour || "—"}${stop.position ? ` / ${stop.position}` : ""}`],
+      ["Fahrer:", stop.fahrer || "—"],
+      ["Fahrzeug:", stop.fahrzeug || "—"],
+    ];
+    info.forEach(([label, wert], i) => {
+      doc.font("Helvetica-Bold").fontSize(10).text(label, labelX, startY + i * lineH);
+      doc.font("Helvetica").text(wert, infoX + 80, startY + i * lineH, { width: right - infoX - 80, lineBreak: false, ellipsis: true });
+    });
+
+    // Zustellstatus
+    y = 9.5 * CM + 20;
+    const statusText = STOP_STATUS_LABEL[stop.status] ?? stop.status;
+    doc.font("Helvetica-Bold").fontSize(11).text(`Status: ${statusText}`, left, y, { width });
+    y = doc.y + 4;
+    if (stop.abgeschlossenAm) {
+      doc.font("Helvetica").fontSize(10).text(`Abgeschlossen am ${fmtZeit(stop.abgeschlossenAm)}`, left, y, { width });
+      y = doc.y + 4;
+    }
+    if (stop.fehlgrund?.code || stop.fehlgrund?.text) {
+      const grund = [stop.fehlgrund.code ? FEHLGRUND_LABEL[stop.fehlgrund.code] ?? stop.fehlgrund.code : "", stop.fehlgrund.text || ""]
+        .filter(Boolean)
+        .join(" – ");
+      doc.font("Helvetica-Bold").fontSize(10).fillColor('#b00020').text(`Fehlgrund: ${grund}`, left, y, { width });
+      doc.fillColor('#000');
+      y = doc.y + 4;
+    }
+    y += 12;
+
+    // Gelieferte Positionen
+    const x = [left, left + 250, left + 330, left + 380, right];
+    const drawTableHeader = () => {
+      doc.font("Helvetica-Bold").fontSize(9);
+      doc.text("Artikel", x[0], y, { width: x[1] - x[0] - 6 });
+      doc.text("Menge", x[1], y, { width: x[2] - x[1] - 6, align: 'right' });
+      doc.text("Einheit", x[2], y, { width: x[3] - x[2] - 6 });
+      doc.text("Netto (kg)", x[3], y, { width: x[4] - x[3], align: 'right' });
+      y += 14;
+      doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#000').lineWidth(0.5).stroke();
+      doc.font("Helvetica").fontSize(9);
+    };
+    doc.font("Helvetica-Bold").fontSize(10).text("Gelieferte Positionen", left, y);
+    y = doc.y + 6;
+    drawTableHeader();
+    if (!stop.positionen.length) {
+      doc.font("Helvetica-Oblique").fontSize(9).text("Keine Positionen", left, y);
+      y += 14;
+    }
+    for (const p of stop.positionen) {
+      if (y + 14 > bottomLimit) {
+        neueSeite();
+        drawTableHeader();
+      }
+      doc.text(p.artikelName, x[0], y, { width: x[1] - x[0] - 6, lineBreak: false, ellipsis: true });
+      doc.text(String(p.menge), x[1], y, { width: x[2] - x[1] - 6, align: 'right', lineBreak: false });
+      doc.text(p.einheit, x[2], y, { width: x[3] - x[2] - 6, lineBreak: false });
+      doc.text(p.nettogewicht !== undefined ? p.nettogewicht.toFixed(2) : "", x[3], y, { width: x[4] - x[3], align: 'right', lineBreak: false });
+      y += 14;
+    }
+    y += 10;
+
+    // Leergut-Rücknahme
+    if (stop.leergutMitnahme.length) {
+      if (y + 30 + stop.leergutMitnahme.length * 14 > bottomLimit) neueSeite();
+      doc.font("Helvetica-Bold").fontSize(10).text("Zurückgenommenes Leergut", left, y);
+      y = doc.y + 4;
+      doc.font("Helvetica").fontSize(9);
+      for (const l of stop.leergutMitnahme) {
+        doc.text(l.art, left, y, { width: 200, lineBreak: false });
+        doc.text(String(l.anzahl), left + 200, y, { width: 50, align: 'right', lineBreak: false });
+        y += 14;
+      }
+      y += 10;
+    }
+
+    // Unterschrift
+    if (y + 120 > bottomLimit) neueSeite();
+    doc.font("Helvetica-Bold").fontSize(10).text("Empfang bestätigt", left, y);
+    y = doc.y + 6;
+    if (stop.signatur) {
+      try {
+        doc.image(stop.signatur, left, y, { fit: [200, 70] });
+      } catch {
+        doc.font("Helvetica-Oblique").fontSize(9).text("Unterschrift konnte nicht dargestellt werden", left, y + 30);
+      }
+    } else {
+      doc.font("Helvetica-Oblique").fontSize(9).text("Keine Unterschrift erfasst", left, y + 30);
+    }
+    y += 74;
+    doc.moveTo(left, y).lineTo(left + 220, y).strokeColor('#000').lineWidth(0.5).stroke();
+    y += 4;
+    doc.font("Helvetica").fontSize(9).text(
+      [stop.signedByName, stop.signTimestamp ? fmtZeit(stop.signTimestamp) : undefined].filter(Boolean).join(", ") || "Name / Zeitpunkt",
+      left, y, { width: 220 }
+    );
+  }
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    drawFooter(doc, undefined, FIRMEN_FOOTER);
+  }
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+/**
+ * Generiert die Ladeliste einer Tour: Aufträge in Ladereihenfolge (letzter Stop zuerst) mit
+ * Abhak-Kästchen (bereits beladene sind angehakt), Paletten/Boxen, Gewicht und TK-Anteil
+ * sowie Kapazität und Auslastung des Fahrzeugs.
+ */
+export async function generateLadelistePdf(liste: LadelisteResource): Promise<Buffer> {
+  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  const left = 85;
+  const right = 530;
+  const width = right - left;
+  const bottomLimit = 700;
+  const titel = "Ladeliste";
+  const kg = (n: number) => n.toLocaleString("de-DE", { minimumFractionDigits: 0, maximumFractionDigits: 1 });
+  const fmtDatum = (iso: string) => new Date(`${iso}T12:00:00Z`).toLocaleDateString("de-DE");
+  const fmtZeit = (iso: string) =>
+    new Date(iso).toLocaleTimeString("de-DE", { timeZone: "Europe/Berlin", hour: "2-digit", minute: "2-digit" });
+
+  drawHeader(doc, { title: titel });
+
+  // Kopf: Tour links, Kennzahlen rechts
+  const startY = 170;
+  const lineH = 13;
+  const kopf: [string, string][] = [
+    ["Tour:", liste.tourName || liste.region],
+    ["Datum:", fmtDatum(liste.datum)],
+    ["Fahrer:", liste.fahrer || "—"],
+    ["Fahrzeug:", liste.fahrzeug || "—"],
+  ];
+  const kennzahlen: [string, string][] = [
+    ["Stops:", `${liste.positionen.length} (${liste.beladen} beladen)`],
+    ["Paletten / Boxen:", `${liste.paletten} / ${liste.boxen}`],
+    ["Gewicht:", `${kg(liste.gesamtGewichtKg)} kg${liste.maxGewichtKg ? ` von ${kg(liste.maxGewichtKg)} kg` : ""}`],
+    ["davon TK:", `${kg(liste.tkGewichtKg)} kg`],
+  ];
+  kopf.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, left, startY + i * lineH);
+    doc.font("Helvetica").text(wert, left + 60, startY + i * lineH, { width: 170, lineBreak: false, ellipsis: true });
+  });
+  kennzahlen.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, left + 240, startY + i * lineH);
+    doc.font("Helvetica").text(wert, left + 340, startY + i * lineH, { width: right - left - 340, lineBreak: false });
+  });
+
+  let y = startY + kopf.length * lineH + 12;
+  if (liste.ueberladen) {
+    doc.font("Helvetica-Bold").fontSize(10).fillColor('#b00020').text(
+      `Achtung: Fahrzeug überladen (${liste.auslastungProzent}% der Kapazität)`,
+      left, y, { width }
+    );
+    doc.fillColor('#000');
+    y = doc.y + 6;
+  } else if (liste.auslastungProzent !== undefined) {
+    doc.font("Helvetica").fontSize(10).text(`Auslastung: ${liste.auslastungProzent}%`, left, y, { width });
+    y = doc.y + 6;
+  }
+  doc.font("Helvetica-Oblique").fontSize(9).text("Ladereihenfolge: der letzte Stop der Tour wird zuerst geladen.", left, y, { width });
+  y = doc.y + 12;
+
+  // Tabelle
+  const x = [left, left + 20, left + 42, left + 102, left + 262, left + 292, left + 322, left + 382, right];
+  const drawTableHeader = () => {
+    doc.font("Helvetica-Bold").fontSize(9);
+    doc.text("Nr.", x[1], y, { width: x[2] - x[1] - 4 });
+    doc.text("Auftrag", x[2], y, { width: x[3] - x[2] - 4 });
+    doc.text("Kunde (Stop)", x[3], y, { width: x[4] - x[3] - 4 });
+    doc.text("Pal.", x[4], y, { width: x[5] - x[4] - 4, align: 'right' });
+    doc.text("Box", x[5], y, { width: x[6] - x[5] - 4, align: 'right' });
+    doc.text("kg", x[6], y, { width: x[7] - x[6] - 4, align: 'right' });
+    doc.text("TK kg", x[7], y, { width: x[8] - x[7], align: 'right' });
+    y += 14;
+    doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#000').lineWidth(0.5).stroke();
+    doc.font("Helvetica").fontSize(9);
+  };
+  const neueSeite = () => {
+    doc.addPage();
+    drawHeader(doc, { title: titel });
+    y = 120;
+    drawTableHeader();
+  };
+
+  drawTableHeader();
+  if (!liste.positionen.length) {
+    doc.font("Helvetica-Oblique").fontSize(9).text("Keine Stops in dieser Tour", left, y);
+    y += 14;
+  }
+  for (const p of liste.positionen) {
+    const zeilenH = p.bemerkung || p.beladeStatus === "beladen" ? 26 : 16;
+    if (y + zeilenH > bottomLimit) neueSeite();
+
+    // Abhak-Kästchen
+    doc.rect(x[0], y - 1, 10, 10).strokeColor('#000').lineWidth(0.7).stroke();
+    if (p.beladeStatus === "beladen") {
+      doc.moveTo(x[0] + 2, y + 4).lineTo(x[0] + 4.5, y + 7).lineTo(x[0] + 9, y + 0.5).lineWidth(1.2).stroke();
+    }
+    doc.font("Helvetica").fontSize(9);
+    doc.text(String(p.ladeReihenfolge), x[1], y, { width: x[2] - x[1] - 4, lineBreak: false });
+    doc.text(p.auftragsnummer || "—", x[2], y, { width: x[3] - x[2] - 4, lineBreak: false, ellipsis: true });
+    doc.text(`${p.kundeName || "—"} (${p.position})`, x[3], y, { width: x[4] - x[3] - 4, lineBreak: false, ellipsis: true });
+    doc.text(String(p.paletten), x[4], y, { width: x[5] - x[4] - 4, align: 'right', lineBreak: false });
+    doc.text(String(p.boxen), x[5], y, { width: x[6] - x[5] - 4, align: 'right', lineBreak: false });
+    doc.text(kg(p.gewichtKg), x[6], y, { width: x[7] - x[6] - 4, align: 'right', lineBreak: false });
+    doc.text(p.tkGewichtKg ? kg(p.tkGewichtKg) : "—", x[7], y, { width: x[8] - x[7], align: 'right', lineBreak: false });
+
+    const zusatz = [
+      p.beladeStatus === "beladen"
+        ? `Beladen${p.beladeVonName ? ` von ${p.beladeVonName}` : ""}${p.beladeZeit ? ` um ${fmtZeit(p.beladeZeit)}` : ""}`
+        : "",
+      p.bemerkung || "",
+    ].filter(Boolean).join(" · ");
+    if (zusatz) {
+      doc.font("Helvetica-Oblique").fontSize(8).fillColor('#555')
+        .text(zusatz, x[2], y + 11, { width: right - x[2], lineBreak: false, ellipsis: true });
+      doc.fillColor('#000');
+    }
+    y += zeilenH;
+    doc.moveTo(left, y - 4).lineTo(right, y - 4).strokeColor('#ccc').lineWidth(0.3).stroke();
+    doc.strokeColor('#000');
+  }
+
+  // Summen
+  if (y + 30 > bottomLimit) neueSeite();
+  doc.moveTo(left, y - 2).lineTo(right, y - 2).strokeColor('#000').lineWidth(0.5).stroke();
+  y += 4;
+  doc.font("Helvetica-Bold").fontSize(9);
+  doc.text("Summe", x[2], y, { width: x[4] - x[2] - 4, lineBreak: false });
+  doc.text(String(liste.paletten), x[4], y, { width: x[5] - x[4] - 4, align: 'right', lineBreak: false });
+  doc.text(String(liste.boxen), x[5], y, { width: x[6] - x[5] - 4, align: 'right', lineBreak: false });
+  doc.text(kg(liste.gesamtGewichtKg), x[6], y, { width: x[7] - x[6] - 4, align: 'right', lineBreak: false });
+  doc.text(kg(liste.tkGewichtKg), x[7], y, { width: x[8] - x[7], align: 'right', lineBreak: false });
+  y += 40;
+
+  // Bestätigung Verladung
+  if (y + 40 > bottomLimit) {
+    doc.addPage();
+    drawHeader(doc, { title: titel });
+    y = 140;
+  }
+  doc.moveTo(left, y).lineTo(left + 180, y).lineWidth(0.5).stroke();
+  doc.moveTo(left + 265, y).lineTo(right, y).stroke();
+  doc.font("Helvetica").fontSize(8).text("Verladen (Name / Uhrzeit)", left, y + 4);
+  doc.text("Fahrer (Unterschrift)", left + 265, y + 4);
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    drawFooter(doc, undefined, FIRMEN_FOOTER);
+  }
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+/**
+ * Inventurliste als PDF (Stichtagsinventur): Soll, Ist, Differenz und Wert je Position,
+ * Summen und Unterschriftsfelder für die Abschlussprüfung.
+ */
+export async function generateInventurlistePdf(inventur: InventurResource): Promise<Buffer> {
+  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  const left = 85;
+  const right = 530;
+  const width = right - left;
+  const bottomLimit = 700;
+  const titel = "Inventurliste";
+  const kg = (n: number) => n.toLocaleString("de-DE", { minimumFractionDigits: 0, maximumFractionDigits: 3 });
+  const eur = (n: number) => n.toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+  const fmtDatum = (iso: string) => new Date(`${iso.slice(0, 10)}T12:00:00Z`).toLocaleDateString("de-DE");
+  const statusText: Record<string, string> = {
+    ZAEHLUNG: "Zählung läuft",
+    PRUEFUNG: "In Prüfung",
+    GEBUCHT: "Freigegeben und gebucht",
+    STORNIERT: "Storniert",
+  };
+
+  drawHeader(doc, { title: titel });
+
+  // Kopf: Inventur links, Werte rechts
+  const startY = 170;
+  const lineH = 13;
+  const kopf: [string, string][] = [
+    ["Inventur:", inventur.nummer],
+    ["Stichtag:", fmtDatum(inventur.stichtag)],
+    ["Lagerbereich:", inventur.lagerbereich ?? "alle"],
+    ["Status:", statusText[inventur.status] ?? inventur.status],
+  ];
+  const werte: [string, string][] = [
+    ["Positionen:", String(inventur.summen.positionen)],
+    ["Soll-Wert:", eur(inventur.summen.sollWert)],
+    ["Ist-Wert:", eur(inventur.summen.istWert)],
+    ["Differenz:", eur(inventur.summen.differenzWert)],
+  ];
+  kopf.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, left, startY + i * lineH);
+    doc.font("Helvetica").text(wert, left + 80, startY + i * lineH, { width: 150, lineBreak: false, ellipsis: true });
+  });
+  werte.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, left + 260, startY + i * lineH);
+    doc.font("Helvetica").text(wert, left + 330, startY + i * lineH, { width: right - left - 330, align: 'right', lineBreak: false });
+  });
+
+  let y = startY + kopf.length * lineH + 8;
+  if (inventur.bezeichnung) {
+    doc.font("Helvetica-Oblique").fontSize(9).text(inventur.bezeichnung, left, y, { width });
+    y = doc.y + 4;
+  }
+  y += 8;
+
+  // Tabelle
+  const x = [left, left + 150, left + 205, left + 235, left + 290, left + 345, left + 395, right];
+  const drawTableHeader = () => {
+    doc.font("Helvetica-Bold").fontSize(8);
+    doc.text("Artikel", x[0], y, { width: x[1] - x[0] - 4 });
+    doc.text("MHD", x[1], y, { width: x[2] - x[1] - 4 });
+    doc.text("LB", x[2], y, { width: x[3] - x[2] - 4 });
+    doc.text("Soll kg", x[3], y, { width: x[4] - x[3] - 4, align: 'right' });
+    doc.text("Ist kg", x[4], y, { width: x[5] - x[4] - 4, align: 'right' });
+    doc.text("Diff. kg", x[5], y, { width: x[6] - x[5] - 4, align: 'right' });
+    doc.text("Wert", x[6], y, { width: x[7] - x[6], align: 'right' });
+    y += 12;
+    doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#000').lineWidth(0.5).stroke();
+    doc.font("Helvetica").fontSize(8);
+  };
+  const neueSeite = () => {
+    doc.addPage();
+    drawHeader(doc, { title: titel });
+    y = 120;
+    drawTableHeader();
+  };
+
+  drawTableHeader();
+  const positionen = inventur.positionen ?? [];
+  if (!positionen.length) {
+    doc.font("Helvetica-Oblique").fontSize(9).text("Keine Positionen", left, y);
+    y += 14;
+  }
+  for (const p of positionen) {
+    const zusatz = [p.zusatz ? "beim Zählen gefunden" : "", p.istBegruendung || ""].filter(Boolean).join(" · ");
+    const zeilenH = zusatz ? 22 : 13;
+    if (y + zeilenH > bottomLimit) neueSeite();
+
+    const artikel = [p.artikelNummer, p.artikelName].filter(Boolean).join(" ") || "—";
+    doc.font("Helvetica").fontSize(8);
+    doc.text(artikel, x[0], y, { width: x[1] - x[0] - 4, lineBreak: false, ellipsis: true });
+    doc.text(p.mhd ? fmtDatum(p.mhd) : "—", x[1], y, { width: x[2] - x[1] - 4, lineBreak: false });
+    doc.text(p.lagerbereich === "TK" ? "TK" : "NTK", x[2], y, { width: x[3] - x[2] - 4, lineBreak: false });
+    doc.text(kg(p.sollMenge), x[3], y, { width: x[4] - x[3] - 4, align: 'right', lineBreak: false });
+    doc.text(p.istMenge !== undefined ? kg(p.istMenge) : p.status === "KONFLIKT" ? "Konflikt" : "—", x[4], y, {
+      width: x[5] - x[4] - 4, align: 'right', lineBreak: false,
+    });
+    doc.text(p.differenz !== undefined ? kg(p.differenz) : "—", x[5], y, { width: x[6] - x[5] - 4, align: 'right', lineBreak: false });
+    doc.text(p.differenzWert !== undefined ? eur(p.differenzWert) : "—", x[6], y, { width: x[7] - x[6], align: 'right', lineBreak: false });
+    if (zusatz) {
+      doc.font("Helvetica-Oblique").fontSize(7).fillColor('#555')
+        .text(zusatz, x[0] + 8, y + 10, { width: right - x[0] - 8, lineBreak: false, ellipsis: true });
+      doc.fillColor('#000');
+    }
+    y += zeilenH;
+    doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#ccc').lineWidth(0.3).stroke();
+    doc.strokeColor('#000');
+  }
+
+  // Summen
+  if (y + 30 > bottomLimit) neueSeite();
+  doc.moveTo(left, y - 2).lineTo(right, y - 2).strokeColor('#000').lineWidth(0.5).stroke();
+  y += 4;
+  doc.font("Helvetica-Bold").fontSize(8);
+  doc.text("Summe Differenz", x[0], y, { width: x[6] - x[0] - 4, lineBreak: false });
+  doc.text(eur(inventur.summen.differenzWert), x[6], y, { width: x[7] - x[6], align: 'right', lineBreak: false });
+  y += 40;
+
+  // Unterschriften
+  if (y + 40 > bottomLimit) {
+    doc.addPage();
+    drawHeader(doc, { title: titel });
+    y = 140;
+  }
+  doc.moveTo(left, y).lineTo(left + 180, y).lineWidth(0.5).stroke();
+  doc.moveTo(left + 265, y).lineTo(right, y).stroke();
+  doc.font("Helvetica").fontSize(8).text("Aufgenommen / geprüft (Name, Datum)", left, y + 4);
+  const freigabe = inventur.freigegebenVonName
+    ? `Freigegeben: ${inventur.freigegebenVonName}${inventur.freigegebenAm ? `, ${fmtDatum(inventur.freigegebenAm)}` : ""}`
+    : "Freigegeben (Name, Datum)";
+  doc.text(freigabe, left + 265, y + 4);
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    drawFooter(doc, undefined, FIRMEN_FOOTER);
+  }
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+/**
+ * Reklamation an den Lieferanten: Anschrift, Charge, Mangel, Gewicht, Rücksendung und Fotos.
+ */
+export async function generateReklamationPdf(
+  reklamation: LieferantenReklamationResource,
+  lieferant?: { name?: string; adresse?: string; ansprechpartner?: string; lieferantNummer?: string },
+  fotos: Buffer[] = []
+): Promise<Buffer> {
+  const doc = new PDFDocument({ margin: 50, size: 'A4', autoFirstPage: true, bufferPages: true });
+  const buffers: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => buffers.push(chunk));
+
+  const left = 85;
+  const right = 530;
+  const width = right - left;
+  const bottomLimit = 700;
+  const titel = "Reklamation";
+  const kg = (n: number) => `${n.toLocaleString("de-DE", { minimumFractionDigits: 0, maximumFractionDigits: 3 })} kg`;
+  const fmtDatum = (iso: string) => new Date(`${iso.slice(0, 10)}T12:00:00Z`).toLocaleDateString("de-DE");
+  const kategorieText: Record<string, string> = {
+    QUALITAET: "Qualitätsmangel",
+    TEMPERATUR: "Temperaturabweichung / Kühlkette",
+    MHD: "MHD zu kurz oder überschritten",
+    VERPACKUNG: "Verpackung beschädigt",
+    FREMDKOERPER: "Fremdkörper",
+    GEWICHT: "Gewichtsabweichung",
+    FALSCHLIEFERUNG: "Falschlieferung",
+    SONSTIGES: "Sonstiges",
+  };
+
+  drawHeader(doc, { title: titel });
+
+  // Anschrift Lieferant links, Reklamationsdaten rechts
+  const startY = 170;
+  doc.font("Helvetica-Bold").fontSize(11).text(lieferant?.name ?? reklamation.lieferantName ?? "—", left, startY, { width: 230 });
+  const ay = doc.y + 2;
+  const anschrift = [lieferant?.ansprechpartner ? `z. Hd. ${lieferant.ansprechpartner}` : "", ...(lieferant?.adresse ?? "").split(",")]
+    .map((z) => z.trim())
+    .filter(Boolean)
+    .join("\n");
+  if (anschrift) doc.font("Helvetica").fontSize(10).text(anschrift, left, ay, { width: 230 });
+
+  const kopf: [string, string][] = [
+    ["Reklamation:", reklamation.nummer],
+    ["Datum:", fmtDatum(reklamation.createdAt ?? new Date().toISOString())],
+    ...(lieferant?.lieferantNummer ? [["Lieferanten-Nr.:", lieferant.lieferantNummer] as [string, string]] : []),
+  ];
+  kopf.forEach(([label, wert], i) => {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, left + 260, startY + i * 13);
+    doc.font("Helvetica").text(wert, left + 360, startY + i * 13, { width: right - left - 360, align: 'right', lineBreak: false });
+  });
+
+  // Angaben zur Ware
+  let y = Math.max(doc.y, startY + 70) + 16;
+  doc.font("Helvetica-Bold").fontSize(11).text("Beanstandete Ware", left, y);
+  y += 18;
+  const zeilen: [string, string][] = [
+    ["Artikel", [reklamation.artikelNummer, reklamation.artikelName].filter(Boolean).join(" ") || "—"],
+    ["Charge", reklamation.chargeId],
+    ["MHD", reklamation.mhd ? fmtDatum(reklamation.mhd) : "—"],
+    ["Mangel", kategorieText[reklamation.kategorie] ?? reklamation.kategorie],
+    ["Beanstandetes Gewicht", kg(reklamation.menge)],
+    [
+      "Rücksendung",
+      reklamation.ruecksendung
+        ? `${kg(reklamation.ruecksendung.menge)} am ${fmtDatum(reklamation.ruecksendung.am)}`
+        : "keine",
+    ],
+  ];
+  for (const [label, wert] of zeilen) {
+    doc.font("Helvetica-Bold").fontSize(10).text(label, left, y, { width: 140 });
+    doc.font("Helvetica").text(wert, left + 150, y, { width: width - 150 });
+    y = Math.max(doc.y, y + 13) + 3;
+  }
+
+  if (reklamation.beschreibung) {
+    y += 8;
+    doc.font("Helvetica-Bold").fontSize(10).text("Beschreibung", left, y);
+    doc.font("Helvetica").fontSize(10).text(reklamation.beschreibung, left, doc.y + 2, { width });
+    y = doc.y + 4;
+  }
+
+  y += 12;
+  doc.font("Helvetica").fontSize(10).text(
+    reklamation.ruecksendung
+      ? "Die beanstandete Ware haben wir an Sie zurückgesandt. Wir bitten um Prüfung und Gutschrift bzw. Ersatzlieferung."
+      : "Wir bitten um Prüfung und Stellungnahme zu der beanstandeten Ware.",
+    left, y, { width }
+  );
+  y = doc.y + 16;
+
+  // Fotos: zwei je Zeile
+  if (fotos.length) {
+    const fotoW = (width - 15) / 2;
+    const fotoH = 170;
+    if (y + 20 + fotoH > bottomLimit) {
+      doc.addPage();
+      drawHeader(doc, { title: titel });
+      y = 120;
+    }
+    doc.font("Helvetica-Bold").fontSize(11).text(`Fotos (${fotos.length})`, left, y);
+    y += 18;
+    fotos.forEach((foto, i) => {
+      const spalte = i % 2;
+      if (spalte === 0 && i > 0) y += fotoH + 12;
+      if (spalte === 0 && y + fotoH > bottomLimit) {
+        doc.addPage();
+        drawHeader(doc, { title: titel });
+        y = 120;
+      }
+      const fx = left + spalte * (fotoW + 15);
+      try {
+        doc.image(foto, fx, y, { fit: [fotoW, fotoH], align: 'center', valign: 'center' });
+      } catch {
+        doc.font("Helvetica-Oblique").fontSize(8).text("Foto nicht darstellbar", fx, y + fotoH / 2, { width: fotoW, align: 'center' });
+      }
+    });
+  }
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    drawFooter(doc, undefined, FIRMEN_FOOTER);
+  }
+
+  return new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(buffers)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
 /**
  * Generiert mehrere Belege (einzeln) und liefert sie als Liste zurück.
  * Wichtig: Es wird **kein** Sammel-PDF erzeugt. Jede Ausgabe ist eine eigene PDF-Datei.
@@ -976,16 +2063,20 @@ export async function addBelegToAuftrag(
 ): Promise<BelegResource> {
   const auftrag = await Auftrag.findById(auftragId);
   if (!auftrag) throw new Error("Auftrag nicht gefunden");
+  if (beleg.status === "final") {
+    throw new Error("Finale Belege werden nur über die Finalisierung angelegt");
+  }
 
   const belegEntry: BelegResource = {
     ...beleg,
+    nummer: undefined, // Nummern vergibt ausschließlich die Finalisierung
     id: beleg.id ?? new Date().getTime().toString(),
     datum: beleg.datum ?? new Date().toISOString(),
     pdfGeneriert: beleg.pdfGeneriert ?? false,
   };
 
   auftrag.belegListe = auftrag.belegListe || [];
-  (auftrag.belegListe as any).push(belegEntry);
+  auftrag.belegListe.push(belegEntry);
   await auftrag.save();
 
   return belegEntry;
@@ -1022,7 +2113,7 @@ export async function getBelegeForAuftrag(
 ): Promise<BelegResource[]> {
   const auftrag = await Auftrag.findById(auftragId);
   if (!auftrag) throw new Error("Auftrag nicht gefunden");
-  return (auftrag.belegListe as any) || [];
+  return auftrag.belegListe || [];
 }
 
 /**
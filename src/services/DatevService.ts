@@ -0,0 +1,385 @@
+/**
+ * DatevService.ts
+ *
+ * DATEV-Export im EXTF-Format (Version 700) für den Steuerberater:
+ * - Buchungsstapel (Kategorie 21) aus finalisierten Belegen: Rechnung, Gutschrift,
+ *   Preisdifferenz, Stornorechnung – ein Buchungssatz je Beleg (Debitor an Erlöskonto)
+ * - Debitoren-Stammdaten (Kategorie 16) aus den Kunden
+ *
+ * Erlöskonten (SKR03-Automatikkonten) nach MwSt-Satz und Kundenland, per Umgebung überschreibbar.
+ * Bereits exportierte Belege werden protokolliert und bei erneutem Lauf nicht noch einmal gebucht.
+ */
+
+import { DateTime } from "luxon";
+import mongoose from "mongoose";
+import { BelegArchiv } from "../model/BelegArchivModel";
+import { DatevExport } from "../model/DatevExportModel";
+import { Kunde } from "../model/KundeModel";
+import { DatevExportArt, DatevExportResource, FinalBelegTyp } from "../Resources";
+import { EU_LAENDER, landZuIso, parseAdresse } from "./XRechnungService";
+
+const ZONE = "Europe/Berlin";
+
+/** Belegtypen, die gebucht werden (Lieferscheine sind nicht buchungsrelevant) */
+const BUCHUNGS_TYPEN: FinalBelegTyp[] = ["rechnung", "gutschrift", "preisdifferenz", "stornorechnung"];
+
+const TYP_LABEL: Record<FinalBelegTyp, string> = {
+  rechnung: "Rechnung",
+  gutschrift: "Gutschrift",
+  preisdifferenz: "Preisdifferenz",
+  lieferschein: "Lieferschein",
+  stornorechnung: "Storno",
+};
+
+const BUCHUNGSSTAPEL_SPALTEN = [
+  "Umsatz (ohne Soll/Haben-Kz)", "Soll/Haben-Kennzeichen", "WKZ Umsatz", "Kurs", "Basis-Umsatz",
+  "WKZ Basis-Umsatz", "Konto", "Gegenkonto (ohne BU-Schlüssel)", "BU-Schlüssel", "Belegdatum",
+  "Belegfeld 1", "Belegfeld 2", "Skonto", "Buchungstext", "Postensperre", "Diverse Adressnummer",
+  "Geschäftspartnerbank", "Sachverhalt", "Zinssperre", "Beleglink",
+  "Beleginfo - Art 1", "Beleginfo - Inhalt 1", "Beleginfo - Art 2", "Beleginfo - Inhalt 2",
+  "Beleginfo - Art 3", "Beleginfo - Inhalt 3", "Beleginfo - Art 4", "Beleginfo - Inhalt 4",
+  "Beleginfo - Art 5", "Beleginfo - Inhalt 5", "Beleginfo - Art 6", "Beleginfo - Inhalt 6",
+  "Beleginfo - Art 7", "Beleginfo - Inhalt 7", "Beleginfo - Art 8", "Beleginfo - Inhalt 8",
+  "KOST1 - Kostenstelle", "KOST2 - Kostenstelle", "Kost-Menge", "EU-Land u. UStID (Bestimmung)",
+  "EU-Steuersatz (Bestimmung)",
+];
+
+const DEBITOREN_SPALTEN = [
+  "Konto", "Name (Adressattyp Unternehmen)", "Unternehmensgegenstand", "Name (Adressattyp natürl. Person)",
+  "Vorname (Adressattyp natürl. Person)", "Name (Adressattyp keine Angabe)", "Adressattyp", "Kurzbezeichnung",
+  "EU-Land", "EU-UStID", "Anrede", "Titel/Akad. Grad", "Adelstitel", "Namensvorsatz", "Adressart", "Straße",
+  "Postfach", "Postleitzahl", "Ort", "Land", "Versandzusatz", "Adresszusatz", "Abweichende Anrede",
+  "Abw. Zustellbezeichnung 1", "Abw. Zustellbezeichnung 2", "Kennz. Korrespondenzadresse",
+  "Adresse Gültig von", "Adresse Gültig bis", "Telefon", "Bemerkung (Telefon)", "Telefon GL",
+  "Bemerkung (Telefon GL)", "E-Mail", "Bemerkung (E-Mail)", "Internet", "Bemerkung (Internet)",
+];
+
+/* ------------------------------ Konfiguration ----------------------------- */
+
+export type DatevConfig = {
+  beraternummer: string;
+  mandantennummer: string;
+  sachkontenlaenge: number;
+  skr: string;                 // "03" | "04"
+  wjBeginnMonat: number;       // 1 = Kalenderjahr
+  kontoErloes7: string;
+  kontoErloes19: string;
+  kontoErloesEu: string;       // steuerfreie innergemeinschaftliche Lieferung
+  kontoErloesDrittland: string; // steuerfreie Ausfuhr
+  debitorOffset: number;       // Debitor = Offset + Kundennummer (falls Kundennummer kein Debitorenkonto ist)
+};
+
+/**
+ * DATEV-Einstellungen aus der Umgebung (Standard: SKR03, Sachkontenlänge 4).
+ */
+export function getDatevConfig(): DatevConfig {
+  const env = process.env;
+  const sachkontenlaenge = env.DATEV_SACHKONTENLAENGE ? Number(env.DATEV_SACHKONTENLAENGE) : 4;
+  return {
+    beraternummer: env.DATEV_BERATERNUMMER || "",
+    mandantennummer: env.DATEV_MANDANTENNUMMER || "",
+    sachkontenlaenge,
+    skr: env.DATEV_SKR || "03",
+    wjBeginnMonat: env.DATEV_WJ_BEGINN_MONAT ? Number(env.DATEV_WJ_BEGINN_MONAT) : 1,
+    kontoErloes7: env.DATEV_KONTO_ERLOES_7 || "8300",
+    kontoErloes19: env.DATEV_KONTO_ERLOES_19 || "8400",
+    kontoErloesEu: env.DATEV_KONTO_ERLOES_EU || "8125",
+    kontoErloesDrittland: env.DATEV_KONTO_ERLOES_DRITTLAND || "8120",
+    debitorOffset: env.DATEV_DEBITOR_OFFSET ? Number(env.DATEV_DEBITOR_OFFSET) : 10 ** sachkontenlaenge,
+  };
+}
+
+/* --------------------------------- Helpers -------------------------------- */
+
+/** Textfeld: in Anführungszeichen, Anführungszeichen verdoppelt, auf Maximallänge gekürzt */
+function txt(s: unknown, max?: number): string {
+  let v = String(s ?? "").replace(/[\r\n;]+/g, " ").trim();
+  if (max) v = v.slice(0, max);
+  return `"${v.replace(/"/g, '""')}"`;
+}
+
+function betrag(n: number): string {
+  return (Math.round(Math.abs(n) * 100) / 100).toFixed(2).replace(".", ",");
+}
+
+function berlin(d: Date): DateTime {
+  return DateTime.fromJSDate(d, { zone: ZONE });
+}
+
+function csv(zeilen: string[][]): string {
+  return zeilen.map((z) => z.join(";")).join("\r\n") + "\r\n";
+}
+
+/** Beginn des Wirtschaftsjahres, in dem das Datum liegt */
+function wjBeginn(d: Date, cfg: DatevConfig): DateTime {
+  const dt = berlin(d);
+  const jahr = dt.month >= cfg.wjBeginnMonat ? dt.year : dt.year - 1;
+  return DateTime.fromObject({ year: jahr, month: cfg.wjBeginnMonat, day: 1 }, { zone: ZONE });
+}
+
+/**
+ * Debitorenkonto aus der Kundennummer. Debitoren liegen bei Sachkontenlänge n im Bereich
+ * 10^n … 7·10^n − 1 (z.B. 10000–69999). Liefert null, wenn keine gültige Nummer ableitbar ist.
+ */
+function debitorKonto(kundenNummer: string | undefined, cfg: DatevConfig): string | null {
+  const nr = (kundenNummer || "").trim();
+  if (!/^\d+$/.test(nr)) return null;
+  const min = 10 ** cfg.sachkontenlaenge;
+  const max = 7 * min - 1;
+  const n = Number(nr);
+  const konto = n >= min ? n : cfg.debitorOffset + n;
+  return konto >= min && konto <= max ? String(konto) : null;
+}
+
+/** Erlöskonto: Inland nach MwSt-Satz, EU steuerfreie ig. Lieferung, sonst Ausfuhr */
+function erloesKonto(mwstSatz: number, landIso: string, cfg: DatevConfig): string {
+  if (landIso !== "DE") {
+    return EU_LAENDER.includes(landIso) ? cfg.kontoErloesEu : cfg.kontoErloesDrittland;
+  }
+  if (mwstSatz === 7) return cfg.kontoErloes7;
+  if (mwstSatz === 19) return cfg.kontoErloes19;
+  throw new Error(`Kein Erlöskonto für MwSt-Satz ${mwstSatz} % konfiguriert`);
+}
+
+/** EXTF-Kopfzeile (Zeile 1) */
+function extfKopf(
+  kategorie: 21 | 16,
+  formatName: string,
+  formatVersion: number,
+  cfg: DatevConfig,
+  opts: { von?: Date; bis?: Date; bezeichnung?: string; userId?: string }
+): string[] {
+  if (!cfg.beraternummer || !cfg.mandantennummer) {
+    throw new Error("DATEV_BERATERNUMMER und DATEV_MANDANTENNUMMER müssen gesetzt sein");
+  }
+  const jetzt = DateTime.now().setZone(ZONE);
+  return [
+    txt("EXTF"),
+    "700",
+    String(kategorie),
+    txt(formatName),
+    String(formatVersion),
+    jetzt.toFormat("yyyyMMddHHmmssSSS"),
+    "",
+    txt("RE"),
+    txt(opts.userId || "", 25),
+    txt(""),
+    cfg.beraternummer,
+    cfg.mandantennummer,
+    wjBeginn(opts.von ?? new Date(), cfg).toFormat("yyyyMMdd"),
+    String(cfg.sachkontenlaenge),
+    opts.von ? berlin(opts.von).toFormat("yyyyMMdd") : "",
+    opts.bis ? berlin(opts.bis).toFormat("yyyyMMdd") : "",
+    txt(opts.bezeichnung || "", 30),
+    txt(""),
+    kategorie === 21 ? "1" : "",  // Buchungstyp: Finanzbuchführung
+    kategorie === 21 ? "0" : "",  // Rechnungslegungszweck
+    kategorie === 21 ? "0" : "",  // Festschreibung: nein
+    kategorie === 21 ? txt("EUR") : txt(""),
+    "",
+    txt(""),
+    "",
+    "",
+    txt(cfg.skr),
+    "",
+    "",
+    txt(""),
+    txt(""),
+  ];
+}
+
+function toResource(doc: any): DatevExportResource {
+  return {
+    id: doc._id.toString(),
+    art: doc.art,
+    von: doc.von ? new Date(doc.von).toISOString() : undefined,
+    bis: doc.bis ? new Date(doc.bis).toISOString() : undefined,
+    belegNummern: doc.belegNummern ?? [],
+    anzahlZeilen: doc.anzahlZeilen,
+    dateiname: doc.dateiname,
+    hinweise: doc.hinweise ?? [],
+    erstelltVon: doc.erstelltVon ?? undefined,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  };
+}
+
+/* ------------------------------- Öffentliche API ------------------------------- */
+
+/**
+ * Erstellt einen DATEV-Buchungsstapel für alle noch nicht exportierten, finalisierten Belege
+ * mit Belegdatum im Zeitraum. Der Zeitraum muss innerhalb eines Wirtschaftsjahres liegen.
+ * Ein Beleg ohne ableitbares Debitorenkonto bricht den Export ab (keine unvollständigen Stapel).
+ */
+export async function exportiereBuchungsstapel(
+  params: { von: Date; bis: Date },
+  userId?: string
+): Promise<DatevExportResource> {
+  const cfg = getDatevConfig();
+  const von = berlin(params.von).startOf("day");
+  const bis = berlin(params.bis).endOf("day");
+  if (von > bis) throw new Error("Zeitraum ungültig (von > bis)");
+  if (!wjBeginn(von.toJSDate(), cfg).equals(wjBeginn(bis.toJSDate(), cfg))) {
+    throw new Error("Der Zeitraum muss innerhalb eines Wirtschaftsjahres liegen");
+  }
+
+  const exportiert = await DatevExport.distinct("belege", { art: "buchungsstapel" });
+  const belege = await BelegArchiv.find({
+    typ: { $in: BUCHUNGS_TYPEN },
+    datum: { $gte: von.toJSDate(), $lte: bis.toJSDate() },
+    _id: { $nin: exportiert },
+  })
+    .select({ pdf: 0, positionen: 0 })
+    .sort({ datum: 1, nummer: 1 })
+    .lean();
+  if (!belege.length) throw new Error("Keine neuen Belege im Zeitraum");
+
+  const fehler: string[] = [];
+  const zeilen: string[][] = [];
+  for (const b of belege) {
+    const konto = debitorKonto(b.kunde?.kundenNummer, cfg);
+    if (!konto) {
+      fehler.push(`${b.nummer}: Kunde "${b.kunde?.name ?? b.kunde?.id}" hat keine gültige Kundennummer`);
+      continue;
+    }
+    const landIso = landZuIso(b.kunde?.land);
+    let gegenkonto: string;
+    try {
+      gegenkonto = erloesKonto(b.mwstSatz, landIso, cfg);
+    } catch (err: any) {
+      fehler.push(`${b.nummer}: ${err.message}`);
+      continue;
+    }
+
+    // Gutschriften werden positiv archiviert, Stornorechnungen negativ
+    const wirkung = b.typ === "gutschrift" ? -b.betragBrutto : b.betragBrutto;
+    const ustId = (b.kunde?.ustId || "").replace(/\s+/g, "");
+    const euUstId = landIso !== "DE" && EU_LAENDER.includes(landIso) ? ustId : "";
+    const buchungstext = [TYP_LABEL[b.typ], b.referenzBelegNummer ? `zu ${b.referenzBelegNummer}` : "", b.kunde?.name]
+      .filter(Boolean)
+      .join(" ");
+
+    const zeile = new Array(BUCHUNGSSTAPEL_SPALTEN.length).fill("");
+    zeile[0] = betrag(wirkung);
+    zeile[1] = txt(wirkung >= 0 ? "S" : "H");
+    zeile[2] = txt("EUR");
+    zeile[6] = konto;
+    zeile[7] = gegenkonto;
+    zeile[9] = berlin(b.datum).toFormat("ddMM");
+    zeile[10] = txt(b.nummer, 36);
+    zeile[13] = txt(buchungstext, 60);
+    zeile[39] = txt(euUstId, 15);
+    zeilen.push(zeile);
+  }
+  if (fehler.length) {
+    throw new Error(`DATEV-Export nicht möglich:\n${fehler.join("\n")}`);
+  }
+
+  const inhalt = csv([
+    extfKopf(21, "Buchungsstapel", 13, cfg, {
+      von: von.toJSDate(),
+      bis: bis.toJSDate(),
+      bezeichnung: `Belege ${von.toFormat("dd.MM.")}-${bis.toFormat("dd.MM.yyyy")}`,
+      userId,
+    }),
+    BUCHUNGSSTAPEL_SPALTEN.map((s) => txt(s)),
+    ...zeilen,
+  ]);
+
+  try {
+    const doc = await DatevExport.create({
+      art: "buchungsstapel",
+      von: von.toJSDate(),
+      bis: bis.toJSDate(),
+      belege: belege.map((b) => b._id),
+      belegNummern: belege.map((b) => b.nummer),
+      anzahlZeilen: zeilen.length,
+      dateiname: `EXTF_Buchungsstapel_${von.toFormat("yyyyMMdd")}_${bis.toFormat("yyyyMMdd")}.csv`,
+      inhalt,
+      hinweise: [],
+      erstelltVon: userId,
+    });
+    return toResource(doc);
+  } catch (err: any) {
+    if (err?.code === 11000) throw new Error("Belege wurden parallel bereits exportiert – bitte erneut ausführen");
+    throw err;
+  }
+}
+
+/**
+ * Exportiert die Debitoren-Stammdaten aller Kunden mit gültiger Kundennummer.
+ * Kunden ohne ableitbares Debitorenkonto werden übersprungen und als Hinweis protokolliert.
+ */
+export async function exportiereDebitoren(userId?: string): Promise<DatevExportResource> {
+  const cfg = getDatevConfig();
+  const kunden = await Kunde.find({})
+    .select({ name: 1, kundenNummer: 1, adresse: 1, land: 1, ustId: 1, telefon: 1, email: 1, website: 1 })
+    .sort({ kundenNummer: 1 })
+    .lean();
+
+  const hinweise: string[] = [];
+  const zeilen: string[][] = [];
+  for (const k of kunden) {
+    const konto = debitorKonto(k.kundenNummer, cfg);
+    if (!konto) {
+      hinweise.push(`Kunde "${k.name}" übersprungen: keine gültige Kundennummer`);
+      continue;
+    }
+    const adresse = parseAdresse(k.adresse);
+    const ustId = (k.ustId || "").replace(/\s+/g, "").toUpperCase();
+    const ustLand = /^[A-Z]{2}/.test(ustId) ? ustId.slice(0, 2) : "";
+
+    const zeile = new Array(DEBITOREN_SPALTEN.length).fill("");
+    zeile[0] = konto;
+    zeile[1] = txt(k.name, 50);
+    zeile[6] = "2"; // Adressattyp: Unternehmen
+    zeile[7] = txt(k.name, 15);
+    zeile[8] = txt(ustLand);
+    zeile[9] = txt(ustLand ? ustId.slice(2) : "", 13);
+    zeile[14] = txt("STR");
+    zeile[15] = txt(adresse.strasse, 36);
+    zeile[17] = txt(adresse.plz, 10);
+    zeile[18] = txt(adresse.ort, 30);
+    zeile[19] = txt(landZuIso(k.land));
+    zeile[28] = txt(k.telefon, 60);
+    zeile[32] = txt(k.email, 60);
+    zeile[34] = txt(k.website, 60);
+    zeilen.push(zeile);
+  }
+  if (!zeilen.length) throw new Error("Keine Kunden mit gültiger Kundennummer vorhanden");
+
+  const inhalt = csv([
+    extfKopf(16, "Debitoren/Kreditoren", 5, cfg, { bezeichnung: "Debitoren", userId }),
+    DEBITOREN_SPALTEN.map((s) => txt(s)),
+    ...zeilen,
+  ]);
+
+  const doc = await DatevExport.create({
+    art: "debitoren",
+    belege: [],
+    belegNummern: [],
+    anzahlZeilen: zeilen.length,
+    dateiname: `EXTF_Debitoren_${DateTime.now().setZone(ZONE).toFormat("yyyyMMdd")}.csv`,
+    inhalt,
+    hinweise,
+    erstelltVon: userId,
+  });
+  return toResource(doc);
+}
+
+export async function listDatevExporte(params: { art?: DatevExportArt } = {}): Promise<DatevExportResource[]> {
+  const q: Record<string, any> = {};
+  if (params.art) q.art = params.art;
+  const docs = await DatevExport.find(q).select({ inhalt: 0 }).sort({ createdAt: -1 }).lean();
+  return docs.map(toResource);
+}
+
+/**
+ * Datei eines Exports (Windows-1252, wie von DATEV erwartet).
+ */
+export async function getDatevExportDatei(id: string): Promise<{ datei: Buffer; dateiname: string }> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const doc = await DatevExport.findById(id).lean();
+  if (!doc) throw new Error("Export nicht gefunden");
+  const ansi = doc.inhalt.replace(/[^\u0000-\u00ff]/g, "?");
+  return { datei: Buffer.from(ansi, "latin1"), dateiname: doc.dateiname };
+}
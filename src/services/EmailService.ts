@@ -70,6 +70,8 @@ interface LieferscheinEmailData {
   }>;
   fahrer?: string;
   fahrzeug?: string;
+  pdfBuffer?: Buffer;            // Lieferschein
+  zustellnachweisPdf?: Buffer;   // nur wenn der Stop bereits abgeschlossen ist
 }
 
 // --- Basis Email-Styles ---
@@ -496,7 +498,7 @@ export async function sendFehlmengenEmail(
 export async function sendLieferscheinEmail(
   data: LieferscheinEmailData
 ): Promise<void> {
-  const { kundenEmail, kundenName, auftragNummer, lieferDatum, lieferAdresse, positionen, fahrer, fahrzeug } = data;
+  const { kundenEmail, kundenName, auftragNummer, lieferDatum, lieferAdresse, positionen, fahrer, fahrzeug, pdfBuffer, zustellnachweisPdf } = data;
 
   const positionenRows = positionen
     .map(
@@ -589,7 +591,9 @@ export async function sendLieferscheinEmail(
 
     <div style="background:#f0fdf4;border-radius:8px;padding:12px 16px;margin:20px 0;">
       <p style="margin:0;font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;font-size:13px;color:#166534;">
-        <strong>Lieferschein im Anhang:</strong> Den vollständigen Lieferschein finden Sie als PDF im Anhang dieser E-Mail.
+        <strong>Lieferschein im Anhang:</strong> Den vollständigen Lieferschein finden Sie als PDF im Anhang dieser E-Mail.${
+          zustellnachweisPdf ? " Der Zustellnachweis mit Ihrer Empfangsbestätigung liegt ebenfalls bei." : ""
+        }
       </p>
     </div>
 
@@ -621,15 +625,28 @@ export async function sendLieferscheinEmail(
     ...positionen.map((p) => `- ${p.artikelName}: ${p.menge} ${p.einheit}`),
     "",
     "Den vollständigen Lieferschein finden Sie als PDF im Anhang.",
+    zustellnachweisPdf ? "Der Zustellnachweis liegt ebenfalls bei." : "",
     "© Hacilar",
   ]
     .filter(Boolean)
     .join("\n");
 
-  // Hinweis: Anhänge (Lieferschein PDF) werden später hinzugefügt
+  const attachments: nodemailer.SendMailOptions["attachments"] = [];
+  const pdfFilename = pdfBuffer ? `Lieferschein_${auftragNummer}.pdf` : undefined;
+  if (pdfBuffer) {
+    attachments.push({ filename: pdfFilename, content: pdfBuffer, contentType: "application/pdf" });
+  }
+  if (zustellnachweisPdf) {
+    attachments.push({
+      filename: `Zustellnachweis_${auftragNummer}.pdf`,
+      content: zustellnachweisPdf,
+      contentType: "application/pdf",
+    });
+  }
+
   const subject = `Ihre Lieferung – Auftrag ${auftragNummer}`;
   try {
-    const messageId = await sendEmail(kundenEmail, subject, html, text);
+    const messageId = await sendEmail(kundenEmail, subject, html, text, attachments);
     logEmail({
       empfaenger: [kundenEmail],
       betreff: subject,
@@ -639,6 +656,8 @@ export async function sendLieferscheinEmail(
       kundenName,
       belegTyp: "lieferschein",
       messageId: messageId || undefined,
+      pdfBase64: pdfBuffer ? pdfBuffer.toString("base64") : undefined,
+      pdfFilename,
     });
   } catch (err: any) {
     logEmail({
@@ -1040,5 +1059,133 @@ export async function sendLeergutEmail(data: {
   }
 }
 
+// ============================================================
+// 7. MAHNUNG EMAIL
+// ============================================================
+export async function sendMahnungEmail(data: {
+  kundenEmail: string;
+  kundenName: string;
+  betreff: string;
+  text: string;             // Anschreiben (Platzhalter bereits ersetzt)
+  pdfBuffer: Buffer;
+  pdfFilename: string;
+}): Promise<void> {
+  const { kundenEmail, kundenName, betreff, text, pdfBuffer, pdfFilename } = data;
+
+  const absaetze = text
+    .split(/\n{2,}/)
+    .map((a) => `<p>${a.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/\n/g, "<br/>")}</p>`)
+    .join("");
+  const html = `
+    <div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;">
+      ${absaetze}
+      <p>Das Mahnschreiben finden Sie im Anhang.</p>
+      <br/>
+      <p>Mit freundlichen Grüßen<br/>Buchhaltung<br/>Hacilar Helal Et Kombinasi</p>
+    </div>
+  `;
+  const plain = [text, ``, `Das Mahnschreiben finden Sie im Anhang.`, ``, `Mit freundlichen Grüßen`, `Hacilar Helal Et Kombinasi`].join("\n");
+
+  const attachments: nodemailer.SendMailOptions["attachments"] = [
+    { filename: pdfFilename, content: pdfBuffer, contentType: "application/pdf" as const },
+  ];
+
+  try {
+    const messageId = await sendEmail(kundenEmail, betreff, html, plain, attachments);
+    logEmail({
+      empfaenger: [kundenEmail],
+      betreff,
+      typ: "mahnung",
+      status: "gesendet",
+      kundenName,
+      messageId: messageId || undefined,
+      pdfBase64: pdfBuffer.toString("base64"),
+      pdfFilename,
+    });
+  } catch (err: any) {
+    logEmail({
+      empfaenger: [kundenEmail],
+      betreff,
+      typ: "mahnung",
+      status: "fehlgeschlagen",
+      fehler: err?.message || "Unbekannter Fehler",
+      kundenName,
+    });
+    throw err;
+  }
+}
+
+// ============================================================
+// 8. LEERGUT-KONTOAUSZUG EMAIL
+// ============================================================
+export async function sendLeergutKontoauszugEmail(data: {
+  kundenEmail: string;
+  kundenName: string;
+  betreff: string;
+  zeitraum: string;         // z.B. "September 2026"
+  salden: { bezeichnung: string; saldo: number }[];
+  pdfBuffer: Buffer;
+  pdfFilename: string;
+  laufKey?: string;         // Kennung des Monatslaufs je Kunde (Duplikatprüfung)
+}): Promise<void> {
+  const { kundenEmail, kundenName, betreff, zeitraum, salden, pdfBuffer, pdfFilename, laufKey } = data;
+
+  const html = `
+    <div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;">
+      <p>Sehr geehrte Damen und Herren,</p>
+      <p>anbei erhalten Sie den Leergut-Kontoauszug für <strong>${kundenName}</strong> (${zeitraum}).</p>
+      <p>Ihr aktueller Leergutbestand:</p>
+      <ul>${salden.map((s) => `<li>${s.bezeichnung}: <strong>${s.saldo}</strong></li>`).join("")}</ul>
+      <p>Bitte prüfen Sie den Auszug und informieren Sie uns bei Abweichungen umgehend.</p>
+      <br/>
+      <p>Mit freundlichen Grüßen<br/>Buchhaltung<br/>Hacilar Helal Et Kombinasi</p>
+    </div>
+  `;
+
+  const text = [
+    `Sehr geehrte Damen und Herren,`,
+    ``,
+    `anbei erhalten Sie den Leergut-Kontoauszug für ${kundenName} (${zeitraum}).`,
+    ``,
+    `Ihr aktueller Leergutbestand:`,
+    ...salden.map((s) => `- ${s.bezeichnung}: ${s.saldo}`),
+    ``,
+    `Bitte prüfen Sie den Auszug und informieren Sie uns bei Abweichungen umgehend.`,
+    ``,
+    `Mit freundlichen Grüßen`,
+    `Hacilar Helal Et Kombinasi`,
+  ].join("\n");
+
+  const attachments: nodemailer.SendMailOptions["attachments"] = [
+    { filename: pdfFilename, content: pdfBuffer, contentType: "application/pdf" as const },
+  ];
+
+  try {
+    const messageId = await sendEmail(kundenEmail, betreff, html, text, attachments);
+    await logEmail({
+      empfaenger: [kundenEmail],
+      betreff,
+      typ: "leergut",
+      status: "gesendet",
+      kundenName,
+      messageId: messageId || undefined,
+      pdfBase64: pdfBuffer.toString("base64"),
+      pdfFilename,
+      laufKey,
+    });
+  } catch (err: any) {
+    await logEmail({
+      empfaenger: [kundenEmail],
+      betreff,
+      typ: "leergut",
+      status: "fehlgeschlagen",
+      fehler: err?.message || "Unbekannter Fehler",
+      kundenName,
+      laufKey,
+    });
+    throw err;
+  }
+}
+
 // --- Export des Transporters für Tests ---
 export { transporter, canSendEmail };
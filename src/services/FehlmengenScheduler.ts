@@ -4,35 +4,44 @@
  * Verwaltet die verzögerte Fehlmengen-Benachrichtigung.
  * - Sammelt Fehlmengen pro Auftrag
  * - Sendet 1 Stunde nach der letzten Kommissionierung die E-Mail
+ * - Ausstehende Benachrichtigungen liegen als Job in der persistenten Job-Queue
+ *   (überleben Neustarts/Deployments, Fehlversuche werden wiederholt)
  */
 
 import { Auftrag } from "../model/AuftragModel";
 import { Kunde } from "../model/KundeModel";
+import { logger } from "../logger";
 import { sendFehlmengenEmail } from "./EmailService";
 import { generateBelegPdf } from "./BelegService";
-
-// Speicher für ausstehende Fehlmengen-Benachrichtigungen
-// Key: auftragId, Value: { timer, positionen }
-interface FehlmengenEntry {
-  timer: NodeJS.Timeout;
-  positionen: Array<{
-    positionId: string;
-    artikelName: string;
-    bestellteMenge: number;
-    gelieferteMenge: number;
-    einheit: string;
-    differenz: number;
-  }>;
+import {
+  registerJobHandler,
+  addJobPayloadItem,
+  removeJobPayloadItem,
+  getOpenJob,
+  runJobNow,
+  cancelJobs,
+  countOpenJobs,
+} from "./JobQueueService";
+
+// Job-Typ in der Job-Queue, Key = auftragId
+const FEHLMENGEN_JOB = "fehlmengen-email";
+
+interface FehlmengenPosition {
+  positionId: string;
+  artikelName: string;
+  bestellteMenge: number;
+  gelieferteMenge: number;
+  einheit: string;
+  differenz: number;
 }
 
-interface FehlmengenEntryWithMeta extends FehlmengenEntry {
-  startedAt: number; // Timestamp wann Timer gestartet wurde
+interface FehlmengenPayload {
+  auftragId: string;
+  positionen: FehlmengenPosition[];
 }
 
-const pendingNotifications = new Map<string, FehlmengenEntryWithMeta>();
-
-// Verzögerung: 1 Minute für Tests (später auf 60 * 60 * 1000 für 1 Stunde ändern)
-const DELAY_MS = 60 * 60 * 1000; // 1 Minute (Test)
+// Verzögerung: 1 Stunde nach der letzten registrierten Fehlmenge
+const DELAY_MS = 60 * 60 * 1000;
 
 /**
  * Prüft ob eine Fehlmenge vorliegt (30% Abweichung)
@@ -49,7 +58,7 @@ export function hasFehlmenge(bestellteMenge: number, gelieferteMenge: number): b
 
 /**
  * Registriert eine Fehlmenge für einen Auftrag.
- * Startet/resettet den Timer für die E-Mail-Benachrichtigung.
+ * Legt den Job an bzw. verschiebt dessen Ausführungszeitpunkt.
  */
 export async function registerFehlmenge(
   auftragId: string,
@@ -81,7 +90,7 @@ export async function registerFehlmenge(
     return;
   }
 
-  const positionData = {
+  const positionData: FehlmengenPosition = {
     positionId,
     artikelName,
     bestellteMenge,
@@ -90,118 +99,89 @@ export async function registerFehlmenge(
     differenz,
   };
 
-  // Bestehenden Timer löschen falls vorhanden
-  const existing = pendingNotifications.get(auftragId);
-  if (existing) {
-    clearTimeout(existing.timer);
-
-    // Position aktualisieren oder hinzufügen
-    const idx = existing.positionen.findIndex(p => p.positionId === positionId);
-    if (idx >= 0) {
-      existing.positionen[idx] = positionData;
-    } else {
-      existing.positionen.push(positionData);
-    }
-
-    // Neuen Timer starten
-    existing.timer = setTimeout(() => sendFehlmengenNotification(auftragId), DELAY_MS);
-    existing.startedAt = Date.now();
-  } else {
-    // Neuen Eintrag erstellen
-    const timer = setTimeout(() => sendFehlmengenNotification(auftragId), DELAY_MS);
-    pendingNotifications.set(auftragId, {
-      timer,
-      positionen: [positionData],
-      startedAt: Date.now(),
-    });
-    console.log("[Fehlmengen] Neuer Timer gestartet für Auftrag:", auftragId, "Delay:", DELAY_MS, "ms");
-  }
-  console.log("[Fehlmengen] Anzahl ausstehender Timer:", pendingNotifications.size);
+  // Position atomar im wartenden Job ergänzen/ersetzen, Timer (runAt) startet neu
+  await addJobPayloadItem({
+    typ: FEHLMENGEN_JOB,
+    key: auftragId,
+    liste: "positionen",
+    idFeld: "positionId",
+    item: positionData,
+    payload: { auftragId },
+    runAt: new Date(Date.now() + DELAY_MS),
+  });
+  logger.debug(`[Fehlmengen] Job geplant für Auftrag ${auftragId} (Delay ${DELAY_MS} ms)`);
 }
 
 /**
  * Entfernt eine Position aus der Fehlmengen-Liste
  * (z.B. wenn die Menge korrigiert wurde)
  */
-export function removeFehlmenge(auftragId: string, positionId: string): void {
-  const existing = pendingNotifications.get(auftragId);
-  if (!existing) return;
-
-  existing.positionen = existing.positionen.filter(p => p.positionId !== positionId);
+export async function removeFehlmenge(auftragId: string, positionId: string): Promise<void> {
+  // Keine Fehlmengen mehr → Job wird abgebrochen; sonst bleibt der Ausführungszeitpunkt unverändert
+  await removeJobPayloadItem(FEHLMENGEN_JOB, auftragId, "positionen", "positionId", positionId);
+}
 
-  if (existing.positionen.length === 0) {
-    // Keine Fehlmengen mehr → Timer abbrechen
-    clearTimeout(existing.timer);
-    pendingNotifications.delete(auftragId);
-  }
+/** Je positionId nur der zuletzt registrierte Eintrag (parallele Registrierungen) */
+function eindeutigePositionen(positionen: FehlmengenPosition[]): FehlmengenPosition[] {
+  const map = new Map<string, FehlmengenPosition>();
+  for (const p of positionen) map.set(p.positionId, p);
+  return Array.from(map.values());
 }
 
 /**
- * Sendet die Fehlmengen-Benachrichtigung
+ * Sendet die Fehlmengen-Benachrichtigung (Job-Handler).
+ * Fehler beim Versand werden geworfen → die Job-Queue wiederholt den Versuch.
  */
-async function sendFehlmengenNotification(auftragId: string): Promise<void> {
-  const entry = pendingNotifications.get(auftragId);
-  if (!entry || entry.positionen.length === 0) {
-    pendingNotifications.delete(auftragId);
-    return;
-  }
+async function sendFehlmengenNotification(payload: FehlmengenPayload): Promise<void> {
+  const { auftragId } = payload ?? ({} as FehlmengenPayload);
+  const positionen = eindeutigePositionen(payload?.positionen ?? []);
+  if (!auftragId || positionen.length === 0) return;
 
-  try {
-    const auftrag = await Auftrag.findById(auftragId);
-    if (!auftrag) {
-      pendingNotifications.delete(auftragId);
-      return;
-    }
+  const auftrag = await Auftrag.findById(auftragId);
+  if (!auftrag) return;
 
-    const kunde = await Kunde.findById(auftrag.kunde);
-    if (!kunde || !kunde.email) {
-      pendingNotifications.delete(auftragId);
-      return;
-    }
+  const kunde = await Kunde.findById(auftrag.kunde);
+  if (!kunde || !kunde.email) return;
 
-    // Nochmal prüfen ob Kunde die Benachrichtigung noch aktiviert hat
-    if (!kunde.fehlmengenBenachrichtigung) {
-      pendingNotifications.delete(auftragId);
-      return;
-    }
+  // Nochmal prüfen ob Kunde die Benachrichtigung noch aktiviert hat
+  if (!kunde.fehlmengenBenachrichtigung) return;
 
-    // Lieferschein-PDF generieren
-    const pdfBuffer = await generateBelegPdf(auftragId, "lieferschein");
+  // Lieferschein-PDF generieren
+  const pdfBuffer = await generateBelegPdf(auftragId, "lieferschein");
 
-    // E-Mail senden
-    await sendFehlmengenEmail({
-      kundenEmail: kunde.email,
-      kundenName: kunde.name,
-      auftragNummer: auftrag.auftragsnummer,
-      positionen: entry.positionen.map(p => ({
-        artikelName: p.artikelName,
-        bestellteMenge: p.bestellteMenge,
-        gelieferteMenge: p.gelieferteMenge,
-        einheit: p.einheit,
-        differenz: p.differenz,
-      })),
-      pdfBuffer,
-    });
-  } catch {
-    // Fehler beim Senden ignorieren
-  } finally {
-    pendingNotifications.delete(auftragId);
-  }
+  // E-Mail senden
+  await sendFehlmengenEmail({
+    kundenEmail: kunde.email,
+    kundenName: kunde.name,
+    auftragNummer: auftrag.auftragsnummer,
+    positionen: positionen.map(p => ({
+      artikelName: p.artikelName,
+      bestellteMenge: p.bestellteMenge,
+      gelieferteMenge: p.gelieferteMenge,
+      einheit: p.einheit,
+      differenz: p.differenz,
+    })),
+    pdfBuffer,
+  });
 }
 
+registerJobHandler(FEHLMENGEN_JOB, sendFehlmengenNotification);
+
 /**
  * Gibt die Anzahl ausstehender Benachrichtigungen zurück (für Debugging/Monitoring)
  */
-export function getPendingCount(): number {
-  return pendingNotifications.size;
+export async function getPendingCount(): Promise<number> {
+  return countOpenJobs(FEHLMENGEN_JOB);
 }
 
 /**
  * Gibt den Timer-Status für einen Auftrag zurück
  */
-export function getFehlmengenStatus(auftragId: string): {
+export async function getFehlmengenStatus(auftragId: string): Promise<{
   hasPending: boolean;
   remainingMs?: number;
+  attempts?: number;
+  lastError?: string;
   positionen?: Array<{
     artikelName: string;
     bestellteMenge: number;
@@ -209,19 +189,21 @@ export function getFehlmengenStatus(auftragId: string): {
     einheit: string;
     differenz: number;
   }>;
-} {
-  const entry = pendingNotifications.get(auftragId);
-  if (!entry) {
+}> {
+  const job = await getOpenJob(FEHLMENGEN_JOB, auftragId);
+  if (!job) {
     return { hasPending: false };
   }
 
-  const elapsed = Date.now() - entry.startedAt;
-  const remainingMs = Math.max(0, DELAY_MS - elapsed);
+  const remainingMs = Math.max(0, new Date(job.runAt).getTime() - Date.now());
+  const positionen = eindeutigePositionen(job.payload?.positionen ?? []);
 
   return {
     hasPending: true,
     remainingMs,
-    positionen: entry.positionen.map(p => ({
+    attempts: job.attempts,
+    lastError: job.lastError,
+    positionen: positionen.map(p => ({
       artikelName: p.artikelName,
       bestellteMenge: p.bestellteMenge,
       gelieferteMenge: p.gelieferteMenge,
@@ -233,41 +215,31 @@ export function getFehlmengenStatus(auftragId: string): {
 
 /**
  * Sendet die Fehlmengen-Email sofort (ohne auf Timer zu warten)
+ * @returns false wenn kein ausstehender Job existiert
+ * @throws Error wenn der Versand fehlschlägt (Job bleibt zur Wiederholung eingeplant)
  */
 export async function sendFehlmengenNow(auftragId: string): Promise<boolean> {
-  const entry = pendingNotifications.get(auftragId);
-  if (!entry || entry.positionen.length === 0) {
+  const job = await runJobNow(FEHLMENGEN_JOB, auftragId);
+  if (!job) {
     return false;
   }
-
-  // Timer stoppen
-  clearTimeout(entry.timer);
-
-  // Sofort senden
-  await sendFehlmengenNotification(auftragId);
+  if (job.status !== "DONE") {
+    throw new Error(job.lastError || "Fehlmengen-Email konnte nicht gesendet werden");
+  }
   return true;
 }
 
 /**
  * Bricht den Timer ab ohne Email zu senden
  */
-export function cancelFehlmengenTimer(auftragId: string): boolean {
-  const entry = pendingNotifications.get(auftragId);
-  if (!entry) {
-    return false;
-  }
-
-  clearTimeout(entry.timer);
-  pendingNotifications.delete(auftragId);
-  return true;
+export async function cancelFehlmengenTimer(auftragId: string): Promise<boolean> {
+  const count = await cancelJobs(FEHLMENGEN_JOB, auftragId);
+  return count > 0;
 }
 
 /**
- * Löscht alle ausstehenden Benachrichtigungen (für Tests/Shutdown)
+ * Bricht alle ausstehenden Benachrichtigungen ab (für Tests/Shutdown)
  */
-export function clearAll(): void {
-  for (const [, entry] of pendingNotifications) {
-    clearTimeout(entry.timer);
-  }
-  pendingNotifications.clear();
+export async function clearAll(): Promise<void> {
+  await cancelJobs(FEHLMENGEN_JOB);
 }
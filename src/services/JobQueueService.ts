@@ -0,0 +1,429 @@
+/**
+ * JobQueueService.ts
+ *
+ * Persistente Job-Queue auf Basis von MongoDB.
+ * - Jobs werden mit runAt geplant und überleben Neustarts/Deployments
+ * - Locking per atomarem findOneAndUpdate → ein Job läuft nur in einem Prozess
+ * - Fehlgeschlagene Jobs werden mit exponentiellem Backoff erneut versucht
+ * - Abgelaufene Locks (z.B. Prozess abgestürzt) werden wieder freigegeben
+ */
+
+import os from "os";
+import { FilterQuery, UpdateQuery } from "mongoose";
+import { Job, IJob } from "../model/JobModel";
+import { JobResource, JobStatus } from "../Resources";
+import { logger } from "../logger";
+
+export type JobHandler = (payload: any, job: JobResource) => Promise<void>;
+
+const handlers = new Map<string, JobHandler>();
+
+// Eindeutige ID dieses Prozesses (für lockedBy)
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const POLL_INTERVAL_MS = 15 * 1000;      // alle 15 Sekunden fällige Jobs prüfen
+const LOCK_DURATION_MS = 5 * 60 * 1000;  // Lock gilt 5 Minuten
+const BACKOFF_BASE_MS = 60 * 1000;       // 1 min, 2 min, 4 min, ...
+const BACKOFF_MAX_MS = 60 * 60 * 1000;   // höchstens 1 Stunde
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function toISODate(d?: Date | string | null): string | undefined {
+  if (!d) return undefined;
+  const dt = typeof d === "string" ? new Date(d) : d;
+  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
+}
+
+function toResource(doc: any): JobResource {
+  return {
+    id: doc._id.toString(),
+    typ: doc.typ,
+    key: doc.key ?? undefined,
+    payload: doc.payload ?? undefined,
+    status: doc.status,
+    runAt: toISODate(doc.runAt)!,
+    attempts: Number(doc.attempts ?? 0),
+    maxAttempts: Number(doc.maxAttempts ?? 0),
+    lockedBy: doc.lockedBy ?? undefined,
+    lockedUntil: toISODate(doc.lockedUntil),
+    lastError: doc.lastError ?? undefined,
+    startedAt: toISODate(doc.startedAt),
+    finishedAt: toISODate(doc.finishedAt),
+    createdAt: toISODate(doc.createdAt),
+    updatedAt: toISODate(doc.updatedAt),
+  };
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/** Filter für "offene" Jobs: wartend oder laufend */
+const OPEN_STATUS: JobStatus[] = ["PENDING", "RUNNING"];
+
+function isDuplicateKey(err: any): boolean {
+  return err?.code === 11000;
+}
+
+/**
+ * Aktualisiert den wartenden Job zu typ+key atomar bzw. legt ihn an.
+ * Der eindeutige Index (max. 1 wartender Job je typ+key) verhindert Doppelte;
+ * verliert ein paralleles Upsert das Rennen, wird es als Update wiederholt.
+ */
+async function upsertPendingJob(typ: string, key: string, update: UpdateQuery<IJob>): Promise<any> {
+  const filter = { typ, key, status: "PENDING" };
+  const options = { upsert: true, new: true, setDefaultsOnInsert: false };
+  try {
+    return await Job.findOneAndUpdate(filter, update, options);
+  } catch (err: any) {
+    if (!isDuplicateKey(err)) throw err;
+    return Job.findOneAndUpdate(filter, update, options);
+  }
+}
+
+/* ------------------------------ Registrierung ----------------------------- */
+
+/**
+ * Registriert den Handler für einen Job-Typ.
+ * Muss beim Laden des jeweiligen Moduls aufgerufen werden.
+ */
+export function registerJobHandler(typ: string, handler: JobHandler): void {
+  handlers.set(typ, handler);
+}
+
+/* --------------------------------- Planen --------------------------------- */
+
+export type ScheduleJobDTO = {
+  typ: string;
+  key?: string;
+  payload?: any;
+  runAt?: Date;        // default: sofort
+  maxAttempts?: number;
+};
+
+/**
+ * Plant einen neuen Job ein.
+ * Existiert für typ+key bereits ein wartender Job, wird dieser aktualisiert (payload/runAt).
+ */
+export async function scheduleJob(data: ScheduleJobDTO): Promise<JobResource> {
+  const runAt = data.runAt ?? new Date();
+
+  if (data.key) {
+    const doc = await upsertPendingJob(data.typ, data.key, {
+      $set: {
+        payload: data.payload ?? {},
+        runAt,
+        ...(data.maxAttempts ? { maxAttempts: data.maxAttempts } : {}),
+      },
+      $setOnInsert: data.maxAttempts ? { attempts: 0 } : { attempts: 0, maxAttempts: 5 },
+    });
+    return toResource(doc);
+  }
+
+  const created = await new Job({
+    typ: data.typ,
+    payload: data.payload ?? {},
+    status: "PENDING",
+    runAt,
+    attempts: 0,
+    maxAttempts: data.maxAttempts ?? 5,
+  }).save();
+  return toResource(created);
+}
+
+export type JobPayloadItemDTO = {
+  typ: string;
+  key: string;
+  liste: string;                 // Feld im Payload, z.B. "positionen"
+  idFeld: string;                // Schlüssel der Elemente, z.B. "positionId"
+  item: Record<string, any>;
+  payload?: Record<string, any>; // weitere Payload-Felder (werden gesetzt)
+  runAt?: Date;                  // default: sofort
+  maxAttempts?: number;
+};
+
+/**
+ * Ergänzt ein Element in einer Liste des wartenden Jobs zu typ+key ($addToSet) und legt
+ * den Job bei Bedarf an. Ein vorhandenes Element mit gleicher ID wird vorher entfernt,
+ * runAt wird neu gesetzt. Parallele Aufrufe gehen so nicht verloren.
+ */
+export async function addJobPayloadItem(data: JobPayloadItemDTO): Promise<JobResource> {
+  const listPfad = `payload.${data.liste}`;
+  const id = data.item[data.idFeld];
+
+  await Job.updateOne(
+    { typ: data.typ, key: data.key, status: "PENDING" },
+    { $pull: { [listPfad]: { [data.idFeld]: id } } }
+  );
+
+  const payloadFelder: Record<string, any> = {};
+  for (const [feld, wert] of Object.entries(data.payload ?? {})) {
+    if (feld !== data.liste) payloadFelder[`payload.${feld}`] = wert;
+  }
+
+  const doc = await upsertPendingJob(data.typ, data.key, {
+    $addToSet: { [listPfad]: data.item },
+    $set: {
+      ...payloadFelder,
+      runAt: data.runAt ?? new Date(),
+      ...(data.maxAttempts ? { maxAttempts: data.maxAttempts } : {}),
+    },
+    $setOnInsert: data.maxAttempts ? { attempts: 0 } : { attempts: 0, maxAttempts: 5 },
+  });
+  return toResource(doc);
+}
+
+/**
+ * Entfernt ein Element aus der Liste des wartenden Jobs zu typ+key.
+ * Ist die Liste danach leer, wird der Job abgebrochen. runAt bleibt unverändert.
+ * @returns true wenn der Job dadurch abgebrochen wurde
+ */
+export async function removeJobPayloadItem(
+  typ: string,
+  key: string,
+  liste: string,
+  idFeld: string,
+  id: unknown
+): Promise<boolean> {
+  const listPfad = `payload.${liste}`;
+  await Job.updateOne({ typ, key, status: "PENDING" }, { $pull: { [listPfad]: { [idFeld]: id } } });
+  const res = await Job.updateMany(
+    { typ, key, status: "PENDING", [listPfad]: { $size: 0 } },
+    { $set: { status: "CANCELLED", finishedAt: new Date() } }
+  );
+  return res.modifiedCount > 0;
+}
+
+/* --------------------------------- Abfragen -------------------------------- */
+
+/** Offenen (PENDING/RUNNING) Job zu typ+key laden */
+export async function getOpenJob(typ: string, key: string): Promise<JobResource | null> {
+  const doc = await Job.findOne({ typ, key, status: { $in: OPEN_STATUS } }).sort({ createdAt: -1 });
+  return doc ? toResource(doc) : null;
+}
+
+export async function getJobById(id: string): Promise<JobResource | null> {
+  const doc = await Job.findById(id);
+  return doc ? toResource(doc) : null;
+}
+
+export async function countOpenJobs(typ?: string): Promise<number> {
+  const filter: FilterQuery<IJob> = { status: { $in: OPEN_STATUS } };
+  if (typ) filter.typ = typ;
+  return Job.countDocuments(filter);
+}
+
+export async function listJobs(params?: {
+  typ?: string;
+  key?: string;
+  status?: JobStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ items: JobResource[]; total: number; page: number; limit: number }> {
+  const page = Math.max(1, params?.page ?? 1);
+  const limit = Math.min(200, Math.max(1, params?.limit ?? 50));
+  const skip = (page - 1) * limit;
+
+  const filter: FilterQuery<IJob> = {};
+  if (params?.typ) filter.typ = params.typ;
+  if (params?.key) filter.key = params.key;
+  if (params?.status) filter.status = params.status;
+
+  const [docs, total] = await Promise.all([
+    Job.find(filter).sort({ runAt: -1 }).skip(skip).limit(limit),
+    Job.countDocuments(filter),
+  ]);
+
+  return { items: docs.map(toResource), total, page, limit };
+}
+
+/* ------------------------------ Statusänderung ----------------------------- */
+
+/**
+ * Bricht einen wartenden Job ab. Laufende Jobs werden nicht unterbrochen.
+ * @returns true wenn ein Job abgebrochen wurde
+ */
+export async function cancelJob(id: string): Promise<boolean> {
+  const res = await Job.updateOne(
+    { _id: id, status: "PENDING" },
+    { $set: { status: "CANCELLED", finishedAt: new Date() } }
+  );
+  return res.modifiedCount > 0;
+}
+
+/** Bricht alle wartenden Jobs zu typ(+key) ab. */
+export async function cancelJobs(typ: string, key?: string): Promise<number> {
+  const filter: FilterQuery<IJob> = { typ, status: "PENDING" };
+  if (key) filter.key = key;
+  const res = await Job.updateMany(filter, { $set: { status: "CANCELLED", finishedAt: new Date() } });
+  return res.modifiedCount;
+}
+
+/**
+ * Setzt einen fehlgeschlagenen oder abgebrochenen Job zurück auf PENDING (sofort fällig).
+ */
+export async function retryJob(id: string): Promise<JobResource | null> {
+  try {
+    const doc = await Job.findOneAndUpdate(
+      { _id: id, status: { $in: ["FAILED", "CANCELLED"] } },
+      {
+        $set: { status: "PENDING", runAt: new Date(), attempts: 0, finishedAt: null },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+      { new: true }
+    );
+    return doc ? toResource(doc) : null;
+  } catch (err: any) {
+    if (isDuplicateKey(err)) throw new Error("Für diesen Job-Typ und Schlüssel ist bereits ein Job eingeplant");
+    throw err;
+  }
+}
+
+/* -------------------------------- Ausführung ------------------------------- */
+
+/**
+ * Sperrt einen fälligen Job atomar für diesen Prozess.
+ * Übernimmt auch RUNNING-Jobs mit abgelaufenem Lock (abgestürzter Worker),
+ * sofern sie ihre maximale Anzahl Versuche noch nicht erreicht haben.
+ */
+async function claimJob(extraFilter: FilterQuery<IJob>, ignoreRunAt = false): Promise<any | null> {
+  const now = new Date();
+  const claimable: FilterQuery<IJob> = {
+    $or: [
+      ignoreRunAt ? { status: "PENDING" } : { status: "PENDING", runAt: { $lte: now } },
+      { status: "RUNNING", lockedUntil: { $lt: now }, $expr: { $lt: ["$attempts", "$maxAttempts"] } },
+    ],
+  };
+
+  return Job.findOneAndUpdate(
+    { ...extraFilter, ...claimable },
+    {
+      $set: {
+        status: "RUNNING",
+        lockedBy: WORKER_ID,
+        lockedUntil: new Date(now.getTime() + LOCK_DURATION_MS),
+        startedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { new: true, sort: { runAt: 1 } }
+  );
+}
+
+/** Führt einen bereits gesperrten Job aus und schreibt das Ergebnis zurück. */
+async function executeJob(doc: any): Promise<JobResource> {
+  const handler = handlers.get(doc.typ);
+  const lockFilter = { _id: doc._id, lockedBy: WORKER_ID, status: "RUNNING" };
+
+  try {
+    if (!handler) throw new Error(`Kein Handler für Job-Typ "${doc.typ}" registriert`);
+    await handler(doc.payload, toResource(doc));
+
+    const done = await Job.findOneAndUpdate(
+      lockFilter,
+      { $set: { status: "DONE", finishedAt: new Date(), lastError: null }, $unset: { lockedBy: 1, lockedUntil: 1 } },
+      { new: true }
+    );
+    return toResource(done ?? doc);
+  } catch (err: any) {
+    const message = err?.message ?? String(err);
+    const attempts = Number(doc.attempts ?? 1);
+    const endgueltig = attempts >= Number(doc.maxAttempts ?? 1);
+    logger.error(`[Jobs] ${doc.typ} (${doc._id}) Versuch ${attempts} fehlgeschlagen: ${message}`);
+
+    const failedUpdate = (set: Record<string, any>) =>
+      Job.findOneAndUpdate(lockFilter, { $set: set, $unset: { lockedBy: 1, lockedUntil: 1 } }, { new: true });
+
+    let failed;
+    try {
+      failed = await failedUpdate(
+        endgueltig
+          ? { status: "FAILED", lastError: message, finishedAt: new Date() }
+          : { status: "PENDING", lastError: message, runAt: new Date(Date.now() + backoffMs(attempts)) }
+      );
+    } catch (updateErr: any) {
+      // Während des Laufs wurde für typ+key bereits ein neuer Job eingeplant → dieser übernimmt
+      if (!isDuplicateKey(updateErr)) throw updateErr;
+      failed = await failedUpdate({
+        status: "FAILED",
+        lastError: `${message} (ersetzt durch neu eingeplanten Job)`,
+        finishedAt: new Date(),
+      });
+    }
+    return toResource(failed ?? doc);
+  }
+}
+
+/**
+ * Markiert RUNNING-Jobs mit abgelaufenem Lock, deren Versuche aufgebraucht sind, als FAILED.
+ */
+async function failExhaustedJobs(): Promise<number> {
+  const res = await Job.updateMany(
+    { status: "RUNNING", lockedUntil: { $lt: new Date() }, $expr: { $gte: ["$attempts", "$maxAttempts"] } },
+    {
+      $set: { status: "FAILED", lastError: "Lock abgelaufen, maximale Anzahl Versuche erreicht", finishedAt: new Date() },
+      $unset: { lockedBy: 1, lockedUntil: 1 },
+    }
+  );
+  return res.modifiedCount;
+}
+
+/**
+ * Führt den offenen Job zu typ+key sofort aus (ohne runAt abzuwarten).
+ * @returns null wenn kein wartender Job existiert oder er gerade von einem anderen Prozess läuft
+ */
+export async function runJobNow(typ: string, key: string): Promise<JobResource | null> {
+  const doc = await claimJob({ typ, key }, true);
+  if (!doc) return null;
+  return executeJob(doc);
+}
+
+/**
+ * Arbeitet alle aktuell fälligen Jobs ab.
+ * @returns Anzahl verarbeiteter Jobs
+ */
+export async function processDueJobs(max = 50): Promise<number> {
+  await failExhaustedJobs();
+  let count = 0;
+  while (count < max) {
+    const doc = await claimJob({ typ: { $in: Array.from(handlers.keys()) } });
+    if (!doc) break;
+    await executeJob(doc);
+    count++;
+  }
+  return count;
+}
+
+/* ---------------------------------- Worker --------------------------------- */
+
+async function tick(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    await processDueJobs();
+  } catch (err: any) {
+    logger.error(`[Jobs] Worker-Fehler: ${err?.message ?? err}`);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Startet den Polling-Worker (nach mongoose.connect aufrufen).
+ */
+export function startJobWorker(intervalMs = POLL_INTERVAL_MS): void {
+  if (timer) clearInterval(timer);
+  timer = setInterval(() => {
+    void tick();
+  }, intervalMs);
+  if (typeof timer.unref === "function") timer.unref();
+  void tick();
+}
+
+export function stopJobWorker(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
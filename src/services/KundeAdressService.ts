@@ -0,0 +1,306 @@
+/**
+ * KundeAdressService.ts
+ *
+ * Strukturierte Kundenadressen:
+ * - Zerlegen/Formatieren (Straße, Hausnummer, PLZ, Ort, Land, Koordinaten)
+ * - mehrere Lieferadressen je Kunde mit genau einer Standardadresse
+ * - Auflösen der Lieferadresse eines Auftrags (gewählte → Standard → Hauptadresse) für den TourStop
+ * - Migration der bisherigen Freitext-Adressen (Kunde.adresse) in die Einzelfelder
+ */
+
+import mongoose, { ClientSession, Types } from "mongoose";
+import { Auftrag } from "../model/AuftragModel";
+import { Kunde } from "../model/KundeModel";
+import { TourStop } from "../model/TourStopModel";
+import { AdresseResource, KundeAdressMigrationResource, LieferadresseResource, LoginResource } from "../Resources";
+
+const STANDARD_LAND = "Deutschland";
+const LAENDER = ["deutschland", "germany", "österreich", "austria", "schweiz", "niederlande", "belgien", "frankreich", "polen", "dänemark"];
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function leer(v?: string | null): boolean {
+  return !v || !String(v).trim();
+}
+
+function trennHausnummer(text: string): { strasse: string; hausnummer?: string } {
+  const m = text.trim().match(/^(.*?\D)\s*(\d+\s*[a-zA-Z]?(?:\s*[-/]\s*\d+\s*[a-zA-Z]?)?)$/);
+  return m ? { strasse: m[1].trim(), hausnummer: m[2].replace(/\s+/g, "") } : { strasse: text.trim() };
+}
+
+function lieferadresseToResource(a: any): LieferadresseResource {
+  return {
+    id: a._id?.toString(),
+    bezeichnung: a.bezeichnung ?? undefined,
+    strasse: a.strasse,
+    hausnummer: a.hausnummer ?? undefined,
+    plz: a.plz,
+    ort: a.ort,
+    land: a.land ?? undefined,
+    lat: a.lat ?? undefined,
+    lng: a.lng ?? undefined,
+    standard: !!a.standard,
+  };
+}
+
+function pruefeZugriff(kundeId: string, currentUser: LoginResource) {
+  if (!currentUser.role.includes("admin") && currentUser.id !== kundeId) {
+    throw new Error("Zugriff verweigert");
+  }
+}
+
+function pruefeLieferadresse(a: Partial<LieferadresseResource>) {
+  if (leer(a.strasse)) throw new Error("Straße ist erforderlich");
+  if (leer(a.plz)) throw new Error("PLZ ist erforderlich");
+  if (leer(a.ort)) throw new Error("Ort ist erforderlich");
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Zerlegt eine Freitext-Adresse, z. B. "Musterstraße 12a, 12345 Berlin" oder mehrzeilig mit Land.
+ * Liefert undefined, wenn PLZ/Ort oder Straße nicht eindeutig erkannt werden.
+ */
+export function parseAdresse(text?: string | null): AdresseResource | undefined {
+  if (leer(text)) return undefined;
+  const teile = String(text)
+    .split(/\r?\n|,/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  // Einzeiler ohne Komma: "Musterstraße 12 12345 Berlin"
+  if (teile.length === 1) {
+    const m = teile[0].match(/^(.+?)\s+(?:D-)?(\d{5})\s+(.+)$/i);
+    if (!m) return undefined;
+    teile.splice(0, 1, m[1], `${m[2]} ${m[3]}`);
+  }
+
+  const plzIdx = teile.findIndex((t) => /^(?:D-\s?)?\d{5}\s+\S/i.test(t));
+  if (plzIdx < 0) return undefined;
+  const plzOrt = teile[plzIdx].match(/^(?:D-\s?)?(\d{5})\s+(.+)$/i)!;
+  const rest = teile.filter((_, i) => i !== plzIdx);
+  const landIdx = rest.findIndex((t) => LAENDER.includes(t.toLowerCase()));
+  const land = landIdx >= 0 ? rest.splice(landIdx, 1)[0] : undefined;
+  // Straße: letzter Teil vor PLZ/Ort mit Hausnummer, sonst erster verbleibender Teil
+  const kandidat = rest.filter((t) => /\d/.test(t)).pop() ?? rest[0];
+  if (!kandidat) return undefined;
+  const { strasse, hausnummer } = trennHausnummer(kandidat);
+
+  return {
+    strasse,
+    hausnummer,
+    plz: plzOrt[1],
+    ort: plzOrt[2].trim(),
+    land: land ? land.charAt(0).toUpperCase() + land.slice(1) : undefined,
+  };
+}
+
+/** "Straße Nr, PLZ Ort[, Land]" – Land nur außerhalb Deutschlands */
+export function formatAdresse(a?: AdresseResource | null): string | undefined {
+  if (!a) return undefined;
+  const zeile1 = [a.strasse, a.hausnummer].filter((t) => !leer(t)).join(" ").trim();
+  const zeile2 = [a.plz, a.ort].filter((t) => !leer(t)).join(" ").trim();
+  const land = a.land && a.land !== STANDARD_LAND ? a.land : "";
+  const text = [zeile1, zeile2, land].filter(Boolean).join(", ");
+  return text || undefined;
+}
+
+/** Hauptadresse eines Kunden (Einzelfelder, Altbestand aus dem Freitext zerlegt) */
+export function kundenAdresse(k: any): AdresseResource {
+  if (!k) return {};
+  const koordinaten = { lat: k.lat ?? undefined, lng: k.lng ?? undefined };
+  if (!leer(k.strasse) || !leer(k.plz)) {
+    return {
+      strasse: k.strasse ?? undefined,
+      hausnummer: k.hausnummer ?? undefined,
+      plz: k.plz ?? undefined,
+      ort: k.ort ?? undefined,
+      land: k.land ?? undefined,
+      ...koordinaten,
+    };
+  }
+  const geparst = parseAdresse(k.adresse) ?? {};
+  return { ...geparst, land: geparst.land ?? k.land ?? undefined, ...koordinaten };
+}
+
+/** Formatierte Hauptadresse; fällt auf den Freitext zurück, wenn nichts zerlegt werden kann */
+export function kundenAdresseText(k: any): string | undefined {
+  return formatAdresse(kundenAdresse(k)) || (leer(k?.adresse) ? undefined : String(k.adresse).trim());
+}
+
+/**
+ * Lieferadresse für einen Auftrag: gewählte Lieferadresse → Standard-Lieferadresse → Hauptadresse.
+ * Ergebnis wird als Kopie am TourStop abgelegt (lieferadresse + kundeAdress).
+ */
+export function lieferadresseFuer(
+  k: any,
+  lieferadresseId?: Types.ObjectId | string | null
+): { lieferadresse: AdresseResource; kundeAdress?: string } {
+  const liste: any[] = k?.lieferadressen ?? [];
+  const gewaehlt =
+    (lieferadresseId && liste.find((a) => String(a._id) === String(lieferadresseId))) ||
+    liste.find((a) => a.standard);
+  if (gewaehlt) {
+    const { id, bezeichnung, standard, ...adresse } = lieferadresseToResource(gewaehlt);
+    return { lieferadresse: adresse, kundeAdress: formatAdresse(adresse) };
+  }
+  return { lieferadresse: kundenAdresse(k), kundeAdress: kundenAdresseText(k) };
+}
+
+/**
+ * Kopiert die (ggf. geänderte) Lieferadresse eines Auftrags auf seinen TourStop.
+ */
+export async function aktualisiereStopAdresse(auftragId: string, session?: ClientSession): Promise<void> {
+  const auftrag = await Auftrag.findById(auftragId).select({ kunde: 1, lieferadresseId: 1 }).session(session ?? null).lean();
+  if (!auftrag) return;
+  const kunde = await Kunde.findById(auftrag.kunde).session(session ?? null).lean();
+  if (!kunde) return;
+  await TourStop.updateOne(
+    { auftragId: auftrag._id },
+    { $set: lieferadresseFuer(kunde, auftrag.lieferadresseId) },
+    { session }
+  );
+}
+
+export async function getLieferadressen(kundeId: string, currentUser: LoginResource): Promise<LieferadresseResource[]> {
+  pruefeZugriff(kundeId, currentUser);
+  const kunde = await Kunde.findById(kundeId).select({ lieferadressen: 1 }).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  return (kunde.lieferadressen ?? []).map(lieferadresseToResource);
+}
+
+/**
+ * Neue Lieferadresse; die erste Adresse (oder standard: true) wird Standard.
+ */
+export async function addLieferadresse(
+  kundeId: string,
+  data: Omit<LieferadresseResource, "id">,
+  currentUser: LoginResource
+): Promise<LieferadresseResource> {
+  pruefeZugriff(kundeId, currentUser);
+  pruefeLieferadresse(data);
+  const kunde = await Kunde.findById(kundeId);
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+
+  const liste = kunde.lieferadressen ?? [];
+  const standard = !!data.standard || liste.length === 0;
+  if (standard) liste.forEach((a) => (a.standard = false));
+  liste.push({
+    _id: new Types.ObjectId(),
+    bezeichnung: data.bezeichnung?.trim(),
+    strasse: data.strasse!.trim(),
+    hausnummer: data.hausnummer?.trim(),
+    plz: data.plz!.trim(),
+    ort: data.ort!.trim(),
+    land: (data.land || kunde.land || STANDARD_LAND).trim(),
+    lat: data.lat,
+    lng: data.lng,
+    standard,
+  });
+  kunde.lieferadressen = liste;
+  await kunde.save();
+  return lieferadresseToResource(liste[liste.length - 1]);
+}
+
+/**
+ * Lieferadresse ändern; standard: true macht sie zur einzigen Standardadresse.
+ * Geänderte Adresszeilen ohne neue Koordinaten verwerfen die alten Koordinaten.
+ */
+export async function updateLieferadresse(
+  kundeId: string,
+  adresseId: string,
+  data: Partial<Omit<LieferadresseResource, "id">>,
+  currentUser: LoginResource
+): Promise<LieferadresseResource> {
+  pruefeZugriff(kundeId, currentUser);
+  const kunde = await Kunde.findById(kundeId);
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  const adresse = (kunde.lieferadressen ?? []).find((a) => String(a._id) === adresseId);
+  if (!adresse) throw new Error("Lieferadresse nicht gefunden");
+
+  const zeilen = ["strasse", "hausnummer", "plz", "ort", "land"] as const;
+  const zeileGeaendert = zeilen.some((f) => data[f] !== undefined && data[f]?.trim() !== adresse[f]);
+  for (const f of zeilen) {
+    const wert = data[f];
+    if (wert !== undefined) adresse[f] = wert.trim();
+  }
+  if (data.bezeichnung !== undefined) adresse.bezeichnung = data.bezeichnung?.trim();
+  if (data.lat !== undefined || data.lng !== undefined) {
+    adresse.lat = data.lat;
+    adresse.lng = data.lng;
+  } else if (zeileGeaendert) {
+    adresse.lat = undefined;
+    adresse.lng = undefined;
+  }
+  pruefeLieferadresse(adresse);
+  if (data.standard === true) {
+    kunde.lieferadressen!.forEach((a) => (a.standard = String(a._id) === adresseId));
+  }
+  await kunde.save();
+  return lieferadresseToResource(adresse);
+}
+
+/**
+ * Lieferadresse löschen – nicht möglich, solange offene Aufträge sie verwenden.
+ * War sie Standard, wird die nächste verbleibende Adresse Standard.
+ */
+export async function deleteLieferadresse(kundeId: string, adresseId: string, currentUser: LoginResource): Promise<void> {
+  pruefeZugriff(kundeId, currentUser);
+  if (!mongoose.Types.ObjectId.isValid(adresseId)) throw new Error("Ungültige Lieferadresse");
+  const kunde = await Kunde.findById(kundeId);
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  const liste = kunde.lieferadressen ?? [];
+  const idx = liste.findIndex((a) => String(a._id) === adresseId);
+  if (idx < 0) throw new Error("Lieferadresse nicht gefunden");
+
+  const inVerwendung = await Auftrag.exists({
+    lieferadresseId: new Types.ObjectId(adresseId),
+    status: { $in: ["offen", "in Bearbeitung"] },
+  });
+  if (inVerwendung) throw new Error("Lieferadresse wird von offenen Aufträgen verwendet");
+
+  const [geloescht] = liste.splice(idx, 1);
+  if (geloescht.standard && liste.length) liste[0].standard = true;
+  kunde.lieferadressen = liste;
+  await kunde.save();
+}
+
+/**
+ * Zerlegt die Freitext-Adressen aller Kunden ohne Einzelfelder.
+ * Nicht erkannte Adressen bleiben unverändert und werden zur manuellen Pflege zurückgegeben.
+ */
+export async function migriereKundenAdressen(): Promise<KundeAdressMigrationResource> {
+  const ergebnis: KundeAdressMigrationResource = { geprueft: 0, aktualisiert: 0, nichtErkannt: [] };
+  const cursor = Kunde.find({
+    $and: [
+      { $or: [{ strasse: { $exists: false } }, { strasse: null }, { strasse: "" }] },
+      { $or: [{ plz: { $exists: false } }, { plz: null }, { plz: "" }] },
+    ],
+  })
+    .select({ name: 1, adresse: 1, land: 1 })
+    .lean()
+    .cursor();
+
+  for await (const k of cursor) {
+    ergebnis.geprueft++;
+    const adresse = parseAdresse(k.adresse);
+    if (!adresse) {
+      ergebnis.nichtErkannt.push({ kundeId: k._id.toString(), name: k.name, adresse: k.adresse ?? "" });
+      continue;
+    }
+    await Kunde.updateOne(
+      { _id: k._id },
+      {
+        $set: {
+          strasse: adresse.strasse,
+          hausnummer: adresse.hausnummer,
+          plz: adresse.plz,
+          ort: adresse.ort,
+          land: adresse.land || k.land || STANDARD_LAND,
+        },
+      }
+    );
+    ergebnis.aktualisiert++;
+  }
+  return ergebnis;
+}
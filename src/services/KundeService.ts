@@ -2,12 +2,17 @@ import { Kunde } from "../model/KundeModel"; // Pfad ggf. anpassen
 import { Auftrag } from "../model/AuftragModel";
 import { ArtikelPosition } from "../model/ArtikelPositionModel";
 import { ZerlegeAuftragModel } from "../model/ZerlegeAuftragModel";
-import { KundeResource, LoginResource } from "../Resources"; // Pfad ggf. anpassen
+import { KundeBuchhaltungResource, KundeResource, LoginResource, RechnungsIntervall } from "../Resources"; // Pfad ggf. anpassen
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import mongoose from "mongoose";
 import { Types } from "mongoose";
 import { AuthError } from "../routes/CustomErrors";
+import { getPostenByKunde } from "./OffenePostenService";
+import { getBestandByKunde } from "./LeergutService";
+import { getLeergutSalden } from "./LeergutKontoService";
+import { loescheDateienVonBesitzer } from "./dateien/DateiService";
+import { formatAdresse, kundenAdresseText, parseAdresse } from "./KundeAdressService";
 
 // JWT-Secret, idealerweise über Umgebungsvariablen konfiguriert
 const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
@@ -16,6 +21,41 @@ function normalizeEmail(email?: string) {
   return (email || "").trim().toLowerCase();
 }
 
+type AdressEingabe = {
+  adresse?: string;
+  strasse?: string;
+  hausnummer?: string;
+  plz?: string;
+  ort?: string;
+  land?: string;
+};
+
+/**
+ * Adressfelder für create/update: Einzelfelder bilden den formatierten Text (adresse),
+ * ein reiner Freitext wird – soweit erkennbar – in die Einzelfelder zerlegt.
+ */
+function adressFelder(data: AdressEingabe, bestehend: AdressEingabe = {}): AdressEingabe | undefined {
+  const einzel = ["strasse", "hausnummer", "plz", "ort"] as const;
+  if (einzel.some((f) => data[f] !== undefined)) {
+    const merged: AdressEingabe = { ...bestehend };
+    for (const f of [...einzel, "land"] as const) if (data[f] !== undefined) merged[f] = data[f]?.trim();
+    if (!merged.strasse || !merged.plz || !merged.ort) throw new Error("Straße, PLZ und Ort sind erforderlich");
+    return { ...merged, adresse: formatAdresse(merged) };
+  }
+  if (data.adresse !== undefined) {
+    const adresse = (data.adresse || "").trim();
+    const geparst = parseAdresse(adresse);
+    return {
+      adresse,
+      strasse: geparst?.strasse,
+      hausnummer: geparst?.hausnummer,
+      plz: geparst?.plz,
+      ort: geparst?.ort,
+    };
+  }
+  return undefined;
+}
+
 function mapKundeToResource(k: any): KundeResource {
   return {
     id: k._id.toString(),
@@ -23,9 +63,29 @@ function mapKundeToResource(k: any): KundeResource {
     kundenNummer: k.kundenNummer,
     email: k.email,
     adresse: k.adresse,
+    strasse: k.strasse ?? undefined,
+    hausnummer: k.hausnummer ?? undefined,
+    plz: k.plz ?? undefined,
+    ort: k.ort ?? undefined,
     land: k.land || "Deutschland",
     telefon: k.telefon,
     lieferzeit: k.lieferzeit,
+    lat: k.lat ?? undefined,
+    lng: k.lng ?? undefined,
+    lieferadressen: Array.isArray(k.lieferadressen)
+      ? k.lieferadressen.map((a: any) => ({
+          id: a._id?.toString(),
+          bezeichnung: a.bezeichnung ?? undefined,
+          strasse: a.strasse,
+          hausnummer: a.hausnummer ?? undefined,
+          plz: a.plz,
+          ort: a.ort,
+          land: a.land ?? undefined,
+          lat: a.lat ?? undefined,
+          lng: a.lng ?? undefined,
+          standard: !!a.standard,
+        }))
+      : undefined,
     ustId: k.ustId,
     handelsregisterNr: k.handelsregisterNr,
     ansprechpartner: k.ansprechpartner,
@@ -42,6 +102,7 @@ function mapKundeToResource(k: any): KundeResource {
     emailSpedition: k.emailSpedition,
     bestimmteArtikel: Array.isArray(k.bestimmteArtikel) ? k.bestimmteArtikel.map((a: any) => a.toString()) : undefined,
     fehlmengenBenachrichtigung: k.fehlmengenBenachrichtigung,
+    rechnungsIntervall: k.rechnungsIntervall || "pro_lieferung",
     updatedAt: k.updatedAt?.toISOString?.() ?? new Date().toISOString(),
   };
 }
@@ -118,6 +179,7 @@ export type KundeAnalytics = {
   fulfillment: KundeFulfillmentTotals;
   fulfillmentTimeline: KundeFulfillmentTimelinePoint[];
   recentOrders: KundeRecentOrder[];
+  buchhaltung: KundeBuchhaltungResource;
 };
 
 function parseDate(input?: string): Date | null {
@@ -135,8 +197,14 @@ export async function createKunde(data: {
   kundenNummer?: string;
   password: string;
   email: string;
-  adresse: string;
+  adresse?: string;
+  strasse?: string;
+  hausnummer?: string;
+  plz?: string;
+  ort?: string;
   land?: string;
+  lat?: number;
+  lng?: number;
   telefon?: string;
   lieferzeit?: string;
   ustId?: string;
@@ -162,14 +230,19 @@ export async function createKunde(data: {
     throw new Error("Kunde mit dieser E-Mail oder Kundennummer existiert bereits");
   }
 
+  const adresse = adressFelder({ ...data, land: data.land || "Deutschland" });
+  if (!adresse?.adresse) throw new Error("Adresse ist erforderlich");
+
   const hashedPassword = await bcrypt.hash(data.password, 10);
   const newKunde = new Kunde({
     name: (data.name || "").trim(),
     kundenNummer: data.kundenNummer?.trim(),
     password: hashedPassword,
     email,
-    adresse: (data.adresse || "").trim(),
+    ...adresse,
     land: (data.land || "Deutschland").trim(),
+    lat: data.lat,
+    lng: data.lng,
     telefon: data.telefon?.trim(),
     lieferzeit: data.lieferzeit?.trim(),
     ustId: data.ustId?.trim(),
@@ -299,9 +372,15 @@ export async function updateKunde(
     password: string;
     email: string;
     adresse: string;
+    strasse: string;
+    hausnummer: string;
+    plz: string;
+    ort: string;
     land: string;
     telefon: string;
     lieferzeit: string;
+    lat: number | null;
+    lng: number | null;
     ustId: string;
     handelsregisterNr: string;
     ansprechpartner: string;
@@ -317,6 +396,7 @@ export async function updateKunde(
     emailBuchhaltung?: string;
     emailSpedition?: string;
     fehlmengenBenachrichtigung?: boolean;
+    rechnungsIntervall?: RechnungsIntervall;
   }>,
   currentUser: LoginResource
 ): Promise<KundeResource> {
@@ -348,10 +428,35 @@ export async function updateKunde(
   }
 
   if (data.name !== undefined) updateData.name = (data.name || "").trim();
-  if (data.adresse !== undefined) updateData.adresse = (data.adresse || "").trim();
+  const adressAenderung =
+    data.adresse !== undefined || [data.strasse, data.hausnummer, data.plz, data.ort].some((v) => v !== undefined);
+  if (adressAenderung) {
+    const bestehend = await Kunde.findById(id).select({ adresse: 1, strasse: 1, hausnummer: 1, plz: 1, ort: 1, land: 1 }).lean();
+    if (!bestehend) throw new Error("Kunde nicht gefunden");
+    Object.assign(updateData, adressFelder(data, {
+      strasse: bestehend.strasse,
+      hausnummer: bestehend.hausnummer,
+      plz: bestehend.plz,
+      ort: bestehend.ort,
+      land: bestehend.land,
+    }));
+    // nicht erkannte Einzelfelder explizit leeren (Freitext bleibt maßgeblich)
+    for (const f of ["strasse", "hausnummer", "plz", "ort"]) {
+      if (updateData[f] === undefined) updateData[f] = null;
+    }
+    // Geänderte Adresse ohne neue Koordinaten → alte Koordinaten passen nicht mehr
+    const adresseGeaendert = kundenAdresseText(bestehend) !==
+      kundenAdresseText({ ...updateData, land: updateData.land ?? bestehend.land });
+    if (adresseGeaendert && data.lat === undefined && data.lng === undefined) {
+      updateData.lat = null;
+      updateData.lng = null;
+    }
+  }
   if (data.land !== undefined) updateData.land = (data.land || "Deutschland").trim();
   if (data.telefon !== undefined) updateData.telefon = data.telefon?.trim();
   if (data.lieferzeit !== undefined) updateData.lieferzeit = data.lieferzeit?.trim();
+  if (data.lat !== undefined) updateData.lat = data.lat;
+  if (data.lng !== undefined) updateData.lng = data.lng;
   if (data.ustId !== undefined) updateData.ustId = data.ustId?.trim();
   if (data.handelsregisterNr !== undefined) updateData.handelsregisterNr = data.handelsregisterNr?.trim();
   if (data.ansprechpartner !== undefined) updateData.ansprechpartner = data.ansprechpartner?.trim();
@@ -366,6 +471,10 @@ export async function updateKunde(
   if (data.emailBuchhaltung !== undefined) updateData.emailBuchhaltung = data.emailBuchhaltung?.trim();
   if (data.emailSpedition !== undefined) updateData.emailSpedition = data.emailSpedition?.trim();
   if (data.fehlmengenBenachrichtigung !== undefined) updateData.fehlmengenBenachrichtigung = data.fehlmengenBenachrichtigung;
+  if (data.rechnungsIntervall !== undefined) {
+    if (!currentUser.role.includes("admin")) throw new Error("Nur Admins dürfen das Rechnungsintervall ändern");
+    updateData.rechnungsIntervall = data.rechnungsIntervall;
+  }
 
   // Passwort ändern (optional)
   if (data.password) {
@@ -417,6 +526,7 @@ export async function deleteKunde(
 
       await Auftrag.deleteMany({ kunde: id }).session(session);
     });
+    await loescheDateienVonBesitzer("kunde", [id]);
   } finally {
     await session.endSession();
   }
@@ -1044,6 +1154,35 @@ export async function getKundeAnalytics(
     timeline,
     fulfillment,
     fulfillmentTimeline,
-    recentOrders
+    recentOrders,
+    buchhaltung: await getKundeBuchhaltung(kundenId)
   };
+}
+
+/**
+ * Offene Posten und Leergut-Bestand eines Kunden (nur verknüpfte Einträge, siehe KundenZuordnungService).
+ */
+export async function getKundeBuchhaltung(kundenId: string): Promise<KundeBuchhaltungResource> {
+  if (!Types.ObjectId.isValid(kundenId)) throw new Error("Ungültige Kunden-ID");
+  const [op, leergut, leergutKonto] = await Promise.all([
+    getPostenByKunde(kundenId),
+    getBestandByKunde(kundenId),
+    getLeergutSalden(kundenId),
+  ]);
+
+  const result: KundeBuchhaltungResource = {};
+  if (op.berichtsDatum) {
+    result.offenePosten = {
+      berichtsDatum: op.berichtsDatum,
+      summe: Math.round(op.posten.reduce((s, p) => s + p.betrag, 0) * 100) / 100,
+      anzahl: op.posten.length,
+      aeltesterTageOffen: op.posten.reduce((max, p) => Math.max(max, p.tageOffen), 0),
+      posten: op.posten,
+    };
+  }
+  if (leergut.importDatum) {
+    result.leergut = { importDatum: leergut.importDatum, bestand: leergut.bestand };
+  }
+  if (leergutKonto.length) result.leergutKonto = leergutKonto;
+  return result;
 }
\ No newline at end of file
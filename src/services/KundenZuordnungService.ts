@@ -0,0 +1,241 @@
+/**
+ * KundenZuordnungService.ts
+ *
+ * Verknüpft Offene Posten (kontonr/kunde) und Leergut-Einträge (kundennr/kunde) aus externen
+ * Exporten mit dem Kundenstamm:
+ * 1. manuell bestätigte Zuordnung (KundenZuordnung, gilt für alle Imports)
+ * 2. Kontonummer = Kunde.kundenNummer (führende Nullen werden ignoriert)
+ * 3. unscharfer Namensvergleich – nur bei eindeutigem, sehr ähnlichem Treffer
+ * Nicht zugeordnete Nummern landen mit Namensvorschlägen in der Prüfliste.
+ */
+
+import mongoose, { Model, Types } from "mongoose";
+import { Kunde } from "../model/KundeModel";
+import { KundenZuordnung } from "../model/KundenZuordnungModel";
+import { LeergutEintrag } from "../model/LeergutEintragModel";
+import { LeergutImport } from "../model/LeergutImportModel";
+import { OffenerPosten } from "../model/OffenerPostenModel";
+import { OffenerPostenImport } from "../model/OffenerPostenImportModel";
+import {
+  KundeZuordnungArt,
+  KundeZuordnungLaufResource,
+  KundeZuordnungOffenResource,
+  KundeZuordnungQuelle,
+} from "../Resources";
+
+/** Ab dieser Ähnlichkeit wird automatisch zugeordnet (sofern eindeutig) */
+const SCORE_AUTOMATISCH = 0.85;
+/** Mindestabstand zum zweitbesten Treffer */
+const SCORE_ABSTAND = 0.1;
+/** Ab dieser Ähnlichkeit erscheint ein Kunde als Vorschlag */
+const SCORE_VORSCHLAG = 0.5;
+
+type KundeKurz = { _id: Types.ObjectId; name: string; kundenNummer?: string; bigramme: string[] };
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function quelleInfo(quelle: KundeZuordnungQuelle): {
+  eintraege: Model<any>;
+  imports: Model<any>;
+  nrFeld: string;
+  summenFeld: string;
+} {
+  return quelle === "offene_posten"
+    ? { eintraege: OffenerPosten, imports: OffenerPostenImport, nrFeld: "kontonr", summenFeld: "betrag" }
+    : { eintraege: LeergutEintrag, imports: LeergutImport, nrFeld: "kundennr", summenFeld: "alterBestand" };
+}
+
+function normalisiereNr(nr?: string): string {
+  return (nr ?? "").trim().replace(/^0+(?=\d)/, "");
+}
+
+/** Name ohne Rechtsform, Umlaute und Sonderzeichen */
+function normalisiereName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/\b(gmbh|co|kg|ohg|gbr|ug|ag|e\.?\s?k|e\.?\s?v|inh|inhaber|haftungsbeschraenkt)\b\.?/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigramme(name: string): string[] {
+  const s = normalisiereName(name).replace(/ /g, "");
+  const result: string[] = [];
+  for (let i = 0; i < s.length - 1; i++) result.push(s.slice(i, i + 2));
+  return result;
+}
+
+/** Dice-Koeffizient über Buchstabenpaare (0 … 1) */
+function aehnlichkeit(a: string[], b: string[]): number {
+  if (!a.length || !b.length) return 0;
+  const rest = [...b];
+  let treffer = 0;
+  for (const bg of a) {
+    const i = rest.indexOf(bg);
+    if (i >= 0) {
+      treffer++;
+      rest.splice(i, 1);
+    }
+  }
+  return (2 * treffer) / (a.length + b.length);
+}
+
+async function ladeKunden(): Promise<KundeKurz[]> {
+  const kunden = await Kunde.find().select({ name: 1, kundenNummer: 1 }).lean();
+  return kunden.map((k) => ({ _id: k._id, name: k.name, kundenNummer: k.kundenNummer, bigramme: bigramme(k.name) }));
+}
+
+function namensTreffer(name: string, kunden: KundeKurz[]): { kunde: KundeKurz; score: number }[] {
+  const bg = bigramme(name);
+  return kunden
+    .map((kunde) => ({ kunde, score: Math.round(aehnlichkeit(bg, kunde.bigramme) * 100) / 100 }))
+    .filter((t) => t.score >= SCORE_VORSCHLAG)
+    .sort((a, b) => b.score - a.score);
+}
+
+function ermittleKunde(
+  nr: string,
+  name: string,
+  manuell: Map<string, Types.ObjectId>,
+  kundeByNr: Map<string, KundeKurz>,
+  kunden: KundeKurz[]
+): { kunde: Types.ObjectId; art: KundeZuordnungArt } | undefined {
+  const fest = manuell.get(nr);
+  if (fest) return { kunde: fest, art: "manuell" };
+  const perNr = kundeByNr.get(normalisiereNr(nr));
+  if (perNr) return { kunde: perNr._id, art: "kundennummer" };
+  const [erster, zweiter] = namensTreffer(name, kunden);
+  if (erster && erster.score >= SCORE_AUTOMATISCH && (!zweiter || erster.score - zweiter.score >= SCORE_ABSTAND)) {
+    return { kunde: erster.kunde._id, art: "name" };
+  }
+  return undefined;
+}
+
+async function letzterImport(quelle: KundeZuordnungQuelle) {
+  return quelleInfo(quelle).imports.findOne().sort({ datum: -1 }).lean<{ _id: Types.ObjectId }>();
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Ordnet alle Einträge eines Imports (Standard: letzter Import) den Kunden zu.
+ * Wird nach jedem Import automatisch aufgerufen; erneut ausführen z.B. nach Anlage neuer Kunden.
+ */
+export async function verknuepfeImport(
+  quelle: KundeZuordnungQuelle,
+  importId?: string | Types.ObjectId
+): Promise<KundeZuordnungLaufResource> {
+  const { eintraege, nrFeld } = quelleInfo(quelle);
+  const id = importId ? new Types.ObjectId(importId.toString()) : (await letzterImport(quelle))?._id;
+  if (!id) return { quelle, zugeordnet: 0, offen: 0 };
+
+  const nummern: { _id: string; name: string }[] = await eintraege.aggregate([
+    { $match: { importId: id } },
+    { $group: { _id: `$${nrFeld}`, name: { $first: "$kunde" } } },
+  ]);
+
+  const [kunden, zuordnungen] = await Promise.all([ladeKunden(), KundenZuordnung.find({ quelle }).lean()]);
+  const manuell = new Map(zuordnungen.map((z) => [z.externeNr, z.kunde]));
+  const kundeByNr = new Map(
+    kunden.filter((k) => k.kundenNummer).map((k) => [normalisiereNr(k.kundenNummer), k] as [string, KundeKurz])
+  );
+
+  let zugeordnet = 0;
+  const ops = nummern.map(({ _id: nr, name }) => {
+    const treffer = ermittleKunde(nr, name, manuell, kundeByNr, kunden);
+    if (treffer) zugeordnet++;
+    return {
+      updateMany: {
+        filter: { importId: id, [nrFeld]: nr },
+        update: treffer
+          ? { $set: { kundeRef: treffer.kunde, kundeZuordnung: treffer.art } }
+          : { $unset: { kundeRef: 1, kundeZuordnung: 1 } },
+      },
+    };
+  });
+  if (ops.length) await eintraege.bulkWrite(ops);
+
+  return { quelle, importId: id.toString(), zugeordnet, offen: nummern.length - zugeordnet };
+}
+
+/**
+ * Prüfliste: externe Kontonummern des letzten Imports ohne Kunde, mit Namensvorschlägen.
+ */
+export async function getNichtZugeordnete(quelle: KundeZuordnungQuelle): Promise<KundeZuordnungOffenResource[]> {
+  const { eintraege, nrFeld, summenFeld } = quelleInfo(quelle);
+  const latest = await letzterImport(quelle);
+  if (!latest) return [];
+
+  const rows: { _id: string; name: string; anzahl: number; summe: number }[] = await eintraege.aggregate([
+    { $match: { importId: latest._id, kundeRef: { $exists: false } } },
+    {
+      $group: {
+        _id: `$${nrFeld}`,
+        name: { $first: "$kunde" },
+        anzahl: { $sum: 1 },
+        summe: { $sum: `$${summenFeld}` },
+      },
+    },
+    { $sort: { summe: -1 } },
+  ]);
+  if (!rows.length) return [];
+
+  const kunden = await ladeKunden();
+  return rows.map((r) => ({
+    quelle,
+    externeNr: r._id,
+    externerName: r.name,
+    anzahlEintraege: r.anzahl,
+    summe: Math.round(r.summe * 100) / 100,
+    vorschlaege: namensTreffer(r.name, kunden)
+      .slice(0, 3)
+      .map((t) => ({ kundeId: t.kunde._id.toString(), name: t.kunde.name, kundenNummer: t.kunde.kundenNummer, score: t.score })),
+  }));
+}
+
+/**
+ * Manuelle Zuordnung einer externen Kontonummer – wirkt auf alle bisherigen und künftigen Imports.
+ */
+export async function setzeZuordnung(
+  quelle: KundeZuordnungQuelle,
+  externeNr: string,
+  kundeId: string,
+  userId?: string
+): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(kundeId)) throw new Error("Ungültige Kunden-ID");
+  const kunde = await Kunde.findById(kundeId).select({ _id: 1 }).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+
+  const { eintraege, nrFeld } = quelleInfo(quelle);
+  const beispiel = await eintraege.findOne({ [nrFeld]: externeNr }).sort({ importDatum: -1 }).lean<{ kunde: string }>();
+  if (!beispiel) throw new Error(`Kontonummer ${externeNr} kommt in keinem Import vor`);
+
+  await KundenZuordnung.updateOne(
+    { quelle, externeNr },
+    { $set: { kunde: kunde._id, externerName: beispiel.kunde, erstelltVon: userId } },
+    { upsert: true }
+  );
+  await eintraege.updateMany(
+    { [nrFeld]: externeNr },
+    { $set: { kundeRef: kunde._id, kundeZuordnung: "manuell" } }
+  );
+}
+
+/**
+ * Hebt eine manuelle Zuordnung auf; der letzte Import wird anschließend automatisch neu zugeordnet.
+ */
+export async function loescheZuordnung(quelle: KundeZuordnungQuelle, externeNr: string): Promise<void> {
+  const res = await KundenZuordnung.deleteOne({ quelle, externeNr });
+  if (res.deletedCount === 0) throw new Error("Keine manuelle Zuordnung vorhanden");
+
+  const { eintraege, nrFeld } = quelleInfo(quelle);
+  await eintraege.updateMany(
+    { [nrFeld]: externeNr, kundeZuordnung: "manuell" },
+    { $unset: { kundeRef: 1, kundeZuordnung: 1 } }
+  );
+  await verknuepfeImport(quelle);
+}
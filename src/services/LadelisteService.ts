@@ -0,0 +1,163 @@
+/**
+ * LadelisteService.ts
+ *
+ * Ladeliste / Packplan je Tour: Stops in umgekehrter Lieferreihenfolge (letzter Stop wird zuerst geladen),
+ * Paletten/Boxen je Auftrag, Gesamtgewicht gegen die Kapazität (Tour, sonst Fahrzeug),
+ * Aufteilung TK / Nicht-TK (über die Chargen der Positionen) und der Beladestatus der Aufträge.
+ */
+
+import mongoose, { Types } from "mongoose";
+import { DateTime } from "luxon";
+import { ArtikelPosition } from "../model/ArtikelPositionModel";
+import { Auftrag } from "../model/AuftragModel";
+import { ChargeModel } from "../model/ChargeModel";
+import { Fahrzeug } from "../model/FahrzeugModel";
+import { Mitarbeiter } from "../model/MitarbeiterModel";
+import { ReservierungModel } from "../model/ReservierungModel";
+import { Tour } from "../model/TourModel";
+import { TourStop } from "../model/TourStopModel";
+import { LadelistePositionResource, LadelisteResource } from "../Resources";
+import { generateLadelistePdf } from "./BelegService";
+
+const ZONE = "Europe/Berlin";
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * TK-Gewicht je Auftrag: eine Position zählt als TK, wenn eine ihrer Chargen (chargennummern,
+ * sonst die Reservierungen des Auftrags für den Artikel) als TK geführt wird.
+ */
+async function tkGewichtJeAuftrag(auftraege: any[]): Promise<Map<string, number>> {
+  const positionIds = auftraege.flatMap((a) => a.artikelPosition ?? []);
+  const positionen = await ArtikelPosition.find({ _id: { $in: positionIds }, leergutVonPositionId: { $exists: false } })
+    .select({ artikel: 1, auftragId: 1, chargennummern: 1, nettogewicht: 1, gesamtgewicht: 1 })
+    .lean();
+  const reservierungen = await ReservierungModel.find({
+    auftragId: { $in: auftraege.map((a) => a._id) },
+    status: { $ne: "AUFGELOEST" },
+    chargeId: { $exists: true },
+  })
+    .select({ auftragId: 1, artikelId: 1, chargeId: 1 })
+    .lean();
+
+  const chargenJePosition = new Map<string, string[]>();
+  for (const p of positionen) {
+    let ids = (p.chargennummern ?? []).filter((c) => mongoose.Types.ObjectId.isValid(c));
+    if (!ids.length) {
+      ids = reservierungen
+        .filter((r) => String(r.auftragId) === String(p.auftragId) && String(r.artikelId) === String(p.artikel))
+        .map((r) => String(r.chargeId));
+    }
+    chargenJePosition.set(String(p._id), ids);
+  }
+  const alleChargen = [...new Set([...chargenJePosition.values()].flat())];
+  const tkChargen = new Set(
+    (await ChargeModel.find({ _id: { $in: alleChargen }, isTK: true }).select({ _id: 1 }).lean()).map((c) => String(c._id))
+  );
+
+  const positionZuAuftrag = new Map<string, string>();
+  for (const a of auftraege) for (const pid of a.artikelPosition ?? []) positionZuAuftrag.set(String(pid), String(a._id));
+
+  const ergebnis = new Map<string, number>();
+  for (const p of positionen) {
+    if (!(chargenJePosition.get(String(p._id)) ?? []).some((id) => tkChargen.has(id))) continue;
+    const auftragId = positionZuAuftrag.get(String(p._id));
+    if (!auftragId) continue;
+    ergebnis.set(auftragId, (ergebnis.get(auftragId) ?? 0) + (p.nettogewicht ?? p.gesamtgewicht ?? 0));
+  }
+  return ergebnis;
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Ladeliste einer Tour (Positionen in Ladereihenfolge).
+ */
+export async function getLadeliste(tourId: string): Promise<LadelisteResource> {
+  if (!mongoose.Types.ObjectId.isValid(tourId)) throw new Error("Ungültige Tour-ID");
+  const tour = await Tour.findById(tourId).lean();
+  if (!tour) throw new Error("Tour nicht gefunden");
+
+  const [stops, fahrer, fahrzeug] = await Promise.all([
+    TourStop.find({ tourId: new Types.ObjectId(tourId) }).sort({ position: -1 }).lean(),
+    tour.fahrerId ? Mitarbeiter.findById(tour.fahrerId).select({ name: 1 }).lean() : null,
+    tour.fahrzeugId ? Fahrzeug.findById(tour.fahrzeugId).select({ name: 1, kennzeichen: 1, maxGewichtKg: 1 }).lean() : null,
+  ]);
+  const auftraege = await Auftrag.find({ _id: { $in: stops.map((s) => s.auftragId) } })
+    .select({
+      auftragsnummer: 1,
+      artikelPosition: 1,
+      gewicht: 1,
+      gesamtPaletten: 1,
+      gesamtBoxen: 1,
+      beladeStatus: 1,
+      beladeVonName: 1,
+      beladeZeit: 1,
+    })
+    .lean();
+  const auftragById = new Map(auftraege.map((a) => [String(a._id), a]));
+  const tkJeAuftrag = await tkGewichtJeAuftrag(auftraege);
+
+  const positionen: LadelistePositionResource[] = stops.map((stop, i) => {
+    const auftrag = auftragById.get(String(stop.auftragId));
+    const gewichtKg = round2(stop.gewichtKg ?? auftrag?.gewicht ?? 0);
+    const tkGewichtKg = round2(Math.min(tkJeAuftrag.get(String(stop.auftragId)) ?? 0, gewichtKg));
+    return {
+      stopId: String(stop._id),
+      auftragId: String(stop.auftragId),
+      auftragsnummer: auftrag?.auftragsnummer,
+      kundeName: stop.kundeName,
+      kundeAdress: stop.kundeAdress,
+      position: stop.position,
+      ladeReihenfolge: i + 1,
+      paletten: auftrag?.gesamtPaletten ?? 0,
+      boxen: auftrag?.gesamtBoxen ?? 0,
+      gewichtKg,
+      tkGewichtKg,
+      nonTkGewichtKg: round2(gewichtKg - tkGewichtKg),
+      beladeStatus: auftrag?.beladeStatus === "beladen" ? "beladen" : "offen",
+      beladeVonName: auftrag?.beladeVonName,
+      beladeZeit: auftrag?.beladeZeit ? new Date(auftrag.beladeZeit).toISOString() : undefined,
+      bemerkung: stop.bemerkung,
+    };
+  });
+
+  const summe = (feld: "gewichtKg" | "tkGewichtKg" | "nonTkGewichtKg" | "paletten" | "boxen") =>
+    round2(positionen.reduce((s, p) => s + p[feld], 0));
+  const gesamtGewichtKg = summe("gewichtKg");
+  const maxGewichtKg = tour.maxGewichtKg ?? fahrzeug?.maxGewichtKg ?? undefined;
+  const beladen = positionen.filter((p) => p.beladeStatus === "beladen").length;
+
+  return {
+    tourId,
+    tourName: tour.name,
+    datum: tour.datumIso || DateTime.fromJSDate(new Date(tour.datum), { zone: ZONE }).toISODate()!,
+    region: tour.region,
+    fahrer: fahrer?.name,
+    fahrzeug: fahrzeug ? `${fahrzeug.kennzeichen} (${fahrzeug.name})` : undefined,
+    maxGewichtKg,
+    gesamtGewichtKg,
+    auslastungProzent: maxGewichtKg ? Math.round((gesamtGewichtKg / maxGewichtKg) * 100) : undefined,
+    ueberladen: !!maxGewichtKg && gesamtGewichtKg > maxGewichtKg,
+    tkGewichtKg: summe("tkGewichtKg"),
+    nonTkGewichtKg: summe("nonTkGewichtKg"),
+    paletten: summe("paletten"),
+    boxen: summe("boxen"),
+    beladen,
+    offen: positionen.length - beladen,
+    positionen,
+  };
+}
+
+/**
+ * Ladeliste einer Tour als PDF (Abhakliste für Fahrer und Verladung).
+ */
+export async function getLadelistePdf(tourId: string): Promise<{ pdf: Buffer; filename: string }> {
+  const ladeliste = await getLadeliste(tourId);
+  const name = `${ladeliste.tourName || ladeliste.region}_${ladeliste.datum}`.replace(/[^A-Za-z0-9_\-]/g, "_");
+  return { pdf: await generateLadelistePdf(ladeliste), filename: `Ladeliste_${name}.pdf` };
+}
@@ -0,0 +1,537 @@
+/**
+ * LeergutKontoService.ts
+ *
+ * Leergutkonto je Kunde und Leergutart (E2-Kisten, Paletten, …) als Journal:
+ * - Eröffnung: Bestand aus der importierten Leergutliste (LeergutEintrag.alterBestand, nur verknüpfte Kunden)
+ * - Lieferung (Soll): Leergut der Artikelpositionen, sobald der Auftrag geliefert ist
+ *   (TourStop zugestellt/teilweise oder Auftrag abgeschlossen)
+ * - Rückgabe (Haben): Leergut-Mitnahme des Fahrers am TourStop
+ * - Korrektur: manuelle Buchung mit Begründung
+ * Buchungen werden nie geändert; ändert sich ein Auftrag/Stop, wird die Differenz nachgebucht.
+ * Bewegungen vor dem Eröffnungsdatum eines Kunden sind im Eröffnungsbestand enthalten und werden nicht gebucht.
+ * Monatlicher Kontoauszug (PDF) an alle Kunden mit Bestand – automatisch nur mit LEERGUT_AUSZUG_AUTOLAUF=1.
+ */
+
+import { DateTime } from "luxon";
+import mongoose, { Types } from "mongoose";
+import { logger } from "../logger";
+import { ArtikelPosition } from "../model/ArtikelPositionModel";
+import { Auftrag } from "../model/AuftragModel";
+import { Kunde } from "../model/KundeModel";
+import { LeergutEintrag } from "../model/LeergutEintragModel";
+import { LeergutImport } from "../model/LeergutImportModel";
+import { LeergutKontoBuchung } from "../model/LeergutKontoBuchungModel";
+import { TourStop } from "../model/TourStopModel";
+import { EmailLog } from "../model/EmailLogModel";
+import {
+  LeergutAuszugLaufResource,
+  LeergutBuchungsArt,
+  LeergutKontoauszugResource,
+  LeergutKontoBuchungResource,
+  LeergutSaldoResource,
+} from "../Resources";
+import { LEERGUT_OPTION_TO_ARTIKELNAME } from "./ArtikelPositionService";
+import { generateLeergutKontoauszugPdf } from "./BelegService";
+import { sendLeergutKontoauszugEmail } from "./EmailService";
+import { registerJobHandler, scheduleJob } from "./JobQueueService";
+
+const ZONE = "Europe/Berlin";
+const AUSZUG_JOB = "leergut-kontoauszug-lauf";
+const GELIEFERT_STATUS = ["zugestellt", "teilweise"];
+const ANGEFAHREN_STATUS = ["zugestellt", "teilweise", "fehlgeschlagen"];
+
+type SollBuchung = {
+  kunde: Types.ObjectId;
+  leergutArt: string;
+  datum: Date;
+  menge: number;
+  art: LeergutBuchungsArt;
+  tourStop?: Types.ObjectId;
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+/** Leergutart auf den Schlüssel der Erfassung abbilden ("E2 Kiste" → "e2") */
+export function normalisiereLeergutArt(raw: string): string {
+  const key = (raw || "").trim().toLowerCase();
+  if (key in LEERGUT_OPTION_TO_ARTIKELNAME) return key;
+  const perName = Object.entries(LEERGUT_OPTION_TO_ARTIKELNAME).find(([, name]) => name.toLowerCase() === key);
+  return perName ? perName[0] : key;
+}
+
+function bezeichnung(leergutArt: string): string {
+  return LEERGUT_OPTION_TO_ARTIKELNAME[leergutArt] ?? leergutArt;
+}
+
+function buchungToResource(doc: any, saldo?: number): LeergutKontoBuchungResource {
+  return {
+    id: doc._id.toString(),
+    kundeId: doc.kunde.toString(),
+    leergutArt: doc.leergutArt,
+    datum: new Date(doc.datum).toISOString(),
+    menge: doc.menge,
+    art: doc.art,
+    auftragId: doc.auftrag ? doc.auftrag.toString() : undefined,
+    tourStopId: doc.tourStop ? doc.tourStop.toString() : undefined,
+    bemerkung: doc.bemerkung ?? undefined,
+    erstelltVon: doc.erstelltVon ?? undefined,
+    erstelltAm: doc.createdAt ? new Date(doc.createdAt).toISOString() : undefined,
+    saldo,
+  };
+}
+
+async function eroeffnungsDatum(kunde: Types.ObjectId): Promise<Date | undefined> {
+  const doc = await LeergutKontoBuchung.findOne({ kunde, art: "eroeffnung" }).sort({ datum: 1 }).lean();
+  return doc?.datum;
+}
+
+/** Kalendermonat (Format JJJJ-MM, Standard: Vormonat) als Zeitraum in Berliner Zeit */
+function monatsZeitraum(monat?: string): { von: Date; bis: Date; label: string } {
+  const basis = monat
+    ? DateTime.fromFormat(monat, "yyyy-MM", { zone: ZONE })
+    : DateTime.now().setZone(ZONE).minus({ months: 1 });
+  if (!basis.isValid) throw new Error("Ungültiger Monat (erwartet JJJJ-MM)");
+  const start = basis.startOf("month");
+  return { von: start.toJSDate(), bis: start.endOf("month").toJSDate(), label: start.setLocale("de").toFormat("LLLL yyyy") };
+}
+
+function dateiname(kundeName: string, bis: Date): string {
+  const name = kundeName.replace(/\s+/g, "_").replace(/[^A-Za-z0-9_\-]/g, "");
+  return `Leergut-Kontoauszug_${name}_${DateTime.fromJSDate(bis, { zone: ZONE }).toFormat("yyyy-MM-dd")}.pdf`;
+}
+
+/** Kennung des Monatsauszugs je Kunde, z.B. "leergut-auszug:<kundeId>:2026-09" */
+function auszugLaufKey(kundeId: string, von: Date): string {
+  return `leergut-auszug:${kundeId}:${DateTime.fromJSDate(von, { zone: ZONE }).toFormat("yyyy-MM")}`;
+}
+
+function addSoll(soll: Map<string, SollBuchung>, key: string, buchung: SollBuchung) {
+  const vorhanden = soll.get(key);
+  if (vorhanden) vorhanden.menge += buchung.menge;
+  else soll.set(key, { ...buchung });
+}
+
+/* ------------------------------ Synchronisation ----------------------------- */
+
+/**
+ * Gleicht die Lieferungs-/Rückgabebuchungen eines Auftrags mit seinem aktuellen Stand ab
+ * (Leergut der Positionen, Mitnahme am TourStop) und bucht Differenzen nach.
+ * Auch für gelöschte oder stornierte Aufträge: bestehende Buchungen werden dann ausgeglichen.
+ * Jede Differenz erhält je quelleKey eine fortlaufende folgeNr (eindeutig) – laufen zwei Abgleiche
+ * gleichzeitig, scheitert der zweite am Index und rechnet mit dem neuen Journalstand erneut.
+ */
+export async function synchronisiereAuftrag(auftragId: string | Types.ObjectId): Promise<number> {
+  const id = new Types.ObjectId(auftragId.toString());
+  for (let versuch = 1; ; versuch++) {
+    try {
+      return await gleicheAuftragAb(id);
+    } catch (err: any) {
+      // E11000 auf (quelleKey, folgeNr): ein paralleler Abgleich hat dieselbe Differenz schon gebucht → neu berechnen
+      const duplikat = err?.code === 11000 || (err?.writeErrors ?? []).some((e: any) => e?.code === 11000);
+      if (!duplikat || versuch >= 3) throw err;
+    }
+  }
+}
+
+async function gleicheAuftragAb(id: Types.ObjectId): Promise<number> {
+  const auftrag = await Auftrag.findById(id).select({ kunde: 1, status: 1, lieferdatum: 1, artikelPosition: 1 }).lean();
+  const stop = await TourStop.findOne({ auftragId: id }).lean();
+
+  const soll = new Map<string, SollBuchung>();
+  if (auftrag && auftrag.status !== "storniert") {
+    const kunde = auftrag.kunde;
+    const ab = await eroeffnungsDatum(kunde);
+
+    const geliefert = auftrag.status === "abgeschlossen" || (!!stop && GELIEFERT_STATUS.includes(stop.status));
+    const lieferDatum = stop?.abgeschlossenAm ? new Date(stop.abgeschlossenAm) : auftrag.lieferdatum ?? new Date();
+    if (geliefert && (!ab || lieferDatum >= ab)) {
+      // Nur Hauptpositionen – die daraus erzeugten Leergut-Artikelpositionen zählen nicht doppelt
+      const positionen = await ArtikelPosition.find({
+        _id: { $in: auftrag.artikelPosition },
+        leergutVonPositionId: { $exists: false },
+      })
+        .select({ leergut: 1 })
+        .lean();
+      for (const p of positionen) {
+        for (const l of p.leergut ?? []) {
+          if (!l.leergutArt || !(Number(l.leergutAnzahl) > 0)) continue;
+          const art = normalisiereLeergutArt(l.leergutArt);
+          addSoll(soll, `lieferung:${id}:${kunde}:${art}`, {
+            kunde,
+            leergutArt: art,
+            datum: lieferDatum,
+            menge: Number(l.leergutAnzahl),
+            art: "lieferung",
+            tourStop: stop?._id,
+          });
+        }
+      }
+    }
+
+    const rueckgabeDatum = new Date(stop?.abgeschlossenAm ?? stop?.signTimestampUtc ?? stop?.updatedAt ?? Date.now());
+    if (stop && ANGEFAHREN_STATUS.includes(stop.status) && (!ab || rueckgabeDatum >= ab)) {
+      for (const l of stop.leergutMitnahme ?? []) {
+        if (!l.art || !(Number(l.anzahl) > 0)) continue;
+        const art = normalisiereLeergutArt(l.art);
+        addSoll(soll, `rueckgabe:${id}:${kunde}:${art}`, {
+          kunde,
+          leergutArt: art,
+          datum: rueckgabeDatum,
+          menge: -Number(l.anzahl),
+          art: "rueckgabe",
+          tourStop: stop._id,
+        });
+      }
+    }
+  }
+
+  const ist: {
+    _id: string;
+    menge: number;
+    anzahl: number;
+    kunde: Types.ObjectId;
+    leergutArt: string;
+    art: LeergutBuchungsArt;
+    datum: Date;
+  }[] =
+    await LeergutKontoBuchung.aggregate([
+      { $match: { auftrag: id, art: { $in: ["lieferung", "rueckgabe"] } } },
+      {
+        $group: {
+          _id: "$quelleKey",
+          menge: { $sum: "$menge" },
+          anzahl: { $sum: 1 },
+          kunde: { $first: "$kunde" },
+          leergutArt: { $first: "$leergutArt" },
+          art: { $first: "$art" },
+          datum: { $first: "$datum" },
+        },
+      },
+    ]);
+  const istByKey = new Map(ist.map((i) => [i._id, i]));
+
+  const differenzen = [];
+  for (const key of new Set([...soll.keys(), ...istByKey.keys()])) {
+    const s = soll.get(key);
+    const i = istByKey.get(key);
+    const delta = (s?.menge ?? 0) - (i?.menge ?? 0);
+    if (delta === 0) continue;
+    const basis = s ?? i!;
+    differenzen.push({
+      kunde: basis.kunde,
+      leergutArt: basis.leergutArt,
+      datum: basis.datum,
+      menge: delta,
+      art: basis.art,
+      quelleKey: key,
+      folgeNr: i?.anzahl ?? 0,
+      auftrag: id,
+      tourStop: s?.tourStop,
+      bemerkung: i ? "Nachbuchung (Auftrag/Stop geändert)" : undefined,
+    });
+  }
+  if (differenzen.length) await LeergutKontoBuchung.insertMany(differenzen, { ordered: false });
+  return differenzen.length;
+}
+
+/**
+ * Vollabgleich aller gelieferten/angefahrenen Aufträge (optional nur seit einem Zeitpunkt geänderte).
+ */
+export async function synchronisiereAlle(seit?: Date): Promise<{ auftraege: number; buchungen: number }> {
+  const geaendert = seit ? { updatedAt: { $gte: seit } } : {};
+  const ids = new Set<string>();
+  for (const id of await Auftrag.find({ status: "abgeschlossen", ...geaendert }).distinct("_id")) ids.add(id.toString());
+  for (const id of await TourStop.find({ status: { $in: ANGEFAHREN_STATUS }, ...geaendert }).distinct("auftragId")) {
+    ids.add(id.toString());
+  }
+  // bereits gebuchte Aufträge erneut prüfen (storniert/gelöscht/zurückgesetzt)
+  if (!seit) {
+    for (const id of await LeergutKontoBuchung.find({ auftrag: { $exists: true } }).distinct("auftrag")) ids.add(id.toString());
+  }
+
+  let buchungen = 0;
+  for (const id of ids) buchungen += await synchronisiereAuftrag(id);
+  return { auftraege: ids.size, buchungen };
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Übernimmt den Bestand einer Leergutliste (Standard: letzter Import) als Eröffnungsbestand.
+ * Kunden mit bereits eröffnetem Konto werden übersprungen (Abweichungen → Korrekturbuchung).
+ */
+export async function uebernehmeEroeffnungsbestand(
+  importId: string | undefined,
+  userId?: string
+): Promise<{ eroeffnet: number; uebersprungen: number; nichtZugeordnet: number }> {
+  const imp = importId
+    ? await LeergutImport.findById(importId).lean()
+    : await LeergutImport.findOne().sort({ datum: -1 }).lean();
+  if (!imp) throw new Error("Leergut-Import nicht gefunden");
+
+  const eintraege = await LeergutEintrag.find({ importId: imp._id }).lean();
+  const nichtZugeordnet = new Set(eintraege.filter((e) => !e.kundeRef).map((e) => e.kundennr)).size;
+
+  const bestand = new Map<string, Map<string, number>>();
+  for (const e of eintraege) {
+    if (!e.kundeRef) continue;
+    const jeArt = bestand.get(e.kundeRef.toString()) ?? new Map<string, number>();
+    const art = normalisiereLeergutArt(e.artikel);
+    jeArt.set(art, (jeArt.get(art) ?? 0) + e.alterBestand);
+    bestand.set(e.kundeRef.toString(), jeArt);
+  }
+
+  const bereitsEroeffnet = new Set(
+    (await LeergutKontoBuchung.find({ art: "eroeffnung" }).distinct("kunde")).map((k) => k.toString())
+  );
+
+  let eroeffnet = 0;
+  let uebersprungen = 0;
+  for (const [kundeId, jeArt] of bestand) {
+    if (bereitsEroeffnet.has(kundeId)) {
+      uebersprungen++;
+      continue;
+    }
+    const kunde = new Types.ObjectId(kundeId);
+    await LeergutKontoBuchung.insertMany(
+      [...jeArt.entries()].map(([art, menge]) => ({
+        kunde,
+        leergutArt: art,
+        datum: imp.datum,
+        menge,
+        art: "eroeffnung",
+        quelleKey: `eroeffnung:${kundeId}:${art}`,
+        leergutImport: imp._id,
+        bemerkung: "Eröffnungsbestand aus Leergutliste",
+        erstelltVon: userId,
+      }))
+    );
+    eroeffnet++;
+
+    // Bewegungen vor dem Eröffnungsdatum sind im Bestand enthalten → ausgleichen
+    const frueher = await LeergutKontoBuchung.find({
+      kunde,
+      art: { $in: ["lieferung", "rueckgabe"] },
+      datum: { $lt: imp.datum },
+    }).distinct("auftrag");
+    for (const auftragId of frueher) await synchronisiereAuftrag(auftragId);
+  }
+
+  return { eroeffnet, uebersprungen, nichtZugeordnet };
+}
+
+/**
+ * Manuelle Korrekturbuchung (z.B. Inventur beim Kunden, Bruch, Verrechnung).
+ */
+export async function bucheKorrektur(
+  data: { kundeId: string; leergutArt: string; menge: number; datum?: string; bemerkung: string },
+  userId?: string
+): Promise<LeergutKontoBuchungResource> {
+  if (!mongoose.Types.ObjectId.isValid(data.kundeId)) throw new Error("Ungültige Kunden-ID");
+  if (!data.menge) throw new Error("Menge darf nicht 0 sein");
+  if (!data.bemerkung?.trim()) throw new Error("Für Korrekturbuchungen ist eine Begründung erforderlich");
+  const kunde = await Kunde.findById(data.kundeId).select({ _id: 1 }).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+
+  const doc = await LeergutKontoBuchung.create({
+    kunde: kunde._id,
+    leergutArt: normalisiereLeergutArt(data.leergutArt),
+    datum: data.datum ? new Date(data.datum) : new Date(),
+    menge: data.menge,
+    art: "korrektur",
+    bemerkung: data.bemerkung.trim(),
+    erstelltVon: userId,
+  });
+  return buchungToResource(doc);
+}
+
+/**
+ * Saldo je Leergutart zum Stichtag (Standard: jetzt).
+ */
+export async function getLeergutSalden(kundeId: string, stichtag?: Date): Promise<LeergutSaldoResource[]> {
+  if (!mongoose.Types.ObjectId.isValid(kundeId)) throw new Error("Ungültige Kunden-ID");
+  const rows = await LeergutKontoBuchung.aggregate([
+    { $match: { kunde: new Types.ObjectId(kundeId), datum: { $lte: stichtag ?? new Date() } } },
+    { $group: { _id: "$leergutArt", saldo: { $sum: "$menge" } } },
+    { $sort: { _id: 1 } },
+  ]);
+  return rows.map((r) => ({ leergutArt: r._id, bezeichnung: bezeichnung(r._id), saldo: r.saldo }));
+}
+
+/**
+ * Kontoauszug: Anfangsbestand, Buchungen mit laufendem Saldo und Endbestand je Leergutart.
+ */
+export async function getLeergutKontoauszug(
+  kundeId: string,
+  params: { von?: Date; bis?: Date; leergutArt?: string } = {}
+): Promise<LeergutKontoauszugResource> {
+  if (!mongoose.Types.ObjectId.isValid(kundeId)) throw new Error("Ungültige Kunden-ID");
+  const kunde = await Kunde.findById(kundeId).select({ name: 1 }).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  const bis = params.bis ?? new Date();
+  const artFilter = params.leergutArt ? { leergutArt: normalisiereLeergutArt(params.leergutArt) } : {};
+
+  const anfang = params.von
+    ? await LeergutKontoBuchung.aggregate([
+        { $match: { kunde: kunde._id, ...artFilter, datum: { $lt: params.von } } },
+        { $group: { _id: "$leergutArt", saldo: { $sum: "$menge" } } },
+      ])
+    : [];
+  const anfangByArt = new Map<string, number>(anfang.map((a) => [a._id, a.saldo]));
+
+  const buchungen = await LeergutKontoBuchung.find({
+    kunde: kunde._id,
+    ...artFilter,
+    datum: { ...(params.von ? { $gte: params.von } : {}), $lte: bis },
+  })
+    .sort({ datum: 1, createdAt: 1 })
+    .lean();
+
+  // Lieferscheinnummer (finaler Lieferschein, sonst Auftragsnummer) je Auftrag
+  const auftragIds = [...new Set(buchungen.filter((b) => b.auftrag).map((b) => b.auftrag!.toString()))];
+  const auftraege = await Auftrag.find({ _id: { $in: auftragIds } }).select({ auftragsnummer: 1, belegListe: 1 }).lean();
+  const belegNummer = new Map(
+    auftraege.map((a) => {
+      const ls = (a.belegListe ?? []).find((b) => b.typ === "lieferschein" && b.nummer);
+      return [a._id.toString(), ls?.nummer ?? a.auftragsnummer];
+    })
+  );
+
+  const arten = [...new Set([...anfangByArt.keys(), ...buchungen.map((b) => b.leergutArt)])].sort();
+  return {
+    kundeId: kunde._id.toString(),
+    kundeName: kunde.name,
+    von: params.von?.toISOString(),
+    bis: bis.toISOString(),
+    konten: arten.map((art) => {
+      const anfangsbestand = anfangByArt.get(art) ?? 0;
+      let saldo = anfangsbestand;
+      let zugang = 0;
+      let abgang = 0;
+      const zeilen = buchungen
+        .filter((b) => b.leergutArt === art)
+        .map((b) => {
+          saldo += b.menge;
+          if (b.menge > 0) zugang += b.menge;
+          else abgang -= b.menge;
+          const zeile = buchungToResource(b, saldo);
+          if (b.auftrag) zeile.belegNummer = belegNummer.get(b.auftrag.toString());
+          return zeile;
+        });
+      return { leergutArt: art, bezeichnung: bezeichnung(art), anfangsbestand, zugang, abgang, endbestand: saldo, buchungen: zeilen };
+    }),
+  };
+}
+
+/**
+ * Kontoauszug als PDF (Layout der Belege).
+ */
+export async function getLeergutKontoauszugPdf(
+  kundeId: string,
+  params: { von?: Date; bis?: Date; leergutArt?: string } = {}
+): Promise<{ pdf: Buffer; filename: string }> {
+  const auszug = await getLeergutKontoauszug(kundeId, params);
+  const kunde = await Kunde.findById(kundeId).select({ name: 1, adresse: 1, kundenNummer: 1 }).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  const pdf = await generateLeergutKontoauszugPdf({
+    kunde: { name: kunde.name, adresse: kunde.adresse, kundenNummer: kunde.kundenNummer },
+    datum: new Date(),
+    auszug,
+  });
+  return { pdf, filename: dateiname(kunde.name, new Date(auszug.bis)) };
+}
+
+/**
+ * Versendet den Kontoauszug eines Monats (Standard: Vormonat) an alle Kunden mit Leergutbestand ≠ 0
+ * zum Monatsende. Empfänger: emailBuchhaltung, sonst email. Bereits versendete Auszüge
+ * (gleicher laufKey Kunde+Monat im E-Mail-Log) werden übersprungen, der Lauf kann also wiederholt werden.
+ */
+export async function versendeLeergutKontoauszuege(params: { monat?: string } = {}): Promise<LeergutAuszugLaufResource> {
+  const { von, bis, label } = monatsZeitraum(params.monat);
+  const ergebnis: LeergutAuszugLaufResource = {
+    zeitraum: label,
+    von: von.toISOString(),
+    bis: bis.toISOString(),
+    versendet: 0,
+    uebersprungen: 0,
+    ohneEmail: [],
+    fehler: [],
+  };
+
+  const mitBestand: { _id: Types.ObjectId }[] = await LeergutKontoBuchung.aggregate([
+    { $match: { datum: { $lte: bis } } },
+    { $group: { _id: { kunde: "$kunde", art: "$leergutArt" }, saldo: { $sum: "$menge" } } },
+    { $match: { saldo: { $ne: 0 } } },
+    { $group: { _id: "$_id.kunde" } },
+  ]);
+  const kunden = await Kunde.find({ _id: { $in: mitBestand.map((k) => k._id) } })
+    .select({ name: 1, adresse: 1, kundenNummer: 1, email: 1, emailBuchhaltung: 1 })
+    .sort({ name: 1 })
+    .lean();
+
+  for (const kunde of kunden) {
+    const kundeId = kunde._id.toString();
+    const empfaenger = kunde.emailBuchhaltung || kunde.email;
+    if (!empfaenger) {
+      ergebnis.ohneEmail.push({ kundeId, kundeName: kunde.name });
+      continue;
+    }
+    const betreff = `Leergut-Kontoauszug ${label} – ${kunde.name} – Hacilar`;
+    const laufKey = auszugLaufKey(kundeId, von);
+    if (await EmailLog.exists({ typ: "leergut", status: "gesendet", laufKey })) {
+      ergebnis.uebersprungen++;
+      continue;
+    }
+    try {
+      const auszug = await getLeergutKontoauszug(kundeId, { von, bis });
+      const pdf = await generateLeergutKontoauszugPdf({
+        kunde: { name: kunde.name, adresse: kunde.adresse, kundenNummer: kunde.kundenNummer },
+        datum: new Date(),
+        auszug,
+      });
+      await sendLeergutKontoauszugEmail({
+        kundenEmail: empfaenger,
+        kundenName: kunde.name,
+        betreff,
+        zeitraum: label,
+        salden: auszug.konten
+          .filter((k) => k.endbestand !== 0)
+          .map((k) => ({ bezeichnung: k.bezeichnung, saldo: k.endbestand })),
+        pdfBuffer: pdf,
+        pdfFilename: dateiname(kunde.name, bis),
+        laufKey,
+      });
+      ergebnis.versendet++;
+    } catch (err: any) {
+      ergebnis.fehler.push({ kundeId, kundeName: kunde.name, fehler: err?.message || "Unbekannter Fehler" });
+    }
+  }
+  return ergebnis;
+}
+
+/* ------------------------------ Monatslauf ------------------------------ */
+
+function naechsterAuszugLauf(): Date {
+  const jetzt = DateTime.now().setZone(ZONE);
+  let lauf = jetzt.startOf("month").set({ hour: 6 });
+  if (lauf <= jetzt) lauf = lauf.plus({ months: 1 });
+  return lauf.toJSDate();
+}
+
+/**
+ * Plant den Kontoauszugsversand am Monatsersten um 06:00 ein (nur mit LEERGUT_AUSZUG_AUTOLAUF=1).
+ */
+export async function planeLeergutAuszugLauf(): Promise<void> {
+  if (process.env.LEERGUT_AUSZUG_AUTOLAUF !== "1") return;
+  await scheduleJob({ typ: AUSZUG_JOB, key: "monatlich", runAt: naechsterAuszugLauf(), maxAttempts: 3 });
+}
+
+// Folgelauf erst nach erfolgreichem Lauf einplanen – bei Fehlern wiederholt die Queue diesen Job (maxAttempts)
+registerJobHandler(AUSZUG_JOB, async () => {
+  const { zeitraum, versendet, uebersprungen, ohneEmail, fehler } = await versendeLeergutKontoauszuege();
+  logger.info(
+    `[Leergut] Kontoauszüge ${zeitraum}: ${versendet} versendet, ${uebersprungen} bereits versendet, ${ohneEmail.length} ohne E-Mail, ${fehler.length} Fehler`
+  );
+  for (const f of fehler) logger.error(`[Leergut] Kontoauszug ${f.kundeName}: ${f.fehler}`);
+  await planeLeergutAuszugLauf();
+});
@@ -1,3 +1,4 @@
+import { Types } from "mongoose";
 import { LeergutImport } from "../model/LeergutImportModel";
 import { LeergutEintrag } from "../model/LeergutEintragModel";
 import { LeergutBuchung } from "../model/LeergutBuchungModel";
@@ -5,6 +6,8 @@ import {
   LeergutImportResource,
   LeergutEintragResource,
 } from "../Resources";
+import { verknuepfeImport } from "./KundenZuordnungService";
+import { ladeDatei, loescheDateienVonBesitzer, speichereBase64, speichereDatei } from "./dateien/DateiService";
 
 // ── Helpers ──
 
@@ -27,6 +30,8 @@ function eintragToResource(doc: any): LeergutEintragResource {
     adresse: doc.adresse || "",
     artikel: doc.artikel,
     alterBestand: doc.alterBestand,
+    kundeId: doc.kundeRef ? doc.kundeRef.toString() : undefined,
+    kundeZuordnung: doc.kundeZuordnung ?? undefined,
   };
 }
 
@@ -53,6 +58,24 @@ export async function getLatestEintraege(): Promise<LeergutEintragResource[]> {
   return getEintraegeByImport(latestImport._id.toString());
 }
 
+/** Leergut-Bestand eines verknüpften Kunden je Artikel aus dem letzten Import */
+export async function getBestandByKunde(kundeId: string): Promise<{
+  importDatum?: string;
+  bestand: { artikel: string; menge: number }[];
+}> {
+  const latestImport = await LeergutImport.findOne().sort({ datum: -1 });
+  if (!latestImport) return { bestand: [] };
+  const rows = await LeergutEintrag.aggregate([
+    { $match: { importId: latestImport._id, kundeRef: new Types.ObjectId(kundeId) } },
+    { $group: { _id: "$artikel", menge: { $sum: "$alterBestand" } } },
+    { $sort: { _id: 1 } },
+  ]);
+  return {
+    importDatum: latestImport.datum.toISOString(),
+    bestand: rows.map((r) => ({ artikel: r._id, menge: r.menge })),
+  };
+}
+
 export async function createImport(data: {
   anzahlDateien: number;
   eintraege: {
@@ -85,6 +108,7 @@ export async function createImport(data: {
       alterBestand: e.alterBestand,
     }));
     await LeergutEintrag.insertMany(eintragDocs);
+    await verknuepfeImport("leergut", importDoc._id);
   }
 
   return importToResource(importDoc);
@@ -98,55 +122,91 @@ export async function deleteImport(importId: string): Promise<void> {
 
 export async function deleteKundeEintraege(kundennr: string): Promise<{ deleted: number }> {
   const result = await LeergutEintrag.deleteMany({ kundennr });
+  const buchungIds = await LeergutBuchung.find({ kundennr }).distinct("_id");
+  await loescheDateienVonBesitzer("leergutbuchung", buchungIds);
   await LeergutBuchung.deleteMany({ kundennr });
   return { deleted: result.deletedCount };
 }
 
 // ── Buchungen (PDF-Anhänge) ──
 
-export async function getBuchungenByKunde(kundennr: string) {
-  const docs = await LeergutBuchung.find({ kundennr }).sort({ uploadDatum: -1 });
-  return docs.map((d) => ({
+function buchungToResource(d: any) {
+  return {
     id: d._id.toString(),
     kundennr: d.kundennr,
     kunde: d.kunde,
     filename: d.filename,
     uploadDatum: d.uploadDatum.toISOString(),
-  }));
+    pdfDateiId: d.pdfDateiId ? d.pdfDateiId.toString() : undefined,
+  };
+}
+
+/** PDF-Inhalt als Base64 – aus der Dateiablage oder (Altbestand) direkt aus der Buchung */
+async function pdfBase64Von(d: { pdfDateiId?: Types.ObjectId; pdfBase64?: string }): Promise<string | null> {
+  if (d.pdfDateiId) return (await ladeDatei(d.pdfDateiId.toString())).daten.toString("base64");
+  return d.pdfBase64 || null;
+}
+
+export async function getBuchungenByKunde(kundennr: string) {
+  const docs = await LeergutBuchung.find({ kundennr }).select("-pdfBase64").sort({ uploadDatum: -1 });
+  return docs.map(buchungToResource);
 }
 
 export async function getBuchungPdf(id: string): Promise<string | null> {
-  const doc = await LeergutBuchung.findById(id);
-  return doc?.pdfBase64 || null;
+  const doc = await LeergutBuchung.findById(id).lean();
+  return doc ? pdfBase64Von(doc) : null;
 }
 
-export async function createBuchung(data: {
-  kundennr: string;
-  kunde: string;
-  filename: string;
-  pdfBase64: string;
-}) {
+/**
+ * Legt eine Buchung an; das PDF (Base64 aus JSON oder Buffer aus Multipart-Upload)
+ * landet in der Dateiablage.
+ */
+export async function createBuchung(
+  data: {
+    kundennr: string;
+    kunde: string;
+    filename: string;
+    pdfBase64?: string;
+    pdf?: Buffer;
+  },
+  userId?: string
+) {
+  if (!data.pdf && !data.pdfBase64) throw new Error("PDF-Daten erforderlich");
   const doc = await LeergutBuchung.create({
     kundennr: data.kundennr,
     kunde: data.kunde,
     filename: data.filename,
-    pdfBase64: data.pdfBase64,
     uploadDatum: new Date(),
   });
-  return {
-    id: doc._id.toString(),
-    kundennr: doc.kundennr,
-    kunde: doc.kunde,
-    filename: doc.filename,
-    uploadDatum: doc.uploadDatum.toISOString(),
-  };
+  try {
+    const datei = data.pdf
+      ? await speichereDatei(
+          { daten: data.pdf, dateiname: data.filename, besitzerTyp: "leergutbuchung", besitzerId: doc._id, zweck: "leergut-pdf" },
+          userId
+        )
+      : await speichereBase64(
+          { base64: data.pdfBase64!, dateiname: data.filename, besitzerTyp: "leergutbuchung", besitzerId: doc._id, zweck: "leergut-pdf" },
+          userId
+        );
+    doc.pdfDateiId = new Types.ObjectId(datei.id);
+  } catch (err) {
+    await LeergutBuchung.deleteOne({ _id: doc._id });
+    throw err;
+  }
+  return buchungToResource(doc);
 }
 
 export async function deleteBuchung(id: string): Promise<void> {
+  await loescheDateienVonBesitzer("leergutbuchung", [id]);
   await LeergutBuchung.findByIdAndDelete(id);
 }
 
 export async function getBuchungenPdfsForEmail(kundennr: string): Promise<{ filename: string; pdfBase64: string }[]> {
-  const docs = await LeergutBuchung.find({ kundennr });
-  return docs.map((d) => ({ filename: d.filename, pdfBase64: d.pdfBase64 }));
+  const docs = await LeergutBuchung.find({ kundennr }).lean();
+  const result: { filename: string; pdfBase64: string }[] = [];
+  for (const d of docs) {
+    const pdfBase64 = await pdfBase64Von(d);
+    if (pdfBase64) result.push({ filename: d.filename, pdfBase64 });
+  }
+  return result;
 }
@@ -0,0 +1,495 @@
+/**
+ * MahnwesenService.ts
+ *
+ * Mahnwesen auf Basis der Offenen Posten (letzter Import) oder der eigenen offenen Rechnungen.
+ * - Mahnstufen konfigurierbar (Tage nach Fälligkeit, Gebühr, Zahlungsfrist, Brieftext mit Platzhaltern)
+ * - Mahnlauf: je Kunde ein Vorschlag mit allen fälligen Posten; Stufen werden nicht übersprungen,
+ *   die nächste Stufe erst nach Ablauf der Zahlungsfrist der vorherigen Mahnung
+ * - Freigabe: PDF-Mahnschreiben, Mahnstufe/Mahndatum wird am Offenen Posten bzw. Auftrag vermerkt
+ * - Versand an Kunde.emailBuchhaltung (Fallback: emailRechnung, email)
+ */
+
+import mongoose, { Types } from "mongoose";
+import { Auftrag } from "../model/AuftragModel";
+import { Kunde } from "../model/KundeModel";
+import { Mahnstufe } from "../model/MahnstufeModel";
+import { Mahnung } from "../model/MahnungModel";
+import { OffenerPosten } from "../model/OffenerPostenModel";
+import { OffenerPostenImport } from "../model/OffenerPostenImportModel";
+import { MahnstufeResource, MahnungQuelle, MahnungResource, MahnungStatus } from "../Resources";
+import { generateMahnungPdf } from "./BelegService";
+import { sendMahnungEmail } from "./EmailService";
+import { getVerkaeuferConfig } from "./XRechnungService";
+
+const TAG_MS = 24 * 60 * 60 * 1000;
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+const STANDARD_STUFEN: MahnstufeResource[] = [
+  {
+    stufe: 1,
+    bezeichnung: "Zahlungserinnerung",
+    tageUeberfaellig: 7,
+    gebuehr: 0,
+    zahlungsfristTage: 7,
+    betreff: "Zahlungserinnerung – Kundennummer {{kundenNummer}}",
+    text:
+      "Sehr geehrte Damen und Herren,\n\nsicher haben Sie in der Hektik des Alltags übersehen, die folgenden Rechnungen zu begleichen. " +
+      "Wir bitten Sie, den offenen Betrag von {{gesamt}} bis zum {{frist}} zu überweisen.\n\n" +
+      "Sollten Sie die Zahlung bereits veranlasst haben, betrachten Sie dieses Schreiben bitte als gegenstandslos.",
+    aktiv: true,
+  },
+  {
+    stufe: 2,
+    bezeichnung: "1. Mahnung",
+    tageUeberfaellig: 21,
+    gebuehr: 5,
+    zahlungsfristTage: 7,
+    betreff: "1. Mahnung – Kundennummer {{kundenNummer}}",
+    text:
+      "Sehr geehrte Damen und Herren,\n\ntrotz unserer Zahlungserinnerung konnten wir für die folgenden Rechnungen noch keinen Zahlungseingang feststellen. " +
+      "Bitte überweisen Sie den Betrag von {{gesamt}} (inkl. Mahngebühr {{gebuehr}}) bis spätestens {{frist}}.",
+    aktiv: true,
+  },
+  {
+    stufe: 3,
+    bezeichnung: "2. Mahnung",
+    tageUeberfaellig: 35,
+    gebuehr: 10,
+    zahlungsfristTage: 7,
+    betreff: "2. und letzte Mahnung – Kundennummer {{kundenNummer}}",
+    text:
+      "Sehr geehrte Damen und Herren,\n\nleider sind die folgenden Rechnungen trotz Mahnung weiterhin offen. " +
+      "Wir fordern Sie letztmalig auf, den Betrag von {{gesamt}} bis zum {{frist}} zu begleichen. " +
+      "Nach Ablauf der Frist behalten wir uns weitere Schritte sowie eine Liefersperre vor.",
+    aktiv: true,
+  },
+];
+
+type Kandidat = {
+  kundeKey: string;
+  kundeId?: Types.ObjectId;
+  kundeName: string;
+  kundenNummer?: string;
+  reNr: string;
+  belegDatum: Date;
+  betrag: number;
+  tageUeberfaellig: number;
+  aktuelleStufe: number;
+  auftrag?: Types.ObjectId;
+  offenerPosten?: Types.ObjectId;
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function euro(n: number): string {
+  return new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(n);
+}
+
+function stufeToResource(doc: any): MahnstufeResource {
+  return {
+    id: doc._id?.toString(),
+    stufe: doc.stufe,
+    bezeichnung: doc.bezeichnung,
+    tageUeberfaellig: doc.tageUeberfaellig,
+    gebuehr: doc.gebuehr ?? 0,
+    zahlungsfristTage: doc.zahlungsfristTage ?? 7,
+    betreff: doc.betreff,
+    text: doc.text,
+    aktiv: doc.aktiv !== false,
+  };
+}
+
+function mahnungToResource(doc: any): MahnungResource {
+  return {
+    id: doc._id.toString(),
+    quelle: doc.quelle,
+    kundeId: doc.kunde ? doc.kunde.toString() : undefined,
+    kundeName: doc.kundeName,
+    kundenNummer: doc.kundenNummer ?? undefined,
+    stufe: doc.stufe,
+    stufeBezeichnung: doc.stufeBezeichnung,
+    datum: new Date(doc.datum).toISOString(),
+    zahlungsfrist: new Date(doc.zahlungsfrist).toISOString(),
+    posten: (doc.posten ?? []).map((p: any) => ({
+      reNr: p.reNr,
+      belegDatum: new Date(p.belegDatum).toISOString(),
+      betrag: p.betrag,
+      tageUeberfaellig: p.tageUeberfaellig,
+      stufe: p.stufe,
+      auftragId: p.auftrag ? p.auftrag.toString() : undefined,
+      offenerPostenId: p.offenerPosten ? p.offenerPosten.toString() : undefined,
+    })),
+    summe: doc.summe,
+    gebuehr: doc.gebuehr ?? 0,
+    gesamt: doc.gesamt,
+    status: doc.status,
+    emailEmpfaenger: doc.emailEmpfaenger ?? undefined,
+    versendetAm: doc.versendetAm ? new Date(doc.versendetAm).toISOString() : undefined,
+  };
+}
+
+/** Platzhalter {{name}} im Brieftext ersetzen */
+function fuelleVorlage(vorlage: string, werte: Record<string, string>): string {
+  return vorlage.replace(/\{\{\s*(\w+)\s*\}\}/g, (m, key) => (key in werte ? werte[key] : m));
+}
+
+function vorlagenWerte(m: any, stufeBezeichnung: string): Record<string, string> {
+  return {
+    kunde: m.kundeName,
+    kundenNummer: m.kundenNummer ?? "—",
+    summe: euro(m.summe),
+    gebuehr: euro(m.gebuehr),
+    gesamt: euro(m.gesamt),
+    frist: m.zahlungsfrist.toLocaleDateString("de-DE"),
+    datum: m.datum.toLocaleDateString("de-DE"),
+    stufe: stufeBezeichnung,
+  };
+}
+
+/** Letzte freigegebene Mahnung je Rechnungsnummer (Stufe + Zahlungsfrist) */
+async function letzteMahnungen(reNrs: string[]): Promise<Map<string, { stufe: number; zahlungsfrist: Date }>> {
+  const rows = await Mahnung.aggregate([
+    { $match: { status: { $in: ["erstellt", "versendet"] }, "posten.reNr": { $in: reNrs } } },
+    { $unwind: "$posten" },
+    { $match: { "posten.reNr": { $in: reNrs } } },
+    { $sort: { datum: -1, _id: -1 } },
+    { $group: { _id: "$posten.reNr", stufe: { $first: "$posten.stufe" }, zahlungsfrist: { $first: "$zahlungsfrist" } } },
+  ]);
+  return new Map(rows.map((r: any) => [r._id, { stufe: r.stufe, zahlungsfrist: r.zahlungsfrist }]));
+}
+
+async function kandidatenAusOffenenPosten(stichtag: Date, zahlungsziel: number): Promise<Kandidat[]> {
+  const latest = await OffenerPostenImport.findOne().sort({ datum: -1 });
+  if (!latest) throw new Error("Kein Import der Offenen Posten vorhanden");
+  const posten = await OffenerPosten.find({ importId: latest._id }).lean();
+
+  // Kunde über die gespeicherte Verknüpfung (KundenZuordnungService)
+  const kundenIds = [...new Set(posten.filter((p) => p.kundeRef).map((p) => p.kundeRef!.toString()))];
+  const kunden = await Kunde.find({ _id: { $in: kundenIds } }).select({ name: 1 }).lean();
+  const kundeById = new Map(kunden.map((k) => [k._id.toString(), k]));
+
+  // tageOffen bezieht sich auf das Berichtsdatum des Imports → auf den Stichtag fortschreiben
+  const tageSeitBericht = Math.max(0, Math.floor((stichtag.getTime() - latest.berichtsDatum.getTime()) / TAG_MS));
+
+  return posten
+    .filter((p) => p.betrag > 0)
+    .map((p) => {
+      const kunde = p.kundeRef ? kundeById.get(p.kundeRef.toString()) : undefined;
+      return {
+        kundeKey: `op:${p.kontonr}`,
+        kundeId: kunde?._id,
+        kundeName: kunde?.name ?? p.kunde,
+        kundenNummer: p.kontonr,
+        reNr: p.reNr,
+        belegDatum: p.datum,
+        betrag: p.betrag,
+        tageUeberfaellig: p.tageOffen + tageSeitBericht - zahlungsziel,
+        aktuelleStufe: Number(p.stufe) || 0,
+        offenerPosten: p._id,
+      };
+    });
+}
+
+async function kandidatenAusRechnungen(stichtag: Date, zahlungsziel: number): Promise<Kandidat[]> {
+  const auftraege = await Auftrag.find({
+    rechnungFinalisiertAm: { $exists: true },
+    status: { $ne: "storniert" },
+    zahlstatus: { $ne: "bezahlt" },
+  })
+    .select({ kunde: 1, rechnungsNummer: 1, rechnungFinalisiertAm: 1, offenBetrag: 1, belegListe: 1, mahnstufe: 1 })
+    .lean();
+
+  const kundenIds = [...new Set(auftraege.map((a) => a.kunde.toString()))];
+  const kunden = await Kunde.find({ _id: { $in: kundenIds } }).select({ name: 1, kundenNummer: 1 }).lean();
+  const kundeById = new Map(kunden.map((k) => [k._id.toString(), k]));
+
+  const result: Kandidat[] = [];
+  for (const a of auftraege) {
+    const beleg = (a.belegListe ?? []).find(
+      (b) => b.typ === "rechnung" && b.status === "final" && b.nummer === a.rechnungsNummer
+    );
+    const betrag = typeof a.offenBetrag === "number" ? a.offenBetrag : beleg?.betrag ?? 0;
+    if (!(betrag > 0) || !a.rechnungsNummer) continue;
+    const belegDatum = beleg?.datum ? new Date(beleg.datum) : new Date(a.rechnungFinalisiertAm!);
+    const kunde = kundeById.get(a.kunde.toString());
+    result.push({
+      kundeKey: `kd:${a.kunde.toString()}`,
+      kundeId: a.kunde,
+      kundeName: kunde?.name ?? "Unbekannter Kunde",
+      kundenNummer: kunde?.kundenNummer,
+      reNr: a.rechnungsNummer,
+      belegDatum,
+      betrag: round2(betrag),
+      tageUeberfaellig: Math.floor((stichtag.getTime() - belegDatum.getTime()) / TAG_MS) - zahlungsziel,
+      aktuelleStufe: a.mahnstufe ?? 0,
+      auftrag: a._id,
+    });
+  }
+  return result;
+}
+
+/* ------------------------------- Mahnstufen ------------------------------- */
+
+/**
+ * Konfigurierte Mahnstufen (aufsteigend). Ist noch nichts konfiguriert, werden Standardstufen angelegt.
+ */
+export async function getMahnstufen(): Promise<MahnstufeResource[]> {
+  let docs = await Mahnstufe.find().sort({ stufe: 1 }).lean();
+  if (!docs.length) {
+    await Mahnstufe.insertMany(STANDARD_STUFEN);
+    docs = await Mahnstufe.find().sort({ stufe: 1 }).lean();
+  }
+  return docs.map(stufeToResource);
+}
+
+/**
+ * Ersetzt die Mahnstufen-Konfiguration. Stufen müssen lückenlos ab 1 nummeriert sein,
+ * die Tage nach Fälligkeit müssen mit der Stufe steigen.
+ */
+export async function setzeMahnstufen(stufen: MahnstufeResource[]): Promise<MahnstufeResource[]> {
+  if (!stufen.length) throw new Error("Mindestens eine Mahnstufe erforderlich");
+  const sortiert = [...stufen].sort((a, b) => a.stufe - b.stufe);
+  sortiert.forEach((s, i) => {
+    if (s.stufe !== i + 1) throw new Error("Mahnstufen müssen lückenlos ab 1 nummeriert sein");
+    if (i > 0 && s.tageUeberfaellig <= sortiert[i - 1].tageUeberfaellig) {
+      throw new Error(`Mahnstufe ${s.stufe}: Tage nach Fälligkeit müssen größer als in Stufe ${s.stufe - 1} sein`);
+    }
+  });
+
+  await Mahnstufe.deleteMany({});
+  await Mahnstufe.insertMany(
+    sortiert.map((s) => ({
+      stufe: s.stufe,
+      bezeichnung: s.bezeichnung,
+      tageUeberfaellig: s.tageUeberfaellig,
+      gebuehr: s.gebuehr ?? 0,
+      zahlungsfristTage: s.zahlungsfristTage ?? 7,
+      betreff: s.betreff,
+      text: s.text,
+      aktiv: s.aktiv !== false,
+    }))
+  );
+  return getMahnstufen();
+}
+
+/* -------------------------------- Mahnlauf -------------------------------- */
+
+/**
+ * Mahnlauf: ermittelt je Kunde die fälligen Posten und legt Mahnvorschläge an.
+ * Bestehende, noch nicht freigegebene Vorschläge werden ersetzt.
+ */
+export async function mahnlauf(
+  params: { quelle: MahnungQuelle; stichtag?: Date },
+  userId?: string
+): Promise<MahnungResource[]> {
+  const stichtag = params.stichtag ?? new Date();
+  const stufen = (await getMahnstufen()).filter((s) => s.aktiv);
+  if (!stufen.length) throw new Error("Keine aktive Mahnstufe konfiguriert");
+  const zahlungsziel = getVerkaeuferConfig().zahlungszielTage;
+
+  const kandidaten =
+    params.quelle === "offene_posten"
+      ? await kandidatenAusOffenenPosten(stichtag, zahlungsziel)
+      : await kandidatenAusRechnungen(stichtag, zahlungsziel);
+  const historie = await letzteMahnungen(kandidaten.map((k) => k.reNr));
+
+  // Je Posten die nächste fällige Stufe bestimmen
+  const faellig = new Map<string, { kandidat: Kandidat; stufe: MahnstufeResource }[]>();
+  for (const k of kandidaten) {
+    const letzte = historie.get(k.reNr);
+    const aktuell = Math.max(k.aktuelleStufe, letzte?.stufe ?? 0);
+    if (letzte && stichtag <= new Date(letzte.zahlungsfrist)) continue;
+    const naechste = stufen.find((s) => s.stufe > aktuell);
+    if (!naechste || k.tageUeberfaellig < naechste.tageUeberfaellig) continue;
+    faellig.set(k.kundeKey, [...(faellig.get(k.kundeKey) ?? []), { kandidat: k, stufe: naechste }]);
+  }
+
+  await Mahnung.deleteMany({ status: "vorschlag", quelle: params.quelle });
+
+  const vorschlaege = [];
+  for (const eintraege of faellig.values()) {
+    const erster = eintraege[0].kandidat;
+    const stufe = eintraege.reduce((max, e) => (e.stufe.stufe > max.stufe ? e.stufe : max), eintraege[0].stufe);
+    const summe = round2(eintraege.reduce((s, e) => s + e.kandidat.betrag, 0));
+    const gebuehr = round2(stufe.gebuehr ?? 0);
+    vorschlaege.push({
+      quelle: params.quelle,
+      kunde: erster.kundeId,
+      kundeName: erster.kundeName,
+      kundenNummer: erster.kundenNummer,
+      stufe: stufe.stufe,
+      stufeBezeichnung: stufe.bezeichnung,
+      datum: stichtag,
+      zahlungsfrist: new Date(stichtag.getTime() + stufe.zahlungsfristTage * TAG_MS),
+      posten: eintraege
+        .sort((a, b) => a.kandidat.belegDatum.getTime() - b.kandidat.belegDatum.getTime())
+        .map((e) => ({
+          reNr: e.kandidat.reNr,
+          belegDatum: e.kandidat.belegDatum,
+          betrag: e.kandidat.betrag,
+          tageUeberfaellig: e.kandidat.tageUeberfaellig,
+          stufe: e.stufe.stufe,
+          auftrag: e.kandidat.auftrag,
+          offenerPosten: e.kandidat.offenerPosten,
+        })),
+      summe,
+      gebuehr,
+      gesamt: round2(summe + gebuehr),
+      status: "vorschlag",
+      erstelltVon: userId,
+    });
+  }
+  if (!vorschlaege.length) return [];
+  const docs = await Mahnung.insertMany(vorschlaege);
+  return docs
+    .map(mahnungToResource)
+    .sort((a, b) => b.stufe - a.stufe || a.kundeName.localeCompare(b.kundeName));
+}
+
+/* -------------------------------- Mahnungen ------------------------------- */
+
+export async function getMahnungen(params: {
+  status?: MahnungStatus;
+  kundeId?: string;
+  quelle?: MahnungQuelle;
+} = {}): Promise<MahnungResource[]> {
+  const q: Record<string, any> = {};
+  if (params.status) q.status = params.status;
+  if (params.kundeId) q.kunde = params.kundeId;
+  if (params.quelle) q.quelle = params.quelle;
+  const docs = await Mahnung.find(q).select({ pdf: 0 }).sort({ datum: -1, stufe: -1 }).lean();
+  return docs.map(mahnungToResource);
+}
+
+/**
+ * Gibt einen Vorschlag frei: erzeugt das PDF-Mahnschreiben und vermerkt Mahnstufe und
+ * Mahndatum am Offenen Posten (stufe/mahndatum) bzw. am Auftrag (mahnstufe/letzteMahnungAm).
+ */
+export async function erstelleMahnung(id: string): Promise<MahnungResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const mahnung = await Mahnung.findById(id);
+  if (!mahnung) throw new Error("Mahnung nicht gefunden");
+  if (mahnung.status !== "vorschlag") throw new Error("Mahnung wurde bereits erstellt");
+
+  const stufe = await Mahnstufe.findOne({ stufe: mahnung.stufe }).lean();
+  if (!stufe) throw new Error(`Mahnstufe ${mahnung.stufe} ist nicht konfiguriert`);
+  const kunde = mahnung.kunde ? await Kunde.findById(mahnung.kunde).lean() : null;
+
+  const werte = vorlagenWerte(mahnung, stufe.bezeichnung);
+
+  const pdf = await generateMahnungPdf({
+    titel: stufe.bezeichnung,
+    kunde: { name: kunde?.name ?? mahnung.kundeName, adresse: kunde?.adresse, kundenNummer: mahnung.kundenNummer },
+    datum: mahnung.datum,
+    zahlungsfrist: mahnung.zahlungsfrist,
+    betreff: fuelleVorlage(stufe.betreff, werte),
+    text: fuelleVorlage(stufe.text, werte),
+    posten: mahnung.posten,
+    summe: mahnung.summe,
+    gebuehr: mahnung.gebuehr,
+    gesamt: mahnung.gesamt,
+  });
+
+  // Mahnung und Mahnstand der Posten/Aufträge gemeinsam festschreiben
+  await withTransaction(async (session) => {
+    const res = await Mahnung.updateOne(
+      { _id: mahnung._id, status: "vorschlag" },
+      { $set: { pdf, status: "erstellt" } },
+      { session }
+    );
+    if (res.matchedCount === 0) throw new Error("Mahnung wurde bereits erstellt");
+
+    for (const p of mahnung.posten) {
+      if (p.offenerPosten) {
+        await OffenerPosten.updateOne(
+          { _id: p.offenerPosten },
+          { $set: { stufe: String(p.stufe), mahndatum: mahnung.datum } },
+          { session }
+        );
+      }
+      if (p.auftrag) {
+        await Auftrag.updateOne(
+          { _id: p.auftrag },
+          { $set: { mahnstufe: p.stufe, letzteMahnungAm: mahnung.datum } },
+          { session }
+        );
+      }
+    }
+  });
+
+  mahnung.pdf = pdf;
+  mahnung.status = "erstellt";
+  return mahnungToResource(mahnung);
+}
+
+export async function getMahnungPdf(id: string): Promise<{ pdf: Buffer; filename: string }> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const mahnung = await Mahnung.findById(id);
+  if (!mahnung) throw new Error("Mahnung nicht gefunden");
+  if (!mahnung.pdf) throw new Error("Mahnung wurde noch nicht erstellt");
+  return { pdf: mahnung.pdf, filename: mahnungDateiname(mahnung) };
+}
+
+function mahnungDateiname(m: { stufeBezeichnung: string; kundenNummer?: string; datum: Date }): string {
+  const datum = m.datum.toISOString().slice(0, 10);
+  return `${m.stufeBezeichnung}_${m.kundenNummer ?? "Kunde"}_${datum}.pdf`.replace(/[^a-zA-Z0-9äöüÄÖÜß._-]/g, "_");
+}
+
+/**
+ * Versendet eine erstellte Mahnung per E-Mail an die Buchhaltungsadresse des Kunden.
+ */
+export async function versendeMahnung(id: string): Promise<MahnungResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const mahnung = await Mahnung.findById(id);
+  if (!mahnung) throw new Error("Mahnung nicht gefunden");
+  if (mahnung.status === "vorschlag" || !mahnung.pdf) throw new Error("Mahnung muss zuerst erstellt werden");
+  if (!mahnung.kunde) throw new Error("Der Mahnung ist kein Kunde zugeordnet");
+
+  const kunde = await Kunde.findById(mahnung.kunde).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  const empfaenger = kunde.emailBuchhaltung || kunde.emailRechnung || kunde.email;
+  if (!empfaenger) throw new Error("Für den Kunden ist keine E-Mail-Adresse hinterlegt");
+
+  const stufe = await Mahnstufe.findOne({ stufe: mahnung.stufe }).lean();
+  const werte = vorlagenWerte(mahnung, mahnung.stufeBezeichnung);
+
+  await sendMahnungEmail({
+    kundenEmail: empfaenger,
+    kundenName: mahnung.kundeName,
+    betreff: fuelleVorlage(stufe?.betreff ?? `${mahnung.stufeBezeichnung} – Kundennummer {{kundenNummer}}`, werte),
+    text: fuelleVorlage(stufe?.text ?? "", werte),
+    pdfBuffer: mahnung.pdf,
+    pdfFilename: mahnungDateiname(mahnung),
+  });
+
+  mahnung.status = "versendet";
+  mahnung.emailEmpfaenger = empfaenger;
+  mahnung.versendetAm = new Date();
+  await mahnung.save();
+  return mahnungToResource(mahnung);
+}
+
+/**
+ * Verwirft einen Mahnvorschlag (erstellte Mahnungen bleiben als Nachweis erhalten).
+ */
+export async function verwerfeMahnvorschlag(id: string): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const res = await Mahnung.deleteOne({ _id: id, status: "vorschlag" });
+  if (res.deletedCount === 0) throw new Error("Kein Mahnvorschlag gefunden");
+}
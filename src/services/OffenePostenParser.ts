@@ -0,0 +1,264 @@
+/**
+ * OffenePostenParser.ts
+ *
+ * Parser für den OP-Export der Buchhaltung (CSV oder XLSX).
+ * - Spaltenlayout wird über die Kopfzeile erkannt (Aliase, unabhängig von Reihenfolge/Schreibweise);
+ *   Titelzeilen vor der Kopfzeile werden übersprungen, ein "Stand"-Datum darin als Berichtsdatum erkannt
+ * - CSV: Trennzeichen (; , Tab) und Zeichensatz (UTF-8 / Windows-1252) werden automatisch erkannt
+ * - Jede Zeile wird validiert; Fehler werden je Zeilennummer (wie in der Datei) gesammelt
+ * - tageOffen wird immer relativ zum Berichtsdatum berechnet
+ */
+
+import { parseString } from "fast-csv";
+import * as XLSX from "xlsx";
+import { OffenePostenZeilenFehler } from "../Resources";
+
+type Feld = "kontonr" | "kunde" | "buchNr" | "datum" | "reNr" | "betrag" | "mahndatum" | "stufe";
+
+export type OffenerPostenZeile = {
+  kontonr: string;
+  kunde: string;
+  buchNr: string;
+  datum: Date;
+  reNr: string;
+  betrag: number;
+  tageOffen: number;
+  mahndatum?: Date;
+  stufe: string;
+};
+
+export type OffenePostenDatei = {
+  berichtsDatum: Date;
+  spalten: Partial<Record<Feld, string>>;
+  posten: OffenerPostenZeile[];
+  fehler: OffenePostenZeilenFehler[];
+};
+
+const TAG_MS = 24 * 60 * 60 * 1000;
+
+/** Erkannte Spaltenüberschriften (normalisiert: klein, ohne Umlaute/Sonderzeichen) */
+const SPALTEN_ALIASE: Record<Feld, string[]> = {
+  kontonr: ["kontonr", "konto", "kontonummer", "ktonr", "kto", "debitor", "debitornr", "debitorennr", "kundennr", "kundennummer"],
+  kunde: ["kunde", "kundenname", "name", "debitorname", "kontobezeichnung", "bezeichnung"],
+  buchNr: ["buchnr", "buchungsnr", "buchungsnummer", "bunr", "journalnr", "lfdnr"],
+  datum: ["datum", "belegdatum", "rechnungsdatum", "redatum", "buchungsdatum"],
+  reNr: ["renr", "rechnungsnr", "rechnungsnummer", "belegnr", "belegnummer", "opnr"],
+  betrag: ["betrag", "offenerbetrag", "offen", "opbetrag", "restbetrag", "saldo", "betrageur"],
+  mahndatum: ["mahndatum", "letztemahnung", "gemahntam"],
+  stufe: ["stufe", "mahnstufe"],
+};
+
+const PFLICHTSPALTEN: Feld[] = ["kontonr", "kunde", "datum", "reNr", "betrag"];
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function normalisiere(s: unknown): string {
+  return String(s ?? "")
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function text(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  return String(v).trim();
+}
+
+/** Datum aus Excel-Zelle (Date/Seriennummer) oder Text (TT.MM.JJJJ, TT.MM.JJ, JJJJ-MM-TT) */
+function parseDatum(v: unknown): Date | undefined {
+  if (v instanceof Date) {
+    return isNaN(v.getTime()) ? undefined : new Date(Date.UTC(v.getFullYear(), v.getMonth(), v.getDate()));
+  }
+  if (typeof v === "number") {
+    // Excel-Seriennummer (Tage seit 30.12.1899)
+    if (v < 1 || v > 100000) return undefined;
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(v) * TAG_MS);
+  }
+  const s = text(v);
+  let m = s.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  if (m) {
+    const jahr = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    return gueltigesDatum(jahr, Number(m[2]), Number(m[1]));
+  }
+  m = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return gueltigesDatum(Number(m[1]), Number(m[2]), Number(m[3]));
+  return undefined;
+}
+
+function gueltigesDatum(jahr: number, monat: number, tag: number): Date | undefined {
+  const d = new Date(Date.UTC(jahr, monat - 1, tag));
+  return d.getUTCMonth() === monat - 1 && d.getUTCDate() === tag ? d : undefined;
+}
+
+/** Betrag aus Zahl oder Text ("1.234,56", "1234.56", "123,45-", "123,45 H") */
+function parseBetrag(v: unknown): number | undefined {
+  if (typeof v === "number") return isFinite(v) ? v : undefined;
+  let s = text(v).replace(/\s|€|EUR/gi, "");
+  if (!s) return undefined;
+  let vorzeichen = 1;
+  if (/[-H]$/i.test(s)) {
+    vorzeichen = -1;
+    s = s.slice(0, -1);
+  } else if (/S$/i.test(s)) {
+    s = s.slice(0, -1);
+  }
+  if (s.startsWith("-")) {
+    vorzeichen *= -1;
+    s = s.slice(1);
+  }
+  if (/^\d{1,3}(\.\d{3})*(,\d+)?$/.test(s) || /^\d+(,\d+)?$/.test(s)) {
+    s = s.replace(/\./g, "").replace(",", ".");
+  } else if (/^\d{1,3}(,\d{3})*(\.\d+)?$/.test(s)) {
+    s = s.replace(/,/g, "");
+  } else if (!/^\d+(\.\d+)?$/.test(s)) {
+    return undefined;
+  }
+  return vorzeichen * Math.round(Number(s) * 100) / 100;
+}
+
+function istExcel(dateiname: string, buf: Buffer): boolean {
+  if (/\.(xlsx|xlsm|xls)$/i.test(dateiname)) return true;
+  // ZIP (xlsx) bzw. OLE2 (xls) Signatur
+  return (buf[0] === 0x50 && buf[1] === 0x4b) || (buf[0] === 0xd0 && buf[1] === 0xcf);
+}
+
+function csvText(buf: Buffer): string {
+  const utf8 = buf.toString("utf8");
+  // Ungültige UTF-8-Sequenzen → Export in Windows-1252
+  return (utf8.includes("\uFFFD") ? buf.toString("latin1") : utf8).replace(/^\uFEFF/, "");
+}
+
+function erkenneTrennzeichen(inhalt: string): string {
+  const probe = inhalt.split(/\r?\n/).slice(0, 20).join("\n");
+  const kandidaten = [";", "\t", ","];
+  const anzahl = kandidaten.map((d) => probe.split(d).length);
+  return kandidaten[anzahl.indexOf(Math.max(...anzahl))];
+}
+
+function leseCsv(inhalt: string): Promise<unknown[][]> {
+  return new Promise((resolve, reject) => {
+    const rows: unknown[][] = [];
+    parseString(inhalt, { delimiter: erkenneTrennzeichen(inhalt) })
+      .on("error", reject)
+      .on("data", (row: string[]) => rows.push(row))
+      .on("end", () => resolve(rows));
+  });
+}
+
+function leseExcel(buf: Buffer): unknown[][] {
+  const wb = XLSX.read(buf, { type: "buffer", cellDates: true });
+  const sheet = wb.Sheets[wb.SheetNames[0]];
+  if (!sheet) throw new Error("Die Datei enthält kein Tabellenblatt");
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "", blankrows: true });
+}
+
+/** Kopfzeile suchen: erste Zeile, in der alle Pflichtspalten erkannt werden */
+function erkenneLayout(rows: unknown[][]): { kopfIndex: number; index: Partial<Record<Feld, number>> } {
+  for (let i = 0; i < Math.min(rows.length, 30); i++) {
+    const kopf = rows[i].map(normalisiere);
+    const index: Partial<Record<Feld, number>> = {};
+    for (const feld of Object.keys(SPALTEN_ALIASE) as Feld[]) {
+      // Reihenfolge der Aliase = Priorität
+      for (const alias of SPALTEN_ALIASE[feld]) {
+        const pos = kopf.findIndex((k, j) => k === alias && !Object.values(index).includes(j));
+        if (pos >= 0) {
+          index[feld] = pos;
+          break;
+        }
+      }
+    }
+    if (PFLICHTSPALTEN.every((f) => index[f] !== undefined)) return { kopfIndex: i, index };
+  }
+  throw new Error(
+    "Spaltenlayout nicht erkannt – benötigt werden Spalten für Kontonummer, Kunde, Datum, Rechnungsnummer und Betrag"
+  );
+}
+
+/** "Stand: 31.01.2025" o.ä. in den Titelzeilen vor der Kopfzeile */
+function berichtsDatumAusTitel(rows: unknown[][]): Date | undefined {
+  for (const row of rows) {
+    for (const zelle of row) {
+      if (zelle instanceof Date) return parseDatum(zelle);
+      const m = text(zelle).match(/(\d{1,2}\.\d{1,2}\.\d{4})/);
+      if (m) return parseDatum(m[1]);
+    }
+  }
+  return undefined;
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Liest einen OP-Export (CSV/XLSX) und validiert alle Zeilen.
+ * berichtsDatum: explizit übergeben, sonst aus den Titelzeilen, sonst heute.
+ */
+export async function parseOffenePostenDatei(
+  dateiname: string,
+  inhalt: Buffer,
+  berichtsDatum?: Date
+): Promise<OffenePostenDatei> {
+  const rows = istExcel(dateiname, inhalt) ? leseExcel(inhalt) : await leseCsv(csvText(inhalt));
+  const { kopfIndex, index } = erkenneLayout(rows);
+
+  const kopf = rows[kopfIndex];
+  const spalten: Partial<Record<Feld, string>> = {};
+  for (const [feld, pos] of Object.entries(index) as [Feld, number][]) spalten[feld] = text(kopf[pos]);
+
+  const heute = new Date();
+  const stichtag =
+    berichtsDatum ??
+    berichtsDatumAusTitel(rows.slice(0, kopfIndex)) ??
+    new Date(Date.UTC(heute.getFullYear(), heute.getMonth(), heute.getDate()));
+
+  const posten: OffenerPostenZeile[] = [];
+  const fehler: OffenePostenZeilenFehler[] = [];
+  const zelle = (row: unknown[], feld: Feld) => (index[feld] === undefined ? undefined : row[index[feld]!]);
+
+  for (let i = kopfIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.every((z) => text(z) === "")) continue;
+    // Summen-/Fußzeilen des Exports
+    if (!text(zelle(row, "reNr")) && row.some((z) => /^(summe|gesamt|total)/i.test(text(z)))) continue;
+
+    const meldungen: string[] = [];
+    const kontonr = text(zelle(row, "kontonr"));
+    const kunde = text(zelle(row, "kunde"));
+    const reNr = text(zelle(row, "reNr"));
+    const datum = parseDatum(zelle(row, "datum"));
+    const betrag = parseBetrag(zelle(row, "betrag"));
+    const mahndatumRoh = zelle(row, "mahndatum");
+    const mahndatum = text(mahndatumRoh) ? parseDatum(mahndatumRoh) : undefined;
+    const stufe = text(zelle(row, "stufe")) || "0";
+
+    if (!kontonr) meldungen.push("Kontonummer fehlt");
+    if (!kunde) meldungen.push("Kunde fehlt");
+    if (!reNr) meldungen.push("Rechnungsnummer fehlt");
+    if (!datum) meldungen.push(`Ungültiges Datum "${text(zelle(row, "datum"))}"`);
+    if (betrag === undefined) meldungen.push(`Ungültiger Betrag "${text(zelle(row, "betrag"))}"`);
+    if (text(mahndatumRoh) && !mahndatum) meldungen.push(`Ungültiges Mahndatum "${text(mahndatumRoh)}"`);
+    if (!/^\d+$/.test(stufe)) meldungen.push(`Ungültige Mahnstufe "${stufe}"`);
+
+    if (meldungen.length) {
+      fehler.push({ zeile: i + 1, meldungen });
+      continue;
+    }
+    posten.push({
+      kontonr,
+      kunde,
+      // ohne eigene Spalte: Rechnungsnummer als Buchungsreferenz
+      buchNr: text(zelle(row, "buchNr")) || reNr,
+      datum: datum!,
+      reNr,
+      betrag: betrag!,
+      tageOffen: Math.max(0, Math.floor((stichtag.getTime() - datum!.getTime()) / TAG_MS)),
+      mahndatum,
+      stufe,
+    });
+  }
+
+  if (!posten.length && !fehler.length) throw new Error("Die Datei enthält keine Posten");
+  return { berichtsDatum: stichtag, spalten, posten, fehler };
+}
@@ -1,9 +1,18 @@
 import { OffenerPostenImport } from "../model/OffenerPostenImportModel";
 import { OffenerPosten } from "../model/OffenerPostenModel";
 import {
+  OffenePostenDateiImportResource,
+  OffenePostenSaldoVerlaufResource,
+  OffenePostenVergleichKunde,
+  OffenePostenVergleichPosten,
+  OffenePostenVergleichResource,
   OffenerPostenImportResource,
   OffenerPostenResource,
 } from "../Resources";
+import { verknuepfeImport } from "./KundenZuordnungService";
+import { parseOffenePostenDatei } from "./OffenePostenParser";
+
+const TAG_MS = 24 * 60 * 60 * 1000;
 
 // ── Helpers ──
 
@@ -33,9 +42,35 @@ function postenToResource(doc: any): OffenerPostenResource {
     tageOffen: doc.tageOffen,
     mahndatum: doc.mahndatum ? doc.mahndatum.toISOString() : undefined,
     stufe: doc.stufe,
+    kundeId: doc.kundeRef ? doc.kundeRef.toString() : undefined,
+    kundeZuordnung: doc.kundeZuordnung ?? undefined,
   };
 }
 
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+type PostenSumme = { kontonr: string; kunde: string; reNr: string; datum: Date; betrag: number; tageOffen: number };
+
+/** Posten eines Imports je Kontonummer + Rechnungsnummer (Teilbuchungen werden summiert) */
+async function postenJeSchluessel(importId: unknown): Promise<Map<string, PostenSumme>> {
+  const docs = await OffenerPosten.find({ importId }).lean();
+  const map = new Map<string, PostenSumme>();
+  for (const d of docs) {
+    const key = `${d.kontonr}|${d.reNr}`;
+    const vorhanden = map.get(key);
+    if (vorhanden) {
+      vorhanden.betrag += d.betrag;
+      vorhanden.tageOffen = Math.max(vorhanden.tageOffen, d.tageOffen);
+      if (d.datum < vorhanden.datum) vorhanden.datum = d.datum;
+    } else {
+      map.set(key, { kontonr: d.kontonr, kunde: d.kunde, reNr: d.reNr, datum: d.datum, betrag: d.betrag, tageOffen: d.tageOffen });
+    }
+  }
+  return map;
+}
+
 // ── CRUD ──
 
 export async function getImports(): Promise<OffenerPostenImportResource[]> {
@@ -59,6 +94,17 @@ export async function getLatestPosten(): Promise<OffenerPostenResource[]> {
   return getPostenByImport(latestImport._id.toString());
 }
 
+/** Offene Posten eines verknüpften Kunden aus dem letzten Import */
+export async function getPostenByKunde(kundeId: string): Promise<{
+  berichtsDatum?: string;
+  posten: OffenerPostenResource[];
+}> {
+  const latestImport = await OffenerPostenImport.findOne().sort({ datum: -1 });
+  if (!latestImport) return { posten: [] };
+  const docs = await OffenerPosten.find({ importId: latestImport._id, kundeRef: kundeId }).sort({ datum: 1 });
+  return { berichtsDatum: latestImport.berichtsDatum.toISOString(), posten: docs.map(postenToResource) };
+}
+
 export async function createImport(data: {
   berichtsDatum: string;
   dateiname: string;
@@ -69,17 +115,18 @@ export async function createImport(data: {
     datum: string;
     reNr: string;
     betrag: number;
-    tageOffen: number;
+    tageOffen?: number;
     mahndatum?: string;
     stufe: string;
   }[];
 }): Promise<OffenerPostenImportResource> {
   const now = new Date();
+  const berichtsDatum = new Date(data.berichtsDatum);
   const gesamtBetrag = data.posten.reduce((sum, p) => sum + p.betrag, 0);
 
   const importDoc = await OffenerPostenImport.create({
     datum: now,
-    berichtsDatum: new Date(data.berichtsDatum),
+    berichtsDatum,
     dateiname: data.dateiname,
     anzahlPosten: data.posten.length,
     gesamtBetrag,
@@ -89,23 +136,198 @@ export async function createImport(data: {
     const postenDocs = data.posten.map((p) => ({
       importId: importDoc._id,
       importDatum: now,
-      berichtsDatum: new Date(data.berichtsDatum),
+      berichtsDatum,
       kontonr: p.kontonr,
       kunde: p.kunde,
       buchNr: p.buchNr,
       datum: new Date(p.datum),
       reNr: p.reNr,
       betrag: p.betrag,
-      tageOffen: p.tageOffen,
+      // tageOffen immer relativ zum Berichtsdatum, falls nicht mitgeliefert
+      tageOffen:
+        p.tageOffen ??
+        Math.max(0, Math.floor((berichtsDatum.getTime() - new Date(p.datum).getTime()) / TAG_MS)),
       mahndatum: p.mahndatum ? new Date(p.mahndatum) : undefined,
       stufe: p.stufe,
     }));
     await OffenerPosten.insertMany(postenDocs);
+    await verknuepfeImport("offene_posten", importDoc._id);
   }
 
   return importToResource(importDoc);
 }
 
+/**
+ * Import direkt aus dem OP-Export der Buchhaltung (CSV/XLSX).
+ * Mit Zeilenfehlern wird nur importiert, wenn fehlerhafteUeberspringen gesetzt ist;
+ * nurPruefen liefert ausschließlich das Prüfergebnis.
+ */
+export async function importFromDatei(data: {
+  dateiname: string;
+  inhalt: Buffer;
+  berichtsDatum?: string;
+  nurPruefen?: boolean;
+  fehlerhafteUeberspringen?: boolean;
+}): Promise<OffenePostenDateiImportResource> {
+  if (!data.inhalt.length) throw new Error("Die Datei ist leer");
+
+  const datei = await parseOffenePostenDatei(
+    data.dateiname,
+    data.inhalt,
+    data.berichtsDatum ? new Date(data.berichtsDatum) : undefined
+  );
+  const result: OffenePostenDateiImportResource = {
+    dateiname: data.dateiname,
+    berichtsDatum: datei.berichtsDatum.toISOString(),
+    spalten: datei.spalten as Record<string, string>,
+    anzahlPosten: datei.posten.length,
+    gesamtBetrag: Math.round(datei.posten.reduce((sum, p) => sum + p.betrag, 0) * 100) / 100,
+    fehler: datei.fehler,
+  };
+  if (data.nurPruefen || !datei.posten.length) return result;
+  if (datei.fehler.length && !data.fehlerhafteUeberspringen) return result;
+
+  result.import = await createImport({
+    berichtsDatum: result.berichtsDatum,
+    dateiname: data.dateiname,
+    posten: datei.posten.map((p) => ({
+      ...p,
+      datum: p.datum.toISOString(),
+      mahndatum: p.mahndatum?.toISOString(),
+    })),
+  });
+  return result;
+}
+
+// ── Vergleich & Verlauf ──
+
+/**
+ * Vergleicht zwei Imports je Kunde: neu eröffnete, bezahlte und weiterhin offene Posten.
+ * Ohne Angabe wird der letzte Import mit dem vorherigen verglichen; ohne vonImportId
+ * der angegebene bisImportId mit dem Import davor.
+ */
+export async function vergleicheImports(params: {
+  vonImportId?: string;
+  bisImportId?: string;
+} = {}): Promise<OffenePostenVergleichResource> {
+  const importNeu = params.bisImportId
+    ? await OffenerPostenImport.findById(params.bisImportId)
+    : await OffenerPostenImport.findOne().sort({ datum: -1 });
+  if (!importNeu) throw new Error("Import nicht gefunden");
+  const importAlt = params.vonImportId
+    ? await OffenerPostenImport.findById(params.vonImportId)
+    : await OffenerPostenImport.findOne({ datum: { $lt: importNeu.datum } }).sort({ datum: -1 });
+  if (!importAlt) throw new Error("Kein früherer Import zum Vergleich vorhanden");
+  if (importAlt._id.equals(importNeu._id)) throw new Error("Ein Import kann nicht mit sich selbst verglichen werden");
+
+  const [alt, neu] = await Promise.all([postenJeSchluessel(importAlt._id), postenJeSchluessel(importNeu._id)]);
+
+  const kunden = new Map<string, OffenePostenVergleichKunde>();
+  const kundeFuer = (p: PostenSumme) => {
+    let k = kunden.get(p.kontonr);
+    if (!k) {
+      k = { kontonr: p.kontonr, kunde: p.kunde, summeAlt: 0, summeNeu: 0, differenz: 0, tendenz: "unveraendert", neu: [], bezahlt: [], offen: [] };
+      kunden.set(p.kontonr, k);
+    }
+    return k;
+  };
+
+  for (const [key, a] of alt) {
+    const n = neu.get(key);
+    const k = kundeFuer(n ?? a);
+    k.summeAlt += a.betrag;
+    const eintrag: OffenePostenVergleichPosten = {
+      reNr: a.reNr,
+      datum: a.datum.toISOString(),
+      betragAlt: round2(a.betrag),
+      betragNeu: round2(n?.betrag ?? 0),
+      differenz: round2((n?.betrag ?? 0) - a.betrag),
+      tageOffenAlt: a.tageOffen,
+      tageOffenNeu: n?.tageOffen,
+      deltaTage: n ? n.tageOffen - a.tageOffen : undefined,
+    };
+    (n ? k.offen : k.bezahlt).push(eintrag);
+  }
+  for (const [key, n] of neu) {
+    const k = kundeFuer(n);
+    k.summeNeu += n.betrag;
+    if (alt.has(key)) continue;
+    k.neu.push({
+      reNr: n.reNr,
+      datum: n.datum.toISOString(),
+      betragAlt: 0,
+      betragNeu: round2(n.betrag),
+      differenz: round2(n.betrag),
+      tageOffenNeu: n.tageOffen,
+    });
+  }
+
+  let summeNeuEroeffnet = 0;
+  let summeBezahlt = 0;
+  for (const k of kunden.values()) {
+    k.summeAlt = round2(k.summeAlt);
+    k.summeNeu = round2(k.summeNeu);
+    k.differenz = round2(k.summeNeu - k.summeAlt);
+    k.tendenz = k.differenz > 0 ? "schlechter" : k.differenz < 0 ? "besser" : "unveraendert";
+    summeNeuEroeffnet += k.neu.reduce((s, p) => s + p.betragNeu, 0);
+    summeBezahlt += k.bezahlt.reduce((s, p) => s + p.betragAlt, 0);
+  }
+
+  return {
+    importAlt: importToResource(importAlt),
+    importNeu: importToResource(importNeu),
+    summeAlt: round2([...alt.values()].reduce((s, p) => s + p.betrag, 0)),
+    summeNeu: round2([...neu.values()].reduce((s, p) => s + p.betrag, 0)),
+    summeNeuEroeffnet: round2(summeNeuEroeffnet),
+    summeBezahlt: round2(summeBezahlt),
+    // größte Verschlechterung zuerst
+    kunden: [...kunden.values()].sort((a, b) => b.differenz - a.differenz || a.kunde.localeCompare(b.kunde)),
+  };
+}
+
+/**
+ * Verlauf des offenen Saldos je Kunde über alle Imports (Saldo 0 = im Import keine offenen Posten).
+ */
+export async function getSaldoVerlauf(kontonr?: string): Promise<OffenePostenSaldoVerlaufResource[]> {
+  const imports = await OffenerPostenImport.find().sort({ berichtsDatum: 1, datum: 1 }).lean();
+  const rows = await OffenerPosten.aggregate([
+    ...(kontonr ? [{ $match: { kontonr } }] : []),
+    {
+      $group: {
+        _id: { kontonr: "$kontonr", importId: "$importId" },
+        kunde: { $last: "$kunde" },
+        saldo: { $sum: "$betrag" },
+        anzahlPosten: { $sum: 1 },
+        maxTageOffen: { $max: "$tageOffen" },
+      },
+    },
+  ]);
+
+  const jeKunde = new Map<string, { kunde: string; werte: Map<string, any> }>();
+  for (const r of rows) {
+    const eintrag = jeKunde.get(r._id.kontonr) ?? { kunde: r.kunde, werte: new Map() };
+    eintrag.werte.set(r._id.importId.toString(), r);
+    jeKunde.set(r._id.kontonr, eintrag);
+  }
+
+  return [...jeKunde.entries()]
+    .map(([nr, { kunde, werte }]) => ({
+      kontonr: nr,
+      kunde,
+      verlauf: imports.map((imp) => {
+        const w = werte.get(imp._id.toString());
+        return {
+          importId: imp._id.toString(),
+          berichtsDatum: imp.berichtsDatum.toISOString(),
+          saldo: round2(w?.saldo ?? 0),
+          anzahlPosten: w?.anzahlPosten ?? 0,
+          maxTageOffen: w?.maxTageOffen ?? 0,
+        };
+      }),
+    }))
+    .sort((a, b) => a.kunde.localeCompare(b.kunde));
+}
+
 export async function deleteImport(importId: string): Promise<void> {
   await OffenerPosten.deleteMany({ importId });
   const doc = await OffenerPostenImport.findByIdAndDelete(importId);
@@ -0,0 +1,316 @@
+/**
+ * RoutenOptimierungService.ts
+ *
+ * Lokale Routenoptimierung einer Tour (ohne externen Routing-Dienst):
+ * Luftlinie (Haversine) × Umwegfaktor bei Durchschnittsgeschwindigkeit, Nearest Neighbour als Start,
+ * danach 2-opt und Verschieben einzelner Stops (Or-opt), bis keine Verbesserung mehr möglich ist.
+ * Zeitfenster aus Kunde.lieferzeit werden berücksichtigt: Verspätungen wiegen schwerer als Kilometer.
+ *
+ * Koordinaten kommen aus der Lieferadresse des Stops, sonst aus der Hauptadresse des Kunden.
+ * Bereits unterwegs/abgeschlossene Stops bleiben vorne in ihrer Reihenfolge; Stops ohne Koordinaten
+ * werden unverändert ans Ende gestellt. Ergebnis ist ein Vorschlag oder wird direkt angewendet.
+ *
+ * Konfiguration: DEPOT_LAT / DEPOT_LNG (Startpunkt), ROUTE_KMH (Standard 45),
+ * ROUTE_UMWEGFAKTOR (Standard 1.3), ROUTE_STANDZEIT_MIN (Standard 20 je Stop).
+ */
+
+import mongoose, { Types } from "mongoose";
+import { Kunde } from "../model/KundeModel";
+import { Tour } from "../model/TourModel";
+import { TourStop } from "../model/TourStopModel";
+import { RoutenStopResource, RoutenVorschlagResource } from "../Resources";
+import { applyTourStopOrder } from "./TourStopService";
+
+const KMH = Number(process.env.ROUTE_KMH) || 45;
+const UMWEGFAKTOR = Number(process.env.ROUTE_UMWEGFAKTOR) || 1.3;
+const STANDZEIT_MIN = Number(process.env.ROUTE_STANDZEIT_MIN ?? 20);
+/** Eine Minute Verspätung "kostet" so viel wie 1000 km – Zeitfenster gehen immer vor */
+const STRAFE_JE_MINUTE = 1000;
+
+type Punkt = { lat: number; lng: number };
+type Zeitfenster = { von?: number; bis?: number }; // Minuten ab Mitternacht
+
+type Knoten = {
+  stop: any;
+  punkt: Punkt;
+  fenster?: Zeitfenster;
+};
+
+type Bewertung = {
+  kosten: number;
+  distanzKm: number;
+  dauerMin: number;
+  verletzt: number;
+  schritte: { ankunft: number; warten: number; verspaetung: number; km: number }[];
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+/** Koordinaten eines Stops: Lieferadresse am Stop, sonst Kunde */
+function koordinaten(stop: any, k: any): Punkt | undefined {
+  const adr = stop?.lieferadresse;
+  if (typeof adr?.lat === "number" && typeof adr?.lng === "number") return { lat: adr.lat, lng: adr.lng };
+  if (typeof k?.lat === "number" && typeof k?.lng === "number") return { lat: k.lat, lng: k.lng };
+  return undefined;
+}
+
+function haversineKm(a: Punkt, b: Punkt): number {
+  const R = 6371;
+  const rad = (g: number) => (g * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+function strassenKm(a: Punkt, b: Punkt): number {
+  return haversineKm(a, b) * UMWEGFAKTOR;
+}
+
+function uhrzeitZuMinuten(text: string): number | undefined {
+  const m = text.match(/^(\d{1,2})(?:[:.](\d{2}))?$/);
+  if (!m) return undefined;
+  const h = Number(m[1]);
+  const min = Number(m[2] ?? 0);
+  return h <= 24 && min < 60 ? h * 60 + min : undefined;
+}
+
+function minutenZuUhrzeit(min: number): string {
+  const m = Math.round(min) % (24 * 60);
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Zeitfenster aus dem Freitext Kunde.lieferzeit: "08:00-12:00", "8 - 12 Uhr", "bis 10 Uhr", "ab 14:30".
+ * Nicht erkennbare Angaben gelten als kein Zeitfenster.
+ */
+export function parseLieferzeit(text?: string | null): Zeitfenster | undefined {
+  const t = (text || "").toLowerCase().replace(/uhr/g, "").trim();
+  if (!t) return undefined;
+  const bereich = t.match(/^(\d{1,2}(?:[:.]\d{2})?)\s*(?:-|–|bis)\s*(\d{1,2}(?:[:.]\d{2})?)$/);
+  if (bereich) {
+    const von = uhrzeitZuMinuten(bereich[1]);
+    const bis = uhrzeitZuMinuten(bereich[2]);
+    return von !== undefined && bis !== undefined && von < bis ? { von, bis } : undefined;
+  }
+  const bis = t.match(/^(?:bis|spätestens|vor)\s*(\d{1,2}(?:[:.]\d{2})?)$/);
+  if (bis) {
+    const m = uhrzeitZuMinuten(bis[1]);
+    return m !== undefined ? { bis: m } : undefined;
+  }
+  const ab = t.match(/^(?:ab|nach|frühestens)\s*(\d{1,2}(?:[:.]\d{2})?)$/);
+  if (ab) {
+    const m = uhrzeitZuMinuten(ab[1]);
+    return m !== undefined ? { von: m } : undefined;
+  }
+  return undefined;
+}
+
+function fensterText(f?: Zeitfenster): string | undefined {
+  if (!f) return undefined;
+  if (f.von !== undefined && f.bis !== undefined) return `${minutenZuUhrzeit(f.von)}–${minutenZuUhrzeit(f.bis)}`;
+  if (f.bis !== undefined) return `bis ${minutenZuUhrzeit(f.bis)}`;
+  return `ab ${minutenZuUhrzeit(f.von!)}`;
+}
+
+function bewerte(start: Punkt, startMin: number, route: Knoten[], depot: Punkt, rueckfahrt: boolean): Bewertung {
+  let ort = start;
+  let zeit = startMin;
+  let distanzKm = 0;
+  let verspaetungGesamt = 0;
+  let verletzt = 0;
+  const schritte: Bewertung["schritte"] = [];
+  for (const k of route) {
+    const km = strassenKm(ort, k.punkt);
+    distanzKm += km;
+    zeit += (km / KMH) * 60;
+    const ankunft = zeit;
+    const warten = k.fenster?.von !== undefined && zeit < k.fenster.von ? k.fenster.von - zeit : 0;
+    zeit += warten;
+    const verspaetung = k.fenster?.bis !== undefined && zeit > k.fenster.bis ? zeit - k.fenster.bis : 0;
+    if (verspaetung > 0) verletzt++;
+    verspaetungGesamt += verspaetung;
+    schritte.push({ ankunft, warten, verspaetung, km });
+    zeit += STANDZEIT_MIN;
+    ort = k.punkt;
+  }
+  if (rueckfahrt && route.length) {
+    const km = strassenKm(ort, depot);
+    distanzKm += km;
+    zeit += (km / KMH) * 60;
+  }
+  return {
+    kosten: distanzKm + verspaetungGesamt * STRAFE_JE_MINUTE,
+    distanzKm,
+    dauerMin: zeit - startMin,
+    verletzt,
+    schritte,
+  };
+}
+
+function naechsterNachbar(start: Punkt, knoten: Knoten[]): Knoten[] {
+  const offen = [...knoten];
+  const route: Knoten[] = [];
+  let ort = start;
+  while (offen.length) {
+    let besteIdx = 0;
+    for (let i = 1; i < offen.length; i++) {
+      if (haversineKm(ort, offen[i].punkt) < haversineKm(ort, offen[besteIdx].punkt)) besteIdx = i;
+    }
+    const [k] = offen.splice(besteIdx, 1);
+    route.push(k);
+    ort = k.punkt;
+  }
+  return route;
+}
+
+/** 2-opt + Or-opt (einzelnen Stop verschieben) auf der vollständigen Bewertung inkl. Zeitfenstern */
+function verbessere(route: Knoten[], bewerteRoute: (r: Knoten[]) => Bewertung): Knoten[] {
+  let beste = route;
+  let besteKosten = bewerteRoute(beste).kosten;
+  let verbessert = true;
+  let runden = 0;
+  while (verbessert && runden++ < 50) {
+    verbessert = false;
+    for (let i = 0; i < beste.length - 1; i++) {
+      for (let j = i + 1; j < beste.length; j++) {
+        const kandidat = [...beste.slice(0, i), ...beste.slice(i, j + 1).reverse(), ...beste.slice(j + 1)];
+        const kosten = bewerteRoute(kandidat).kosten;
+        if (kosten < besteKosten - 1e-6) {
+          beste = kandidat;
+          besteKosten = kosten;
+          verbessert = true;
+        }
+      }
+    }
+    for (let i = 0; i < beste.length; i++) {
+      for (let j = 0; j < beste.length; j++) {
+        if (i === j) continue;
+        const kandidat = [...beste];
+        const [k] = kandidat.splice(i, 1);
+        kandidat.splice(j, 0, k);
+        const kosten = bewerteRoute(kandidat).kosten;
+        if (kosten < besteKosten - 1e-6) {
+          beste = kandidat;
+          besteKosten = kosten;
+          verbessert = true;
+        }
+      }
+    }
+  }
+  return beste;
+}
+
+function depotAus(depot?: Partial<Punkt>): Punkt {
+  const env = (name: string) => (process.env[name] ? Number(process.env[name]) : NaN);
+  const lat = depot?.lat ?? env("DEPOT_LAT");
+  const lng = depot?.lng ?? env("DEPOT_LNG");
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new Error("Kein Depot-Standort angegeben (DEPOT_LAT/DEPOT_LNG)");
+  }
+  return { lat, lng };
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Berechnet eine optimierte Stop-Reihenfolge für eine Tour und setzt sie optional (anwenden)
+ * direkt in TourStop.position.
+ */
+export async function optimiereTour(
+  tourId: string,
+  opts: { anwenden?: boolean; startZeit?: string; depot?: Partial<Punkt>; rueckfahrt?: boolean } = {}
+): Promise<RoutenVorschlagResource> {
+  if (!mongoose.Types.ObjectId.isValid(tourId)) throw new Error("Ungültige Tour-ID");
+  const tour = await Tour.findById(tourId).lean();
+  if (!tour) throw new Error("Tour nicht gefunden");
+  const depot = depotAus(opts.depot);
+  const startZeit = opts.startZeit || "06:00";
+  const startMin = uhrzeitZuMinuten(startZeit);
+  if (startMin === undefined) throw new Error("Ungültige Startzeit (HH:mm)");
+  const rueckfahrt = opts.rueckfahrt ?? true;
+
+  const stops = await TourStop.find({ tourId: new Types.ObjectId(tourId) }).sort({ position: 1 }).lean();
+  if (!stops.length) throw new Error("Tour hat keine Stops");
+  const kunden = await Kunde.find({ _id: { $in: stops.map((s) => s.kundeId) } })
+    .select({ lat: 1, lng: 1, lieferzeit: 1 })
+    .lean();
+  const kundeById = new Map(kunden.map((k) => [String(k._id), k]));
+
+  const fixiert: any[] = [];
+  const planbar: Knoten[] = [];
+  const ohneKoordinaten: any[] = [];
+  for (const stop of stops) {
+    if (stop.status !== "offen") {
+      fixiert.push(stop);
+      continue;
+    }
+    const k = kundeById.get(String(stop.kundeId));
+    const punkt = koordinaten(stop, k);
+    if (punkt) {
+      planbar.push({ stop, punkt, fenster: parseLieferzeit(k?.lieferzeit) });
+    } else {
+      ohneKoordinaten.push(stop);
+    }
+  }
+
+  // Start: letzter bereits angefahrener Stop mit Koordinaten, sonst Depot
+  let start = depot;
+  for (const s of fixiert) start = koordinaten(s, kundeById.get(String(s.kundeId))) ?? start;
+  const bewerteRoute = (r: Knoten[]) => bewerte(start, startMin, r, depot, rueckfahrt);
+
+  const vorher = bewerteRoute(planbar);
+  const kandidaten = [
+    verbessere(naechsterNachbar(start, planbar), bewerteRoute),
+    verbessere(planbar, bewerteRoute),
+  ];
+  const route = kandidaten.reduce((a, b) => (bewerteRoute(b).kosten < bewerteRoute(a).kosten ? b : a));
+  const ergebnis = bewerteRoute(route);
+
+  const reihenfolge = [...fixiert, ...route.map((k) => k.stop), ...ohneKoordinaten];
+  const positionById = new Map(reihenfolge.map((s, i) => [String(s._id), i + 1]));
+  const schrittById = new Map(route.map((k, i) => [String(k.stop._id), { knoten: k, schritt: ergebnis.schritte[i] }]));
+
+  const round1 = (n: number) => Math.round(n * 10) / 10;
+  const stopsResource: RoutenStopResource[] = reihenfolge.map((s) => {
+    const geplant = schrittById.get(String(s._id));
+    const k = kundeById.get(String(s.kundeId));
+    const punkt = koordinaten(s, k);
+    return {
+      stopId: String(s._id),
+      kundeId: String(s.kundeId),
+      kundeName: s.kundeName,
+      positionAlt: s.position,
+      positionNeu: positionById.get(String(s._id))!,
+      fixiert: s.status !== "offen",
+      lat: punkt?.lat,
+      lng: punkt?.lng,
+      zeitfenster: fensterText(parseLieferzeit(k?.lieferzeit)),
+      ankunft: geplant ? minutenZuUhrzeit(geplant.schritt.ankunft) : undefined,
+      wartezeitMin: geplant ? Math.round(geplant.schritt.warten) : undefined,
+      verspaetungMin: geplant ? Math.round(geplant.schritt.verspaetung) : undefined,
+      distanzKm: geplant ? round1(geplant.schritt.km) : undefined,
+    };
+  });
+
+  let angewendet = false;
+  if (opts.anwenden && reihenfolge.some((s, i) => s.position !== i + 1)) {
+    await applyTourStopOrder(tourId, reihenfolge.map((s) => String(s._id)));
+    angewendet = true;
+  }
+
+  return {
+    tourId,
+    depot,
+    startZeit: minutenZuUhrzeit(startMin),
+    rueckfahrt,
+    distanzKm: round1(ergebnis.distanzKm),
+    dauerMin: Math.round(ergebnis.dauerMin),
+    vorherDistanzKm: round1(vorher.distanzKm),
+    vorherDauerMin: Math.round(vorher.dauerMin),
+    zeitfensterVerletzt: ergebnis.verletzt,
+    ohneKoordinaten: ohneKoordinaten.map((s) => String(s._id)),
+    angewendet,
+    stops: stopsResource,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * SammelrechnungService.ts
+ *
+ * Periodische Sammelrechnungen je Kunde (Kunde.rechnungsIntervall):
+ * - pro_lieferung     keine Sammelrechnung (Einzelrechnung je Auftrag)
+ * - woechentlich      Vorwoche (Mo–So)
+ * - zweiwoechentlich  zwei abgeschlossene Wochen, endend mit einer geraden Kalenderwoche
+ * - monatlich         Vormonat
+ *
+ * Abgerechnet werden alle gelieferten (status "abgeschlossen"), noch nicht abgerechneten Aufträge
+ * mit Lieferdatum im Zeitraum. Der Lauf ist idempotent, da abgerechnete Aufträge gesperrt sind.
+ * Optionaler Autolauf über die Job-Queue (SAMMELRECHNUNG_AUTOLAUF=1, täglich 02:00 Uhr).
+ */
+
+import { DateTime } from "luxon";
+import mongoose from "mongoose";
+import { Auftrag } from "../model/AuftragModel";
+import { Kunde } from "../model/KundeModel";
+import { logger } from "../logger";
+import { BelegArchivResource, RechnungsIntervall } from "../Resources";
+import { finalisiereSammelrechnung } from "./BelegArchivService";
+import { registerJobHandler, scheduleJob } from "./JobQueueService";
+
+const ZONE = "Europe/Berlin";
+const LAUF_JOB = "sammelrechnung-lauf";
+
+export type SammelrechnungKandidat = {
+  kundeId: string;
+  kundeName?: string;
+  rechnungsIntervall: RechnungsIntervall;
+  zeitraumVon: string; // ISO
+  zeitraumBis: string; // ISO
+  auftraege: { id: string; auftragsnummer?: string; lieferdatum?: string }[];
+};
+
+export type SammelrechnungLaufErgebnis = {
+  erstellt: BelegArchivResource[];
+  fehler: { kundeId: string; kundeName?: string; fehler: string }[];
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+/**
+ * Abrechnungszeitraum, der zum Stichtag zuletzt abgeschlossen wurde.
+ * Liefert null für pro_lieferung.
+ */
+export function ermittleZeitraum(
+  intervall: RechnungsIntervall,
+  stichtag: Date = new Date()
+): { von: Date; bis: Date } | null {
+  const heute = DateTime.fromJSDate(stichtag, { zone: ZONE }).startOf("day");
+
+  if (intervall === "woechentlich") {
+    const von = heute.startOf("week").minus({ weeks: 1 });
+    return { von: von.toJSDate(), bis: von.endOf("week").toJSDate() };
+  }
+  if (intervall === "zweiwoechentlich") {
+    let letzteWoche = heute.startOf("week").minus({ weeks: 1 });
+    if (letzteWoche.weekNumber % 2 !== 0) letzteWoche = letzteWoche.minus({ weeks: 1 });
+    const von = letzteWoche.minus({ weeks: 1 });
+    return { von: von.toJSDate(), bis: letzteWoche.endOf("week").toJSDate() };
+  }
+  if (intervall === "monatlich") {
+    const von = heute.startOf("month").minus({ months: 1 });
+    return { von: von.toJSDate(), bis: von.endOf("month").toJSDate() };
+  }
+  return null;
+}
+
+async function offeneLieferungen(kundeId: mongoose.Types.ObjectId | string, von: Date, bis: Date) {
+  return Auftrag.find({
+    kunde: kundeId,
+    status: "abgeschlossen",
+    lieferdatum: { $gte: von, $lte: bis },
+    rechnungFinalisiertAm: { $exists: false },
+  })
+    .select({ _id: 1, auftragsnummer: 1, lieferdatum: 1 })
+    .sort({ lieferdatum: 1 })
+    .lean();
+}
+
+/* ------------------------------- Öffentliche API ------------------------------- */
+
+/**
+ * Vorschau: alle Kunden mit fälliger Sammelrechnung und die abzurechnenden Aufträge.
+ * Mit kundeId + von/bis kann ein beliebiger Zeitraum für einen Kunden geprüft werden.
+ */
+export async function getSammelrechnungKandidaten(params: {
+  stichtag?: Date;
+  kundeId?: string;
+  von?: Date;
+  bis?: Date;
+} = {}): Promise<SammelrechnungKandidat[]> {
+  const filter: Record<string, any> = {};
+  if (params.kundeId) {
+    if (!mongoose.Types.ObjectId.isValid(params.kundeId)) throw new Error("Ungültige Kunden-ID");
+    filter._id = params.kundeId;
+  } else {
+    filter.rechnungsIntervall = { $in: ["woechentlich", "zweiwoechentlich", "monatlich"] };
+  }
+
+  const kunden = await Kunde.find(filter).select({ name: 1, rechnungsIntervall: 1 }).lean();
+  const result: SammelrechnungKandidat[] = [];
+
+  for (const k of kunden) {
+    const intervall = (k.rechnungsIntervall || "pro_lieferung") as RechnungsIntervall;
+    const zeitraum =
+      params.von && params.bis ? { von: params.von, bis: params.bis } : ermittleZeitraum(intervall, params.stichtag);
+    if (!zeitraum) continue;
+
+    const auftraege = await offeneLieferungen(k._id, zeitraum.von, zeitraum.bis);
+    if (!auftraege.length) continue;
+
+    result.push({
+      kundeId: k._id.toString(),
+      kundeName: k.name,
+      rechnungsIntervall: intervall,
+      zeitraumVon: zeitraum.von.toISOString(),
+      zeitraumBis: zeitraum.bis.toISOString(),
+      auftraege: auftraege.map((a) => ({
+        id: a._id.toString(),
+        auftragsnummer: a.auftragsnummer,
+        lieferdatum: a.lieferdatum ? new Date(a.lieferdatum).toISOString() : undefined,
+      })),
+    });
+  }
+  return result;
+}
+
+/**
+ * Erstellt die Sammelrechnung für einen Kunden über einen Zeitraum.
+ */
+export async function erstelleSammelrechnung(
+  kundeId: string,
+  zeitraum: { von: Date; bis: Date; datum?: Date },
+  userId?: string
+): Promise<BelegArchivResource> {
+  if (!mongoose.Types.ObjectId.isValid(kundeId)) throw new Error("Ungültige Kunden-ID");
+  if (zeitraum.von > zeitraum.bis) throw new Error("Zeitraum ungültig (von > bis)");
+
+  const auftraege = await offeneLieferungen(kundeId, zeitraum.von, zeitraum.bis);
+  if (!auftraege.length) throw new Error("Keine offenen Lieferungen im Zeitraum");
+
+  return finalisiereSammelrechnung(
+    kundeId,
+    auftraege.map((a) => a._id.toString()),
+    { zeitraumVon: zeitraum.von, zeitraumBis: zeitraum.bis, datum: zeitraum.datum },
+    userId
+  );
+}
+
+/**
+ * Sammelrechnungslauf: erstellt für alle fälligen Kunden die Sammelrechnung des letzten Zeitraums.
+ * Fehler einzelner Kunden brechen den Lauf nicht ab.
+ */
+export async function sammelrechnungsLauf(stichtag: Date = new Date(), userId?: string): Promise<SammelrechnungLaufErgebnis> {
+  const kandidaten = await getSammelrechnungKandidaten({ stichtag });
+  const ergebnis: SammelrechnungLaufErgebnis = { erstellt: [], fehler: [] };
+
+  for (const k of kandidaten) {
+    try {
+      const beleg = await erstelleSammelrechnung(
+        k.kundeId,
+        { von: new Date(k.zeitraumVon), bis: new Date(k.zeitraumBis) },
+        userId
+      );
+      ergebnis.erstellt.push(beleg);
+    } catch (err: any) {
+      ergebnis.fehler.push({ kundeId: k.kundeId, kundeName: k.kundeName, fehler: err?.message || String(err) });
+    }
+  }
+  return ergebnis;
+}
+
+/* ------------------------------- Autolauf (Job) ------------------------------- */
+
+function naechsterLauf(): Date {
+  const jetzt = DateTime.now().setZone(ZONE);
+  let lauf = jetzt.set({ hour: 2, minute: 0, second: 0, millisecond: 0 });
+  if (lauf <= jetzt) lauf = lauf.plus({ days: 1 });
+  return lauf.toJSDate();
+}
+
+/**
+ * Plant den nächsten täglichen Sammelrechnungslauf ein (nur mit SAMMELRECHNUNG_AUTOLAUF=1).
+ */
+export async function planeSammelrechnungsLauf(): Promise<void> {
+  if (process.env.SAMMELRECHNUNG_AUTOLAUF !== "1") return;
+  await scheduleJob({ typ: LAUF_JOB, key: "taeglich", runAt: naechsterLauf(), maxAttempts: 3 });
+}
+
+registerJobHandler(LAUF_JOB, async () => {
+  try {
+    const { erstellt, fehler } = await sammelrechnungsLauf();
+    logger.info(`[Sammelrechnung] Lauf: ${erstellt.length} erstellt, ${fehler.length} Fehler`);
+    for (const f of fehler) logger.error(`[Sammelrechnung] ${f.kundeName ?? f.kundeId}: ${f.fehler}`);
+  } finally {
+    await planeSammelrechnungsLauf();
+  }
+});
@@ -7,6 +7,10 @@ import { Kunde } from "../model/KundeModel"; // Kunde lesen für Name/Adresse
 import { Fahrzeug } from "../model/FahrzeugModel";
 import { TourStopResource } from "src/Resources";
 import nodemailer from "nodemailer";
+import { synchronisiereAuftrag } from "./LeergutKontoService";
+import { logger } from "../logger";
+import { loescheDateienVonBesitzer, speichereBase64, uebertrageDateien } from "./dateien/DateiService";
+import { lieferadresseFuer } from "./KundeAdressService";
 
 // --- Geocoding (Kunde -> lat/lng). Versucht erst DB-Felder, dann Nominatim (OSM), inkl. kleinem Memory-Cache.
 const geocodeCache = new Map<string, { lat: number; lng: number }>();
@@ -410,13 +414,14 @@ export async function createTourStop(data: {
 
   // Kunde laden, um Name/Adresse zu setzen (Quelle der Wahrheit)
   let kundeNameFromDb: string | undefined;
-  let kundeAdressFromDb: string | undefined;
+  let adresseFromDb: ReturnType<typeof lieferadresseFuer> | undefined;
   try {
     const k: any = await (Kunde as any).findById(data.kundeId).lean();
     if (k) {
       // Versuche gängige Feldnamen; passe bei Bedarf an dein Schema an
       kundeNameFromDb = k.name || k.firma || k.fullName || k.bezeichnung || undefined;
-      kundeAdressFromDb = k.adresse;
+      const a = await Auftrag.findById(data.auftragId).select({ lieferadresseId: 1 }).lean();
+      adresseFromDb = lieferadresseFuer(k, a?.lieferadresseId);
     }
   } catch {}
 
@@ -425,7 +430,7 @@ export async function createTourStop(data: {
     auftragId: new Types.ObjectId(data.auftragId),
     kundeId: new Types.ObjectId(data.kundeId),
     kundeName: data.kundeName ?? kundeNameFromDb,
-    kundeAdress: kundeAdressFromDb,
+    ...adresseFromDb,
     position,
     gewichtKg:
       derivedGewicht !== null
@@ -435,13 +440,24 @@ export async function createTourStop(data: {
         : null,
     status: data.status,
     fehlgrund: data.fehlgrund,
-    signaturPngBase64: normalizeSignatureBase64(data.signaturPngBase64),
     signTimestampUtc: data.signTimestampUtc,
     signedByName: data.signedByName,
     leergutMitnahme: data.leergutMitnahme ?? [],
   });
 
   const saved = await newStop.save();
+  // Unterschrift in die Dateiablage statt als Base64 im Stop
+  const signatur = normalizeSignatureBase64(data.signaturPngBase64);
+  if (signatur) {
+    const datei = await speichereBase64({
+      base64: signatur,
+      dateiname: `Unterschrift_${saved._id}.png`,
+      besitzerTyp: "tourstop",
+      besitzerId: saved._id,
+      zweck: "signatur",
+    });
+    saved.signaturDateiId = new Types.ObjectId(datei.id);
+  }
   // Auftrag mit neuem Stop verknüpfen
   await Auftrag.updateOne(
     { _id: data.auftragId },
@@ -501,15 +517,21 @@ export async function updateTourStop(
   if (data.signaturPngBase64 !== undefined) {
     const clean = normalizeSignatureBase64(data.signaturPngBase64 as any);
     if (clean) {
-      doc.set("signaturPngBase64", clean);
+      // Unterschrift in die Dateiablage (ersetzt eine vorhandene)
+      const datei = await speichereBase64({
+        base64: clean,
+        dateiname: `Unterschrift_${doc._id}.png`,
+        besitzerTyp: "tourstop",
+        besitzerId: doc._id,
+        zweck: "signatur",
+      });
+      doc.set("signaturDateiId", new Types.ObjectId(datei.id));
     } else {
       // Leeren erlauben, falls der Client die Signatur zurückziehen möchte
-      doc.set("signaturPngBase64", undefined);
+      await loescheDateienVonBesitzer("tourstop", [doc._id], "signatur");
+      doc.set("signaturDateiId", undefined);
     }
-    // Falls das Feld im Schema als Mixed oder select:false definiert ist:
-    try {
-      (doc as any).markModified?.("signaturPngBase64");
-    } catch {}
+    doc.set("signaturPngBase64", undefined);
   }
   if (data.signaturPngBase64 !== undefined && !data.signTimestampUtc) {
     doc.signTimestampUtc = new Date().toISOString();
@@ -525,6 +547,15 @@ export async function updateTourStop(
   await doc.save();
   await recomputeTourWeight(doc.tourId.toString());
 
+  // Leergutkonto: Lieferung/Mitnahme nachbuchen, sobald der Stop angefahren wurde
+  if (data.status !== undefined || data.leergutMitnahme !== undefined) {
+    try {
+      await synchronisiereAuftrag(doc.auftragId);
+    } catch (e) {
+      logger.error("[Leergut] Leergutkonto konnte nicht aktualisiert werden:", e);
+    }
+  }
+
   return toResource(doc);
 }
 
@@ -629,6 +660,39 @@ async function resequenceStopsSafe(
   }
 }
 
+/**
+ * Setzt die Reihenfolge einer Tour komplett neu (z. B. aus der Routenoptimierung).
+ * orderedIds muss alle Stops der Tour enthalten; Zweiphasen-Update wie beim Resequencing.
+ */
+export async function applyTourStopOrder(tourId: string, orderedIds: string[]): Promise<void> {
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const stops = await TourStop.find({ tourId }).select({ _id: 1 }).session(session);
+      const vorhanden = new Set(stops.map((s) => s._id.toString()));
+      if (stops.length !== orderedIds.length || !orderedIds.every((id) => vorhanden.has(id))) {
+        throw new Error("Reihenfolge passt nicht zu den Stops der Tour");
+      }
+
+      const BULK_OFFSET = 10000;
+      await TourStop.bulkWrite(
+        orderedIds.map((id, i) => ({
+          updateOne: { filter: { _id: new Types.ObjectId(id) }, update: { $set: { position: i + 1 + BULK_OFFSET } } },
+        })),
+        { session }
+      );
+      await TourStop.bulkWrite(
+        orderedIds.map((id, i) => ({
+          updateOne: { filter: { _id: new Types.ObjectId(id) }, update: { $set: { position: i + 1 } } },
+        })),
+        { session }
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+}
+
 function toResource(doc: any): TourStopResource {
   return {
     id: doc._id.toString(),
@@ -637,11 +701,23 @@ function toResource(doc: any): TourStopResource {
     kundeId: doc.kundeId?.toString(),
     kundeName: doc.kundeName,
     kundeAdress: (doc as any).kundeAdress,
+    lieferadresse: doc.lieferadresse
+      ? {
+          strasse: doc.lieferadresse.strasse ?? undefined,
+          hausnummer: doc.lieferadresse.hausnummer ?? undefined,
+          plz: doc.lieferadresse.plz ?? undefined,
+          ort: doc.lieferadresse.ort ?? undefined,
+          land: doc.lieferadresse.land ?? undefined,
+          lat: doc.lieferadresse.lat ?? undefined,
+          lng: doc.lieferadresse.lng ?? undefined,
+        }
+      : undefined,
     position: doc.position,
     gewichtKg: doc.gewichtKg ?? undefined,
     status: doc.status,
     fehlgrund: doc.fehlgrund,
-    signaturPngBase64: doc.signaturPngBase64,
+    signaturPngBase64: doc.signaturPngBase64 ?? undefined,
+    signaturDateiId: doc.signaturDateiId ? doc.signaturDateiId.toString() : undefined,
     signTimestampUtc: doc.signTimestampUtc,
     signedByName: doc.signedByName,
     leergutMitnahme: doc.leergutMitnahme,
@@ -741,6 +817,7 @@ export async function deleteTourStop(id: string): Promise<void> {
       // 5) Leere Standard-Tour automatisch löschen
       await deleteTourIfEmpty(tourId, session, /* onlyIfStandard */ true);
     });
+    await loescheDateienVonBesitzer("tourstop", [id]);
   } finally {
     await session.endSession();
   }
@@ -854,10 +931,12 @@ export async function moveTourStopAcrossTours(params: {
         kundeId: String(stop.kundeId),
         kundeName: stop.kundeName as string | undefined,
         kundeAdress: (stop as any).kundeAdress as string | undefined,
+        lieferadresse: stop.lieferadresse ?? null,
         gewichtKg: (stop.gewichtKg ?? undefined) as number | undefined,
         status: String(stop.status),
         fehlgrund: stop.fehlgrund as any,
         signaturPngBase64: stop.signaturPngBase64 as string | undefined,
+        signaturDateiId: stop.signaturDateiId ?? undefined,
         signTimestampUtc: stop.signTimestampUtc as string | undefined,
         signedByName: stop.signedByName as string | undefined,
         leergutMitnahme: Array.isArray(stop.leergutMitnahme)
@@ -888,17 +967,21 @@ export async function moveTourStopAcrossTours(params: {
         kundeId: new Types.ObjectId(payload.kundeId),
         kundeName: payload.kundeName,
         kundeAdress: (payload as any).kundeAdress,
+        lieferadresse: payload.lieferadresse,
         position: nextPos,
         gewichtKg: payload.gewichtKg ?? null,
         status: payload.status,
         fehlgrund: payload.fehlgrund,
         signaturPngBase64: payload.signaturPngBase64,
+        signaturDateiId: payload.signaturDateiId,
         signTimestampUtc: payload.signTimestampUtc,
         signedByName: payload.signedByName,
         leergutMitnahme: payload.leergutMitnahme ?? [],
       });
       const saved = await newStop.save({ session });
       createdDoc = saved;
+      // Unterschrift gehört jetzt zum neuen Stop
+      await uebertrageDateien("tourstop", stop._id, saved._id, session);
 
       // 3) Optional: an Zielposition verschieben (Server-seitiges, kollisionssicheres Resequencing)
       if (typeof params.targetIndex === "number" && params.targetIndex >= 0) {
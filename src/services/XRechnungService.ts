@@ -0,0 +1,579 @@
+/**
+ * XRechnungService.ts
+ *
+ * Elektronische Rechnungen (EN 16931) im UN/CEFACT-CII-Format.
+ * - XRECHNUNG: reine XML-Rechnung nach XRechnung 3.0 (CII-Syntax)
+ * - FACTURX:   CII-XML (Profil EN 16931) zur Einbettung in eine ZUGFeRD/Factur-X-Hybrid-PDF
+ *
+ * Grundlage ist immer der finalisierte Archiv-Beleg (Nummer, Positionen, MwSt, Kundenanschrift),
+ * Verkäuferdaten aus der Konfiguration (ENV).
+ */
+
+import { Kunde } from "../model/KundeModel";
+import { Auftrag, IAuftrag } from "../model/AuftragModel";
+import { BelegArchiv } from "../model/BelegArchivModel";
+import { ArtikelPositionResource, BelegResource, BelegTyp } from "../Resources";
+import { betragsPosition, generateBelegPdf, generateSammelrechnungPdf } from "./BelegService";
+import { abschnittTitel, zeilenBetrag } from "./BelegArchivService";
+
+export type EInvoiceProfil = "XRECHNUNG" | "FACTURX";
+
+/** Belegtypen, für die eine E-Rechnung erzeugt werden kann */
+export const E_RECHNUNG_TYPEN: BelegTyp[] = ["rechnung", "gutschrift", "preisdifferenz"];
+
+const GUIDELINE_ID: Record<EInvoiceProfil, string> = {
+  XRECHNUNG: "urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0",
+  FACTURX: "urn:cen.eu:en16931:2017",
+};
+const BUSINESS_PROCESS_ID = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
+
+export const EU_LAENDER = [
+  "AT", "BE", "BG", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GR", "HR", "HU",
+  "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PL", "PT", "RO", "SE", "SI", "SK",
+];
+
+const LAND_ZU_ISO: Record<string, string> = {
+  deutschland: "DE", germany: "DE", de: "DE",
+  "österreich": "AT", oesterreich: "AT", austria: "AT",
+  niederlande: "NL", netherlands: "NL", holland: "NL",
+  belgien: "BE", belgium: "BE",
+  frankreich: "FR", france: "FR",
+  polen: "PL", poland: "PL",
+  "dänemark": "DK", daenemark: "DK", denmark: "DK",
+  tschechien: "CZ", "czech republic": "CZ",
+  luxemburg: "LU", luxembourg: "LU",
+  italien: "IT", italy: "IT",
+  spanien: "ES", spain: "ES",
+  schweden: "SE", sweden: "SE",
+  schweiz: "CH", switzerland: "CH",
+  "türkei": "TR", tuerkei: "TR", turkey: "TR",
+  bulgarien: "BG", bulgaria: "BG",
+  "rumänien": "RO", rumaenien: "RO", romania: "RO",
+  ungarn: "HU", hungary: "HU",
+  griechenland: "GR", greece: "GR",
+};
+
+// UN/ECE Recommendation 20/21 Einheiten
+const EINHEIT_ZU_UNECE: Record<string, string> = {
+  kg: "KGM",
+  "stück": "H87",
+  kiste: "XBX",
+  karton: "XCT",
+};
+
+/* ------------------------------ Konfiguration ----------------------------- */
+
+export type VerkaeuferConfig = {
+  name: string;
+  strasse: string;
+  plz: string;
+  ort: string;
+  land: string;           // ISO 3166-1 alpha-2
+  ustId: string;
+  steuernummer?: string;
+  handelsregister?: string;
+  kontaktName: string;
+  telefon: string;
+  email: string;
+  iban: string;
+  bic?: string;
+  kontoinhaber?: string;
+  zahlungszielTage: number;
+};
+
+/**
+ * Verkäuferdaten aus der Umgebung (Fallback: Stammdaten aus dem Beleg-Footer).
+ */
+export function getVerkaeuferConfig(): VerkaeuferConfig {
+  const env = process.env;
+  return {
+    name: env.RECHNUNG_FIRMA_NAME || "Hacilar Helal Et Kombinasi Türkische Fleischgrosshandels GmbH",
+    strasse: env.RECHNUNG_FIRMA_STRASSE || "Beusselstraße 44",
+    plz: env.RECHNUNG_FIRMA_PLZ || "10553",
+    ort: env.RECHNUNG_FIRMA_ORT || "Berlin",
+    land: env.RECHNUNG_FIRMA_LAND || "DE",
+    ustId: (env.RECHNUNG_FIRMA_USTID || "DE136685882").replace(/\s+/g, ""),
+    steuernummer: env.RECHNUNG_FIRMA_STEUERNUMMER || "30/038/75076",
+    handelsregister: env.RECHNUNG_FIRMA_HANDELSREGISTER || "Amtsgericht Berlin-Charlottenburg HRB 30292",
+    kontaktName: env.RECHNUNG_KONTAKT_NAME || "Buchhaltung",
+    telefon: env.RECHNUNG_KONTAKT_TELEFON || "+49 30 398019330",
+    email: env.RECHNUNG_KONTAKT_EMAIL || "info@haclar-et.de",
+    iban: (env.RECHNUNG_IBAN || "DE8810092951736000").replace(/\s+/g, ""),
+    bic: env.RECHNUNG_BIC || "BEVODEBBXXX",
+    kontoinhaber: env.RECHNUNG_KONTOINHABER || undefined,
+    zahlungszielTage: env.RECHNUNG_ZAHLUNGSZIEL_TAGE ? Number(env.RECHNUNG_ZAHLUNGSZIEL_TAGE) : 14,
+  };
+}
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+function esc(s: unknown): string {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function amount(n: number): string {
+  return round2(n).toFixed(2);
+}
+
+function quantity(n: number): string {
+  return (Math.round(n * 1000) / 1000).toFixed(3);
+}
+
+function price(n: number): string {
+  return (Math.round(n * 10000) / 10000).toFixed(4);
+}
+
+function date102(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}${m}${day}`;
+}
+
+export function landZuIso(land?: string): string {
+  const key = (land || "Deutschland").toLowerCase().trim();
+  if (LAND_ZU_ISO[key]) return LAND_ZU_ISO[key];
+  if (/^[a-z]{2}$/.test(key)) return key.toUpperCase();
+  return "DE";
+}
+
+/** Freitext-Adresse ("Straße 1, 12345 Ort") in Straße / PLZ / Ort zerlegen */
+export function parseAdresse(adresse?: string): { strasse?: string; plz?: string; ort?: string } {
+  if (!adresse) return {};
+  const teile = adresse.split(/[,\n]/).map((t) => t.trim()).filter(Boolean);
+  const result: { strasse?: string; plz?: string; ort?: string } = {};
+  for (const teil of teile) {
+    const m = teil.match(/^(?:[A-Z]{1,2}-)?(\d{4,5})\s+(.+)$/);
+    if (m && !result.plz) {
+      result.plz = m[1];
+      result.ort = m[2];
+    } else if (!result.strasse) {
+      result.strasse = teil;
+    }
+  }
+  if (!result.ort && teile.length > 1) result.ort = teile[teile.length - 1];
+  return result;
+}
+
+/* ------------------------------ Rechnungsdaten ----------------------------- */
+
+export type EInvoiceZeile = {
+  nr: number;
+  artikelNummer?: string;
+  bezeichnung: string;
+  menge: number;
+  einheit: string;        // UN/ECE-Code
+  einzelpreis: number;    // netto
+  nettobetrag: number;    // menge × einzelpreis (gerundet)
+};
+
+export type EInvoiceSteuer = {
+  kategorie: "S" | "K" | "G";
+  satz: number;
+  basis: number;
+  betrag: number;
+  befreiungsgrund?: string;
+  befreiungsCode?: string;
+};
+
+export type EInvoiceDaten = {
+  nummer: string;
+  typeCode: "380" | "381" | "384";
+  datum: Date;
+  lieferdatum?: Date;
+  faelligAm: Date;
+  waehrung: "EUR";
+  auftragsnummer?: string;
+  referenzBelegNummer?: string;
+  verkaeufer: VerkaeuferConfig;
+  kaeufer: {
+    name: string;
+    kundenNummer?: string;
+    strasse?: string;
+    plz?: string;
+    ort?: string;
+    land: string;
+    ustId?: string;
+    email?: string;
+  };
+  zeilen: EInvoiceZeile[];
+  steuer: EInvoiceSteuer;
+  summeNetto: number;
+  summeSteuer: number;
+  summeBrutto: number;
+  /** Positionen mit den Werten der E-Rechnung – für die sichtbare Darstellung im Hybrid-PDF */
+  positionen: ArtikelPositionResource[];
+  /** Sammelrechnung: Darstellung je Lieferung im Hybrid-PDF */
+  sammelrechnung?: {
+    kundeId: string;
+    zeitraumVon: Date;
+    zeitraumBis: Date;
+    abschnitte: { titel: string; positionen: ArtikelPositionResource[] }[];
+  };
+};
+
+/**
+ * Finalisierter Archiv-Beleg eines Auftrags. Ohne Nummer: die aktuelle Rechnung bzw. der
+ * zuletzt finalisierte Beleg des Typs. Nummern außerhalb des Archivs werden abgelehnt.
+ */
+async function ladeArchivBeleg(auftrag: IAuftrag, belegTyp: BelegTyp, nummer?: string) {
+  const filter: Record<string, any> = { typ: belegTyp, auftraege: auftrag._id };
+  if (nummer) {
+    filter.nummer = nummer;
+  } else if (belegTyp === "rechnung") {
+    if (!auftrag.rechnungFinalisiertAm) throw new Error("Beleg ist noch nicht finalisiert – keine Belegnummer vorhanden");
+    filter.nummer = auftrag.rechnungsNummer;
+  }
+  const archiv = await BelegArchiv.findOne(filter).sort({ finalisiertAm: -1 });
+  if (!archiv) {
+    throw new Error(
+      nummer
+        ? `Beleg ${nummer} ist für diesen Auftrag nicht finalisiert`
+        : "Beleg ist noch nicht finalisiert – keine Belegnummer vorhanden"
+    );
+  }
+  return archiv;
+}
+
+/**
+ * Ermittelt alle Rechnungsdaten für eine E-Rechnung zu einem Auftrag aus dem finalisierten
+ * Archiv-Beleg (inputData.nummer wählt nur unter den archivierten Belegen des Auftrags aus).
+ * Zeilen, Steuersatz, Kundenanschrift und Datum stammen aus dem Snapshot – bei einer Sammelrechnung
+ * also alle enthaltenen Lieferungen. Gutschrift/Preisdifferenz ohne Positionen: eine Zeile über den Betrag.
+ */
+export async function buildEInvoiceDaten(
+  auftragId: string,
+  belegTyp: BelegTyp,
+  inputData?: Partial<BelegResource>
+): Promise<EInvoiceDaten> {
+  if (!E_RECHNUNG_TYPEN.includes(belegTyp)) {
+    throw new Error(`Für den Belegtyp "${belegTyp}" kann keine E-Rechnung erzeugt werden`);
+  }
+
+  const auftrag = await Auftrag.findById(auftragId);
+  if (!auftrag) throw new Error("Auftrag nicht gefunden");
+
+  const archiv = await ladeArchivBeleg(auftrag, belegTyp, inputData?.nummer);
+  const snapshotKunde = archiv.kunde;
+  const kunde = await Kunde.findById(snapshotKunde?.id ?? auftrag.kunde);
+
+  const verkaeufer = getVerkaeuferConfig();
+  const referenzBelegNummer = archiv.referenzBelegNummer ?? undefined;
+
+  // --- Steuer: wie im archivierten Beleg (MwSt nur für Kunden in Deutschland) ---
+  const landIso = landZuIso(snapshotKunde?.land ?? kunde?.land);
+  const mwstSatz = archiv.mwstSatz;
+  const kategorie: EInvoiceSteuer["kategorie"] =
+    landIso === "DE" ? "S" : EU_LAENDER.includes(landIso) ? "K" : "G";
+
+  // --- Zeilen aus dem Snapshot ---
+  let snapshot = archiv.positionen ?? [];
+  if (!snapshot.length && (belegTyp === "gutschrift" || belegTyp === "preisdifferenz")) {
+    snapshot = [betragsPosition(belegTyp, archiv.betragNetto, referenzBelegNummer)];
+  }
+
+  // Sammelrechnung: Zuordnung der Snapshot-Positionen zu den Lieferungen (Reihenfolge wie im Archiv)
+  const archivAbschnitte = archiv.abschnitte ?? [];
+  const istSammelrechnung = archivAbschnitte.length > 0;
+  const abschnittVon: number[] = [];
+  archivAbschnitte.forEach((a, i) => {
+    for (let n = 0; n < a.anzahlPositionen; n++) abschnittVon.push(i);
+  });
+  const pdfAbschnitte = archivAbschnitte.map((a) => ({ titel: abschnittTitel(a), positionen: [] as ArtikelPositionResource[] }));
+
+  const zeilen: EInvoiceZeile[] = [];
+  const positionen: ArtikelPositionResource[] = [];
+  snapshot.forEach((pos, idx) => {
+    // Menge: Nettogewicht (kg) → kommissionierte Menge → bestellte Menge
+    const netto = typeof pos.nettogewicht === "number" ? pos.nettogewicht : undefined;
+    const menge = netto ?? pos.kommissioniertMenge ?? pos.menge ?? 0;
+    if (!menge) return;
+    const einheitIntern = netto !== undefined ? "kg" : (pos.kommissioniertEinheit || pos.einheit || "kg");
+    // Zeilenbetrag wie im archivierten PDF; Gutschriften werden positiv ausgewiesen (TypeCode 381)
+    const betrag = zeilenBetrag(pos);
+    const nettobetrag = round2(belegTyp === "gutschrift" ? Math.abs(betrag) : betrag);
+    const einzelpreis =
+      typeof pos.einzelpreis === "number"
+        ? belegTyp === "gutschrift" ? Math.abs(pos.einzelpreis) : pos.einzelpreis
+        : round2(nettobetrag / menge);
+
+    zeilen.push({
+      nr: zeilen.length + 1,
+      artikelNummer: pos.artikelNummer,
+      bezeichnung: pos.artikelName || "Artikel",
+      menge,
+      einheit: pos.artikel ? EINHEIT_ZU_UNECE[einheitIntern] || "C62" : "C62",
+      einzelpreis,
+      nettobetrag,
+    });
+    const anzeige = { ...pos, gesamtpreis: nettobetrag };
+    positionen.push(anzeige);
+    if (istSammelrechnung) pdfAbschnitte[abschnittVon[idx] ?? pdfAbschnitte.length - 1]?.positionen.push(anzeige);
+  });
+
+  if (zeilen.length === 0) throw new Error("Keine abrechenbaren Positionen vorhanden");
+
+  // Preisdifferenz zu Lasten des Verkäufers → als Gutschrift (381) ausweisen
+  let typeCode: EInvoiceDaten["typeCode"] = belegTyp === "rechnung" ? "380" : belegTyp === "gutschrift" ? "381" : "384";
+  if (belegTyp === "preisdifferenz" && zeilen.every((z) => z.nettobetrag < 0)) {
+    typeCode = "381";
+    zeilen.forEach((z) => {
+      z.einzelpreis = Math.abs(z.einzelpreis);
+      z.nettobetrag = Math.abs(z.nettobetrag);
+    });
+  }
+
+  const summeNetto = round2(zeilen.reduce((s, z) => s + z.nettobetrag, 0));
+  // Steuerbetrag aus dem Archiv (nicht neu gerechnet) → XML stimmt mit dem finalisierten Beleg überein
+  const summeSteuer = round2(Math.sign(summeNetto) * Math.abs(archiv.mwstBetrag));
+  const summeBrutto = round2(summeNetto + summeSteuer);
+
+  const steuer: EInvoiceSteuer = { kategorie, satz: mwstSatz, basis: summeNetto, betrag: summeSteuer };
+  if (kategorie === "K") {
+    steuer.befreiungsgrund = "Steuerfreie innergemeinschaftliche Lieferung";
+    steuer.befreiungsCode = "VATEX-EU-IC";
+  } else if (kategorie === "G") {
+    steuer.befreiungsgrund = "Steuerfreie Ausfuhrlieferung";
+    steuer.befreiungsCode = "VATEX-EU-G";
+  }
+
+  // Belegdatum wie im archivierten Beleg; Sammelrechnung: Lieferung = Ende des Abrechnungszeitraums
+  const datum = new Date(archiv.datum);
+  const lieferdatum = istSammelrechnung
+    ? archiv.zeitraumBis ? new Date(archiv.zeitraumBis) : undefined
+    : auftrag.lieferdatum ? new Date(auftrag.lieferdatum) : undefined;
+  const faelligAm = new Date(datum.getTime() + verkaeufer.zahlungszielTage * 24 * 60 * 60 * 1000);
+
+  const adr = parseAdresse(snapshotKunde?.adresse ?? kunde?.adresse);
+  const ustId = snapshotKunde?.ustId ?? kunde?.ustId;
+
+  return {
+    nummer: archiv.nummer,
+    typeCode,
+    datum,
+    lieferdatum,
+    faelligAm,
+    waehrung: "EUR",
+    // Sammelrechnung: kein einzelner Auftrag als Bestellreferenz
+    auftragsnummer: istSammelrechnung ? undefined : auftrag.auftragsnummer,
+    referenzBelegNummer,
+    verkaeufer,
+    kaeufer: {
+      name: snapshotKunde?.name ?? kunde?.name ?? "",
+      kundenNummer: snapshotKunde?.kundenNummer ?? kunde?.kundenNummer ?? undefined,
+      strasse: adr.strasse,
+      plz: adr.plz,
+      ort: adr.ort,
+      land: landIso,
+      ustId: ustId ? String(ustId).replace(/\s+/g, "") : undefined,
+      email: kunde?.emailRechnung || kunde?.email || snapshotKunde?.email || undefined,
+    },
+    zeilen,
+    steuer,
+    summeNetto,
+    summeSteuer,
+    summeBrutto,
+    positionen,
+    sammelrechnung: istSammelrechnung
+      ? {
+          kundeId: String(snapshotKunde?.id ?? auftrag.kunde),
+          zeitraumVon: new Date(archiv.zeitraumVon ?? archiv.datum),
+          zeitraumBis: new Date(archiv.zeitraumBis ?? archiv.datum),
+          abschnitte: pdfAbschnitte.filter((a) => a.positionen.length),
+        }
+      : undefined,
+  };
+}
+
+/* ---------------------------------- CII-XML -------------------------------- */
+
+function tradeTaxXml(s: EInvoiceSteuer, mitBetraegen: boolean): string {
+  return [
+    `<ram:ApplicableTradeTax>`,
+    mitBetraegen ? `<ram:CalculatedAmount>${amount(s.betrag)}</ram:CalculatedAmount>` : "",
+    `<ram:TypeCode>VAT</ram:TypeCode>`,
+    mitBetraegen && s.befreiungsgrund ? `<ram:ExemptionReason>${esc(s.befreiungsgrund)}</ram:ExemptionReason>` : "",
+    mitBetraegen ? `<ram:BasisAmount>${amount(s.basis)}</ram:BasisAmount>` : "",
+    `<ram:CategoryCode>${s.kategorie}</ram:CategoryCode>`,
+    mitBetraegen && s.befreiungsCode ? `<ram:ExemptionReasonCode>${s.befreiungsCode}</ram:ExemptionReasonCode>` : "",
+    `<ram:RateApplicablePercent>${s.satz}</ram:RateApplicablePercent>`,
+    `</ram:ApplicableTradeTax>`,
+  ].join("");
+}
+
+/**
+ * Serialisiert Rechnungsdaten als UN/CEFACT CrossIndustryInvoice (D16B).
+ */
+export function renderCiiXml(d: EInvoiceDaten, profil: EInvoiceProfil): string {
+  const v = d.verkaeufer;
+  const k = d.kaeufer;
+
+  if (profil === "XRECHNUNG" && !k.email) {
+    throw new Error("Für eine XRechnung wird eine E-Mail-Adresse des Kunden benötigt (emailRechnung oder email)");
+  }
+
+  const zeilen = d.zeilen
+    .map(
+      (z) =>
+        `<ram:IncludedSupplyChainTradeLineItem>` +
+        `<ram:AssociatedDocumentLineDocument><ram:LineID>${z.nr}</ram:LineID></ram:AssociatedDocumentLineDocument>` +
+        `<ram:SpecifiedTradeProduct>` +
+        (z.artikelNummer ? `<ram:SellerAssignedID>${esc(z.artikelNummer)}</ram:SellerAssignedID>` : "") +
+        `<ram:Name>${esc(z.bezeichnung)}</ram:Name>` +
+        `</ram:SpecifiedTradeProduct>` +
+        `<ram:SpecifiedLineTradeAgreement><ram:NetPriceProductTradePrice><ram:ChargeAmount>${price(z.einzelpreis)}</ram:ChargeAmount></ram:NetPriceProductTradePrice></ram:SpecifiedLineTradeAgreement>` +
+        `<ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="${z.einheit}">${quantity(z.menge)}</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>` +
+        `<ram:SpecifiedLineTradeSettlement>` +
+        tradeTaxXml(d.steuer, false) +
+        `<ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>${amount(z.nettobetrag)}</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>` +
+        `</ram:SpecifiedLineTradeSettlement>` +
+        `</ram:IncludedSupplyChainTradeLineItem>`
+    )
+    .join("\n    ");
+
+  const sellerParty =
+    `<ram:SellerTradeParty>` +
+    `<ram:Name>${esc(v.name)}</ram:Name>` +
+    (v.handelsregister ? `<ram:SpecifiedLegalOrganization><ram:ID>${esc(v.handelsregister)}</ram:ID></ram:SpecifiedLegalOrganization>` : "") +
+    `<ram:DefinedTradeContact>` +
+    `<ram:PersonName>${esc(v.kontaktName)}</ram:PersonName>` +
+    `<ram:TelephoneUniversalCommunication><ram:CompleteNumber>${esc(v.telefon)}</ram:CompleteNumber></ram:TelephoneUniversalCommunication>` +
+    `<ram:EmailURIUniversalCommunication><ram:URIID>${esc(v.email)}</ram:URIID></ram:EmailURIUniversalCommunication>` +
+    `</ram:DefinedTradeContact>` +
+    `<ram:PostalTradeAddress>` +
+    `<ram:PostcodeCode>${esc(v.plz)}</ram:PostcodeCode>` +
+    `<ram:LineOne>${esc(v.strasse)}</ram:LineOne>` +
+    `<ram:CityName>${esc(v.ort)}</ram:CityName>` +
+    `<ram:CountryID>${esc(v.land)}</ram:CountryID>` +
+    `</ram:PostalTradeAddress>` +
+    `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${esc(v.email)}</ram:URIID></ram:URIUniversalCommunication>` +
+    `<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${esc(v.ustId)}</ram:ID></ram:SpecifiedTaxRegistration>` +
+    (v.steuernummer ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">${esc(v.steuernummer)}</ram:ID></ram:SpecifiedTaxRegistration>` : "") +
+    `</ram:SellerTradeParty>`;
+
+  const buyerParty =
+    `<ram:BuyerTradeParty>` +
+    (k.kundenNummer ? `<ram:ID>${esc(k.kundenNummer)}</ram:ID>` : "") +
+    `<ram:Name>${esc(k.name)}</ram:Name>` +
+    `<ram:PostalTradeAddress>` +
+    (k.plz ? `<ram:PostcodeCode>${esc(k.plz)}</ram:PostcodeCode>` : "") +
+    (k.strasse ? `<ram:LineOne>${esc(k.strasse)}</ram:LineOne>` : "") +
+    (k.ort ? `<ram:CityName>${esc(k.ort)}</ram:CityName>` : "") +
+    `<ram:CountryID>${esc(k.land)}</ram:CountryID>` +
+    `</ram:PostalTradeAddress>` +
+    (k.email ? `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${esc(k.email)}</ram:URIID></ram:URIUniversalCommunication>` : "") +
+    (k.ustId ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${esc(k.ustId)}</ram:ID></ram:SpecifiedTaxRegistration>` : "") +
+    `</ram:BuyerTradeParty>`;
+
+  const paymentMeans =
+    `<ram:SpecifiedTradeSettlementPaymentMeans>` +
+    `<ram:TypeCode>58</ram:TypeCode>` +
+    `<ram:PayeePartyCreditorFinancialAccount>` +
+    `<ram:IBANID>${esc(v.iban)}</ram:IBANID>` +
+    (v.kontoinhaber ? `<ram:AccountName>${esc(v.kontoinhaber)}</ram:AccountName>` : "") +
+    `</ram:PayeePartyCreditorFinancialAccount>` +
+    (v.bic ? `<ram:PayeeSpecifiedCreditorFinancialInstitution><ram:BICID>${esc(v.bic)}</ram:BICID></ram:PayeeSpecifiedCreditorFinancialInstitution>` : "") +
+    `</ram:SpecifiedTradeSettlementPaymentMeans>`;
+
+  const zahlungsbedingungen =
+    d.typeCode === "381"
+      ? `<ram:SpecifiedTradePaymentTerms><ram:Description>Der Betrag wird gutgeschrieben.</ram:Description></ram:SpecifiedTradePaymentTerms>`
+      : `<ram:SpecifiedTradePaymentTerms>` +
+        `<ram:Description>Zahlbar innerhalb von ${v.zahlungszielTage} Tagen ohne Abzug.</ram:Description>` +
+        `<ram:DueDateDateTime><udt:DateTimeString format="102">${date102(d.faelligAm)}</udt:DateTimeString></ram:DueDateDateTime>` +
+        `</ram:SpecifiedTradePaymentTerms>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100" xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100" xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100" xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    ${profil === "XRECHNUNG" ? `<ram:BusinessProcessSpecifiedDocumentContextParameter><ram:ID>${BUSINESS_PROCESS_ID}</ram:ID></ram:BusinessProcessSpecifiedDocumentContextParameter>` : ""}
+    <ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>${GUIDELINE_ID[profil]}</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>${esc(d.nummer)}</ram:ID>
+    <ram:TypeCode>${d.typeCode}</ram:TypeCode>
+    <ram:IssueDateTime><udt:DateTimeString format="102">${date102(d.datum)}</udt:DateTimeString></ram:IssueDateTime>
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    ${zeilen}
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:BuyerReference>${esc(k.kundenNummer || d.auftragsnummer || k.name)}</ram:BuyerReference>
+      ${sellerParty}
+      ${buyerParty}
+      ${d.auftragsnummer ? `<ram:BuyerOrderReferencedDocument><ram:IssuerAssignedID>${esc(d.auftragsnummer)}</ram:IssuerAssignedID></ram:BuyerOrderReferencedDocument>` : ""}
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeDelivery>
+      ${d.lieferdatum ? `<ram:ActualDeliverySupplyChainEvent><ram:OccurrenceDateTime><udt:DateTimeString format="102">${date102(d.lieferdatum)}</udt:DateTimeString></ram:OccurrenceDateTime></ram:ActualDeliverySupplyChainEvent>` : ""}
+    </ram:ApplicableHeaderTradeDelivery>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>${d.waehrung}</ram:InvoiceCurrencyCode>
+      ${paymentMeans}
+      ${tradeTaxXml(d.steuer, true)}
+      ${zahlungsbedingungen}
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:LineTotalAmount>${amount(d.summeNetto)}</ram:LineTotalAmount>
+        <ram:TaxBasisTotalAmount>${amount(d.summeNetto)}</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="${d.waehrung}">${amount(d.summeSteuer)}</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>${amount(d.summeBrutto)}</ram:GrandTotalAmount>
+        <ram:DuePayableAmount>${amount(d.summeBrutto)}</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+      ${d.referenzBelegNummer ? `<ram:InvoiceReferencedDocument><ram:IssuerAssignedID>${esc(d.referenzBelegNummer)}</ram:IssuerAssignedID></ram:InvoiceReferencedDocument>` : ""}
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>
+`;
+}
+
+/* ------------------------------- Öffentliche API ------------------------------- */
+
+/**
+ * Erzeugt die E-Rechnung (CII-XML) zu einem Auftrag.
+ */
+export async function generateXRechnungXml(
+  auftragId: string,
+  belegTyp: BelegTyp,
+  inputData?: Partial<BelegResource>,
+  profil: EInvoiceProfil = "XRECHNUNG"
+): Promise<{ xml: string; nummer: string }> {
+  const daten = await buildEInvoiceDaten(auftragId, belegTyp, inputData);
+  return { xml: renderCiiXml(daten, profil), nummer: daten.nummer };
+}
+
+/**
+ * Erzeugt eine ZUGFeRD/Factur-X-Hybridrechnung (PDF/A-3b mit eingebetteter factur-x.xml).
+ * Die sichtbaren Positionen/Summen entsprechen exakt den Werten der XML.
+ */
+export async function generateZugferdPdf(
+  auftragId: string,
+  belegTyp: BelegTyp,
+  inputData?: Partial<BelegResource>
+): Promise<{ pdf: Buffer; nummer: string }> {
+  const daten = await buildEInvoiceDaten(auftragId, belegTyp, inputData);
+  const xml = renderCiiXml(daten, "FACTURX");
+  const pdf = daten.sammelrechnung
+    ? await generateSammelrechnungPdf(daten.sammelrechnung.kundeId, {
+        nummer: daten.nummer,
+        datum: daten.datum,
+        zeitraumVon: daten.sammelrechnung.zeitraumVon,
+        zeitraumBis: daten.sammelrechnung.zeitraumBis,
+        mwstSatz: daten.steuer.satz,
+        abschnitte: daten.sammelrechnung.abschnitte,
+        facturX: { xml },
+      })
+    : await generateBelegPdf(
+        auftragId,
+        belegTyp,
+        { ...inputData, nummer: daten.nummer, datum: daten.datum.toISOString(), referenzBelegNummer: daten.referenzBelegNummer },
+        { nummer: daten.nummer, positionen: daten.positionen, facturX: { xml } }
+      );
+  return { pdf, nummer: daten.nummer };
+}
@@ -0,0 +1,181 @@
+/**
+ * ZustellnachweisService.ts
+ *
+ * Zustellnachweis (Proof of Delivery) je TourStop bzw. gesammelt je Tour als PDF:
+ * gelieferte Positionen des Auftrags, Unterschrift (Dateiablage oder Altbestand Base64),
+ * Zeitstempel, Fahrer, Fahrzeug, zurückgenommenes Leergut und Fehlgrund.
+ * Die Lieferschein-E-Mail hängt den Nachweis automatisch an, sobald der Stop abgeschlossen ist.
+ */
+
+import mongoose, { Types } from "mongoose";
+import { ArtikelPosition } from "../model/ArtikelPositionModel";
+import { Auftrag } from "../model/AuftragModel";
+import { Fahrzeug } from "../model/FahrzeugModel";
+import { Kunde } from "../model/KundeModel";
+import { Mitarbeiter } from "../model/MitarbeiterModel";
+import { Tour } from "../model/TourModel";
+import { TourStop } from "../model/TourStopModel";
+import { logger } from "../logger";
+import { generateBelegPdf, generateZustellnachweisPdf, ZustellnachweisPdfDaten } from "./BelegService";
+import { ladeDatei } from "./dateien/DateiService";
+import { sendLieferscheinEmail } from "./EmailService";
+
+/** Stops in diesen Status haben einen aussagekräftigen Nachweis */
+const ABGESCHLOSSEN_STATUS = ["zugestellt", "teilweise", "fehlgeschlagen"];
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function dateiname(nummer: string, prefix = "Zustellnachweis"): string {
+  return `${prefix}_${nummer.replace(/[^A-Za-z0-9_\-]/g, "_")}.pdf`;
+}
+
+async function ladeSignatur(stop: any): Promise<Buffer | undefined> {
+  try {
+    if (stop.signaturDateiId) return (await ladeDatei(stop.signaturDateiId.toString())).daten;
+    if (stop.signaturPngBase64) return Buffer.from(stop.signaturPngBase64, "base64");
+  } catch (err: any) {
+    logger.warn(`[Zustellnachweis] Unterschrift zu Stop ${stop._id} nicht lesbar: ${err?.message}`);
+  }
+  return undefined;
+}
+
+async function tourInfo(tourId?: Types.ObjectId): Promise<{ tour?: string; fahrer?: string; fahrzeug?: string }> {
+  if (!tourId) return {};
+  const tour = await Tour.findById(tourId).lean();
+  if (!tour) return {};
+  const [fahrer, fahrzeug] = await Promise.all([
+    tour.fahrerId ? Mitarbeiter.findById(tour.fahrerId).select({ name: 1 }).lean() : null,
+    tour.fahrzeugId ? Fahrzeug.findById(tour.fahrzeugId).select({ name: 1, kennzeichen: 1 }).lean() : null,
+  ]);
+  return {
+    tour: tour.name || `${tour.region} ${new Date(tour.datum).toLocaleDateString("de-DE")}`,
+    fahrer: fahrer?.name,
+    fahrzeug: fahrzeug ? `${fahrzeug.kennzeichen} (${fahrzeug.name})` : undefined,
+  };
+}
+
+async function stopDaten(stop: any, tour: { tour?: string; fahrer?: string; fahrzeug?: string }): Promise<ZustellnachweisPdfDaten> {
+  const auftrag = await Auftrag.findById(stop.auftragId)
+    .select({ auftragsnummer: 1, lieferdatum: 1, artikelPosition: 1, belegListe: 1 })
+    .lean();
+  const kunde = await Kunde.findById(stop.kundeId).select({ name: 1, adresse: 1, kundenNummer: 1 }).lean();
+
+  // Hauptpositionen mit kommissionierter Menge (Leergut-Positionen erscheinen nicht doppelt)
+  const positionen = auftrag
+    ? await ArtikelPosition.find({ _id: { $in: auftrag.artikelPosition }, leergutVonPositionId: { $exists: false } })
+        .select({ artikelName: 1, menge: 1, einheit: 1, kommissioniertMenge: 1, kommissioniertEinheit: 1, nettogewicht: 1 })
+        .lean()
+    : [];
+  const lieferschein = (auftrag?.belegListe ?? []).find((b) => b.typ === "lieferschein" && b.nummer);
+
+  return {
+    auftragsnummer: auftrag?.auftragsnummer,
+    lieferscheinNummer: lieferschein?.nummer,
+    lieferdatum: auftrag?.lieferdatum ?? undefined,
+    kunde: {
+      name: kunde?.name || stop.kundeName || "Kunde",
+      adresse: kunde?.adresse || stop.kundeAdress,
+      kundenNummer: kunde?.kundenNummer,
+    },
+    tour: tour.tour,
+    position: stop.position,
+    fahrer: tour.fahrer,
+    fahrzeug: tour.fahrzeug,
+    status: stop.status,
+    fehlgrund: stop.fehlgrund ?? undefined,
+    positionen: positionen.map((p) => ({
+      artikelName: p.artikelName || "Unbekannt",
+      menge: p.kommissioniertMenge ?? p.menge ?? 0,
+      einheit: p.kommissioniertEinheit || p.einheit || "kg",
+      nettogewicht: p.nettogewicht ?? undefined,
+    })),
+    leergutMitnahme: (stop.leergutMitnahme ?? [])
+      .filter((l: any) => l?.art && Number(l.anzahl) > 0)
+      .map((l: any) => ({ art: l.art, anzahl: Number(l.anzahl) })),
+    signatur: await ladeSignatur(stop),
+    signedByName: stop.signedByName ?? undefined,
+    signTimestamp: stop.signTimestampUtc ? new Date(stop.signTimestampUtc) : undefined,
+    abgeschlossenAm: stop.abgeschlossenAm ? new Date(stop.abgeschlossenAm) : undefined,
+  };
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Zustellnachweis eines Stops als PDF.
+ */
+export async function getZustellnachweisPdf(stopId: string): Promise<{ pdf: Buffer; filename: string }> {
+  if (!mongoose.Types.ObjectId.isValid(stopId)) throw new Error("Ungültige TourStop-ID");
+  const stop = await TourStop.findById(stopId).lean();
+  if (!stop) throw new Error("TourStop nicht gefunden");
+  const daten = await stopDaten(stop, await tourInfo(stop.tourId));
+  return {
+    pdf: await generateZustellnachweisPdf([daten]),
+    filename: dateiname(daten.auftragsnummer || stopId),
+  };
+}
+
+/**
+ * Zustellnachweise aller Stops einer Tour (Reihenfolge der Tour) in einem PDF.
+ */
+export async function getTourZustellnachweisePdf(tourId: string): Promise<{ pdf: Buffer; filename: string }> {
+  if (!mongoose.Types.ObjectId.isValid(tourId)) throw new Error("Ungültige Tour-ID");
+  const stops = await TourStop.find({ tourId: new Types.ObjectId(tourId) }).sort({ position: 1 }).lean();
+  if (!stops.length) throw new Error("Tour hat keine Stops");
+  const tour = await tourInfo(new Types.ObjectId(tourId));
+  const daten: ZustellnachweisPdfDaten[] = [];
+  for (const stop of stops) daten.push(await stopDaten(stop, tour));
+  return {
+    pdf: await generateZustellnachweisPdf(daten),
+    filename: dateiname(tour.tour || tourId, "Zustellnachweise"),
+  };
+}
+
+/**
+ * Lieferschein-E-Mail an den Kunden (emailLieferschein, sonst email) mit Lieferschein-PDF;
+ * ist der Stop bereits abgeschlossen, wird der Zustellnachweis automatisch angehängt.
+ */
+export async function sendeLieferscheinEmail(
+  auftragId: string,
+  empfaenger?: string
+): Promise<{ empfaenger: string; zustellnachweis: boolean }> {
+  if (!mongoose.Types.ObjectId.isValid(auftragId)) throw new Error("Ungültige Auftrag-ID");
+  const auftrag = await Auftrag.findById(auftragId)
+    .select({ auftragsnummer: 1, kunde: 1, lieferdatum: 1, artikelPosition: 1 })
+    .lean();
+  if (!auftrag) throw new Error("Auftrag nicht gefunden");
+  const kunde = await Kunde.findById(auftrag.kunde).select({ name: 1, adresse: 1, email: 1, emailLieferschein: 1 }).lean();
+  if (!kunde) throw new Error("Kunde nicht gefunden");
+  const an = empfaenger || kunde.emailLieferschein || kunde.email;
+  if (!an) throw new Error("Keine E-Mail-Adresse für den Lieferschein hinterlegt");
+
+  const stop = await TourStop.findOne({ auftragId: auftrag._id }).lean();
+  const tour = await tourInfo(stop?.tourId);
+  const daten = stop ? await stopDaten(stop, tour) : undefined;
+  const mitNachweis = !!stop && ABGESCHLOSSEN_STATUS.includes(stop.status);
+  const nummer = auftrag.auftragsnummer || auftragId;
+
+  const positionen = daten?.positionen ?? (
+    await ArtikelPosition.find({ _id: { $in: auftrag.artikelPosition }, leergutVonPositionId: { $exists: false } })
+      .select({ artikelName: 1, menge: 1, einheit: 1, kommissioniertMenge: 1, kommissioniertEinheit: 1 })
+      .lean()
+  ).map((p) => ({
+    artikelName: p.artikelName || "Unbekannt",
+    menge: p.kommissioniertMenge ?? p.menge ?? 0,
+    einheit: p.kommissioniertEinheit || p.einheit || "kg",
+  }));
+
+  await sendLieferscheinEmail({
+    kundenEmail: an,
+    kundenName: kunde.name,
+    auftragNummer: nummer,
+    lieferDatum: auftrag.lieferdatum ? new Date(auftrag.lieferdatum).toLocaleDateString("de-DE") : "—",
+    lieferAdresse: kunde.adresse,
+    positionen: positionen.map(({ artikelName, menge, einheit }) => ({ artikelName, menge, einheit })),
+    fahrer: tour.fahrer,
+    fahrzeug: tour.fahrzeug,
+    pdfBuffer: await generateBelegPdf(auftragId, "lieferschein"),
+    zustellnachweisPdf: mitNachweis && daten ? await generateZustellnachweisPdf([daten]) : undefined,
+  });
+  return { empfaenger: an, zustellnachweis: mitNachweis };
+}
@@ -0,0 +1,233 @@
+/**
+ * KontoauszugParser.ts
+ *
+ * Parser für elektronische Kontoauszüge (ohne XML-Bibliothek, tolerant gegenüber Bankvarianten).
+ * - CAMT.053 (ISO 20022, camt.053.001.02 ff.): je <Ntry> ein Umsatz, Sammelbuchungen mit
+ *   mehreren <TxDtls> inkl. Einzelbetrag werden aufgeteilt
+ * - MT940 (SWIFT): :61: Umsatzzeile + :86: Mehrzweckfeld (strukturiert "?20…?29", "?32/?33", "?31")
+ */
+
+import { BankImportFormat } from "../../Resources";
+
+export type KontoauszugUmsatz = {
+  buchungsdatum: Date;
+  valuta?: Date;
+  betrag: number;              // Eingang positiv, Ausgang negativ
+  waehrung: string;
+  verwendungszweck: string;
+  gegenkontoName?: string;
+  gegenkontoIban?: string;
+  bankReferenz?: string;
+};
+
+export type Kontoauszug = {
+  format: BankImportFormat;
+  kontoIban?: string;
+  umsaetze: KontoauszugUmsatz[];
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function xmlDecode(s: string): string {
+  return s
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Alle Vorkommen eines Elements (ohne Namespace-Präfix) */
+function tags(xml: string, name: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, "g");
+  const result: string[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml))) result.push(m[1]);
+  return result;
+}
+
+function tag(xml: string | undefined, ...pfad: string[]): string | undefined {
+  let cur = xml;
+  for (const name of pfad) {
+    if (cur === undefined) return undefined;
+    cur = tags(cur, name)[0];
+  }
+  return cur === undefined ? undefined : xmlDecode(cur).trim();
+}
+
+function isoDatum(s?: string): Date | undefined {
+  if (!s) return undefined;
+  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3])) : undefined;
+}
+
+function betragOf(s?: string): number {
+  return Math.round(parseFloat((s || "0").replace(",", ".")) * 100) / 100;
+}
+
+function normIban(s?: string): string | undefined {
+  const v = (s || "").replace(/\s+/g, "").toUpperCase();
+  return v || undefined;
+}
+
+/* ---------------------------------- CAMT ---------------------------------- */
+
+function parseCamt053(xml: string): Kontoauszug {
+  const stmts = tags(xml, "Stmt");
+  if (!stmts.length) throw new Error("Keine CAMT.053-Kontoauszüge (<Stmt>) gefunden");
+
+  let kontoIban: string | undefined;
+  const umsaetze: KontoauszugUmsatz[] = [];
+
+  for (const stmt of stmts) {
+    kontoIban = kontoIban ?? normIban(tag(stmt, "Acct", "Id", "IBAN"));
+
+    for (const ntry of tags(stmt, "Ntry")) {
+      const vorzeichen = tag(ntry, "CdtDbtInd") === "DBIT" ? -1 : 1;
+      const buchung = tag(ntry, "BookgDt");
+      const valuta = tag(ntry, "ValDt");
+      const buchungsdatum = isoDatum(tag(buchung, "Dt") ?? tag(buchung, "DtTm"));
+      if (!buchungsdatum) continue;
+      const valutaDatum = isoDatum(tag(valuta, "Dt") ?? tag(valuta, "DtTm"));
+      const ntryBetragRoh = tags(ntry, "Amt")[0];
+      const waehrung = ntry.match(/<(?:\w+:)?Amt[^>]*Ccy="([A-Z]{3})"/)?.[1] ?? "EUR";
+      const bankReferenz = tag(ntry, "AcctSvcrRef");
+
+      const details = tags(ntry, "TxDtls");
+      const teile = details.length ? details : [ntry];
+      const aufteilen = details.length > 1 && details.every((d) => tags(d, "Amt").length > 0);
+
+      for (const d of aufteilen ? teile : [teile[0]]) {
+        const ustrd = tags(d, "Ustrd").map((u) => xmlDecode(u).trim());
+        const strd = tags(d, "Strd").map((s) => tag(s, "Ref")).filter(Boolean) as string[];
+        const verwendungszweck = [...ustrd, ...strd, tag(d, "AddtlTxInf") ?? ""]
+          .filter(Boolean)
+          .join(" ")
+          .replace(/\s+/g, " ")
+          .trim();
+
+        // Gegenpartei: bei Eingang der Zahler (Dbtr), bei Ausgang der Empfänger (Cdtr)
+        const partei = vorzeichen > 0 ? "Dbtr" : "Cdtr";
+        const rltdPties = tag(d, "RltdPties");
+        const name = tag(rltdPties, partei, "Nm") ?? tag(rltdPties, partei, "Pty", "Nm");
+        const iban = normIban(tag(rltdPties, `${partei}Acct`, "Id", "IBAN"));
+
+        const betragRoh = aufteilen ? tags(d, "Amt")[0] : ntryBetragRoh;
+        const endToEndId = tag(d, "Refs", "EndToEndId");
+        umsaetze.push({
+          buchungsdatum,
+          valuta: valutaDatum,
+          betrag: vorzeichen * betragOf(xmlDecode(betragRoh ?? "0")),
+          waehrung,
+          verwendungszweck,
+          gegenkontoName: name,
+          gegenkontoIban: iban,
+          bankReferenz: endToEndId && endToEndId !== "NOTPROVIDED" ? endToEndId : bankReferenz,
+        });
+      }
+    }
+  }
+  return { format: "CAMT053", kontoIban, umsaetze };
+}
+
+/* ---------------------------------- MT940 --------------------------------- */
+
+function mt940Datum(yymmdd: string): Date {
+  const jj = Number(yymmdd.slice(0, 2));
+  const jahr = jj < 70 ? 2000 + jj : 1900 + jj;
+  return new Date(Date.UTC(jahr, Number(yymmdd.slice(2, 4)) - 1, Number(yymmdd.slice(4, 6))));
+}
+
+/** :86: Mehrzweckfeld – strukturiert (deutsche Banken, "?"-Subfelder) oder Freitext */
+function parseFeld86(text: string): { verwendungszweck: string; name?: string; iban?: string } {
+  const flach = text.replace(/\r?\n/g, "");
+  if (!/^\d{3}\?/.test(flach)) {
+    return { verwendungszweck: flach.replace(/\s+/g, " ").trim() };
+  }
+  const sub: Record<string, string[]> = {};
+  for (const teil of flach.slice(3).split("?").filter(Boolean)) {
+    const code = teil.slice(0, 2);
+    (sub[code] ??= []).push(teil.slice(2));
+  }
+  const zweck: string[] = [];
+  for (let i = 20; i <= 29; i++) zweck.push(...(sub[String(i)] ?? []));
+  for (let i = 60; i <= 63; i++) zweck.push(...(sub[String(i)] ?? []));
+  const name = [...(sub["32"] ?? []), ...(sub["33"] ?? [])].join("").trim();
+  return {
+    // Zeilen sind auf 27 Zeichen umbrochen → ohne Trennzeichen zusammensetzen, SEPA-Kennungen trennen
+    verwendungszweck: zweck.join("").replace(/(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE)\+/g, " $1+").replace(/\s+/g, " ").trim(),
+    name: name || undefined,
+    iban: normIban(sub["31"]?.[0]),
+  };
+}
+
+function parseMt940(text: string): Kontoauszug {
+  // Felder beginnen mit ":NN[A]:" am Zeilenanfang; Folgezeilen gehören zum vorherigen Feld
+  const felder: { tag: string; wert: string }[] = [];
+  for (const zeile of text.split(/\r?\n/)) {
+    const m = zeile.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) felder.push({ tag: m[1], wert: m[2] });
+    else if (felder.length && zeile.trim() && !/^-}?$/.test(zeile.trim())) {
+      felder[felder.length - 1].wert += "\n" + zeile;
+    }
+  }
+  if (!felder.some((f) => f.tag === "61")) throw new Error("Keine MT940-Umsätze (:61:) gefunden");
+
+  let kontoIban: string | undefined;
+  let waehrung = "EUR";
+  const umsaetze: KontoauszugUmsatz[] = [];
+
+  for (let i = 0; i < felder.length; i++) {
+    const f = felder[i];
+    if (f.tag === "25") {
+      const konto = f.wert.trim();
+      if (!kontoIban && /^[A-Z]{2}\d{2}/.test(konto)) kontoIban = normIban(konto);
+    } else if (f.tag === "60F" || f.tag === "60M") {
+      waehrung = f.wert.trim().slice(7, 10) || waehrung;
+    } else if (f.tag === "61") {
+      const m = f.wert
+        .split("\n")[0]
+        .match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)(?:[A-Z]\w{3})?([^/]*)(?:\/\/(.*))?$/);
+      if (!m) continue;
+      const valuta = mt940Datum(m[1]);
+      let buchungsdatum = valuta;
+      if (m[2]) {
+        // Buchungsdatum MMDD: Jahr aus Valuta, Jahreswechsel berücksichtigen
+        const monat = Number(m[2].slice(0, 2));
+        let jahr = valuta.getUTCFullYear();
+        if (monat === 12 && valuta.getUTCMonth() === 0) jahr -= 1;
+        if (monat === 1 && valuta.getUTCMonth() === 11) jahr += 1;
+        buchungsdatum = new Date(Date.UTC(jahr, monat - 1, Number(m[2].slice(2, 4))));
+      }
+      // C = Haben (Eingang), D = Soll; RC/RD = Storno
+      const vorzeichen = m[3] === "C" || m[3] === "RD" ? 1 : -1;
+      const info = felder[i + 1]?.tag === "86" ? parseFeld86(felder[i + 1].wert) : { verwendungszweck: "" };
+      const referenz = (m[6] || m[5] || "").trim();
+
+      umsaetze.push({
+        buchungsdatum,
+        valuta,
+        betrag: vorzeichen * betragOf(m[4]),
+        waehrung,
+        verwendungszweck: info.verwendungszweck,
+        gegenkontoName: info.name,
+        gegenkontoIban: info.iban,
+        bankReferenz: referenz && referenz !== "NONREF" ? referenz : undefined,
+      });
+    }
+  }
+  return { format: "MT940", kontoIban, umsaetze };
+}
+
+/* ------------------------------- Öffentliche API ------------------------------- */
+
+/**
+ * Erkennt das Format am Inhalt (XML → CAMT.053, sonst MT940) und liefert die Umsätze.
+ */
+export function parseKontoauszug(inhalt: string): Kontoauszug {
+  const text = inhalt.replace(/^\uFEFF/, "");
+  if (/^\s*</.test(text)) return parseCamt053(text);
+  if (/^:20:|\n:20:|:61:/.test(text)) return parseMt940(text);
+  throw new Error("Unbekanntes Dateiformat (erwartet CAMT.053-XML oder MT940)");
+}
@@ -0,0 +1,456 @@
+/**
+ * ZahlungsabgleichService.ts
+ *
+ * Import von Kontoauszügen (CAMT.053 / MT940) und Abgleich der Zahlungseingänge mit offenen Rechnungen.
+ * Automatische Zuordnung in dieser Reihenfolge:
+ * 1. Rechnungsnummer (RE-JJJJ-NNNNN) im Verwendungszweck → Zahlung auf die Aufträge der Rechnung
+ * 2. Kunde (IBAN aus früheren Zuordnungen oder Name) + Betrag einer offenen Rechnung bzw. aller offenen Rechnungen
+ * Teilzahlungen reduzieren Auftrag.offenBetrag (zahlstatus "teilweise"), vollständige setzen "bezahlt".
+ * Alles, was nicht vollständig zugeordnet werden kann, bleibt mit Vorschlägen in der Prüfliste (status "offen").
+ */
+
+import crypto from "crypto";
+import mongoose, { Types } from "mongoose";
+import { Auftrag } from "../../model/AuftragModel";
+import { Kunde } from "../../model/KundeModel";
+import { BankImport } from "../../model/BankImportModel";
+import { BankTransaktion } from "../../model/BankTransaktionModel";
+import {
+  BankImportResource,
+  BankTransaktionResource,
+  BankTransaktionStatus,
+} from "../../Resources";
+import { parseKontoauszug, KontoauszugUmsatz } from "./KontoauszugParser";
+
+type ZuordnungArt = "rechnungsnummer" | "betrag_kunde" | "manuell";
+
+type Anteil = { auftragId: Types.ObjectId; rechnungsNummer?: string; betrag: number };
+
+/** Offene Rechnung eines Auftrags (eine Rechnung kann mehrere Aufträge umfassen – Sammelrechnung) */
+type OffenerAuftrag = { _id: Types.ObjectId; rechnungsNummer?: string; kunde: Types.ObjectId; offen: number };
+
+const TOLERANZ = 0.005;
+
+/* --------------------------------- Helpers -------------------------------- */
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Rechnungsnummern aus dem Verwendungszweck, normalisiert auf RE-JJJJ-NNNNN */
+function findeRechnungsnummern(text: string): string[] {
+  const result: string[] = [];
+  const re = /\bRE[\s\-_/]?(\d{4})[\s\-_/]?(\d{1,5})\b/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const nr = `RE-${m[1]}-${m[2].padStart(5, "0")}`;
+    if (!result.includes(nr)) result.push(nr);
+  }
+  return result;
+}
+
+/** Firmenname für den Namensvergleich: ohne Rechtsform, Satzzeichen und Umlaute */
+function normName(s?: string): string {
+  return (s || "")
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/\b(gmbh|ug|ag|kg|ohg|gbr|e\.?\s?k\.?|co|mbh|haftungsbeschraenkt|inh\.?)\b/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function hashUmsatz(kontoIban: string | undefined, u: KontoauszugUmsatz, vorkommen: number): string {
+  const key = [
+    kontoIban ?? "",
+    u.buchungsdatum.toISOString().slice(0, 10),
+    u.betrag.toFixed(2),
+    u.gegenkontoIban ?? "",
+    u.verwendungszweck,
+    u.bankReferenz ?? "",
+    vorkommen,
+  ].join("|");
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** Offener Betrag: offenBetrag, sonst Betrag des finalen Rechnungsbelegs */
+function offenerBetrag(a: any): number {
+  if (typeof a.offenBetrag === "number") return a.offenBetrag;
+  const beleg = (a.belegListe ?? []).find(
+    (b: any) => b?.typ === "rechnung" && b?.status === "final" && b?.nummer === a.rechnungsNummer
+  );
+  return typeof beleg?.betrag === "number" ? beleg.betrag : 0;
+}
+
+async function ladeOffeneAuftraege(
+  filter: Record<string, any>,
+  session?: mongoose.ClientSession
+): Promise<OffenerAuftrag[]> {
+  const docs = await Auftrag.find({
+    ...filter,
+    rechnungFinalisiertAm: { $exists: true },
+    status: { $ne: "storniert" },
+    zahlstatus: { $ne: "bezahlt" },
+  })
+    .select({ rechnungsNummer: 1, kunde: 1, offenBetrag: 1, belegListe: 1, lieferdatum: 1 })
+    .sort({ lieferdatum: 1, _id: 1 })
+    .session(session ?? null)
+    .lean();
+  return docs
+    .map((a) => ({ _id: a._id, rechnungsNummer: a.rechnungsNummer, kunde: a.kunde, offen: round2(offenerBetrag(a)) }))
+    .filter((a) => a.offen > TOLERANZ);
+}
+
+/** Betrag der Reihe nach auf offene Aufträge verteilen (keine Überzahlung je Auftrag) */
+function verteile(betrag: number, auftraege: OffenerAuftrag[]): Anteil[] {
+  const anteile: Anteil[] = [];
+  let rest = round2(betrag);
+  for (const a of auftraege) {
+    if (rest <= TOLERANZ) break;
+    const teil = round2(Math.min(rest, a.offen));
+    anteile.push({ auftragId: a._id, rechnungsNummer: a.rechnungsNummer, betrag: teil });
+    rest = round2(rest - teil);
+  }
+  return anteile;
+}
+
+/** Offene Aufträge je Rechnungsnummer gruppieren */
+function nachRechnung(auftraege: OffenerAuftrag[]): Map<string, OffenerAuftrag[]> {
+  const map = new Map<string, OffenerAuftrag[]>();
+  for (const a of auftraege) {
+    const key = a.rechnungsNummer ?? a._id.toString();
+    map.set(key, [...(map.get(key) ?? []), a]);
+  }
+  return map;
+}
+
+function summe(auftraege: OffenerAuftrag[]): number {
+  return round2(auftraege.reduce((s, a) => s + a.offen, 0));
+}
+
+/** Kunde über bestätigte frühere Zuordnungen derselben IBAN, sonst eindeutigen Namensabgleich */
+async function erkenneKunde(iban?: string, name?: string): Promise<Types.ObjectId | undefined> {
+  if (iban) {
+    const frueher = await BankTransaktion.findOne({ gegenkontoIban: iban, status: "zugeordnet", kunde: { $exists: true } })
+      .sort({ buchungsdatum: -1 })
+      .select({ kunde: 1 })
+      .lean();
+    if (frueher?.kunde) return frueher.kunde;
+  }
+  const gesucht = normName(name);
+  if (gesucht.length < 4) return undefined;
+  const kunden = await Kunde.find({}).select({ name: 1 }).lean();
+  const treffer = kunden.filter((k) => {
+    const n = normName(k.name);
+    return n.length >= 4 && (n === gesucht || n.includes(gesucht) || gesucht.includes(n));
+  });
+  return treffer.length === 1 ? treffer[0]._id : undefined;
+}
+
+/**
+ * Bucht Anteile auf die Aufträge und an der Transaktion (innerhalb einer Session).
+ * Offene Beträge werden in der Transaktion erneut gelesen; Überzahlung eines Auftrags wird abgewiesen.
+ * Liefert true, wenn die Zahlung danach vollständig zugeordnet ist.
+ */
+async function bucheAnteile(
+  tx: any,
+  anteile: Anteil[],
+  art: ZuordnungArt,
+  session: mongoose.ClientSession,
+  userId?: string
+): Promise<boolean> {
+  let rest = round2(tx.restBetrag);
+  for (const anteil of anteile) {
+    if (anteil.betrag <= 0) throw new Error("Zuordnungsbetrag muss positiv sein");
+    if (anteil.betrag > rest + TOLERANZ) throw new Error("Zuordnung übersteigt den offenen Zahlungsbetrag");
+
+    const auftrag = await Auftrag.findById(anteil.auftragId).session(session);
+    if (!auftrag) throw new Error("Auftrag nicht gefunden");
+    if (!auftrag.rechnungFinalisiertAm) throw new Error(`Auftrag ${auftrag.auftragsnummer} hat keine finalisierte Rechnung`);
+    const offen = round2(offenerBetrag(auftrag));
+    if (anteil.betrag > offen + TOLERANZ) {
+      throw new Error(`Betrag übersteigt den offenen Betrag von Rechnung ${auftrag.rechnungsNummer} (${offen.toFixed(2)} €)`);
+    }
+
+    const neuOffen = round2(offen - anteil.betrag);
+    const bezahlt = neuOffen <= TOLERANZ;
+    await Auftrag.updateOne(
+      { _id: auftrag._id },
+      bezahlt
+        ? { $set: { offenBetrag: 0, zahlstatus: "bezahlt", zahlungsDatum: tx.buchungsdatum } }
+        : { $set: { offenBetrag: neuOffen, zahlstatus: "teilweise" }, $unset: { zahlungsDatum: "" } },
+      { session }
+    );
+
+    tx.zuordnungen.push({
+      auftrag: auftrag._id,
+      rechnungsNummer: auftrag.rechnungsNummer,
+      betrag: anteil.betrag,
+      art,
+      datum: new Date(),
+      von: userId,
+    });
+    tx.kunde = tx.kunde ?? auftrag.kunde;
+    rest = round2(rest - anteil.betrag);
+  }
+  tx.restBetrag = rest;
+  tx.status = rest <= TOLERANZ ? "zugeordnet" : "offen";
+  if (tx.status === "zugeordnet") tx.vorschlaege = [];
+  await tx.save({ session });
+  return tx.status === "zugeordnet";
+}
+
+/**
+ * Automatischer Abgleich einer (neuen) Eingangszahlung.
+ * Liefert true, wenn der Betrag vollständig zugeordnet wurde.
+ */
+async function gleicheAb(txId: Types.ObjectId): Promise<boolean> {
+  return withTransaction(async (session) => {
+    const tx = await BankTransaktion.findById(txId).session(session);
+    if (!tx || tx.status !== "offen" || tx.restBetrag <= TOLERANZ) return false;
+
+    // 1. Rechnungsnummer im Verwendungszweck
+    const nummern = findeRechnungsnummern(tx.verwendungszweck);
+    if (nummern.length) {
+      const offene = await ladeOffeneAuftraege({ rechnungsNummer: { $in: nummern } }, session);
+      const sortiert = nummern.flatMap((nr) => offene.filter((a) => a.rechnungsNummer === nr));
+      const anteile = verteile(tx.restBetrag, sortiert);
+      if (anteile.length) return bucheAnteile(tx, anteile, "rechnungsnummer", session);
+    }
+
+    // 2. Kunde + Betrag
+    const kundeId = tx.kunde ?? (await erkenneKunde(tx.gegenkontoIban, tx.gegenkontoName));
+    if (kundeId) {
+      tx.kunde = kundeId;
+      const offene = await ladeOffeneAuftraege({ kunde: kundeId }, session);
+      const rechnungen = [...nachRechnung(offene).values()];
+      const passend = rechnungen.filter((r) => Math.abs(summe(r) - tx.restBetrag) <= TOLERANZ);
+      if (passend.length === 1) {
+        return bucheAnteile(tx, verteile(tx.restBetrag, passend[0]), "betrag_kunde", session);
+      }
+      if (offene.length && Math.abs(summe(offene) - tx.restBetrag) <= TOLERANZ) {
+        return bucheAnteile(tx, verteile(tx.restBetrag, offene), "betrag_kunde", session);
+      }
+      tx.vorschlaege = (passend.length ? passend.flat() : offene).slice(0, 20).map((a) => a._id);
+    } else {
+      // 3. Nur Vorschläge: offene Rechnungen mit passendem Betrag
+      const offene = await ladeOffeneAuftraege({}, session);
+      const passend = [...nachRechnung(offene).values()].filter((r) => Math.abs(summe(r) - tx.restBetrag) <= TOLERANZ);
+      tx.vorschlaege = passend.flat().slice(0, 20).map((a) => a._id);
+    }
+    await tx.save({ session });
+    return false;
+  });
+}
+
+function importToResource(doc: any): BankImportResource {
+  return {
+    id: doc._id.toString(),
+    datum: doc.datum.toISOString(),
+    dateiname: doc.dateiname,
+    format: doc.format,
+    kontoIban: doc.kontoIban ?? undefined,
+    anzahlTransaktionen: doc.anzahlTransaktionen,
+    anzahlDuplikate: doc.anzahlDuplikate ?? 0,
+    anzahlZugeordnet: doc.anzahlZugeordnet ?? 0,
+  };
+}
+
+function transaktionToResource(doc: any): BankTransaktionResource {
+  return {
+    id: doc._id.toString(),
+    importId: doc.importId.toString(),
+    buchungsdatum: doc.buchungsdatum.toISOString(),
+    valuta: doc.valuta ? doc.valuta.toISOString() : undefined,
+    betrag: doc.betrag,
+    waehrung: doc.waehrung,
+    verwendungszweck: doc.verwendungszweck ?? "",
+    gegenkontoName: doc.gegenkontoName ?? undefined,
+    gegenkontoIban: doc.gegenkontoIban ?? undefined,
+    bankReferenz: doc.bankReferenz ?? undefined,
+    status: doc.status,
+    zuordnungen: (doc.zuordnungen ?? []).map((z: any) => ({
+      auftragId: z.auftrag.toString(),
+      rechnungsNummer: z.rechnungsNummer ?? undefined,
+      betrag: z.betrag,
+      art: z.art,
+      datum: new Date(z.datum).toISOString(),
+      von: z.von ?? undefined,
+    })),
+    restBetrag: doc.restBetrag,
+    kundeId: doc.kunde ? doc.kunde.toString() : undefined,
+    vorschlaege: (doc.vorschlaege ?? []).map((v: any) => v.toString()),
+    bemerkung: doc.bemerkung ?? undefined,
+  };
+}
+
+/* ------------------------------- Öffentliche API ------------------------------- */
+
+/**
+ * Importiert einen Kontoauszug und gleicht alle neuen Zahlungseingänge automatisch ab.
+ * Bereits importierte Umsätze (gleicher fachlicher Schlüssel) werden übersprungen.
+ */
+export async function importiereKontoauszug(
+  data: { dateiname: string; inhalt: string },
+  userId?: string
+): Promise<BankImportResource> {
+  const auszug = parseKontoauszug(data.inhalt);
+  if (!auszug.umsaetze.length) throw new Error("Der Kontoauszug enthält keine Umsätze");
+
+  const imp = await BankImport.create({
+    datum: new Date(),
+    dateiname: data.dateiname,
+    format: auszug.format,
+    kontoIban: auszug.kontoIban,
+    anzahlTransaktionen: 0,
+    erstelltVon: userId,
+  });
+
+  const vorkommen = new Map<string, number>();
+  const neu: Types.ObjectId[] = [];
+  let duplikate = 0;
+
+  for (const u of auszug.umsaetze) {
+    const basis = hashUmsatz(auszug.kontoIban, u, 0);
+    const n = vorkommen.get(basis) ?? 0;
+    vorkommen.set(basis, n + 1);
+    const eingang = u.betrag > 0;
+    try {
+      const tx = await BankTransaktion.create({
+        importId: imp._id,
+        hash: n === 0 ? basis : hashUmsatz(auszug.kontoIban, u, n),
+        ...u,
+        status: eingang ? "offen" : "ignoriert",
+        restBetrag: eingang ? u.betrag : 0,
+        bemerkung: eingang ? undefined : "Zahlungsausgang",
+      });
+      if (eingang) neu.push(tx._id);
+    } catch (err: any) {
+      if (err?.code !== 11000) throw err;
+      duplikate++;
+    }
+  }
+
+  let zugeordnet = 0;
+  for (const id of neu) {
+    if (await gleicheAb(id)) zugeordnet++;
+  }
+
+  imp.anzahlTransaktionen = auszug.umsaetze.length - duplikate;
+  imp.anzahlDuplikate = duplikate;
+  imp.anzahlZugeordnet = zugeordnet;
+  await imp.save();
+  return importToResource(imp);
+}
+
+export async function getBankImporte(): Promise<BankImportResource[]> {
+  const docs = await BankImport.find().sort({ datum: -1 });
+  return docs.map(importToResource);
+}
+
+/**
+ * Umsätze, standardmäßig die Prüfliste (status "offen").
+ */
+export async function getBankTransaktionen(params: {
+  status?: BankTransaktionStatus;
+  importId?: string;
+  kundeId?: string;
+} = {}): Promise<BankTransaktionResource[]> {
+  const q: Record<string, any> = {};
+  if (params.status) q.status = params.status;
+  if (params.importId) q.importId = params.importId;
+  if (params.kundeId) q.kunde = params.kundeId;
+  const docs = await BankTransaktion.find(q).sort({ buchungsdatum: -1, _id: 1 }).lean();
+  return docs.map(transaktionToResource);
+}
+
+/**
+ * Manuelle Zuordnung aus der Prüfliste (auch Teilbeträge auf mehrere Aufträge).
+ */
+export async function ordneTransaktionZu(
+  id: string,
+  zuordnungen: { auftragId: string; betrag: number }[],
+  userId?: string
+): Promise<BankTransaktionResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  if (!zuordnungen.length) throw new Error("Keine Zuordnungen angegeben");
+  for (const z of zuordnungen) {
+    if (!mongoose.Types.ObjectId.isValid(z.auftragId)) throw new Error("Ungültige Auftrag-ID");
+  }
+  return withTransaction(async (session) => {
+    const tx = await BankTransaktion.findById(id).session(session);
+    if (!tx) throw new Error("Transaktion nicht gefunden");
+    if (tx.betrag <= 0) throw new Error("Nur Zahlungseingänge können Rechnungen zugeordnet werden");
+    if (tx.status !== "offen") throw new Error("Transaktion ist nicht mehr offen");
+
+    await bucheAnteile(
+      tx,
+      zuordnungen.map((z) => ({ auftragId: new Types.ObjectId(z.auftragId), betrag: round2(Number(z.betrag)) })),
+      "manuell",
+      session,
+      userId
+    );
+    return transaktionToResource(tx);
+  });
+}
+
+/**
+ * Transaktion aus der Prüfliste nehmen (z.B. Privateinlage, Erstattung).
+ */
+export async function ignoriereTransaktion(id: string, bemerkung?: string): Promise<BankTransaktionResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  const tx = await BankTransaktion.findById(id);
+  if (!tx) throw new Error("Transaktion nicht gefunden");
+  if (tx.zuordnungen.length) throw new Error("Transaktion hat Zuordnungen – bitte zuerst aufheben");
+  tx.status = "ignoriert";
+  tx.bemerkung = bemerkung ?? tx.bemerkung;
+  await tx.save();
+  return transaktionToResource(tx);
+}
+
+/**
+ * Hebt alle Zuordnungen einer Transaktion auf und stellt die offenen Beträge der Aufträge wieder her.
+ */
+export async function hebeZuordnungAuf(id: string): Promise<BankTransaktionResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+  return withTransaction(async (session) => {
+    const tx = await BankTransaktion.findById(id).session(session);
+    if (!tx) throw new Error("Transaktion nicht gefunden");
+
+    for (const z of tx.zuordnungen) {
+      const auftrag = await Auftrag.findById(z.auftrag).session(session);
+      if (!auftrag) continue;
+      const offen = round2(offenerBetrag(auftrag) + z.betrag);
+      const weitereZahlungen = await BankTransaktion.exists({
+        _id: { $ne: tx._id },
+        "zuordnungen.auftrag": auftrag._id,
+      }).session(session);
+      await Auftrag.updateOne(
+        { _id: auftrag._id },
+        { $set: { offenBetrag: offen, zahlstatus: weitereZahlungen ? "teilweise" : "offen" }, $unset: { zahlungsDatum: "" } },
+        { session }
+      );
+    }
+
+    const eingang = tx.betrag > 0;
+    tx.zuordnungen = [];
+    tx.restBetrag = eingang ? tx.betrag : 0;
+    tx.status = eingang ? "offen" : "ignoriert";
+    await tx.save({ session });
+    return transaktionToResource(tx);
+  });
+}
@@ -0,0 +1,417 @@
+/**
+ * DateiService.ts
+ *
+ * Dateiablage für Unterschriften, Leergut-PDFs, Kundendokumente und Reklamationsfotos statt Base64 in den Dokumenten:
+ * - Inhalt im Speicher-Backend (DateiSpeicher), Metadaten + SHA-256 in DateiModel
+ * - Dateityp wird am Inhalt erkannt (PDF/PNG/JPEG) und je Zweck geprüft
+ * - Jede Datei gehört einer Entität; ein Zweck hat je Besitzer genau eine Datei (Upload ersetzt)
+ *   und der Besitzer verweist darauf (signaturDateiId, pdfDateiId, gewerbeDateiUrl/zusatzDateiUrl);
+ *   Ausnahme Reklamationsfotos: beliebig viele je Reklamation (fotoDateiIds)
+ * - Migration verschiebt vorhandene Base64-Inhalte in die Ablage (Job "datei-migration")
+ */
+
+import crypto from "crypto";
+import mongoose, { ClientSession, Model, Types } from "mongoose";
+import { Datei } from "../../model/DateiModel";
+import { Kunde } from "../../model/KundeModel";
+import { LeergutBuchung } from "../../model/LeergutBuchungModel";
+import { LieferantenReklamationModel } from "../../model/LieferantenReklamationModel";
+import { TourStop } from "../../model/TourStopModel";
+import { logger } from "../../logger";
+import {
+  DateiBesitzerTyp,
+  DateiMigrationResource,
+  DateiResource,
+  DateiZweck,
+  JobResource,
+  LoginResource,
+  MitarbeiterRolle,
+} from "../../Resources";
+import { registerJobHandler, scheduleJob } from "../JobQueueService";
+import { DATEI_MAX_BYTES, getSpeicherBackend, neuerSpeicherKey } from "./DateiSpeicher";
+
+const MIGRATION_JOB = "datei-migration";
+
+const ERLAUBTE_TYPEN: Record<DateiZweck, string[]> = {
+  signatur: ["image/png"],
+  "leergut-pdf": ["application/pdf"],
+  gewerbe: ["application/pdf", "image/png", "image/jpeg"],
+  zusatz: ["application/pdf", "image/png", "image/jpeg"],
+  "reklamation-foto": ["image/png", "image/jpeg"],
+};
+
+const BESITZER_JE_ZWECK: Record<DateiZweck, DateiBesitzerTyp> = {
+  signatur: "tourstop",
+  "leergut-pdf": "leergutbuchung",
+  gewerbe: "kunde",
+  zusatz: "kunde",
+  "reklamation-foto": "reklamation",
+};
+
+/** Zwecke mit mehreren Dateien je Besitzer (Upload ergänzt statt zu ersetzen) */
+const MEHRERE_JE_BESITZER: DateiZweck[] = ["reklamation-foto"];
+
+/** Rollen mit Zugriff je Besitzer – Admins immer, Kunden zusätzlich auf die eigenen Dokumente */
+const ZUGRIFF: Record<DateiBesitzerTyp, MitarbeiterRolle[]> = {
+  tourstop: ["fahrer", "verkauf", "kommissionierung", "kontrolle", "buchhaltung"],
+  leergutbuchung: ["buchhaltung", "verkauf"],
+  kunde: ["verkauf", "buchhaltung"],
+  reklamation: ["wareneingang", "lager", "buchhaltung"],
+};
+
+/* --------------------------------- Helpers -------------------------------- */
+
+/** Dateityp anhand der ersten Bytes */
+function erkenneTyp(daten: Buffer): string | undefined {
+  if (daten.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (daten.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (daten[0] === 0xff && daten[1] === 0xd8 && daten[2] === 0xff) return "image/jpeg";
+  return undefined;
+}
+
+function normalisiereTyp(contentType?: string): string | undefined {
+  const typ = contentType?.split(";")[0].trim().toLowerCase();
+  return typ === "image/jpg" ? "image/jpeg" : typ;
+}
+
+function sha256(daten: Buffer): string {
+  return crypto.createHash("sha256").update(daten).digest("hex");
+}
+
+/** "data:image/png;base64,AAAA" oder reines Base64 → Buffer */
+function dekodiereBase64(wert: string): Buffer {
+  const s = wert.trim();
+  return Buffer.from(s.startsWith("data:") ? s.slice(s.indexOf(",") + 1) : s, "base64");
+}
+
+function besitzerModel(typ: DateiBesitzerTyp): Model<any> {
+  if (typ === "tourstop") return TourStop;
+  if (typ === "leergutbuchung") return LeergutBuchung;
+  if (typ === "reklamation") return LieferantenReklamationModel;
+  return Kunde;
+}
+
+/** Verweis der Besitzer-Entität auf die Datei setzen bzw. entfernen (entfernteId nur bei mehreren Dateien je Zweck) */
+function besitzerVerweis(
+  zweck: DateiZweck,
+  datei?: { id: string; url: string },
+  entfernteId?: Types.ObjectId
+): Record<string, any> {
+  switch (zweck) {
+    case "signatur":
+      return datei
+        ? { $set: { signaturDateiId: new Types.ObjectId(datei.id) }, $unset: { signaturPngBase64: 1 } }
+        : { $unset: { signaturDateiId: 1, signaturPngBase64: 1 } };
+    case "leergut-pdf":
+      return datei
+        ? { $set: { pdfDateiId: new Types.ObjectId(datei.id) }, $unset: { pdfBase64: 1 } }
+        : { $unset: { pdfDateiId: 1, pdfBase64: 1 } };
+    case "gewerbe":
+      return datei ? { $set: { gewerbeDateiUrl: datei.url } } : { $unset: { gewerbeDateiUrl: 1 } };
+    case "zusatz":
+      return datei ? { $set: { zusatzDateiUrl: datei.url } } : { $unset: { zusatzDateiUrl: 1 } };
+    case "reklamation-foto":
+      return datei
+        ? { $addToSet: { fotoDateiIds: new Types.ObjectId(datei.id) } }
+        : { $pull: { fotoDateiIds: entfernteId } };
+  }
+}
+
+function toResource(doc: any): DateiResource {
+  const id = doc._id.toString();
+  return {
+    id,
+    dateiname: doc.dateiname,
+    contentType: doc.contentType,
+    groesse: doc.groesse,
+    sha256: doc.sha256,
+    backend: doc.backend,
+    besitzerTyp: doc.besitzerTyp,
+    besitzerId: doc.besitzerId.toString(),
+    zweck: doc.zweck,
+    hochgeladenVon: doc.hochgeladenVon ?? undefined,
+    erstelltAm: doc.createdAt ? new Date(doc.createdAt).toISOString() : undefined,
+    url: `/api/dateien/${id}`,
+  };
+}
+
+async function entferneInhalt(doc: { backend: any; speicherKey: string }) {
+  try {
+    await getSpeicherBackend(doc.backend).loesche(doc.speicherKey);
+  } catch (err: any) {
+    logger.warn(`[Dateien] Inhalt ${doc.speicherKey} (${doc.backend}) konnte nicht gelöscht werden: ${err?.message}`);
+  }
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * Darf der Benutzer Dateien dieses Besitzers lesen/hochladen?
+ */
+export function darfZugreifen(user: LoginResource | undefined, besitzerTyp: DateiBesitzerTyp, besitzerId: string): boolean {
+  if (!user) return false;
+  if (user.role.includes("admin")) return true;
+  if (besitzerTyp === "kunde" && user.id === besitzerId) return true;
+  return user.role.some((r) => ZUGRIFF[besitzerTyp].includes(r));
+}
+
+/**
+ * Legt eine Datei ab und verknüpft sie mit ihrem Besitzer; eine vorhandene Datei
+ * gleichen Zwecks wird ersetzt.
+ */
+export async function speichereDatei(
+  data: {
+    daten: Buffer;
+    dateiname: string;
+    contentType?: string;
+    besitzerTyp: DateiBesitzerTyp;
+    besitzerId: string | Types.ObjectId;
+    zweck: DateiZweck;
+  },
+  userId?: string
+): Promise<DateiResource> {
+  const besitzerId = data.besitzerId.toString();
+  if (!mongoose.Types.ObjectId.isValid(besitzerId)) throw new Error("Ungültige Besitzer-ID");
+  if (BESITZER_JE_ZWECK[data.zweck] !== data.besitzerTyp) {
+    throw new Error(`Zweck "${data.zweck}" ist für ${data.besitzerTyp} nicht vorgesehen`);
+  }
+  if (!data.daten.length) throw new Error("Datei ist leer");
+  if (data.daten.length > DATEI_MAX_BYTES) {
+    throw new Error(`Datei ist zu groß (max. ${Math.round(DATEI_MAX_BYTES / 1024 / 1024)} MB)`);
+  }
+
+  const erkannt = erkenneTyp(data.daten);
+  if (!erkannt || !ERLAUBTE_TYPEN[data.zweck].includes(erkannt)) {
+    throw new Error(`Dateityp nicht erlaubt (erlaubt: ${ERLAUBTE_TYPEN[data.zweck].join(", ")})`);
+  }
+  const angegeben = normalisiereTyp(data.contentType);
+  if (angegeben && angegeben !== "application/octet-stream" && angegeben !== erkannt) {
+    throw new Error(`Dateiinhalt (${erkannt}) passt nicht zum angegebenen Typ ${angegeben}`);
+  }
+
+  const model = besitzerModel(data.besitzerTyp);
+  if (!(await model.exists({ _id: besitzerId }))) throw new Error("Besitzer der Datei nicht gefunden");
+
+  const backend = getSpeicherBackend();
+  const speicherKey = neuerSpeicherKey(backend.name);
+  await backend.speichere(speicherKey, data.daten, erkannt);
+
+  let doc;
+  try {
+    doc = await Datei.create({
+      dateiname: data.dateiname.trim() || `${data.zweck}`,
+      contentType: erkannt,
+      groesse: data.daten.length,
+      sha256: sha256(data.daten),
+      backend: backend.name,
+      speicherKey,
+      besitzerTyp: data.besitzerTyp,
+      besitzerId: new Types.ObjectId(besitzerId),
+      zweck: data.zweck,
+      hochgeladenVon: userId,
+    });
+  } catch (err) {
+    await entferneInhalt({ backend: backend.name, speicherKey });
+    throw err;
+  }
+
+  const resource = toResource(doc);
+  await model.updateOne({ _id: besitzerId }, besitzerVerweis(data.zweck, resource));
+  if (MEHRERE_JE_BESITZER.includes(data.zweck)) return resource;
+
+  const vorherige = await Datei.find({
+    besitzerTyp: data.besitzerTyp,
+    besitzerId: doc.besitzerId,
+    zweck: data.zweck,
+    _id: { $ne: doc._id },
+  }).lean();
+  for (const alt of vorherige) {
+    await entferneInhalt(alt);
+    await Datei.deleteOne({ _id: alt._id });
+  }
+  return resource;
+}
+
+/**
+ * Legt Base64-Inhalt (auch als data:-URL) ab – für JSON-Clients und die Migration.
+ */
+export async function speichereBase64(
+  data: {
+    base64: string;
+    dateiname: string;
+    besitzerTyp: DateiBesitzerTyp;
+    besitzerId: string | Types.ObjectId;
+    zweck: DateiZweck;
+  },
+  userId?: string
+): Promise<DateiResource> {
+  const { base64, ...rest } = data;
+  return speichereDatei({ ...rest, daten: dekodiereBase64(base64) }, userId);
+}
+
+export async function getDatei(id: string): Promise<DateiResource | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const doc = await Datei.findById(id).lean();
+  return doc ? toResource(doc) : null;
+}
+
+/**
+ * Inhalt einer Datei; die Prüfsumme wird bei jedem Lesen kontrolliert.
+ */
+export async function ladeDatei(id: string): Promise<{ datei: DateiResource; daten: Buffer }> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige Datei-ID");
+  const doc = await Datei.findById(id).lean();
+  if (!doc) throw new Error("Datei nicht gefunden");
+  const daten = await getSpeicherBackend(doc.backend).lade(doc.speicherKey);
+  if (sha256(daten) !== doc.sha256) {
+    logger.error(`[Dateien] Prüfsummenfehler bei Datei ${id} (${doc.backend}:${doc.speicherKey})`);
+    throw new Error("Prüfsumme stimmt nicht – Datei ist beschädigt");
+  }
+  return { datei: toResource(doc), daten };
+}
+
+export async function getDateienByBesitzer(besitzerTyp: DateiBesitzerTyp, besitzerId: string): Promise<DateiResource[]> {
+  if (!mongoose.Types.ObjectId.isValid(besitzerId)) throw new Error("Ungültige Besitzer-ID");
+  const docs = await Datei.find({ besitzerTyp, besitzerId: new Types.ObjectId(besitzerId) }).sort({ createdAt: -1 }).lean();
+  return docs.map(toResource);
+}
+
+/**
+ * Löscht eine Datei samt Verweis beim Besitzer.
+ */
+export async function loescheDatei(id: string): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige Datei-ID");
+  const doc = await Datei.findById(id).lean();
+  if (!doc) throw new Error("Datei nicht gefunden");
+  await entferneInhalt(doc);
+  await Datei.deleteOne({ _id: doc._id });
+  await besitzerModel(doc.besitzerTyp).updateOne({ _id: doc.besitzerId }, besitzerVerweis(doc.zweck, undefined, doc._id));
+}
+
+/**
+ * Löscht alle Dateien eines Besitzers (z.B. wenn die Entität gelöscht wird).
+ */
+export async function loescheDateienVonBesitzer(
+  besitzerTyp: DateiBesitzerTyp,
+  besitzerIds: (string | Types.ObjectId)[],
+  zweck?: DateiZweck
+): Promise<number> {
+  const docs = await Datei.find({
+    besitzerTyp,
+    besitzerId: { $in: besitzerIds.map((id) => new Types.ObjectId(id.toString())) },
+    ...(zweck ? { zweck } : {}),
+  }).lean();
+  for (const doc of docs) {
+    await entferneInhalt(doc);
+    await Datei.deleteOne({ _id: doc._id });
+  }
+  return docs.length;
+}
+
+/**
+ * Hängt die Dateien an eine neue Entität um (z.B. TourStop wird beim Tourwechsel neu angelegt).
+ */
+export async function uebertrageDateien(
+  besitzerTyp: DateiBesitzerTyp,
+  vonId: string | Types.ObjectId,
+  nachId: string | Types.ObjectId,
+  session?: ClientSession
+): Promise<void> {
+  await Datei.updateMany(
+    { besitzerTyp, besitzerId: new Types.ObjectId(vonId.toString()) },
+    { $set: { besitzerId: new Types.ObjectId(nachId.toString()) } },
+    { session }
+  );
+}
+
+/* -------------------------------- Migration -------------------------------- */
+
+/**
+ * Verschiebt Base64-Inhalte aus TourStop.signaturPngBase64, LeergutBuchung.pdfBase64 und
+ * data:-URLs in Kunde.gewerbeDateiUrl/zusatzDateiUrl in die Dateiablage.
+ * Idempotent: bereits migrierte Dokumente haben keinen Base64-Inhalt mehr.
+ */
+export async function migriereBase64Daten(): Promise<DateiMigrationResource> {
+  const ergebnis: DateiMigrationResource = { signaturen: 0, leergutPdfs: 0, kundenDateien: 0, fehler: [] };
+  const fehler = (besitzerTyp: DateiBesitzerTyp, besitzerId: Types.ObjectId, err: any) =>
+    ergebnis.fehler.push({ besitzerTyp, besitzerId: besitzerId.toString(), fehler: err?.message || String(err) });
+
+  const stops = TourStop.find({ signaturPngBase64: { $type: "string", $ne: "" } })
+    .select({ signaturPngBase64: 1 })
+    .lean()
+    .cursor();
+  for await (const stop of stops) {
+    try {
+      await speichereBase64({
+        base64: stop.signaturPngBase64!,
+        dateiname: `Unterschrift_${stop._id}.png`,
+        besitzerTyp: "tourstop",
+        besitzerId: stop._id,
+        zweck: "signatur",
+      });
+      ergebnis.signaturen++;
+    } catch (err) {
+      fehler("tourstop", stop._id, err);
+    }
+  }
+
+  const buchungen = LeergutBuchung.find({ pdfBase64: { $type: "string", $ne: "" } })
+    .select({ pdfBase64: 1, filename: 1 })
+    .lean()
+    .cursor();
+  for await (const b of buchungen) {
+    try {
+      await speichereBase64({
+        base64: b.pdfBase64!,
+        dateiname: b.filename,
+        besitzerTyp: "leergutbuchung",
+        besitzerId: b._id,
+        zweck: "leergut-pdf",
+      });
+      ergebnis.leergutPdfs++;
+    } catch (err) {
+      fehler("leergutbuchung", b._id, err);
+    }
+  }
+
+  const kunden = Kunde.find({ $or: [{ gewerbeDateiUrl: /^data:/ }, { zusatzDateiUrl: /^data:/ }] })
+    .select({ gewerbeDateiUrl: 1, zusatzDateiUrl: 1 })
+    .lean()
+    .cursor();
+  for await (const k of kunden) {
+    for (const zweck of ["gewerbe", "zusatz"] as const) {
+      const url = zweck === "gewerbe" ? k.gewerbeDateiUrl : k.zusatzDateiUrl;
+      if (!url?.startsWith("data:")) continue;
+      try {
+        const endung = url.startsWith("data:application/pdf") ? "pdf" : url.startsWith("data:image/png") ? "png" : "jpg";
+        await speichereBase64({
+          base64: url,
+          dateiname: `${zweck === "gewerbe" ? "Gewerbeanmeldung" : "Zusatzdokument"}_${k._id}.${endung}`,
+          besitzerTyp: "kunde",
+          besitzerId: k._id,
+          zweck,
+        });
+        ergebnis.kundenDateien++;
+      } catch (err) {
+        fehler("kunde", k._id, err);
+      }
+    }
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Startet die Migration als Hintergrund-Job (kann bei vielen Dokumenten länger dauern).
+ */
+export async function starteBase64Migration(): Promise<JobResource> {
+  return scheduleJob({ typ: MIGRATION_JOB, key: "base64", runAt: new Date(), maxAttempts: 3 });
+}
+
+registerJobHandler(MIGRATION_JOB, async () => {
+  const { signaturen, leergutPdfs, kundenDateien, fehler } = await migriereBase64Daten();
+  logger.info(
+    `[Dateien] Migration: ${signaturen} Unterschriften, ${leergutPdfs} Leergut-PDFs, ${kundenDateien} Kundendokumente, ${fehler.length} Fehler`
+  );
+  for (const f of fehler) logger.error(`[Dateien] ${f.besitzerTyp} ${f.besitzerId}: ${f.fehler}`);
+});
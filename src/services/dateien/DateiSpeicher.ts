@@ -0,0 +1,179 @@
+/**
+ * DateiSpeicher.ts
+ *
+ * Austauschbare Speicher-Backends für Dateiinhalte (Auswahl über DATEI_SPEICHER):
+ * - gridfs  MongoDB GridFS, Bucket "dateien" (Standard – keine weitere Infrastruktur nötig)
+ * - lokal   Dateisystem unter DATEI_VERZEICHNIS (Standard: ./storage)
+ * - s3      S3-kompatibler Objektspeicher (AWS, MinIO, Hetzner, …) per Signature V4
+ *           S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ * Die Metadaten (DateiModel) merken sich das Backend – ein Wechsel betrifft nur neue Dateien.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+
+/** Maximale Dateigröße (Standard 15 MB) */
+export const DATEI_MAX_BYTES = Number(process.env.DATEI_MAX_BYTES) || 15 * 1024 * 1024;
+
+export type SpeicherBackendName = "gridfs" | "lokal" | "s3";
+
+export interface SpeicherBackend {
+  name: SpeicherBackendName;
+  speichere(key: string, daten: Buffer, contentType: string): Promise<void>;
+  lade(key: string): Promise<Buffer>;
+  loesche(key: string): Promise<void>;
+}
+
+/* --------------------------------- GridFS -------------------------------- */
+
+function gridFsBucket() {
+  if (!mongoose.connection.db) throw new Error("Keine Datenbankverbindung");
+  return new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: "dateien" });
+}
+
+const gridFs: SpeicherBackend = {
+  name: "gridfs",
+  speichere(key, daten, contentType) {
+    return new Promise((resolve, reject) => {
+      const stream = gridFsBucket().openUploadStreamWithId(new mongoose.Types.ObjectId(key), key, {
+        metadata: { contentType },
+      });
+      stream.on("error", reject);
+      stream.on("finish", () => resolve());
+      stream.end(daten);
+    });
+  },
+  lade(key) {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      gridFsBucket()
+        .openDownloadStream(new mongoose.Types.ObjectId(key))
+        .on("data", (chunk: Buffer) => chunks.push(chunk))
+        .on("error", reject)
+        .on("end", () => resolve(Buffer.concat(chunks)));
+    });
+  },
+  async loesche(key) {
+    await gridFsBucket().delete(new mongoose.Types.ObjectId(key));
+  },
+};
+
+/* ------------------------------ Dateisystem ------------------------------ */
+
+function lokalerPfad(key: string): string {
+  const basis = path.resolve(process.env.DATEI_VERZEICHNIS || path.join(process.cwd(), "storage"));
+  const pfad = path.resolve(basis, key);
+  if (!pfad.startsWith(basis + path.sep)) throw new Error("Ungültiger Speicherschlüssel");
+  return pfad;
+}
+
+const lokal: SpeicherBackend = {
+  name: "lokal",
+  async speichere(key, daten) {
+    const pfad = lokalerPfad(key);
+    await fs.promises.mkdir(path.dirname(pfad), { recursive: true });
+    await fs.promises.writeFile(pfad, daten);
+  },
+  async lade(key) {
+    return fs.promises.readFile(lokalerPfad(key));
+  },
+  async loesche(key) {
+    await fs.promises.rm(lokalerPfad(key), { force: true });
+  },
+};
+
+/* ---------------------------------- S3 ----------------------------------- */
+
+function sha256Hex(daten: Buffer | string): string {
+  return crypto.createHash("sha256").update(daten).digest("hex");
+}
+
+function hmac(schluessel: Buffer | string, text: string): Buffer {
+  return crypto.createHmac("sha256", schluessel).update(text).digest();
+}
+
+/** Request mit AWS Signature V4 (Path-Style, damit auch MinIO & Co. ohne DNS-Buckets funktionieren) */
+async function s3Request(methode: "PUT" | "GET" | "DELETE", key: string, daten?: Buffer, contentType?: string) {
+  const endpoint = process.env.S3_ENDPOINT;
+  const bucket = process.env.S3_BUCKET;
+  const accessKey = process.env.S3_ACCESS_KEY_ID;
+  const secret = process.env.S3_SECRET_ACCESS_KEY;
+  const region = process.env.S3_REGION || "us-east-1";
+  if (!endpoint || !bucket || !accessKey || !secret) {
+    throw new Error("S3 ist nicht konfiguriert (S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)");
+  }
+
+  const url = new URL(`${endpoint.replace(/\/+$/, "")}/${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const tag = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(daten ?? "");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (contentType) headers["content-type"] = contentType;
+  const signiert = Object.keys(headers).sort();
+  const canonicalRequest = [
+    methode,
+    url.pathname,
+    "",
+    signiert.map((h) => `${h}:${headers[h]}\n`).join(""),
+    signiert.join(";"),
+    payloadHash,
+  ].join("\n");
+  const scope = `${tag}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secret}`, tag), region), "s3"), "aws4_request");
+  const signatur = hmac(signingKey, stringToSign).toString("hex");
+
+  const { host, ...sendeHeaders } = headers;
+  const res = await fetch(url, {
+    method: methode,
+    headers: {
+      ...sendeHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, SignedHeaders=${signiert.join(";")}, Signature=${signatur}`,
+    },
+    body: daten,
+  });
+  if (!res.ok && !(methode === "DELETE" && res.status === 404)) {
+    throw new Error(`S3 ${methode} fehlgeschlagen (${res.status}): ${(await res.text()).slice(0, 200)}`);
+  }
+  return res;
+}
+
+const s3: SpeicherBackend = {
+  name: "s3",
+  async speichere(key, daten, contentType) {
+    await s3Request("PUT", key, daten, contentType);
+  },
+  async lade(key) {
+    const res = await s3Request("GET", key);
+    return Buffer.from(await res.arrayBuffer());
+  },
+  async loesche(key) {
+    await s3Request("DELETE", key);
+  },
+};
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+const BACKENDS: Record<SpeicherBackendName, SpeicherBackend> = { gridfs: gridFs, lokal, s3 };
+
+/** Backend nach Name; ohne Namen das konfigurierte Standard-Backend für neue Dateien */
+export function getSpeicherBackend(name?: SpeicherBackendName): SpeicherBackend {
+  const gewaehlt = (name ?? process.env.DATEI_SPEICHER ?? "gridfs") as SpeicherBackendName;
+  const backend = BACKENDS[gewaehlt];
+  if (!backend) throw new Error(`Unbekanntes Speicher-Backend: ${gewaehlt}`);
+  return backend;
+}
+
+/** Neuer Speicherschlüssel; GridFS braucht eine ObjectId, sonst nach Monat gruppiert */
+export function neuerSpeicherKey(backend: SpeicherBackendName): string {
+  const id = new mongoose.Types.ObjectId().toString();
+  if (backend === "gridfs") return id;
+  return `${new Date().toISOString().slice(0, 7)}/${id}`;
+}
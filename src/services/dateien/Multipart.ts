@@ -0,0 +1,70 @@
+/**
+ * Multipart.ts
+ *
+ * Minimaler Parser für multipart/form-data (RFC 7578) auf einem bereits gelesenen Body-Buffer
+ * (express.raw mit Größenlimit). Liefert Textfelder und Dateien getrennt.
+ */
+
+export type MultipartDatei = {
+  feld: string;
+  dateiname: string;
+  contentType: string;
+  daten: Buffer;
+};
+
+export type MultipartDaten = {
+  felder: Record<string, string>;
+  dateien: MultipartDatei[];
+};
+
+function boundaryAus(contentType: string): string {
+  const m = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!/^multipart\/form-data/i.test(contentType) || !m) throw new Error("Erwartet multipart/form-data mit boundary");
+  return (m[1] ?? m[2]).trim();
+}
+
+function kopfParameter(kopf: string, name: string): string | undefined {
+  const m = kopf.match(new RegExp(`;\\s*${name}="((?:[^"\\\\]|\\\\.)*)"`, "i")) ?? kopf.match(new RegExp(`;\\s*${name}=([^;\\r\\n]+)`, "i"));
+  return m ? m[1].replace(/\\(.)/g, "$1") : undefined;
+}
+
+export function parseMultipart(body: Buffer, contentType: string): MultipartDaten {
+  const boundary = boundaryAus(contentType);
+  const start = Buffer.from(`--${boundary}`);
+  const trenner = Buffer.from(`\r\n--${boundary}`);
+  const ergebnis: MultipartDaten = { felder: {}, dateien: [] };
+
+  let pos = body.indexOf(start);
+  if (pos < 0) throw new Error("Ungültige Multipart-Daten");
+  pos += start.length;
+
+  while (body.subarray(pos, pos + 2).toString() !== "--") {
+    pos += 2; // CRLF nach dem Trenner
+    const ende = body.indexOf(trenner, pos);
+    if (ende < 0) throw new Error("Multipart-Daten unvollständig");
+    const teil = body.subarray(pos, ende);
+    pos = ende + trenner.length;
+
+    const kopfEnde = teil.indexOf("\r\n\r\n");
+    if (kopfEnde < 0) continue;
+    const kopf = teil.subarray(0, kopfEnde).toString("utf8");
+    const daten = teil.subarray(kopfEnde + 4);
+    const disposition = kopf.split("\r\n").find((z) => /^content-disposition:/i.test(z)) ?? "";
+    const feld = kopfParameter(disposition, "name");
+    if (!feld) continue;
+
+    const dateiname = kopfParameter(disposition, "filename");
+    if (dateiname === undefined) {
+      ergebnis.felder[feld] = daten.toString("utf8");
+    } else {
+      const typZeile = kopf.split("\r\n").find((z) => /^content-type:/i.test(z));
+      ergebnis.dateien.push({
+        feld,
+        dateiname,
+        contentType: typZeile ? typZeile.split(":")[1].trim().toLowerCase() : "application/octet-stream",
+        daten: Buffer.from(daten),
+      });
+    }
+  }
+  return ergebnis;
+}
@@ -0,0 +1,309 @@
+/**
+ * BestandAbgleichService.ts
+ *
+ * Abgleich der materialisierten Sicht (BestandAgg) gegen das Bewegungsjournal (Single Source of Truth):
+ * - Sollwerte werden wie bei der Zeitreise aus allen Bewegungen rekonstruiert (rekonstruiereBestand)
+ * - Differenzen je Artikel/Charge/Lagerbereich: abweichende Mengen, fehlende, verwaiste und doppelte Zeilen
+ * - dryRun (Standard) berichtet nur; sonst wird BestandAgg für die betroffenen Schlüssel neu aufgebaut
+ * - optionaler nächtlicher Prüflauf über die Job-Queue (BESTAND_ABGLEICH_AUTOLAUF=1, täglich 03:00 Uhr)
+ */
+
+import { DateTime } from "luxon";
+import mongoose, { FilterQuery, Types } from "mongoose";
+import { BestandAggModel } from "../../model/BestandsAggModel";
+import { logger } from "../../logger";
+import { BestandAbgleichDifferenz, BestandAbgleichResource, BestandMengen, Lagerbereich } from "../../Resources";
+import { registerJobHandler, scheduleJob } from "../JobQueueService";
+import { rekonstruiereBestand } from "./BestandsService";
+
+const ZONE = "Europe/Berlin";
+const ABGLEICH_JOB = "bestand-abgleich";
+const STANDARD_TOLERANZ = 0.001; // kg – Rundungsrauschen aus Gleitkomma-Summen ignorieren
+
+/* --------------------------------- Helpers -------------------------------- */
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+function schluessel(artikelId: string, chargeId: string | undefined, lagerbereich: string): string {
+  return `${artikelId}|${chargeId ?? ""}|${lagerbereich}`;
+}
+
+function mengen(x?: Partial<BestandMengen>): BestandMengen {
+  return {
+    verfuegbar: round3(Number(x?.verfuegbar ?? 0)),
+    reserviert: round3(Number(x?.reserviert ?? 0)),
+    unterwegs: round3(Number(x?.unterwegs ?? 0)),
+  };
+}
+
+function istNull(m: BestandMengen, toleranz: number): boolean {
+  return Math.abs(m.verfuegbar) <= toleranz && Math.abs(m.reserviert) <= toleranz && Math.abs(m.unterwegs) <= toleranz;
+}
+
+type AggGruppe = {
+  artikelId: string;
+  artikelName?: string;
+  artikelNummer?: string;
+  chargeId?: string;
+  lagerbereich: Lagerbereich;
+  ids: Types.ObjectId[];
+  mengen: BestandMengen;
+};
+
+/**
+ * Vergleicht Journal und BestandAgg. Mit Session innerhalb einer Transaktion
+ * (Neuaufbau), damit zwischen Lesen und Schreiben keine Buchung verloren geht.
+ */
+async function vergleiche(
+  params: { artikelId?: string; toleranz: number },
+  session?: mongoose.ClientSession
+): Promise<{
+  differenzen: BestandAbgleichDifferenz[];
+  journal: Map<string, BestandMengen>;
+  agg: Map<string, AggGruppe>;
+}> {
+  const soll = await rekonstruiereBestand({ artikelId: params.artikelId }, session);
+
+  const filter: FilterQuery<any> = {};
+  if (params.artikelId) filter.artikelId = new Types.ObjectId(params.artikelId);
+  const aggDocs = await BestandAggModel.find(filter).session(session ?? null).lean();
+
+  const agg = new Map<string, AggGruppe>();
+  for (const d of aggDocs) {
+    const k = schluessel(d.artikelId.toString(), d.chargeId?.toString(), d.lagerbereich);
+    const g = agg.get(k);
+    if (g) {
+      g.ids.push(d._id);
+      g.mengen = mengen({
+        verfuegbar: g.mengen.verfuegbar + Number(d.verfuegbar ?? 0),
+        reserviert: g.mengen.reserviert + Number(d.reserviert ?? 0),
+        unterwegs: g.mengen.unterwegs + Number(d.unterwegs ?? 0),
+      });
+    } else {
+      agg.set(k, {
+        artikelId: d.artikelId.toString(),
+        artikelName: d.artikelName ?? undefined,
+        artikelNummer: d.artikelNummer ?? undefined,
+        chargeId: d.chargeId?.toString(),
+        lagerbereich: d.lagerbereich,
+        ids: [d._id],
+        mengen: mengen(d),
+      });
+    }
+  }
+
+  const journal = new Map<string, BestandMengen>();
+  const differenzen: BestandAbgleichDifferenz[] = [];
+
+  for (const s of soll) {
+    const k = schluessel(s.artikelId, s.chargeId, s.lagerbereich);
+    const j = mengen(s);
+    journal.set(k, j);
+
+    const g = agg.get(k);
+    const a = g?.mengen ?? mengen();
+    const diff = mengen({
+      verfuegbar: a.verfuegbar - j.verfuegbar,
+      reserviert: a.reserviert - j.reserviert,
+      unterwegs: a.unterwegs - j.unterwegs,
+    });
+
+    let art: BestandAbgleichDifferenz["art"] | undefined;
+    if (!g) art = istNull(j, params.toleranz) ? undefined : "FEHLT";
+    else if (!istNull(diff, params.toleranz)) art = "ABWEICHUNG";
+    else if (g.ids.length > 1) art = "DUPLIKAT";
+    if (!art) continue;
+
+    differenzen.push({
+      artikelId: s.artikelId,
+      artikelName: s.artikelName ?? g?.artikelName,
+      artikelNummer: s.artikelNummer ?? g?.artikelNummer,
+      chargeId: s.chargeId,
+      lagerbereich: s.lagerbereich,
+      art,
+      journal: j,
+      agg: a,
+      differenz: diff,
+      aggZeilen: g?.ids.length ?? 0,
+    });
+  }
+
+  // BestandAgg-Zeilen ohne eine einzige Bewegung (Nullzeilen sind unschädlich)
+  for (const [k, g] of agg) {
+    if (journal.has(k) || istNull(g.mengen, params.toleranz)) continue;
+    differenzen.push({
+      artikelId: g.artikelId,
+      artikelName: g.artikelName,
+      artikelNummer: g.artikelNummer,
+      chargeId: g.chargeId,
+      lagerbereich: g.lagerbereich,
+      art: "VERWAIST",
+      journal: mengen(),
+      agg: g.mengen,
+      differenz: g.mengen,
+      aggZeilen: g.ids.length,
+    });
+  }
+
+  differenzen.sort(
+    (x, y) =>
+      (x.artikelName ?? "").localeCompare(y.artikelName ?? "", "de") ||
+      (x.chargeId ?? "").localeCompare(y.chargeId ?? "") ||
+      x.lagerbereich.localeCompare(y.lagerbereich)
+  );
+
+  return { differenzen, journal, agg };
+}
+
+/* ---------------------------------- DTOs ---------------------------------- */
+
+export type BestandAbgleichDTO = {
+  artikelId?: string;   // nur einen Artikel prüfen/neu aufbauen
+  toleranz?: number;    // kg, default 0.001
+  dryRun?: boolean;     // default true
+};
+
+/* ----------------------------- Hauptaktionen ------------------------------ */
+
+/**
+ * Prüft BestandAgg gegen das Journal, ohne etwas zu ändern.
+ */
+export async function pruefeBestandAgg(data?: Omit<BestandAbgleichDTO, "dryRun">): Promise<BestandAbgleichResource> {
+  return abgleichBestandAgg({ ...data, dryRun: true });
+}
+
+/**
+ * Abgleich mit optionalem Neuaufbau (dryRun=false):
+ * - ABWEICHUNG/DUPLIKAT: erste Zeile erhält die Journalwerte, weitere Zeilen zum Schlüssel werden gelöscht
+ * - FEHLT: Zeile wird mit den Journalwerten angelegt
+ * - VERWAIST: Zeilen werden gelöscht
+ * Vergleich und Korrektur laufen in einer Transaktion.
+ */
+export async function abgleichBestandAgg(data?: BestandAbgleichDTO): Promise<BestandAbgleichResource> {
+  const toleranz = Math.max(0, Number(data?.toleranz ?? STANDARD_TOLERANZ));
+  const dryRun = data?.dryRun !== false;
+  const artikelId = data?.artikelId;
+
+  const bericht = (
+    v: Awaited<ReturnType<typeof vergleiche>>,
+    angewendet?: BestandAbgleichResource["angewendet"]
+  ): BestandAbgleichResource => ({
+    geprueftAm: new Date().toISOString(),
+    dryRun,
+    artikelId,
+    toleranz,
+    schluesselJournal: v.journal.size,
+    schluesselAgg: v.agg.size,
+    differenzen: v.differenzen,
+    ...(angewendet ? { angewendet } : {}),
+  });
+
+  if (dryRun) {
+    return bericht(await vergleiche({ artikelId, toleranz }));
+  }
+
+  return await withTransaction(async (session) => {
+    const v = await vergleiche({ artikelId, toleranz }, session);
+    const angewendet = { aktualisiert: 0, angelegt: 0, geloescht: 0 };
+
+    for (const d of v.differenzen) {
+      const g = v.agg.get(schluessel(d.artikelId, d.chargeId, d.lagerbereich));
+      const ids = g?.ids ?? [];
+
+      if (d.art === "VERWAIST") {
+        await BestandAggModel.deleteMany({ _id: { $in: ids } }).session(session);
+        angewendet.geloescht += ids.length;
+        continue;
+      }
+
+      const werte = {
+        ...d.journal,
+        artikelName: d.artikelName,
+        artikelNummer: d.artikelNummer,
+        updatedAt: new Date(),
+      };
+
+      if (!ids.length) {
+        await BestandAggModel.create(
+          [
+            {
+              artikelId: new Types.ObjectId(d.artikelId),
+              chargeId: d.chargeId ? new Types.ObjectId(d.chargeId) : null,
+              lagerbereich: d.lagerbereich,
+              ...werte,
+            },
+          ],
+          { session }
+        );
+        angewendet.angelegt++;
+        continue;
+      }
+
+      await BestandAggModel.updateOne({ _id: ids[0] }, { $set: werte }, { session });
+      angewendet.aktualisiert++;
+      if (ids.length > 1) {
+        await BestandAggModel.deleteMany({ _id: { $in: ids.slice(1) } }).session(session);
+        angewendet.geloescht += ids.length - 1;
+      }
+    }
+
+    logger.info(
+      `[BestandAbgleich] Neuaufbau${artikelId ? ` (Artikel ${artikelId})` : ""}: ` +
+        `${angewendet.aktualisiert} aktualisiert, ${angewendet.angelegt} angelegt, ${angewendet.geloescht} gelöscht`
+    );
+    return bericht(v, angewendet);
+  });
+}
+
+/* ------------------------------- Autolauf (Job) ------------------------------- */
+
+function naechsterLauf(): Date {
+  const jetzt = DateTime.now().setZone(ZONE);
+  let lauf = jetzt.set({ hour: 3, minute: 0, second: 0, millisecond: 0 });
+  if (lauf <= jetzt) lauf = lauf.plus({ days: 1 });
+  return lauf.toJSDate();
+}
+
+/**
+ * Plant die nächste nächtliche Prüfung ein (nur mit BESTAND_ABGLEICH_AUTOLAUF=1).
+ * Der Lauf berichtet nur; der Neuaufbau bleibt eine bewusste Admin-Aktion.
+ */
+export async function planeBestandAbgleich(): Promise<void> {
+  if (process.env.BESTAND_ABGLEICH_AUTOLAUF !== "1") return;
+  await scheduleJob({ typ: ABGLEICH_JOB, key: "naechtlich", runAt: naechsterLauf(), maxAttempts: 3 });
+}
+
+registerJobHandler(ABGLEICH_JOB, async () => {
+  try {
+    const { differenzen, schluesselJournal } = await pruefeBestandAgg();
+    if (!differenzen.length) {
+      logger.info(`[BestandAbgleich] Nachtlauf: keine Differenzen (${schluesselJournal} Bestände geprüft)`);
+      return;
+    }
+    logger.warn(`[BestandAbgleich] Nachtlauf: ${differenzen.length} Differenzen zwischen BestandAgg und Journal`);
+    for (const d of differenzen.slice(0, 50)) {
+      logger.warn(
+        `[BestandAbgleich] ${d.art} ${d.artikelName ?? d.artikelId}` +
+          `${d.chargeId ? ` Charge ${d.chargeId}` : ""} ${d.lagerbereich}: ` +
+          `verfügbar ${d.agg.verfuegbar} statt ${d.journal.verfuegbar}, ` +
+          `reserviert ${d.agg.reserviert} statt ${d.journal.reserviert}, ` +
+          `unterwegs ${d.agg.unterwegs} statt ${d.journal.unterwegs}`
+      );
+    }
+  } finally {
+    await planeBestandAbgleich();
+  }
+});
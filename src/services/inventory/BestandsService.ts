@@ -92,12 +92,47 @@ function toBewegungResource(doc: any): BewegungResource {
   };
 }
 
+// Bewegungstypen, die den verfügbaren Bestand ändern (Menge vorzeichenbehaftet gespeichert)
+const VERFUEGBAR_ZUGANG = ["WARENEINGANG", "UMBUCHUNG_HIN", "INVENTUR_KORREKTUR", "RUECKLIEFERUNG_KUNDE"];
+const VERFUEGBAR_ABGANG = ["KOMMISSIONIERUNG", "WARENAUSGANG", "UMBUCHUNG_WEG", "MULL", "RUECKLIEFERUNG_LIEFERANT"];
+
 function endOfDayInclusive(isoDate: string): Date {
   const d = new Date(isoDate);
   d.setHours(23, 59, 59, 999);
   return d;
 }
 
+/**
+ * BestandAgg upsert + inkrementelle Deltas (Bestand ohne Charge: chargeId null).
+ * Gemeinsamer Schreibweg aller Bestandsbuchungen – immer in der Transaktion der zugehörigen Bewegung.
+ */
+export async function upsertBestandAgg(
+  params: {
+    artikelId: string;
+    chargeId?: string;
+    lagerbereich: Lagerbereich;
+    deltaVerfuegbar?: number;
+    deltaReserviert?: number;
+    deltaUnterwegs?: number;
+  },
+  session: mongoose.ClientSession
+) {
+  const { artikelId, chargeId, lagerbereich, deltaVerfuegbar = 0, deltaReserviert = 0, deltaUnterwegs = 0 } = params;
+  await BestandAggModel.updateOne(
+    { artikelId: new Types.ObjectId(artikelId), chargeId: chargeId ? new Types.ObjectId(chargeId) : null, lagerbereich },
+    {
+      $setOnInsert: {
+        artikelId: new Types.ObjectId(artikelId),
+        chargeId: chargeId ? new Types.ObjectId(chargeId) : null,
+        lagerbereich,
+      },
+      $inc: { verfuegbar: deltaVerfuegbar, reserviert: deltaReserviert, unterwegs: deltaUnterwegs },
+      $set: { updatedAt: new Date() },
+    },
+    { upsert: true, session }
+  );
+}
+
 /* ---------------------------------- API ----------------------------------- */
 
 /**
@@ -234,11 +269,56 @@ export async function getZeitreiseBestand(params: {
   artikelId?: string;
   chargeId?: string;
 }): Promise<BestandAggResource[]> {
-  const until = endOfDayInclusive(params.datum);
+  return rekonstruiereBestand({
+    bis: endOfDayInclusive(params.datum),
+    artikelId: params.artikelId,
+    chargeId: params.chargeId,
+  });
+}
 
+/**
+ * Bestandswirksame Bewegungen nach einem Zeitpunkt (z. B. Entnahmen während einer Inventurzählung),
+ * zeitlich aufsteigend.
+ */
+export async function bestandsBewegungenSeit(
+  params: { von: Date; lagerbereich?: Lagerbereich; artikelIds?: string[] },
+  session?: mongoose.ClientSession
+): Promise<{ artikelId: string; chargeId?: string; lagerbereich: Lagerbereich; menge: number; timestamp: Date }[]> {
   const filter: FilterQuery<any> = {
-    timestamp: { $lte: until },
+    timestamp: { $gt: params.von },
+    typ: { $in: [...VERFUEGBAR_ZUGANG, ...VERFUEGBAR_ABGANG] },
   };
+  if (params.lagerbereich) filter.lagerbereich = params.lagerbereich;
+  if (params.artikelIds?.length) filter.artikelId = { $in: params.artikelIds.map((id) => new Types.ObjectId(id)) };
+  const docs = await BewegungModel.find(filter)
+    .select({ artikelId: 1, chargeId: 1, lagerbereich: 1, menge: 1, timestamp: 1 })
+    .sort({ timestamp: 1 })
+    .session(session ?? null)
+    .lean();
+  return docs.map((d: any) => ({
+    artikelId: d.artikelId.toString(),
+    chargeId: d.chargeId ? d.chargeId.toString() : undefined,
+    lagerbereich: d.lagerbereich,
+    menge: Number(d.menge || 0),
+    timestamp: new Date(d.timestamp),
+  }));
+}
+
+/**
+ * Summen je (artikelId, chargeId, lagerbereich) aus dem Bewegungsjournal.
+ * Ohne "bis" wird das gesamte Journal ausgewertet (= Sollzustand der materialisierten Sicht).
+ * Wird von der Zeitreise und vom BestandAgg-Abgleich genutzt.
+ */
+export async function rekonstruiereBestand(
+  params: {
+    bis?: Date;
+    artikelId?: string;
+    chargeId?: string;
+  },
+  session?: mongoose.ClientSession
+): Promise<BestandAggResource[]> {
+  const filter: FilterQuery<any> = {};
+  if (params?.bis) filter.timestamp = { $lte: params.bis };
   if (params?.artikelId) filter.artikelId = new Types.ObjectId(params.artikelId);
   if (params?.chargeId) filter.chargeId = new Types.ObjectId(params.chargeId);
 
@@ -257,9 +337,9 @@ export async function getZeitreiseBestand(params: {
             $switch: {
               branches: [
                 // positiv wirkend auf verfügbare Menge:
-                { case: { $in: ["$typ", ["WARENEINGANG", "UMBUCHUNG_HIN", "INVENTUR_KORREKTUR"]] }, then: "$menge" },
+                { case: { $in: ["$typ", VERFUEGBAR_ZUGANG] }, then: "$menge" },
                 // negativ wirkend:
-                { case: { $in: ["$typ", ["KOMMISSIONIERUNG", "WARENAUSGANG", "UMBUCHUNG_WEG", "MULL"]] }, then: "$menge" },
+                { case: { $in: ["$typ", VERFUEGBAR_ABGANG] }, then: "$menge" },
               ],
               default: 0,
             },
@@ -273,7 +353,7 @@ export async function getZeitreiseBestand(params: {
         },
         unterwegs: {
           $sum: {
-            $cond: [{ $in: ["$typ", ["ANLIEFERUNG_ERFASST"]] }, "$menge", 0],
+            $cond: [{ $in: ["$typ", ["ANLIEFERUNG_ERFASST", "ANLIEFERUNG_ERLEDIGT"]] }, "$menge", 0],
           },
         },
       },
@@ -289,13 +369,15 @@ export async function getZeitreiseBestand(params: {
         unterwegs: 1,
       },
     },
-  ]);
+  ]).session(session ?? null);
 
   // Denormalisierung (Artikel-Name/Nummer)
   const artikelIds = Array.from(new Set(agg.map((x) => x.artikelId?.toString()).filter(Boolean)));
   const artikelMap = new Map<string, { name?: string; nummer?: string }>();
   if (artikelIds.length) {
-    const arts = await ArtikelModel.find({ _id: { $in: artikelIds } }, { _id: 1, name: 1, artikelNummer: 1 }).lean();
+    const arts = await ArtikelModel.find({ _id: { $in: artikelIds } }, { _id: 1, name: 1, artikelNummer: 1 })
+      .session(session ?? null)
+      .lean();
     for (const a of arts) {
       artikelMap.set(a._id.toString(), { name: a.name ?? undefined, nummer: a.artikelNummer ?? undefined });
     }
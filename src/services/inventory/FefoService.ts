@@ -0,0 +1,487 @@
+/**
+ * FefoService.ts
+ *
+ * Chargenzuordnung bei der Kommissionierung (FEFO – first expired, first out):
+ * - Vorschlag je Artikelposition: Chargen des Artikels im passenden Lagerbereich, MHD aufsteigend
+ * - Buchung als KOMMISSIONIERUNG-Bewegung je Charge inkl. BestandAgg (nur die Differenz zum bereits Gebuchten,
+ *   Rückbuchungen mit positiver Menge)
+ * - Der Kommissionierer darf vom Vorschlag abweichen; die Abweichung wird an der Position und in der Bewegung protokolliert
+ */
+
+import mongoose, { Types } from "mongoose";
+import { ArtikelModel } from "../../model/ArtikelModel";
+import { ArtikelPosition } from "../../model/ArtikelPositionModel";
+import { Auftrag } from "../../model/AuftragModel";
+import { BestandAggModel } from "../../model/BestandsAggModel";
+import { BewegungModel } from "../../model/BewegungsModel";
+import { ChargeModel } from "../../model/ChargeModel";
+import { Mitarbeiter } from "../../model/MitarbeiterModel";
+import { ReservierungModel } from "../../model/ReservierungModel";
+import { logger } from "../../logger";
+import {
+  BewegungResource,
+  ChargenEntnahme,
+  FefoChargeResource,
+  FefoVorschlagResource,
+  Lagerbereich,
+} from "../../Resources";
+import { upsertBestandAgg } from "./BestandsService";
+
+/* --------------------------------- Helpers -------------------------------- */
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function toISODate(d?: Date | string | null): string | undefined {
+  if (!d) return undefined;
+  const dt = typeof d === "string" ? new Date(d) : d;
+  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
+}
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+function toBewegungResource(doc: any): BewegungResource {
+  return {
+    id: doc._id.toString(),
+    timestamp: toISODate(doc.timestamp)!,
+    userId: doc.userId ? doc.userId.toString() : undefined,
+    typ: doc.typ,
+    artikelId: doc.artikelId?.toString(),
+    artikelName: doc.artikelName ?? undefined,
+    artikelNummer: doc.artikelNummer ?? undefined,
+    kundeName: doc.kundeName ?? undefined,
+    lieferDatum: doc.lieferDatum ? toISODate(doc.lieferDatum)?.slice(0, 10) : undefined,
+    chargeId: doc.chargeId ? doc.chargeId.toString() : undefined,
+    menge: Number(doc.menge),
+    lagerbereich: doc.lagerbereich,
+    auftragId: doc.auftragId ? doc.auftragId.toString() : undefined,
+    notiz: doc.notiz ?? undefined,
+    mhd: doc.mhd ? toISODate(doc.mhd)?.slice(0, 10) : undefined,
+    schlachtDatum: doc.schlachtDatum ? toISODate(doc.schlachtDatum)?.slice(0, 10) : undefined,
+    isTK: typeof doc.isTK === "boolean" ? !!doc.isTK : undefined,
+  };
+}
+
+/**
+ * Ermittelt die zu buchende Zielmenge in **kg** aus den Kommissionierungsfeldern einer Position.
+ * Priorität: Nettogewicht > kommissioniertMenge*Einheitsgewicht.
+ */
+async function zielMengeKg(position: any): Promise<number> {
+  if (typeof position.nettogewicht === "number" && isFinite(position.nettogewicht)) {
+    return round3(Math.max(0, position.nettogewicht));
+  }
+  const menge = typeof position.kommissioniertMenge === "number" ? position.kommissioniertMenge : undefined;
+  if (menge === undefined || !isFinite(menge) || menge <= 0) return 0;
+  const einheit = position.kommissioniertEinheit || position.einheit;
+  if (einheit === "kg") return round3(menge);
+
+  const a = await ArtikelModel.findById(position.artikel).select({ gewichtProStueck: 1, gewichtProKiste: 1, gewichtProKarton: 1 }).lean();
+  const faktor =
+    einheit === "stück" ? a?.gewichtProStueck : einheit === "kiste" ? a?.gewichtProKiste : a?.gewichtProKarton;
+  return round3(Math.max(0, menge * (Number(faktor) || 0)));
+}
+
+/** Lagerbereich der Entnahme: Position → bisherige Buchung → reservierte Charge → NON_TK */
+async function ermittleLagerbereich(position: any): Promise<Lagerbereich> {
+  if (position.lagerbereich) return position.lagerbereich;
+  const gebucht = (position.chargenEntnahmen ?? []).find((e: any) => e.menge > 0);
+  if (gebucht?.lagerbereich) return gebucht.lagerbereich;
+  if (position.auftragId) {
+    const reservierung = await ReservierungModel.findOne({
+      auftragId: position.auftragId,
+      artikelId: position.artikel,
+      status: { $ne: "AUFGELOEST" },
+      chargeId: { $ne: null },
+    })
+      .select({ chargeId: 1 })
+      .lean();
+    if (reservierung?.chargeId) {
+      const charge = await ChargeModel.findById(reservierung.chargeId).select({ isTK: 1 }).lean();
+      if (charge) return charge.isTK ? "TK" : "NON_TK";
+    }
+  }
+  return "NON_TK";
+}
+
+function key(chargeId: string, lagerbereich: Lagerbereich): string {
+  return `${chargeId}|${lagerbereich}`;
+}
+
+/** Bereits gebuchte Mengen der Position je Charge/Lagerbereich */
+function gebuchteMengen(position: any): Map<string, { chargeId: string; lagerbereich: Lagerbereich; menge: number }> {
+  const out = new Map<string, { chargeId: string; lagerbereich: Lagerbereich; menge: number }>();
+  for (const e of position.chargenEntnahmen ?? []) {
+    if (!e?.chargeId || !(Number(e.menge) > 0)) continue;
+    out.set(key(String(e.chargeId), e.lagerbereich), {
+      chargeId: String(e.chargeId),
+      lagerbereich: e.lagerbereich,
+      menge: Number(e.menge),
+    });
+  }
+  return out;
+}
+
+type ChargenBestand = { charge: any; verfuegbar: number; gebucht: number };
+
+/**
+ * Chargen des Artikels im Lagerbereich mit Bestand, FEFO-sortiert (MHD, dann Schlachtdatum).
+ * Für die Position bereits gebuchte Mengen zählen als verfügbar; abgelaufene Chargen nur, wenn schon gebucht.
+ */
+async function ladeChargenBestand(
+  artikelId: string,
+  lagerbereich: Lagerbereich,
+  gebucht: Map<string, { chargeId: string; lagerbereich: Lagerbereich; menge: number }>
+): Promise<ChargenBestand[]> {
+  const aggs = await BestandAggModel.find({
+    artikelId: new Types.ObjectId(artikelId),
+    lagerbereich,
+    chargeId: { $ne: null },
+  })
+    .select({ chargeId: 1, verfuegbar: 1 })
+    .lean();
+
+  const verfuegbar = new Map<string, number>();
+  for (const a of aggs) {
+    const id = String(a.chargeId);
+    verfuegbar.set(id, (verfuegbar.get(id) ?? 0) + Number(a.verfuegbar || 0));
+  }
+  const eigene = new Map<string, number>();
+  for (const g of gebucht.values()) {
+    if (g.lagerbereich !== lagerbereich) continue;
+    eigene.set(g.chargeId, g.menge);
+    verfuegbar.set(g.chargeId, (verfuegbar.get(g.chargeId) ?? 0) + g.menge);
+  }
+
+  const ids = [...verfuegbar.entries()].filter(([, v]) => v > 0.0005).map(([id]) => new Types.ObjectId(id));
+  if (!ids.length) return [];
+  const heute = new Date();
+  heute.setHours(0, 0, 0, 0);
+  const chargen = await ChargeModel.find({ _id: { $in: ids }, artikelId: new Types.ObjectId(artikelId) })
+    .sort({ mhd: 1, schlachtDatum: 1, _id: 1 })
+    .lean();
+
+  return chargen
+    .filter((c) => new Date(c.mhd) >= heute || eigene.has(String(c._id)))
+    .map((c) => ({
+      charge: c,
+      verfuegbar: round3(verfuegbar.get(String(c._id)) ?? 0),
+      gebucht: round3(eigene.get(String(c._id)) ?? 0),
+    }));
+}
+
+/**
+ * FEFO-Verteilung der Zielmenge: bestehende Buchungen bleiben stehen (die Ware ist bereits entnommen),
+ * Mehrmengen kommen aus der Charge mit dem frühesten MHD, Mindermengen werden zuerst
+ * bei der Charge mit dem spätesten MHD zurückgebucht.
+ */
+function verteile(bestand: ChargenBestand[], zielKg: number): Map<string, number> {
+  const menge = new Map(bestand.map((b) => [String(b.charge._id), b.gebucht]));
+  let summe = bestand.reduce((s, b) => s + b.gebucht, 0);
+
+  for (const b of [...bestand].reverse()) {
+    if (summe <= zielKg + 0.0005) break;
+    const id = String(b.charge._id);
+    const zurueck = Math.min(menge.get(id) ?? 0, summe - zielKg);
+    menge.set(id, round3((menge.get(id) ?? 0) - zurueck));
+    summe -= zurueck;
+  }
+  for (const b of bestand) {
+    if (summe >= zielKg - 0.0005) break;
+    const id = String(b.charge._id);
+    const frei = b.verfuegbar - (menge.get(id) ?? 0);
+    if (frei <= 0) continue;
+    const dazu = Math.min(frei, zielKg - summe);
+    menge.set(id, round3((menge.get(id) ?? 0) + dazu));
+    summe += dazu;
+  }
+  return menge;
+}
+
+function gleicheVerteilung(a: Map<string, number>, b: Map<string, number>): boolean {
+  const ids = new Set([...a.keys(), ...b.keys()]);
+  return [...ids].every((id) => Math.abs((a.get(id) ?? 0) - (b.get(id) ?? 0)) < 0.001);
+}
+
+function mengenJeKey(m: Map<string, { menge: number }>): Map<string, number> {
+  return new Map([...m.entries()].map(([k, e]) => [k, e.menge]));
+}
+
+function alsEntnahmen(m: Map<string, number>): ChargenEntnahme[] {
+  return [...m.entries()].filter(([, menge]) => menge > 0).map(([chargeId, menge]) => ({ chargeId, menge }));
+}
+
+async function ladePosition(positionId: string) {
+  if (!mongoose.Types.ObjectId.isValid(positionId)) throw new Error("Ungültige Artikelpositions-ID");
+  const position = await ArtikelPosition.findById(positionId).lean();
+  if (!position) throw new Error("Artikelposition nicht gefunden");
+  return position;
+}
+
+/**
+ * Prüft die Auswahl des Kommissionierers (Charge muss zum Artikel und Lagerbereich passen und Bestand haben)
+ * und liefert die Menge je Charge.
+ */
+async function pruefeAuswahl(
+  position: any,
+  entnahmen: ChargenEntnahme[],
+  lagerbereich: Lagerbereich,
+  bestand: ChargenBestand[]
+): Promise<Map<string, number>> {
+  const auswahl = new Map<string, number>();
+  for (const e of entnahmen) {
+    const menge = Number(e.menge);
+    if (!mongoose.Types.ObjectId.isValid(e.chargeId)) throw new Error("Ungültige Charge-ID");
+    if (!isFinite(menge) || menge < 0) throw new Error("Entnahmemenge muss ≥ 0 sein");
+    auswahl.set(String(e.chargeId), round3((auswahl.get(String(e.chargeId)) ?? 0) + menge));
+  }
+  const chargen = await ChargeModel.find({ _id: { $in: [...auswahl.keys()] } }).select({ artikelId: 1, isTK: 1 }).lean();
+  const verfuegbarJeCharge = new Map(bestand.map((b) => [String(b.charge._id), b.verfuegbar]));
+  for (const [id, menge] of auswahl) {
+    const charge = chargen.find((c) => String(c._id) === id);
+    if (!charge) throw new Error("Charge nicht gefunden");
+    if (String(charge.artikelId) !== String(position.artikel)) {
+      throw new Error("Charge passt nicht zum Artikel (artikelId mismatch)");
+    }
+    if (!!charge.isTK !== (lagerbereich === "TK")) {
+      throw new Error(`Charge ${id} (${charge.isTK ? "TK" : "NON_TK"}) passt nicht zum Lagerbereich ${lagerbereich}`);
+    }
+    const verfuegbar = verfuegbarJeCharge.get(id) ?? 0;
+    if (menge > verfuegbar + 0.0005) {
+      throw new Error(`Charge ${id}: nur ${round3(verfuegbar)} kg im Lagerbereich ${lagerbereich} verfügbar`);
+    }
+  }
+  return auswahl;
+}
+
+/**
+ * Bringt die Buchungen der Position auf die Zielverteilung (je Charge im Lagerbereich):
+ * Differenzen werden als KOMMISSIONIERUNG gebucht (Entnahme negativ, Rückbuchung positiv).
+ */
+async function gleicheBuchungenAn(
+  position: any,
+  ziel: Map<string, number>,
+  lagerbereich: Lagerbereich,
+  ctx: { userId?: string; notiz: string; abweichung?: any }
+): Promise<BewegungResource[]> {
+  const bestehend = gebuchteMengen(position);
+  const soll = new Map<string, { chargeId: string; lagerbereich: Lagerbereich; menge: number }>();
+  for (const [chargeId, menge] of ziel) {
+    if (menge > 0) soll.set(key(chargeId, lagerbereich), { chargeId, lagerbereich, menge: round3(menge) });
+  }
+
+  const diffs = [...new Set([...bestehend.keys(), ...soll.keys()])]
+    .map((k) => {
+      const e = soll.get(k) ?? bestehend.get(k)!;
+      return {
+        chargeId: e.chargeId,
+        lagerbereich: e.lagerbereich,
+        diff: round3((soll.get(k)?.menge ?? 0) - (bestehend.get(k)?.menge ?? 0)),
+      };
+    })
+    .filter((d) => Math.abs(d.diff) >= 0.001);
+
+  const artikel = await ArtikelModel.findById(position.artikel).select({ name: 1, artikelNummer: 1 }).lean();
+  const auftrag = position.auftragId
+    ? await Auftrag.findById(position.auftragId).select({ kundeName: 1, lieferdatum: 1 }).lean()
+    : null;
+  const chargen = diffs.length
+    ? await ChargeModel.find({ _id: { $in: diffs.map((d) => new Types.ObjectId(d.chargeId)) } }).lean()
+    : [];
+  const chargeById = new Map(chargen.map((c) => [String(c._id), c]));
+
+  return await withTransaction(async (session) => {
+    // Stand der Buchungen in der Transaktion erneut lesen – parallel gebuchte Entnahmen nicht überschreiben
+    const aktuell = await ArtikelPosition.findById(position._id)
+      .select({ chargenEntnahmen: 1, __v: 1 })
+      .session(session)
+      .lean<{ chargenEntnahmen?: any[]; __v: number }>();
+    if (!aktuell) throw new Error("Artikelposition nicht gefunden");
+    if (!gleicheVerteilung(mengenJeKey(gebuchteMengen(aktuell)), mengenJeKey(bestehend))) {
+      throw new Error("Chargenbuchung der Position wurde zwischenzeitlich geändert – bitte erneut buchen");
+    }
+
+    const bewegungen: BewegungResource[] = [];
+    for (const d of diffs) {
+      const charge = chargeById.get(d.chargeId);
+      const bewegung = await new BewegungModel({
+        timestamp: new Date(),
+        userId: ctx.userId ? new Types.ObjectId(ctx.userId) : undefined,
+        typ: "KOMMISSIONIERUNG",
+        artikelId: position.artikel,
+        artikelName: artikel?.name ?? position.artikelName,
+        artikelNummer: artikel?.artikelNummer,
+        kundeName: auftrag?.kundeName,
+        lieferDatum: auftrag?.lieferdatum ?? undefined,
+        chargeId: new Types.ObjectId(d.chargeId),
+        menge: -d.diff, // Entnahme negativ, Rückbuchung positiv
+        lagerbereich: d.lagerbereich,
+        auftragId: position.auftragId,
+        notiz: `[POS:${position._id.toString()}] ${d.diff < 0 ? "Rückbuchung" : ctx.notiz}`,
+        mhd: charge?.mhd,
+        schlachtDatum: charge?.schlachtDatum,
+        isTK: charge ? !!charge.isTK : undefined,
+      }).save({ session });
+
+      await upsertBestandAgg(
+        {
+          artikelId: position.artikel.toString(),
+          chargeId: d.chargeId,
+          lagerbereich: d.lagerbereich,
+          deltaVerfuegbar: -d.diff,
+        },
+        session
+      );
+      bewegungen.push(toBewegungResource(bewegung));
+    }
+
+    const entnahmen = [...soll.values()].map((e) => ({
+      chargeId: new Types.ObjectId(e.chargeId),
+      lagerbereich: e.lagerbereich,
+      menge: e.menge,
+    }));
+    const $set: any = { chargenEntnahmen: entnahmen, lagerbereich };
+    if (entnahmen.length) $set.chargennummern = entnahmen.map((e) => e.chargeId.toString());
+    if (ctx.abweichung !== undefined) $set.chargenAbweichung = ctx.abweichung;
+    const res = await ArtikelPosition.updateOne(
+      { _id: position._id, __v: aktuell.__v },
+      { $set, $inc: { __v: 1 } },
+      { session }
+    );
+    if (res.matchedCount === 0) {
+      throw new Error("Chargenbuchung der Position wurde zwischenzeitlich geändert – bitte erneut buchen");
+    }
+
+    return bewegungen;
+  });
+}
+
+/* ------------------------------ Öffentliche API ----------------------------- */
+
+/**
+ * FEFO-Vorschlag für eine Artikelposition (Zielmenge = kommissionierte Menge in kg).
+ */
+export async function getFefoVorschlag(
+  positionId: string,
+  opts?: { lagerbereich?: Lagerbereich }
+): Promise<FefoVorschlagResource> {
+  const position = await ladePosition(positionId);
+  const lagerbereich = opts?.lagerbereich ?? (await ermittleLagerbereich(position));
+  const ziel = await zielMengeKg(position);
+  const gebucht = gebuchteMengen(position);
+  const bestand = await ladeChargenBestand(position.artikel.toString(), lagerbereich, gebucht);
+  const verteilung = verteile(bestand, ziel);
+
+  const chargen: FefoChargeResource[] = bestand.map((b) => ({
+    chargeId: String(b.charge._id),
+    menge: verteilung.get(String(b.charge._id)) ?? 0,
+    mhd: toISODate(b.charge.mhd)!.slice(0, 10),
+    schlachtDatum: b.charge.schlachtDatum ? toISODate(b.charge.schlachtDatum)?.slice(0, 10) : undefined,
+    isTK: !!b.charge.isTK,
+    verfuegbar: b.verfuegbar,
+    gebucht: b.gebucht,
+  }));
+  const verteilt = chargen.reduce((s, c) => s + c.menge, 0);
+
+  return {
+    positionId,
+    artikelId: position.artikel.toString(),
+    artikelName: position.artikelName,
+    lagerbereich,
+    zielMengeKg: ziel,
+    gebuchtKg: round3([...gebucht.values()].reduce((s, g) => s + g.menge, 0)),
+    chargen,
+    fehlmengeKg: round3(Math.max(0, ziel - verteilt)),
+  };
+}
+
+/**
+ * Bucht die Kommissionierung einer Position gegen den Bestand.
+ * Ohne `entnahmen` wird nach FEFO verteilt; mit `entnahmen` (vollständige Menge je Charge in kg)
+ * gilt die Auswahl des Kommissionierers – weicht sie vom Vorschlag ab, wird das protokolliert.
+ * Die Auswahl muss durch den Bestand der Charge im Lagerbereich gedeckt sein (TK-Chargen nur im Bereich TK).
+ * Nicht durch Bestand gedeckte Mengen werden nicht gebucht (Warnung im Log).
+ */
+export async function bucheKommissionierung(
+  positionId: string,
+  opts?: { entnahmen?: ChargenEntnahme[]; grund?: string; lagerbereich?: Lagerbereich; userId?: string }
+): Promise<BewegungResource[]> {
+  const position = await ladePosition(positionId);
+  if (position.leergutVonPositionId) return [];
+  const lagerbereich = opts?.lagerbereich ?? (await ermittleLagerbereich(position));
+  const ziel = await zielMengeKg(position);
+  const gebucht = gebuchteMengen(position);
+  const bestand = await ladeChargenBestand(position.artikel.toString(), lagerbereich, gebucht);
+  const vorschlag = verteile(bestand, ziel);
+
+  if (!opts?.entnahmen) {
+    const verteilt = [...vorschlag.values()].reduce((s, m) => s + m, 0);
+    if (ziel - verteilt > 0.001) {
+      logger.warn(
+        `[FEFO] Position ${positionId}: ${round3(ziel - verteilt)} kg nicht durch Bestand (${lagerbereich}) gedeckt – nicht gebucht`
+      );
+    }
+    return gleicheBuchungenAn(position, vorschlag, lagerbereich, { userId: opts?.userId, notiz: "FEFO" });
+  }
+
+  const auswahl = await pruefeAuswahl(position, opts.entnahmen, lagerbereich, bestand);
+
+  const abweichend = !gleicheVerteilung(auswahl, vorschlag);
+  let abweichung: any = null;
+  if (abweichend) {
+    const mitarbeiter = opts.userId ? await Mitarbeiter.findById(opts.userId).select({ name: 1 }).lean() : null;
+    abweichung = {
+      vorschlag: alsEntnahmen(vorschlag).map((e) => ({ chargeId: new Types.ObjectId(e.chargeId), menge: e.menge })),
+      grund: opts.grund,
+      von: opts.userId ? new Types.ObjectId(opts.userId) : undefined,
+      vonName: mitarbeiter?.name,
+      am: new Date(),
+    };
+    logger.info(
+      `[FEFO] Abweichung Position ${positionId} (Auftrag ${position.auftragId ?? "-"}) durch ${mitarbeiter?.name ?? opts.userId ?? "unbekannt"}: ` +
+        `Vorschlag ${JSON.stringify(alsEntnahmen(vorschlag))}, gewählt ${JSON.stringify(alsEntnahmen(auswahl))}` +
+        (opts.grund ? `, Grund: ${opts.grund}` : "")
+    );
+  }
+
+  return gleicheBuchungenAn(position, auswahl, lagerbereich, {
+    userId: opts.userId,
+    notiz: abweichend ? `Abweichung vom FEFO-Vorschlag${opts.grund ? `: ${opts.grund}` : ""}` : "FEFO",
+    abweichung,
+  });
+}
+
+/**
+ * Prüft eine Chargenauswahl wie bucheKommissionierung, ohne zu buchen – z.B. bevor die
+ * Kommissionierungsfelder der Position gespeichert werden.
+ */
+export async function pruefeChargenAuswahl(
+  positionId: string,
+  entnahmen: ChargenEntnahme[],
+  opts?: { lagerbereich?: Lagerbereich }
+): Promise<void> {
+  const position = await ladePosition(positionId);
+  if (position.leergutVonPositionId) return;
+  const lagerbereich = opts?.lagerbereich ?? (await ermittleLagerbereich(position));
+  const bestand = await ladeChargenBestand(position.artikel.toString(), lagerbereich, gebuchteMengen(position));
+  await pruefeAuswahl(position, entnahmen, lagerbereich, bestand);
+}
+
+/**
+ * Bucht alle Entnahmen einer Position zurück (z. B. beim Löschen der Position).
+ */
+export async function storniereKommissionierung(positionId: string, userId?: string): Promise<BewegungResource[]> {
+  const position = await ladePosition(positionId);
+  if (!gebuchteMengen(position).size) return [];
+  const lagerbereich = (position.lagerbereich as Lagerbereich) ?? "NON_TK";
+  return gleicheBuchungenAn(position, new Map(), lagerbereich, { userId, notiz: "Storno" });
+}
@@ -0,0 +1,677 @@
+/**
+ * InventurService.ts
+ *
+ * Stichtagsinventur:
+ * - Start friert den Soll-Bestand aus BestandAgg (vergangener Stichtag: aus dem Bewegungsjournal)
+ *   je Lagerbereich/Artikel/Charge ein (inkl. Bewertung mit Artikel.preis)
+ * - mehrere Zähler erfassen blind (ohne Soll und ohne fremde Zählungen), auch mobil in Stapeln;
+ *   beim Zählen gefundene Chargen werden als Zusatzposition (Soll 0) aufgenommen
+ * - Prüfung: Differenzen mit Wert; weichen die Zählungen voneinander ab, muss das Ist festgelegt werden
+ * - Freigabe bucht alle Differenzen als INVENTUR_KORREKTUR (positiv/negativ) in einer Transaktion;
+ *   Bewegungen während der Zählung werden dabei berücksichtigt
+ * - Inventurliste als PDF und XLSX für die Jahresabschlussprüfung
+ */
+
+import mongoose, { Types } from "mongoose";
+import * as XLSX from "xlsx";
+import { ArtikelModel } from "../../model/ArtikelModel";
+import { BestandAggModel } from "../../model/BestandsAggModel";
+import { BewegungModel } from "../../model/BewegungsModel";
+import { ChargeModel } from "../../model/ChargeModel";
+import { Counter } from "../../model/CounterModel";
+import { InventurModel } from "../../model/InventurModel";
+import { Mitarbeiter } from "../../model/MitarbeiterModel";
+import {
+  InventurPositionResource,
+  InventurResource,
+  InventurStatus,
+  InventurZaehlpositionResource,
+  Lagerbereich,
+} from "../../Resources";
+import { generateInventurlistePdf } from "../BelegService";
+import { bestandsBewegungenSeit, rekonstruiereBestand, upsertBestandAgg } from "./BestandsService";
+
+/* --------------------------------- Helpers -------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function toISODate(d?: Date | string | null): string | undefined {
+  if (!d) return undefined;
+  const dt = typeof d === "string" ? new Date(d) : d;
+  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
+}
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+async function naechsteNummer(jahr: number): Promise<string> {
+  const counter = await Counter.findOneAndUpdate(
+    { name: `inventur-${jahr}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return `INV-${jahr}-${String(counter!.seq).padStart(4, "0")}`;
+}
+
+async function mitarbeiterName(userId?: string): Promise<string | undefined> {
+  if (!userId || !mongoose.Types.ObjectId.isValid(userId)) return undefined;
+  const m = await Mitarbeiter.findById(userId).select({ name: 1 }).lean();
+  return m?.name;
+}
+
+/** Letzte Zählung je Zähler (Nachzählungen ersetzen die eigene frühere Zählung) */
+function letzteZaehlungen(pos: any): any[] {
+  const jeZaehler = new Map<string, any>();
+  for (const z of pos.zaehlungen ?? []) {
+    const id = String(z.mitarbeiterId);
+    const bisher = jeZaehler.get(id);
+    if (!bisher || new Date(z.zeitpunkt) >= new Date(bisher.zeitpunkt)) jeZaehler.set(id, z);
+  }
+  return [...jeZaehler.values()];
+}
+
+function auswerten(pos: any): Pick<InventurPositionResource, "status" | "istMenge" | "differenz" | "differenzWert"> {
+  const zaehlungen = letzteZaehlungen(pos);
+  let status: InventurPositionResource["status"];
+  let ist: number | undefined;
+  if (typeof pos.istMenge === "number") {
+    status = "FESTGELEGT";
+    ist = pos.istMenge;
+  } else if (!zaehlungen.length) {
+    status = "OFFEN";
+  } else if (zaehlungen.every((z) => Math.abs(z.menge - zaehlungen[0].menge) < 0.001)) {
+    status = "GEZAEHLT";
+    ist = zaehlungen[0].menge;
+  } else {
+    status = "KONFLIKT";
+  }
+  if (ist === undefined) return { status };
+  const differenz = round3(ist - pos.sollMenge);
+  return { status, istMenge: round3(ist), differenz, differenzWert: round2(differenz * (pos.preisJeKg ?? 0)) };
+}
+
+function toPositionResource(pos: any): InventurPositionResource {
+  return {
+    id: pos._id.toString(),
+    artikelId: pos.artikelId.toString(),
+    artikelName: pos.artikelName ?? undefined,
+    artikelNummer: pos.artikelNummer ?? undefined,
+    chargeId: pos.chargeId?.toString(),
+    mhd: pos.mhd ? toISODate(pos.mhd)?.slice(0, 10) : undefined,
+    lagerbereich: pos.lagerbereich,
+    sollMenge: pos.sollMenge,
+    preisJeKg: pos.preisJeKg ?? 0,
+    zusatz: !!pos.zusatz,
+    zaehlungen: letzteZaehlungen(pos).map((z) => ({
+      id: z._id.toString(),
+      mitarbeiterId: z.mitarbeiterId.toString(),
+      mitarbeiterName: z.mitarbeiterName ?? undefined,
+      menge: z.menge,
+      zeitpunkt: toISODate(z.zeitpunkt)!,
+      geraet: z.geraet ?? undefined,
+    })),
+    istBegruendung: pos.istBegruendung ?? undefined,
+    ...auswerten(pos),
+  };
+}
+
+function toResource(doc: any, mitPositionen = true): InventurResource {
+  const positionen = (doc.positionen ?? []).map(toPositionResource);
+  return {
+    id: doc._id.toString(),
+    nummer: doc.nummer,
+    bezeichnung: doc.bezeichnung ?? undefined,
+    stichtag: toISODate(doc.stichtag)!.slice(0, 10),
+    sollStandAm: toISODate(doc.sollStandAm),
+    lagerbereich: doc.lagerbereich ?? undefined,
+    status: doc.status,
+    notiz: doc.notiz ?? undefined,
+    erstelltVon: doc.erstelltVon?.toString(),
+    erstelltVonName: doc.erstelltVonName ?? undefined,
+    freigegebenVon: doc.freigegebenVon?.toString(),
+    freigegebenVonName: doc.freigegebenVonName ?? undefined,
+    freigegebenAm: toISODate(doc.freigegebenAm),
+    createdAt: toISODate(doc.createdAt),
+    positionen: mitPositionen ? positionen : undefined,
+    summen: {
+      positionen: positionen.length,
+      offen: positionen.filter((p: InventurPositionResource) => p.status === "OFFEN").length,
+      konflikte: positionen.filter((p: InventurPositionResource) => p.status === "KONFLIKT").length,
+      sollWert: round2(positionen.reduce((s: number, p: InventurPositionResource) => s + p.sollMenge * p.preisJeKg, 0)),
+      istWert: round2(
+        positionen.reduce((s: number, p: InventurPositionResource) => s + (p.istMenge ?? 0) * p.preisJeKg, 0)
+      ),
+      differenzWert: round2(positionen.reduce((s: number, p: InventurPositionResource) => s + (p.differenzWert ?? 0), 0)),
+    },
+  };
+}
+
+function toZaehlposition(pos: any, userId: string): InventurZaehlpositionResource {
+  const meine = letzteZaehlungen(pos).find((z) => String(z.mitarbeiterId) === String(userId));
+  return {
+    id: pos._id.toString(),
+    artikelId: pos.artikelId.toString(),
+    artikelName: pos.artikelName ?? undefined,
+    artikelNummer: pos.artikelNummer ?? undefined,
+    chargeId: pos.chargeId?.toString(),
+    mhd: pos.mhd ? toISODate(pos.mhd)?.slice(0, 10) : undefined,
+    lagerbereich: pos.lagerbereich,
+    meineMenge: meine?.menge,
+    meinZeitpunkt: meine ? toISODate(meine.zeitpunkt) : undefined,
+  };
+}
+
+async function ladeInventur(id: string, status?: InventurStatus[]) {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige Inventur-ID");
+  const doc = await InventurModel.findById(id).lean();
+  if (!doc) throw new Error("Inventur nicht gefunden");
+  if (status && !status.includes(doc.status)) {
+    throw new Error(`Aktion im Status ${doc.status} nicht möglich`);
+  }
+  return doc;
+}
+
+function dateiname(nummer: string, endung: string): string {
+  return `Inventurliste_${nummer.replace(/[^A-Za-z0-9_\-]/g, "_")}.${endung}`;
+}
+
+/* ---------------------------------- DTOs ---------------------------------- */
+
+export type StarteInventurDTO = {
+  bezeichnung?: string;
+  stichtag?: string;           // ISO-Datum, Standard: heute
+  lagerbereich?: Lagerbereich; // ohne Angabe: alle Lagerbereiche
+  artikelIds?: string[];       // optional: Teilinventur
+  notiz?: string;
+};
+
+export type ZaehlungDTO = {
+  positionId?: string;
+  // Zusatzposition (Ware gefunden, die nicht im Snapshot steht)
+  artikelId?: string;
+  chargeId?: string;
+  lagerbereich?: Lagerbereich;
+  menge: number;               // kg
+  zeitpunkt?: string;          // ISO, z.B. offline auf dem Gerät erfasst
+  geraet?: string;
+};
+
+/* ------------------------------ Hauptaktionen ----------------------------- */
+
+/**
+ * Startet eine Inventur und friert den Bestand als Soll ein: den aktuellen Bestand (BestandAgg),
+ * bei einem vergangenen Stichtag den Stand zum Ende des Stichtags aus dem Bewegungsjournal.
+ * Je Lagerbereich darf nur eine Inventur gleichzeitig laufen.
+ */
+export async function starteInventur(data: StarteInventurDTO, userId?: string): Promise<InventurResource> {
+  const stichtag = data.stichtag ? new Date(data.stichtag) : new Date();
+  if (isNaN(stichtag.getTime())) throw new Error("Ungültiger Stichtag");
+  const jetzt = new Date();
+  const stichtagEnde = new Date(stichtag);
+  stichtagEnde.setHours(23, 59, 59, 999);
+  const sollStandAm = stichtagEnde < jetzt ? stichtagEnde : jetzt;
+
+  const laufend = await InventurModel.findOne({
+    status: { $in: ["ZAEHLUNG", "PRUEFUNG"] },
+    ...(data.lagerbereich ? { lagerbereich: { $in: [data.lagerbereich, null] } } : {}),
+  })
+    .select({ nummer: 1 })
+    .lean();
+  if (laufend) throw new Error(`Inventur ${laufend.nummer} läuft noch`);
+
+  let aggs: { artikelId: any; chargeId?: any; lagerbereich: Lagerbereich; verfuegbar: number }[];
+  if (sollStandAm < jetzt) {
+    const artikelIds = new Set(data.artikelIds ?? []);
+    aggs = (await rekonstruiereBestand({ bis: sollStandAm })).filter(
+      (a) =>
+        (!data.lagerbereich || a.lagerbereich === data.lagerbereich) && (!artikelIds.size || artikelIds.has(a.artikelId))
+    );
+  } else {
+    const filter: any = {};
+    if (data.lagerbereich) filter.lagerbereich = data.lagerbereich;
+    if (data.artikelIds?.length) filter.artikelId = { $in: data.artikelIds.map((id) => new Types.ObjectId(id)) };
+    aggs = await BestandAggModel.find(filter).select({ artikelId: 1, chargeId: 1, lagerbereich: 1, verfuegbar: 1 }).lean();
+  }
+
+  // Zusammenfassen je Artikel/Charge/Lagerbereich (Altbestand kann doppelte Zeilen enthalten)
+  const soll = new Map<string, { artikelId: string; chargeId?: string; lagerbereich: Lagerbereich; menge: number }>();
+  for (const a of aggs) {
+    const key = `${a.artikelId}|${a.chargeId ?? ""}|${a.lagerbereich}`;
+    const bisher = soll.get(key);
+    if (bisher) bisher.menge += Number(a.verfuegbar || 0);
+    else
+      soll.set(key, {
+        artikelId: String(a.artikelId),
+        chargeId: a.chargeId ? String(a.chargeId) : undefined,
+        lagerbereich: a.lagerbereich,
+        menge: Number(a.verfuegbar || 0),
+      });
+  }
+  const zeilen = [...soll.values()].filter((z) => Math.abs(z.menge) >= 0.0005);
+
+  const [artikel, chargen] = await Promise.all([
+    ArtikelModel.find({ _id: { $in: [...new Set(zeilen.map((z) => z.artikelId))] } })
+      .select({ name: 1, artikelNummer: 1, preis: 1 })
+      .lean(),
+    ChargeModel.find({ _id: { $in: zeilen.filter((z) => z.chargeId).map((z) => z.chargeId) } })
+      .select({ mhd: 1 })
+      .lean(),
+  ]);
+  const artikelById = new Map(artikel.map((a) => [String(a._id), a]));
+  const chargeById = new Map(chargen.map((c) => [String(c._id), c]));
+
+  const positionen = zeilen
+    .map((z) => {
+      const a = artikelById.get(z.artikelId);
+      return {
+        artikelId: new Types.ObjectId(z.artikelId),
+        artikelName: a?.name,
+        artikelNummer: a?.artikelNummer,
+        chargeId: z.chargeId ? new Types.ObjectId(z.chargeId) : undefined,
+        mhd: z.chargeId ? chargeById.get(z.chargeId)?.mhd : undefined,
+        lagerbereich: z.lagerbereich,
+        sollMenge: round3(z.menge),
+        preisJeKg: Number(a?.preis ?? 0),
+        zaehlungen: [],
+      };
+    })
+    .sort(
+      (x, y) =>
+        x.lagerbereich.localeCompare(y.lagerbereich) ||
+        (x.artikelName ?? "").localeCompare(y.artikelName ?? "", "de") ||
+        (x.mhd?.getTime() ?? 0) - (y.mhd?.getTime() ?? 0)
+    );
+
+  const doc = await InventurModel.create({
+    nummer: await naechsteNummer(stichtag.getFullYear()),
+    bezeichnung: data.bezeichnung,
+    stichtag,
+    sollStandAm,
+    lagerbereich: data.lagerbereich ?? null,
+    status: "ZAEHLUNG",
+    positionen,
+    notiz: data.notiz,
+    erstelltVon: userId ? new Types.ObjectId(userId) : undefined,
+    erstelltVonName: await mitarbeiterName(userId),
+  });
+  return toResource(doc.toObject());
+}
+
+export async function listInventuren(params?: { status?: InventurStatus }): Promise<InventurResource[]> {
+  const filter: any = {};
+  if (params?.status) filter.status = params.status;
+  const docs = await InventurModel.find(filter).sort({ stichtag: -1, createdAt: -1 }).lean();
+  return docs.map((d) => toResource(d, false));
+}
+
+/** Inventur mit Soll, Zählungen und Differenzen (Prüfansicht) */
+export async function getInventur(id: string): Promise<InventurResource> {
+  return toResource(await ladeInventur(id));
+}
+
+/** Zählliste für Zähler (blind: ohne Soll und ohne Zählungen anderer) */
+export async function getZaehlliste(id: string, userId: string): Promise<InventurZaehlpositionResource[]> {
+  const doc = await ladeInventur(id, ["ZAEHLUNG"]);
+  return doc.positionen.map((p) => toZaehlposition(p, userId));
+}
+
+/**
+ * Zählungen erfassen (auch als Stapel vom Mobilgerät). Je Zähler gilt die letzte Zählung einer Position.
+ * Ohne positionId wird die Position über Artikel/Charge/Lagerbereich gesucht bzw. als Zusatzposition angelegt.
+ */
+export async function erfasseZaehlungen(
+  id: string,
+  zaehlungen: ZaehlungDTO[],
+  userId: string
+): Promise<InventurZaehlpositionResource[]> {
+  const inventur = await ladeInventur(id, ["ZAEHLUNG"]);
+  const name = await mitarbeiterName(userId);
+  const betroffen = new Set<string>();
+
+  for (const z of zaehlungen) {
+    const menge = Number(z.menge);
+    if (!isFinite(menge) || menge < 0) throw new Error("Menge muss ≥ 0 sein");
+    const zeitpunkt = z.zeitpunkt ? new Date(z.zeitpunkt) : new Date();
+    if (isNaN(zeitpunkt.getTime())) throw new Error("Ungültiger Zeitpunkt");
+
+    let positionId = z.positionId;
+    if (!positionId) {
+      if (!z.artikelId) throw new Error("positionId oder artikelId ist erforderlich");
+      const lagerbereich = z.lagerbereich ?? inventur.lagerbereich ?? undefined;
+      if (!lagerbereich) throw new Error("Lagerbereich ist erforderlich");
+      if (inventur.lagerbereich && lagerbereich !== inventur.lagerbereich) {
+        throw new Error(`Inventur umfasst nur den Lagerbereich ${inventur.lagerbereich}`);
+      }
+      positionId = await findeOderErgaenzePosition(id, z.artikelId, z.chargeId, lagerbereich);
+    }
+
+    const res = await InventurModel.updateOne(
+      { _id: id, status: "ZAEHLUNG", "positionen._id": new Types.ObjectId(positionId) },
+      {
+        $push: {
+          "positionen.$.zaehlungen": {
+            mitarbeiterId: new Types.ObjectId(userId),
+            mitarbeiterName: name,
+            menge: round3(menge),
+            zeitpunkt,
+            geraet: z.geraet,
+          },
+        },
+      }
+    );
+    if (!res.matchedCount) throw new Error("Inventurposition nicht gefunden oder Zählung bereits abgeschlossen");
+    betroffen.add(String(positionId));
+  }
+
+  const doc = await ladeInventur(id);
+  return doc.positionen.filter((p) => betroffen.has(String(p._id))).map((p) => toZaehlposition(p, userId));
+}
+
+async function findeOderErgaenzePosition(
+  id: string,
+  artikelId: string,
+  chargeId: string | undefined,
+  lagerbereich: Lagerbereich
+): Promise<string> {
+  const match = {
+    artikelId: new Types.ObjectId(artikelId),
+    chargeId: chargeId ? new Types.ObjectId(chargeId) : { $exists: false },
+    lagerbereich,
+  };
+  const finde = async () => {
+    const doc = await InventurModel.findOne({ _id: id }, { positionen: { $elemMatch: match } }).lean();
+    return doc?.positionen?.[0]?._id?.toString();
+  };
+  const vorhanden = await finde();
+  if (vorhanden) return vorhanden;
+
+  const [artikel, charge] = await Promise.all([
+    ArtikelModel.findById(artikelId).select({ name: 1, artikelNummer: 1, preis: 1 }).lean(),
+    chargeId ? ChargeModel.findById(chargeId).select({ artikelId: 1, mhd: 1 }).lean() : null,
+  ]);
+  if (!artikel) throw new Error("Artikel nicht gefunden");
+  if (chargeId && !charge) throw new Error("Charge nicht gefunden");
+  if (charge && String(charge.artikelId) !== String(artikelId)) {
+    throw new Error("Charge passt nicht zum Artikel (artikelId mismatch)");
+  }
+
+  // Nur ergänzen, wenn nicht parallel von einem anderen Zähler angelegt
+  await InventurModel.updateOne(
+    { _id: id, status: "ZAEHLUNG", positionen: { $not: { $elemMatch: match } } },
+    {
+      $push: {
+        positionen: {
+          artikelId: new Types.ObjectId(artikelId),
+          artikelName: artikel.name,
+          artikelNummer: artikel.artikelNummer,
+          chargeId: chargeId ? new Types.ObjectId(chargeId) : undefined,
+          mhd: charge?.mhd,
+          lagerbereich,
+          sollMenge: 0,
+          preisJeKg: Number(artikel.preis ?? 0),
+          zusatz: true,
+          zaehlungen: [],
+        },
+      },
+    }
+  );
+  const neu = await finde();
+  if (!neu) throw new Error("Inventurposition konnte nicht angelegt werden");
+  return neu;
+}
+
+/** Zählung beenden → Prüfung (Differenzen sichtbar, Ist festlegbar) */
+export async function schliesseZaehlung(id: string): Promise<InventurResource> {
+  await ladeInventur(id, ["ZAEHLUNG"]);
+  const doc = await InventurModel.findOneAndUpdate(
+    { _id: id, status: "ZAEHLUNG" },
+    { $set: { status: "PRUEFUNG" } },
+    { new: true }
+  ).lean();
+  if (!doc) throw new Error("Inventur wurde zwischenzeitlich geändert");
+  return toResource(doc);
+}
+
+/** Prüfung zurück in die Zählung (Nachzählen) */
+export async function oeffneZaehlung(id: string): Promise<InventurResource> {
+  await ladeInventur(id, ["PRUEFUNG"]);
+  const doc = await InventurModel.findOneAndUpdate(
+    { _id: id, status: "PRUEFUNG" },
+    { $set: { status: "ZAEHLUNG" } },
+    { new: true }
+  ).lean();
+  if (!doc) throw new Error("Inventur wurde zwischenzeitlich geändert");
+  return toResource(doc);
+}
+
+/**
+ * Ist-Menge einer Position festlegen (z. B. bei abweichenden Zählungen); null hebt die Festlegung auf.
+ */
+export async function setzeIstMenge(
+  id: string,
+  positionId: string,
+  data: { istMenge: number | null; begruendung?: string }
+): Promise<InventurResource> {
+  await ladeInventur(id, ["PRUEFUNG"]);
+  if (data.istMenge !== null && (!isFinite(Number(data.istMenge)) || Number(data.istMenge) < 0)) {
+    throw new Error("Ist-Menge muss ≥ 0 sein");
+  }
+  if (data.istMenge !== null && !data.begruendung?.trim()) throw new Error("Begründung ist erforderlich");
+  const doc = await InventurModel.findOneAndUpdate(
+    { _id: id, status: "PRUEFUNG", "positionen._id": new Types.ObjectId(positionId) },
+    {
+      $set: {
+        "positionen.$.istMenge": data.istMenge === null ? null : round3(Number(data.istMenge)),
+        "positionen.$.istBegruendung": data.istMenge === null ? undefined : data.begruendung?.trim(),
+      },
+    },
+    { new: true }
+  ).lean();
+  if (!doc) throw new Error("Inventurposition nicht gefunden");
+  return toResource(doc);
+}
+
+/**
+ * Freigabe: bucht alle Differenzen als INVENTUR_KORREKTUR und passt BestandAgg an – in einer Transaktion.
+ * Gebucht wird Ist − (Soll + Bewegungen zwischen Soll-Stand und Zählung), damit Entnahmen/Zugänge
+ * während der Zählung nicht doppelt in die Korrektur eingehen.
+ * Offene Positionen blockieren die Freigabe, außer sie sollen ausdrücklich mit Ist 0 gebucht werden.
+ */
+export async function freigebenInventur(
+  id: string,
+  opts: { ungezaehltAlsNull?: boolean },
+  userId?: string
+): Promise<InventurResource> {
+  const inventur = await ladeInventur(id, ["PRUEFUNG"]);
+  const bewertet = inventur.positionen.map((p) => ({ pos: p, ...auswerten(p) }));
+
+  const konflikte = bewertet.filter((b) => b.status === "KONFLIKT").length;
+  if (konflikte) throw new Error(`${konflikte} Position(en) mit abweichenden Zählungen – bitte Ist festlegen`);
+  const offen = bewertet.filter((b) => b.status === "OFFEN").length;
+  if (offen && !opts.ungezaehltAlsNull) throw new Error(`${offen} Position(en) noch nicht gezählt`);
+
+  const name = await mitarbeiterName(userId);
+  const jetzt = new Date();
+  const notiz = `[INV:${inventur.nummer}] Inventurdifferenz`;
+
+  const doc = await withTransaction(async (session) => {
+    // Status zuerst umstellen – schützt vor doppelter Buchung
+    const gesperrt = await InventurModel.findOneAndUpdate(
+      { _id: id, status: "PRUEFUNG" },
+      {
+        $set: {
+          status: "GEBUCHT",
+          freigegebenVon: userId ? new Types.ObjectId(userId) : undefined,
+          freigegebenVonName: name,
+          freigegebenAm: jetzt,
+        },
+      },
+      { new: true, session }
+    ).lean();
+    if (!gesperrt) throw new Error("Inventur wurde bereits freigegeben oder geändert");
+
+    const bewegungen = await bestandsBewegungenSeit(
+      { von: inventur.sollStandAm ?? inventur.createdAt ?? jetzt, lagerbereich: inventur.lagerbereich ?? undefined },
+      session
+    );
+
+    for (const b of bewertet) {
+      // Bewegungen der Position bis zur (letzten) Zählung; ohne Zählung bis zur Freigabe
+      const zaehlzeiten = letzteZaehlungen(b.pos).map((z) => new Date(z.zeitpunkt).getTime());
+      const gezaehltAm = zaehlzeiten.length ? Math.max(...zaehlzeiten) : jetzt.getTime();
+      const posKey = `${b.pos.artikelId}|${b.pos.chargeId ?? ""}|${b.pos.lagerbereich}`;
+      const seitSoll = bewegungen
+        .filter((m) => m.timestamp.getTime() <= gezaehltAm && `${m.artikelId}|${m.chargeId ?? ""}|${m.lagerbereich}` === posKey)
+        .reduce((sum, m) => sum + m.menge, 0);
+      const ist = b.status === "OFFEN" ? 0 : b.istMenge ?? 0;
+      const differenz = round3(ist - (b.pos.sollMenge + seitSoll));
+      if (Math.abs(differenz) < 0.001) continue;
+      const charge = b.pos.chargeId ? await ChargeModel.findById(b.pos.chargeId).session(session).lean() : null;
+      await new BewegungModel({
+        timestamp: jetzt,
+        userId: userId ? new Types.ObjectId(userId) : undefined,
+        typ: "INVENTUR_KORREKTUR",
+        artikelId: b.pos.artikelId,
+        artikelName: b.pos.artikelName,
+        artikelNummer: b.pos.artikelNummer,
+        chargeId: b.pos.chargeId,
+        menge: differenz,
+        lagerbereich: b.pos.lagerbereich,
+        notiz: b.status === "OFFEN" ? `${notiz} (nicht gezählt)` : notiz,
+        mhd: charge?.mhd,
+        schlachtDatum: charge?.schlachtDatum,
+        isTK: charge ? !!charge.isTK : undefined,
+      }).save({ session });
+
+      await upsertBestandAgg(
+        {
+          artikelId: b.pos.artikelId.toString(),
+          chargeId: b.pos.chargeId?.toString(),
+          lagerbereich: b.pos.lagerbereich,
+          deltaVerfuegbar: differenz,
+        },
+        session
+      );
+    }
+
+    // Nicht gezählte Positionen dokumentiert mit Ist 0 festschreiben
+    if (offen) {
+      for (const b of bewertet.filter((x) => x.status === "OFFEN")) {
+        await InventurModel.updateOne(
+          { _id: id, "positionen._id": b.pos._id },
+          { $set: { "positionen.$.istMenge": 0, "positionen.$.istBegruendung": "Nicht gezählt – mit 0 gebucht" } },
+          { session }
+        );
+      }
+      return InventurModel.findById(id).session(session).lean();
+    }
+    return gesperrt;
+  });
+  return toResource(doc);
+}
+
+export async function storniereInventur(id: string): Promise<InventurResource> {
+  await ladeInventur(id, ["ZAEHLUNG", "PRUEFUNG"]);
+  const doc = await InventurModel.findOneAndUpdate(
+    { _id: id, status: { $in: ["ZAEHLUNG", "PRUEFUNG"] } },
+    { $set: { status: "STORNIERT" } },
+    { new: true }
+  ).lean();
+  if (!doc) throw new Error("Inventur wurde zwischenzeitlich geändert");
+  return toResource(doc);
+}
+
+/* -------------------------------- Exporte -------------------------------- */
+
+/** Inventurliste als PDF (Soll, Ist, Differenz und Wert je Position) */
+export async function getInventurlistePdf(id: string): Promise<{ pdf: Buffer; filename: string }> {
+  const inventur = toResource(await ladeInventur(id));
+  return { pdf: await generateInventurlistePdf(inventur), filename: dateiname(inventur.nummer, "pdf") };
+}
+
+/** Inventurliste als XLSX: Blatt "Inventurliste" und Blatt "Zählungen" (alle Zählungen als Prüfpfad) */
+export async function getInventurlisteXlsx(id: string): Promise<{ xlsx: Buffer; filename: string }> {
+  const doc = await ladeInventur(id);
+  const inventur = toResource(doc);
+
+  const liste = [
+    [
+      "Lagerbereich",
+      "Artikel-Nr.",
+      "Artikel",
+      "Charge",
+      "MHD",
+      "Soll (kg)",
+      "Ist (kg)",
+      "Differenz (kg)",
+      "Preis je kg (€)",
+      "Soll-Wert (€)",
+      "Ist-Wert (€)",
+      "Differenz-Wert (€)",
+      "Status",
+      "Begründung",
+    ],
+    ...(inventur.positionen ?? []).map((p) => [
+      p.lagerbereich,
+      p.artikelNummer ?? "",
+      p.artikelName ?? "",
+      p.chargeId ?? "",
+      p.mhd ?? "",
+      p.sollMenge,
+      p.istMenge ?? "",
+      p.differenz ?? "",
+      p.preisJeKg,
+      round2(p.sollMenge * p.preisJeKg),
+      p.istMenge !== undefined ? round2(p.istMenge * p.preisJeKg) : "",
+      p.differenzWert ?? "",
+      p.zusatz ? `${p.status} (Zusatz)` : p.status,
+      p.istBegruendung ?? "",
+    ]),
+    [],
+    ["Summe", "", "", "", "", "", "", "", "", inventur.summen.sollWert, inventur.summen.istWert, inventur.summen.differenzWert],
+  ];
+
+  const zaehlungen = [
+    ["Artikel-Nr.", "Artikel", "Charge", "Lagerbereich", "Zähler", "Menge (kg)", "Zeitpunkt", "Gerät"],
+    ...doc.positionen.flatMap((p) =>
+      (p.zaehlungen ?? []).map((z) => [
+        p.artikelNummer ?? "",
+        p.artikelName ?? "",
+        p.chargeId?.toString() ?? "",
+        p.lagerbereich,
+        z.mitarbeiterName ?? z.mitarbeiterId.toString(),
+        z.menge,
+        toISODate(z.zeitpunkt) ?? "",
+        z.geraet ?? "",
+      ])
+    ),
+  ];
+
+  const kopf = [
+    ["Inventur", inventur.nummer],
+    ["Bezeichnung", inventur.bezeichnung ?? ""],
+    ["Stichtag", inventur.stichtag],
+    ["Lagerbereich", inventur.lagerbereich ?? "alle"],
+    ["Status", inventur.status],
+    ["Freigegeben von", inventur.freigegebenVonName ?? ""],
+    ["Freigegeben am", inventur.freigegebenAm ?? ""],
+    [],
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([...kopf, ...liste]), "Inventurliste");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(zaehlungen), "Zählungen");
+  const xlsx = XLSX.write(wb, { type: "buffer", bookType: "xlsx" }) as Buffer;
+  return { xlsx, filename: dateiname(inventur.nummer, "xlsx") };
+}
@@ -0,0 +1,425 @@
+/**
+ * KundenRuecklieferungService.ts
+ *
+ * Rücklieferungen von Kunden zu einer Auftragsposition:
+ * - Erfassung mit Grund, Charge und Gewicht (max. gelieferte Menge abzüglich bisheriger Rücklieferungen)
+ * - Verbleib BESTAND: RUECKLIEFERUNG_KUNDE (+) erhöht den verfügbaren Bestand der Charge
+ * - Verbleib MUELL: RUECKLIEFERUNG_KUNDE (+) und MULL (−) – nachvollziehbar, Bestand unverändert
+ * - Verbleib QUARANTAENE: Ware gesperrt, gebucht wird erst mit der Entscheidung (BESTAND/MUELL)
+ * - optional Gutschrift über das Rücklieferungsgewicht (finalisiert, Bezug auf die Rechnung)
+ */
+
+import mongoose, { FilterQuery, Types } from "mongoose";
+import { ArtikelPosition } from "../../model/ArtikelPositionModel";
+import { Auftrag } from "../../model/AuftragModel";
+import { BewegungModel } from "../../model/BewegungsModel";
+import { ChargeModel } from "../../model/ChargeModel";
+import { Counter } from "../../model/CounterModel";
+import { Kunde } from "../../model/KundeModel";
+import { KundenRuecklieferungModel } from "../../model/KundenRuecklieferungModel";
+import { Mitarbeiter } from "../../model/MitarbeiterModel";
+import { logger } from "../../logger";
+import {
+  ArtikelPositionResource,
+  KundenRuecklieferungResource,
+  Lagerbereich,
+  RuecklieferungGrund,
+  RuecklieferungVerbleib,
+} from "../../Resources";
+import { getArtikelPositionById } from "../ArtikelPositionService";
+import { finalisiereBeleg } from "../BelegArchivService";
+import { upsertBestandAgg } from "./BestandsService";
+
+/* --------------------------------- Helpers -------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+const GRUND_TEXT: Record<RuecklieferungGrund, string> = {
+  QUALITAET: "Qualitätsmangel",
+  MHD: "MHD",
+  TEMPERATUR: "Temperatur",
+  BESCHAEDIGT: "Beschädigt",
+  FALSCHLIEFERUNG: "Falschlieferung",
+  UEBERLIEFERUNG: "Überlieferung",
+  SONSTIGES: "Sonstiges",
+};
+
+function toISODate(d?: Date | string | null): string | undefined {
+  if (!d) return undefined;
+  const dt = typeof d === "string" ? new Date(d) : d;
+  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
+}
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+async function naechsteNummer(jahr: number, session: mongoose.ClientSession): Promise<string> {
+  const counter = await Counter.findOneAndUpdate(
+    { name: `ruecklieferung-kunde-${jahr}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  );
+  return `RKL-${jahr}-${String(counter!.seq).padStart(4, "0")}`;
+}
+
+async function mitarbeiterName(userId?: string): Promise<string | undefined> {
+  if (!userId || !mongoose.Types.ObjectId.isValid(userId)) return undefined;
+  const m = await Mitarbeiter.findById(userId).select({ name: 1 }).lean();
+  return m?.name;
+}
+
+/** Gelieferte Menge der Position in kg (Nettogewicht vor Kommissionierung vor Bestellgewicht) */
+function gelieferteKg(pos: any): number {
+  if (typeof pos.nettogewicht === "number" && pos.nettogewicht > 0) return pos.nettogewicht;
+  if (pos.kommissioniertEinheit === "kg" && Number(pos.kommissioniertMenge) > 0) return Number(pos.kommissioniertMenge);
+  return Number(pos.gesamtgewicht ?? 0);
+}
+
+function toResource(doc: any): KundenRuecklieferungResource {
+  return {
+    id: doc._id.toString(),
+    nummer: doc.nummer,
+    auftragId: doc.auftragId.toString(),
+    auftragsnummer: doc.auftragsnummer ?? undefined,
+    artikelPositionId: doc.artikelPositionId.toString(),
+    kundeId: doc.kundeId?.toString(),
+    kundeName: doc.kundeName ?? undefined,
+    artikelId: doc.artikelId.toString(),
+    artikelName: doc.artikelName ?? undefined,
+    artikelNummer: doc.artikelNummer ?? undefined,
+    chargeId: doc.chargeId.toString(),
+    lagerbereich: doc.lagerbereich,
+    menge: Number(doc.menge),
+    grund: doc.grund,
+    notiz: doc.notiz ?? undefined,
+    verbleib: doc.verbleib,
+    status: doc.status,
+    entschiedenAm: toISODate(doc.entschiedenAm),
+    gutschrift: doc.gutschrift
+      ? {
+          nummer: doc.gutschrift.nummer,
+          belegArchivId: doc.gutschrift.belegArchivId.toString(),
+          betragNetto: Number(doc.gutschrift.betragNetto),
+        }
+      : undefined,
+    erstelltVon: doc.erstelltVon?.toString(),
+    erstelltVonName: doc.erstelltVonName ?? undefined,
+    createdAt: toISODate(doc.createdAt),
+  };
+}
+
+/**
+ * Bucht den Verbleib einer Rücklieferung (BESTAND oder MUELL) und liefert die Bewegungs-IDs.
+ */
+async function bucheVerbleib(
+  r: any,
+  verbleib: "BESTAND" | "MUELL",
+  userId: string | undefined,
+  session: mongoose.ClientSession
+): Promise<Types.ObjectId[]> {
+  const charge = await ChargeModel.findById(r.chargeId).session(session);
+  if (!charge) throw new Error("Charge nicht gefunden");
+
+  const basis = {
+    timestamp: new Date(),
+    userId: userId ? new Types.ObjectId(userId) : undefined,
+    artikelId: r.artikelId,
+    artikelName: r.artikelName,
+    artikelNummer: r.artikelNummer,
+    kundeName: r.kundeName,
+    chargeId: r.chargeId,
+    lagerbereich: r.lagerbereich,
+    auftragId: r.auftragId,
+    mhd: charge.mhd,
+    schlachtDatum: charge.schlachtDatum,
+    isTK: charge.isTK,
+  };
+  const tag = `[RKL:${r._id}] ${r.nummer}`;
+
+  const rueck = await new BewegungModel({
+    ...basis,
+    typ: "RUECKLIEFERUNG_KUNDE",
+    menge: Math.abs(r.menge),
+    notiz: `${tag} ${GRUND_TEXT[r.grund as RuecklieferungGrund]}${r.notiz ? ` – ${r.notiz}` : ""}`,
+  }).save({ session });
+
+  if (verbleib === "BESTAND") {
+    await upsertBestandAgg(
+      {
+        artikelId: r.artikelId.toString(),
+        chargeId: r.chargeId.toString(),
+        lagerbereich: r.lagerbereich,
+        deltaVerfuegbar: Math.abs(r.menge),
+      },
+      session
+    );
+    return [rueck._id];
+  }
+
+  // Müll: Zugang und Abgang heben sich im Bestand auf
+  const muell = await new BewegungModel({
+    ...basis,
+    typ: "MULL",
+    menge: -Math.abs(r.menge),
+    notiz: `[Rückweisung Kunde] ${tag}`,
+  }).save({ session });
+  return [rueck._id, muell._id];
+}
+
+/* ---------------------------------- DTOs ---------------------------------- */
+
+export type CreateKundenRuecklieferungDTO = {
+  artikelPositionId: string;
+  chargeId?: string;            // ohne Angabe: einzige gebuchte Charge der Position
+  lagerbereich?: Lagerbereich;  // ohne Angabe: aus der Kommissionierung bzw. Charge (isTK)
+  menge: number;                // kg
+  grund: RuecklieferungGrund;
+  notiz?: string;
+  verbleib: RuecklieferungVerbleib;
+  gutschrift?: boolean;         // Gutschrift über menge × Einzelpreis erstellen
+};
+
+export type ListKundenRuecklieferungenParams = {
+  auftragId?: string;
+  kundeId?: string;
+  status?: "QUARANTAENE" | "ERLEDIGT";
+  from?: string; // ISO
+  to?: string;   // ISO
+};
+
+/* ------------------------------ Hauptaktionen ----------------------------- */
+
+/**
+ * Rücklieferung erfassen und (außer bei Quarantäne) sofort buchen.
+ * Die Gutschrift wird nach der Buchung finalisiert; schlägt sie fehl, bleibt die Rücklieferung
+ * gebucht und gutschriftFehler ist gesetzt (erneut über erstelleRuecklieferungsGutschrift).
+ */
+export async function createKundenRuecklieferung(
+  data: CreateKundenRuecklieferungDTO,
+  userId?: string
+): Promise<KundenRuecklieferungResource> {
+  const menge = round3(Number(data.menge));
+  if (!(menge > 0)) throw new Error("Menge muss > 0 sein");
+  if (!GRUND_TEXT[data.grund]) throw new Error("Ungültiger Grund");
+  if (!["BESTAND", "MUELL", "QUARANTAENE"].includes(data.verbleib)) throw new Error("Ungültiger Verbleib");
+
+  const pos = await ArtikelPosition.findById(data.artikelPositionId);
+  if (!pos) throw new Error("Artikelposition nicht gefunden");
+  if (pos.leergutVonPositionId) throw new Error("Leergut-Positionen können nicht zurückgeliefert werden");
+  if (!pos.auftragId) throw new Error("Artikelposition gehört zu keinem Auftrag");
+
+  const auftrag = await Auftrag.findById(pos.auftragId);
+  if (!auftrag) throw new Error("Auftrag nicht gefunden");
+  if (auftrag.status === "storniert") throw new Error("Auftrag ist storniert");
+  if (data.gutschrift) {
+    if (!auftrag.rechnungsNummer) {
+      throw new Error("Gutschrift erfordert eine finalisierte Rechnung – vor der Abrechnung die Position korrigieren");
+    }
+    if (typeof pos.einzelpreis !== "number") throw new Error("Position hat keinen Einzelpreis");
+  }
+
+  // Charge: angegeben oder eindeutig aus der Kommissionierung
+  const entnahmen = pos.chargenEntnahmen ?? [];
+  let chargeId = data.chargeId;
+  if (!chargeId) {
+    const ids = Array.from(new Set(entnahmen.map((e) => e.chargeId.toString())));
+    if (ids.length !== 1) throw new Error("Charge ist erforderlich (Position hat keine eindeutige Charge)");
+    chargeId = ids[0];
+  }
+  const charge = await ChargeModel.findById(chargeId);
+  if (!charge) throw new Error("Charge nicht gefunden");
+  if (charge.artikelId.toString() !== pos.artikel?.toString()) {
+    throw new Error("Charge passt nicht zum Artikel der Position");
+  }
+  const lagerbereich: Lagerbereich =
+    data.lagerbereich ??
+    entnahmen.find((e) => e.chargeId.toString() === chargeId)?.lagerbereich ??
+    (charge.isTK ? "TK" : "NON_TK");
+
+  const kunde = await Kunde.findById(auftrag.kunde).select({ name: 1 }).lean();
+  const erstelltVonName = await mitarbeiterName(userId);
+  const geliefert = gelieferteKg(pos);
+
+  const created = await withTransaction(async (session) => {
+    // Nummer zuerst ziehen: der gemeinsame Zähler serialisiert parallele Rücklieferungen
+    // (Schreibkonflikt → Wiederholung), die folgende Summe sieht daher alle bestätigten Rücklieferungen
+    const nummer = await naechsteNummer(new Date().getFullYear(), session);
+
+    // Nicht mehr zurücknehmen als geliefert wurde
+    if (geliefert > 0) {
+      const bisher = await KundenRuecklieferungModel.aggregate([
+        { $match: { artikelPositionId: pos._id } },
+        { $group: { _id: null, summe: { $sum: "$menge" } } },
+      ]).session(session);
+      const rest = round3(geliefert - Number(bisher[0]?.summe ?? 0));
+      if (menge > rest) throw new Error(`Rücklieferung übersteigt die gelieferte Menge (offen ${rest} kg)`);
+    }
+
+    const [r] = await KundenRuecklieferungModel.create(
+      [
+        {
+          nummer,
+          auftragId: auftrag._id,
+          auftragsnummer: auftrag.auftragsnummer,
+          artikelPositionId: pos._id,
+          kundeId: auftrag.kunde,
+          kundeName: kunde?.name,
+          artikelId: pos.artikel,
+          artikelName: pos.artikelName ?? charge.artikelName,
+          artikelNummer: charge.artikelNummer,
+          chargeId: charge._id,
+          lagerbereich,
+          menge,
+          grund: data.grund,
+          notiz: data.notiz,
+          verbleib: data.verbleib,
+          status: data.verbleib === "QUARANTAENE" ? "QUARANTAENE" : "ERLEDIGT",
+          erstelltVon: userId ? new Types.ObjectId(userId) : undefined,
+          erstelltVonName,
+        },
+      ],
+      { session }
+    );
+
+    if (data.verbleib !== "QUARANTAENE") {
+      r.bewegungIds = await bucheVerbleib(r, data.verbleib, userId, session);
+      r.entschiedenAm = new Date();
+      await r.save({ session });
+    }
+    return r;
+  });
+
+  if (!data.gutschrift) return toResource(created);
+  try {
+    return await erstelleRuecklieferungsGutschrift(created._id.toString(), userId);
+  } catch (err: any) {
+    logger.error(`[Rücklieferung] Gutschrift zu ${created.nummer} fehlgeschlagen: ${err?.message || err}`);
+    return { ...toResource(created), gutschriftFehler: err?.message || String(err) };
+  }
+}
+
+/**
+ * Quarantäne auflösen: Ware zurück in den Bestand oder in den Müll buchen.
+ */
+export async function entscheideQuarantaene(
+  id: string,
+  data: { verbleib: "BESTAND" | "MUELL"; notiz?: string },
+  userId?: string
+): Promise<KundenRuecklieferungResource> {
+  if (data.verbleib !== "BESTAND" && data.verbleib !== "MUELL") throw new Error("Ungültiger Verbleib");
+
+  return await withTransaction(async (session) => {
+    const r = await KundenRuecklieferungModel.findById(id).session(session);
+    if (!r) throw new Error("Rücklieferung nicht gefunden");
+    if (r.status !== "QUARANTAENE") throw new Error("Rücklieferung ist nicht in Quarantäne");
+
+    if (data.notiz) r.notiz = r.notiz ? `${r.notiz}\n${data.notiz}` : data.notiz;
+    r.bewegungIds = await bucheVerbleib(r, data.verbleib, userId, session);
+    r.verbleib = data.verbleib;
+    r.status = "ERLEDIGT";
+    r.entschiedenAm = new Date();
+    r.entschiedenVon = userId ? new Types.ObjectId(userId) : undefined;
+    await r.save({ session });
+    return toResource(r);
+  });
+}
+
+/**
+ * Gutschrift über das Rücklieferungsgewicht (menge × Einzelpreis der Position) finalisieren.
+ * Die Rücklieferung wird in derselben Transaktion zuerst beansprucht – ein paralleler Aufruf (Doppelklick,
+ * Wiederholung) läuft in den Schreibkonflikt, wird wiederholt und findet dann die bereits erstellte Gutschrift.
+ * Die Bewegungen der Rücklieferung erhalten den Bezug zur Gutschrift.
+ */
+export async function erstelleRuecklieferungsGutschrift(
+  id: string,
+  userId?: string
+): Promise<KundenRuecklieferungResource> {
+  if (!mongoose.Types.ObjectId.isValid(id)) throw new Error("Ungültige ID");
+
+  return await withTransaction(async (session) => {
+    const r = await KundenRuecklieferungModel.findOneAndUpdate(
+      { _id: id, gutschrift: null },
+      { $set: { updatedAt: new Date() } },
+      { new: true, session }
+    );
+    if (!r) {
+      const vorhanden = await KundenRuecklieferungModel.findById(id).select({ gutschrift: 1 }).session(session).lean();
+      if (!vorhanden) throw new Error("Rücklieferung nicht gefunden");
+      throw new Error(`Gutschrift wurde bereits erstellt (${vorhanden.gutschrift?.nummer})`);
+    }
+
+    const pos = await getArtikelPositionById(r.artikelPositionId.toString());
+    if (typeof pos.einzelpreis !== "number") throw new Error("Position hat keinen Einzelpreis");
+
+    const gutschriftPosition: ArtikelPositionResource = {
+      ...pos,
+      menge: r.menge,
+      einheit: "kg",
+      gesamtgewicht: r.menge,
+      nettogewicht: r.menge,
+      bruttogewicht: undefined,
+      kommissioniertMenge: r.menge,
+      kommissioniertEinheit: "kg",
+      gesamtpreis: round2(r.menge * pos.einzelpreis),
+      chargennummern: [r.chargeId.toString()],
+      leergut: [],
+      bemerkung: `Rücklieferung ${r.nummer} (${GRUND_TEXT[r.grund]})`,
+    };
+
+    const archiv = await finalisiereBeleg(
+      r.auftragId.toString(),
+      "gutschrift",
+      {},
+      userId,
+      { positionen: [gutschriftPosition], session }
+    );
+
+    r.gutschrift = {
+      nummer: archiv.nummer,
+      belegArchivId: new Types.ObjectId(archiv.id),
+      betragNetto: archiv.betragNetto,
+    };
+    await r.save({ session });
+    if (r.bewegungIds.length) {
+      await BewegungModel.updateMany(
+        { _id: { $in: r.bewegungIds } },
+        { $set: { gutschriftId: r.gutschrift.belegArchivId } },
+        { session }
+      );
+    }
+    return toResource(r);
+  });
+}
+
+export async function listKundenRuecklieferungen(
+  params?: ListKundenRuecklieferungenParams
+): Promise<KundenRuecklieferungResource[]> {
+  const filter: FilterQuery<any> = {};
+  if (params?.auftragId) filter.auftragId = new Types.ObjectId(params.auftragId);
+  if (params?.kundeId) filter.kundeId = new Types.ObjectId(params.kundeId);
+  if (params?.status) filter.status = params.status;
+  if (params?.from || params?.to) {
+    filter.createdAt = {};
+    if (params.from) filter.createdAt.$gte = new Date(params.from);
+    if (params.to) filter.createdAt.$lte = new Date(params.to);
+  }
+  const docs = await KundenRuecklieferungModel.find(filter).sort({ createdAt: -1 }).lean();
+  return docs.map(toResource);
+}
+
+export async function getKundenRuecklieferung(id: string): Promise<KundenRuecklieferungResource> {
+  const doc = await KundenRuecklieferungModel.findById(id).lean();
+  if (!doc) throw new Error("Rücklieferung nicht gefunden");
+  return toResource(doc);
+}
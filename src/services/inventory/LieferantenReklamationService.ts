@@ -0,0 +1,403 @@
+/**
+ * LieferantenReklamationService.ts
+ *
+ * Reklamationen eingegangener Chargen beim Lieferanten:
+ * - Erfassung je Charge mit Mangelkategorie, Gewicht und Beschreibung; Fotos über die Dateiablage
+ *   (besitzerTyp "reklamation", zweck "reklamation-foto")
+ * - Rücksendung bucht RUECKLIEFERUNG_LIEFERANT (−) und senkt den verfügbaren Bestand der Charge
+ * - Reklamations-PDF für den Lieferanten (inkl. Fotos)
+ * - Reklamationsquote je Lieferant (Reklamationen im Verhältnis zu den Wareneingängen)
+ */
+
+import mongoose, { FilterQuery, Types } from "mongoose";
+import { BestandAggModel } from "../../model/BestandsAggModel";
+import { BewegungModel } from "../../model/BewegungsModel";
+import { ChargeModel } from "../../model/ChargeModel";
+import { Counter } from "../../model/CounterModel";
+import { Lieferant } from "../../model/LieferantModel";
+import { LieferantenReklamationModel } from "../../model/LieferantenReklamationModel";
+import { Mitarbeiter } from "../../model/MitarbeiterModel";
+import { logger } from "../../logger";
+import {
+  Lagerbereich,
+  LieferantenReklamationResource,
+  MangelKategorie,
+  ReklamationStatus,
+  ReklamationsquoteResource,
+} from "../../Resources";
+import { generateReklamationPdf } from "../BelegService";
+import { getDateienByBesitzer, ladeDatei } from "../dateien/DateiService";
+import { upsertBestandAgg } from "./BestandsService";
+
+/* --------------------------------- Helpers -------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+const KATEGORIEN: MangelKategorie[] = [
+  "QUALITAET",
+  "TEMPERATUR",
+  "MHD",
+  "VERPACKUNG",
+  "FREMDKOERPER",
+  "GEWICHT",
+  "FALSCHLIEFERUNG",
+  "SONSTIGES",
+];
+
+function toISODate(d?: Date | string | null): string | undefined {
+  if (!d) return undefined;
+  const dt = typeof d === "string" ? new Date(d) : d;
+  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
+}
+
+async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await fn(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+}
+
+async function naechsteNummer(jahr: number): Promise<string> {
+  const counter = await Counter.findOneAndUpdate(
+    { name: `reklamation-${jahr}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return `REK-${jahr}-${String(counter!.seq).padStart(4, "0")}`;
+}
+
+async function mitarbeiterName(userId?: string): Promise<string | undefined> {
+  if (!userId || !mongoose.Types.ObjectId.isValid(userId)) return undefined;
+  const m = await Mitarbeiter.findById(userId).select({ name: 1 }).lean();
+  return m?.name;
+}
+
+function toResource(doc: any, mhd?: Date | null): LieferantenReklamationResource {
+  return {
+    id: doc._id.toString(),
+    nummer: doc.nummer,
+    lieferantId: doc.lieferantId.toString(),
+    lieferantName: doc.lieferantName ?? undefined,
+    chargeId: doc.chargeId.toString(),
+    artikelId: doc.artikelId.toString(),
+    artikelName: doc.artikelName ?? undefined,
+    artikelNummer: doc.artikelNummer ?? undefined,
+    mhd: toISODate(mhd)?.slice(0, 10),
+    kategorie: doc.kategorie,
+    menge: Number(doc.menge),
+    beschreibung: doc.beschreibung ?? undefined,
+    status: doc.status,
+    ruecksendung: doc.ruecksendung
+      ? {
+          menge: Number(doc.ruecksendung.menge),
+          lagerbereich: doc.ruecksendung.lagerbereich,
+          bewegungId: doc.ruecksendung.bewegungId.toString(),
+          am: toISODate(doc.ruecksendung.am)!,
+        }
+      : undefined,
+    ergebnis: doc.ergebnis ?? undefined,
+    abgeschlossenAm: toISODate(doc.abgeschlossenAm),
+    erstelltVon: doc.erstelltVon?.toString(),
+    erstelltVonName: doc.erstelltVonName ?? undefined,
+    createdAt: toISODate(doc.createdAt),
+  };
+}
+
+/* ---------------------------------- DTOs ---------------------------------- */
+
+export type CreateReklamationDTO = {
+  chargeId: string;
+  lieferantId?: string;         // ohne Angabe: Lieferant der Charge
+  kategorie: MangelKategorie;
+  menge: number;                // beanstandetes Gewicht (kg)
+  beschreibung?: string;
+};
+
+export type RuecksendungDTO = {
+  menge?: number;               // default: beanstandetes Gewicht
+  lagerbereich?: Lagerbereich;  // default: Lagerbereich mit dem größten Bestand der Charge
+  notiz?: string;
+};
+
+export type ListReklamationenParams = {
+  lieferantId?: string;
+  chargeId?: string;
+  status?: ReklamationStatus;
+  kategorie?: MangelKategorie;
+  from?: string; // ISO
+  to?: string;   // ISO
+};
+
+/* ------------------------------ Hauptaktionen ----------------------------- */
+
+export async function createReklamation(
+  data: CreateReklamationDTO,
+  userId?: string
+): Promise<LieferantenReklamationResource> {
+  const menge = round3(Number(data.menge));
+  if (!(menge > 0)) throw new Error("Menge muss > 0 sein");
+  if (!KATEGORIEN.includes(data.kategorie)) throw new Error("Ungültige Mangelkategorie");
+
+  const charge = await ChargeModel.findById(data.chargeId).lean();
+  if (!charge) throw new Error("Charge nicht gefunden");
+
+  const lieferantId = data.lieferantId ?? charge.lieferantId?.toString();
+  if (!lieferantId) throw new Error("Charge hat keinen Lieferanten – lieferantId angeben");
+  if (charge.lieferantId && charge.lieferantId.toString() !== lieferantId) {
+    throw new Error("Charge stammt von einem anderen Lieferanten");
+  }
+  const lieferant = await Lieferant.findById(lieferantId).select({ name: 1 }).lean();
+  if (!lieferant) throw new Error("Lieferant nicht gefunden");
+
+  const doc = await LieferantenReklamationModel.create({
+    nummer: await naechsteNummer(new Date().getFullYear()),
+    lieferantId: lieferant._id,
+    lieferantName: lieferant.name,
+    chargeId: charge._id,
+    artikelId: charge.artikelId,
+    artikelName: charge.artikelName,
+    artikelNummer: charge.artikelNummer,
+    kategorie: data.kategorie,
+    menge,
+    beschreibung: data.beschreibung,
+    status: "OFFEN",
+    erstelltVon: userId ? new Types.ObjectId(userId) : undefined,
+    erstelltVonName: await mitarbeiterName(userId),
+  });
+  return toResource(doc, charge.mhd);
+}
+
+export async function listReklamationen(params?: ListReklamationenParams): Promise<LieferantenReklamationResource[]> {
+  const filter: FilterQuery<any> = {};
+  if (params?.lieferantId) filter.lieferantId = new Types.ObjectId(params.lieferantId);
+  if (params?.chargeId) filter.chargeId = new Types.ObjectId(params.chargeId);
+  if (params?.status) filter.status = params.status;
+  if (params?.kategorie) filter.kategorie = params.kategorie;
+  if (params?.from || params?.to) {
+    filter.createdAt = {};
+    if (params.from) filter.createdAt.$gte = new Date(params.from);
+    if (params.to) filter.createdAt.$lte = new Date(params.to);
+  }
+  const docs = await LieferantenReklamationModel.find(filter).sort({ createdAt: -1 }).lean();
+
+  const chargeIds = Array.from(new Set(docs.map((d) => d.chargeId.toString())));
+  const charges = chargeIds.length
+    ? await ChargeModel.find({ _id: { $in: chargeIds } }, { _id: 1, mhd: 1 }).lean()
+    : [];
+  const mhdMap = new Map(charges.map((c) => [c._id.toString(), c.mhd]));
+  return docs.map((d) => toResource(d, mhdMap.get(d.chargeId.toString())));
+}
+
+/**
+ * Einzelansicht inkl. Fotos.
+ */
+export async function getReklamation(id: string): Promise<LieferantenReklamationResource> {
+  const doc = await LieferantenReklamationModel.findById(id).lean();
+  if (!doc) throw new Error("Reklamation nicht gefunden");
+  const charge = await ChargeModel.findById(doc.chargeId).select({ mhd: 1 }).lean();
+  return { ...toResource(doc, charge?.mhd), fotos: await getDateienByBesitzer("reklamation", id) };
+}
+
+/**
+ * Ware an den Lieferanten zurücksenden: RUECKLIEFERUNG_LIEFERANT (−) und BestandAgg in einer Transaktion.
+ * Höchstens das beanstandete Gewicht und der verfügbare Bestand der Charge im Lagerbereich.
+ */
+export async function sendeZurueck(
+  id: string,
+  data: RuecksendungDTO,
+  userId?: string
+): Promise<LieferantenReklamationResource> {
+  return await withTransaction(async (session) => {
+    const r = await LieferantenReklamationModel.findById(id).session(session);
+    if (!r) throw new Error("Reklamation nicht gefunden");
+    if (r.status !== "OFFEN") throw new Error("Nur offene Reklamationen können zurückgesendet werden");
+
+    const menge = round3(Number(data.menge ?? r.menge));
+    if (!(menge > 0)) throw new Error("Menge muss > 0 sein");
+    if (menge > r.menge + 0.0005) throw new Error(`Rücksendemenge übersteigt das beanstandete Gewicht (${r.menge} kg)`);
+
+    const charge = await ChargeModel.findById(r.chargeId).session(session);
+    if (!charge) throw new Error("Charge nicht gefunden");
+
+    let lagerbereich = data.lagerbereich;
+    if (!lagerbereich) {
+      const agg = await BestandAggModel.findOne({ chargeId: r.chargeId, verfuegbar: { $gt: 0 } })
+        .sort({ verfuegbar: -1 })
+        .session(session)
+        .lean();
+      lagerbereich = agg?.lagerbereich ?? (charge.isTK ? "TK" : "NON_TK");
+    }
+    const bestand = await BestandAggModel.find({ chargeId: r.chargeId, lagerbereich })
+      .select({ verfuegbar: 1 })
+      .session(session)
+      .lean();
+    const verfuegbar = round3(bestand.reduce((sum, b) => sum + Number(b.verfuegbar || 0), 0));
+    if (menge > verfuegbar + 0.0005) {
+      throw new Error(`Charge hat im Lagerbereich ${lagerbereich} nur ${verfuegbar} kg verfügbar`);
+    }
+
+    const bewegung = await new BewegungModel({
+      timestamp: new Date(),
+      userId: userId ? new Types.ObjectId(userId) : undefined,
+      typ: "RUECKLIEFERUNG_LIEFERANT",
+      artikelId: r.artikelId,
+      artikelName: r.artikelName,
+      artikelNummer: r.artikelNummer,
+      chargeId: r.chargeId,
+      menge: -Math.abs(menge),
+      lagerbereich,
+      notiz: `[REK:${r._id}] ${r.nummer} ${r.lieferantName ?? ""}`.trim() + (data.notiz ? ` – ${data.notiz}` : ""),
+      mhd: charge.mhd,
+      schlachtDatum: charge.schlachtDatum,
+      isTK: charge.isTK,
+    }).save({ session });
+
+    await upsertBestandAgg(
+      {
+        artikelId: r.artikelId.toString(),
+        chargeId: r.chargeId.toString(),
+        lagerbereich,
+        deltaVerfuegbar: -Math.abs(menge),
+      },
+      session
+    );
+
+    r.ruecksendung = { menge, lagerbereich, bewegungId: bewegung._id, am: new Date() };
+    r.status = "ZURUECKGESENDET";
+    await r.save({ session });
+    return toResource(r, charge.mhd);
+  });
+}
+
+/**
+ * Reklamation abschließen (Antwort des Lieferanten).
+ */
+export async function schliesseReklamation(
+  id: string,
+  data: { status: "ANERKANNT" | "ABGELEHNT"; ergebnis?: string }
+): Promise<LieferantenReklamationResource> {
+  if (data.status !== "ANERKANNT" && data.status !== "ABGELEHNT") throw new Error("Ungültiger Status");
+  const r = await LieferantenReklamationModel.findById(id);
+  if (!r) throw new Error("Reklamation nicht gefunden");
+  if (r.status === "ANERKANNT" || r.status === "ABGELEHNT") throw new Error("Reklamation ist bereits abgeschlossen");
+
+  r.status = data.status;
+  if (data.ergebnis) r.ergebnis = data.ergebnis;
+  r.abgeschlossenAm = new Date();
+  await r.save();
+  const charge = await ChargeModel.findById(r.chargeId).select({ mhd: 1 }).lean();
+  return toResource(r, charge?.mhd);
+}
+
+/**
+ * Reklamations-PDF für den Lieferanten; nicht lesbare Fotos werden ausgelassen.
+ */
+export async function getReklamationPdf(id: string): Promise<{ pdf: Buffer; filename: string }> {
+  const reklamation = await getReklamation(id);
+  const lieferant = await Lieferant.findById(reklamation.lieferantId)
+    .select({ name: 1, adresse: 1, ansprechpartner: 1, lieferantNummer: 1 })
+    .lean();
+
+  const fotos: Buffer[] = [];
+  for (const f of reklamation.fotos ?? []) {
+    try {
+      fotos.push((await ladeDatei(f.id)).daten);
+    } catch (err: any) {
+      logger.warn(`[Reklamation] Foto ${f.id} zu ${reklamation.nummer} nicht geladen: ${err?.message}`);
+    }
+  }
+
+  const pdf = await generateReklamationPdf(
+    reklamation,
+    lieferant
+      ? {
+          name: lieferant.name,
+          adresse: lieferant.adresse ?? undefined,
+          ansprechpartner: lieferant.ansprechpartner ?? undefined,
+          lieferantNummer: lieferant.lieferantNummer ?? undefined,
+        }
+      : undefined,
+    fotos
+  );
+  return { pdf, filename: `Reklamation_${reklamation.nummer}.pdf` };
+}
+
+/**
+ * Reklamationsquote je Lieferant im Zeitraum: Reklamationen (nach Erfassungsdatum) im Verhältnis
+ * zu den Chargen und Mengen mit Wareneingang (nach Buchungsdatum). Sortiert nach Quote absteigend.
+ */
+export async function getReklamationsquote(params?: { from?: string; to?: string }): Promise<ReklamationsquoteResource[]> {
+  const zeitraum: Record<string, Date> = {};
+  if (params?.from) zeitraum.$gte = new Date(params.from);
+  if (params?.to) zeitraum.$lte = new Date(params.to);
+  const mitZeitraum = Object.keys(zeitraum).length > 0;
+
+  const eingaenge: { _id: Types.ObjectId; chargen: number; kg: number }[] = await BewegungModel.aggregate([
+    { $match: { typ: "WARENEINGANG", chargeId: { $ne: null }, ...(mitZeitraum ? { timestamp: zeitraum } : {}) } },
+    { $group: { _id: "$chargeId", kg: { $sum: "$menge" } } },
+    { $lookup: { from: ChargeModel.collection.name, localField: "_id", foreignField: "_id", as: "charge" } },
+    { $unwind: "$charge" },
+    { $match: { "charge.lieferantId": { $ne: null } } },
+    { $group: { _id: "$charge.lieferantId", chargen: { $sum: 1 }, kg: { $sum: "$kg" } } },
+  ]);
+
+  const reklamationen = await LieferantenReklamationModel.find(mitZeitraum ? { createdAt: zeitraum } : {})
+    .select({ lieferantId: 1, lieferantName: 1, menge: 1, kategorie: 1, ruecksendung: 1 })
+    .lean();
+
+  const out = new Map<string, ReklamationsquoteResource>();
+  const eintrag = (lieferantId: string): ReklamationsquoteResource => {
+    let e = out.get(lieferantId);
+    if (!e) {
+      e = {
+        lieferantId,
+        gelieferteChargen: 0,
+        geliefertKg: 0,
+        reklamationen: 0,
+        reklamiertKg: 0,
+        zurueckgesendetKg: 0,
+        quoteChargen: 0,
+        quoteKg: 0,
+        kategorien: {},
+      };
+      out.set(lieferantId, e);
+    }
+    return e;
+  };
+
+  for (const g of eingaenge) {
+    const e = eintrag(g._id.toString());
+    e.gelieferteChargen = g.chargen;
+    e.geliefertKg = round3(g.kg);
+  }
+  for (const r of reklamationen) {
+    const e = eintrag(r.lieferantId.toString());
+    e.lieferantName = e.lieferantName ?? r.lieferantName ?? undefined;
+    e.reklamationen++;
+    e.reklamiertKg = round3(e.reklamiertKg + Number(r.menge ?? 0));
+    e.zurueckgesendetKg = round3(e.zurueckgesendetKg + Number(r.ruecksendung?.menge ?? 0));
+    e.kategorien[r.kategorie] = (e.kategorien[r.kategorie] ?? 0) + 1;
+  }
+
+  const lieferanten = await Lieferant.find({ _id: { $in: Array.from(out.keys()) } }, { _id: 1, name: 1 }).lean();
+  for (const l of lieferanten) {
+    const e = out.get(l._id.toString());
+    if (e) e.lieferantName = l.name;
+  }
+
+  const items = Array.from(out.values());
+  for (const e of items) {
+    e.quoteChargen = e.gelieferteChargen > 0 ? round2((e.reklamationen / e.gelieferteChargen) * 100) : 0;
+    e.quoteKg = e.geliefertKg > 0 ? round2((e.reklamiertKg / e.geliefertKg) * 100) : 0;
+  }
+  return items.sort(
+    (a, b) => b.quoteChargen - a.quoteChargen || b.reklamationen - a.reklamationen || (a.lieferantName ?? "").localeCompare(b.lieferantName ?? "", "de")
+  );
+}
@@ -1,10 +1,10 @@
 // backend/src/services/MuellService.ts
 import mongoose, { Types, FilterQuery } from "mongoose";
 import { BewegungModel } from "../../model/BewegungsModel";
-import { BestandAggModel } from "../../model/BestandsAggModel";
 import { ChargeModel } from "../../model/ChargeModel";
 import { ArtikelModel} from "../../model/ArtikelModel";
 import { BewegungResource, Lagerbereich } from "src/Resources";
+import { upsertBestandAgg } from "./BestandsService";
 
 /* --------------------------------- Helpers -------------------------------- */
 
@@ -43,43 +43,6 @@ async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promi
   }
 }
 
-/** BestandAgg upsert + inkrementelle Deltas anwenden */
-async function upsertBestandAgg(
-  params: {
-    artikelId: string;
-    chargeId?: string;
-    lagerbereich: Lagerbereich;
-    deltaVerfuegbar?: number;
-    deltaReserviert?: number;
-    deltaUnterwegs?: number;
-  },
-  session: mongoose.ClientSession
-) {
-  const { artikelId, chargeId, lagerbereich, deltaVerfuegbar = 0, deltaReserviert = 0, deltaUnterwegs = 0 } = params;
-
-  await BestandAggModel.updateOne(
-    {
-      artikelId: new Types.ObjectId(artikelId),
-      chargeId: chargeId ? new Types.ObjectId(chargeId) : null,
-      lagerbereich,
-    },
-    {
-      $setOnInsert: {
-        artikelId: new Types.ObjectId(artikelId),
-        chargeId: chargeId ? new Types.ObjectId(chargeId) : null,
-        lagerbereich,
-      },
-      $inc: {
-        verfuegbar: deltaVerfuegbar,
-        reserviert: deltaReserviert,
-        unterwegs: deltaUnterwegs,
-      },
-      $set: { updatedAt: new Date() },
-    },
-    { upsert: true, session }
-  );
-}
-
 function toResource(doc: any): BewegungResource {
   return {
     id: doc._id.toString(),
@@ -2,9 +2,9 @@
 import mongoose, { Types } from "mongoose";
 import { ChargeModel } from "../../model/ChargeModel";
 import { BewegungModel } from "../../model/BewegungsModel";
-import { BestandAggModel } from "../../model/BestandsAggModel";
 import { ArtikelModel } from "../../model/ArtikelModel";
 import { BewegungResource, Lagerbereich } from "src/Resources";
+import { upsertBestandAgg } from "./BestandsService";
 
 /* --------------------------------- Helpers -------------------------------- */
 
@@ -32,30 +32,6 @@ async function withTransaction<T>(fn: (session: mongoose.ClientSession) => Promi
     await session.endSession();
   }
 }
-/** BestandAgg upsert + inkrementelle Deltas anwenden */
-async function upsertBestandAgg(
-  p: {
-    artikelId: string;
-    chargeId?: string;
-    lagerbereich: Lagerbereich;
-    deltaVerfuegbar?: number;
-    deltaReserviert?: number;
-    deltaUnterwegs?: number;
-  },
-  session: mongoose.ClientSession
-) {
-  const { artikelId, chargeId, lagerbereich, deltaVerfuegbar = 0, deltaReserviert = 0, deltaUnterwegs = 0 } = p;
-  await BestandAggModel.updateOne(
-    { artikelId: new Types.ObjectId(artikelId), chargeId: chargeId ? new Types.ObjectId(chargeId) : null, lagerbereich },
-    {
-      $setOnInsert: { artikelId: new Types.ObjectId(artikelId), chargeId: chargeId ? new Types.ObjectId(chargeId) : null, lagerbereich },
-      $inc: { verfuegbar: deltaVerfuegbar, reserviert: deltaReserviert, unterwegs: deltaUnterwegs },
-      $set: { updatedAt: new Date() },
-    },
-    { upsert: true, session }
-  );
-}
-
 /* ---------------------------------- DTOs ---------------------------------- */
 
 export type UmbuchenDTO = {
@@ -21,25 +21,7 @@ import { RegionRule } from "../model/RegionRuleModel";
 import { ReihenfolgeVorlage } from "../model/ReihenfolgeVorlageModel";
 
 import { Kunde } from "../model/KundeModel";
-
-// Formatierte Kundenadresse (robust gegen verschiedene Feldnamen)
-function formatKundenAdresse(k: any): string | undefined {
-  if (!k) return undefined;
-  // 1) Direkte Felder bevorzugen
-  const direct = k.adresse || k.address || k.anschrift;
-  if (direct && String(direct).trim()) return String(direct).trim();
-  // 2) Aus Einzelteilen zusammensetzen
-  const strasse = k.strasse || k.straße || k.strasse1 || k.street || "";
-  const hausnr = k.hausnummer || k.nr || k.hausNr || "";
-  const line1 = [strasse, hausnr].filter(Boolean).join(" ").trim();
-  const plz = k.plz || k.postleitzahl || k.zip || "";
-  const ort = k.ort || k.stadt || k.city || "";
-  const line2 = [plz, ort].filter(Boolean).join(" ").trim();
-  const land = k.land || k.country || "";
-  const parts = [line1 || undefined, line2 || undefined, land || undefined].filter(Boolean);
-  const combined = parts.join(", ");
-  return combined || undefined;
-}
+import { lieferadresseFuer } from "./KundeAdressService";
 
 // Liefert den Tagesbeginn (Europe/Berlin) als UTC-Date-Objekt
 function normalizeToBerlinStartOfDay(d: any): Date {
@@ -144,7 +126,7 @@ export async function onAuftragLieferdatumSet(auftragId: string) {
               position: newPos,
               kundeId: k._id,
               kundeName: k.name,
-              kundeAdress: formatKundenAdresse(k),
+              ...lieferadresseFuer(k, a.lieferadresseId),
               gewichtKg: a.gewicht ?? null,
             },
           },
@@ -188,7 +170,7 @@ export async function onAuftragLieferdatumSet(auftragId: string) {
             auftragId: a._id,
             kundeId: k._id,
             kundeName: k.name,
-            kundeAdress: formatKundenAdresse(k),
+            ...lieferadresseFuer(k, a.lieferadresseId),
             position,
             gewichtKg: a.gewicht ?? null,
             status: "offen",
@@ -276,7 +258,7 @@ export async function onAuftragDatumOderRegionGeaendert(auftragId: string) {
               auftragId: a._id,
               kundeId: k._id,
               kundeName: k.name,
-              kundeAdress: formatKundenAdresse(k),
+              ...lieferadresseFuer(k, a.lieferadresseId),
               position: pos,
               gewichtKg: a.gewicht ?? null,
               status: "offen",
@@ -341,7 +323,7 @@ export async function onAuftragDatumOderRegionGeaendert(auftragId: string) {
             position: targetPos,
             kundeId: k._id,
             kundeName: k.name,
-            kundeAdress: formatKundenAdresse(k),
+            ...lieferadresseFuer(k, a.lieferadresseId),
             gewichtKg: a.gewicht ?? null,
           },
         },
@@ -388,15 +370,13 @@ export async function moveStopBetweenTours(params: {
       const stop = await TourStop.findById(params.stopId).session(session);
       if (!stop) throw new Error("Stop nicht gefunden");
 
-      let kundeAdress: string | undefined;
+      let adresse: ReturnType<typeof lieferadresseFuer> | undefined;
       let auftragGewicht: number | null | undefined;
-      try {
-        const k = await Kunde.findById(stop.kundeId).session(session);
-        kundeAdress = formatKundenAdresse(k);
-      } catch {}
       try {
         const a = await Auftrag.findById(stop.auftragId).session(session);
         auftragGewicht = (a?.gewicht ?? null) as any;
+        const k = await Kunde.findById(stop.kundeId).session(session);
+        if (k) adresse = lieferadresseFuer(k, a?.lieferadresseId);
       } catch {}
 
       const sourceTourId = String(stop.tourId);
@@ -435,7 +415,7 @@ export async function moveStopBetweenTours(params: {
           $set: {
             tourId: new Types.ObjectId(targetTourId),
             position: targetPos,
-            kundeAdress,
+            ...adresse,
             gewichtKg: auftragGewicht ?? stop.gewichtKg ?? null,
           },
         },
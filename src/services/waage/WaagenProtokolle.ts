@@ -0,0 +1,108 @@
+/**
+ * WaagenProtokolle.ts
+ *
+ * Parser für Gewichtstelegramme gängiger Industriewaagen (eine Zeile = ein Telegramm).
+ * - SICS        Mettler-Toledo SICS ("S S      12.345 kg", "S D ...", "TA A   0.500 kg")
+ * - KONTINUIERLICH  Dauerausgabe "ST,GS,+  12.345kg" / "US,NT,..." (Bizerba, A&D, CAS u.a.)
+ * - EINFACH     nur Zahl + Einheit ("  12.345 kg"); Stabilität über Wiederholung
+ */
+
+import { WaagenProtokoll } from "../../Resources";
+
+export type Telegramm =
+  | {
+      art: "GEWICHT";
+      wert: number;              // in kg
+      stabil?: boolean;          // undefined = Protokoll liefert keine Stabilitätsinfo
+      gewichtsArt: "BRUTTO" | "NETTO";
+    }
+  | { art: "TARA"; wert: number } // in kg
+  | { art: "FEHLER"; meldung: string };
+
+/** Umrechnung in kg */
+function toKg(wert: number, einheit?: string): number {
+  const e = (einheit ?? "kg").trim().toLowerCase();
+  if (e === "g") return wert / 1000;
+  if (e === "lb") return wert * 0.45359237;
+  if (e === "t") return wert * 1000;
+  return wert;
+}
+
+/** "+  12.345kg" / "-0,500 kg" → { wert, einheit } */
+function parseZahlMitEinheit(s: string): { wert: number; einheit?: string } | null {
+  const m = s.trim().match(/^([+-])?\s*(\d+(?:[.,]\d+)?)\s*([a-zA-Z]{1,2})?$/);
+  if (!m) return null;
+  const zahl = Number(m[2].replace(",", "."));
+  if (!Number.isFinite(zahl)) return null;
+  return { wert: m[1] === "-" ? -zahl : zahl, einheit: m[3] };
+}
+
+function parseSics(zeile: string): Telegramm | null {
+  const m = zeile.match(/^(S|SI|SIR|TA)\s+([A-Z+\-])\s*(.*)$/);
+  if (!m) return null;
+  const [, befehl, status, rest] = m;
+
+  if (status === "I") return { art: "FEHLER", meldung: "Waage beschäftigt" };
+  if (status === "+") return { art: "FEHLER", meldung: "Überlast" };
+  if (status === "-") return { art: "FEHLER", meldung: "Unterlast" };
+
+  const z = parseZahlMitEinheit(rest);
+  if (!z) return null;
+
+  if (befehl === "TA") return { art: "TARA", wert: toKg(z.wert, z.einheit) };
+  // SICS "S" liefert den Nettowert (bei gesetzter Tara)
+  return {
+    art: "GEWICHT",
+    wert: toKg(z.wert, z.einheit),
+    stabil: status === "S",
+    gewichtsArt: "NETTO",
+  };
+}
+
+function parseKontinuierlich(zeile: string): Telegramm | null {
+  const m = zeile.match(/^(ST|US|OL)\s*,\s*(GS|NT|TR|G|N|T)\s*,\s*(.*)$/i);
+  if (!m) return null;
+  const status = m[1].toUpperCase();
+  const typ = m[2].toUpperCase();
+
+  if (status === "OL") return { art: "FEHLER", meldung: "Überlast" };
+
+  const z = parseZahlMitEinheit(m[3]);
+  if (!z) return null;
+  const wert = toKg(z.wert, z.einheit);
+
+  if (typ === "TR" || typ === "T") return { art: "TARA", wert };
+  return {
+    art: "GEWICHT",
+    wert,
+    stabil: status === "ST",
+    gewichtsArt: typ === "NT" || typ === "N" ? "NETTO" : "BRUTTO",
+  };
+}
+
+function parseEinfach(zeile: string): Telegramm | null {
+  const z = parseZahlMitEinheit(zeile);
+  if (!z) return null;
+  return { art: "GEWICHT", wert: toKg(z.wert, z.einheit), gewichtsArt: "BRUTTO" };
+}
+
+/**
+ * Parst eine Telegrammzeile im angegebenen Protokoll.
+ * @returns null wenn die Zeile nicht erkannt wurde (z.B. Quittungen, Leerzeilen)
+ */
+export function parseTelegramm(protokoll: WaagenProtokoll, rohZeile: string): Telegramm | null {
+  // Steuerzeichen (STX/ETX etc.) entfernen
+  const zeile = rohZeile.replace(/[\x00-\x1F\x7F]/g, "").trim();
+  if (!zeile) return null;
+
+  switch (protokoll) {
+    case "SICS":
+      return parseSics(zeile);
+    case "KONTINUIERLICH":
+      return parseKontinuierlich(zeile);
+    case "EINFACH":
+      return parseEinfach(zeile);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * WaagenService.ts
+ *
+ * Anbindung serieller Waagen an die Kommissionierung.
+ * - Konfiguration je Arbeitsplatz über WAAGEN_CONFIG (JSON-Array von WaagenKonfiguration)
+ * - Liest Telegramme zeilenweise, hält aktuellen und letzten stabilen Messwert je Arbeitsplatz
+ * - Automatischer Reconnect bei Verbindungsabbruch
+ * - mock: true → virtuelle Schnittstelle (SerialPortMock), Telegramme via sendeMockTelegramm()
+ */
+
+import { SerialPortStream } from "@serialport/stream";
+import { ReadlineParser } from "@serialport/parser-readline";
+import { SerialPortMock } from "serialport";
+import {
+  ArtikelPositionResource,
+  WaageResource,
+  WaagenKonfiguration,
+  WaagenMesswertResource,
+} from "../../Resources";
+import { parseTelegramm } from "./WaagenProtokolle";
+import { updateArtikelPositionKommissionierung } from "../ArtikelPositionService";
+import { logger } from "../../logger";
+
+/** Echte serielle Schnittstelle oder virtuelle Waage (config.mock) */
+type WaagenPort = SerialPortStream | SerialPortMock;
+
+interface WaagenZustand {
+  config: WaagenKonfiguration;
+  port?: WaagenPort;
+  verbunden: boolean;
+  fehler?: string;
+  tara: number;
+  letzteWerte: number[];
+  messwert?: WaagenMesswertResource;
+  letzterStabilerMesswert?: WaagenMesswertResource;
+  pollTimer?: NodeJS.Timeout;
+  reconnectTimer?: NodeJS.Timeout;
+  wartende: Array<(m: WaagenMesswertResource) => void>;
+}
+
+const waagen = new Map<string, WaagenZustand>();
+
+const RECONNECT_MS = 5000;
+const DEFAULT_STABIL_ANZAHL = 3;
+const STABIL_TOLERANZ_KG = 0.0005;
+
+let gestoppt = false;
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function runde(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function toResource(z: WaagenZustand): WaageResource {
+  return {
+    arbeitsplatz: z.config.arbeitsplatz,
+    name: z.config.name,
+    path: z.config.path,
+    protokoll: z.config.protokoll,
+    verbunden: z.verbunden,
+    fehler: z.fehler,
+    messwert: z.messwert,
+    letzterStabilerMesswert: z.letzterStabilerMesswert,
+  };
+}
+
+async function erzeugePort(config: WaagenKonfiguration): Promise<WaagenPort> {
+  const optionen = {
+    path: config.path,
+    baudRate: config.baudRate ?? 9600,
+    dataBits: config.dataBits ?? 8,
+    parity: config.parity ?? "none",
+    stopBits: config.stopBits ?? 1,
+    autoOpen: false,
+  };
+  if (config.mock) {
+    SerialPortMock.binding.createPort(config.path, { echo: false, record: false });
+    return new SerialPortMock(optionen);
+  }
+  // Native Bindings erst bei Bedarf laden (nicht in Tests/Mock-Betrieb)
+  const { autoDetect } = await import("@serialport/bindings-cpp");
+  return new SerialPortStream({ ...optionen, binding: autoDetect() });
+}
+
+/* ------------------------------ Telegramme -------------------------------- */
+
+function verarbeiteZeile(z: WaagenZustand, zeile: string): void {
+  const t = parseTelegramm(z.config.protokoll, zeile);
+  if (!t) return;
+
+  if (t.art === "FEHLER") {
+    z.fehler = t.meldung;
+    if (z.messwert) z.messwert = { ...z.messwert, stabil: false };
+    return;
+  }
+  z.fehler = undefined;
+
+  if (t.art === "TARA") {
+    z.tara = t.wert;
+    return;
+  }
+
+  // Stabilität: vom Protokoll geliefert oder über gleiche Werte in Folge ermittelt
+  let stabil: boolean;
+  if (typeof t.stabil === "boolean") {
+    stabil = t.stabil;
+  } else {
+    const anzahl = z.config.stabilAnzahl ?? DEFAULT_STABIL_ANZAHL;
+    z.letzteWerte = [...z.letzteWerte, t.wert].slice(-anzahl);
+    stabil =
+      z.letzteWerte.length >= anzahl &&
+      z.letzteWerte.every((w) => Math.abs(w - z.letzteWerte[0]) <= STABIL_TOLERANZ_KG);
+  }
+
+  const brutto = t.gewichtsArt === "NETTO" ? t.wert + z.tara : t.wert;
+  const netto = t.gewichtsArt === "NETTO" ? t.wert : t.wert - z.tara;
+
+  const messwert: WaagenMesswertResource = {
+    arbeitsplatz: z.config.arbeitsplatz,
+    brutto: runde(brutto),
+    netto: runde(netto),
+    tara: runde(z.tara),
+    stabil,
+    roh: zeile.trim(),
+    zeitpunkt: new Date().toISOString(),
+  };
+  z.messwert = messwert;
+
+  if (stabil) {
+    z.letzterStabilerMesswert = messwert;
+    const wartende = z.wartende;
+    z.wartende = [];
+    wartende.forEach((resolve) => resolve(messwert));
+  }
+}
+
+/* ------------------------------- Verbindung ------------------------------- */
+
+function planeReconnect(z: WaagenZustand): void {
+  if (gestoppt || z.reconnectTimer) return;
+  z.reconnectTimer = setTimeout(() => {
+    z.reconnectTimer = undefined;
+    void verbinde(z);
+  }, RECONNECT_MS);
+  if (typeof z.reconnectTimer.unref === "function") z.reconnectTimer.unref();
+}
+
+async function verbinde(z: WaagenZustand): Promise<void> {
+  const { config } = z;
+  try {
+    const port = await erzeugePort(config);
+    z.port = port;
+
+    const parser = port.pipe(new ReadlineParser({ delimiter: config.delimiter ?? "\r\n" }));
+    parser.on("data", (zeile: string) => verarbeiteZeile(z, zeile));
+
+    port.on("close", () => {
+      z.verbunden = false;
+      if (z.pollTimer) clearInterval(z.pollTimer);
+      planeReconnect(z);
+    });
+    port.on("error", (err: Error) => {
+      z.fehler = err.message;
+    });
+
+    await new Promise<void>((resolve, reject) =>
+      port.open((err) => (err ? reject(err) : resolve()))
+    );
+    z.verbunden = true;
+    z.fehler = undefined;
+    logger.info(`[Waage] ${config.arbeitsplatz} verbunden (${config.path}, ${config.protokoll})`);
+
+    // Waagen ohne Dauerausgabe zyklisch abfragen
+    if (config.pollCommand) {
+      z.pollTimer = setInterval(() => {
+        if (z.verbunden) port.write(config.pollCommand!);
+      }, config.pollIntervalMs ?? 500);
+      if (typeof z.pollTimer.unref === "function") z.pollTimer.unref();
+    }
+  } catch (err: any) {
+    z.verbunden = false;
+    z.fehler = err?.message ?? String(err);
+    logger.error(`[Waage] ${config.arbeitsplatz} Verbindung fehlgeschlagen: ${z.fehler}`);
+    planeReconnect(z);
+  }
+}
+
+/**
+ * Liest die Waagen-Konfiguration aus WAAGEN_CONFIG (JSON-Array).
+ */
+export function ladeWaagenKonfiguration(): WaagenKonfiguration[] {
+  const raw = process.env.WAAGEN_CONFIG;
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err: any) {
+    logger.error(`[Waage] WAAGEN_CONFIG ungültig: ${err.message}`);
+    return [];
+  }
+}
+
+/**
+ * Öffnet alle konfigurierten Waagen (bestehende Verbindungen werden vorher geschlossen).
+ */
+export async function initWaagen(configs: WaagenKonfiguration[] = ladeWaagenKonfiguration()): Promise<void> {
+  await closeAllWaagen();
+  gestoppt = false;
+
+  for (const config of configs) {
+    if (!config.arbeitsplatz || !config.path || !config.protokoll) {
+      logger.error(`[Waage] Unvollständige Konfiguration übersprungen: ${JSON.stringify(config)}`);
+      continue;
+    }
+    const z: WaagenZustand = { config, verbunden: false, tara: 0, letzteWerte: [], wartende: [] };
+    waagen.set(config.arbeitsplatz, z);
+    await verbinde(z);
+  }
+}
+
+/**
+ * Schließt alle Waagen (Shutdown/Tests).
+ */
+export async function closeAllWaagen(): Promise<void> {
+  gestoppt = true;
+  for (const z of waagen.values()) {
+    if (z.pollTimer) clearInterval(z.pollTimer);
+    if (z.reconnectTimer) clearTimeout(z.reconnectTimer);
+    if (z.port?.isOpen) {
+      await new Promise<void>((resolve) => z.port!.close(() => resolve()));
+    }
+    if (z.config.mock) SerialPortMock.binding.reset();
+  }
+  waagen.clear();
+}
+
+/* --------------------------------- Abfragen -------------------------------- */
+
+export function listWaagen(): WaageResource[] {
+  return Array.from(waagen.values()).map(toResource);
+}
+
+export function getWaage(arbeitsplatz: string): WaageResource | null {
+  const z = waagen.get(arbeitsplatz);
+  return z ? toResource(z) : null;
+}
+
+/**
+ * Wartet auf einen stabilen Messwert.
+ * Ist der aktuelle Messwert stabil und nicht älter als maxAlterMs, wird er direkt verwendet.
+ */
+export async function warteAufStabilenMesswert(
+  arbeitsplatz: string,
+  opts?: { maxAlterMs?: number; timeoutMs?: number }
+): Promise<WaagenMesswertResource> {
+  const z = waagen.get(arbeitsplatz);
+  if (!z) throw new Error("Waage nicht gefunden");
+
+  const maxAlterMs = opts?.maxAlterMs ?? 5000;
+  const timeoutMs = opts?.timeoutMs ?? 3000;
+
+  const aktuell = z.messwert;
+  if (aktuell?.stabil && Date.now() - new Date(aktuell.zeitpunkt).getTime() <= maxAlterMs) {
+    return aktuell;
+  }
+  if (!z.verbunden) throw new Error(`Waage ${arbeitsplatz} ist nicht verbunden`);
+
+  return new Promise<WaagenMesswertResource>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      z.wartende = z.wartende.filter((w) => w !== onStabil);
+      reject(new Error(`Kein stabiler Messwert von Waage ${arbeitsplatz}`));
+    }, timeoutMs);
+    const onStabil = (m: WaagenMesswertResource) => {
+      clearTimeout(timeout);
+      resolve(m);
+    };
+    z.wartende.push(onStabil);
+  });
+}
+
+/**
+ * Speist ein Telegramm in eine virtuelle (mock) Waage ein.
+ */
+export function sendeMockTelegramm(arbeitsplatz: string, zeile: string): void {
+  const z = waagen.get(arbeitsplatz);
+  if (!z) throw new Error("Waage nicht gefunden");
+  if (!z.config.mock) throw new Error("Waage ist keine Mock-Waage");
+  const mockPort = z.port instanceof SerialPortMock ? z.port.port : undefined;
+  if (!mockPort) throw new Error(`Waage ${arbeitsplatz} ist nicht verbunden`);
+  mockPort.emitData(Buffer.from(zeile + (z.config.delimiter ?? "\r\n")));
+}
+
+/* ----------------------------- Kommissionierung ---------------------------- */
+
+export type WaagenBuchungDTO = {
+  leergut?: {
+    leergutArt: string;
+    leergutAnzahl: number;
+    leergutGewicht: number;
+  }[];
+  kommissioniertMenge?: number;
+  kommissioniertEinheit?: string;
+  kommissioniertBemerkung?: string;
+  chargennummern?: string[];
+  maxAlterMs?: number;
+  timeoutMs?: number;
+};
+
+/**
+ * Bucht eine Kommissionierung mit dem stabilen Bruttogewicht der Waage.
+ * Das Nettogewicht ergibt sich wie bei manueller Erfassung aus Brutto – Leergut (Tara).
+ * Ohne leergut im Body bleibt das bereits an der Position erfasste Leergut maßgeblich.
+ */
+export async function bucheKommissionierungMitWaage(
+  positionId: string,
+  arbeitsplatz: string,
+  data: WaagenBuchungDTO,
+  userId: string,
+  isAdmin: boolean
+): Promise<{ position: ArtikelPositionResource; messwert: WaagenMesswertResource }> {
+  const messwert = await warteAufStabilenMesswert(arbeitsplatz, {
+    maxAlterMs: data.maxAlterMs,
+    timeoutMs: data.timeoutMs,
+  });
+  if (messwert.brutto <= 0) throw new Error("Waage zeigt kein Gewicht an");
+
+  const update: Parameters<typeof updateArtikelPositionKommissionierung>[1] = {
+    bruttogewicht: messwert.brutto,
+    kommissioniertAm: new Date(),
+  };
+  if (data.leergut !== undefined) update.leergut = data.leergut;
+  if (data.kommissioniertMenge !== undefined) update.kommissioniertMenge = data.kommissioniertMenge;
+  if (data.kommissioniertEinheit !== undefined) update.kommissioniertEinheit = data.kommissioniertEinheit;
+  if (data.kommissioniertBemerkung !== undefined) update.kommissioniertBemerkung = data.kommissioniertBemerkung;
+  if (data.chargennummern !== undefined) update.chargennummern = data.chargennummern;
+
+  const position = await updateArtikelPositionKommissionierung(positionId, update, userId, isAdmin);
+  return { position, messwert };
+}
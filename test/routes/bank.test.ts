@@ -0,0 +1,129 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { Kunde } from "../../src/model/KundeModel";
+import { BankTransaktion } from "../../src/model/BankTransaktionModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const admin = jwt.sign(
+  { id: new Types.ObjectId().toString(), role: ["admin"], exp: Math.floor(Date.now() / 1000) + 3600 },
+  JWT_SECRET
+);
+
+/** MT940-Auszug mit einer Gutschrift */
+const mt940 = (betrag: string, zweck: string) =>
+  [
+    ":20:STARTUMS",
+    ":25:DE89370400440532013000",
+    ":28C:1/1",
+    ":60F:C260309EUR0,00",
+    `:61:2603100310C${betrag}NTRFNONREF`,
+    `:86:${zweck}`,
+    ":62F:C260310EUR0,00",
+    "-",
+  ].join("\n");
+
+let auftragId: string;
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 10,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 50,
+  });
+  const auftrag = await Auftrag.create({
+    kunde: kunde._id,
+    kundeName: "Testkunde",
+    artikelPosition: [position._id],
+    status: "abgeschlossen",
+    lieferdatum: new Date("2026-03-02"),
+  });
+  await ArtikelPosition.updateOne({ _id: position._id }, { $set: { auftragId: auftrag._id } });
+  auftragId = auftrag._id.toString();
+
+  // Rechnung RE-2026-00001 über 53,50 € brutto (7 % MwSt)
+  const rechnung = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${admin}`)
+    .send({});
+  expect(rechnung.status).toBe(201);
+});
+
+test("POST /api/bank/import – sollte die Zahlung über die Rechnungsnummer zuordnen und Duplikate überspringen", async () => {
+  const inhalt = mt940("53,50", "Rechnung RE 2026 1 vielen Dank");
+
+  const res = await request(app)
+    .post("/api/bank/import")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ dateiname: "auszug.sta", inhalt });
+
+  expect(res.status).toBe(201);
+  expect(res.body).toHaveProperty("format", "MT940");
+  expect(res.body).toHaveProperty("anzahlTransaktionen", 1);
+  expect(res.body).toHaveProperty("anzahlZugeordnet", 1);
+
+  const auftrag = await Auftrag.findById(auftragId).lean();
+  expect(auftrag?.zahlstatus).toBe("bezahlt");
+  expect(auftrag?.offenBetrag).toBe(0);
+
+  const tx = await BankTransaktion.findOne().lean();
+  expect(tx?.status).toBe("zugeordnet");
+  expect(tx?.zuordnungen[0]).toMatchObject({ rechnungsNummer: "RE-2026-00001", betrag: 53.5, art: "rechnungsnummer" });
+
+  // Derselbe Auszug ein zweites Mal → keine erneute Buchung
+  const nochmal = await request(app)
+    .post("/api/bank/import")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ dateiname: "auszug.sta", inhalt });
+  expect(nochmal.status).toBe(201);
+  expect(nochmal.body).toHaveProperty("anzahlDuplikate", 1);
+  expect(await BankTransaktion.countDocuments()).toBe(1);
+});
+
+test("POST /api/bank/import – sollte Teilzahlungen als teilweise bezahlt buchen", async () => {
+  const res = await request(app)
+    .post("/api/bank/import")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ dateiname: "auszug.sta", inhalt: mt940("20,00", "Anzahlung RE-2026-00001") });
+
+  expect(res.status).toBe(201);
+  expect(res.body).toHaveProperty("anzahlZugeordnet", 1);
+
+  const auftrag = await Auftrag.findById(auftragId).lean();
+  expect(auftrag?.zahlstatus).toBe("teilweise");
+  expect(auftrag?.offenBetrag).toBe(33.5);
+});
+
+test("POST /api/bank/transaktionen/:id/zuordnen – sollte keine Überzahlung einer Rechnung zulassen", async () => {
+  await request(app)
+    .post("/api/bank/import")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ dateiname: "auszug.sta", inhalt: mt940("80,00", "ohne Referenz") });
+  const tx = await BankTransaktion.findOne().lean();
+  expect(tx?.status).toBe("offen");
+
+  const res = await request(app)
+    .post(`/api/bank/transaktionen/${tx!._id}/zuordnen`)
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ zuordnungen: [{ auftragId, betrag: 80 }] });
+
+  expect(res.status).toBe(400);
+  const auftrag = await Auftrag.findById(auftragId).lean();
+  expect(auftrag?.offenBetrag).toBe(53.5);
+});
@@ -0,0 +1,185 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { Kunde } from "../../src/model/KundeModel";
+import { BelegArchiv } from "../../src/model/BelegArchivModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[]) =>
+  jwt.sign(
+    { id: new Types.ObjectId().toString(), role, exp: Math.floor(Date.now() / 1000) + 3600 },
+    JWT_SECRET
+  );
+
+const buchhaltung = tokenFuer(["buchhaltung"]);
+const verkauf = tokenFuer(["verkauf"]);
+// Rechnungen tragen das Lieferdatum (2026), Gutschrift/Storno das aktuelle Datum
+const jahr = new Date().getFullYear();
+
+let kundeId: string;
+
+async function erstelleAuftrag(gesamtpreis = 50): Promise<string> {
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: gesamtpreis / 5,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis,
+  });
+  const auftrag = await Auftrag.create({
+    kunde: kundeId,
+    kundeName: "Testkunde",
+    artikelPosition: [position._id],
+    status: "abgeschlossen",
+    lieferdatum: new Date("2026-03-02"),
+  });
+  await ArtikelPosition.updateOne({ _id: position._id }, { $set: { auftragId: auftrag._id } });
+  return auftrag._id.toString();
+}
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  kundeId = kunde._id.toString();
+});
+
+test("POST /api/beleg/:auftragId/rechnung/finalisieren – sollte 403 ohne Buchhaltungsrolle liefern", async () => {
+  const auftragId = await erstelleAuftrag();
+
+  const res = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${verkauf}`)
+    .send({});
+
+  expect(res.status).toBe(403);
+  expect(await BelegArchiv.countDocuments()).toBe(0);
+});
+
+test("POST /api/beleg/:auftragId/rechnung/finalisieren – sollte lückenlos fortlaufende Nummern vergeben", async () => {
+  const erster = await erstelleAuftrag();
+  const zweiter = await erstelleAuftrag();
+
+  const res1 = await request(app)
+    .post(`/api/beleg/${erster}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(res1.status).toBe(201);
+  expect(res1.body).toHaveProperty("nummer", "RE-2026-00001");
+  expect(res1.body).toHaveProperty("betragNetto", 50);
+
+  // Doppelte Finalisierung wird abgelehnt und verbraucht keine Nummer
+  const doppelt = await request(app)
+    .post(`/api/beleg/${erster}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(doppelt.status).toBe(400);
+
+  const res2 = await request(app)
+    .post(`/api/beleg/${zweiter}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(res2.status).toBe(201);
+  expect(res2.body).toHaveProperty("nummer", "RE-2026-00002");
+
+  const auftrag = await Auftrag.findById(erster).lean();
+  expect(auftrag?.rechnungsNummer).toBe("RE-2026-00001");
+  expect(auftrag?.rechnungFinalisiertAm).toBeDefined();
+});
+
+test("POST /api/beleg/:auftragId/gutschrift/finalisieren – sollte eine finalisierte Rechnung voraussetzen", async () => {
+  const auftragId = await erstelleAuftrag();
+  // Altbestand: Rechnungsnummer ohne Finalisierung
+  await Auftrag.updateOne({ _id: auftragId }, { $set: { rechnungsNummer: "R-ALT-1" } });
+
+  const res = await request(app)
+    .post(`/api/beleg/${auftragId}/gutschrift/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({ betrag: 10 });
+
+  expect(res.status).toBe(400);
+  expect(await BelegArchiv.countDocuments({ typ: "gutschrift" })).toBe(0);
+});
+
+test("POST /api/beleg/:auftragId/gutschrift/finalisieren – sollte eine reine Betragsgutschrift als Zeile archivieren", async () => {
+  const auftragId = await erstelleAuftrag();
+  const rechnung = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(rechnung.status).toBe(201);
+
+  const res = await request(app)
+    .post(`/api/beleg/${auftragId}/gutschrift/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({ betrag: 10 });
+
+  expect(res.status).toBe(201);
+  expect(res.body).toHaveProperty("nummer", `GS-${jahr}-00001`);
+  expect(res.body).toHaveProperty("referenzBelegNummer", rechnung.body.nummer);
+  expect(res.body).toHaveProperty("betragNetto", 10);
+  expect(res.body.positionen).toHaveLength(1);
+});
+
+test("POST /api/beleg/:auftragId/rechnung/storno – sollte nur Buchhaltung erlauben und genau einmal stornieren", async () => {
+  const auftragId = await erstelleAuftrag();
+  const rechnung = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(rechnung.status).toBe(201);
+
+  const verboten = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/storno`)
+    .set("Authorization", `Bearer ${verkauf}`)
+    .send({ grund: "Falscher Preis" });
+  expect(verboten.status).toBe(403);
+
+  const storno = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/storno`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({ grund: "Falscher Preis" });
+  expect(storno.status).toBe(201);
+  expect(storno.body).toHaveProperty("typ", "stornorechnung");
+  expect(storno.body).toHaveProperty("nummer", `SR-${jahr}-00001`);
+  expect(storno.body).toHaveProperty("referenzBelegNummer", rechnung.body.nummer);
+  expect(storno.body).toHaveProperty("betragNetto", -50);
+
+  const nochmal = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/storno`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(nochmal.status).toBe(400);
+});
+
+test("GET /api/beleg/archiv – sollte Kunden keinen Zugriff auf das Belegarchiv geben", async () => {
+  const auftragId = await erstelleAuftrag();
+  const rechnung = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(rechnung.status).toBe(201);
+  const kunde = tokenFuer(["kunde"]);
+
+  const liste = await request(app).get("/api/beleg/archiv").set("Authorization", `Bearer ${kunde}`);
+  expect(liste.status).toBe(403);
+  const pdf = await request(app)
+    .get(`/api/beleg/archiv/${rechnung.body.id}/pdf`)
+    .set("Authorization", `Bearer ${kunde}`);
+  expect(pdf.status).toBe(403);
+
+  const erlaubt = await request(app).get("/api/beleg/archiv").set("Authorization", `Bearer ${buchhaltung}`);
+  expect(erlaubt.status).toBe(200);
+  expect(erlaubt.body).toHaveLength(1);
+});
@@ -0,0 +1,105 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { BestandAggModel } from "../../src/model/BestandsAggModel";
+import { BewegungModel } from "../../src/model/BewegungsModel";
+import { ChargeModel } from "../../src/model/ChargeModel";
+import { bucheKommissionierung } from "../../src/services/inventory/FefoService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const admin = jwt.sign(
+  { id: new Types.ObjectId().toString(), role: ["admin"], exp: Math.floor(Date.now() / 1000) + 3600 },
+  JWT_SECRET
+);
+
+let artikelId: Types.ObjectId;
+
+async function neueCharge(): Promise<Types.ObjectId> {
+  const charge = await ChargeModel.create({ artikelId, mhd: new Date("2099-01-01"), isTK: false });
+  return charge._id;
+}
+
+async function wareneingang(chargeId: Types.ObjectId, menge: number) {
+  await BewegungModel.create({
+    timestamp: new Date(),
+    typ: "WARENEINGANG",
+    artikelId,
+    chargeId,
+    menge,
+    lagerbereich: "NON_TK",
+  });
+}
+
+beforeEach(async () => {
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  artikelId = artikel._id;
+});
+
+test("POST /api/bestand-abgleich/neuaufbau – sollte BestandAgg aus dem Journal wiederherstellen", async () => {
+  const abweichend = await neueCharge();
+  const fehlend = await neueCharge();
+  const verwaist = await neueCharge();
+  await wareneingang(abweichend, 100);
+  await wareneingang(fehlend, 40);
+  await BestandAggModel.create([
+    { artikelId, chargeId: abweichend, lagerbereich: "NON_TK", verfuegbar: 70 },
+    { artikelId, chargeId: verwaist, lagerbereich: "NON_TK", verfuegbar: 15 },
+  ]);
+
+  const pruefung = await request(app).get("/api/bestand-abgleich").set("Authorization", `Bearer ${admin}`);
+  expect(pruefung.status).toBe(200);
+  expect(pruefung.body.differenzen.map((d: any) => d.art).sort()).toEqual(["ABWEICHUNG", "FEHLT", "VERWAIST"]);
+
+  // Standard ist dryRun – nichts wird geändert
+  const trocken = await request(app)
+    .post("/api/bestand-abgleich/neuaufbau")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({});
+  expect(trocken.status).toBe(200);
+  expect(trocken.body.angewendet).toBeUndefined();
+  expect(await BestandAggModel.countDocuments()).toBe(2);
+
+  const res = await request(app)
+    .post("/api/bestand-abgleich/neuaufbau")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ dryRun: false });
+  expect(res.status).toBe(200);
+  expect(res.body.angewendet).toEqual({ aktualisiert: 1, angelegt: 1, geloescht: 1 });
+
+  const aggs = await BestandAggModel.find().lean();
+  const jeCharge = new Map(aggs.map((a) => [String(a.chargeId), a.verfuegbar]));
+  expect(jeCharge.get(String(abweichend))).toBe(100);
+  expect(jeCharge.get(String(fehlend))).toBe(40);
+  expect(jeCharge.has(String(verwaist))).toBe(false);
+
+  const danach = await request(app).get("/api/bestand-abgleich").set("Authorization", `Bearer ${admin}`);
+  expect(danach.body.differenzen).toHaveLength(0);
+});
+
+test("GET /api/bestand-abgleich – sollte nach Kommissionierung keine Differenz zum Journal zeigen", async () => {
+  const chargeId = await neueCharge();
+  await wareneingang(chargeId, 50);
+  await BestandAggModel.create({ artikelId, chargeId, lagerbereich: "NON_TK", verfuegbar: 50 });
+  const position = await ArtikelPosition.create({
+    artikel: artikelId,
+    artikelName: "Hähnchenbrust",
+    menge: 20,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 100,
+    nettogewicht: 20,
+  });
+
+  await bucheKommissionierung(position._id.toString());
+
+  const res = await request(app).get("/api/bestand-abgleich").set("Authorization", `Bearer ${admin}`);
+  expect(res.status).toBe(200);
+  expect(res.body.differenzen).toHaveLength(0);
+  const agg = await BestandAggModel.findOne({ chargeId }).lean();
+  expect(agg?.verfuegbar).toBe(30);
+});
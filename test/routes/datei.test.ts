@@ -0,0 +1,75 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { Kunde } from "../../src/model/KundeModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const PDF = Buffer.from("%PDF-1.4\n% Gewerbeanmeldung\n%%EOF\n");
+
+let kundeId: string;
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  kundeId = kunde._id.toString();
+});
+
+function hochladen(token: string, besitzerId = kundeId) {
+  return request(app)
+    .post("/api/dateien")
+    .set("Authorization", `Bearer ${token}`)
+    .field("besitzerTyp", "kunde")
+    .field("besitzerId", besitzerId)
+    .field("zweck", "gewerbe")
+    .attach("datei", PDF, { filename: "gewerbe.pdf", contentType: "application/pdf" });
+}
+
+test("POST /api/dateien – sollte Kunden nur eigene Dokumente hochladen lassen", async () => {
+  const fremd = await hochladen(tokenFuer(["kunde"]));
+  expect(fremd.status).toBe(403);
+
+  const eigen = await hochladen(tokenFuer(["kunde"], kundeId));
+  expect(eigen.status).toBe(201);
+  expect(eigen.body).toMatchObject({ besitzerTyp: "kunde", besitzerId: kundeId, zweck: "gewerbe", groesse: PDF.length });
+
+  const kunde = await Kunde.findById(kundeId).lean();
+  expect(kunde?.gewerbeDateiUrl).toBe(eigen.body.url);
+});
+
+test("GET /api/dateien/:id – sollte den Zugriff je Besitzer prüfen", async () => {
+  const upload = await hochladen(tokenFuer(["kunde"], kundeId));
+  expect(upload.status).toBe(201);
+  const id = upload.body.id;
+
+  const eigen = await request(app).get(`/api/dateien/${id}`).set("Authorization", `Bearer ${tokenFuer(["kunde"], kundeId)}`);
+  expect(eigen.status).toBe(200);
+  expect(eigen.headers["content-type"]).toContain("application/pdf");
+  expect(eigen.headers["content-length"]).toBe(String(PDF.length));
+
+  const fremd = await request(app).get(`/api/dateien/${id}`).set("Authorization", `Bearer ${tokenFuer(["kunde"])}`);
+  expect(fremd.status).toBe(403);
+
+  // Rollen ohne Bezug zum Besitzer (Fahrer → nur Tour-Stopps)
+  const fahrer = await request(app).get(`/api/dateien/${id}/meta`).set("Authorization", `Bearer ${tokenFuer(["fahrer"])}`);
+  expect(fahrer.status).toBe(403);
+
+  const verkauf = await request(app)
+    .get("/api/dateien")
+    .query({ besitzerTyp: "kunde", besitzerId: kundeId })
+    .set("Authorization", `Bearer ${tokenFuer(["verkauf"])}`);
+  expect(verkauf.status).toBe(200);
+  expect(verkauf.body.map((d: any) => d.id)).toEqual([id]);
+
+  const loeschenFremd = await request(app).delete(`/api/dateien/${id}`).set("Authorization", `Bearer ${tokenFuer(["kunde"])}`);
+  expect(loeschenFremd.status).toBe(403);
+});
@@ -0,0 +1,144 @@
+process.env.JWT_SECRET = "supersecretkey";
+process.env.DATEV_BERATERNUMMER = "1001";
+process.env.DATEV_MANDANTENNUMMER = "20001";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { BelegArchiv } from "../../src/model/BelegArchivModel";
+import { DatevExport } from "../../src/model/DatevExportModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const admin = tokenFuer(["admin"]);
+
+const MUELLER = { id: new Types.ObjectId().toString(), name: "Müller GmbH", kundenNummer: "10001", land: "Deutschland" };
+const WIEN = { id: new Types.ObjectId().toString(), name: "Wiener Feinkost", kundenNummer: "10002", land: "Österreich", ustId: "ATU 12345678" };
+
+let laufnummer = 0;
+
+function beleg(
+  typ: "rechnung" | "gutschrift",
+  nummer: string,
+  datum: string,
+  kunde: Record<string, string>,
+  netto: number,
+  mwstSatz: number,
+  referenzBelegNummer?: string
+) {
+  const mwst = Math.round(netto * mwstSatz) / 100;
+  return BelegArchiv.create({
+    auftrag: new Types.ObjectId(),
+    typ,
+    nummer,
+    jahr: 2026,
+    laufnummer: ++laufnummer,
+    datum: new Date(datum),
+    referenzBelegNummer,
+    kunde,
+    betragNetto: netto,
+    mwstSatz,
+    mwstBetrag: mwst,
+    betragBrutto: netto + mwst,
+    pdf: Buffer.from("%PDF-1.4"),
+    pdfHash: nummer,
+    finalisiertAm: new Date(datum),
+  });
+}
+
+function buchungsstapel(von: string, bis: string) {
+  return request(app).post("/api/datev/buchungsstapel").set("Authorization", `Bearer ${admin}`).send({ von, bis });
+}
+
+/** EXTF-Datei als Windows-1252 herunterladen und in Felder zerlegen */
+async function herunterladen(id: string): Promise<string[][]> {
+  const res = await request(app)
+    .get(`/api/datev/exporte/${id}/datei`)
+    .set("Authorization", `Bearer ${admin}`)
+    .buffer(true)
+    .parse((r, cb) => {
+      const teile: Buffer[] = [];
+      r.on("data", (t: Buffer) => teile.push(t));
+      r.on("end", () => cb(null, Buffer.concat(teile)));
+    });
+  expect(res.status).toBe(200);
+  expect(res.headers["content-type"]).toContain("windows-1252");
+  const text = (res.body as Buffer).toString("latin1");
+  expect(text.endsWith("\r\n")).toBe(true);
+  return text.trimEnd().split("\r\n").map((z) => z.split(";"));
+}
+
+test("POST /api/datev/buchungsstapel – sollte einen EXTF-Buchungsstapel je Beleg mit Debitor und Erlöskonto erstellen", async () => {
+  await beleg("rechnung", "R-2026-0001", "2026-03-05T10:00:00Z", MUELLER, 100, 7);
+  await beleg("gutschrift", "G-2026-0001", "2026-03-06T10:00:00Z", MUELLER, 10, 7, "R-2026-0001");
+  await beleg("rechnung", "R-2026-0002", "2026-03-09T10:00:00Z", WIEN, 250, 0);
+  await beleg("rechnung", "R-2026-0003", "2026-04-01T10:00:00Z", MUELLER, 50, 7);
+
+  const verboten = await request(app)
+    .post("/api/datev/buchungsstapel")
+    .set("Authorization", `Bearer ${tokenFuer(["buchhaltung"])}`)
+    .send({ von: "2026-03-01", bis: "2026-03-31" });
+  expect(verboten.status).toBe(403);
+
+  const res = await buchungsstapel("2026-03-01", "2026-03-31");
+  expect(res.status).toBe(201);
+  expect(res.body).toMatchObject({
+    art: "buchungsstapel",
+    belegNummern: ["R-2026-0001", "G-2026-0001", "R-2026-0002"],
+    anzahlZeilen: 3,
+    dateiname: "EXTF_Buchungsstapel_20260301_20260331.csv",
+  });
+
+  const [kopf, spalten, ...zeilen] = await herunterladen(res.body.id);
+  expect(kopf.slice(0, 5)).toEqual(['"EXTF"', "700", "21", '"Buchungsstapel"', "13"]);
+  // Berater, Mandant, WJ-Beginn, Sachkontenlänge, Zeitraum
+  expect(kopf.slice(10, 16)).toEqual(["1001", "20001", "20260101", "4", "20260301", "20260331"]);
+  expect(spalten[0]).toBe('"Umsatz (ohne Soll/Haben-Kz)"');
+
+  // Umsatz, S/H, Konto, Gegenkonto, Belegdatum (TTMM), Belegfeld 1, Buchungstext, EU-UStID
+  const felder = (z: string[]) => [z[0], z[1], z[6], z[7], z[9], z[10], z[13], z[39]];
+  expect(zeilen.map(felder)).toEqual([
+    ["107,00", '"S"', "10001", "8300", "0503", '"R-2026-0001"', '"Rechnung Müller GmbH"', '""'],
+    ["10,70", '"H"', "10001", "8300", "0603", '"G-2026-0001"', '"Gutschrift zu R-2026-0001 Müller GmbH"', '""'],
+    ["250,00", '"S"', "10002", "8125", "0903", '"R-2026-0002"', '"Rechnung Wiener Feinkost"', '"ATU12345678"'],
+  ]);
+});
+
+test("POST /api/datev/buchungsstapel – sollte bereits exportierte Belege nicht erneut buchen", async () => {
+  await beleg("rechnung", "R-2026-0001", "2026-03-05T10:00:00Z", MUELLER, 100, 7);
+
+  const erster = await buchungsstapel("2026-03-01", "2026-03-31");
+  expect(erster.status).toBe(201);
+
+  const nochmal = await buchungsstapel("2026-03-01", "2026-03-31");
+  expect(nochmal.status).toBe(400);
+  expect(nochmal.body.error).toMatch(/Keine neuen Belege/);
+
+  await beleg("rechnung", "R-2026-0002", "2026-03-20T10:00:00Z", MUELLER, 40, 19);
+  const nachtrag = await buchungsstapel("2026-03-01", "2026-03-31");
+  expect(nachtrag.status).toBe(201);
+  expect(nachtrag.body.belegNummern).toEqual(["R-2026-0002"]);
+
+  const liste = await request(app)
+    .get("/api/datev/exporte")
+    .query({ art: "buchungsstapel" })
+    .set("Authorization", `Bearer ${admin}`);
+  expect(liste.status).toBe(200);
+  expect(liste.body).toHaveLength(2);
+
+  const ungueltig = await request(app).get("/api/datev/exporte").query({ art: "kreditoren" }).set("Authorization", `Bearer ${admin}`);
+  expect(ungueltig.status).toBe(400);
+});
+
+test("POST /api/datev/buchungsstapel – sollte ohne gültige Kundennummer keinen unvollständigen Stapel erstellen", async () => {
+  await beleg("rechnung", "R-2026-0001", "2026-03-05T10:00:00Z", MUELLER, 100, 7);
+  await beleg("rechnung", "R-2026-0002", "2026-03-06T10:00:00Z", { id: new Types.ObjectId().toString(), name: "Barkunde" }, 20, 7);
+
+  const res = await buchungsstapel("2026-03-01", "2026-03-31");
+  expect(res.status).toBe(400);
+  expect(res.body.error).toMatch(/R-2026-0002: Kunde "Barkunde" hat keine gültige Kundennummer/);
+  expect(await DatevExport.countDocuments()).toBe(0);
+});
@@ -0,0 +1,139 @@
+process.env.JWT_SECRET = "supersecretkey";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { BestandAggModel } from "../../src/model/BestandsAggModel";
+import { BewegungModel } from "../../src/model/BewegungsModel";
+import { ChargeModel } from "../../src/model/ChargeModel";
+import { bucheKommissionierung } from "../../src/services/inventory/FefoService";
+import { updateArtikelPositionKommissionierung } from "../../src/services/ArtikelPositionService";
+
+const inTagen = (n: number) => new Date(Date.now() + n * 24 * 60 * 60 * 1000);
+
+let positionId: string;
+let frueh: string;
+let spaet: string;
+let tk: string;
+
+async function verfuegbar(chargeId: string, lagerbereich = "NON_TK"): Promise<number> {
+  const agg = await BestandAggModel.findOne({ chargeId: new Types.ObjectId(chargeId), lagerbereich }).lean();
+  return agg?.verfuegbar ?? 0;
+}
+
+beforeEach(async () => {
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const chargen = await ChargeModel.create([
+    { artikelId: artikel._id, mhd: inTagen(5), isTK: false },
+    { artikelId: artikel._id, mhd: inTagen(10), isTK: false },
+    { artikelId: artikel._id, mhd: inTagen(2), isTK: true },
+  ]);
+  [frueh, spaet, tk] = chargen.map((c) => c._id.toString());
+  await BestandAggModel.create([
+    { artikelId: artikel._id, chargeId: chargen[0]._id, lagerbereich: "NON_TK", verfuegbar: 6, reserviert: 0, unterwegs: 0 },
+    { artikelId: artikel._id, chargeId: chargen[1]._id, lagerbereich: "NON_TK", verfuegbar: 10, reserviert: 0, unterwegs: 0 },
+    { artikelId: artikel._id, chargeId: chargen[2]._id, lagerbereich: "TK", verfuegbar: 20, reserviert: 0, unterwegs: 0 },
+  ]);
+
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 8,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 40,
+    nettogewicht: 8,
+  });
+  positionId = position._id.toString();
+});
+
+test("bucheKommissionierung – sollte nach MHD verteilen und Bestand sowie Journal fortschreiben", async () => {
+  const bewegungen = await bucheKommissionierung(positionId);
+
+  expect(bewegungen.map((b) => [b.chargeId, b.menge])).toEqual([
+    [frueh, -6],
+    [spaet, -2],
+  ]);
+  expect(await verfuegbar(frueh)).toBe(0);
+  expect(await verfuegbar(spaet)).toBe(8);
+  expect(await BewegungModel.countDocuments({ typ: "KOMMISSIONIERUNG" })).toBe(2);
+
+  // Erneutes Buchen ohne Änderung bucht nichts doppelt
+  expect(await bucheKommissionierung(positionId)).toHaveLength(0);
+  expect(await BewegungModel.countDocuments({ typ: "KOMMISSIONIERUNG" })).toBe(2);
+
+  const position = await ArtikelPosition.findById(positionId).lean();
+  expect(position?.chargenEntnahmen?.map((e) => e.menge)).toEqual([6, 2]);
+});
+
+test("bucheKommissionierung – sollte Auswahl über dem verfügbaren Bestand ablehnen", async () => {
+  await expect(
+    bucheKommissionierung(positionId, { entnahmen: [{ chargeId: spaet, menge: 12 }], grund: "Kunde wünscht lange MHD" })
+  ).rejects.toThrow(/verfügbar/);
+
+  expect(await verfuegbar(spaet)).toBe(10);
+  expect(await BewegungModel.countDocuments()).toBe(0);
+});
+
+test("bucheKommissionierung – sollte TK-Chargen außerhalb des Bereichs TK ablehnen", async () => {
+  await expect(bucheKommissionierung(positionId, { entnahmen: [{ chargeId: tk, menge: 8 }] })).rejects.toThrow(
+    /Lagerbereich/
+  );
+
+  expect(await verfuegbar(tk, "TK")).toBe(20);
+  expect(await BewegungModel.countDocuments()).toBe(0);
+});
+
+test("bucheKommissionierung – sollte eine gedeckte Abweichung vom Vorschlag protokollieren", async () => {
+  const bewegungen = await bucheKommissionierung(positionId, {
+    entnahmen: [{ chargeId: spaet, menge: 8 }],
+    grund: "Kunde wünscht lange MHD",
+  });
+
+  expect(bewegungen).toHaveLength(1);
+  expect(await verfuegbar(frueh)).toBe(6);
+  expect(await verfuegbar(spaet)).toBe(2);
+  const position = await ArtikelPosition.findById(positionId).lean();
+  expect(position?.chargenAbweichung?.grund).toBe("Kunde wünscht lange MHD");
+});
+
+async function kommissionierungGestartet() {
+  const auftrag = await Auftrag.create({
+    kunde: new Types.ObjectId(),
+    kundeName: "Testkunde",
+    artikelPosition: [positionId],
+    kommissioniertStatus: "gestartet",
+  });
+  await ArtikelPosition.updateOne({ _id: positionId }, { $set: { auftragId: auftrag._id } });
+}
+
+test("updateArtikelPositionKommissionierung – sollte eine ungültige Auswahl vor dem Speichern ablehnen", async () => {
+  await kommissionierungGestartet();
+  const userId = new Types.ObjectId().toString();
+
+  await expect(
+    updateArtikelPositionKommissionierung(
+      positionId,
+      { bruttogewicht: 12, chargenEntnahmen: [{ chargeId: spaet, menge: 12 }] },
+      userId,
+      true
+    )
+  ).rejects.toThrow(/verfügbar/);
+
+  const position = await ArtikelPosition.findById(positionId).lean();
+  expect(position?.bruttogewicht).toBeUndefined();
+  expect(position?.nettogewicht).toBe(8);
+  expect(await BewegungModel.countDocuments()).toBe(0);
+});
+
+test("updateArtikelPositionKommissionierung – sollte die ungedeckte FEFO-Menge zurückgeben", async () => {
+  await kommissionierungGestartet();
+  const userId = new Types.ObjectId().toString();
+
+  const res = await updateArtikelPositionKommissionierung(positionId, { bruttogewicht: 20 }, userId, true);
+
+  expect(res.nettogewicht).toBe(20);
+  expect(res.chargenFehlmengeKg).toBe(4);
+  expect(res.chargenBuchungFehler).toBeUndefined();
+  expect(res.chargenEntnahmen?.map((e) => e.menge)).toEqual([6, 10]);
+});
@@ -0,0 +1,82 @@
+process.env.JWT_SECRET = "supersecretkey";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { BestandAggModel } from "../../src/model/BestandsAggModel";
+import { BewegungModel } from "../../src/model/BewegungsModel";
+import { ChargeModel } from "../../src/model/ChargeModel";
+import {
+  starteInventur,
+  erfasseZaehlungen,
+  schliesseZaehlung,
+  freigebenInventur,
+} from "../../src/services/inventory/InventurService";
+
+const zaehler = new Types.ObjectId().toString();
+const inSekunden = (n: number) => new Date(Date.now() + n * 1000);
+
+let artikelId: Types.ObjectId;
+let chargeId: Types.ObjectId;
+
+async function verfuegbar(): Promise<number> {
+  const agg = await BestandAggModel.findOne({ chargeId, lagerbereich: "NON_TK" }).lean();
+  return agg?.verfuegbar ?? 0;
+}
+
+/** Entnahme während der Zählung: Journal + materialisierte Sicht wie bei der Kommissionierung */
+async function entnimm(menge: number, timestamp: Date) {
+  await BewegungModel.create({
+    timestamp,
+    typ: "KOMMISSIONIERUNG",
+    artikelId,
+    chargeId,
+    menge: -menge,
+    lagerbereich: "NON_TK",
+  });
+  await BestandAggModel.updateOne({ chargeId, lagerbereich: "NON_TK" }, { $inc: { verfuegbar: -menge } });
+}
+
+beforeEach(async () => {
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const charge = await ChargeModel.create({ artikelId: artikel._id, mhd: new Date("2099-01-01"), isTK: false });
+  artikelId = artikel._id;
+  chargeId = charge._id;
+  await BestandAggModel.create({ artikelId, chargeId, lagerbereich: "NON_TK", verfuegbar: 100 });
+});
+
+async function zaehleUndGibFrei(menge: number, zeitpunkt: Date, entnahmen: { menge: number; am: Date }[]) {
+  const inventur = await starteInventur({ lagerbereich: "NON_TK" });
+  expect(inventur.positionen?.[0]?.sollMenge).toBe(100);
+
+  for (const e of entnahmen) await entnimm(e.menge, e.am);
+  await erfasseZaehlungen(
+    inventur.id,
+    [{ positionId: inventur.positionen![0].id, menge, zeitpunkt: zeitpunkt.toISOString() }],
+    zaehler
+  );
+  await schliesseZaehlung(inventur.id);
+  return freigebenInventur(inventur.id, {});
+}
+
+test("freigebenInventur – sollte Entnahmen vor der Zählung nicht als Differenz buchen", async () => {
+  const res = await zaehleUndGibFrei(90, inSekunden(2), [{ menge: 10, am: inSekunden(1) }]);
+
+  expect(res.status).toBe("GEBUCHT");
+  expect(await BewegungModel.countDocuments({ typ: "INVENTUR_KORREKTUR" })).toBe(0);
+  expect(await verfuegbar()).toBe(90);
+});
+
+test("freigebenInventur – sollte Entnahmen nach der Zählung im Bestand belassen", async () => {
+  // gezählt wurden 100 kg, danach 10 kg kommissioniert → Bestand 90, keine Korrektur
+  await zaehleUndGibFrei(100, inSekunden(1), [{ menge: 10, am: inSekunden(2) }]);
+
+  expect(await BewegungModel.countDocuments({ typ: "INVENTUR_KORREKTUR" })).toBe(0);
+  expect(await verfuegbar()).toBe(90);
+});
+
+test("freigebenInventur – sollte echte Zähldifferenzen genau einmal buchen", async () => {
+  await zaehleUndGibFrei(85, inSekunden(2), [{ menge: 10, am: inSekunden(1) }]);
+
+  const korrekturen = await BewegungModel.find({ typ: "INVENTUR_KORREKTUR" }).lean();
+  expect(korrekturen.map((k) => k.menge)).toEqual([-5]);
+  expect(await verfuegbar()).toBe(85);
+});
@@ -0,0 +1,126 @@
+process.env.JWT_SECRET = "supersecretkey";
+import { Job } from "../../src/model/JobModel";
+import {
+  addJobPayloadItem,
+  processDueJobs,
+  registerJobHandler,
+  removeJobPayloadItem,
+  runJobNow,
+  scheduleJob,
+} from "../../src/services/JobQueueService";
+
+const TYP = "test-job";
+const MINUTE_MS = 60 * 1000;
+
+let aufrufe: any[];
+let fehler: string | undefined;
+
+beforeAll(async () => {
+  // eindeutiger Index "max. 1 wartender Job je typ+key" muss vor parallelen Upserts stehen
+  await Job.init();
+});
+
+beforeEach(() => {
+  aufrufe = [];
+  fehler = undefined;
+  registerJobHandler(TYP, async (payload) => {
+    aufrufe.push(payload);
+    await new Promise((r) => setTimeout(r, 20));
+    if (fehler) throw new Error(fehler);
+  });
+});
+
+test("runJobNow – sollte einen Job auch bei parallelem Aufruf nur einmal ausführen", async () => {
+  await scheduleJob({ typ: TYP, key: "A1", payload: { nr: 1 }, runAt: new Date(Date.now() + 60 * MINUTE_MS) });
+
+  const [a, b] = await Promise.all([runJobNow(TYP, "A1"), runJobNow(TYP, "A1")]);
+
+  expect([a, b].filter((r) => r === null)).toHaveLength(1);
+  expect(aufrufe).toEqual([{ nr: 1 }]);
+  const job = await Job.findOne({ typ: TYP, key: "A1" }).lean();
+  expect(job).toMatchObject({ status: "DONE", attempts: 1 });
+  expect(job?.lockedBy).toBeUndefined();
+});
+
+test("processDueJobs – sollte Fehlversuche mit exponentiellem Backoff wiederholen und dann aufgeben", async () => {
+  fehler = "SMTP nicht erreichbar";
+  const job = await scheduleJob({ typ: TYP, key: "A2", payload: {}, maxAttempts: 3 });
+
+  const faellig = () => Job.updateOne({ _id: job.id }, { $set: { runAt: new Date(Date.now() - 1000) } });
+  const wartezeit = async () => {
+    const doc = await Job.findById(job.id).lean();
+    return doc!.runAt.getTime() - Date.now();
+  };
+
+  expect(await processDueJobs()).toBe(1);
+  let doc = await Job.findById(job.id).lean();
+  expect(doc).toMatchObject({ status: "PENDING", attempts: 1, lastError: "SMTP nicht erreichbar" });
+  expect(await wartezeit()).toBeGreaterThan(0.9 * MINUTE_MS);
+  expect(await wartezeit()).toBeLessThanOrEqual(MINUTE_MS);
+
+  // noch nicht fällig → nichts zu tun
+  expect(await processDueJobs()).toBe(0);
+
+  await faellig();
+  await processDueJobs();
+  expect(await wartezeit()).toBeGreaterThan(1.9 * MINUTE_MS);
+  expect(await wartezeit()).toBeLessThanOrEqual(2 * MINUTE_MS);
+
+  await faellig();
+  await processDueJobs();
+  doc = await Job.findById(job.id).lean();
+  expect(doc).toMatchObject({ status: "FAILED", attempts: 3 });
+  expect(aufrufe).toHaveLength(3);
+});
+
+test("processDueJobs – sollte Jobs mit abgelaufenem Lock übernehmen bzw. als FAILED abschließen", async () => {
+  const vorbei = new Date(Date.now() - 1000);
+  const [verwaist, erschoepft] = await Job.create([
+    { typ: TYP, key: "A3", payload: { nr: 3 }, status: "RUNNING", runAt: vorbei, attempts: 1, maxAttempts: 3, lockedBy: "alt:1", lockedUntil: vorbei },
+    { typ: TYP, key: "A4", payload: { nr: 4 }, status: "RUNNING", runAt: vorbei, attempts: 3, maxAttempts: 3, lockedBy: "alt:1", lockedUntil: vorbei },
+  ]);
+  // noch gültiger Lock eines anderen Prozesses bleibt unberührt
+  const gesperrt = await Job.create({
+    typ: TYP,
+    key: "A5",
+    status: "RUNNING",
+    runAt: vorbei,
+    attempts: 1,
+    maxAttempts: 3,
+    lockedBy: "anderer:2",
+    lockedUntil: new Date(Date.now() + 60 * 1000),
+  });
+
+  expect(await processDueJobs()).toBe(1);
+
+  expect(aufrufe).toEqual([{ nr: 3 }]);
+  expect(await Job.findById(verwaist._id).lean()).toMatchObject({ status: "DONE", attempts: 2 });
+  expect(await Job.findById(erschoepft._id).lean()).toMatchObject({ status: "FAILED", attempts: 3 });
+  expect(await Job.findById(gesperrt._id).lean()).toMatchObject({ status: "RUNNING", lockedBy: "anderer:2" });
+});
+
+test("addJobPayloadItem – sollte parallele Einträge in einem wartenden Job sammeln", async () => {
+  const item = (positionId: string, menge: number) => ({
+    typ: TYP,
+    key: "A6",
+    liste: "positionen",
+    idFeld: "positionId",
+    item: { positionId, menge },
+    payload: { auftragId: "A6" },
+  });
+
+  await Promise.all([addJobPayloadItem(item("p1", 1)), addJobPayloadItem(item("p2", 2))]);
+  await addJobPayloadItem(item("p1", 5));
+
+  const jobs = await Job.find({ typ: TYP, key: "A6" }).lean();
+  expect(jobs).toHaveLength(1);
+  expect(jobs[0].payload.auftragId).toBe("A6");
+  expect(jobs[0].payload.positionen.map((p: any) => [p.positionId, p.menge]).sort()).toEqual([
+    ["p1", 5],
+    ["p2", 2],
+  ]);
+
+  expect(await removeJobPayloadItem(TYP, "A6", "positionen", "positionId", "p1")).toBe(false);
+  expect(await removeJobPayloadItem(TYP, "A6", "positionen", "positionId", "p2")).toBe(true);
+  expect((await Job.findById(jobs[0]._id).lean())?.status).toBe("CANCELLED");
+});
@@ -0,0 +1,115 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { Kunde } from "../../src/model/KundeModel";
+import { OffenerPosten } from "../../src/model/OffenerPostenModel";
+import { createImport } from "../../src/services/OffenePostenService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const admin = tokenFuer(["admin"]);
+
+async function kunde(name: string, kundenNummer: string) {
+  const k = await Kunde.create({
+    name,
+    kundenNummer,
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  return k._id.toString();
+}
+
+const posten = (kontonr: string, name: string, reNr: string, betrag: number) => ({
+  kontonr,
+  kunde: name,
+  buchNr: reNr,
+  datum: "2026-01-10",
+  reNr,
+  betrag,
+  stufe: "0",
+});
+
+async function zuordnung(kontonr: string) {
+  const p = await OffenerPosten.findOne({ kontonr }).lean();
+  return [p?.kundeRef?.toString(), p?.kundeZuordnung];
+}
+
+let mueller: string;
+let schmidt: string;
+let wagnerNord: string;
+let wagnerSued: string;
+
+beforeEach(async () => {
+  mueller = await kunde("Müller GmbH", "10001");
+  // Kundennummern ohne Bezug zu den Kontonummern des Exports
+  schmidt = await kunde("Bäckerei Schmidt", "30001");
+  wagnerNord = await kunde("Fleischerei Wagner Nord", "30002");
+  wagnerSued = await kunde("Fleischerei Wagner Süd", "30003");
+
+  await createImport({
+    berichtsDatum: "2026-01-31",
+    dateiname: "op.csv",
+    posten: [
+      posten("0010001", "Mueller", "R1", 100),
+      posten("20001", "Baeckerei Schmidt GmbH & Co. KG", "R2", 200),
+      posten("20002", "Fleischerei Wagner", "R3", 300),
+      posten("20003", "Unbekannt AG", "R4", 50),
+    ],
+  });
+});
+
+test("createImport – sollte über Kundennummer und eindeutige Namensähnlichkeit zuordnen", async () => {
+  // führende Nullen der Kontonummer werden ignoriert
+  expect(await zuordnung("0010001")).toEqual([mueller, "kundennummer"]);
+  // Rechtsform und Umlautschreibweise spielen keine Rolle
+  expect(await zuordnung("20001")).toEqual([schmidt, "name"]);
+  // zwei ähnlich gute Treffer → keine automatische Zuordnung
+  expect(await zuordnung("20002")).toEqual([undefined, undefined]);
+  expect(await zuordnung("20003")).toEqual([undefined, undefined]);
+});
+
+test("GET /api/kunden-zuordnung/offen – sollte offene Kontonummern mit Namensvorschlägen liefern", async () => {
+  const res = await request(app)
+    .get("/api/kunden-zuordnung/offen")
+    .query({ quelle: "offene_posten" })
+    .set("Authorization", `Bearer ${admin}`);
+
+  expect(res.status).toBe(200);
+  expect(res.body.map((r: any) => [r.externeNr, r.summe])).toEqual([
+    ["20002", 300],
+    ["20003", 50],
+  ]);
+  const [wagner, unbekannt] = res.body;
+  expect(wagner.vorschlaege.map((v: any) => v.kundeId).sort()).toEqual([wagnerNord, wagnerSued].sort());
+  expect(wagner.vorschlaege[0].score).toBeGreaterThanOrEqual(0.85);
+  expect(unbekannt.vorschlaege).toEqual([]);
+});
+
+test("PUT/DELETE /api/kunden-zuordnung/:quelle/:externeNr – sollte manuell zuordnen und die Zuordnung wieder aufheben", async () => {
+  const setzen = await request(app)
+    .put("/api/kunden-zuordnung/offene_posten/20002")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ kundeId: wagnerNord });
+  expect(setzen.status).toBe(204);
+  expect(await zuordnung("20002")).toEqual([wagnerNord, "manuell"]);
+
+  const lauf = await request(app)
+    .post("/api/kunden-zuordnung/lauf")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ quelle: "offene_posten" });
+  expect(lauf.status).toBe(200);
+  expect(lauf.body).toMatchObject({ zugeordnet: 3, offen: 1 });
+  expect(await zuordnung("20002")).toEqual([wagnerNord, "manuell"]);
+
+  const aufheben = await request(app)
+    .delete("/api/kunden-zuordnung/offene_posten/20002")
+    .set("Authorization", `Bearer ${admin}`);
+  expect(aufheben.status).toBe(204);
+  expect(await zuordnung("20002")).toEqual([undefined, undefined]);
+});
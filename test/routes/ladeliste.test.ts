@@ -0,0 +1,91 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { ChargeModel } from "../../src/model/ChargeModel";
+import { Tour } from "../../src/model/TourModel";
+import { TourStop } from "../../src/model/TourStopModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+let tourId: string;
+
+async function stop(position: number, kundeName: string, gewichtKg: number, artikelPosition: Types.ObjectId[] = []) {
+  const kunde = new Types.ObjectId();
+  const auftrag = await Auftrag.create({ kunde, kundeName, artikelPosition, status: "offen" });
+  await TourStop.create({ tourId, auftragId: auftrag._id, kundeId: kunde, kundeName, position, gewichtKg });
+  return auftrag._id.toString();
+}
+
+beforeEach(async () => {
+  const tour = await Tour.create({ datum: new Date("2026-03-02"), region: "berlin", maxGewichtKg: 500 });
+  tourId = tour._id.toString();
+});
+
+test("GET /api/tour/:id/ladeliste – sollte umgekehrt zur Lieferreihenfolge laden und das Gewicht prüfen", async () => {
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const tk = await ChargeModel.create({ artikelId: artikel._id, mhd: new Date("2099-01-01"), isTK: true });
+  const tkPosition = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 80,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 400,
+    nettogewicht: 80,
+    chargennummern: [tk._id.toString()],
+  });
+
+  const erster = await stop(1, "Erster Kunde", 200, [tkPosition._id]);
+  const zweiter = await stop(2, "Zweiter Kunde", 150);
+  const dritter = await stop(3, "Dritter Kunde", 200);
+
+  const res = await request(app)
+    .get(`/api/tour/${tourId}/ladeliste`)
+    .set("Authorization", `Bearer ${tokenFuer(["lager"])}`);
+
+  expect(res.status).toBe(200);
+  // letzter Stop zuerst auf den Wagen
+  expect(res.body.positionen.map((p: any) => [p.auftragId, p.ladeReihenfolge])).toEqual([
+    [dritter, 1],
+    [zweiter, 2],
+    [erster, 3],
+  ]);
+  expect(res.body).toMatchObject({
+    gesamtGewichtKg: 550,
+    maxGewichtKg: 500,
+    auslastungProzent: 110,
+    ueberladen: true,
+    tkGewichtKg: 80,
+    nonTkGewichtKg: 470,
+    offen: 3,
+  });
+});
+
+test("GET /api/tour/:id/ladeliste – sollte ohne Überladung nicht warnen und Kunden sperren", async () => {
+  await stop(1, "Erster Kunde", 200);
+  await stop(2, "Zweiter Kunde", 300);
+
+  const res = await request(app)
+    .get(`/api/tour/${tourId}/ladeliste`)
+    .set("Authorization", `Bearer ${tokenFuer(["fahrer"])}`);
+  expect(res.status).toBe(200);
+  expect(res.body).toMatchObject({ gesamtGewichtKg: 500, auslastungProzent: 100, ueberladen: false });
+
+  const kunde = await request(app)
+    .get(`/api/tour/${tourId}/ladeliste`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"])}`);
+  expect(kunde.status).toBe(403);
+
+  const pdf = await request(app)
+    .get(`/api/tour/${tourId}/ladeliste/pdf`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"])}`);
+  expect(pdf.status).toBe(403);
+});
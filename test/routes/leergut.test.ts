@@ -0,0 +1,100 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { Kunde } from "../../src/model/KundeModel";
+import { LeergutKontoBuchung } from "../../src/model/LeergutKontoBuchungModel";
+import { synchronisiereAuftrag } from "../../src/services/LeergutKontoService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const buchhaltung = tokenFuer(["buchhaltung"]);
+const verkauf = tokenFuer(["verkauf"]);
+
+let kundeId: string;
+let auftragId: string;
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  kundeId = kunde._id.toString();
+
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 10,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 50,
+    leergut: [{ leergutArt: "e2", leergutAnzahl: 4, leergutGewicht: 8 }],
+  });
+  const auftrag = await Auftrag.create({
+    kunde: kunde._id,
+    kundeName: "Testkunde",
+    artikelPosition: [position._id],
+    status: "abgeschlossen",
+    lieferdatum: new Date("2026-03-02"),
+  });
+  auftragId = auftrag._id.toString();
+});
+
+test("synchronisiereAuftrag – sollte die Lieferung auch bei parallelem Abgleich nur einmal buchen", async () => {
+  await Promise.all([synchronisiereAuftrag(auftragId), synchronisiereAuftrag(auftragId)]);
+  await synchronisiereAuftrag(auftragId);
+
+  const buchungen = await LeergutKontoBuchung.find({ auftrag: auftragId }).lean();
+  expect(buchungen).toHaveLength(1);
+  expect(buchungen[0]).toMatchObject({ art: "lieferung", leergutArt: "e2", menge: 4 });
+
+  // Änderung am Auftrag → genau eine Nachbuchung über die Differenz
+  await ArtikelPosition.updateMany({}, { $set: { "leergut.0.leergutAnzahl": 6 } });
+  await Promise.all([synchronisiereAuftrag(auftragId), synchronisiereAuftrag(auftragId)]);
+
+  const nachher = await LeergutKontoBuchung.find({ auftrag: auftragId }).sort({ folgeNr: 1 }).lean();
+  expect(nachher.map((b) => b.menge)).toEqual([4, 2]);
+});
+
+test("POST /api/leergut/konto/korrektur – sollte nur der Buchhaltung erlaubt sein", async () => {
+  const daten = { kundeId, leergutArt: "e2", menge: -2, bemerkung: "Zählfehler" };
+
+  const verboten = await request(app)
+    .post("/api/leergut/konto/korrektur")
+    .set("Authorization", `Bearer ${verkauf}`)
+    .send(daten);
+  expect(verboten.status).toBe(403);
+
+  const res = await request(app)
+    .post("/api/leergut/konto/korrektur")
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send(daten);
+  expect(res.status).toBe(201);
+  expect(res.body).toMatchObject({ art: "korrektur", menge: -2, kundeId });
+  expect(await LeergutKontoBuchung.countDocuments({ art: "korrektur" })).toBe(1);
+});
+
+test("GET /api/leergut/konto/:kundeId/saldo – sollte Kunden nur das eigene Konto zeigen", async () => {
+  await synchronisiereAuftrag(auftragId);
+
+  const fremd = await request(app)
+    .get(`/api/leergut/konto/${kundeId}/saldo`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"])}`);
+  expect(fremd.status).toBe(403);
+
+  const eigen = await request(app)
+    .get(`/api/leergut/konto/${kundeId}/saldo`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"], kundeId)}`);
+  expect(eigen.status).toBe(200);
+  expect(eigen.body).toEqual([expect.objectContaining({ leergutArt: "e2", saldo: 4 })]);
+});
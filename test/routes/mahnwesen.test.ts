@@ -0,0 +1,90 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { Kunde } from "../../src/model/KundeModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const admin = tokenFuer(["admin"]);
+
+async function kunde(name: string, kundenNummer: string) {
+  const k = await Kunde.create({
+    name,
+    kundenNummer,
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  return k._id;
+}
+
+function rechnung(kundeId: Types.ObjectId, rechnungsNummer: string, finalisiertAm: string, offenBetrag: number, mahnstufe?: number) {
+  return Auftrag.create({
+    kunde: kundeId,
+    status: "abgeschlossen",
+    rechnungsNummer,
+    rechnungFinalisiertAm: new Date(finalisiertAm),
+    zahlstatus: "offen",
+    offenBetrag,
+    mahnstufe,
+  });
+}
+
+function lauf(stichtag: string, token = admin) {
+  return request(app)
+    .post("/api/mahnwesen/lauf")
+    .set("Authorization", `Bearer ${token}`)
+    .send({ quelle: "rechnungen", stichtag });
+}
+
+// Standardstufen: 1 ab 7 Tagen, 2 ab 21 Tagen (5 € Gebühr), 3 ab 35 Tagen; Zahlungsziel 14 Tage
+test("POST /api/mahnwesen/lauf – sollte je Posten die nächste Stufe wählen und je Kunde zusammenfassen", async () => {
+  const mueller = await kunde("Müller GmbH", "10001");
+  const schmidt = await kunde("Schmidt KG", "10002");
+  await rechnung(mueller, "R-2026-0001", "2026-03-10", 100);
+  await rechnung(mueller, "R-2026-0002", "2026-02-10", 200, 1);
+  await rechnung(schmidt, "R-2026-0003", "2026-03-20", 300);
+
+  expect((await lauf("2026-03-31", tokenFuer(["buchhaltung"]))).status).toBe(403);
+
+  const res = await lauf("2026-03-31");
+  expect(res.status).toBe(201);
+  expect(res.body).toHaveLength(1);
+  // 35 Tage überfällig, aber erst Stufe 1 gemahnt → Stufe 2, keine Stufe wird übersprungen
+  expect(res.body[0]).toMatchObject({ kundeName: "Müller GmbH", stufe: 2, summe: 300, gebuehr: 5, gesamt: 305 });
+  expect(res.body[0].posten.map((p: any) => [p.reNr, p.tageUeberfaellig, p.stufe])).toEqual([
+    ["R-2026-0002", 35, 2],
+    ["R-2026-0001", 7, 1],
+  ]);
+});
+
+test("POST /api/mahnwesen/lauf – sollte die nächste Stufe erst nach Ablauf der Zahlungsfrist vorschlagen", async () => {
+  const mueller = await kunde("Müller GmbH", "10001");
+  const auftrag = await rechnung(mueller, "R-2026-0004", "2026-02-20", 150);
+
+  const erster = await lauf("2026-03-31");
+  expect(erster.status).toBe(201);
+  expect(erster.body).toEqual([expect.objectContaining({ stufe: 1 })]);
+  expect(erster.body[0].zahlungsfrist.slice(0, 10)).toBe("2026-04-07");
+
+  const erstellt = await request(app)
+    .post(`/api/mahnwesen/mahnungen/${erster.body[0].id}/erstellen`)
+    .set("Authorization", `Bearer ${admin}`);
+  expect(erstellt.status).toBe(200);
+  expect((await Auftrag.findById(auftrag._id).lean())?.mahnstufe).toBe(1);
+
+  // 30 Tage überfällig, Zahlungsfrist läuft aber noch
+  const innerhalbFrist = await lauf("2026-04-05");
+  expect(innerhalbFrist.status).toBe(201);
+  expect(innerhalbFrist.body).toEqual([]);
+
+  const nachFrist = await lauf("2026-04-08");
+  expect(nachFrist.status).toBe(201);
+  expect(nachFrist.body).toEqual([expect.objectContaining({ stufe: 2, gebuehr: 5, gesamt: 155 })]);
+});
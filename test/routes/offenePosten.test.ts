@@ -0,0 +1,136 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { OffenerPosten } from "../../src/model/OffenerPostenModel";
+import { parseOffenePostenDatei } from "../../src/services/OffenePostenParser";
+import { createImport } from "../../src/services/OffenePostenService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const buchhaltung = tokenFuer(["buchhaltung"]);
+
+// Export mit Titelzeilen, eigener Spaltenreihenfolge, Zeilenfehler und Summenzeile
+const CSV = [
+  "OP-Liste Debitoren;;;;",
+  "Stand: 31.01.2026;;;;",
+  "Kundenname;Konto;Offener Betrag;Belegdatum;Rechnungsnummer",
+  "Müller GmbH;10001;1.234,56;15.01.2026;R-2026-0001",
+  "Schmidt KG;10002;100,00;xx;R-2026-0002",
+  "Meier;10003;50,00-;20.01.2026;R-2026-0003",
+  "Summe;;1.184,56;;",
+].join("\r\n");
+
+function hochladen(token: string, felder: Record<string, string> = {}) {
+  const req = request(app).post("/api/offene-posten/imports/datei").set("Authorization", `Bearer ${token}`);
+  for (const [k, v] of Object.entries(felder)) req.field(k, v);
+  return req.attach("datei", Buffer.from(CSV, "utf8"), { filename: "op.csv", contentType: "text/csv" });
+}
+
+test("parseOffenePostenDatei – sollte Spalten über die Kopfzeile erkennen und Fehler je Zeile sammeln", async () => {
+  const datei = await parseOffenePostenDatei("op.csv", Buffer.from(CSV, "utf8"));
+
+  expect(datei.spalten).toEqual({
+    kontonr: "Konto",
+    kunde: "Kundenname",
+    datum: "Belegdatum",
+    reNr: "Rechnungsnummer",
+    betrag: "Offener Betrag",
+  });
+  expect(datei.berichtsDatum.toISOString().slice(0, 10)).toBe("2026-01-31");
+  expect(datei.posten.map((p) => [p.kontonr, p.reNr, p.betrag, p.tageOffen])).toEqual([
+    ["10001", "R-2026-0001", 1234.56, 16],
+    ["10003", "R-2026-0003", -50, 11],
+  ]);
+  expect(datei.fehler).toEqual([{ zeile: 5, meldungen: ['Ungültiges Datum "xx"'] }]);
+});
+
+test("parseOffenePostenDatei – sollte ein unbekanntes Spaltenlayout ablehnen", async () => {
+  await expect(parseOffenePostenDatei("op.csv", Buffer.from("A;B;C\r\n1;2;3", "utf8"))).rejects.toThrow(
+    /Spaltenlayout nicht erkannt/
+  );
+});
+
+test("POST /api/offene-posten/imports/datei – sollte nur der Buchhaltung erlaubt sein", async () => {
+  const res = await hochladen(tokenFuer(["verkauf"]), { nurPruefen: "true" });
+  expect(res.status).toBe(403);
+});
+
+test("POST /api/offene-posten/imports/datei – sollte mit Zeilenfehlern nur auf Wunsch importieren", async () => {
+  const pruefung = await hochladen(buchhaltung, { nurPruefen: "true" });
+  expect(pruefung.status).toBe(200);
+  expect(pruefung.body).toMatchObject({ dateiname: "op.csv", anzahlPosten: 2, gesamtBetrag: 1184.56 });
+  expect(pruefung.body.import).toBeUndefined();
+
+  const abgelehnt = await hochladen(buchhaltung, { nurPruefen: "false" });
+  expect(abgelehnt.status).toBe(422);
+  expect(abgelehnt.body.fehler).toHaveLength(1);
+  expect(await OffenerPosten.countDocuments()).toBe(0);
+
+  const importiert = await hochladen(buchhaltung, { fehlerhafteUeberspringen: "true" });
+  expect(importiert.status).toBe(201);
+  expect(importiert.body.import).toMatchObject({ dateiname: "op.csv", anzahlPosten: 2 });
+  expect(await OffenerPosten.countDocuments()).toBe(2);
+});
+
+const posten = (kontonr: string, kunde: string, reNr: string, datum: string, betrag: number) => ({
+  kontonr,
+  kunde,
+  buchNr: reNr,
+  datum,
+  reNr,
+  betrag,
+  stufe: "0",
+});
+
+test("GET /api/offene-posten/vergleich – sollte neue, bezahlte und offene Posten je Kunde liefern", async () => {
+  const januar = await createImport({
+    berichtsDatum: "2026-01-31",
+    dateiname: "op-januar.csv",
+    posten: [
+      posten("10001", "Müller GmbH", "R1", "2026-01-05", 100),
+      posten("10001", "Müller GmbH", "R2", "2026-01-10", 50),
+      posten("10002", "Schmidt KG", "R3", "2026-01-20", 200),
+    ],
+  });
+  const februar = await createImport({
+    berichtsDatum: "2026-02-28",
+    dateiname: "op-februar.csv",
+    posten: [
+      posten("10001", "Müller GmbH", "R2", "2026-01-10", 50),
+      posten("10001", "Müller GmbH", "R4", "2026-02-15", 300),
+    ],
+  });
+
+  const verboten = await request(app)
+    .get("/api/offene-posten/vergleich")
+    .set("Authorization", `Bearer ${tokenFuer(["verkauf"])}`);
+  expect(verboten.status).toBe(403);
+
+  const res = await request(app)
+    .get("/api/offene-posten/vergleich")
+    .query({ vonImportId: januar.id, bisImportId: februar.id })
+    .set("Authorization", `Bearer ${buchhaltung}`);
+
+  expect(res.status).toBe(200);
+  expect(res.body).toMatchObject({ summeAlt: 350, summeNeu: 350, summeNeuEroeffnet: 300, summeBezahlt: 300 });
+  const [mueller, schmidt] = res.body.kunden;
+  expect(mueller).toMatchObject({ kontonr: "10001", summeAlt: 150, summeNeu: 350, differenz: 200, tendenz: "schlechter" });
+  expect(mueller.neu.map((p: any) => p.reNr)).toEqual(["R4"]);
+  expect(mueller.bezahlt.map((p: any) => p.reNr)).toEqual(["R1"]);
+  expect(mueller.offen).toEqual([expect.objectContaining({ reNr: "R2", tageOffenAlt: 21, tageOffenNeu: 49, deltaTage: 28 })]);
+  expect(schmidt).toMatchObject({ kontonr: "10002", summeNeu: 0, differenz: -200, tendenz: "besser" });
+  expect(schmidt.bezahlt.map((p: any) => p.reNr)).toEqual(["R3"]);
+});
+
+test("GET /api/offene-posten/verlauf – sollte nur der Buchhaltung erlaubt sein", async () => {
+  const verboten = await request(app).get("/api/offene-posten/verlauf").set("Authorization", `Bearer ${tokenFuer(["verkauf"])}`);
+  expect(verboten.status).toBe(403);
+
+  const res = await request(app).get("/api/offene-posten/verlauf").set("Authorization", `Bearer ${buchhaltung}`);
+  expect(res.status).toBe(200);
+});
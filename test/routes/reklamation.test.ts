@@ -0,0 +1,125 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { BestandAggModel } from "../../src/model/BestandsAggModel";
+import { BewegungModel } from "../../src/model/BewegungsModel";
+import { ChargeModel } from "../../src/model/ChargeModel";
+import { Lieferant } from "../../src/model/LieferantModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const wareneingang = tokenFuer(["wareneingang"]);
+
+let lieferantId: string;
+let artikelId: Types.ObjectId;
+let chargeId: string;
+
+beforeEach(async () => {
+  const lieferant = await Lieferant.create({ name: "Geflügelhof Schulz" });
+  lieferantId = lieferant._id.toString();
+  artikelId = new Types.ObjectId();
+  const charge = await ChargeModel.create({
+    artikelId,
+    artikelName: "Hähnchenbrust",
+    lieferantId: lieferant._id,
+    mhd: new Date("2099-01-01"),
+    isTK: false,
+  });
+  chargeId = charge._id.toString();
+  await BewegungModel.create({
+    timestamp: new Date(),
+    typ: "WARENEINGANG",
+    artikelId,
+    chargeId: charge._id,
+    menge: 100,
+    lagerbereich: "NON_TK",
+  });
+});
+
+function reklamieren(menge: number, token = wareneingang, extra: Record<string, unknown> = {}) {
+  return request(app)
+    .post("/api/reklamationen")
+    .set("Authorization", `Bearer ${token}`)
+    .send({ chargeId, kategorie: "TEMPERATUR", menge, beschreibung: "Kerntemperatur 9 °C", ...extra });
+}
+
+function zuruecksenden(id: string, body: Record<string, unknown> = {}) {
+  return request(app).post(`/api/reklamationen/${id}/ruecksendung`).set("Authorization", `Bearer ${wareneingang}`).send(body);
+}
+
+test("POST /api/reklamationen/:id/ruecksendung – sollte Bestand abbuchen und die Reklamation abschließen lassen", async () => {
+  await BestandAggModel.create({ artikelId, chargeId, lagerbereich: "NON_TK", verfuegbar: 30 });
+
+  expect((await reklamieren(10, tokenFuer(["verkauf"]))).status).toBe(403);
+  const fremd = await reklamieren(10, wareneingang, { lieferantId: new Types.ObjectId().toString() });
+  expect(fremd.status).toBe(400);
+  expect(fremd.body.error).toMatch(/anderen Lieferanten/);
+
+  const rek = await reklamieren(10);
+  expect(rek.status).toBe(201);
+  expect(rek.body).toMatchObject({ lieferantId, lieferantName: "Geflügelhof Schulz", chargeId, menge: 10, status: "OFFEN" });
+  expect(rek.body.nummer).toMatch(/^REK-\d{4}-0001$/);
+
+  const zuViel = await zuruecksenden(rek.body.id, { menge: 12 });
+  expect(zuViel.status).toBe(400);
+  expect(zuViel.body.error).toMatch(/beanstandete Gewicht \(10 kg\)/);
+
+  const zurueck = await zuruecksenden(rek.body.id, { menge: 6, notiz: "Abholung durch Spedition" });
+  expect(zurueck.status).toBe(200);
+  expect(zurueck.body).toMatchObject({ status: "ZURUECKGESENDET", ruecksendung: { menge: 6, lagerbereich: "NON_TK" } });
+
+  const bewegung = await BewegungModel.findById(zurueck.body.ruecksendung.bewegungId).lean();
+  expect(bewegung).toMatchObject({ typ: "RUECKLIEFERUNG_LIEFERANT", menge: -6, lagerbereich: "NON_TK" });
+  expect(bewegung?.notiz).toContain(rek.body.nummer);
+  const agg = await BestandAggModel.findOne({ chargeId: new Types.ObjectId(chargeId) }).lean();
+  expect(agg?.verfuegbar).toBe(24);
+
+  expect((await zuruecksenden(rek.body.id)).status).toBe(400);
+
+  const abschliessen = () =>
+    request(app)
+      .post(`/api/reklamationen/${rek.body.id}/abschliessen`)
+      .set("Authorization", `Bearer ${wareneingang}`)
+      .send({ status: "ANERKANNT", ergebnis: "Gutschrift angekündigt" });
+  const anerkannt = await abschliessen();
+  expect(anerkannt.status).toBe(200);
+  expect(anerkannt.body).toMatchObject({ status: "ANERKANNT", ergebnis: "Gutschrift angekündigt" });
+  expect((await abschliessen()).body.error).toMatch(/bereits abgeschlossen/);
+
+  const quote = await request(app).get("/api/reklamationen/quote").set("Authorization", `Bearer ${tokenFuer(["admin"])}`);
+  expect(quote.status).toBe(200);
+  expect(quote.body).toEqual([
+    expect.objectContaining({
+      lieferantId,
+      gelieferteChargen: 1,
+      geliefertKg: 100,
+      reklamationen: 1,
+      reklamiertKg: 10,
+      zurueckgesendetKg: 6,
+      quoteKg: 10,
+      kategorien: { TEMPERATUR: 1 },
+    }),
+  ]);
+});
+
+test("POST /api/reklamationen/:id/ruecksendung – sollte nicht mehr als den verfügbaren Bestand zurücksenden", async () => {
+  await BestandAggModel.create({ artikelId, chargeId, lagerbereich: "NON_TK", verfuegbar: 4 });
+  const rek = await reklamieren(10);
+  expect(rek.status).toBe(201);
+
+  const res = await zuruecksenden(rek.body.id);
+  expect(res.status).toBe(400);
+  expect(res.body.error).toMatch(/nur 4 kg verfügbar/);
+
+  expect(await BewegungModel.countDocuments({ typ: "RUECKLIEFERUNG_LIEFERANT" })).toBe(0);
+  const agg = await BestandAggModel.findOne({ chargeId: new Types.ObjectId(chargeId) }).lean();
+  expect(agg?.verfuegbar).toBe(4);
+
+  const offen = await request(app).get(`/api/reklamationen/${rek.body.id}`).set("Authorization", `Bearer ${wareneingang}`);
+  expect(offen.body).toMatchObject({ status: "OFFEN", fotos: [] });
+});
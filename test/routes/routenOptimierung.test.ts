@@ -0,0 +1,117 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { Kunde } from "../../src/model/KundeModel";
+import { Tour } from "../../src/model/TourModel";
+import { TourStop } from "../../src/model/TourStopModel";
+import { parseLieferzeit } from "../../src/services/RoutenOptimierungService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const admin = tokenFuer(["admin"]);
+
+// Depot und Stops auf einer Linie nach Osten, je 0,1° Länge ≈ 8,8 km Straße
+const DEPOT = { depotLat: 52.5, depotLng: 13.4 };
+
+let tourId: string;
+let kundenNr = 10000;
+
+async function stop(position: number, name: string, lng?: number, opts: { lieferzeit?: string; status?: string } = {}) {
+  const kunde = await Kunde.create({
+    name,
+    kundenNummer: String(++kundenNr),
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+    lat: lng === undefined ? undefined : 52.5,
+    lng,
+    lieferzeit: opts.lieferzeit,
+  });
+  const s = await TourStop.create({
+    tourId,
+    auftragId: new Types.ObjectId(),
+    kundeId: kunde._id,
+    kundeName: name,
+    position,
+    status: opts.status ?? "offen",
+  });
+  return s._id.toString();
+}
+
+function optimieren(token: string, body: Record<string, unknown> = {}) {
+  return request(app)
+    .post(`/api/tour/${tourId}/optimieren`)
+    .set("Authorization", `Bearer ${token}`)
+    .send({ ...DEPOT, startZeit: "06:00", rueckfahrt: false, ...body });
+}
+
+beforeEach(async () => {
+  const tour = await Tour.create({ datum: new Date("2026-03-02"), region: "berlin", maxGewichtKg: 500 });
+  tourId = tour._id.toString();
+});
+
+test("parseLieferzeit – sollte Zeitfenster aus dem Freitext erkennen", () => {
+  expect(parseLieferzeit("08:00-12:00")).toEqual({ von: 480, bis: 720 });
+  expect(parseLieferzeit("8 - 12 Uhr")).toEqual({ von: 480, bis: 720 });
+  expect(parseLieferzeit("7.30 bis 9")).toEqual({ von: 450, bis: 540 });
+  expect(parseLieferzeit("bis 10 Uhr")).toEqual({ bis: 600 });
+  expect(parseLieferzeit("Ab 14:30")).toEqual({ von: 870 });
+  // umgekehrter Bereich, ungültige Uhrzeit oder Freitext → kein Zeitfenster
+  expect(parseLieferzeit("12-8")).toBeUndefined();
+  expect(parseLieferzeit("bis 25:00")).toBeUndefined();
+  expect(parseLieferzeit("vormittags")).toBeUndefined();
+  expect(parseLieferzeit("")).toBeUndefined();
+  expect(parseLieferzeit(null)).toBeUndefined();
+});
+
+test("POST /api/tour/:id/optimieren – sollte die kürzeste Reihenfolge vorschlagen und erst auf Wunsch anwenden", async () => {
+  const c = await stop(1, "Kunde C", 13.7);
+  const a = await stop(2, "Kunde A", 13.5);
+  // bereits zugestellt → bleibt vorne, Start der Planung an seinem Standort
+  const z = await stop(3, "Kunde Z", 13.4, { status: "zugestellt" });
+  const x = await stop(4, "Kunde ohne Koordinaten");
+  const b = await stop(5, "Kunde B", 13.6);
+
+  expect((await optimieren(tokenFuer(["kunde"]))).status).toBe(403);
+
+  const res = await optimieren(tokenFuer(["fahrer"]));
+  expect(res.status).toBe(200);
+  expect(res.body.stops.map((s: any) => [s.stopId, s.positionAlt, s.positionNeu, s.fixiert])).toEqual([
+    [z, 3, 1, true],
+    [a, 2, 2, false],
+    [b, 5, 3, false],
+    [c, 1, 4, false],
+    [x, 4, 5, false],
+  ]);
+  expect(res.body).toMatchObject({ ohneKoordinaten: [x], zeitfensterVerletzt: 0, angewendet: false });
+  expect(res.body.distanzKm).toBeCloseTo(26.4, 1);
+  expect(res.body.vorherDistanzKm).toBeCloseTo(52.8, 1);
+  expect((await TourStop.findById(c).lean())?.position).toBe(1);
+
+  // Anwenden nur durch Admin
+  expect((await optimieren(tokenFuer(["fahrer"]), { anwenden: true })).status).toBe(403);
+  const angewendet = await optimieren(admin, { anwenden: "true" });
+  expect(angewendet.status).toBe(200);
+  expect(angewendet.body.angewendet).toBe(true);
+  const stops = await TourStop.find({ tourId }).sort({ position: 1 }).lean();
+  expect(stops.map((s) => s._id.toString())).toEqual([z, a, b, c, x]);
+});
+
+test("POST /api/tour/:id/optimieren – sollte Zeitfenster vor Kilometern einhalten", async () => {
+  const a = await stop(1, "Kunde A", 13.5);
+  const b = await stop(2, "Kunde B", 13.6);
+  const c = await stop(3, "Kunde C", 13.7, { lieferzeit: "bis 6:45 Uhr" });
+
+  const res = await optimieren(admin);
+  expect(res.status).toBe(200);
+  expect(res.body.stops.map((s: any) => s.stopId)).toEqual([c, b, a]);
+  expect(res.body.zeitfensterVerletzt).toBe(0);
+  expect(res.body.stops[0]).toMatchObject({ zeitfenster: "bis 06:45", ankunft: "06:35", verspaetungMin: 0 });
+  // danach je 20 Minuten Standzeit und knapp 12 Minuten Fahrt
+  expect(res.body.stops.map((s: any) => s.ankunft)).toEqual(["06:35", "07:07", "07:39"]);
+});
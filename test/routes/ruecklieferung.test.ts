@@ -0,0 +1,117 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { BelegArchiv } from "../../src/model/BelegArchivModel";
+import { BestandAggModel } from "../../src/model/BestandsAggModel";
+import { ChargeModel } from "../../src/model/ChargeModel";
+import { Kunde } from "../../src/model/KundeModel";
+import { KundenRuecklieferungModel } from "../../src/model/KundenRuecklieferungModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const lager = tokenFuer(["lager"]);
+const buchhaltung = tokenFuer(["buchhaltung"]);
+
+let positionId: string;
+let chargeId: string;
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const charge = await ChargeModel.create({ artikelId: artikel._id, mhd: new Date("2099-01-01"), isTK: false });
+  chargeId = charge._id.toString();
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 10,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 50,
+    nettogewicht: 10,
+    chargenEntnahmen: [{ chargeId: charge._id, lagerbereich: "NON_TK", menge: 10 }],
+  });
+  positionId = position._id.toString();
+  const auftrag = await Auftrag.create({
+    kunde: kunde._id,
+    kundeName: "Testkunde",
+    artikelPosition: [position._id],
+    status: "abgeschlossen",
+    lieferdatum: new Date("2026-03-02"),
+  });
+  await ArtikelPosition.updateOne({ _id: position._id }, { $set: { auftragId: auftrag._id } });
+
+  const rechnung = await request(app)
+    .post(`/api/beleg/${auftrag._id}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(rechnung.status).toBe(201);
+});
+
+test("POST /api/ruecklieferungen – sollte nicht mehr als die gelieferte Menge zurücknehmen", async () => {
+  const daten = { artikelPositionId: positionId, grund: "QUALITAET", verbleib: "BESTAND" };
+
+  const erste = await request(app)
+    .post("/api/ruecklieferungen")
+    .set("Authorization", `Bearer ${lager}`)
+    .send({ ...daten, menge: 6 });
+  expect(erste.status).toBe(201);
+  expect(erste.body).toMatchObject({ chargeId, menge: 6, status: "ERLEDIGT" });
+
+  const zuViel = await request(app)
+    .post("/api/ruecklieferungen")
+    .set("Authorization", `Bearer ${lager}`)
+    .send({ ...daten, menge: 5 });
+  expect(zuViel.status).toBe(400);
+  expect(zuViel.body.error).toMatch(/offen 4 kg/);
+
+  expect(await KundenRuecklieferungModel.countDocuments()).toBe(1);
+  const agg = await BestandAggModel.findOne({ chargeId: new Types.ObjectId(chargeId) }).lean();
+  expect(agg?.verfuegbar).toBe(6);
+});
+
+test("POST /api/ruecklieferungen/:id/gutschrift – sollte je Rücklieferung nur eine Gutschrift erstellen", async () => {
+  const daten = { artikelPositionId: positionId, menge: 2, grund: "MHD", verbleib: "MUELL" };
+
+  // Gutschrift nur für Buchhaltung/Admin, auch wenn das Flag als Zeichenkette kommt
+  const verboten = await request(app)
+    .post("/api/ruecklieferungen")
+    .set("Authorization", `Bearer ${tokenFuer(["lager"])}`)
+    .send({ ...daten, gutschrift: "true" });
+  expect(verboten.status).toBe(403);
+
+  const rueck = await request(app)
+    .post("/api/ruecklieferungen")
+    .set("Authorization", `Bearer ${tokenFuer(["admin"])}`)
+    .send(daten);
+  expect(rueck.status).toBe(201);
+  expect(rueck.body.gutschrift).toBeUndefined();
+
+  const [a, b] = await Promise.all([
+    request(app).post(`/api/ruecklieferungen/${rueck.body.id}/gutschrift`).set("Authorization", `Bearer ${buchhaltung}`),
+    request(app).post(`/api/ruecklieferungen/${rueck.body.id}/gutschrift`).set("Authorization", `Bearer ${buchhaltung}`),
+  ]);
+  expect([a.status, b.status].sort()).toEqual([201, 400]);
+  const erstellt = a.status === 201 ? a : b;
+  expect(erstellt.body.gutschrift).toMatchObject({ betragNetto: 10 });
+
+  const nochmal = await request(app)
+    .post(`/api/ruecklieferungen/${rueck.body.id}/gutschrift`)
+    .set("Authorization", `Bearer ${buchhaltung}`);
+  expect(nochmal.status).toBe(400);
+  expect(nochmal.body.error).toMatch(/bereits erstellt/);
+
+  expect(await BelegArchiv.countDocuments({ typ: "gutschrift" })).toBe(1);
+});
@@ -0,0 +1,96 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { Kunde } from "../../src/model/KundeModel";
+import { BelegArchiv } from "../../src/model/BelegArchivModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const admin = jwt.sign(
+  { id: new Types.ObjectId().toString(), role: ["admin"], exp: Math.floor(Date.now() / 1000) + 3600 },
+  JWT_SECRET
+);
+
+let kundeId: string;
+
+async function erstelleAuftrag(lieferdatum: string, mwstSatz?: number): Promise<string> {
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 10,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 50,
+  });
+  const auftrag = await Auftrag.create({
+    kunde: kundeId,
+    kundeName: "Testkunde",
+    artikelPosition: [position._id],
+    status: "abgeschlossen",
+    lieferdatum: new Date(lieferdatum),
+    mwstSatz,
+  });
+  await ArtikelPosition.updateOne({ _id: position._id }, { $set: { auftragId: auftrag._id } });
+  return auftrag._id.toString();
+}
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  kundeId = kunde._id.toString();
+});
+
+test("POST /api/sammelrechnungen – sollte alle Lieferungen des Zeitraums unter einer Nummer abrechnen", async () => {
+  const erster = await erstelleAuftrag("2026-03-02");
+  const zweiter = await erstelleAuftrag("2026-03-05");
+  // außerhalb des Zeitraums
+  const spaeter = await erstelleAuftrag("2026-04-01");
+
+  const res = await request(app)
+    .post("/api/sammelrechnungen")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ kundeId, von: "2026-03-01", bis: "2026-03-31", datum: "2026-03-31" });
+
+  expect(res.status).toBe(201);
+  expect(res.body).toHaveProperty("nummer", "RE-2026-00001");
+  expect(res.body).toHaveProperty("betragNetto", 100);
+  expect(res.body.abschnitte).toHaveLength(2);
+  expect(res.body.auftragIds.sort()).toEqual([erster, zweiter].sort());
+
+  const auftraege = await Auftrag.find({ _id: { $in: [erster, zweiter] } }).lean();
+  expect(auftraege.every((a) => a.rechnungsNummer === "RE-2026-00001" && a.rechnungFinalisiertAm)).toBe(true);
+  const offen = await Auftrag.findById(spaeter).lean();
+  expect(offen?.rechnungFinalisiertAm).toBeUndefined();
+
+  // Bereits abgerechnete Lieferungen werden nicht erneut erfasst
+  const nochmal = await request(app)
+    .post("/api/sammelrechnungen")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ kundeId, von: "2026-03-01", bis: "2026-03-31" });
+  expect(nochmal.status).toBe(400);
+  expect(await BelegArchiv.countDocuments()).toBe(1);
+});
+
+test("POST /api/sammelrechnungen – sollte gemischte MwSt-Sätze bei deutschen Kunden ablehnen", async () => {
+  await erstelleAuftrag("2026-03-02", 7);
+  await erstelleAuftrag("2026-03-05", 19);
+
+  const res = await request(app)
+    .post("/api/sammelrechnungen")
+    .set("Authorization", `Bearer ${admin}`)
+    .send({ kundeId, von: "2026-03-01", bis: "2026-03-31" });
+
+  expect(res.status).toBe(400);
+  expect(await BelegArchiv.countDocuments()).toBe(0);
+  expect(await Auftrag.countDocuments({ rechnungFinalisiertAm: { $exists: true } })).toBe(0);
+});
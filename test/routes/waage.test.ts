@@ -0,0 +1,83 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { initWaagen, closeAllWaagen, sendeMockTelegramm } from "../../src/services/waage/WaagenService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const token = jwt.sign(
+  {
+    id: "testuser123",
+    role: ["admin"],
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  },
+  JWT_SECRET
+);
+
+beforeEach(async () => {
+  await initWaagen([
+    { arbeitsplatz: "K1", path: "/dev/ttyMOCK1", protokoll: "KONTINUIERLICH", mock: true },
+    { arbeitsplatz: "K2", path: "/dev/ttyMOCK2", protokoll: "SICS", mock: true },
+  ]);
+});
+
+afterEach(async () => {
+  await closeAllWaagen();
+});
+
+const warte = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+test("GET /api/waagen/:arbeitsplatz/gewicht – sollte stabilen Messwert der Mock-Waage liefern", async () => {
+  sendeMockTelegramm("K1", "US,GS,+  12.100kg");
+  sendeMockTelegramm("K1", "ST,GS,+  12.345kg");
+  await warte(20);
+
+  const res = await request(app).get("/api/waagen/K1/gewicht").set("Authorization", `Bearer ${token}`);
+
+  expect(res.status).toBe(200);
+  expect(res.body).toHaveProperty("brutto", 12.345);
+  expect(res.body).toHaveProperty("stabil", true);
+});
+
+test("GET /api/waagen/:arbeitsplatz/gewicht – sollte Tara (SICS) berücksichtigen und g in kg umrechnen", async () => {
+  sendeMockTelegramm("K2", "TA A     0.500 kg");
+  sendeMockTelegramm("K2", "S S      2500 g");
+  await warte(20);
+
+  const res = await request(app).get("/api/waagen/K2/gewicht").set("Authorization", `Bearer ${token}`);
+
+  expect(res.status).toBe(200);
+  expect(res.body).toHaveProperty("netto", 2.5);
+  expect(res.body).toHaveProperty("tara", 0.5);
+  expect(res.body).toHaveProperty("brutto", 3);
+});
+
+test("GET /api/waagen/:arbeitsplatz/gewicht – sollte 404 bei unbekanntem Arbeitsplatz liefern", async () => {
+  const res = await request(app).get("/api/waagen/XYZ/gewicht").set("Authorization", `Bearer ${token}`);
+
+  expect(res.status).toBe(404);
+});
+
+test("POST /api/waagen/:arbeitsplatz/kommissionierung/:positionId – sollte 400 bei ungültiger Positions-ID liefern", async () => {
+  const res = await request(app)
+    .post("/api/waagen/K1/kommissionierung/123")
+    .set("Authorization", `Bearer ${token}`)
+    .send({});
+
+  expect(res.status).toBe(400);
+});
+
+test("POST /api/waagen/:arbeitsplatz/kommissionierung/:positionId – sollte Kunden nicht buchen lassen", async () => {
+  const kunde = jwt.sign(
+    { id: "kunde123", role: ["kunde"], exp: Math.floor(Date.now() / 1000) + 3600 },
+    JWT_SECRET
+  );
+
+  const res = await request(app)
+    .post("/api/waagen/K1/kommissionierung/507f1f77bcf86cd799439011")
+    .set("Authorization", `Bearer ${kunde}`)
+    .send({});
+
+  expect(res.status).toBe(403);
+});
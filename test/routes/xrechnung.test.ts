@@ -0,0 +1,91 @@
+process.env.JWT_SECRET = "supersecretkey";
+import request from "supertest";
+import app from "../../src/app";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { ArtikelModel } from "../../src/model/ArtikelModel";
+import { ArtikelPosition } from "../../src/model/ArtikelPositionModel";
+import { Auftrag } from "../../src/model/AuftragModel";
+import { Kunde } from "../../src/model/KundeModel";
+import { BelegArchiv } from "../../src/model/BelegArchivModel";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecretkey";
+
+const tokenFuer = (role: string[], id = new Types.ObjectId().toString()) =>
+  jwt.sign({ id, role, exp: Math.floor(Date.now() / 1000) + 3600 }, JWT_SECRET);
+
+const buchhaltung = tokenFuer(["buchhaltung"]);
+
+let kundeId: string;
+let auftragId: string;
+
+beforeEach(async () => {
+  const kunde = await Kunde.create({
+    name: "Testkunde",
+    password: "geheim",
+    email: `kunde-${new Types.ObjectId()}@example.com`,
+    adresse: "Musterstraße 1, 12345 Berlin",
+  });
+  kundeId = kunde._id.toString();
+  const artikel = await ArtikelModel.create({ artikelNummer: "1001", name: "Hähnchenbrust", preis: 5 });
+  const position = await ArtikelPosition.create({
+    artikel: artikel._id,
+    artikelName: "Hähnchenbrust",
+    menge: 10,
+    einheit: "kg",
+    einzelpreis: 5,
+    gesamtpreis: 50,
+  });
+  const auftrag = await Auftrag.create({
+    kunde: kunde._id,
+    kundeName: "Testkunde",
+    artikelPosition: [position._id],
+    status: "abgeschlossen",
+    lieferdatum: new Date("2026-03-02"),
+  });
+  await ArtikelPosition.updateOne({ _id: position._id }, { $set: { auftragId: auftrag._id } });
+  auftragId = auftrag._id.toString();
+
+  const rechnung = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/finalisieren`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+  expect(rechnung.status).toBe(201);
+});
+
+test("POST /api/beleg/:auftragId/rechnung/xml – sollte ohne Anmeldung und für fremde Kunden gesperrt sein", async () => {
+  const ohne = await request(app).post(`/api/beleg/${auftragId}/rechnung/xml`).send({});
+  expect(ohne.status).toBe(401);
+
+  const fremd = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/xml`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"])}`)
+    .send({});
+  expect(fremd.status).toBe(403);
+
+  const zugferd = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/zugferd`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"])}`)
+    .send({});
+  expect(zugferd.status).toBe(403);
+
+  const eigen = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/xml`)
+    .set("Authorization", `Bearer ${tokenFuer(["kunde"], kundeId)}`)
+    .send({});
+  expect(eigen.status).toBe(200);
+});
+
+test("POST /api/beleg/:auftragId/rechnung/xml – sollte die Steuer aus dem archivierten Beleg übernehmen", async () => {
+  // Archivierter Steuerbetrag ist maßgeblich, auch wenn eine Neuberechnung abweichen würde
+  await BelegArchiv.collection.updateOne({ typ: "rechnung" }, { $set: { mwstBetrag: 3.51, betragBrutto: 53.51 } });
+
+  const res = await request(app)
+    .post(`/api/beleg/${auftragId}/rechnung/xml`)
+    .set("Authorization", `Bearer ${buchhaltung}`)
+    .send({});
+
+  expect(res.status).toBe(200);
+  expect(res.text).toContain('<ram:TaxTotalAmount currencyID="EUR">3.51</ram:TaxTotalAmount>');
+  expect(res.text).toContain("<ram:GrandTotalAmount>53.51</ram:GrandTotalAmount>");
+});
@@ -1,9 +1,10 @@
 // cf. https://nodkz.github.io/mongodb-memory-server/docs/guides/integration-examples/test-runners
 
-import { MongoMemoryServer } from "mongodb-memory-server";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
 
 /**
- * Starts the MongoMemoryServer.
+ * Starts the MongoMemoryServer as a single-node replica set
+ * (Belegarchiv, Inventur, FEFO etc. book in MongoDB transactions).
  * 
  * This file is configured in jest.config.js and automatically called before all tests.
  * 
@@ -21,7 +22,7 @@ import { MongoMemoryServer } from "mongodb-memory-server";
  * Please do not change this file.
  */
 export default async function globalSetup() {
-    const instance = await MongoMemoryServer.create();
+    const instance = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
     const uri = instance.getUri();
     (global as any).__MONGOINSTANCE = instance;
     // await mongoose.connect(uri);
@@ -1,6 +1,6 @@
 // cf. https://nodkz.github.io/mongodb-memory-server/docs/guides/integration-examples/test-runners
 
-import { MongoMemoryServer } from "mongodb-memory-server";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
 
 /**
  * Stops the MongoMemoryServer. 
@@ -12,7 +12,7 @@ import { MongoMemoryServer } from "mongodb-memory-server";
  * Please do not change this file.
  */
 export default async function globalTeardown() {
-    const instance: MongoMemoryServer = (global as any).__MONGOINSTANCE;
+    const instance: MongoMemoryReplSet = (global as any).__MONGOINSTANCE;
     if (!instance) {
         throw new Error("MongoMemoryServer not found, please fix globalSetup.");
     }